@@ -14,7 +14,8 @@
  * Dependencies:
  * - @/utils/errorHandling for consistent error handling
  * - @/utils/apiRequest for standardized API responses
- * - @/lib/pinecone-rest-client for vector operations
+ * - @/lib/vector-store for vector operations
+ * - @/lib/conversation-store for searches, conversations and messages
  * - @/lib/utils/logger for structured logging
  * - @/lib/utils/validators for input validation
  */
@@ -27,14 +28,16 @@ import {
   queryVectors,
   createPlaceholderVector,
   describeIndexStats,
-  type PineconeQueryMatch,
-} from "@/lib/pinecone-rest-client"
+  getUserNamespace,
+  type VectorQueryMatch,
+} from "@/lib/vector-store"
+import { listSearchLogs, listUserConversations, listUserMessages } from "@/lib/conversation-store"
 import { logger } from "@/lib/utils/logger"
 import { isValidDateString, isValidTimeRange } from "@/lib/utils/validators"
 
 export const runtime = "edge"
 
-// Maximum number of vectors to query
+// Maximum number of records read per record type
 const MAX_VECTORS_PER_QUERY = 10000
 
 // Cache TTL in seconds (5 minutes)
@@ -237,12 +240,22 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
       // Combine with date filter if applicable
       const baseFilter = dateFilter ? { ...userFilter, ...dateFilter } : userFilter
 
+      // Documents and chunks live in the user's own namespace
+      const userNamespace = getUserNamespace(userId)
+
+      // Same range for the conversation store
+      const storeRange = {
+        from: dateFilter?.created_at.$gte as string | undefined,
+        to: dateFilter?.created_at.$lt as string | undefined,
+        limit: MAX_VECTORS_PER_QUERY,
+      }
+
       // Fetch data based on requested type
-      let documentData: PineconeQueryMatch[] = []
-      let chunkData: PineconeQueryMatch[] = []
-      let searchData: PineconeQueryMatch[] = []
-      let chatData: PineconeQueryMatch[] = []
-      let messageData: PineconeQueryMatch[] = []
+      let documentData: VectorQueryMatch[] = []
+      let chunkData: VectorQueryMatch[] = []
+      let searchData: VectorQueryMatch[] = []
+      let chatData: VectorQueryMatch[] = []
+      let messageData: VectorQueryMatch[] = []
 
       // Parallel data fetching for better performance
       const fetchPromises: Promise<any>[] = []
@@ -250,9 +263,11 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
       if (type === "all" || type === "documents") {
         // Document data
         fetchPromises.push(
-          queryVectors(placeholderVector, MAX_VECTORS_PER_QUERY, true, {
-            ...baseFilter,
-            record_type: "document",
+          queryVectors(placeholderVector, {
+            topK: MAX_VECTORS_PER_QUERY,
+            includeMetadata: true,
+            filter: { ...baseFilter, record_type: "document" },
+            namespace: userNamespace,
           }).then((result) => {
             documentData = Array.isArray(result.matches) ? result.matches : []
           }),
@@ -260,9 +275,11 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
 
         // Chunk data
         fetchPromises.push(
-          queryVectors(placeholderVector, MAX_VECTORS_PER_QUERY, true, {
-            ...baseFilter,
-            record_type: "chunk",
+          queryVectors(placeholderVector, {
+            topK: MAX_VECTORS_PER_QUERY,
+            includeMetadata: true,
+            filter: { ...baseFilter, record_type: "chunk" },
+            namespace: userNamespace,
           }).then((result) => {
             chunkData = Array.isArray(result.matches) ? result.matches : []
           }),
@@ -272,11 +289,8 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
       if (type === "all" || type === "search") {
         // Search data
         fetchPromises.push(
-          queryVectors(placeholderVector, MAX_VECTORS_PER_QUERY, true, {
-            ...baseFilter,
-            record_type: "search_history",
-          }).then((result) => {
-            searchData = Array.isArray(result.matches) ? result.matches : []
+          listSearchLogs(userId, storeRange).then((searches) => {
+            searchData = toRecordMatches(searches)
           }),
         )
       }
@@ -284,21 +298,15 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
       if (type === "all" || type === "chat") {
         // Conversation data
         fetchPromises.push(
-          queryVectors(placeholderVector, MAX_VECTORS_PER_QUERY, true, {
-            ...baseFilter,
-            record_type: "conversation",
-          }).then((result) => {
-            chatData = Array.isArray(result.matches) ? result.matches : []
+          listUserConversations(userId, storeRange).then((conversations) => {
+            chatData = toRecordMatches(conversations)
           }),
         )
 
         // Message data
         fetchPromises.push(
-          queryVectors(placeholderVector, MAX_VECTORS_PER_QUERY, true, {
-            ...baseFilter,
-            record_type: "message",
-          }).then((result) => {
-            messageData = Array.isArray(result.matches) ? result.matches : []
+          listUserMessages(userId, storeRange).then((messages) => {
+            messageData = toRecordMatches(messages)
           }),
         )
       }
@@ -394,6 +402,13 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
   }, request)
 })
 
+/**
+ * Wraps records from the conversation store in the match shape the processors read
+ */
+function toRecordMatches(records: Array<{ id: string | number }>): VectorQueryMatch[] {
+  return records.map((record) => ({ id: String(record.id), score: 0, metadata: record as Record<string, any> }))
+}
+
 /**
  * Generates a date filter object based on the specified time range
  */
@@ -451,8 +466,8 @@ function getDateFilter(
  * Processes document data to generate document analytics
  */
 function processDocumentAnalytics(
-  documentData: PineconeQueryMatch[],
-  chunkData: PineconeQueryMatch[],
+  documentData: VectorQueryMatch[],
+  chunkData: VectorQueryMatch[],
   detailed: boolean,
 ): DocumentAnalytics {
   // Count documents by status
@@ -537,7 +552,7 @@ function processDocumentAnalytics(
 /**
  * Processes search data to generate search analytics
  */
-function processSearchAnalytics(searchData: PineconeQueryMatch[], detailed: boolean): SearchAnalytics {
+function processSearchAnalytics(searchData: VectorQueryMatch[], detailed: boolean): SearchAnalytics {
   // Count search terms
   const termCount = new Map<string, number>()
 
@@ -614,8 +629,8 @@ function processSearchAnalytics(searchData: PineconeQueryMatch[], detailed: bool
  * Processes chat data to generate chat analytics
  */
 function processChatAnalytics(
-  chatData: PineconeQueryMatch[],
-  messageData: PineconeQueryMatch[],
+  chatData: VectorQueryMatch[],
+  messageData: VectorQueryMatch[],
   detailed: boolean,
 ): ChatAnalytics {
   // Count messages by role
@@ -693,10 +708,10 @@ function processChatAnalytics(
  * Processes system data to generate system analytics
  */
 function processSystemAnalytics(
-  documentData: PineconeQueryMatch[],
-  chunkData: PineconeQueryMatch[],
-  searchData: PineconeQueryMatch[],
-  messageData: PineconeQueryMatch[],
+  documentData: VectorQueryMatch[],
+  chunkData: VectorQueryMatch[],
+  searchData: VectorQueryMatch[],
+  messageData: VectorQueryMatch[],
   indexStats: {
     totalVectorCount: number
     namespaceCount: number
@@ -4,13 +4,18 @@
  * Handles chat message operations including retrieval, creation and AI-powered responses.
  * Provides endpoints for fetching conversation messages and sending new messages.
  * Implements RAG (Retrieval Augmented Generation) using Pinecone for context.
+ * Messages are stored in the conversation store; the message embedding is only used to
+ * retrieve context for the request and is not indexed.
+ * The "graph" retrieval mode expands the vector results through the knowledge graph
+ * for multi-hop questions, and reports the entity path behind each added source.
  *
  * Routes:
- * - GET: Retrieve messages for a conversation with pagination
+ * - GET: Retrieve messages for a conversation with cursor pagination
  * - POST: Create a new message and generate AI response with streaming
  *
  * Dependencies:
- * - Pinecone for vector storage and context retrieval
+ * - @/lib/vector-store for vector storage and context retrieval
+ * - @/lib/conversation-store for conversations and messages
  * - OpenAI for embeddings and text generation
  * - Vercel Edge Runtime for serverless execution
  *
@@ -19,12 +24,20 @@
 
 import type { NextRequest } from "next/server"
 import { StreamingTextResponse, type Message } from "ai"
-import { handleApiRequest } from "@/utils/apiRequest"
 import { withErrorHandling } from "@/utils/errorHandling"
 import { ValidationError } from "@/utils/validation"
 import { logger } from "@/lib/utils/logger"
-import { queryVectors, createPlaceholderVector, upsertVectors, hybridSearch } from "@/lib/pinecone-rest-client"
+import { getUserNamespace, queryVectors, hybridSearch } from "@/lib/vector-store"
+import {
+  addMessage,
+  ConversationStoreError,
+  ensureConversation,
+  getRecentMessages,
+  listMessages,
+} from "@/lib/conversation-store"
 import { generateEmbedding } from "@/lib/embedding-service"
+import { getLatestVersionClause } from "@/lib/document-versioning"
+import { expandContextWithGraph, formatGraphPath, type GraphPathStep } from "@/lib/graph-retrieval"
 import { openai } from "@ai-sdk/openai"
 import { NextResponse } from "next/server"
 import { streamText } from "@/lib/streamText" // Import streamText
@@ -35,6 +48,9 @@ export const runtime = "edge"
 // Define conversation modes
 type ConversationMode = "chat" | "qa" | "analysis"
 
+// Define context retrieval modes
+type RetrievalMode = "vector" | "graph"
+
 // Define message source interface
 interface MessageSource {
   id: string
@@ -43,7 +59,17 @@ interface MessageSource {
   chunkId: string
   score: number
   content: string
+  pageNumber?: number
+  sheetName?: string
+  rowStart?: number
+  rowEnd?: number
+  sourcePath?: string
+  symbol?: string
+  startLine?: number
+  endLine?: number
   metadata?: Record<string, any>
+  retrievedBy?: RetrievalMode
+  graphPath?: GraphPathStep[]
 }
 
 // Define context retrieval options
@@ -58,114 +84,102 @@ interface ContextOptions {
   }
   hybridSearch?: boolean
   reranking?: boolean
+  retrievalMode?: RetrievalMode
+  maxGraphResults?: number
 }
 
 /**
- * GET handler for fetching messages in a conversation with pagination
+ * Converts a stored chunk into a context item
+ *
+ * @param chunkId - Chunk vector ID
+ * @param score - Relevance score
+ * @param metadata - Chunk metadata
+ * @param includeMetadata - Whether to attach the raw metadata
+ * @returns Context item
  */
-export const GET = withErrorHandling(async (request: NextRequest) => {
-  return handleApiRequest(async () => {
-    try {
-      const { searchParams } = new URL(request.url)
-      const conversationId = searchParams.get("conversationId")
-      const limit = Number.parseInt(searchParams.get("limit") || "50", 10)
-      const offset = Number.parseInt(searchParams.get("offset") || "0", 10)
-      const includeMetadata = searchParams.get("includeMetadata") === "true"
-
-      logger.info(`GET /api/chat/messages - Fetching messages`, {
-        conversationId,
-        limit,
-        offset,
-        includeMetadata,
-      })
-
-      if (!conversationId) {
-        throw new ValidationError("Conversation ID is required")
-      }
-
-      // Validate pagination parameters
-      if (isNaN(limit) || limit < 1 || limit > 100) {
-        throw new ValidationError("Invalid limit parameter (must be between 1 and 100)")
-      }
-
-      if (isNaN(offset) || offset < 0) {
-        throw new ValidationError("Invalid offset parameter (must be >= 0)")
-      }
-
-      // Create a placeholder vector for querying
-      const placeholderVector = createPlaceholderVector()
-
-      // Query Pinecone for messages with pagination
-      const response = await queryVectors(placeholderVector, limit + 1, true, {
-        conversation_id: { $eq: conversationId },
-        record_type: { $eq: "message" },
-      })
+function toMessageSource(
+  chunkId: string,
+  score: number,
+  metadata: Record<string, any> | undefined,
+  includeMetadata: boolean,
+): MessageSource {
+  return {
+    id: `src_${chunkId}`,
+    documentName: metadata?.document_name || "Unknown",
+    documentId: metadata?.document_id || "",
+    chunkId,
+    score,
+    content: metadata?.content || "",
+    pageNumber: metadata?.page_number as number | undefined,
+    sheetName: metadata?.sheet_name as string | undefined,
+    rowStart: metadata?.row_start as number | undefined,
+    rowEnd: metadata?.row_end as number | undefined,
+    sourcePath: metadata?.source_path as string | undefined,
+    symbol: metadata?.symbol as string | undefined,
+    startLine: metadata?.start_line as number | undefined,
+    endLine: metadata?.end_line as number | undefined,
+    metadata: includeMetadata ? metadata : undefined,
+  }
+}
 
-      // Ensure matches is an array
-      const matches = Array.isArray(response.matches) ? response.matches : []
-
-      // Format messages with enhanced metadata
-      const messages = matches.map((match) => {
-        // Base message properties
-        const message = {
-          id: match.id,
-          conversation_id: match.metadata?.conversation_id || "",
-          role: match.metadata?.role || "user",
-          content: match.metadata?.content || "",
-          created_at: match.metadata?.created_at || new Date().toISOString(),
-          sources: match.metadata?.sources || [],
-        }
+/**
+ * GET handler for fetching messages in a conversation with cursor pagination
+ */
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const { searchParams } = new URL(request.url)
+  const conversationId = searchParams.get("conversationId")
+  const limit = Number.parseInt(searchParams.get("limit") || "50", 10)
+  const cursor = searchParams.get("cursor") || undefined
+  const order = searchParams.get("order") === "desc" ? "desc" : "asc"
+  const includeMetadata = searchParams.get("includeMetadata") === "true"
+
+  logger.info(`GET /api/chat/messages - Fetching messages`, {
+    conversationId,
+    limit,
+    order,
+    hasCursor: !!cursor,
+    includeMetadata,
+  })
 
-        // Add additional metadata if requested
-        if (includeMetadata && match.metadata) {
-          return {
-            ...message,
-            metadata: {
-              ...match.metadata,
-              // Remove duplicate fields already in the message
-              conversation_id: undefined,
-              role: undefined,
-              content: undefined,
-              created_at: undefined,
-              sources: undefined,
-            },
-          }
-        }
+  if (!conversationId) {
+    throw new ValidationError("Conversation ID is required")
+  }
 
-        return message
-      })
+  // Validate pagination parameters
+  if (isNaN(limit) || limit < 1 || limit > 100) {
+    throw new ValidationError("Invalid limit parameter (must be between 1 and 100)")
+  }
 
-      // Sort by creation time
-      messages.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+  let page
+  try {
+    page = await listMessages(conversationId, { limit, cursor, order })
+  } catch (error) {
+    if (error instanceof ConversationStoreError && error.code === "invalid_cursor") {
+      throw new ValidationError(error.message)
+    }
+    throw error
+  }
 
-      // Apply pagination
-      const paginatedMessages = messages.slice(offset, offset + limit)
-      const hasMore = messages.length > limit
+  const messages = page.items.map((message) => (includeMetadata ? message : { ...message, metadata: undefined }))
 
-      logger.info(`GET /api/chat/messages - Successfully fetched messages`, {
-        conversationId,
-        messageCount: paginatedMessages.length,
-        hasMore,
-        totalAvailable: hasMore ? offset + messages.length : offset + paginatedMessages.length,
-      })
+  logger.info(`GET /api/chat/messages - Successfully fetched messages`, {
+    conversationId,
+    messageCount: messages.length,
+    total: page.total,
+  })
 
-      return {
-        messages: paginatedMessages,
-        pagination: {
-          offset,
-          limit,
-          hasMore,
-          total: hasMore ? -1 : offset + paginatedMessages.length, // -1 indicates unknown total
-        },
-      }
-    } catch (error) {
-      logger.error("GET /api/chat/messages - Error fetching messages", {
-        error: error instanceof Error ? error.message : "Unknown error",
-        stack: error instanceof Error ? error.stack : undefined,
-      })
-      throw error
-    }
-  }, request)
+  return NextResponse.json({
+    success: true,
+    data: {
+      messages,
+      pagination: {
+        limit,
+        total: page.total,
+        nextCursor: page.nextCursor,
+        hasMore: page.nextCursor !== null,
+      },
+    },
+  })
 })
 
 /**
@@ -191,6 +205,8 @@ async function retrieveContext(
     filterByDate,
     hybridSearch: useHybridSearch = true,
     reranking = true,
+    retrievalMode = "vector",
+    maxGraphResults = 3,
   } = options
 
   logger.info(`Retrieving context for query`, {
@@ -201,6 +217,7 @@ async function retrieveContext(
     filterByDocuments: filterByDocuments.length,
     useHybridSearch,
     reranking,
+    retrievalMode,
   })
 
   try {
@@ -208,6 +225,8 @@ async function retrieveContext(
     const filter: Record<string, any> = {
       user_id: { $eq: userId },
       record_type: { $eq: "chunk" },
+      // Answers are grounded in the version of each document that is currently served
+      $and: [getLatestVersionClause()],
     }
 
     // Add document filter if specified
@@ -240,7 +259,7 @@ async function retrieveContext(
         {
           filter,
           topK: maxResults * 2, // Get more results for reranking
-          namespace: "",
+          namespace: getUserNamespace(userId),
           alpha: 0.75, // Balance between vector and keyword search
         },
       )
@@ -251,7 +270,7 @@ async function retrieveContext(
         includeMetadata,
         includeValues: false,
         filter,
-        namespace: "",
+        namespace: getUserNamespace(userId),
       })
     }
 
@@ -267,27 +286,12 @@ async function retrieveContext(
     }
 
     // Process and format matches
-    let contextItems = matches
+    let contextItems: MessageSource[] = matches
       .filter((match) => match.score && match.score >= minScore)
-      .map((match) => {
-        // Extract document and chunk information
-        const documentId = match.metadata?.document_id || ""
-        const documentName = match.metadata?.document_name || "Unknown"
-        const content = match.metadata?.content || ""
-        const chunkId = match.id || ""
-        const score = match.score || 0
-
-        // Create context item
-        return {
-          id: `src_${chunkId}`,
-          documentName,
-          documentId,
-          chunkId,
-          score,
-          content,
-          metadata: includeMetadata ? match.metadata : undefined,
-        }
-      })
+      .map((match) => ({
+        ...toMessageSource(match.id || "", match.score || 0, match.metadata, includeMetadata),
+        retrievedBy: "vector" as const,
+      }))
       .filter((item) => item.content && item.content.trim() !== "")
 
     // Apply reranking if enabled and we have enough results
@@ -329,10 +333,42 @@ async function retrieveContext(
     // Limit to requested number of results
     contextItems = contextItems.slice(0, maxResults)
 
+    // Follow the knowledge graph from the entities in the query and the top chunks
+    if (retrievalMode === "graph" && maxGraphResults > 0) {
+      try {
+        const expansions = await expandContextWithGraph(
+          query,
+          userId,
+          contextItems.map((item) => ({ chunkId: item.chunkId, score: item.score })),
+          { maxChunks: maxGraphResults, documentIds: filterByDocuments },
+        )
+
+        const graphItems = expansions
+          .filter(
+            ({ metadata }) =>
+              (!filterByDate?.start || metadata.created_at >= filterByDate.start) &&
+              (!filterByDate?.end || metadata.created_at <= filterByDate.end),
+          )
+          .map((expansion) => ({
+            ...toMessageSource(expansion.chunkId, expansion.score, expansion.metadata, includeMetadata),
+            retrievedBy: "graph" as const,
+            graphPath: expansion.path,
+          }))
+
+        contextItems = [...contextItems, ...graphItems]
+      } catch (error) {
+        // Vector results still answer the question
+        logger.warn("Graph expansion failed", {
+          error: error instanceof Error ? error.message : "Unknown error",
+        })
+      }
+    }
+
     logger.info(`Retrieved ${contextItems.length} context items`, {
       topScore: contextItems.length > 0 ? contextItems[0].score : 0,
       bottomScore: contextItems.length > 0 ? contextItems[contextItems.length - 1].score : 0,
       documentCount: new Set(contextItems.map((item) => item.documentId)).size,
+      graphItems: contextItems.filter((item) => item.retrievedBy === "graph").length,
     })
 
     return contextItems
@@ -348,11 +384,11 @@ async function retrieveContext(
 }
 
 /**
- * Retrieves conversation history from Pinecone
+ * Retrieves conversation history
  *
  * @param conversationId - ID of the conversation
  * @param limit - Maximum number of messages to retrieve
- * @returns Array of messages in the conversation
+ * @returns Latest messages of the conversation, oldest first
  */
 async function getConversationHistory(conversationId: string, limit = 10): Promise<Message[]> {
   try {
@@ -361,50 +397,17 @@ async function getConversationHistory(conversationId: string, limit = 10): Promi
       limit,
     })
 
-    // Query Pinecone for conversation history
-    const historyResponse = await queryVectors(createPlaceholderVector(), {
-      topK: limit * 2, // Get more to ensure we have enough valid messages
-      includeMetadata: true,
-      includeValues: false,
-      filter: {
-        conversation_id: { $eq: conversationId },
-        record_type: { $eq: "message" },
-      },
-    })
-
-    // Ensure matches is an array
-    const historyMatches = Array.isArray(historyResponse.matches) ? historyResponse.matches : []
+    const messages = await getRecentMessages(conversationId, limit)
 
-    if (historyMatches.length === 0) {
-      logger.info("No conversation history found", { conversationId })
-      return []
-    }
-
-    // Format history with validation
-    let history = historyMatches
-      .map((match) => ({
-        role: match.metadata?.role || "user",
-        content: match.metadata?.content || "",
-        created_at: match.metadata?.created_at || "",
-      }))
-      .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
-      .slice(-limit) // Get last N messages
+    // Ensure we have valid history messages
+    const history = messages
+      .filter((msg) => msg.content.trim() !== "" && (msg.role === "user" || msg.role === "assistant"))
       .map((msg) => ({
-        role: msg.role as "user" | "assistant",
+        id: msg.id,
+        role: msg.role,
         content: msg.content,
       }))
 
-    // Ensure we have valid history messages
-    history = history.filter(
-      (msg) =>
-        msg.content &&
-        typeof msg.content === "string" &&
-        msg.content.trim() !== "" &&
-        msg.role &&
-        typeof msg.role === "string" &&
-        (msg.role === "user" || msg.role === "assistant"),
-    )
-
     logger.info(`Retrieved ${history.length} conversation history messages`, {
       conversationId,
     })
@@ -421,6 +424,27 @@ async function getConversationHistory(conversationId: string, limit = 10): Promi
   }
 }
 
+/**
+ * Formats where in a document a source comes from, e.g. ", p. 12", ", Sheet2 rows 40–60" or ", src/app.ts:10–42"
+ *
+ * @param item - Context item
+ * @returns Location suffix, or an empty string if the source has no location
+ */
+function formatSourceLocation(item: MessageSource): string {
+  if (item.sourcePath) {
+    const lines = item.startLine !== undefined ? `:${item.startLine}–${item.endLine ?? item.startLine}` : ""
+    const symbol = item.symbol ? ` (${item.symbol})` : ""
+    return `, ${item.sourcePath}${lines}${symbol}`
+  }
+
+  if (item.rowStart !== undefined) {
+    const sheet = item.sheetName ? `${item.sheetName} ` : ""
+    return `, ${sheet}rows ${item.rowStart}–${item.rowEnd ?? item.rowStart}`
+  }
+
+  return item.pageNumber !== undefined ? `, p. ${item.pageNumber}` : ""
+}
+
 /**
  * Constructs an optimized system prompt based on context and conversation mode
  *
@@ -474,6 +498,9 @@ Be conversational but precise in your responses.`
     if (detailedCitations) {
       citationInstructions = `
 Always cite your sources using [Document: Title] format at the end of sentences that use information from that source.
+When a source lists a page, include it like [Document: Title, p. 12].
+When a source lists rows, include them like [Document: Title, Sheet2 rows 40–60].
+When a source is a code file, include its path and lines like [Document: Title, src/app.ts:10–42].
 If information comes from multiple sources, cite all of them like [Document: Title1, Title2].
 At the end of your response, list all sources used with their titles.`
     } else {
@@ -488,8 +515,11 @@ At the end of your response, list the sources you used.`
     context.length > 0
       ? context
           .map((item, index) => {
-            const sourcePrefix = `[${index + 1}] Document: ${item.documentName}`
-            return `${sourcePrefix}\n${item.content}`
+            const sourcePrefix = `[${index + 1}] Document: ${item.documentName}${formatSourceLocation(item)}`
+            const graphNote = item.graphPath
+              ? `\nFound through related entities: ${formatGraphPath(item.graphPath)}`
+              : ""
+            return `${sourcePrefix}${graphNote}\n${item.content}`
           })
           .join("\n\n")
       : "No relevant context found for this query."
@@ -518,6 +548,18 @@ function extractSources(context: MessageSource[]): string[] {
   ]
 }
 
+/**
+ * Describes the entity paths that brought graph results into the context
+ *
+ * @param context - Retrieved context items
+ * @returns One entry per graph result, e.g. "Report.pdf: Acme -supplies-> Widgets"
+ */
+function extractGraphPaths(context: MessageSource[]): string[] {
+  return context
+    .filter((item) => item.graphPath)
+    .map((item) => `${item.documentName}: ${formatGraphPath(item.graphPath as GraphPathStep[])}`)
+}
+
 /**
  * POST handler for creating a new message and generating an AI response with streaming
  */
@@ -583,6 +625,14 @@ export const POST = async (request: NextRequest) => {
       return NextResponse.json({ success: false, error: "mode must be one of: chat, qa, analysis" }, { status: 400 })
     }
 
+    if (contextOptions.retrievalMode && !["vector", "graph"].includes(contextOptions.retrievalMode)) {
+      logger.error("Invalid retrieval mode", { providedMode: contextOptions.retrievalMode })
+      return NextResponse.json(
+        { success: false, error: "contextOptions.retrievalMode must be one of: vector, graph" },
+        { status: 400 },
+      )
+    }
+
     logger.info(`POST /api/chat/messages - Processing chat message`, {
       conversationId,
       userId,
@@ -614,31 +664,34 @@ export const POST = async (request: NextRequest) => {
       )
     }
 
-    // Store user message
+    // Earlier messages, read before this one is stored
+    const history = await getConversationHistory(conversationId, 10)
+
+    // Store user message, creating the conversation if the client has not
     try {
-      await upsertVectors([
-        {
-          id: userMessageId,
-          values: userEmbedding,
-          metadata: {
-            conversation_id: conversationId,
-            role: "user",
-            content,
-            user_id: userId,
-            created_at: now,
-            record_type: "message",
-          },
-        },
-      ])
-    } catch (upsertError) {
+      await ensureConversation(conversationId, userId)
+      await addMessage({
+        id: userMessageId,
+        conversationId,
+        userId,
+        role: "user",
+        content,
+        createdAt: now,
+      })
+    } catch (storeError) {
       logger.error("Failed to store user message", {
-        error: upsertError instanceof Error ? upsertError.message : "Unknown error",
+        error: storeError instanceof Error ? storeError.message : "Unknown error",
         userMessageId,
       })
+
+      if (storeError instanceof ConversationStoreError && storeError.code === "conversation_not_found") {
+        return NextResponse.json({ success: false, error: storeError.message }, { status: 404 })
+      }
+
       return NextResponse.json(
         {
           success: false,
-          error: `Failed to store user message: ${upsertError instanceof Error ? upsertError.message : "Unknown error"}`,
+          error: `Failed to store user message: ${storeError instanceof Error ? storeError.message : "Unknown error"}`,
         },
         { status: 500 },
       )
@@ -658,11 +711,8 @@ export const POST = async (request: NextRequest) => {
       reranking: contextOptions.reranking !== false,
     })
 
-    // Get conversation history
-    const history = await getConversationHistory(conversationId, 10)
-
     // Add the current user message to history
-    const updatedHistory = [...history, { role: "user" as const, content }]
+    const updatedHistory = [...history, { id: userMessageId, role: "user" as const, content }]
 
     // Construct system prompt
     const systemPrompt = constructSystemPrompt(context, mode, {
@@ -673,6 +723,7 @@ export const POST = async (request: NextRequest) => {
 
     // Extract sources for metadata
     const sources = extractSources(context)
+    const graphPaths = extractGraphPaths(context)
 
     // For streaming responses
     if (streaming) {
@@ -708,39 +759,22 @@ export const POST = async (request: NextRequest) => {
               const fullResponse = fullResponseChunks.join("")
 
               if (fullResponse.trim() !== "") {
-                // Generate embedding for response
-                let responseEmbedding
-                try {
-                  responseEmbedding = await generateEmbedding(fullResponse)
-                } catch (embeddingError) {
-                  logger.error("Error generating embedding for AI response", {
-                    error: embeddingError instanceof Error ? embeddingError.message : "Unknown error",
-                  })
-
-                  // Use a placeholder embedding instead of failing
-                  responseEmbedding = createPlaceholderVector()
-                }
-
                 // Store assistant message
                 const assistantMessageId = `msg_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`
 
-                await upsertVectors([
-                  {
-                    id: assistantMessageId,
-                    values: responseEmbedding,
-                    metadata: {
-                      conversation_id: conversationId,
-                      role: "assistant",
-                      content: fullResponse,
-                      user_id: userId,
-                      created_at: new Date().toISOString(),
-                      sources,
-                      mode,
-                      context_count: context.length,
-                      record_type: "message",
-                    },
+                await addMessage({
+                  id: assistantMessageId,
+                  conversationId,
+                  userId,
+                  role: "assistant",
+                  content: fullResponse,
+                  sources,
+                  metadata: {
+                    mode,
+                    context_count: context.length,
+                    ...(graphPaths.length > 0 && { graph_paths: graphPaths }),
                   },
-                ])
+                })
 
                 logger.info(`Assistant response stored`, {
                   conversationId,
@@ -805,40 +839,22 @@ export const POST = async (request: NextRequest) => {
           )
         }
 
-        // Generate embedding for response
-        let responseEmbedding
-        try {
-          responseEmbedding = await generateEmbedding(responseContent)
-        } catch (embeddingError) {
-          logger.error("Error generating embedding for AI response", {
-            error: embeddingError instanceof Error ? embeddingError.message : "Unknown error",
-            responseContentSample: responseContent.substring(0, 100) + "...",
-          })
-
-          // Use a placeholder embedding instead of failing
-          responseEmbedding = createPlaceholderVector()
-        }
-
         // Store assistant message
         const assistantMessageId = `msg_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`
 
-        await upsertVectors([
-          {
-            id: assistantMessageId,
-            values: responseEmbedding,
-            metadata: {
-              conversation_id: conversationId,
-              role: "assistant",
-              content: responseContent,
-              user_id: userId,
-              created_at: new Date().toISOString(),
-              sources,
-              mode,
-              context_count: context.length,
-              record_type: "message",
-            },
+        const assistantMessage = await addMessage({
+          id: assistantMessageId,
+          conversationId,
+          userId,
+          role: "assistant",
+          content: responseContent,
+          sources,
+          metadata: {
+            mode,
+            context_count: context.length,
+            ...(graphPaths.length > 0 && { graph_paths: graphPaths }),
           },
-        ])
+        })
 
         logger.info(`Assistant response generated and stored`, {
           conversationId,
@@ -851,18 +867,21 @@ export const POST = async (request: NextRequest) => {
         return NextResponse.json({
           success: true,
           message: {
-            id: assistantMessageId,
+            id: assistantMessage.id,
             conversation_id: conversationId,
             role: "assistant",
             content: responseContent,
-            created_at: new Date().toISOString(),
+            created_at: assistantMessage.created_at,
             sources,
           },
           context: references
             ? context.map((c) => ({
                 documentName: c.documentName,
                 documentId: c.documentId,
+                chunkId: c.chunkId,
                 score: c.score,
+                retrievedBy: c.retrievedBy,
+                ...(c.graphPath && { graphPath: c.graphPath, path: formatGraphPath(c.graphPath) }),
               }))
             : undefined,
         })
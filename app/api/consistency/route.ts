@@ -0,0 +1,96 @@
+/**
+ * Consistency Check API Route
+ *
+ * Reconciles document records with their chunk vectors and Blob files (see
+ * lib/consistency-checker). GET checks one user and returns the report without changing
+ * anything, or returns the status and report of a check job. POST queues a check of one user or
+ * of every user as a background job, optionally repairing what it finds.
+ *
+ * Dependencies:
+ * - @/lib/cron-auth for restricting access to operators and Vercel Cron
+ * - @/lib/consistency-checker for checking and repairing
+ * - @/lib/job-queue for the status of check jobs
+ * - @/utils/errorHandling for consistent error handling
+ * - @/lib/utils/logger for logging
+ *
+ * @module app/api/consistency/route
+ */
+
+import { type NextRequest, NextResponse } from "next/server"
+import { NotFoundError, ValidationError, withErrorHandling } from "@/utils/errorHandling"
+import { assertCronAccess } from "@/lib/cron-auth"
+import { checkUserConsistency, enqueueConsistencyCheck } from "@/lib/consistency-checker"
+import { getJob } from "@/lib/job-queue"
+import { logger } from "@/lib/utils/logger"
+
+export const runtime = "edge"
+
+/**
+ * GET handler that checks one user, or reports on a check job
+ * Expects a userId or a jobId query parameter
+ */
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  assertCronAccess(request)
+
+  const { searchParams } = new URL(request.url)
+  const userId = searchParams.get("userId")
+  const jobId = searchParams.get("jobId")
+
+  if (jobId) {
+    const job = await getJob(jobId)
+
+    if (!job || job.type !== "check_consistency") {
+      throw new NotFoundError(`Consistency check with job ID ${jobId} not found`, "job")
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        jobId: job.id,
+        status: job.status,
+        progress: job.progress,
+        message: job.message,
+        report: job.result,
+        error: job.error_message,
+      },
+    })
+  }
+
+  if (!userId) {
+    throw new ValidationError("User ID or job ID is required")
+  }
+
+  const report = await checkUserConsistency(userId)
+
+  return NextResponse.json({
+    success: true,
+    data: report,
+  })
+})
+
+/**
+ * POST handler that queues a check
+ * Accepts a JSON body with an optional userId (every user when missing) and repair flag
+ */
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  assertCronAccess(request)
+
+  const { userId, repair = false } = await request.json().catch(() => ({}))
+
+  if (userId !== undefined && (typeof userId !== "string" || !userId.trim())) {
+    throw new ValidationError("userId must be a non-empty string")
+  }
+
+  if (typeof repair !== "boolean") {
+    throw new ValidationError("repair must be a boolean")
+  }
+
+  const jobId = await enqueueConsistencyCheck({ userId, repair })
+
+  logger.info(`POST /api/consistency - Consistency check queued`, { jobId, userId: userId || "all", repair })
+
+  return NextResponse.json({
+    success: true,
+    data: { jobId },
+  })
+})
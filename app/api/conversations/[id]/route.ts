@@ -4,342 +4,240 @@
  * Handles operations on a specific conversation.
  * This route is Edge-compatible and works with Vercel's serverless environment.
  *
+ * Routes:
+ * - GET: A conversation, optionally with a page of its messages
+ * - PUT: Replace the editable fields of a conversation
+ * - PATCH: Change fields of a conversation, or add and remove tags
+ * - DELETE: Delete a conversation with its messages
+ *
  * Dependencies:
+ * - @/lib/conversation-store for conversation storage
  * - @/utils/errorHandling for consistent error handling
- * - @/utils/apiRequest for standardized API responses
- * - @/utils/validation for input validation
  * - @/lib/utils/logger for logging
- * - @/lib/pinecone-rest-client for vector operations
+ *
+ * @module app/api/conversations/[id]/route
  */
 
-import type { NextRequest } from "next/server"
-import { handleApiRequest } from "@/utils/apiRequest"
-import { withErrorHandling } from "@/utils/errorHandling"
-import { ValidationError } from "@/utils/validation"
+import { type NextRequest, NextResponse } from "next/server"
+import { NotFoundError, ValidationError, withErrorHandling } from "@/utils/errorHandling"
 import { logger } from "@/lib/utils/logger"
-import { queryVectors, fetchVectors, upsertVectors, deleteVectors } from "@/lib/pinecone-rest-client"
-import type { Conversation } from "@/types"
+import {
+  ConversationStoreError,
+  deleteConversations,
+  getConversation,
+  listMessages,
+  updateConversation,
+  type ConversationUpdate,
+} from "@/lib/conversation-store"
 
 export const runtime = "edge"
 
+const MAX_MESSAGE_LIMIT = 200
+
+/**
+ * Picks the editable conversation fields from a request body
+ *
+ * @param body - Request body
+ * @returns Fields to update
+ * @throws ValidationError if a field has the wrong type
+ */
+function toConversationUpdate(body: Record<string, any>): ConversationUpdate {
+  const update: ConversationUpdate = {}
+
+  if (body.title !== undefined) {
+    if (typeof body.title !== "string" || !body.title.trim()) {
+      throw new ValidationError("title must be a non-empty string")
+    }
+    update.title = body.title
+  }
+
+  if (body.tags !== undefined) {
+    if (!Array.isArray(body.tags) || body.tags.some((tag: unknown) => typeof tag !== "string")) {
+      throw new ValidationError("tags must be an array of strings")
+    }
+    update.tags = body.tags
+  }
+
+  if (body.folder !== undefined) {
+    if (body.folder !== null && typeof body.folder !== "string") {
+      throw new ValidationError("folder must be a string or null")
+    }
+    update.folder = body.folder
+  }
+
+  if (body.is_pinned !== undefined) {
+    if (typeof body.is_pinned !== "boolean") {
+      throw new ValidationError("is_pinned must be a boolean")
+    }
+    update.is_pinned = body.is_pinned
+  }
+
+  return update
+}
+
 /**
  * GET handler for retrieving a specific conversation with its messages
  */
 export const GET = withErrorHandling(async (request: NextRequest, { params }: { params: { id: string } }) => {
-  return handleApiRequest(async () => {
-    try {
-      const conversationId = params.id
-      const { searchParams } = new URL(request.url)
-
-      // Extract query parameters
-      const includeMessages = searchParams.get("includeMessages") === "true"
-      const messageLimit = Number.parseInt(searchParams.get("messageLimit") || "50", 10)
-      const messageOffset = Number.parseInt(searchParams.get("messageOffset") || "0", 10)
-      const includeVectorContext = searchParams.get("includeVectorContext") === "true"
-
-      logger.info(`GET /api/conversations/${conversationId} - Retrieving conversation`, {
-        includeMessages,
-        messageLimit,
-        messageOffset,
-      })
-
-      if (!conversationId) {
-        throw new ValidationError("Conversation ID is required")
-      }
-
-      // Fetch the conversation
-      const conversationResult = await fetchVectors([conversationId])
-
-      if (!conversationResult.vectors || !conversationResult.vectors[conversationId]) {
-        throw new ValidationError(`Conversation not found: ${conversationId}`, 404)
-      }
-
-      const conversationVector = conversationResult.vectors[conversationId]
-      const metadata = conversationVector.metadata || {}
-
-      // Format the conversation
-      const conversation: Conversation = {
-        id: conversationId,
-        user_id: metadata.user_id || "",
-        title: metadata.title || "Untitled Conversation",
-        created_at: metadata.created_at || new Date().toISOString(),
-        updated_at: metadata.updated_at || new Date().toISOString(),
-        message_count: metadata.message_count || 0,
-        tags: metadata.tags || [],
-        folder: metadata.folder || null,
-        last_message: metadata.last_message || null,
-        is_pinned: metadata.is_pinned || false,
-      }
-
-      // If messages are not requested, return just the conversation
-      if (!includeMessages) {
-        return { conversation }
-      }
-
-      // Fetch messages for this conversation
-      const placeholderVector = Array(conversationVector.values.length).fill(0.001)
-
-      const messagesResponse = await queryVectors(placeholderVector, messageLimit + 1, true, {
-        conversation_id: { $eq: conversationId },
-        record_type: { $eq: "message" },
-      })
-
-      // Ensure matches is an array
-      const matches = Array.isArray(messagesResponse.matches) ? messagesResponse.matches : []
-
-      // Check if there are more messages
-      const hasMoreMessages = matches.length > messageLimit
-      const paginatedMatches = matches.slice(0, messageLimit)
-
-      // Format messages
-      const messages = paginatedMatches.map((match) => {
-        const metadata = match.metadata || {}
-
-        return {
-          id: match.id,
-          conversation_id: conversationId,
-          role: metadata.role || "user",
-          content: metadata.content || "",
-          created_at: metadata.created_at || new Date().toISOString(),
-          sources: metadata.sources || [],
-          vector_context: includeVectorContext ? match.values : undefined,
-          metadata: {
-            token_count: metadata.token_count,
-            embedding_model: metadata.embedding_model,
-            completion_model: metadata.completion_model,
-            ...(metadata.additional_metadata || {}),
-          },
-        }
-      })
-
-      // Sort messages by creation date (oldest first)
-      messages.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
-
-      logger.info(
-        `GET /api/conversations/${conversationId} - Successfully retrieved conversation with ${messages.length} messages`,
-      )
-
-      return {
+  const conversationId = params.id
+  const { searchParams } = new URL(request.url)
+
+  // Extract query parameters
+  const includeMessages = searchParams.get("includeMessages") === "true"
+  const messageLimit = Number.parseInt(searchParams.get("messageLimit") || "50", 10)
+  const messageCursor = searchParams.get("messageCursor") || undefined
+
+  logger.info(`GET /api/conversations/${conversationId} - Retrieving conversation`, {
+    includeMessages,
+    messageLimit,
+  })
+
+  if (!conversationId) {
+    throw new ValidationError("Conversation ID is required")
+  }
+
+  if (Number.isNaN(messageLimit) || messageLimit < 1 || messageLimit > MAX_MESSAGE_LIMIT) {
+    throw new ValidationError(`messageLimit must be between 1 and ${MAX_MESSAGE_LIMIT}`)
+  }
+
+  const conversation = await getConversation(conversationId)
+
+  if (!conversation) {
+    throw new NotFoundError(`Conversation not found: ${conversationId}`, "conversation")
+  }
+
+  // If messages are not requested, return just the conversation
+  if (!includeMessages) {
+    return NextResponse.json({
+      success: true,
+      data: { conversation },
+    })
+  }
+
+  try {
+    const page = await listMessages(conversationId, { limit: messageLimit, cursor: messageCursor })
+
+    logger.info(
+      `GET /api/conversations/${conversationId} - Successfully retrieved conversation with ${page.items.length} messages`,
+    )
+
+    return NextResponse.json({
+      success: true,
+      data: {
         conversation,
-        messages,
+        messages: page.items,
         pagination: {
-          total: conversation.message_count,
-          offset: messageOffset,
+          total: page.total,
           limit: messageLimit,
-          hasMore: hasMoreMessages,
+          nextCursor: page.nextCursor,
+          hasMore: page.nextCursor !== null,
         },
-      }
-    } catch (error) {
-      logger.error(`GET /api/conversations/${params.id} - Error retrieving conversation`, {
-        error: error instanceof Error ? error.message : "Unknown error",
-        stack: error instanceof Error ? error.stack : undefined,
-      })
-      throw error
+      },
+    })
+  } catch (error) {
+    if (error instanceof ConversationStoreError && error.code === "invalid_cursor") {
+      throw new ValidationError(error.message)
     }
-  }, request)
+    throw error
+  }
 })
 
 /**
  * PUT handler for updating conversation metadata
  */
 export const PUT = withErrorHandling(async (request: NextRequest, { params }: { params: { id: string } }) => {
-  return handleApiRequest(async () => {
-    try {
-      const conversationId = params.id
-      const body = await request.json()
-
-      logger.info(`PUT /api/conversations/${conversationId} - Updating conversation`)
-
-      if (!conversationId) {
-        throw new ValidationError("Conversation ID is required")
-      }
-
-      // Fetch the existing conversation
-      const conversationResult = await fetchVectors([conversationId])
-
-      if (!conversationResult.vectors || !conversationResult.vectors[conversationId]) {
-        throw new ValidationError(`Conversation not found: ${conversationId}`, 404)
-      }
-
-      const existingVector = conversationResult.vectors[conversationId]
-      const existingMetadata = existingVector.metadata || {}
-
-      // Update the metadata
-      const updatedMetadata = {
-        ...existingMetadata,
-        ...body,
-        updated_at: new Date().toISOString(),
-        // Ensure these fields aren't overwritten with invalid values
-        id: conversationId,
-        record_type: "conversation",
-      }
-
-      // Update in Pinecone
-      await upsertVectors([
-        {
-          id: conversationId,
-          values: existingVector.values,
-          metadata: updatedMetadata,
-        },
-      ])
-
-      // Format the updated conversation
-      const updatedConversation: Conversation = {
-        id: conversationId,
-        user_id: updatedMetadata.user_id || "",
-        title: updatedMetadata.title || "Untitled Conversation",
-        created_at: updatedMetadata.created_at || new Date().toISOString(),
-        updated_at: updatedMetadata.updated_at || new Date().toISOString(),
-        message_count: updatedMetadata.message_count || 0,
-        tags: updatedMetadata.tags || [],
-        folder: updatedMetadata.folder || null,
-        last_message: updatedMetadata.last_message || null,
-        is_pinned: updatedMetadata.is_pinned || false,
-      }
-
-      logger.info(`PUT /api/conversations/${conversationId} - Successfully updated conversation`)
-
-      return { conversation: updatedConversation }
-    } catch (error) {
-      logger.error(`PUT /api/conversations/${params.id} - Error updating conversation`, {
-        error: error instanceof Error ? error.message : "Unknown error",
-        stack: error instanceof Error ? error.stack : undefined,
-      })
-      throw error
-    }
-  }, request)
+  const conversationId = params.id
+  const body = await request.json()
+
+  logger.info(`PUT /api/conversations/${conversationId} - Updating conversation`)
+
+  if (!conversationId) {
+    throw new ValidationError("Conversation ID is required")
+  }
+
+  const conversation = await updateConversation(conversationId, toConversationUpdate(body))
+
+  if (!conversation) {
+    throw new NotFoundError(`Conversation not found: ${conversationId}`, "conversation")
+  }
+
+  logger.info(`PUT /api/conversations/${conversationId} - Successfully updated conversation`)
+
+  return NextResponse.json({
+    success: true,
+    data: { conversation },
+  })
 })
 
 /**
  * PATCH handler for partial updates to conversation metadata
+ * Besides the fields themselves, accepts addTags and removeTags arrays
  */
 export const PATCH = withErrorHandling(async (request: NextRequest, { params }: { params: { id: string } }) => {
-  return handleApiRequest(async () => {
-    try {
-      const conversationId = params.id
-      const body = await request.json()
-
-      logger.info(`PATCH /api/conversations/${conversationId} - Partially updating conversation`)
-
-      if (!conversationId) {
-        throw new ValidationError("Conversation ID is required")
-      }
-
-      // Fetch the existing conversation
-      const conversationResult = await fetchVectors([conversationId])
-
-      if (!conversationResult.vectors || !conversationResult.vectors[conversationId]) {
-        throw new ValidationError(`Conversation not found: ${conversationId}`, 404)
-      }
-
-      const existingVector = conversationResult.vectors[conversationId]
-      const existingMetadata = existingVector.metadata || {}
-
-      // Handle special operations
-      if (body.addTags && Array.isArray(body.addTags)) {
-        const currentTags = existingMetadata.tags || []
-        body.tags = [...new Set([...currentTags, ...body.addTags])]
-        delete body.addTags
-      }
-
-      if (body.removeTags && Array.isArray(body.removeTags)) {
-        const currentTags = existingMetadata.tags || []
-        body.tags = currentTags.filter((tag: string) => !body.removeTags.includes(tag))
-        delete body.removeTags
-      }
-
-      // Update the metadata
-      const updatedMetadata = {
-        ...existingMetadata,
-        ...body,
-        updated_at: new Date().toISOString(),
-        // Ensure these fields aren't overwritten with invalid values
-        id: conversationId,
-        record_type: "conversation",
-      }
-
-      // Update in Pinecone
-      await upsertVectors([
-        {
-          id: conversationId,
-          values: existingVector.values,
-          metadata: updatedMetadata,
-        },
-      ])
-
-      // Format the updated conversation
-      const updatedConversation: Conversation = {
-        id: conversationId,
-        user_id: updatedMetadata.user_id || "",
-        title: updatedMetadata.title || "Untitled Conversation",
-        created_at: updatedMetadata.created_at || new Date().toISOString(),
-        updated_at: updatedMetadata.updated_at || new Date().toISOString(),
-        message_count: updatedMetadata.message_count || 0,
-        tags: updatedMetadata.tags || [],
-        folder: updatedMetadata.folder || null,
-        last_message: updatedMetadata.last_message || null,
-        is_pinned: updatedMetadata.is_pinned || false,
-      }
-
-      logger.info(`PATCH /api/conversations/${conversationId} - Successfully updated conversation`)
-
-      return { conversation: updatedConversation }
-    } catch (error) {
-      logger.error(`PATCH /api/conversations/${params.id} - Error updating conversation`, {
-        error: error instanceof Error ? error.message : "Unknown error",
-        stack: error instanceof Error ? error.stack : undefined,
-      })
-      throw error
+  const conversationId = params.id
+  const body = await request.json()
+
+  logger.info(`PATCH /api/conversations/${conversationId} - Partially updating conversation`)
+
+  if (!conversationId) {
+    throw new ValidationError("Conversation ID is required")
+  }
+
+  const update = toConversationUpdate(body)
+
+  // Handle special operations
+  if (Array.isArray(body.addTags) || Array.isArray(body.removeTags)) {
+    const existing = await getConversation(conversationId)
+
+    if (!existing) {
+      throw new NotFoundError(`Conversation not found: ${conversationId}`, "conversation")
     }
-  }, request)
+
+    const addTags: string[] = Array.isArray(body.addTags) ? body.addTags : []
+    const removeTags: string[] = Array.isArray(body.removeTags) ? body.removeTags : []
+    const currentTags = update.tags || existing.tags || []
+
+    update.tags = Array.from(new Set(currentTags.concat(addTags))).filter((tag) => !removeTags.includes(tag))
+  }
+
+  const conversation = await updateConversation(conversationId, update)
+
+  if (!conversation) {
+    throw new NotFoundError(`Conversation not found: ${conversationId}`, "conversation")
+  }
+
+  logger.info(`PATCH /api/conversations/${conversationId} - Successfully updated conversation`)
+
+  return NextResponse.json({
+    success: true,
+    data: { conversation },
+  })
 })
 
 /**
  * DELETE handler for deleting a specific conversation
  */
 export const DELETE = withErrorHandling(async (request: NextRequest, { params }: { params: { id: string } }) => {
-  return handleApiRequest(async () => {
-    try {
-      const conversationId = params.id
-
-      logger.info(`DELETE /api/conversations/${conversationId} - Deleting conversation`)
-
-      if (!conversationId) {
-        throw new ValidationError("Conversation ID is required")
-      }
-
-      // Delete the conversation
-      await deleteVectors([conversationId])
-
-      // Find all messages for this conversation
-      const placeholderVector = Array(3072).fill(0.001) // Placeholder vector
-      const response = await queryVectors(
-        placeholderVector,
-        1000,
-        false, // We don't need metadata
-        {
-          conversation_id: { $eq: conversationId },
-          record_type: { $eq: "message" },
-        },
-      )
+  const conversationId = params.id
 
-      // Delete all messages
-      if (response.matches && response.matches.length > 0) {
-        const messageIds = response.matches.map((match) => match.id)
-        await deleteVectors(messageIds)
+  logger.info(`DELETE /api/conversations/${conversationId} - Deleting conversation`)
 
-        logger.info(`DELETE /api/conversations/${conversationId} - Deleted ${messageIds.length} messages`)
-      }
+  if (!conversationId) {
+    throw new ValidationError("Conversation ID is required")
+  }
 
-      logger.info(`DELETE /api/conversations/${conversationId} - Successfully deleted conversation`)
+  // Messages are deleted with the conversation
+  const deletedCount = await deleteConversations([conversationId])
 
-      return { success: true }
-    } catch (error) {
-      logger.error(`DELETE /api/conversations/${params.id} - Error deleting conversation`, {
-        error: error instanceof Error ? error.message : "Unknown error",
-        stack: error instanceof Error ? error.stack : undefined,
-      })
-      throw error
-    }
-  }, request)
+  if (deletedCount === 0) {
+    throw new NotFoundError(`Conversation not found: ${conversationId}`, "conversation")
+  }
+
+  logger.info(`DELETE /api/conversations/${conversationId} - Successfully deleted conversation`)
+
+  // Top-level success is what the client reads
+  return NextResponse.json({
+    success: true,
+    data: { success: true },
+  })
 })
@@ -2,320 +2,181 @@
  * Conversations API Route
  *
  * Handles conversation operations including creation, listing, and batch deletion.
+ * Lists are paged with cursors: each page returns a nextCursor to pass back for the next one.
  * This route is Edge-compatible and works with Vercel's serverless environment.
  *
+ * Routes:
+ * - GET: List a user's conversations
+ * - POST: Create a conversation
+ * - DELETE: Delete conversations with their messages
+ *
  * Dependencies:
+ * - @/lib/conversation-store for conversation storage
  * - @/utils/errorHandling for consistent error handling
- * - @/utils/apiRequest for standardized API responses
  * - @/utils/validation for input validation
  * - @/lib/utils/logger for logging
- * - @/lib/pinecone-rest-client for vector operations
+ *
+ * @module app/api/conversations/route
  */
 
-import type { NextRequest } from "next/server"
-import { handleApiRequest } from "@/utils/apiRequest"
-import { withErrorHandling } from "@/utils/errorHandling"
-import { ValidationError, validateRequiredFields } from "@/utils/validation"
+import { type NextRequest, NextResponse } from "next/server"
+import { ValidationError, withErrorHandling } from "@/utils/errorHandling"
+import { validateRequiredFields } from "@/utils/validation"
 import { logger } from "@/lib/utils/logger"
-import { queryVectors, createPlaceholderVector, upsertVectors, deleteVectors } from "@/lib/pinecone-rest-client"
-import type { Conversation } from "@/types"
+import {
+  ConversationStoreError,
+  createConversation,
+  deleteConversations,
+  listConversations,
+  type ConversationSortField,
+  type SortDirection,
+} from "@/lib/conversation-store"
 
 export const runtime = "edge"
 
-// Conversation filter interface
-interface ConversationFilters {
-  userId?: string
-  startDate?: string
-  endDate?: string
-  tags?: string[]
-  folder?: string
-  searchTerm?: string
-}
+const SORT_FIELDS: ConversationSortField[] = ["created_at", "updated_at", "title", "message_count"]
 
-// Conversation sort options
-type SortField = "created_at" | "updated_at" | "title" | "message_count"
-type SortDirection = "asc" | "desc"
+const MAX_LIMIT = 100
 
 /**
  * GET handler for listing conversations
- * Supports filtering, sorting, and pagination
+ * Supports filtering, sorting, and cursor pagination
  */
 export const GET = withErrorHandling(async (request: NextRequest) => {
-  return handleApiRequest(async () => {
-    try {
-      const { searchParams } = new URL(request.url)
-
-      // Extract query parameters
-      const userId = searchParams.get("userId")
-      const limit = Number.parseInt(searchParams.get("limit") || "20", 10)
-      const offset = Number.parseInt(searchParams.get("offset") || "0", 10)
-      const sortBy = (searchParams.get("sortBy") || "updated_at") as SortField
-      const sortDirection = (searchParams.get("sortDirection") || "desc") as SortDirection
-      const startDate = searchParams.get("startDate") || undefined
-      const endDate = searchParams.get("endDate") || undefined
-      const tags = searchParams.get("tags") ? searchParams.get("tags")?.split(",") : undefined
-      const folder = searchParams.get("folder") || undefined
-      const searchTerm = searchParams.get("search") || undefined
-
-      logger.info(`GET /api/conversations - Fetching conversations`, {
-        userId,
-        limit,
-        offset,
-        sortBy,
-        sortDirection,
-      })
-
-      if (!userId) {
-        throw new ValidationError("User ID is required")
-      }
-
-      // Validate pagination parameters
-      if (limit > 100) {
-        throw new ValidationError("Limit cannot exceed 100")
-      }
-
-      if (offset < 0) {
-        throw new ValidationError("Offset cannot be negative")
-      }
-
-      // Build filter for Pinecone query
-      const filter: Record<string, any> = {
-        user_id: { $eq: userId },
-        record_type: { $eq: "conversation" },
-      }
-
-      // Add date filters if provided
-      if (startDate) {
-        filter.created_at = filter.created_at || {}
-        filter.created_at.$gte = startDate
-      }
-
-      if (endDate) {
-        filter.created_at = filter.created_at || {}
-        filter.created_at.$lte = endDate
-      }
-
-      // Add tags filter if provided
-      if (tags && tags.length > 0) {
-        filter.tags = { $in: tags }
-      }
-
-      // Add folder filter if provided
-      if (folder) {
-        filter.folder = { $eq: folder }
-      }
-
-      // Add search term filter if provided
-      if (searchTerm) {
-        // This is a simplified approach - in a real implementation,
-        // you might want to use a more sophisticated search mechanism
-        filter.$or = [{ title: { $contains: searchTerm } }, { last_message: { $contains: searchTerm } }]
-      }
-
-      // Create a placeholder vector for querying
-      const placeholderVector = createPlaceholderVector()
-
-      // Query Pinecone for conversations
-      const response = await queryVectors(placeholderVector, limit + 1, true, filter)
-
-      // Ensure matches is an array
-      const matches = Array.isArray(response.matches) ? response.matches : []
-
-      // Check if there are more results
-      const hasMore = matches.length > limit
-      const paginatedMatches = matches.slice(0, limit)
-
-      // Format conversations
-      const conversations = paginatedMatches.map((match) => ({
-        id: match.id,
-        user_id: match.metadata?.user_id || "",
-        title: match.metadata?.title || "New Conversation",
-        created_at: match.metadata?.created_at || new Date().toISOString(),
-        updated_at: match.metadata?.updated_at || new Date().toISOString(),
-        message_count: match.metadata?.message_count || 0,
-        tags: match.metadata?.tags || [],
-        folder: match.metadata?.folder || null,
-        last_message: match.metadata?.last_message || null,
-        is_pinned: match.metadata?.is_pinned || false,
-      }))
-
-      // Sort conversations based on requested sort field and direction
-      conversations.sort((a, b) => {
-        let comparison: number
-
-        switch (sortBy) {
-          case "title":
-            comparison = a.title.localeCompare(b.title)
-            break
-          case "message_count":
-            comparison = a.message_count - b.message_count
-            break
-          case "created_at":
-            comparison = new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
-            break
-          case "updated_at":
-          default:
-            comparison = new Date(a.updated_at).getTime() - new Date(b.updated_at).getTime()
-            break
-        }
-
-        return sortDirection === "asc" ? comparison : -comparison
-      })
-
-      logger.info(`GET /api/conversations - Successfully fetched conversations`, {
-        userId,
-        conversationCount: conversations.length,
-        hasMore,
-      })
-
-      // Get total count for pagination info
-      const countResponse = await queryVectors(placeholderVector, 0, false, {
-        user_id: { $eq: userId },
-        record_type: { $eq: "conversation" },
-      })
-
-      const totalCount = countResponse.matches?.length || 0
-
-      return {
-        conversations,
+  const { searchParams } = new URL(request.url)
+
+  // Extract query parameters
+  const userId = searchParams.get("userId")
+  const limit = Number.parseInt(searchParams.get("limit") || "20", 10)
+  const cursor = searchParams.get("cursor") || undefined
+  const sortBy = (searchParams.get("sortBy") || "updated_at") as ConversationSortField
+  const sortDirection = (searchParams.get("sortDirection") || "desc") as SortDirection
+  const tags = searchParams.get("tags") ? searchParams.get("tags")?.split(",") : undefined
+
+  logger.info(`GET /api/conversations - Fetching conversations`, {
+    userId,
+    limit,
+    sortBy,
+    sortDirection,
+    hasCursor: !!cursor,
+  })
+
+  if (!userId) {
+    throw new ValidationError("User ID is required")
+  }
+
+  // Validate pagination and sort parameters
+  if (Number.isNaN(limit) || limit < 1 || limit > MAX_LIMIT) {
+    throw new ValidationError(`Limit must be between 1 and ${MAX_LIMIT}`)
+  }
+
+  if (!SORT_FIELDS.includes(sortBy)) {
+    throw new ValidationError(`sortBy must be one of: ${SORT_FIELDS.join(", ")}`)
+  }
+
+  if (sortDirection !== "asc" && sortDirection !== "desc") {
+    throw new ValidationError("sortDirection must be asc or desc")
+  }
+
+  try {
+    const page = await listConversations(userId, {
+      limit,
+      cursor,
+      sortBy,
+      sortDirection,
+      startDate: searchParams.get("startDate") || undefined,
+      endDate: searchParams.get("endDate") || undefined,
+      tags,
+      folder: searchParams.get("folder") || undefined,
+      search: searchParams.get("search") || undefined,
+    })
+
+    logger.info(`GET /api/conversations - Successfully fetched conversations`, {
+      userId,
+      conversationCount: page.items.length,
+      total: page.total,
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        conversations: page.items,
         pagination: {
-          total: totalCount,
-          offset,
+          total: page.total,
           limit,
-          hasMore,
+          nextCursor: page.nextCursor,
+          hasMore: page.nextCursor !== null,
         },
-      }
-    } catch (error) {
-      logger.error("GET /api/conversations - Error fetching conversations", {
-        error: error instanceof Error ? error.message : "Unknown error",
-        stack: error instanceof Error ? error.stack : undefined,
-      })
-      throw error
+      },
+    })
+  } catch (error) {
+    if (error instanceof ConversationStoreError && error.code === "invalid_cursor") {
+      throw new ValidationError(error.message)
     }
-  }, request)
+    throw error
+  }
 })
 
 /**
  * POST handler for creating a new conversation
  */
 export const POST = withErrorHandling(async (request: NextRequest) => {
-  return handleApiRequest(async () => {
-    try {
-      const body = await request.json()
+  const body = await request.json()
 
-      validateRequiredFields(body, ["userId", "title"], "Conversation creation")
-      const { userId, title, tags = [], folder = null } = body
+  validateRequiredFields(body, ["userId", "title"], "Conversation creation")
+  const { userId, title, tags = [], folder = null } = body
 
-      logger.info(`POST /api/conversations - Creating conversation`, {
-        userId,
-        title,
-        tags,
-        folder,
-      })
+  if (!Array.isArray(tags)) {
+    throw new ValidationError("tags must be an array")
+  }
 
-      // Generate a unique ID
-      const conversationId = `conv_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`
-      const now = new Date().toISOString()
+  logger.info(`POST /api/conversations - Creating conversation`, {
+    userId,
+    title,
+    tags,
+    folder,
+  })
 
-      // Create conversation metadata
-      const conversation: Conversation = {
-        id: conversationId,
-        user_id: userId,
-        title: title || "New Conversation",
-        created_at: now,
-        updated_at: now,
-        message_count: 0,
-        tags,
-        folder,
-        last_message: null,
-        is_pinned: false,
-      }
+  // Generate a unique ID
+  const conversationId = `conv_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`
 
-      // Create a placeholder vector for storage
-      const placeholderVector = createPlaceholderVector()
+  const conversation = await createConversation({ id: conversationId, userId, title, tags, folder })
 
-      // Store in Pinecone
-      await upsertVectors([
-        {
-          id: conversationId,
-          values: placeholderVector,
-          metadata: {
-            ...conversation,
-            record_type: "conversation",
-          },
-        },
-      ])
-
-      logger.info(`POST /api/conversations - Successfully created conversation`, {
-        userId,
-        conversationId,
-      })
+  logger.info(`POST /api/conversations - Successfully created conversation`, {
+    userId,
+    conversationId,
+  })
 
-      return { conversation }
-    } catch (error) {
-      logger.error("POST /api/conversations - Error creating conversation", {
-        error: error instanceof Error ? error.message : "Unknown error",
-        stack: error instanceof Error ? error.stack : undefined,
-      })
-      throw error
-    }
-  }, request)
+  return NextResponse.json({
+    success: true,
+    data: { conversation },
+  })
 })
 
 /**
  * DELETE handler for batch deleting conversations
  */
 export const DELETE = withErrorHandling(async (request: NextRequest) => {
-  return handleApiRequest(async () => {
-    try {
-      const body = await request.json()
-
-      validateRequiredFields(body, ["conversationIds"], "Conversation batch deletion")
-      const { conversationIds } = body
+  const body = await request.json()
 
-      if (!Array.isArray(conversationIds) || conversationIds.length === 0) {
-        throw new ValidationError("conversationIds must be a non-empty array")
-      }
+  validateRequiredFields(body, ["conversationIds"], "Conversation batch deletion")
+  const { conversationIds } = body
 
-      logger.info(`DELETE /api/conversations - Batch deleting conversations`, {
-        count: conversationIds.length,
-      })
+  if (!Array.isArray(conversationIds) || conversationIds.length === 0) {
+    throw new ValidationError("conversationIds must be a non-empty array")
+  }
 
-      // Delete the conversations
-      await deleteVectors(conversationIds)
+  logger.info(`DELETE /api/conversations - Batch deleting conversations`, {
+    count: conversationIds.length,
+  })
 
-      // Find all messages for these conversations
-      const placeholderVector = createPlaceholderVector()
+  // Messages are deleted with their conversations
+  const deletedCount = await deleteConversations(conversationIds)
 
-      for (const conversationId of conversationIds) {
-        const response = await queryVectors(placeholderVector, 1000, false, {
-          conversation_id: { $eq: conversationId },
-          record_type: { $eq: "message" },
-        })
+  logger.info(`DELETE /api/conversations - Successfully deleted ${deletedCount} conversations`)
 
-        // Delete all messages for this conversation
-        if (response.matches && response.matches.length > 0) {
-          const messageIds = response.matches.map((match) => match.id)
-          await deleteVectors(messageIds)
-
-          logger.info(
-            `DELETE /api/conversations - Deleted ${messageIds.length} messages for conversation ${conversationId}`,
-          )
-        }
-      }
-
-      logger.info(`DELETE /api/conversations - Successfully deleted ${conversationIds.length} conversations`)
-
-      return {
-        success: true,
-        deletedCount: conversationIds.length,
-      }
-    } catch (error) {
-      logger.error("DELETE /api/conversations - Error batch deleting conversations", {
-        error: error instanceof Error ? error.message : "Unknown error",
-        stack: error instanceof Error ? error.stack : undefined,
-      })
-      throw error
-    }
-  }, request)
+  return NextResponse.json({
+    success: true,
+    data: { deletedCount },
+  })
 })
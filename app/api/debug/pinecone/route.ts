@@ -16,8 +16,8 @@ import {
   upsertVectors,
   queryVectors,
   deleteVectors,
-  createPlaceholderVector,
 } from "@/lib/pinecone-rest-client"
+import { createPlaceholderVector } from "@/lib/embedding-config"
 import { logger } from "@/lib/utils/logger"
 
 export const runtime = "edge"
@@ -14,7 +14,7 @@
 import type { NextRequest } from "next/server"
 import { chunkDocument } from "@/lib/chunking-utils"
 import { generateEmbedding } from "@/lib/embedding-service"
-import { healthCheck, queryVectors, createPlaceholderVector } from "@/lib/pinecone-rest-client"
+import { healthCheck, queryVectors, createPlaceholderVector } from "@/lib/vector-store"
 import { VECTOR_DIMENSION, EMBEDDING_MODEL } from "@/lib/embedding-config"
 import { logger } from "@/lib/utils/logger"
 
@@ -0,0 +1,376 @@
+/**
+ * Document Batch Upload API Route
+ *
+ * Accepts a zip archive of documents and expands it into one document per file.
+ * Archives arrive through the resumable upload flow (/api/documents/upload-url), since a
+ * request body cannot carry more than 4.5MB; small archives can also be posted directly.
+ * The archive is stored in Vercel Blob and its files are processed by a background job,
+ * which stores each file and sends it through the regular processing pipeline, while a
+ * batch record tracks how many files are done, failed or skipped.
+ *
+ * Features:
+ * - Archive expansion with unsupported, hidden and oversized files skipped
+ * - Sequential processing in a job that pauses and resumes across worker runs
+ * - Streaming progress updates that follow the job
+ * - Batch status endpoint with per-file errors
+ *
+ * Dependencies:
+ * - @/lib/archive-extraction for reading the archive
+ * - @/lib/batch-service for batch status records and batch processing jobs
+ * - @/lib/upload-sessions for archives sent as resumable uploads
+ * - @/lib/job-worker for running and following the job
+ * - @/utils/errorHandling for consistent error handling
+ * - @/lib/utils/logger for logging
+ * - @vercel/blob for blob storage operations
+ *
+ * @module app/api/documents/batch/route
+ */
+
+import { type NextRequest, NextResponse } from "next/server"
+import { put } from "@vercel/blob"
+import { AuthorizationError, NotFoundError, ValidationError, withErrorHandling } from "@/utils/errorHandling"
+import { listDocumentArchive, type ArchiveListing } from "@/lib/archive-extraction"
+import { enqueueBatchProcessing, generateBatchId, getBatch, saveBatch } from "@/lib/batch-service"
+import { completeUploadSession, getUploadSession, UploadSessionError } from "@/lib/upload-sessions"
+import { detectDocumentFormat } from "@/lib/document-extraction"
+import { driveJob, type JobProgressUpdate } from "@/lib/job-worker"
+import { logger } from "@/lib/utils/logger"
+import type { DocumentBatch } from "@/types"
+
+export const runtime = "edge"
+
+// How long the stream follows the job before handing off to the background
+const FOLLOW_TIMEOUT_MS = 4 * 60 * 1000
+
+// Largest archive posted directly; the request body limit is 4.5MB, so larger archives use the resumable upload flow
+const MAX_DIRECT_ARCHIVE_SIZE = 4 * 1024 * 1024
+
+/**
+ * Streams a progress update to the client
+ * Writes after the client disconnected are dropped so the job keeps running
+ *
+ * @param controller - ReadableStreamDefaultController to write to
+ * @param data - Data to stream
+ */
+function streamUpdate(controller: ReadableStreamDefaultController, data: any) {
+  const encoder = new TextEncoder()
+  try {
+    controller.enqueue(encoder.encode(JSON.stringify(data) + "\n"))
+  } catch {
+    // Client disconnected
+  }
+}
+
+/**
+ * Closes a stream that may already be closed by a disconnected client
+ *
+ * @param controller - ReadableStreamDefaultController to close
+ */
+function closeStream(controller: ReadableStreamDefaultController) {
+  try {
+    controller.close()
+  } catch {
+    // Client disconnected
+  }
+}
+
+/**
+ * Summarises a batch for progress updates
+ *
+ * @param batch - Batch record
+ * @returns Counts shown to the client
+ */
+function getBatchCounts(batch: DocumentBatch) {
+  return {
+    total: batch.total_files,
+    processed: batch.processed_files,
+    failed: batch.failed_files,
+    skipped: batch.skipped_files,
+  }
+}
+
+/**
+ * Archive of a batch upload
+ */
+interface ReceivedArchive {
+  userId: string
+  name: string
+  data: ArrayBuffer
+  // Blob URL of the archive when it is already stored
+  url?: string
+}
+
+/**
+ * Reads an archive from a completed resumable upload
+ *
+ * @param uploadId - Upload ID
+ * @param userId - User ID
+ * @param batchId - Batch the archive is stored under
+ * @returns Archive with its Blob URL
+ * @throws NotFoundError, AuthorizationError or ValidationError
+ */
+async function receiveUploadedArchive(uploadId: string, userId: string, batchId: string): Promise<ReceivedArchive> {
+  const session = await getUploadSession(uploadId, userId)
+
+  if (!session) {
+    throw new NotFoundError(`Upload with ID ${uploadId} not found`, "upload")
+  }
+
+  if (session.user_id !== userId) {
+    throw new AuthorizationError("You don't have permission to use this upload")
+  }
+
+  if (detectDocumentFormat(session.file_type, session.file_name) !== "repository") {
+    throw new ValidationError("Upload is not a zip archive")
+  }
+
+  let completed
+  try {
+    completed = await completeUploadSession(
+      session,
+      `batches/${userId}/${batchId}/${session.file_name.replace(/[^a-zA-Z0-9.-]/g, "_")}`,
+    )
+  } catch (error) {
+    // Missing parts are reported so the client can send them and try again
+    if (error instanceof UploadSessionError) {
+      throw new ValidationError(error.message)
+    }
+    throw error
+  }
+
+  const response = await fetch(completed.blob_url!, { cache: "no-store" })
+
+  if (!response.ok) {
+    throw new Error(`Failed to read uploaded archive: ${response.status} ${response.statusText}`)
+  }
+
+  return { userId, name: session.file_name, data: await response.arrayBuffer(), url: completed.blob_url }
+}
+
+/**
+ * Reads an archive posted directly as FormData
+ *
+ * @param request - Request with the file and user ID
+ * @returns Archive, not yet stored
+ * @throws ValidationError if a field is missing or the archive is too large to post directly
+ */
+async function receivePostedArchive(request: NextRequest): Promise<ReceivedArchive> {
+  const formData = await request.formData()
+  const file = formData.get("file") as File
+  const userId = formData.get("userId") as string
+
+  if (!file) {
+    throw new ValidationError("File is required")
+  }
+
+  if (!userId) {
+    throw new ValidationError("User ID is required")
+  }
+
+  if (file.size > MAX_DIRECT_ARCHIVE_SIZE) {
+    throw new ValidationError("Archive is too large to post directly (max 4MB); use a resumable upload")
+  }
+
+  return { userId, name: file.name, data: await file.arrayBuffer() }
+}
+
+/**
+ * POST handler for archive uploads with streaming progress
+ * Expects a JSON body with uploadId and userId of a resumable upload, or FormData with the zip file and user ID
+ */
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  const batchId = generateBatchId()
+  let archive: ReceivedArchive
+
+  if (request.headers.get("content-type")?.includes("application/json")) {
+    const { uploadId, userId } = await request.json()
+
+    if (!uploadId) {
+      throw new ValidationError("Upload ID is required")
+    }
+
+    if (!userId) {
+      throw new ValidationError("User ID is required")
+    }
+
+    archive = await receiveUploadedArchive(uploadId, userId, batchId)
+  } else {
+    archive = await receivePostedArchive(request)
+  }
+
+  const { userId, data } = archive
+
+  // Only the central directory is read here; the job decompresses one file at a time
+  let contents: ArchiveListing
+  try {
+    contents = listDocumentArchive(data)
+  } catch (error) {
+    throw new ValidationError(
+      `Failed to read zip archive: ${error instanceof Error ? error.message : "Unknown error"}`,
+    )
+  }
+
+  const now = new Date().toISOString()
+  const batch: DocumentBatch = {
+    id: batchId,
+    user_id: userId,
+    name: archive.name,
+    status: "processing",
+    total_files: contents.entries.length,
+    processed_files: 0,
+    failed_files: 0,
+    skipped_files: contents.skipped.length,
+    errors: [],
+    skipped: contents.skipped,
+    created_at: now,
+    updated_at: now,
+  }
+
+  // The job reads the archive back from Blob, so processing survives the end of this request
+  const archiveUrl =
+    archive.url ||
+    (
+      await put(`batches/${userId}/${batch.id}/${archive.name.replace(/[^a-zA-Z0-9.-]/g, "_")}`, data, {
+        access: "public",
+        contentType: "application/zip",
+        addRandomSuffix: false,
+      })
+    ).url
+
+  await saveBatch(batch)
+  const job = await enqueueBatchProcessing(batch, archiveUrl)
+
+  logger.info(`POST /api/documents/batch - Archive expanded`, {
+    batchId: batch.id,
+    jobId: job.id,
+    userId,
+    archiveName: archive.name,
+    fileCount: contents.entries.length,
+    skippedCount: contents.skipped.length,
+  })
+
+  // Create a streaming response that follows the job
+  const stream = new ReadableStream({
+    async start(controller) {
+      streamUpdate(controller, {
+        type: "progress",
+        status: "expanded",
+        batchId: batch.id,
+        jobId: job.id,
+        message: `Found ${contents.entries.length} documents (${contents.skipped.length} skipped)`,
+        counts: getBatchCounts(batch),
+        skipped: contents.skipped,
+      })
+
+      try {
+        const finished = await driveJob(job.id, {
+          timeoutMs: FOLLOW_TIMEOUT_MS,
+          onUpdate: (update: JobProgressUpdate) => {
+            streamUpdate(controller, {
+              type: "progress",
+              status: update.stage || update.status,
+              progress: update.progress,
+              message: update.message,
+              batchId: batch.id,
+              jobId: job.id,
+              attempt: update.attempt,
+            })
+          },
+        })
+        const current = (await getBatch(batch.id, userId)) || batch
+
+        if (finished.status === "completed") {
+          streamUpdate(controller, {
+            type: "complete",
+            status: "completed",
+            batchId: batch.id,
+            jobId: job.id,
+            message: `Processed ${current.processed_files} of ${current.total_files} documents`,
+            counts: getBatchCounts(current),
+            errors: current.errors,
+          })
+        } else if (finished.status === "failed") {
+          streamUpdate(controller, {
+            type: "error",
+            status: "failed",
+            batchId: batch.id,
+            jobId: job.id,
+            message: finished.error_message || "Batch processing failed",
+            counts: getBatchCounts(current),
+          })
+        } else {
+          // Paused, waiting for a retry, or still running elsewhere; the worker takes it from here
+          streamUpdate(controller, {
+            type: "progress",
+            status: "background",
+            batchId: batch.id,
+            jobId: job.id,
+            progress: finished.progress,
+            message: "Processing continues in the background",
+            counts: getBatchCounts(current),
+          })
+        }
+      } catch (error) {
+        logger.error("Error in batch upload streaming", {
+          batchId: batch.id,
+          jobId: job.id,
+          error: error instanceof Error ? error.message : "Unknown error",
+        })
+
+        // The job stays in the queue, so the worker can still process the batch
+        streamUpdate(controller, {
+          type: "error",
+          status: "failed",
+          batchId: batch.id,
+          jobId: job.id,
+          message: error instanceof Error ? error.message : "Unknown error in batch processing",
+          counts: getBatchCounts(batch),
+        })
+      }
+
+      closeStream(controller)
+    },
+  })
+
+  return new NextResponse(stream, {
+    headers: {
+      "Content-Type": "application/json",
+      "Transfer-Encoding": "chunked",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  })
+})
+
+/**
+ * GET handler for batch status
+ * Expects batchId and userId query parameters
+ */
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const { searchParams } = new URL(request.url)
+  const batchId = searchParams.get("batchId")
+  const userId = searchParams.get("userId")
+
+  if (!batchId) {
+    throw new ValidationError("Batch ID is required")
+  }
+
+  if (!userId) {
+    throw new ValidationError("User ID is required")
+  }
+
+  const batch = await getBatch(batchId, userId)
+
+  if (!batch) {
+    throw new NotFoundError(`Batch with ID ${batchId} not found`, "batch")
+  }
+
+  if (batch.user_id !== userId) {
+    throw new AuthorizationError("You don't have permission to view this batch")
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: batch,
+  })
+})
@@ -0,0 +1,123 @@
+/**
+ * Complete Upload API Route
+ *
+ * Finishes a resumable upload started through /api/documents/upload-url. Once every part is
+ * confirmed, the parts are joined into the document file and a processing job is queued and
+ * run for the new document. When the user chose to replace the documents the upload
+ * duplicates, the job deletes them after the new document is indexed. Completing an upload
+ * again returns the same document, so a client that lost the response can safely retry.
+ *
+ * Dependencies:
+ * - @/lib/upload-sessions for assembling the uploaded parts
+ * - @/lib/document-service for reading the created document
+ * - @/lib/job-worker for running the processing job
+ * - @/lib/document-dedup for finding documents the upload replaces
+ * - @/utils/errorHandling for consistent error handling
+ * - @/lib/utils/logger for logging
+ *
+ * @module app/api/documents/complete-upload/route
+ */
+
+import { type NextRequest, NextResponse } from "next/server"
+import { AuthorizationError, NotFoundError, ValidationError, withErrorHandling } from "@/utils/errorHandling"
+import { completeUploadSession, getUploadSession, UploadSessionError } from "@/lib/upload-sessions"
+import { documentService } from "@/lib/document-service"
+import { driveJob, enqueueDocumentProcessing } from "@/lib/job-worker"
+import { findDuplicateDocuments } from "@/lib/document-dedup"
+import { logger } from "@/lib/utils/logger"
+
+export const runtime = "edge"
+
+// Time spent processing before responding; edge responses must start within 25 seconds, so longer jobs pause
+// and the worker finishes them
+const PROCESS_TIMEOUT_MS = 15 * 1000
+
+/**
+ * POST handler that completes an upload and creates its document
+ * Expects a JSON body with uploadId, userId and optional metadata (name)
+ */
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  const { uploadId, userId, metadata = {} } = await request.json()
+
+  if (!uploadId) {
+    throw new ValidationError("Upload ID is required")
+  }
+
+  if (!userId) {
+    throw new ValidationError("User ID is required")
+  }
+
+  const session = await getUploadSession(uploadId, userId)
+
+  if (!session) {
+    throw new NotFoundError(`Upload with ID ${uploadId} not found`, "upload")
+  }
+
+  if (session.user_id !== userId) {
+    throw new AuthorizationError("You don't have permission to complete this upload")
+  }
+
+  // A retried completion returns the document created by the first one
+  if (session.status === "completed") {
+    const existing = await documentService.getDocument(session.document_id, userId)
+    if (existing) {
+      return NextResponse.json({ success: true, data: existing })
+    }
+  }
+
+  const fileName = typeof metadata.name === "string" && metadata.name.trim() ? metadata.name.trim() : session.file_name
+  const filePath = `documents/${userId}/${session.document_id}/${fileName.replace(/[^a-zA-Z0-9.-]/g, "_")}`
+
+  let completed
+  try {
+    completed = await completeUploadSession(session, filePath)
+  } catch (error) {
+    // Missing parts are reported so the client can send them and complete again
+    if (error instanceof UploadSessionError) {
+      throw new ValidationError(error.message)
+    }
+    throw error
+  }
+
+  logger.info(`POST /api/documents/complete-upload - Upload assembled, processing document`, {
+    uploadId,
+    documentId: session.document_id,
+    fileName,
+    fileSize: session.file_size,
+  })
+
+  // The user chose to replace the documents this upload duplicates
+  const replaced =
+    session.on_duplicate === "replace" && session.content_hash
+      ? await findDuplicateDocuments(userId, session.content_hash, { excludeId: session.document_id })
+      : []
+
+  // Processing runs as a job, so it is retried by the worker if this request is cut off
+  const job = await enqueueDocumentProcessing({
+    documentId: session.document_id,
+    userId,
+    filePath,
+    fileName,
+    fileType: session.file_type,
+    fileUrl: completed.blob_url!,
+    ...(replaced.length > 0 && { replaceDocumentIds: replaced.map((duplicate) => duplicate.id) }),
+  })
+
+  try {
+    await driveJob(job.id, { timeoutMs: PROCESS_TIMEOUT_MS })
+  } catch (error) {
+    // The job stays queued; the document shows its processing status meanwhile
+    logger.warn(`POST /api/documents/complete-upload - Processing failed`, {
+      uploadId,
+      documentId: session.document_id,
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+  }
+
+  const document = await documentService.getDocument(session.document_id, userId)
+
+  return NextResponse.json({
+    success: true,
+    data: document,
+  })
+})
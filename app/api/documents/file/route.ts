@@ -29,15 +29,12 @@ import { ValidationError, withErrorHandling } from "@/utils/errorHandling"
 import { logger } from "@/lib/utils/logger"
 import { uploadToBlob } from "@/lib/blob-client"
 import { generateDocumentId } from "@/lib/document-service"
+import { isSupportedDocumentType, getSupportedExtensions, MAX_DOCUMENT_SIZE } from "@/lib/document-extraction"
 import { get } from "@vercel/blob"
 
 export const runtime = "edge"
 export const dynamic = "force-dynamic" // Prevent caching
 
-// Constants
-const MAX_FILE_SIZE = 10 * 1024 * 1024 // 10MB
-const ALLOWED_FILE_TYPES = ["text/plain", ".txt"]
-
 /**
  * Extracts and validates user ID from request
  *
@@ -65,13 +62,14 @@ async function getUserIdFromRequest(request: NextRequest): Promise<string> {
 }
 
 /**
- * Validates file type
+ * Validates file type against the formats the extraction pipeline supports
  *
  * @param fileType - File type to validate
+ * @param fileName - File name used when the browser reports no type
  * @returns True if valid, false otherwise
  */
-function isValidFileType(fileType: string): boolean {
-  return ALLOWED_FILE_TYPES.some((type) => fileType.toLowerCase().includes(type.toLowerCase()))
+function isValidFileType(fileType: string, fileName: string): boolean {
+  return isSupportedDocumentType(fileType, fileName)
 }
 
 /**
@@ -94,13 +92,16 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
     }
 
     // Validate file type
-    if (!isValidFileType(file.type)) {
-      throw new ValidationError(`Invalid file type: ${file.type}. Only text files (.txt) are supported.`, 400)
+    if (!isValidFileType(file.type, file.name)) {
+      throw new ValidationError(
+        `Invalid file type: ${file.type}. Supported file types: ${getSupportedExtensions().join(", ")}.`,
+        400,
+      )
     }
 
     // Validate file size
-    if (file.size > MAX_FILE_SIZE) {
-      throw new ValidationError(`File too large: ${file.size} bytes. Maximum size is ${MAX_FILE_SIZE} bytes.`, 400)
+    if (file.size > MAX_DOCUMENT_SIZE) {
+      throw new ValidationError(`File too large: ${file.size} bytes. Maximum size is ${MAX_DOCUMENT_SIZE} bytes.`, 400)
     }
 
     // Extract optional metadata
@@ -1,22 +1,23 @@
 /**
  * Document Processing API Route with Streaming Response
  *
- * Handles document processing requests with streaming progress updates.
- * Implements chunking, embedding generation, and vector storage in Pinecone.
+ * Queues document processing as a background job and streams the job's progress.
+ * Processing no longer depends on the client: when the client disconnects, the job keeps
+ * its state in the job queue and the cron worker at /api/jobs/worker finishes or retries it.
+ * The stream runs the job itself when no other worker holds it, and otherwise follows the
+ * job's progress until it finishes.
  *
  * Features:
  * - Streaming response for real-time progress updates
- * - Validation of document type and content
- * - Semantic chunking that respects document structure
- * - Batched embedding generation with retry logic
- * - Rate limiting to avoid API limits
+ * - Validation of document type before queuing
+ * - One active processing job per document; repeated requests follow the running job
+ * - Non-streaming mode that only queues the job (stream: false)
+ * - Documents listed in replaceDocumentIds are deleted once the new document is indexed
  * - Comprehensive error handling and logging
  *
  * Dependencies:
- * - @/lib/pinecone-rest-client for vector operations
- * - @/lib/embedding-service for embedding generation
- * - @/lib/chunking-utils for semantic document chunking
- * - @/lib/embedding-config for model configuration
+ * - @/lib/job-worker for queuing and running processing jobs
+ * - @/lib/document-extraction for supported file types
  * - @/lib/utils/logger for structured logging
  * - @/utils/errorHandling for standardized error handling
  *
@@ -25,126 +26,42 @@
 
 import { type NextRequest, NextResponse } from "next/server"
 import { ValidationError, withErrorHandling } from "@/utils/errorHandling"
-import { generateEmbedding } from "@/lib/embedding-service"
-import { chunkDocument, splitByHeaders } from "@/lib/chunking-utils"
-import { upsertVectors, createPlaceholderVector } from "@/lib/pinecone-rest-client"
-import { EMBEDDING_MODEL, VECTOR_DIMENSION } from "@/lib/embedding-config"
+import { getSupportedExtensions, isSupportedDocumentType } from "@/lib/document-extraction"
+import { driveJob, enqueueDocumentProcessing, type JobProgressUpdate } from "@/lib/job-worker"
 import { logger } from "@/lib/utils/logger"
-import { fetchDocumentById, updateDocumentStatus } from "@/services/document-service"
 
 export const runtime = "edge"
 
-// Constants for processing
-const MAX_CHUNK_SIZE = 1000
-const CHUNK_OVERLAP = 150
-const EMBEDDING_BATCH_SIZE = 10
-const UPSERT_BATCH_SIZE = 100
-const MAX_RETRIES = 3
+// How long the stream follows a job run by another worker before handing off to the background
+const FOLLOW_TIMEOUT_MS = 4 * 60 * 1000
 
 /**
- * Validates document before processing
+ * Streams a progress update to the client
+ * Writes after the client disconnected are dropped so the job keeps running
  *
- * @param documentId - Document ID to validate
- * @param fileType - File type to validate
- * @param fileUrl - File URL to validate content
- * @returns Validation result with document content if valid
+ * @param controller - ReadableStreamDefaultController to write to
+ * @param data - Data to stream
  */
-async function validateDocument(
-  documentId: string,
-  fileType: string,
-  fileUrl: string,
-): Promise<{
-  valid: boolean
-  content?: string
-  error?: string
-  document?: any
-}> {
+function streamUpdate(controller: ReadableStreamDefaultController, data: any) {
+  const encoder = new TextEncoder()
   try {
-    // Validate document exists
-    const document = await fetchDocumentById(documentId)
-    if (!document) {
-      return { valid: false, error: "Document not found" }
-    }
-
-    // Validate file type (.txt only)
-    if (!fileType.includes("text/") && !fileType.includes(".txt")) {
-      return { valid: false, error: "Only text files (.txt) are supported", document }
-    }
-
-    // Fetch document content
-    const response = await fetch(fileUrl, { cache: "no-store" })
-    if (!response.ok) {
-      return {
-        valid: false,
-        error: `Failed to fetch document content: ${response.status} ${response.statusText}`,
-        document,
-      }
-    }
-
-    const content = await response.text()
-
-    // Validate content is not empty
-    if (!content || content.trim() === "") {
-      return { valid: false, error: "Document is empty or contains no valid text content", document }
-    }
-
-    // Validate content size (max 10MB)
-    if (content.length > 10 * 1024 * 1024) {
-      return { valid: false, error: "Document is too large (max 10MB)", document }
-    }
-
-    return { valid: true, content, document }
-  } catch (error) {
-    logger.error("Error validating document", {
-      documentId,
-      error: error instanceof Error ? error.message : "Unknown error",
-    })
-    return { valid: false, error: error instanceof Error ? error.message : "Failed to validate document" }
+    controller.enqueue(encoder.encode(JSON.stringify(data) + "\n"))
+  } catch {
+    // Client disconnected
   }
 }
 
 /**
- * Checks if a chunk is informative enough to be embedded
- */
-function isInformativeChunk(text: string): boolean {
-  if (!text || text.trim() === "") {
-    return false
-  }
-
-  // Consider markdown content as informative
-  if (text.includes("#") || text.includes("|") || text.includes("```")) {
-    return true
-  }
-
-  // Skip chunks that are too short
-  if (text.trim().length < 10) {
-    return false
-  }
-
-  // Skip chunks that don't have enough unique words
-  const uniqueWords = new Set(
-    text
-      .toLowerCase()
-      .split(/\s+/)
-      .filter((word) => word.length > 1),
-  )
-
-  if (uniqueWords.size < 3) {
-    return false
-  }
-
-  return true
-}
-
-/**
- * Streams a progress update to the client
+ * Closes a stream that may already be closed by a disconnected client
  *
- * @param controller - ReadableStreamDefaultController to write to
- * @param data - Data to stream
+ * @param controller - ReadableStreamDefaultController to close
  */
-function streamUpdate(controller: ReadableStreamDefaultController, data: any) {
-  const encoder = new TextEncoder()
-  controller.enqueue(encoder.encode(JSON.stringify(data) + "\n"))
+function closeStream(controller: ReadableStreamDefaultController) {
+  try {
+    controller.close()
+  } catch {
+    // Client disconnected
+  }
 }
 
 /**
@@ -152,7 +69,16 @@ function streamUpdate(controller: ReadableStreamDefaultController, data: any) {
  */
 export const POST = withErrorHandling(async (request: NextRequest) => {
   const body = await request.json()
-  const { documentId, userId, filePath, fileName, fileType, fileUrl } = body
+  const {
+    documentId,
+    userId,
+    filePath,
+    fileName,
+    fileType,
+    fileUrl,
+    replaceDocumentIds,
+    stream: streamResponse = true,
+  } = body
 
   // Validate required fields
   if (!documentId) {
@@ -175,420 +101,110 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
     throw new ValidationError("File URL is required")
   }
 
-  logger.info(`Processing document started`, {
+  if (!isSupportedDocumentType(fileType || "", fileName)) {
+    throw new ValidationError(`Unsupported file type. Supported extensions: ${getSupportedExtensions().join(", ")}`)
+  }
+
+  if (
+    replaceDocumentIds !== undefined &&
+    (!Array.isArray(replaceDocumentIds) || !replaceDocumentIds.every((id) => typeof id === "string"))
+  ) {
+    throw new ValidationError("replaceDocumentIds must be an array of document IDs")
+  }
+
+  const job = await enqueueDocumentProcessing({
+    documentId,
+    userId,
+    filePath,
+    fileName,
+    fileType: fileType || "text/plain",
+    fileUrl,
+    ...(replaceDocumentIds?.length > 0 && { replaceDocumentIds }),
+  })
+
+  logger.info(`Processing document queued`, {
     documentId,
     userId,
     fileName,
     fileType,
+    jobId: job.id,
   })
 
-  // Create a streaming response
+  if (streamResponse === false) {
+    return NextResponse.json(
+      {
+        success: true,
+        data: { jobId: job.id, status: job.status },
+      },
+      { status: 202 },
+    )
+  }
+
+  // Create a streaming response that follows the job
   const stream = new ReadableStream({
     async start(controller) {
       try {
-        // Initial progress update
-        streamUpdate(controller, {
-          type: "progress",
-          status: "validating",
-          progress: 0,
-          message: "Validating document...",
+        const finished = await driveJob(job.id, {
+          timeoutMs: FOLLOW_TIMEOUT_MS,
+          onUpdate: (update: JobProgressUpdate) => {
+            streamUpdate(controller, {
+              type: "progress",
+              status: update.stage || update.status,
+              progress: update.progress,
+              message: update.message,
+              jobId: job.id,
+              attempt: update.attempt,
+            })
+          },
         })
 
-        // Update document status to processing
-        await updateDocumentStatus(documentId, "processing", 0, "Starting document processing")
-
-        // Validate document before processing
-        const validation = await validateDocument(documentId, fileType, fileUrl)
-
-        if (!validation.valid) {
-          // Update document status to failed
-          await updateDocumentStatus(documentId, "failed", 0, validation.error)
-
-          // Stream error and close
+        if (finished.status === "completed") {
           streamUpdate(controller, {
-            type: "error",
-            status: "failed",
-            message: validation.error,
-          })
-          controller.close()
-          return
-        }
-
-        const content = validation.content!
-        const document = validation.document
-
-        // Stream validation success
-        streamUpdate(controller, {
-          type: "progress",
-          status: "validated",
-          progress: 10,
-          message: "Document validated successfully",
-          contentLength: content.length,
-        })
-
-        // Update document status
-        await updateDocumentStatus(documentId, "processing", 10, "Document validated, starting chunking")
-
-        // Start timing for performance tracking
-        const startTime = performance.now()
-        const debugInfo: Record<string, any> = {
-          processingStartTime: new Date().toISOString(),
-          steps: {},
-          timings: {},
-        }
-
-        // Semantic chunking
-        streamUpdate(controller, {
-          type: "progress",
-          status: "chunking",
-          progress: 20,
-          message: "Chunking document content...",
-        })
-
-        // First try to split by headers for semantic chunking
-        const sections = splitByHeaders(content)
-        const chunks: string[] = []
-
-        // Process each section
-        for (const section of sections) {
-          const sectionChunks = chunkDocument(
-            section.header ? `# ${section.header}\n\n${section.content}` : section.content,
-            MAX_CHUNK_SIZE,
-            CHUNK_OVERLAP,
-          )
-          chunks.push(...sectionChunks)
-        }
-
-        // Filter out non-informative chunks
-        const validChunks = chunks.filter((chunk) => isInformativeChunk(chunk))
-
-        debugInfo.steps.chunking = {
-          totalChunks: chunks.length,
-          validChunks: validChunks.length,
-          skippedChunks: chunks.length - validChunks.length,
-        }
-
-        // Check if we have any valid chunks
-        if (validChunks.length === 0) {
-          const errorMessage = "No valid content chunks could be extracted from document"
-          await updateDocumentStatus(documentId, "failed", 0, errorMessage, {
-            ...debugInfo,
-            error: errorMessage,
-            failedStep: "chunking",
+            type: "complete",
+            status: "indexed",
+            progress: 100,
+            message: "Document processing complete",
+            jobId: job.id,
+            ...finished.result,
           })
-
+        } else if (finished.status === "failed") {
           streamUpdate(controller, {
             type: "error",
             status: "failed",
-            message: errorMessage,
+            message: finished.error_message || "Document processing failed",
+            jobId: job.id,
           })
-          controller.close()
-          return
-        }
-
-        streamUpdate(controller, {
-          type: "progress",
-          status: "chunked",
-          progress: 30,
-          message: `Document chunked into ${validChunks.length} valid chunks`,
-          totalChunks: chunks.length,
-          validChunks: validChunks.length,
-        })
-
-        await updateDocumentStatus(
-          documentId,
-          "processing",
-          30,
-          `Chunking complete. Generating embeddings for ${validChunks.length} chunks using ${EMBEDDING_MODEL}`,
-        )
-
-        // Generate embeddings and store in Pinecone
-        let successfulEmbeddings = 0
-        let failedEmbeddings = 0
-        let totalVectorsInserted = 0
-
-        debugInfo.steps.embedding = {
-          batches: [],
-          totalBatches: Math.ceil(validChunks.length / EMBEDDING_BATCH_SIZE),
-          successfulEmbeddings: 0,
-          failedEmbeddings: 0,
-          embeddingModel: EMBEDDING_MODEL,
-        }
-
-        // Process chunks in batches for embedding generation
-        for (let i = 0; i < validChunks.length; i += EMBEDDING_BATCH_SIZE) {
-          const batchStartTime = performance.now()
-          const batch = validChunks.slice(i, i + EMBEDDING_BATCH_SIZE)
-          const batchProgress = Math.floor(30 + (i / validChunks.length) * 60)
-          const batchNumber = Math.floor(i / EMBEDDING_BATCH_SIZE) + 1
-          const totalBatches = Math.ceil(validChunks.length / EMBEDDING_BATCH_SIZE)
-
-          // Update document status
-          await updateDocumentStatus(
-            documentId,
-            "processing",
-            batchProgress,
-            `Processing batch ${batchNumber}/${totalBatches}`,
-          )
-
-          // Stream batch progress
+        } else {
+          // Waiting for a retry, paused until the next run, or still running elsewhere; the worker takes it from here
+          const retrying = finished.status === "queued" && Boolean(finished.error_message)
           streamUpdate(controller, {
             type: "progress",
-            status: "embedding",
-            progress: batchProgress,
-            message: `Processing batch ${batchNumber}/${totalBatches}`,
-            batchNumber,
-            totalBatches,
-          })
-
-          const batchInfo = {
-            batchNumber,
-            startIndex: i,
-            endIndex: i + batch.length - 1,
-            chunkCount: batch.length,
-            success: false,
-            embeddingResults: [],
-            errors: [],
-            startTime: new Date().toISOString(),
-            duration: 0,
-          }
-
-          // Generate embeddings for this batch with retry logic
-          const embeddingPromises = batch.map(async (chunk, index) => {
-            // Skip empty chunks
-            if (!chunk || chunk.trim() === "") {
-              return null
-            }
-
-            // Try to generate embedding with retries
-            for (let retry = 0; retry < MAX_RETRIES; retry++) {
-              try {
-                const embedding = await generateEmbedding(chunk)
-
-                // Validate embedding
-                if (embedding.length !== VECTOR_DIMENSION) {
-                  throw new Error(`Invalid embedding dimension: ${embedding.length}, expected ${VECTOR_DIMENSION}`)
-                }
-
-                // Create chunk ID with proper prefix
-                const chunkId = `chunk_${documentId}_${i + index}`
-
-                // Create timestamp for metadata
-                const timestamp = new Date().toISOString()
-
-                return {
-                  id: chunkId,
-                  values: embedding,
-                  metadata: {
-                    content: chunk,
-                    document_id: documentId,
-                    document_name: fileName,
-                    document_type: fileType,
-                    user_id: userId,
-                    index: i + index,
-                    record_type: "chunk",
-                    created_at: timestamp,
-                    updated_at: timestamp,
-                    embedding_model: EMBEDDING_MODEL,
-                  },
-                }
-              } catch (error) {
-                // If this is the last retry, log and return null
-                if (retry === MAX_RETRIES - 1) {
-                  logger.error(`Failed to generate embedding after ${MAX_RETRIES} retries`, {
-                    documentId,
-                    chunkIndex: i + index,
-                    error: error instanceof Error ? error.message : "Unknown error",
-                  })
-                  return null
-                }
-
-                // Otherwise, wait and retry
-                const backoffTime = Math.pow(2, retry) * 1000
-                await new Promise((resolve) => setTimeout(resolve, backoffTime))
-              }
-            }
-
-            // If we get here, all retries failed
-            return null
-          })
-
-          try {
-            const embeddingResults = await Promise.all(embeddingPromises)
-
-            // Filter out null results (failed embeddings)
-            const embeddings = embeddingResults.filter((result) => result !== null) as any[]
-
-            successfulEmbeddings += embeddings.length
-            failedEmbeddings += batch.length - embeddings.length
-
-            batchInfo.success = embeddings.length > 0
-            batchInfo.successfulEmbeddings = embeddings.length
-            batchInfo.failedEmbeddings = batch.length - embeddings.length
-
-            if (embeddings.length > 0) {
-              // Store embeddings in Pinecone in batches
-              for (let j = 0; j < embeddings.length; j += UPSERT_BATCH_SIZE) {
-                const upsertBatch = embeddings.slice(j, j + UPSERT_BATCH_SIZE)
-
-                // Try to upsert with retries
-                for (let retry = 0; retry < MAX_RETRIES; retry++) {
-                  try {
-                    const upsertResult = await upsertVectors(upsertBatch)
-                    totalVectorsInserted += upsertResult.upsertedCount || upsertBatch.length
-                    break
-                  } catch (error) {
-                    // If this is the last retry, log the error
-                    if (retry === MAX_RETRIES - 1) {
-                      logger.error(`Failed to upsert vectors after ${MAX_RETRIES} retries`, {
-                        documentId,
-                        batchNumber,
-                        error: error instanceof Error ? error.message : "Unknown error",
-                      })
-                      throw error
-                    }
-
-                    // Otherwise, wait and retry
-                    const backoffTime = Math.pow(2, retry) * 1000
-                    await new Promise((resolve) => setTimeout(resolve, backoffTime))
-                  }
-                }
-              }
-
-              // Stream batch completion
-              streamUpdate(controller, {
-                type: "progress",
-                status: "batch_complete",
-                progress: batchProgress,
-                message: `Batch ${batchNumber}/${totalBatches} complete`,
-                batchNumber,
-                totalBatches,
-                successfulEmbeddings: embeddings.length,
-                totalSuccessful: successfulEmbeddings,
-                totalVectorsInserted,
-              })
-            }
-          } catch (error) {
-            logger.error(`Error processing batch ${batchNumber}`, {
-              documentId,
-              batchNumber,
-              error: error instanceof Error ? error.message : "Unknown error",
-            })
-
-            // Stream batch error but continue processing
-            streamUpdate(controller, {
-              type: "warning",
-              status: "batch_error",
-              progress: batchProgress,
-              message: `Error in batch ${batchNumber}: ${error instanceof Error ? error.message : "Unknown error"}`,
-              batchNumber,
-              totalBatches,
-              continueProcessing: true,
-            })
-          }
-
-          batchInfo.duration = performance.now() - batchStartTime
-          debugInfo.steps.embedding.batches.push(batchInfo)
-        }
-
-        debugInfo.steps.embedding.successfulEmbeddings = successfulEmbeddings
-        debugInfo.steps.embedding.failedEmbeddings = failedEmbeddings
-        debugInfo.steps.embedding.totalVectorsInserted = totalVectorsInserted
-
-        // Check if we have any successful embeddings
-        if (successfulEmbeddings === 0) {
-          const errorMessage = "Failed to generate any valid embeddings"
-          await updateDocumentStatus(documentId, "failed", 0, errorMessage, {
-            ...debugInfo,
-            error: errorMessage,
-            failedStep: "embedding",
+            status: retrying ? "retry_scheduled" : "background",
+            progress: finished.progress,
+            message: retrying
+              ? `${finished.error_message}; retrying in the background`
+              : "Processing continues in the background",
+            jobId: job.id,
           })
-
-          streamUpdate(controller, {
-            type: "error",
-            status: "failed",
-            message: errorMessage,
-          })
-          controller.close()
-          return
         }
-
-        // Update document metadata with final status
-        debugInfo.processingEndTime = new Date().toISOString()
-        debugInfo.totalDuration = performance.now() - startTime
-
-        // Create a placeholder vector for document metadata
-        const placeholderVector = createPlaceholderVector()
-
-        // Update document status to indexed
-        await upsertVectors([
-          {
-            id: documentId,
-            values: placeholderVector,
-            metadata: {
-              id: documentId,
-              user_id: userId,
-              name: fileName,
-              file_type: fileType,
-              file_size: content.length,
-              file_path: filePath,
-              status: "indexed",
-              processing_progress: 100,
-              chunk_count: successfulEmbeddings,
-              embedding_model: EMBEDDING_MODEL,
-              created_at: document?.created_at || new Date().toISOString(),
-              updated_at: new Date().toISOString(),
-              record_type: "document",
-              debug_info: debugInfo,
-            },
-          },
-        ])
-
-        // Stream completion
-        streamUpdate(controller, {
-          type: "complete",
-          status: "indexed",
-          progress: 100,
-          message: "Document processing complete",
-          totalChunks: validChunks.length,
-          successfulEmbeddings,
-          failedEmbeddings,
-          totalVectorsInserted,
-          processingTime: debugInfo.totalDuration,
-        })
-
-        // Close the stream
-        controller.close()
       } catch (error) {
         logger.error("Error in document processing stream", {
           documentId,
+          jobId: job.id,
           error: error instanceof Error ? error.message : "Unknown error",
           stack: error instanceof Error ? error.stack : undefined,
         })
 
-        // Try to update document status to failed
-        try {
-          await updateDocumentStatus(
-            documentId,
-            "failed",
-            0,
-            error instanceof Error ? error.message : "Unknown error in document processing",
-          )
-        } catch (statusError) {
-          logger.error("Failed to update document status after error", {
-            documentId,
-            error: statusError instanceof Error ? statusError.message : "Unknown error",
-          })
-        }
-
-        // Stream error and close
+        // The job stays in the queue, so the worker can still pick it up
         streamUpdate(controller, {
           type: "error",
           status: "failed",
           message: error instanceof Error ? error.message : "Unknown error in document processing",
+          jobId: job.id,
         })
-        controller.close()
       }
+
+      closeStream(controller)
     },
   })
 
@@ -76,7 +76,7 @@ async function getUserIdFromRequest(request: NextRequest): Promise<string> {
 async function hasDocumentAccess(userId: string, documentId: string): Promise<boolean> {
   try {
     // Get document to check ownership
-    const document = await documentService.getDocument(documentId)
+    const document = await documentService.getDocument(documentId, userId)
 
     if (!document) {
       return false
@@ -137,7 +137,7 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
       const userId = await getUserIdFromRequest(request)
 
       // Check if document exists and user has access
-      const document = await documentService.getDocument(documentId)
+      const document = await documentService.getDocument(documentId, userId)
 
       if (!document) {
         logger.warn(`POST /api/documents/retry - Document not found`, { documentId })
@@ -163,12 +163,12 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
       }
 
       // Update document status to processing
-      await documentService.updateDocumentStatus(documentId, "processing", 0, "Retrying document processing")
+      await documentService.updateDocumentStatus(documentId, userId, "processing", 0, "Retrying document processing")
 
       // Start retry processing asynchronously
       // We don't await this to avoid timeout issues
       documentService
-        .retryProcessing(documentId)
+        .retryProcessing(documentId, userId)
         .then((result) => {
           logger.info(`POST /api/documents/retry - Document processing completed`, {
             documentId,
@@ -249,7 +249,7 @@ async function handleStreamingRetry(request: NextRequest): Promise<Response> {
         })
 
         // Check if document exists and user has access
-        const document = await documentService.getDocument(documentId)
+        const document = await documentService.getDocument(documentId, userId)
 
         if (!document) {
           logger.warn(`POST /api/documents/retry (streaming) - Document not found`, { documentId })
@@ -301,7 +301,7 @@ async function handleStreamingRetry(request: NextRequest): Promise<Response> {
         })
 
         // Update document status to processing
-        await documentService.updateDocumentStatus(documentId, "processing", 0, "Retrying document processing")
+        await documentService.updateDocumentStatus(documentId, userId, "processing", 0, "Retrying document processing")
 
         // Determine the file URL
         // First check if we have a blob_url in the document metadata
@@ -340,7 +340,7 @@ async function handleStreamingRetry(request: NextRequest): Promise<Response> {
 
         try {
           // Process the document with progress tracking
-          const result = await documentService.retryProcessing(documentId, {
+          const result = await documentService.retryProcessing(documentId, userId, {
             onProgress: (progress) => {
               // Stream progress updates
               streamUpdate(controller, {
@@ -364,6 +364,7 @@ async function handleStreamingRetry(request: NextRequest): Promise<Response> {
               totalChunks: result.totalChunks,
               successfulChunks: result.successfulChunks,
               failedChunks: result.failedChunks,
+              unchangedChunks: result.unchangedChunks,
               processingTime: result.processingTime,
             },
           })
@@ -17,7 +17,7 @@
  * - @/utils/apiRequest for standardized API responses
  * - @/lib/document-service for document operations
  * - @/lib/utils/logger for structured logging
- * - @/lib/pinecone-rest-client for vector operations
+ * - @/lib/vector-store for vector operations
  * - @/lib/utils/validators for input validation
  *
  * @module app/api/documents/route
@@ -28,7 +28,7 @@ import { handleApiRequest } from "@/utils/apiRequest"
 import { withErrorHandling } from "@/utils/errorHandling"
 import { createDocument, getDocumentsByUserId, getDocumentStats, validateDocumentInput } from "@/lib/document-service"
 import { logger } from "@/lib/utils/logger"
-import { describeIndexStats } from "@/lib/pinecone-rest-client"
+import { describeIndexStats, getUserNamespace } from "@/lib/vector-store"
 import { validatePaginationParams, validateSortParams } from "@/lib/utils/validators"
 
 export const runtime = "edge"
@@ -167,7 +167,7 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
       let vectorStats = null
       try {
         const indexStats = await describeIndexStats()
-        const userNamespace = `user-${filters.userId}`
+        const userNamespace = getUserNamespace(filters.userId)
         vectorStats = indexStats.namespaces[userNamespace] || { vectorCount: 0 }
       } catch (error) {
         logger.warn(`GET /api/documents - Failed to get vector stats`, {
@@ -0,0 +1,259 @@
+/**
+ * Resumable Upload API Route
+ *
+ * Starts resumable uploads and receives their parts. The client asks for an upload URL,
+ * sends the file in numbered parts to that URL and finishes through
+ * /api/documents/complete-upload. After a dropped connection the client reads the upload
+ * status and only sends the parts that are still missing.
+ *
+ * Routes:
+ * - POST: Start an upload and return its upload URL and part layout; a contentHash that matches an
+ *   existing document is answered with 409 unless onDuplicate (link, replace, keep_both) says what to do
+ * - GET: Upload status with confirmed and missing parts
+ * - PUT: Store one part (raw bytes, optional x-part-checksum SHA-256 header)
+ * - DELETE: Abort the upload and remove its parts
+ *
+ * Dependencies:
+ * - @/lib/upload-sessions for session and part storage
+ * - @/lib/document-extraction for supported file types
+ * - @/lib/document-service for document IDs
+ * - @/lib/document-dedup for duplicate detection
+ * - @/utils/errorHandling for consistent error handling
+ * - @/lib/utils/logger for logging
+ *
+ * @module app/api/documents/upload-url/route
+ */
+
+import { type NextRequest, NextResponse } from "next/server"
+import { AuthorizationError, NotFoundError, ValidationError, withErrorHandling } from "@/utils/errorHandling"
+import {
+  abortUploadSession,
+  createUploadSession,
+  getMissingParts,
+  getUploadSession,
+  listUploadedParts,
+  uploadSessionPart,
+  UploadSessionError,
+} from "@/lib/upload-sessions"
+import { getSupportedExtensions, isSupportedDocumentType } from "@/lib/document-extraction"
+import { generateDocumentId } from "@/lib/document-service"
+import { findDuplicateDocuments, isDuplicateResolution } from "@/lib/document-dedup"
+import { logger } from "@/lib/utils/logger"
+import type { UploadSession } from "@/types"
+
+export const runtime = "edge"
+
+/**
+ * Builds the URL parts of an upload are sent to
+ *
+ * @param uploadId - Upload ID
+ * @returns Relative upload URL
+ */
+function getUploadUrl(uploadId: string): string {
+  return `/api/documents/upload-url?uploadId=${encodeURIComponent(uploadId)}`
+}
+
+/**
+ * Loads an upload session and checks that the user owns it
+ *
+ * @param uploadId - Upload ID
+ * @param userId - User ID
+ * @returns Upload session
+ * @throws NotFoundError or AuthorizationError
+ */
+async function getOwnedSession(uploadId: string | null, userId: string | null): Promise<UploadSession> {
+  if (!uploadId) {
+    throw new ValidationError("Upload ID is required")
+  }
+
+  if (!userId) {
+    throw new ValidationError("User ID is required")
+  }
+
+  const session = await getUploadSession(uploadId, userId)
+
+  if (!session) {
+    throw new NotFoundError(`Upload with ID ${uploadId} not found`, "upload")
+  }
+
+  if (session.user_id !== userId) {
+    throw new AuthorizationError("You don't have permission to access this upload")
+  }
+
+  return session
+}
+
+/**
+ * Turns upload session errors into validation errors for the client
+ *
+ * @param error - Error thrown by the upload session module
+ * @returns Error to throw from the route
+ */
+function toApiError(error: unknown): unknown {
+  return error instanceof UploadSessionError ? new ValidationError(error.message) : error
+}
+
+/**
+ * Summarises an upload for the client
+ *
+ * @param session - Upload session
+ * @returns Upload status with confirmed and missing parts
+ */
+async function getUploadStatus(session: UploadSession) {
+  const parts = session.status === "completed" ? [] : await listUploadedParts(session)
+
+  return {
+    uploadId: session.id,
+    uploadUrl: getUploadUrl(session.id),
+    documentId: session.document_id,
+    status: session.status,
+    fileName: session.file_name,
+    fileSize: session.file_size,
+    partSize: session.part_size,
+    totalParts: session.total_parts,
+    uploadedParts: parts.map((part) => part.part_number),
+    missingParts: session.status === "completed" ? [] : getMissingParts(session, parts),
+    uploadedBytes: parts.reduce((sum, part) => sum + part.size, 0),
+    expiresAt: session.expires_at,
+  }
+}
+
+/**
+ * POST handler that starts a resumable upload
+ * Expects a JSON body with fileName, fileType, fileSize and userId
+ */
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  const { fileName, fileType, fileSize, userId, partSize, contentHash, onDuplicate } = await request.json()
+
+  if (!fileName) {
+    throw new ValidationError("File name is required")
+  }
+
+  if (!userId) {
+    throw new ValidationError("User ID is required")
+  }
+
+  if (!isSupportedDocumentType(fileType || "", fileName)) {
+    throw new ValidationError(`Unsupported file type. Supported extensions: ${getSupportedExtensions().join(", ")}`)
+  }
+
+  if (onDuplicate !== undefined && !isDuplicateResolution(onDuplicate)) {
+    throw new ValidationError("onDuplicate must be one of: link, replace, keep_both")
+  }
+
+  // The client hashes the file up front, so a duplicate is caught before any part is sent
+  const duplicates = contentHash ? await findDuplicateDocuments(userId, contentHash) : []
+
+  if (duplicates.length > 0 && onDuplicate === undefined) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: `You already uploaded this file as "${duplicates[0].name}"`,
+        code: "duplicate_document",
+        contentHash,
+        duplicates,
+      },
+      { status: 409 },
+    )
+  }
+
+  if (duplicates.length > 0 && onDuplicate === "link") {
+    return NextResponse.json({
+      success: true,
+      data: { linked: true, documentId: duplicates[0].id, duplicates },
+    })
+  }
+
+  let session: UploadSession
+  try {
+    session = await createUploadSession({
+      userId,
+      documentId: generateDocumentId(),
+      fileName,
+      fileType: fileType || "text/plain",
+      fileSize: Number(fileSize),
+      partSize: partSize ? Number(partSize) : undefined,
+      contentHash: typeof contentHash === "string" ? contentHash : undefined,
+      // Replacing happens once the upload completes, so an abandoned upload leaves the original alone
+      onDuplicate: duplicates.length > 0 && onDuplicate !== "link" ? onDuplicate : undefined,
+    })
+  } catch (error) {
+    throw toApiError(error)
+  }
+
+  logger.info(`POST /api/documents/upload-url - Upload started`, {
+    uploadId: session.id,
+    userId,
+    fileName,
+    fileSize: session.file_size,
+    totalParts: session.total_parts,
+  })
+
+  return NextResponse.json({
+    success: true,
+    data: await getUploadStatus(session),
+  })
+})
+
+/**
+ * GET handler for the status of an upload
+ * Expects uploadId and userId query parameters
+ */
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const { searchParams } = new URL(request.url)
+  const session = await getOwnedSession(searchParams.get("uploadId"), searchParams.get("userId"))
+
+  return NextResponse.json({
+    success: true,
+    data: await getUploadStatus(session),
+  })
+})
+
+/**
+ * PUT handler that stores one part of an upload
+ * Expects uploadId, partNumber and userId query parameters and the part bytes as the body
+ */
+export const PUT = withErrorHandling(async (request: NextRequest) => {
+  const { searchParams } = new URL(request.url)
+  const session = await getOwnedSession(searchParams.get("uploadId"), searchParams.get("userId"))
+  const partNumber = Number(searchParams.get("partNumber"))
+  const checksum = request.headers.get("x-part-checksum") || undefined
+
+  try {
+    const part = await uploadSessionPart(session, partNumber, await request.arrayBuffer(), checksum)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        uploadId: session.id,
+        partNumber: part.part_number,
+        size: part.size,
+        checksum: part.checksum,
+      },
+    })
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
+
+/**
+ * DELETE handler that aborts an upload
+ * Expects uploadId and userId query parameters
+ */
+export const DELETE = withErrorHandling(async (request: NextRequest) => {
+  const { searchParams } = new URL(request.url)
+  const session = await getOwnedSession(searchParams.get("uploadId"), searchParams.get("userId"))
+
+  try {
+    await abortUploadSession(session)
+  } catch (error) {
+    throw toApiError(error)
+  }
+
+  logger.info(`DELETE /api/documents/upload-url - Upload aborted`, { uploadId: session.id })
+
+  return NextResponse.json({
+    success: true,
+    message: `Upload ${session.id} aborted`,
+  })
+})
@@ -11,22 +11,27 @@
  * - Structured error handling
  * - Validation of required fields
  * - Secure random filename generation
+ * - Duplicate detection by content hash, resolved by the onDuplicate field (link, replace, keep_both)
+ * - Replaced documents are returned as replaceDocumentIds for /api/documents/process, which deletes
+ *   them once the upload is indexed
  * 
  * Dependencies:
  * - @/utils/errorHandling for consistent error handling
  * - @/utils/apiRequest for standardized API responses
  * - @/utils/validation for input validation
  * - @/lib/utils/logger for logging
+ * - @/lib/document-dedup for duplicate detection
  * - @vercel/blob for blob storage operations
  * 
  * @module app/api/documents/upload/route
  */
 
-import type { NextRequest } from "next/server"
+import { type NextRequest, NextResponse } from "next/server"
 import { handleApiRequest } from "@/utils/apiRequest"
 import { withErrorHandling } from "@/utils/errorHandling"
 import { ValidationError } from "@/utils/validation"
 import { logger } from "@/lib/utils/logger"
+import { computeContentHash, findDuplicateDocuments, isDuplicateResolution } from "@/lib/document-dedup"
 import { put } from "@vercel/blob"
 
 export const runtime = "edge"
@@ -43,6 +48,7 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
       const userId = formData.get("userId") as string
       const documentId = formData.get("documentId") as string
       const filePath = formData.get("filePath") as string
+      const onDuplicate = formData.get("onDuplicate")
 
       logger.info(`POST /api/documents/upload - Processing upload request`, {
         documentId,
@@ -69,8 +75,50 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
         throw new ValidationError("File path is required")
       }
 
-      // Upload to Vercel Blob Storage
+      if (onDuplicate !== null && !isDuplicateResolution(onDuplicate)) {
+        throw new ValidationError("onDuplicate must be one of: link, replace, keep_both")
+      }
+
       const fileBuffer = await file.arrayBuffer()
+      const contentHash = await computeContentHash(fileBuffer)
+      const duplicates = await findDuplicateDocuments(userId, contentHash, { excludeId: documentId })
+
+      if (duplicates.length > 0) {
+        logger.info(`POST /api/documents/upload - Upload duplicates existing documents`, {
+          documentId,
+          contentHash,
+          duplicates: duplicates.map((duplicate) => duplicate.id),
+          onDuplicate,
+        })
+
+        // Let the user choose before anything is stored
+        if (onDuplicate === null) {
+          return NextResponse.json(
+            {
+              success: false,
+              error: `You already uploaded this file as "${duplicates[0].name}"`,
+              code: "duplicate_document",
+              contentHash,
+              duplicates,
+            },
+            { status: 409 },
+          )
+        }
+
+        if (onDuplicate === "link") {
+          const existing = duplicates[0]
+          return {
+            success: true,
+            linked: true,
+            documentId: existing.id,
+            fileName: existing.name,
+            fileSize: existing.file_size,
+            contentHash,
+          }
+        }
+      }
+
+      // Upload to Vercel Blob Storage
       const blobPath = `documents/${userId}/${documentId}/${file.name.replace(/[^a-zA-Z0-9.-]/g, "_")}`
 
       logger.info(`POST /api/documents/upload - Uploading to Vercel Blob`, {
@@ -107,6 +155,10 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
         fileSize: file.size,
         fileUrl: blob.url, // Return the actual blob URL
         blobUrl: blob.url, // Include both for backward compatibility
+        contentHash,
+        ...(onDuplicate === "replace" &&
+          duplicates.length > 0 && { replaceDocumentIds: duplicates.map((duplicate) => duplicate.id) }),
+        ...(onDuplicate === "keep_both" && duplicates.length > 0 && { duplicateOf: duplicates[0].id }),
       }
     } catch (error) {
       logger.error("POST /api/documents/upload - Error uploading file", {
@@ -0,0 +1,240 @@
+/**
+ * Document Versions API Route
+ *
+ * Lists, uploads and restores versions of a document. Uploading a file for an existing
+ * document creates a new version that search serves once it is fully indexed; earlier
+ * versions stay browsable and can be restored until the retention policy purges them.
+ *
+ * Routes:
+ * - GET: Version history of a document
+ * - POST: Upload a new version of a document
+ * - PATCH: Roll the document back to an earlier version
+ *
+ * Dependencies:
+ * - @/lib/document-service for version history and rollback
+ * - @/lib/job-worker for indexing new versions as background jobs
+ * - @/utils/errorHandling for consistent error handling
+ * - @/lib/utils/logger for logging
+ * - @vercel/blob for blob storage operations
+ *
+ * @module app/api/documents/versions/route
+ */
+
+import { type NextRequest, NextResponse } from "next/server"
+import { put } from "@vercel/blob"
+import { AuthorizationError, NotFoundError, ValidationError, withErrorHandling } from "@/utils/errorHandling"
+import { documentService, DocumentProcessingError } from "@/lib/document-service"
+import { driveJob, enqueueVersionCreation } from "@/lib/job-worker"
+import { MAX_DOCUMENT_SIZE } from "@/lib/document-extraction"
+import { logger } from "@/lib/utils/logger"
+import type { Document } from "@/types"
+
+export const runtime = "edge"
+
+// How long the request indexes the version itself before leaving it to the worker
+const PROCESS_TIMEOUT_MS = 15 * 1000
+
+/**
+ * Loads a document and checks that the user owns it
+ *
+ * @param documentId - Document ID
+ * @param userId - User ID
+ * @returns Document
+ * @throws NotFoundError or AuthorizationError
+ */
+async function getOwnedDocument(documentId: string, userId: string): Promise<Document> {
+  const document = await documentService.getDocument(documentId, userId)
+
+  if (!document) {
+    throw new NotFoundError(`Document with ID ${documentId} not found`, "document")
+  }
+
+  if (document.user_id !== userId) {
+    throw new AuthorizationError("You don't have permission to change this document")
+  }
+
+  return document
+}
+
+/**
+ * Maps version errors from the document service onto API errors
+ *
+ * @param error - Error thrown by the document service
+ * @returns Error to throw from the route
+ */
+function toApiError(error: unknown): unknown {
+  if (!(error instanceof DocumentProcessingError)) {
+    return error
+  }
+
+  switch (error.code) {
+    case "document_not_found":
+    case "version_not_found":
+      return new NotFoundError(error.message, "document")
+    case "document_busy":
+    case "version_purged":
+    case "version_not_indexed":
+      return new ValidationError(error.message)
+    default:
+      return error
+  }
+}
+
+/**
+ * GET handler for the version history of a document
+ * Expects documentId and userId query parameters
+ */
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const { searchParams } = new URL(request.url)
+  const documentId = searchParams.get("documentId")
+  const userId = searchParams.get("userId")
+
+  if (!documentId) {
+    throw new ValidationError("Document ID is required")
+  }
+
+  if (!userId) {
+    throw new ValidationError("User ID is required")
+  }
+
+  const document = await getOwnedDocument(documentId, userId)
+  const versions = (await documentService.getVersionHistory(documentId, userId)) || []
+
+  return NextResponse.json({
+    success: true,
+    data: {
+      documentId,
+      currentVersion: document.version ?? 1,
+      versions,
+    },
+  })
+})
+
+/**
+ * POST handler for uploading a new version of a document
+ * Expects FormData with the file, document ID and user ID
+ */
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  const formData = await request.formData()
+  const file = formData.get("file") as File
+  const documentId = formData.get("documentId") as string
+  const userId = formData.get("userId") as string
+
+  if (!file) {
+    throw new ValidationError("File is required")
+  }
+
+  if (!documentId) {
+    throw new ValidationError("Document ID is required")
+  }
+
+  if (!userId) {
+    throw new ValidationError("User ID is required")
+  }
+
+  if (file.size > MAX_DOCUMENT_SIZE) {
+    throw new ValidationError("Document is too large (max 10MB)")
+  }
+
+  const document = await getOwnedDocument(documentId, userId)
+
+  if (document.status === "processing") {
+    throw new ValidationError(`Document is still processing: ${documentId}`)
+  }
+
+  const nextVersion = Math.max(document.version_count ?? 1, document.version ?? 1) + 1
+
+  // Each version gets its own blob so earlier versions stay downloadable
+  const data = await file.arrayBuffer()
+  const blobPath = `documents/${userId}/${documentId}/v${nextVersion}/${file.name.replace(/[^a-zA-Z0-9.-]/g, "_")}`
+  const blob = await put(blobPath, data, {
+    access: "public",
+    contentType: file.type || "text/plain",
+    addRandomSuffix: false,
+  })
+
+  logger.info(`POST /api/documents/versions - Uploaded new version`, {
+    documentId,
+    userId,
+    version: nextVersion,
+    fileName: file.name,
+    fileSize: file.size,
+  })
+
+  // Indexing runs as a job, so a version cut off by the request timeout resumes in the worker
+  const job = await enqueueVersionCreation({
+    documentId,
+    userId,
+    filePath: blobPath,
+    fileName: file.name,
+    fileType: file.type || "text/plain",
+    fileUrl: blob.url,
+  })
+
+  if (job.payload.fileUrl !== blob.url) {
+    throw new ValidationError(`Another version of document ${documentId} is still processing`)
+  }
+
+  const finished = await driveJob(job.id, { timeoutMs: PROCESS_TIMEOUT_MS })
+
+  if (finished.status === "failed") {
+    throw new DocumentProcessingError(finished.error_message || "Document version processing failed", {
+      code: "version_failed",
+      context: { documentId, jobId: job.id },
+    })
+  }
+
+  if (finished.status !== "completed") {
+    return NextResponse.json(
+      {
+        success: true,
+        data: { documentId, version: nextVersion, status: "processing", jobId: job.id },
+      },
+      { status: 202 },
+    )
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: finished.result,
+  })
+})
+
+/**
+ * PATCH handler for rolling a document back to an earlier version
+ * Expects a JSON body with documentId, userId and version
+ */
+export const PATCH = withErrorHandling(async (request: NextRequest) => {
+  const { documentId, userId, version } = await request.json()
+
+  if (!documentId) {
+    throw new ValidationError("Document ID is required")
+  }
+
+  if (!userId) {
+    throw new ValidationError("User ID is required")
+  }
+
+  if (!Number.isInteger(version) || version < 1) {
+    throw new ValidationError("Version must be a positive integer")
+  }
+
+  await getOwnedDocument(documentId, userId)
+
+  try {
+    const document = await documentService.rollbackToVersion(documentId, userId, version)
+
+    logger.info(`PATCH /api/documents/versions - Rolled back document`, {
+      documentId,
+      userId,
+      version,
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: document,
+    })
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -14,7 +14,7 @@
 
 import type { NextRequest } from "next/server"
 import { generateEmbedding, generateEmbeddings } from "@/lib/embedding-service"
-import { EMBEDDING_MODEL, VECTOR_DIMENSION } from "@/lib/embedding-config"
+import { EMBEDDING_MODEL, EMBEDDING_PROVIDER, VECTOR_DIMENSION } from "@/lib/embedding-config"
 import { handleApiRequest } from "@/utils/apiRequest"
 import { withErrorHandling } from "@/utils/errorHandling"
 import { logger } from "@/lib/utils/logger"
@@ -142,8 +142,10 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
 
         const embedding = await generateEmbedding(body.text, {
           useCache: true, // Enable caching for performance
+          provider: EMBEDDING_PROVIDER,
           dimensions: VECTOR_DIMENSION,
           model: EMBEDDING_MODEL,
+          inputType: isQueryEmbedding ? "query" : "document",
         })
 
         return {
@@ -168,8 +170,10 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
 
         const embeddings = await generateEmbeddings(body.texts, {
           useCache: true, // Enable caching for performance
+          provider: EMBEDDING_PROVIDER,
           dimensions: VECTOR_DIMENSION,
           model: EMBEDDING_MODEL,
+          inputType: isQueryEmbedding ? "query" : "document",
           batchSize: 20, // Process in smaller batches for stability
         })
 
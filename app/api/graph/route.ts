@@ -0,0 +1,86 @@
+/**
+ * Knowledge Graph API Route
+ *
+ * Navigates the knowledge graph extracted from a user's documents. An entity is looked up by
+ * name or node ID and returned with its neighbours: the entities it is related to, the relations
+ * between them, and the documents and chunks that state each relation.
+ *
+ * Routes:
+ * - GET: An entity and its neighbours
+ *
+ * Dependencies:
+ * - @/lib/knowledge-graph for graph lookups
+ * - @/utils/errorHandling for consistent error handling
+ *
+ * @module app/api/graph/route
+ */
+
+import { type NextRequest, NextResponse } from "next/server"
+import { NotFoundError, ValidationError, withErrorHandling } from "@/utils/errorHandling"
+import { getEntity, getEntityNeighbors } from "@/lib/knowledge-graph"
+
+export const runtime = "edge"
+
+const DEFAULT_NEIGHBOR_LIMIT = 50
+const MAX_NEIGHBOR_LIMIT = 200
+
+/**
+ * GET handler for an entity and its neighbours
+ * Expects userId and entity (name or node ID) query parameters; relation, documentId and limit are optional
+ */
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const { searchParams } = new URL(request.url)
+  const userId = searchParams.get("userId")
+  const entityParam = searchParams.get("entity")?.trim()
+  const relation = searchParams.get("relation") || undefined
+  const documentId = searchParams.get("documentId") || undefined
+  const limit = Number.parseInt(searchParams.get("limit") || String(DEFAULT_NEIGHBOR_LIMIT), 10)
+
+  if (!userId) {
+    throw new ValidationError("User ID is required")
+  }
+
+  if (!entityParam) {
+    throw new ValidationError("Entity name or ID is required")
+  }
+
+  if (Number.isNaN(limit) || limit < 1 || limit > MAX_NEIGHBOR_LIMIT) {
+    throw new ValidationError(`Limit must be between 1 and ${MAX_NEIGHBOR_LIMIT}`)
+  }
+
+  // Lookups are scoped to the user's graph, so other users' entities are reported as missing
+  const entity = await getEntity(userId, entityParam)
+
+  if (!entity) {
+    throw new NotFoundError(`Entity ${entityParam} not found`, "entity")
+  }
+
+  const neighbors = await getEntityNeighbors(userId, entity.id, { relation, documentId, limit })
+
+  return NextResponse.json({
+    success: true,
+    data: {
+      entity: {
+        id: entity.id,
+        name: entity.name,
+        type: entity.type,
+        description: entity.description,
+        mentionCount: entity.mention_count,
+        documentIds: entity.document_ids,
+        chunkIds: entity.chunk_ids,
+      },
+      neighbors: neighbors.map(({ node, edge, direction }) => ({
+        id: node.id,
+        name: node.name,
+        type: node.type,
+        description: node.description,
+        relation: edge.relation,
+        direction,
+        edgeId: edge.id,
+        mentionCount: edge.mention_count,
+        documentIds: edge.document_ids,
+        chunkIds: edge.chunk_ids,
+      })),
+    },
+  })
+})
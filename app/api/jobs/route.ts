@@ -0,0 +1,65 @@
+/**
+ * Jobs API Route
+ *
+ * Status of background jobs, e.g. the processing job returned by /api/documents/process.
+ * Clients that disconnected from the processing stream poll this route instead.
+ *
+ * Dependencies:
+ * - @/lib/job-queue for job storage
+ * - @/utils/errorHandling for consistent error handling
+ *
+ * @module app/api/jobs/route
+ */
+
+import { type NextRequest, NextResponse } from "next/server"
+import { AuthorizationError, NotFoundError, ValidationError, withErrorHandling } from "@/utils/errorHandling"
+import { getJob } from "@/lib/job-queue"
+
+export const runtime = "edge"
+
+/**
+ * GET handler for the status of a job
+ * Expects jobId and userId query parameters
+ */
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const { searchParams } = new URL(request.url)
+  const jobId = searchParams.get("jobId")
+  const userId = searchParams.get("userId")
+
+  if (!jobId) {
+    throw new ValidationError("Job ID is required")
+  }
+
+  if (!userId) {
+    throw new ValidationError("User ID is required")
+  }
+
+  const job = await getJob(jobId)
+
+  if (!job) {
+    throw new NotFoundError(`Job with ID ${jobId} not found`, "job")
+  }
+
+  if (job.user_id !== userId) {
+    throw new AuthorizationError("You don't have permission to access this job")
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: {
+      id: job.id,
+      type: job.type,
+      documentId: job.document_id,
+      status: job.status,
+      progress: job.progress,
+      stage: job.stage,
+      message: job.message,
+      attempts: job.attempts,
+      maxAttempts: job.max_attempts,
+      result: job.result,
+      error: job.error_message,
+      createdAt: job.created_at,
+      updatedAt: job.updated_at,
+    },
+  })
+})
@@ -0,0 +1,39 @@
+/**
+ * Job Worker API Route
+ *
+ * Entry point for the background worker. Vercel Cron calls this route every minute (see
+ * vercel.json); each call runs due jobs and jobs whose worker stopped sending heartbeats,
+ * until the queue is empty or the time budget is used up.
+ *
+ * Dependencies:
+ * - @/lib/cron-auth for restricting access to operators and Vercel Cron
+ * - @/lib/job-worker for running jobs
+ * - @/utils/errorHandling for consistent error handling
+ * - @/lib/utils/logger for logging
+ *
+ * @module app/api/jobs/worker/route
+ */
+
+import { type NextRequest, NextResponse } from "next/server"
+import { withErrorHandling } from "@/utils/errorHandling"
+import { assertCronAccess } from "@/lib/cron-auth"
+import { runWorker } from "@/lib/job-worker"
+import { logger } from "@/lib/utils/logger"
+
+export const runtime = "edge"
+
+/**
+ * GET handler that runs the worker once
+ */
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  assertCronAccess(request)
+
+  const { workerId, jobs } = await runWorker()
+
+  logger.info(`GET /api/jobs/worker - Worker run complete`, { workerId, jobsRun: jobs.length })
+
+  return NextResponse.json({
+    success: true,
+    data: { workerId, jobs },
+  })
+})
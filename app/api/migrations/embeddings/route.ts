@@ -0,0 +1,141 @@
+/**
+ * Embedding Migration API Route
+ *
+ * Moves search to another embedding model. POST starts re-embedding every record into a new
+ * index in the background; search switches to it once the copy is complete. GET reports the
+ * active index, the previous one and the progress of the migration. PATCH rolls search back to
+ * the previous index, cancels a migration that has not switched yet, or retires the previous
+ * index once the new one has proven itself.
+ *
+ * Dependencies:
+ * - @/lib/cron-auth for restricting access to operators and Vercel Cron
+ * - @/lib/embedding-migration for running and controlling migrations
+ * - @/lib/vector-store for the embedding index state
+ * - @/utils/errorHandling for consistent error handling
+ * - @/lib/utils/logger for logging
+ *
+ * @module app/api/migrations/embeddings/route
+ */
+
+import { type NextRequest, NextResponse } from "next/server"
+import { ValidationError, withErrorHandling } from "@/utils/errorHandling"
+import { assertCronAccess } from "@/lib/cron-auth"
+import {
+  cancelEmbeddingMigration,
+  EmbeddingMigrationError,
+  retirePreviousEmbeddingIndex,
+  rollbackEmbeddingIndex,
+  startEmbeddingMigration,
+} from "@/lib/embedding-migration"
+import { getEmbeddingIndexState } from "@/lib/vector-store"
+import { logger } from "@/lib/utils/logger"
+
+export const runtime = "edge"
+
+/**
+ * Runs a migration operation, reporting refusals as validation errors
+ *
+ * @param operation - Operation to run
+ * @returns Result of the operation
+ * @throws ValidationError if the operation is not possible in the current state
+ */
+async function runMigrationOperation<T>(operation: () => Promise<T>): Promise<T> {
+  try {
+    return await operation()
+  } catch (error) {
+    if (error instanceof EmbeddingMigrationError && !error.retryable) {
+      throw new ValidationError(error.message)
+    }
+    throw error
+  }
+}
+
+/**
+ * GET handler that reports the embedding index state
+ */
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  assertCronAccess(request)
+
+  const state = await getEmbeddingIndexState({ fresh: true })
+
+  return NextResponse.json({
+    success: true,
+    data: state,
+  })
+})
+
+/**
+ * POST handler that starts a migration
+ * Expects a JSON body with model and optionally provider (that of the active index by default),
+ * dimension (the provider's dimension of the model by default) and, for Pinecone indexes of
+ * another dimension, host
+ */
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  assertCronAccess(request)
+
+  const { model, provider, dimension, host } = await request.json().catch(() => ({}))
+
+  if (typeof model !== "string" || !model.trim()) {
+    throw new ValidationError("model is required")
+  }
+
+  if (provider !== undefined && (typeof provider !== "string" || !provider.trim())) {
+    throw new ValidationError("provider must be a non-empty string")
+  }
+
+  if (dimension !== undefined && (!Number.isInteger(dimension) || dimension < 1)) {
+    throw new ValidationError("dimension must be a positive integer")
+  }
+
+  if (host !== undefined && (typeof host !== "string" || !host.trim())) {
+    throw new ValidationError("host must be a non-empty string")
+  }
+
+  const migration = await runMigrationOperation(() =>
+    startEmbeddingMigration({ model: model.trim(), provider: provider?.trim(), dimension, host: host?.trim() }),
+  )
+
+  logger.info(`POST /api/migrations/embeddings - Migration started`, {
+    migrationId: migration.id,
+    provider: migration.target.provider,
+    model: migration.target.model,
+    dimension: migration.target.dimension,
+  })
+
+  return NextResponse.json({
+    success: true,
+    data: migration,
+  })
+})
+
+/**
+ * PATCH handler that rolls back, cancels or retires
+ * Expects a JSON body with action: "rollback", "cancel" or "retire"
+ */
+export const PATCH = withErrorHandling(async (request: NextRequest) => {
+  assertCronAccess(request)
+
+  const { action } = await request.json().catch(() => ({}))
+
+  let data
+  switch (action) {
+    case "rollback":
+      data = await runMigrationOperation(rollbackEmbeddingIndex)
+      break
+    case "cancel":
+      data = await runMigrationOperation(cancelEmbeddingMigration)
+      break
+    case "retire":
+      data = await runMigrationOperation(retirePreviousEmbeddingIndex)
+      break
+    default:
+      throw new ValidationError('action must be "rollback", "cancel" or "retire"')
+  }
+
+  logger.info(`PATCH /api/migrations/embeddings - ${action} complete`)
+
+  return NextResponse.json({
+    success: true,
+    data,
+  })
+})
@@ -0,0 +1,65 @@
+/**
+ * Namespace Migration API Route
+ *
+ * Moves vector records written before per-user namespaces into the namespace of their user.
+ * GET reports how many records are still waiting; POST runs the migration for up to the time
+ * budget and reports whether it is done, so an operator or a script calls it until it is.
+ *
+ * Dependencies:
+ * - @/lib/cron-auth for restricting access to operators and Vercel Cron
+ * - @/lib/namespace-migration for moving records
+ * - @/utils/errorHandling for consistent error handling
+ * - @/lib/utils/logger for logging
+ *
+ * @module app/api/migrations/namespaces/route
+ */
+
+import { type NextRequest, NextResponse } from "next/server"
+import { ValidationError, withErrorHandling } from "@/utils/errorHandling"
+import { assertCronAccess } from "@/lib/cron-auth"
+import { countUnmigratedRecords, migrateToUserNamespaces } from "@/lib/namespace-migration"
+import { logger } from "@/lib/utils/logger"
+
+export const runtime = "edge"
+
+/**
+ * GET handler that counts the records still in the shared namespace
+ */
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  assertCronAccess(request)
+
+  const pending = await countUnmigratedRecords()
+
+  return NextResponse.json({
+    success: true,
+    data: { pending },
+  })
+})
+
+/**
+ * POST handler that runs the migration once
+ * Accepts an optional JSON body with batchSize
+ */
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  assertCronAccess(request)
+
+  const body = await request.json().catch(() => ({}))
+  const batchSize = body?.batchSize
+
+  if (batchSize !== undefined && (!Number.isInteger(batchSize) || batchSize < 1)) {
+    throw new ValidationError("batchSize must be a positive integer")
+  }
+
+  const result = await migrateToUserNamespaces({ batchSize })
+
+  logger.info(`POST /api/migrations/namespaces - Migration run complete`, {
+    moved: result.moved,
+    retained: result.retained,
+    complete: result.complete,
+  })
+
+  return NextResponse.json({
+    success: true,
+    data: result,
+  })
+})
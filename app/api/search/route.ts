@@ -6,8 +6,12 @@
  *
  * Features:
  * - Multiple search modes: semantic, keyword, hybrid
+ * - Keyword search over an inverted index of chunk terms, with phrase and prefix matching
+ * - Hybrid search weighting semantic and BM25 keyword scores with a tunable alpha
  * - Reranking for improved relevance
  * - Comprehensive filtering by document type, date, and metadata
+ * - Latest document versions by default, with older versions searchable per document
+ * - Filtering by tags and document language generated at ingestion
  * - Pagination for large result sets
  * - Score normalization for consistent ranking
  * - Caching for repeated queries
@@ -15,7 +19,11 @@
  *
  * Dependencies:
  * - @/lib/embedding-service for generating query embeddings
- * - @/lib/pinecone-rest-client for vector operations
+ * - @/lib/vector-store for vector operations
+ * - @/lib/document-versioning for version filters
+ * - @/lib/document-enrichment for tag normalisation
+ * - @/lib/keyword-index for keyword search
+ * - @/lib/conversation-store for the search log
  * - @/utils/errorHandling for consistent error handling
  * - @/utils/apiRequest for standardized API responses
  * - @/utils/validation for input validation
@@ -29,7 +37,12 @@ import { withErrorHandling } from "@/utils/errorHandling"
 import { handleApiRequest } from "@/utils/apiRequest"
 import { ValidationError } from "@/utils/validation"
 import { generateEmbedding, EmbeddingError } from "@/lib/embedding-service"
-import { queryVectors, createPlaceholderVector, PineconeError, hybridSearch } from "@/lib/pinecone-rest-client"
+import { PineconeError } from "@/lib/pinecone-rest-client"
+import { getUserNamespace, queryVectors, hybridSearch } from "@/lib/vector-store"
+import { getLatestVersionClause, getVersionClause } from "@/lib/document-versioning"
+import { logSearch } from "@/lib/conversation-store"
+import { normalizeTag } from "@/lib/document-enrichment"
+import { searchKeywordIndex } from "@/lib/keyword-index"
 import { logger } from "@/lib/utils/logger"
 
 // Custom error class for search operations
@@ -53,6 +66,7 @@ const DEFAULT_TOP_K = 5
 const MAX_TOP_K = 20
 const MIN_QUERY_LENGTH = 2
 const MAX_QUERY_LENGTH = 1000
+const DEFAULT_HYBRID_ALPHA = 0.75 // 75% semantic, 25% keyword
 const CACHE_TTL = 5 * 60 * 1000 // 5 minutes in ms
 
 // Simple in-memory cache for search results
@@ -70,6 +84,7 @@ const searchCache = new Map<string, CacheEntry>()
  * @param userId - User ID
  * @param query - Search query
  * @param type - Search type
+ * @param alpha - Hybrid search weight
  * @param filters - Search filters
  * @param page - Page number
  * @param pageSize - Page size
@@ -79,11 +94,12 @@ function createCacheKey(
   userId: string,
   query: string,
   type: string,
+  alpha: number,
   filters: any,
   page: number,
   pageSize: number,
 ): string {
-  return `${userId}:${query}:${type}:${JSON.stringify(filters)}:${page}:${pageSize}`
+  return `${userId}:${query}:${type}:${alpha}:${JSON.stringify(filters)}:${page}:${pageSize}`
 }
 
 /**
@@ -93,9 +109,16 @@ function createCacheKey(
  * @param query - Search query
  * @param type - Search type
  * @param topK - Number of results to return
+ * @param alpha - Hybrid search weight between 0 (keywords only) and 1 (semantic only)
  * @throws ValidationError if parameters are invalid
  */
-function validateSearchParams(userId: string | null, query: string | null, type: string | null, topK: number): void {
+function validateSearchParams(
+  userId: string | null,
+  query: string | null,
+  type: string | null,
+  topK: number,
+  alpha: number,
+): void {
   if (!userId) {
     throw new ValidationError("User ID is required")
   }
@@ -119,6 +142,53 @@ function validateSearchParams(userId: string | null, query: string | null, type:
   if (topK < 1 || topK > MAX_TOP_K) {
     throw new ValidationError(`topK must be between 1 and ${MAX_TOP_K}`)
   }
+
+  if (typeof alpha !== "number" || Number.isNaN(alpha) || alpha < 0 || alpha > 1) {
+    throw new ValidationError("alpha must be a number between 0 and 1")
+  }
+}
+
+/**
+ * Builds the filter clauses that select document versions, to combine under $and
+ * Search covers the latest version of every document unless an older version of one document is requested
+ *
+ * @param documentId - Optional document to search within
+ * @param version - Optional version of that document
+ * @returns Metadata filter clauses
+ * @throws ValidationError if a version is requested without a document or is not a positive number
+ */
+function buildVersionClauses(documentId?: string | null, version?: number): Record<string, any>[] {
+  const clauses: Record<string, any>[] = documentId ? [{ document_id: { $eq: documentId } }] : []
+
+  if (version === undefined) {
+    return [...clauses, getLatestVersionClause()]
+  }
+
+  if (!documentId) {
+    throw new ValidationError("A version can only be searched together with a document ID")
+  }
+
+  if (!Number.isInteger(version) || version < 1) {
+    throw new ValidationError("Version must be a positive integer")
+  }
+
+  return [...clauses, getVersionClause([version])]
+}
+
+/**
+ * Builds the part of the filter that selects chunks by enrichment tags and document language
+ *
+ * @param tags - Optional tags; chunks matching any of them are included
+ * @param language - Optional ISO 639-1 language code
+ * @returns Metadata filter fields
+ */
+function buildEnrichmentFilter(tags?: string[], language?: string | null): Record<string, any> {
+  const normalizedTags = (tags || []).map(normalizeTag).filter(Boolean)
+
+  return {
+    ...(normalizedTags.length > 0 && { tags: { $in: normalizedTags } }),
+    ...(language && { document_language: { $eq: language.trim().toLowerCase() } }),
+  }
 }
 
 /**
@@ -167,7 +237,8 @@ function extractHighlights(content: string, query: string, maxHighlights = 2): s
 }
 
 /**
- * Performs keyword search on document content
+ * Performs keyword search over the terms indexed for every chunk
+ * Supports "quoted phrases" and prefix* words, and reads every chunk containing a query term
  *
  * @param query - Search query
  * @param userId - User ID
@@ -177,76 +248,37 @@ function extractHighlights(content: string, query: string, maxHighlights = 2): s
  */
 async function performKeywordSearch(query: string, userId: string, filter: any, topK: number): Promise<any[]> {
   try {
-    // Create a filter that includes the query terms in content
-    const queryTerms = query
-      .toLowerCase()
-      .split(/\s+/)
-      .filter((term) => term.length > 2)
-
-    if (queryTerms.length === 0) {
-      return []
-    }
-
-    // We'll use a metadata filter to find documents containing the query terms
-    // This is a simplified approach - in a real implementation, you might use
-    // a dedicated text search engine or more sophisticated filtering
-
-    // Query Pinecone with a placeholder vector but rely on metadata filtering
-    const placeholderVector = createPlaceholderVector()
+    const matches = await searchKeywordIndex(query, userId, { filter, topK })
 
-    // Add text search conditions to the filter
-    const textFilter = {
-      ...filter,
-      $or: queryTerms.map((term) => ({
-        content: { $contains: term },
-      })),
-    }
+    // Format results
+    return matches.map(({ chunkId, score, matchedTerms, metadata }) => {
+      const content = metadata.content || ""
 
-    const response = await queryVectors(placeholderVector, {
-      topK,
-      includeMetadata: true,
-      filter: textFilter,
+      return {
+        id: chunkId,
+        title: metadata.document_name || "Unknown",
+        content: content,
+        documentId: metadata.document_id || chunkId,
+        documentName: metadata.document_name || "Unknown",
+        documentType: metadata.document_type || "Unknown",
+        date: metadata.created_at || new Date().toISOString(),
+        relevance: score,
+        matchedTerms,
+        highlights: extractHighlights(content, query),
+        chunkIndex: metadata.chunk_index,
+        totalChunks: metadata.total_chunks,
+        pageNumber: metadata.page_number,
+        sheetName: metadata.sheet_name,
+        rowStart: metadata.row_start,
+        rowEnd: metadata.row_end,
+        sourcePath: metadata.source_path,
+        symbol: metadata.symbol,
+        startLine: metadata.start_line,
+        endLine: metadata.end_line,
+        section: metadata.section,
+        sectionHeading: metadata.section_heading,
+      }
     })
-
-    if (!response.matches || !Array.isArray(response.matches)) {
-      return []
-    }
-
-    // Format and score results
-    return response.matches
-      .map((match) => {
-        const content = match.metadata?.content || ""
-        const contentLower = content.toLowerCase()
-
-        // Calculate a simple relevance score based on term frequency
-        let score = 0
-        for (const term of queryTerms) {
-          // Count occurrences of the term
-          const regex = new RegExp(term, "gi")
-          const matches = content.match(regex)
-          if (matches) {
-            score += matches.length * 0.1
-          }
-        }
-
-        // Normalize score to 0-1 range
-        score = Math.min(score, 1)
-
-        return {
-          id: match.id,
-          title: match.metadata?.document_name || "Unknown",
-          content: content,
-          documentId: match.metadata?.document_id || match.id,
-          documentName: match.metadata?.document_name || "Unknown",
-          documentType: match.metadata?.document_type || "Unknown",
-          date: match.metadata?.created_at || new Date().toISOString(),
-          relevance: score,
-          highlights: extractHighlights(content, query),
-          chunkIndex: match.metadata?.chunk_index,
-          totalChunks: match.metadata?.total_chunks,
-        }
-      })
-      .sort((a, b) => b.relevance - a.relevance)
   } catch (error) {
     logger.error("Error performing keyword search", {
       error: error instanceof Error ? error.message : "Unknown error",
@@ -276,6 +308,7 @@ async function performSemanticSearch(query: string, userId: string, filter: any,
       topK,
       includeMetadata: true,
       filter,
+      namespace: getUserNamespace(userId),
     })
 
     if (!response.matches || !Array.isArray(response.matches)) {
@@ -298,6 +331,14 @@ async function performSemanticSearch(query: string, userId: string, filter: any,
         highlights: extractHighlights(content, query),
         chunkIndex: match.metadata?.chunk_index,
         totalChunks: match.metadata?.total_chunks,
+        pageNumber: match.metadata?.page_number,
+        sheetName: match.metadata?.sheet_name,
+        rowStart: match.metadata?.row_start,
+        rowEnd: match.metadata?.row_end,
+        sourcePath: match.metadata?.source_path,
+        symbol: match.metadata?.symbol,
+        startLine: match.metadata?.start_line,
+        endLine: match.metadata?.end_line,
         section: match.metadata?.section,
         sectionHeading: match.metadata?.section_heading,
       }
@@ -324,21 +365,29 @@ async function performSemanticSearch(query: string, userId: string, filter: any,
 }
 
 /**
- * Performs hybrid search combining vector similarity and keyword matching
+ * Performs hybrid search combining vector similarity and BM25 keyword matching
  *
  * @param query - Search query
  * @param userId - User ID
  * @param filter - Metadata filter
  * @param topK - Number of results to return
+ * @param alpha - Weight of the semantic score; the keyword score gets 1 - alpha
  * @returns Search results
  */
-async function performHybridSearch(query: string, userId: string, filter: any, topK: number): Promise<any[]> {
+async function performHybridSearch(
+  query: string,
+  userId: string,
+  filter: any,
+  topK: number,
+  alpha: number,
+): Promise<any[]> {
   try {
-    // Use the hybridSearch function from pinecone-rest-client
+    // Use the hybridSearch function from the vector store
     const response = await hybridSearch(query, (text) => generateEmbedding(text), {
       filter,
       topK,
-      alpha: 0.75, // Weight between vector and keyword search (0.75 = 75% vector, 25% keyword)
+      alpha,
+      namespace: getUserNamespace(userId),
     })
 
     if (!response.matches || !Array.isArray(response.matches)) {
@@ -361,6 +410,14 @@ async function performHybridSearch(query: string, userId: string, filter: any, t
         highlights: extractHighlights(content, query),
         chunkIndex: match.metadata?.chunk_index,
         totalChunks: match.metadata?.total_chunks,
+        pageNumber: match.metadata?.page_number,
+        sheetName: match.metadata?.sheet_name,
+        rowStart: match.metadata?.row_start,
+        rowEnd: match.metadata?.row_end,
+        sourcePath: match.metadata?.source_path,
+        symbol: match.metadata?.symbol,
+        startLine: match.metadata?.start_line,
+        endLine: match.metadata?.end_line,
         section: match.metadata?.section,
         sectionHeading: match.metadata?.section_heading,
       }
@@ -505,23 +562,7 @@ async function logSearchQuery(
   resultCount: number,
 ): Promise<void> {
   try {
-    const placeholderVector = createPlaceholderVector()
-
-    await queryVectors([
-      {
-        id: `search_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
-        values: placeholderVector,
-        metadata: {
-          user_id: userId,
-          query,
-          search_type: type,
-          filters: JSON.stringify(filters),
-          result_count: resultCount,
-          record_type: "search_history",
-          created_at: new Date().toISOString(),
-        },
-      },
-    ])
+    await logSearch({ userId, query, searchType: type, filters, resultCount })
 
     logger.info("Search query logged successfully", {
       userId,
@@ -555,6 +596,8 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
       const page = pageParam ? Number.parseInt(pageParam, 10) : 1
       const pageSizeParam = searchParams.get("pageSize")
       const pageSize = pageSizeParam ? Number.parseInt(pageSizeParam, 10) : 10
+      const alphaParam = searchParams.get("alpha")
+      const alpha = alphaParam ? Number(alphaParam) : DEFAULT_HYBRID_ALPHA
       const useCache = searchParams.get("cache") !== "false"
 
       logger.info(`GET /api/search - Processing search request`, {
@@ -564,11 +607,12 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
         topK,
         page,
         pageSize,
+        alpha,
         useCache,
       })
 
       // Validate search parameters
-      validateSearchParams(userId, query, type, topK)
+      validateSearchParams(userId, query, type, topK, alpha)
 
       // Parse document types
       const documentTypes = searchParams.getAll("documentType")
@@ -576,6 +620,15 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
       // Parse sort option
       const sortBy = searchParams.get("sortBy") || undefined
 
+      // Parse tag and language filters
+      const tags = searchParams.getAll("tag")
+      const language = searchParams.get("language") || undefined
+
+      // Parse document and version scope
+      const documentId = searchParams.get("documentId") || undefined
+      const versionParam = searchParams.get("version")
+      const version = versionParam ? Number(versionParam) : undefined
+
       // Parse date range
       const from = searchParams.get("from")
       const to = searchParams.get("to")
@@ -593,6 +646,8 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
       const filter: any = {
         user_id: { $eq: userId },
         record_type: { $eq: "chunk" },
+        $and: buildVersionClauses(documentId, version),
+        ...buildEnrichmentFilter(tags, language),
       }
 
       if (documentTypes.length > 0) {
@@ -614,11 +669,15 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
         documentTypes: documentTypes.length > 0 ? documentTypes : undefined,
         sortBy,
         dateRange,
+        documentId,
+        version,
+        tags: tags.length > 0 ? tags : undefined,
+        language,
       }
 
       // Check cache if enabled
       if (useCache) {
-        const cacheKey = createCacheKey(userId!, query!, type, filters, page, pageSize)
+        const cacheKey = createCacheKey(userId!, query!, type, alpha, filters, page, pageSize)
         const cached = searchCache.get(cacheKey)
 
         if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
@@ -646,7 +705,7 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
             break
 
           case "hybrid":
-            results = await performHybridSearch(query!, userId!, filter, topK)
+            results = await performHybridSearch(query!, userId!, filter, topK, alpha)
             break
 
           default:
@@ -684,7 +743,7 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
 
         // Store in cache if caching is enabled
         if (useCache) {
-          const cacheKey = createCacheKey(userId!, query!, type, filters, page, pageSize)
+          const cacheKey = createCacheKey(userId!, query!, type, alpha, filters, page, pageSize)
           searchCache.set(cacheKey, {
             results: response,
             timestamp: Date.now(),
@@ -770,6 +829,7 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
         topK = DEFAULT_TOP_K,
         page = 1,
         pageSize = 10,
+        alpha = DEFAULT_HYBRID_ALPHA,
         filters = {},
         useCache = true,
       } = body
@@ -781,20 +841,23 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
         topK,
         page,
         pageSize,
+        alpha,
         useCache,
         filters,
       })
 
       // Validate search parameters
-      validateSearchParams(userId, query, type, topK)
+      validateSearchParams(userId, query, type, topK, alpha)
 
       // Extract filters
-      const { documentTypes, dateRange, sortBy } = filters
+      const { documentTypes, dateRange, sortBy, documentId, version, tags, language } = filters
 
       // Build filter
       const filter: any = {
         user_id: { $eq: userId },
         record_type: { $eq: "chunk" },
+        $and: buildVersionClauses(documentId, version),
+        ...buildEnrichmentFilter(Array.isArray(tags) ? tags : undefined, language),
       }
 
       if (documentTypes && Array.isArray(documentTypes) && documentTypes.length > 0) {
@@ -830,7 +893,7 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
 
       // Check cache if enabled
       if (useCache) {
-        const cacheKey = createCacheKey(userId, query, type, filters, page, pageSize)
+        const cacheKey = createCacheKey(userId, query, type, alpha, filters, page, pageSize)
         const cached = searchCache.get(cacheKey)
 
         if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
@@ -858,7 +921,7 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
             break
 
           case "hybrid":
-            results = await performHybridSearch(query, userId, filter, topK)
+            results = await performHybridSearch(query, userId, filter, topK, alpha)
             break
 
           default:
@@ -896,7 +959,7 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
 
         // Store in cache if caching is enabled
         if (useCache) {
-          const cacheKey = createCacheKey(userId, query, type, filters, page, pageSize)
+          const cacheKey = createCacheKey(userId, query, type, alpha, filters, page, pageSize)
           searchCache.set(cacheKey, {
             results: response,
             timestamp: Date.now(),
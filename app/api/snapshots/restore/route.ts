@@ -0,0 +1,76 @@
+/**
+ * Knowledge Base Snapshot Restore API Route
+ *
+ * Restores a snapshot exported by /api/snapshots into a user's knowledge base, without
+ * embedding anything again. The manifest is checked when the restore is requested; the records
+ * are written by a background job whose status is available from /api/jobs. Documents the user
+ * already has are left as they are.
+ *
+ * Dependencies:
+ * - @/lib/knowledge-base-snapshot for reading manifests and queueing restores
+ * - @/lib/vector-store for the active embedding index
+ * - @/utils/errorHandling for consistent error handling
+ * - @/lib/utils/logger for logging
+ *
+ * @module app/api/snapshots/restore/route
+ */
+
+import { type NextRequest, NextResponse } from "next/server"
+import { NotFoundError, ValidationError, withErrorHandling } from "@/utils/errorHandling"
+import { enqueueSnapshotRestore, readSnapshotManifest, SnapshotError } from "@/lib/knowledge-base-snapshot"
+import { getActiveEmbeddingIndex } from "@/lib/vector-store"
+import { logger } from "@/lib/utils/logger"
+
+export const runtime = "edge"
+
+/**
+ * POST handler that queues a restore
+ * Expects a JSON body with userId, manifestUrl and, to restore some documents only, documentIds
+ */
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  const { userId, manifestUrl, documentIds } = await request.json().catch(() => ({}))
+
+  if (typeof userId !== "string" || !userId.trim()) {
+    throw new ValidationError("User ID is required")
+  }
+
+  if (typeof manifestUrl !== "string" || !manifestUrl.trim()) {
+    throw new ValidationError("manifestUrl is required")
+  }
+
+  const validIds = Array.isArray(documentIds) && documentIds.every((id: unknown) => typeof id === "string")
+  if (documentIds !== undefined && !validIds) {
+    throw new ValidationError("documentIds must be an array of document IDs")
+  }
+
+  let manifest
+  try {
+    manifest = await readSnapshotManifest(manifestUrl)
+  } catch (error) {
+    if (error instanceof SnapshotError && error.code === "snapshot_not_found") {
+      throw new NotFoundError(error.message, "snapshot")
+    }
+    if (error instanceof SnapshotError && !error.retryable) {
+      throw new ValidationError(error.message)
+    }
+    throw error
+  }
+
+  // Checked again by the job, in case search switches models in between
+  const index = await getActiveEmbeddingIndex()
+  if (manifest.embeddingModel !== index.model || manifest.dimension !== index.dimension) {
+    throw new ValidationError(
+      `Snapshot was taken with ${manifest.embeddingModel}, but search uses ${index.model}; ` +
+        "restore it into an environment that uses the same embedding model",
+    )
+  }
+
+  const jobId = await enqueueSnapshotRestore({ manifestUrl, userId, documentIds })
+
+  logger.info(`POST /api/snapshots/restore - Snapshot restore queued`, { jobId, snapshotId: manifest.id, userId })
+
+  return NextResponse.json({
+    success: true,
+    data: { jobId, snapshotId: manifest.id, documents: manifest.counts.documents },
+  })
+})
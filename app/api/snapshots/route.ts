@@ -0,0 +1,48 @@
+/**
+ * Knowledge Base Snapshots API Route
+ *
+ * Exports a user's knowledge base to a portable archive in Blob storage (see
+ * lib/knowledge-base-snapshot). The export runs as a background job; its status, and the
+ * manifest URL once it completes, are available from /api/jobs. Archives are restored with
+ * /api/snapshots/restore.
+ *
+ * Dependencies:
+ * - @/lib/knowledge-base-snapshot for queueing exports
+ * - @/utils/errorHandling for consistent error handling
+ * - @/lib/utils/logger for logging
+ *
+ * @module app/api/snapshots/route
+ */
+
+import { type NextRequest, NextResponse } from "next/server"
+import { ValidationError, withErrorHandling } from "@/utils/errorHandling"
+import { enqueueSnapshotExport } from "@/lib/knowledge-base-snapshot"
+import { logger } from "@/lib/utils/logger"
+
+export const runtime = "edge"
+
+/**
+ * POST handler that queues an export
+ * Expects a JSON body with userId and, to export some documents only, documentIds
+ */
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  const { userId, documentIds } = await request.json().catch(() => ({}))
+
+  if (typeof userId !== "string" || !userId.trim()) {
+    throw new ValidationError("User ID is required")
+  }
+
+  const validIds = Array.isArray(documentIds) && documentIds.every((id: unknown) => typeof id === "string")
+  if (documentIds !== undefined && !validIds) {
+    throw new ValidationError("documentIds must be an array of document IDs")
+  }
+
+  const { jobId, snapshotId } = await enqueueSnapshotExport({ userId, documentIds })
+
+  logger.info(`POST /api/snapshots - Snapshot export queued`, { jobId, snapshotId, userId })
+
+  return NextResponse.json({
+    success: true,
+    data: { jobId, snapshotId },
+  })
+})
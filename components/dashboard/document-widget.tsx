@@ -45,7 +45,16 @@ import { Badge } from "@/components/ui/badge"
 import { Skeleton } from "@/components/ui/skeleton"
 import { ErrorBoundary } from "@/components/ui/error-boundary"
 import type { Document, DocumentFilterOptions } from "@/types"
+import {
+  getDuplicateDocuments,
+  type DuplicateDocumentInfo,
+  type DuplicateResolution,
+} from "@/services/client-api-service"
 import { withErrorHandling, showErrorToast, showSuccessToast } from "@/utils/errorHandling"
+import { getSupportedExtensions } from "@/lib/document-extraction"
+
+// File picker filter, built from the formats the server can extract
+const ACCEPTED_FILE_TYPES = getSupportedExtensions().join(",")
 
 /**
  * Document list item component
@@ -120,6 +129,11 @@ const DocumentListItem = React.memo(
                 <p className="text-xs text-gray-500">
                   {formatFileSize(document.file_size)} • {formatDate(document.created_at)}
                 </p>
+                {document.duplicate_of && (
+                  <Badge variant="outline" className="text-xs py-0 px-1">
+                    Duplicate
+                  </Badge>
+                )}
                 {document.tags && document.tags.length > 0 && (
                   <div className="flex flex-wrap gap-1">
                     {document.tags.slice(0, 3).map((tag) => (
@@ -134,7 +148,13 @@ const DocumentListItem = React.memo(
                     )}
                   </div>
                 )}
+                {document.language && document.language !== "und" && (
+                  <Badge variant="outline" className="text-xs py-0 px-1 uppercase">
+                    {document.language}
+                  </Badge>
+                )}
               </div>
+              {document.summary && <p className="text-xs text-gray-600 mt-1 line-clamp-2">{document.summary}</p>}
             </div>
           </div>
           {document.status === "processing" && document.processing_progress !== undefined && (
@@ -435,6 +455,55 @@ const TagDialog = ({
   )
 }
 
+/**
+ * Duplicate upload dialog component
+ * Asks what to do with a file that matches documents the user already has
+ */
+const DuplicateUploadDialog = ({
+  open,
+  fileName,
+  duplicates,
+  onResolve,
+  onClose,
+}: {
+  open: boolean
+  fileName?: string
+  duplicates: DuplicateDocumentInfo[]
+  onResolve: (resolution: DuplicateResolution) => void
+  onClose: () => void
+}) => {
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Duplicate Document</DialogTitle>
+          <DialogDescription>
+            {fileName} has the same content as {duplicates.length === 1 ? "a document" : "documents"} you already
+            uploaded.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-1 py-2">
+          {duplicates.map((duplicate) => (
+            <p key={duplicate.id} className="text-sm">
+              <span className="font-medium">{duplicate.name}</span>
+              <span className="text-muted-foreground"> • {formatDate(duplicate.created_at)}</span>
+            </p>
+          ))}
+        </div>
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onResolve("link")}>
+            Use Existing
+          </Button>
+          <Button variant="outline" onClick={() => onResolve("replace")}>
+            Replace
+          </Button>
+          <Button onClick={() => onResolve("keep_both")}>Keep Both</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
 /**
  * Error fallback component for DocumentWidget
  */
@@ -467,7 +536,10 @@ const DocumentWidgetErrorFallback = () => {
 const DocumentWidgetContent = () => {
   const [file, setFile] = useState<File | null>(null)
   const [isUploading, setIsUploading] = useState(false)
-  const { documents, isLoading, error, fetchDocuments, uploadDocument, deleteDocument } = useDocuments()
+  const [expandArchive, setExpandArchive] = useState(false)
+  const [duplicates, setDuplicates] = useState<DuplicateDocumentInfo[] | null>(null)
+  const { documents, isLoading, error, fetchDocuments, uploadDocument, uploadArchive, deleteDocument } = useDocuments()
+  const isArchive = !!file && file.name.toLowerCase().endsWith(".zip")
 
   // Fetch documents on component mount
   useEffect(() => {
@@ -491,9 +563,27 @@ const DocumentWidgetContent = () => {
 
       setIsUploading(true)
       try {
-        await uploadDocument(file)
-        setFile(null)
-        showSuccessToast("Document uploaded successfully")
+        if (isArchive && expandArchive) {
+          const batch = await uploadArchive(file)
+          setFile(null)
+          showSuccessToast(
+            `Imported ${batch.processed_files} of ${batch.total_files} documents (${batch.failed_files} failed, ${batch.skipped_files} skipped)`,
+          )
+        } else {
+          try {
+            await uploadDocument(file)
+          } catch (err) {
+            // Ask the user what to do instead of reporting an error
+            const found = getDuplicateDocuments(err)
+            if (!found) {
+              throw err
+            }
+            setDuplicates(found)
+            return
+          }
+          setFile(null)
+          showSuccessToast("Document uploaded successfully")
+        }
       } finally {
         setIsUploading(false)
       }
@@ -503,6 +593,34 @@ const DocumentWidgetContent = () => {
     },
   )
 
+  // Upload a duplicate again with the user's choice
+  const handleResolveDuplicate = withErrorHandling(
+    async (resolution: DuplicateResolution) => {
+      setDuplicates(null)
+      if (!file) {
+        return
+      }
+
+      setIsUploading(true)
+      try {
+        await uploadDocument(file, { onDuplicate: resolution })
+        setFile(null)
+        showSuccessToast(
+          resolution === "link"
+            ? "Using the document you already uploaded"
+            : resolution === "replace"
+              ? "Document replaced successfully"
+              : "Document uploaded successfully",
+        )
+      } finally {
+        setIsUploading(false)
+      }
+    },
+    {
+      context: { component: "DocumentWidget", action: "resolveDuplicate" },
+    },
+  )
+
   // Handle document deletion with error handling
   const handleDelete = withErrorHandling(
     async (id: string) => {
@@ -560,7 +678,7 @@ const DocumentWidgetContent = () => {
       <CardContent>
         <div className="mb-4">
           <div className="flex items-center gap-2">
-            <Input type="file" accept=".txt" onChange={handleFileChange} disabled={isUploading} className="flex-1" />
+            <Input type="file" accept={ACCEPTED_FILE_TYPES} onChange={handleFileChange} disabled={isUploading} className="flex-1" />
             <Button onClick={handleUpload} disabled={!file || isUploading}>
               {isUploading ? (
                 <>
@@ -580,6 +698,19 @@ const DocumentWidgetContent = () => {
               Selected file: {file.name} ({(file.size / 1024).toFixed(2)} KB)
             </p>
           )}
+          {isArchive && (
+            <div className="mt-2 flex items-center gap-2">
+              <Checkbox
+                id="expand-archive"
+                checked={expandArchive}
+                onCheckedChange={(checked) => setExpandArchive(!!checked)}
+                disabled={isUploading}
+              />
+              <Label htmlFor="expand-archive" className="text-sm">
+                Import each file in the archive as a separate document
+              </Label>
+            </div>
+          )}
         </div>
 
         {documents.length === 0 ? (
@@ -597,6 +728,22 @@ const DocumentWidgetContent = () => {
                   <div>
                     <p className="font-medium">{doc.title || doc.file_path.split("/").pop()}</p>
                     <p className="text-xs text-muted-foreground">{new Date(doc.created_at).toLocaleString()}</p>
+                    {doc.duplicate_of && (
+                      <Badge variant="outline" className="mt-1 text-xs py-0 px-1">
+                        Duplicate of{" "}
+                        {documents.find((other) => other.id === doc.duplicate_of)?.name || "another document"}
+                      </Badge>
+                    )}
+                    {doc.summary && <p className="text-xs text-muted-foreground mt-1 line-clamp-2">{doc.summary}</p>}
+                    {doc.tags && doc.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {doc.tags.map((tag) => (
+                          <Badge key={tag} variant="secondary" className="text-xs py-0 px-1">
+                            {tag}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 </div>
                 <Button
@@ -612,6 +759,13 @@ const DocumentWidgetContent = () => {
           </div>
         )}
       </CardContent>
+      <DuplicateUploadDialog
+        open={!!duplicates}
+        fileName={file?.name}
+        duplicates={duplicates || []}
+        onResolve={handleResolveDuplicate}
+        onClose={() => setDuplicates(null)}
+      />
     </Card>
   )
 }
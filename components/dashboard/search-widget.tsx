@@ -112,6 +112,18 @@ const SearchResultItem = memo(
           <span className="flex items-center">
             <FileText className="h-3 w-3 mr-1" />
             {result.documentName}
+            {result.pageNumber !== undefined && <span className="ml-1">p. {result.pageNumber}</span>}
+            {result.rowStart !== undefined && (
+              <span className="ml-1">
+                {result.sheetName ? `${result.sheetName} ` : ""}rows {result.rowStart}–{result.rowEnd}
+              </span>
+            )}
+            {result.sourcePath && (
+              <span className="ml-1 font-mono">
+                {result.sourcePath}
+                {result.startLine !== undefined && `:${result.startLine}–${result.endLine}`}
+              </span>
+            )}
           </span>
           <span className="hidden sm:inline">•</span>
           <span>{formattedDate}</span>
@@ -8,6 +8,8 @@
  * Features:
  * - Document listing with filtering, sorting, and pagination
  * - Document upload with progress tracking
+ * - Duplicate uploads resolved by linking, replacing or keeping both
+ * - Archive upload that expands into one document per file
  * - Document processing status monitoring
  * - Document deletion with confirmation
  * - Document metadata management (tags, visibility)
@@ -32,13 +34,19 @@ import { useAuth } from "./use-auth"
 import {
   fetchDocuments,
   uploadDocument as apiUploadDocument,
+  uploadDocumentArchive as apiUploadDocumentArchive,
+  uploadDocumentResumable as apiUploadDocumentResumable,
   deleteDocument as apiDeleteDocument,
   retryDocumentProcessing as apiRetryProcessing,
   updateDocumentMetadata as apiUpdateMetadata,
   searchDocuments as apiSearchDocuments,
+  getDuplicateDocuments,
+  type BatchUploadUpdate,
+  type DuplicateResolution,
 } from "@/services/client-api-service"
 import type {
   Document,
+  DocumentBatch,
   DocumentStats,
   DocumentFilterOptions,
   DocumentSortOptions,
@@ -49,6 +57,9 @@ import type {
 const DOCUMENTS_QUERY_KEY = "documents"
 const DOCUMENT_STATS_QUERY_KEY = "document-stats"
 
+// Files above the size of one part use the resumable upload
+const RESUMABLE_UPLOAD_THRESHOLD = 4 * 1024 * 1024
+
 /**
  * Document upload options interface
  */
@@ -56,6 +67,8 @@ interface UploadOptions {
   tags?: string[]
   visibility?: "public" | "private" | "shared"
   description?: string
+  // Choice for a file that matches an existing document; without it such uploads are rejected
+  onDuplicate?: DuplicateResolution
   onProgress?: (progress: number) => void
 }
 
@@ -107,6 +120,7 @@ interface UseDocumentsReturn {
 
   // Document operations
   uploadDocument: (file: File, options?: UploadOptions) => Promise<Document>
+  uploadArchive: (file: File, onUpdate?: (update: BatchUploadUpdate) => void) => Promise<DocumentBatch>
   deleteDocument: (documentId: string, skipConfirmation?: boolean) => Promise<boolean>
   retryProcessing: (documentId: string) => Promise<boolean>
   updateMetadata: (documentId: string, metadata: Record<string, any>) => Promise<Document>
@@ -232,21 +246,26 @@ export function useDocuments(): UseDocumentsReturn {
         const uploadId = Date.now().toString()
         activeUploads.current[uploadId] = abortController
 
-        // Upload the document with progress tracking
-        const newDocument = await apiUploadDocument(
-          user.id,
-          file,
-          (progress) => {
-            setUploadProgress(progress)
-            options?.onProgress?.(progress)
-          },
-          {
-            signal: abortController.signal,
-            tags: options?.tags,
-            visibility: options?.visibility,
-            description: options?.description,
-          },
-        )
+        const onProgress = (progress: number) => {
+          setUploadProgress(progress)
+          options?.onProgress?.(progress)
+        }
+
+        // Large files go up in parts so a dropped connection only costs the part in flight
+        const newDocument =
+          file.size > RESUMABLE_UPLOAD_THRESHOLD
+            ? await apiUploadDocumentResumable(user.id, file, {
+                onProgress,
+                signal: abortController.signal,
+                onDuplicate: options?.onDuplicate,
+              })
+            : await apiUploadDocument(user.id, file, onProgress, {
+                signal: abortController.signal,
+                tags: options?.tags,
+                visibility: options?.visibility,
+                description: options?.description,
+                onDuplicate: options?.onDuplicate,
+              })
 
         // Clean up abort controller
         delete activeUploads.current[uploadId]
@@ -278,6 +297,11 @@ export function useDocuments(): UseDocumentsReturn {
       queryClient.invalidateQueries({ queryKey: [DOCUMENT_STATS_QUERY_KEY] })
     },
     onError: (err) => {
+      // A duplicate is a question for the user, not a failure
+      if (getDuplicateDocuments(err)) {
+        return
+      }
+
       console.error("Upload mutation error:", err)
       setError(err instanceof Error ? err : new Error("Failed to upload document"))
     },
@@ -491,6 +515,41 @@ export function useDocuments(): UseDocumentsReturn {
     [uploadMutation],
   )
 
+  /**
+   * Upload a zip archive that expands into one document per file
+   * @param file Zip archive to upload
+   * @param onUpdate Optional callback for streamed batch progress
+   * @returns Final batch status with per-file errors
+   */
+  const handleUploadArchive = useCallback(
+    async (file: File, onUpdate?: (update: BatchUploadUpdate) => void) => {
+      if (!user?.id) {
+        throw new Error("User not authenticated")
+      }
+
+      setIsUploading(true)
+
+      try {
+        return await apiUploadDocumentArchive(user.id, file, (update) => {
+          // Show documents as they finish rather than only at the end of the batch
+          if (update.type === "progress" && update.status === "processing") {
+            queryClient.invalidateQueries({ queryKey: [DOCUMENTS_QUERY_KEY] })
+          }
+          onUpdate?.(update)
+        })
+      } catch (err) {
+        console.error("Error uploading archive:", err)
+        setError(err instanceof Error ? err : new Error("Failed to upload archive"))
+        throw err
+      } finally {
+        setIsUploading(false)
+        queryClient.invalidateQueries({ queryKey: [DOCUMENTS_QUERY_KEY] })
+        queryClient.invalidateQueries({ queryKey: [DOCUMENT_STATS_QUERY_KEY] })
+      }
+    },
+    [user?.id, queryClient],
+  )
+
   /**
    * Delete a document by ID
    * @param documentId Document ID to delete
@@ -686,6 +745,7 @@ export function useDocuments(): UseDocumentsReturn {
 
     // Document operations
     uploadDocument: handleUploadDocument,
+    uploadArchive: handleUploadArchive,
     deleteDocument: handleDeleteDocument,
     retryProcessing: handleRetryProcessing,
     updateMetadata: handleUpdateMetadata,
@@ -42,6 +42,7 @@ export interface SearchFilter {
     to?: Date
   }
   tags?: string[]
+  language?: string
   status?: string[]
   userId?: string
 }
@@ -135,8 +136,15 @@ async function performSearch(params: SearchParams): Promise<SearchResponse> {
       requestBody.filter.documentTypes = filter.documentTypes
     }
 
+    // Tags and language come from document enrichment; the search route reads them from `filters`
     if (filter.tags && filter.tags.length > 0) {
       requestBody.filter.tags = filter.tags
+      requestBody.filters = { ...requestBody.filters, tags: filter.tags }
+    }
+
+    if (filter.language) {
+      requestBody.filter.language = filter.language
+      requestBody.filters = { ...requestBody.filters, language: filter.language }
     }
 
     if (filter.status && filter.status.length > 0) {
@@ -494,6 +502,11 @@ export function useSearchFilters() {
     })
   }, [])
 
+  // Set language filter, undefined for any language
+  const setLanguage = useCallback((language?: string) => {
+    setFilters((prev) => ({ ...prev, language }))
+  }, [])
+
   // Add or remove status filter
   const toggleStatus = useCallback((status: string) => {
     setFilters((prev) => {
@@ -512,6 +525,7 @@ export function useSearchFilters() {
       documentTypes: [],
       dateRange: {},
       tags: [],
+      language: undefined,
       status: [],
     })
   }, [])
@@ -521,6 +535,7 @@ export function useSearchFilters() {
     return (
       (filters.documentTypes && filters.documentTypes.length > 0) ||
       (filters.tags && filters.tags.length > 0) ||
+      !!filters.language ||
       (filters.status && filters.status.length > 0) ||
       !!filters.dateRange?.from ||
       !!filters.dateRange?.to
@@ -533,6 +548,7 @@ export function useSearchFilters() {
     toggleDocumentType,
     setDateRange,
     toggleTag,
+    setLanguage,
     toggleStatus,
     resetFilters,
     hasActiveFilters,
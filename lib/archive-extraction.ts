@@ -0,0 +1,160 @@
+/**
+ * Archive Extraction
+ *
+ * Expands a zip archive of documents into the individual files that can be ingested,
+ * so a whole knowledge base can be uploaded at once and each file becomes its own document.
+ *
+ * Features:
+ * - Supported files detected with the same rules as single uploads
+ * - Hidden files, OS metadata folders and nested archives skipped and reported
+ * - Per-file size, file count and total uncompressed size limits
+ * - Listing from the central directory, and decompression of one file at a time
+ * - Edge Runtime compatible (no Node.js specific modules)
+ *
+ * Dependencies:
+ * - fflate for reading the zip archive
+ * - @/lib/document-extraction for file type detection
+ *
+ * @module lib/archive-extraction
+ */
+
+import { unzipSync } from "fflate"
+import { detectDocumentFormat, getDocumentMimeType, MAX_DOCUMENT_SIZE } from "@/lib/document-extraction"
+
+/**
+ * A document file listed in an archive, before it is decompressed
+ */
+export interface ArchiveEntry {
+  path: string
+  name: string
+  fileType: string
+  // Uncompressed size from the central directory
+  size: number
+}
+
+/**
+ * A document file read from an archive
+ */
+export interface ArchiveFile {
+  path: string
+  name: string
+  fileType: string
+  data: ArrayBuffer
+}
+
+/**
+ * An archive entry that was not turned into a document, with the reason
+ */
+export interface SkippedArchiveFile {
+  path: string
+  reason: "hidden" | "unsupported" | "nested_archive" | "empty" | "too_large" | "limit_reached"
+}
+
+/**
+ * Documents listed in an archive
+ */
+export interface ArchiveListing {
+  entries: ArchiveEntry[]
+  skipped: SkippedArchiveFile[]
+}
+
+// Largest archive accepted; archives hold many documents, so this exceeds the single document limit
+export const MAX_ARCHIVE_SIZE = 100 * 1024 * 1024
+
+// Upper bound on documents created from one archive
+const MAX_FILES = 1000
+
+// Upper bound on the uncompressed size of the documents of one archive, against zip bombs
+const MAX_EXPANDED_SIZE = 500 * 1024 * 1024
+
+/**
+ * Checks whether a path is hidden or belongs to OS metadata (e.g. .DS_Store, __MACOSX/)
+ *
+ * @param path - Entry path
+ * @returns True if the entry should be skipped
+ */
+function isHiddenPath(path: string): boolean {
+  return path.split("/").some((part) => part.startsWith(".") || part === "__MACOSX" || part === "Thumbs.db")
+}
+
+/**
+ * Lists the document files of a zip archive from its central directory, without decompressing anything
+ *
+ * @param data - Raw zip bytes
+ * @returns Files to ingest, in path order, and entries that were skipped
+ * @throws Error if the archive cannot be read
+ */
+export function listDocumentArchive(data: ArrayBuffer): ArchiveListing {
+  const entries: ArchiveEntry[] = []
+  const skipped: SkippedArchiveFile[] = []
+  let expandedSize = 0
+
+  // The filter sees every entry of the central directory; rejecting all of them keeps unzipSync from inflating
+  unzipSync(new Uint8Array(data), {
+    filter: (file) => {
+      const path = file.name
+
+      if (path.endsWith("/")) {
+        return false
+      }
+
+      const name = path.split("/").pop() || path
+      const format = detectDocumentFormat("", name)
+      let reason: SkippedArchiveFile["reason"] | null = null
+
+      if (isHiddenPath(path)) {
+        reason = "hidden"
+      } else if (format === "repository") {
+        reason = "nested_archive"
+      } else if (!format) {
+        reason = "unsupported"
+      } else if (file.originalSize === 0) {
+        reason = "empty"
+      } else if (file.originalSize > MAX_DOCUMENT_SIZE) {
+        reason = "too_large"
+      } else if (entries.length >= MAX_FILES || expandedSize + file.originalSize > MAX_EXPANDED_SIZE) {
+        reason = "limit_reached"
+      }
+
+      if (reason) {
+        skipped.push({ path, reason })
+      } else {
+        expandedSize += file.originalSize
+        entries.push({ path, name, fileType: getDocumentMimeType(name), size: file.originalSize })
+      }
+
+      return false
+    },
+  })
+
+  entries.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0))
+
+  return { entries, skipped }
+}
+
+/**
+ * Decompresses one file of a zip archive
+ * The central directory size caps the output, so an entry cannot expand beyond what the listing accepted
+ *
+ * @param data - Raw zip bytes
+ * @param entry - Entry from listDocumentArchive
+ * @returns File contents
+ * @throws Error if the archive cannot be read or no longer holds the entry
+ */
+export function readArchiveEntry(data: ArrayBuffer, entry: ArchiveEntry): ArchiveFile {
+  const files = unzipSync(new Uint8Array(data), {
+    filter: (file) => file.name === entry.path && file.originalSize === entry.size,
+  })
+  const bytes = files[entry.path]
+
+  if (!bytes) {
+    throw new Error(`Archive entry not found: ${entry.path}`)
+  }
+
+  return {
+    path: entry.path,
+    name: entry.name,
+    fileType: entry.fileType,
+    data: bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer,
+  }
+}
@@ -0,0 +1,378 @@
+/**
+ * Batch Service
+ *
+ * Tracks archive uploads that expand into one document per file. A batch record holds
+ * the running counts of processed, failed and skipped files together with per-file errors,
+ * so the status of a large upload can be read back at any time.
+ *
+ * The files of an archive are processed by a background job that reads the archive back from
+ * Blob storage. The job pauses between files, or inside a large file, when its run reaches the
+ * deadline, and the next run continues with the same file and document ID. The batch record holds
+ * the next file too, so a run that fails instead of pausing does not process finished files again.
+ *
+ * Features:
+ * - Batch records stored next to document records in the owner's namespace
+ * - Per-file error and skip lists serialised into flat vector metadata
+ * - Batch processing jobs that resume from the next file
+ * - Edge runtime compatible (no Node.js specific modules)
+ *
+ * Dependencies:
+ * - @/lib/vector-store for record storage
+ * - @/lib/archive-extraction for reading the archive
+ * - @/lib/document-service for processing each file
+ * - @/lib/job-queue for batch processing jobs
+ * - @vercel/blob for storing the files of the archive
+ * - @/lib/utils/json-utils for serialising file lists
+ * - @/lib/utils/logger for structured logging
+ *
+ * @module lib/batch-service
+ */
+
+import { put } from "@vercel/blob"
+import { logger } from "@/lib/utils/logger"
+import { createPlaceholderVector, fetchVectors, getUserNamespace, upsertVectors } from "@/lib/vector-store"
+import { listDocumentArchive, readArchiveEntry } from "@/lib/archive-extraction"
+import { documentService, generateDocumentId, type DocumentProcessingProgress } from "@/lib/document-service"
+import { enqueueJob, JobPausedError } from "@/lib/job-queue"
+import { safeJsonParse, safeJsonStringify } from "@/lib/utils/json-utils"
+import type { DocumentBatch, Job } from "@/types"
+
+// Keeps serialised error lists well under Pinecone's 40KB metadata limit
+const MAX_RECORDED_ERRORS = 200
+const MAX_RECORDED_SKIPPED = 200
+
+/**
+ * Batch error class
+ */
+export class BatchError extends Error {
+  code: string
+  retryable: boolean
+  context?: Record<string, any>
+
+  constructor(
+    message: string,
+    options: {
+      code?: string
+      retryable?: boolean
+      context?: Record<string, any>
+    } = {},
+  ) {
+    super(message)
+    this.name = "BatchError"
+    this.code = options.code || "batch_error"
+    this.retryable = options.retryable ?? false
+    this.context = options.context
+  }
+}
+
+/**
+ * Payload of a batch processing job
+ */
+export interface BatchJobPayload {
+  batchId: string
+  // Blob URL of the uploaded archive
+  archiveUrl: string
+}
+
+/**
+ * Where a paused batch processing job continues
+ */
+export interface BatchCheckpoint {
+  // Index of the next file of the archive to process
+  nextFile: number
+  // Document of that file when the run paused part way through it
+  documentId?: string
+  // Chunk that document's knowledge graph extraction continues from
+  graphOffset?: number
+}
+
+/**
+ * Generate a unique batch ID
+ *
+ * @returns Unique batch ID
+ */
+export function generateBatchId(): string {
+  const timestamp = Date.now()
+  const random = Math.floor(Math.random() * 10000)
+  return `batch_${timestamp}_${random}`
+}
+
+/**
+ * Saves a batch record, replacing any previous state
+ *
+ * @param batch - Batch to save
+ * @throws BatchError if the record cannot be stored
+ */
+export async function saveBatch(batch: DocumentBatch): Promise<void> {
+  try {
+    await upsertVectors(
+      [
+        {
+          id: batch.id,
+          values: createPlaceholderVector(),
+          metadata: {
+            id: batch.id,
+            user_id: batch.user_id,
+            name: batch.name,
+            status: batch.status,
+            total_files: batch.total_files,
+            processed_files: batch.processed_files,
+            failed_files: batch.failed_files,
+            skipped_files: batch.skipped_files,
+            // Vector metadata cannot hold objects, so the file lists are stored as JSON strings
+            errors: safeJsonStringify(batch.errors.slice(0, MAX_RECORDED_ERRORS), "[]"),
+            skipped: safeJsonStringify(batch.skipped.slice(0, MAX_RECORDED_SKIPPED), "[]"),
+            ...(batch.error_message && { error_message: batch.error_message }),
+            ...(batch.next_file !== undefined && { next_file: batch.next_file }),
+            ...(batch.next_document_id && { next_document_id: batch.next_document_id }),
+            created_at: batch.created_at,
+            updated_at: new Date().toISOString(),
+            record_type: "batch",
+          },
+        },
+      ],
+      { namespace: getUserNamespace(batch.user_id) },
+    )
+  } catch (error) {
+    logger.error(`Failed to save batch: ${batch.id}`, {
+      batchId: batch.id,
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+
+    throw new BatchError(`Failed to save batch: ${error instanceof Error ? error.message : "Unknown error"}`, {
+      code: "batch_save_failed",
+      retryable: true,
+      context: { batchId: batch.id },
+    })
+  }
+}
+
+/**
+ * Get batch by ID
+ * Reads by record ID rather than by filter, so counts and the next file written a moment ago are always visible
+ *
+ * @param id - Batch ID
+ * @param userId - Owner of the batch
+ * @returns Batch or null if the user has no such batch
+ * @throws BatchError if the lookup fails
+ */
+export async function getBatch(id: string, userId: string): Promise<DocumentBatch | null> {
+  try {
+    const response = await fetchVectors([id], { namespace: getUserNamespace(userId) })
+    const metadata = response.vectors?.[id]?.metadata
+
+    if (!metadata || metadata.record_type !== "batch") {
+      return null
+    }
+
+    return {
+      id,
+      user_id: metadata.user_id as string,
+      name: metadata.name as string,
+      status: metadata.status as DocumentBatch["status"],
+      total_files: (metadata.total_files as number) || 0,
+      processed_files: (metadata.processed_files as number) || 0,
+      failed_files: (metadata.failed_files as number) || 0,
+      skipped_files: (metadata.skipped_files as number) || 0,
+      errors: safeJsonParse(metadata.errors as string, []),
+      skipped: safeJsonParse(metadata.skipped as string, []),
+      error_message: metadata.error_message as string | undefined,
+      next_file: metadata.next_file as number | undefined,
+      next_document_id: metadata.next_document_id as string | undefined,
+      created_at: metadata.created_at as string,
+      updated_at: metadata.updated_at as string,
+    }
+  } catch (error) {
+    logger.error(`Error getting batch: ${id}`, {
+      id,
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+
+    throw new BatchError(`Failed to get batch: ${error instanceof Error ? error.message : "Unknown error"}`, {
+      code: "get_batch_failed",
+      retryable: true,
+      context: { batchId: id },
+    })
+  }
+}
+
+/**
+ * Marks a batch as failed once its processing job gives up
+ *
+ * @param batchId - Batch ID
+ * @param userId - Owner of the batch
+ * @param message - Reason shown on the batch
+ */
+export async function failBatch(batchId: string, userId: string, message: string): Promise<void> {
+  const batch = await getBatch(batchId, userId)
+
+  if (!batch || batch.status !== "processing") {
+    return
+  }
+
+  await saveBatch({ ...batch, status: "failed", error_message: message })
+}
+
+/**
+ * Queues the processing of an archive's files as a background job
+ *
+ * @param batch - Saved batch record
+ * @param archiveUrl - Blob URL of the uploaded archive
+ * @returns Queued job
+ */
+export async function enqueueBatchProcessing(batch: DocumentBatch, archiveUrl: string): Promise<Job> {
+  const payload: BatchJobPayload = { batchId: batch.id, archiveUrl }
+
+  return enqueueJob({ type: "process_batch", userId: batch.user_id, payload })
+}
+
+/**
+ * Processes the files of an archive one at a time, recording each outcome on the batch
+ * Handler of process_batch jobs
+ *
+ * @param userId - Owner of the batch
+ * @param payload - Batch and archive URL
+ * @param options - Progress callback, and the deadline and checkpoint of the job run
+ * @returns Counts stored on the job
+ * @throws BatchError if the batch or the archive cannot be read
+ * @throws JobPausedError if the deadline passes before every file is processed
+ */
+export async function runBatchProcessing(
+  userId: string,
+  payload: BatchJobPayload,
+  options: {
+    onProgress?: (progress: DocumentProcessingProgress) => void
+    deadline?: number
+    checkpoint?: BatchCheckpoint
+  } = {},
+): Promise<Record<string, any>> {
+  const batch = await getBatch(payload.batchId, userId)
+
+  if (!batch) {
+    throw new BatchError(`Batch not found: ${payload.batchId}`, {
+      code: "batch_not_found",
+      context: { batchId: payload.batchId },
+    })
+  }
+
+  const response = await fetch(payload.archiveUrl, { cache: "no-store" })
+
+  if (!response.ok) {
+    throw new BatchError(`Failed to fetch archive: ${response.status} ${response.statusText}`, {
+      code: "fetch_failed",
+      retryable: response.status !== 404,
+      context: { batchId: batch.id, status: response.status },
+    })
+  }
+
+  // The archive was validated on upload and lists the same files in the same order on every run
+  const data = await response.arrayBuffer()
+  const { entries: files } = listDocumentArchive(data)
+  const checkpoint = options.checkpoint
+  // A failed attempt keeps the checkpoint of the last pause, which can be behind the batch record
+  const firstFile = Math.max(checkpoint?.nextFile ?? 0, batch.next_file ?? 0)
+  const resumedDocumentId =
+    checkpoint?.nextFile === firstFile && checkpoint.documentId
+      ? checkpoint.documentId
+      : batch.next_file === firstFile
+        ? batch.next_document_id
+        : undefined
+
+  logger.info(`Processing batch: ${batch.id}`, {
+    batchId: batch.id,
+    userId,
+    fileCount: files.length,
+    firstFile,
+  })
+
+  // Files are processed one at a time; parallel processing would exceed embedding rate limits
+  for (let i = firstFile; i < files.length; i++) {
+    if (i > firstFile && options.deadline !== undefined && Date.now() >= options.deadline) {
+      const next: BatchCheckpoint = { nextFile: i }
+      throw new JobPausedError(`Paused after ${i} of ${files.length} files`, next)
+    }
+
+    const entry = files[i]
+    // A file the previous run stopped in keeps its document, whose stored chunks are reused
+    const documentId = (i === firstFile && resumedDocumentId) || batch.next_document_id || generateDocumentId()
+
+    options.onProgress?.({
+      stage: "processing",
+      progress: Math.floor((i / files.length) * 100),
+      message: `Processing ${entry.path} (${i + 1} of ${files.length})`,
+    })
+
+    try {
+      // Only the file being processed is decompressed
+      const archiveFile = readArchiveEntry(data, entry)
+      const blobPath = `documents/${userId}/${documentId}/${archiveFile.name.replace(/[^a-zA-Z0-9.-]/g, "_")}`
+      const blob = await put(blobPath, archiveFile.data, {
+        access: "public",
+        contentType: archiveFile.fileType,
+        addRandomSuffix: false,
+        allowOverwrite: true,
+      })
+
+      await documentService.processDocumentData({
+        documentId,
+        userId,
+        filePath: blobPath,
+        // The archive path keeps same-named files in different folders apart
+        fileName: archiveFile.path,
+        fileType: archiveFile.fileType,
+        fileUrl: blob.url,
+        batchId: batch.id,
+        data: archiveFile.data,
+        processingOptions: {
+          deadline: options.deadline,
+          ...(checkpoint?.nextFile === i && checkpoint.documentId === documentId && {
+            graphOffset: checkpoint.graphOffset,
+          }),
+        },
+      })
+
+      batch.processed_files++
+    } catch (error) {
+      if (error instanceof JobPausedError) {
+        const next: BatchCheckpoint = { nextFile: i, documentId, graphOffset: error.checkpoint.graphOffset }
+        throw new JobPausedError(`Paused in ${entry.path} (${i + 1} of ${files.length}): ${error.message}`, next)
+      }
+
+      const message = error instanceof Error ? error.message : "Unknown error in document processing"
+
+      logger.warn(`Batch file failed: ${batch.id}`, {
+        batchId: batch.id,
+        documentId,
+        path: entry.path,
+        error: message,
+      })
+
+      batch.failed_files++
+      batch.errors.push({ path: entry.path, document_id: documentId, error: message })
+    }
+
+    // Persist after every file so the status endpoint stays current and a resumed run starts from these counts
+    batch.next_file = i + 1
+    batch.next_document_id = generateDocumentId()
+    await saveBatch(batch)
+  }
+
+  batch.status = "completed"
+  batch.next_document_id = undefined
+  await saveBatch(batch)
+
+  logger.info(`Batch processed: ${batch.id}`, {
+    batchId: batch.id,
+    processed: batch.processed_files,
+    failed: batch.failed_files,
+    skipped: batch.skipped_files,
+  })
+
+  return {
+    batchId: batch.id,
+    totalFiles: batch.total_files,
+    processedFiles: batch.processed_files,
+    failedFiles: batch.failed_files,
+    skippedFiles: batch.skipped_files,
+  }
+}
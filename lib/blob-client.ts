@@ -41,14 +41,16 @@ export async function uploadToBlob(buffer: Buffer | ReadableStream, filename: st
 
 /**
  * List files in Blob Storage with optional prefix
+ * Results come in pages; pass the cursor of a result to read the next page
  *
  * @param prefix - Optional prefix to filter files by
+ * @param options - Cursor of the page to read
  * @returns List of blobs matching the prefix
  */
-export async function listBlobFiles(prefix?: string): Promise<ListBlobResult> {
+export async function listBlobFiles(prefix?: string, options: { cursor?: string } = {}): Promise<ListBlobResult> {
   try {
     logger.info(`Listing files in blob storage`, { prefix })
-    const result = await list({ prefix })
+    const result = await list({ prefix, cursor: options.cursor })
     logger.info(`Listed ${result.blobs.length} files from blob storage`, { prefix })
     return result
   } catch (error) {
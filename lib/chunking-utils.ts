@@ -10,11 +10,16 @@
  * - Token estimation for embedding models
  * - Chunk validation and filtering
  * - Overlap control for context preservation
+ * - Row-aware chunking for tabular content with the header repeated in each chunk
+ * - Source code chunking on function and class boundaries
  * - Edge Runtime compatible (no Node.js specific modules)
  *
  * @module lib/chunking-utils
  */
 
+import { splitCodeIntoUnits } from "@/lib/code-chunking"
+import { renderTable } from "@/lib/utils/markdown-utils"
+
 // Types for chunk metadata and options
 export interface ChunkMetadata {
   index: number
@@ -31,6 +36,16 @@ export interface ChunkMetadata {
   isTable?: boolean
   isCode?: boolean
   isList?: boolean
+  pageNumber?: number
+  sheetName?: string
+  rowStart?: number
+  rowEnd?: number
+  filePath?: string
+  language?: string
+  symbol?: string
+  symbolType?: string
+  startLine?: number
+  endLine?: number
   tags?: string[]
   createdAt: string
 }
@@ -40,6 +55,28 @@ export interface Chunk {
   metadata: ChunkMetadata
 }
 
+// A spreadsheet row with its row number in the source file
+export interface TableRow {
+  rowNumber: number
+  cells: string[]
+}
+
+// A piece of extracted document content with metadata that applies to all of its chunks
+export interface ContentSegment {
+  text: string
+  metadata?: Partial<ChunkMetadata>
+  // Tabular content is chunked by whole rows with the header repeated in each chunk
+  table?: {
+    header: string[]
+    rows: TableRow[]
+  }
+  // Source code is chunked on function and class boundaries
+  code?: {
+    filePath: string
+    language: string
+  }
+}
+
 export interface ChunkingOptions {
   strategy?: "semantic" | "fixed" | "recursive" | "sliding" | "paragraph"
   maxChunkSize?: number
@@ -553,6 +590,11 @@ function splitBySemanticStructure(text: string, options: ChunkingOptions): Chunk
       }
     }
 
+    // Headers without content only contribute to the heading path
+    if (!section.content) {
+      continue
+    }
+
     // If section is small enough, keep it as a single chunk
     if (section.content.length <= maxChunkSize) {
       const sectionText =
@@ -618,17 +660,20 @@ function extractSections(text: string): Array<{
     content: string
   }> = []
 
-  let lastIndex = 0
-  let match
+  // Find all headers up front so section boundaries are known
+  const matches = Array.from(text.matchAll(headerRegex))
 
-  // Reset regex
-  headerRegex.lastIndex = 0
+  // Add any content before the first header
+  const preamble = text.substring(0, matches.length > 0 ? matches[0].index : text.length).trim()
+  if (preamble) {
+    sections.push({
+      content: preamble,
+    })
+  }
 
-  // Find all headers
-  while ((match = headerRegex.exec(text)) !== null) {
+  matches.forEach((match, matchIndex) => {
     let heading: string
     let headingLevel: number
-    const headerStart = match.index
 
     // Determine heading and level based on match type
     if (match[1]) {
@@ -641,60 +686,18 @@ function extractSections(text: string): Array<{
       headingLevel = match[4].charAt(0) === "=" ? 1 : 2
     }
 
-    // If this isn't the first header, add the previous section
-    if (headerStart > lastIndex) {
-      const previousContent = text.substring(lastIndex, headerStart).trim()
-
-      if (previousContent) {
-        sections.push({
-          content: previousContent,
-        })
-      }
-    }
-
-    // Find the end of this section (start of next header or end of text)
-    headerRegex.lastIndex = match.index + match[0].length
-    const nextMatch = headerRegex.exec(text)
-
-    // If we found another header, reset the regex position
-    if (nextMatch) {
-      headerRegex.lastIndex = match.index + match[0].length
-    }
-
-    const sectionEnd = nextMatch ? nextMatch.index : text.length
-
-    // Extract content after the header
-    const headerEnd = match.index + match[0].length
+    // Section runs until the next header or the end of the text
+    const headerEnd = (match.index ?? 0) + match[0].length
+    const sectionEnd = matchIndex + 1 < matches.length ? matches[matchIndex + 1].index : text.length
     const content = text.substring(headerEnd, sectionEnd).trim()
 
-    // Add this section with its header
-    if (content) {
-      sections.push({
-        heading,
-        headingLevel,
-        content,
-      })
-    }
-
-    // Update lastIndex for next iteration
-    lastIndex = sectionEnd
-
-    // Reset regex to continue from the current position if we found a next match
-    if (nextMatch) {
-      headerRegex.lastIndex = match.index + match[0].length
-    }
-  }
-
-  // Add the final section if there's content after the last header
-  if (lastIndex < text.length) {
-    const remainingContent = text.substring(lastIndex).trim()
-
-    if (remainingContent) {
-      sections.push({
-        content: remainingContent,
-      })
-    }
-  }
+    // Headers without content are kept so callers can track the heading path
+    sections.push({
+      heading,
+      headingLevel,
+      content,
+    })
+  })
 
   // If no headers were found, return the entire text as one section
   if (sections.length === 0) {
@@ -741,6 +744,10 @@ function splitRecursively(text: string, options: ChunkingOptions): Chunk[] {
     let chunkIndex = 0
 
     for (const section of sections) {
+      if (!section.content) {
+        continue
+      }
+
       const sectionText = section.heading ? `# ${section.heading}\n\n${section.content}` : section.content
 
       // Recursively process this section
@@ -901,7 +908,7 @@ export function splitText(text: string, options: ChunkingOptions = {}): Chunk[]
  * @returns Array of sections with headers and content
  */
 export function splitByHeaders(text: string): { header?: string; content: string }[] {
-  const sections = extractSections(normalizeText(text))
+  const sections = extractSections(normalizeText(text)).filter((section) => section.content)
 
   return sections.map((section) => ({
     header: section.heading,
@@ -909,6 +916,205 @@ export function splitByHeaders(text: string): { header?: string; content: string
   }))
 }
 
+/**
+ * Chunks a tabular segment into groups of whole rows, repeating the header row in each chunk
+ *
+ * @param segment - Segment with table rows
+ * @param maxChunkSize - Maximum chunk size in characters; a single oversized row still forms one chunk
+ * @param startIndex - Index of the first chunk produced
+ * @returns Array of chunks with row ranges
+ */
+function chunkTableSegment(segment: ContentSegment, maxChunkSize: number, startIndex: number): Chunk[] {
+  const { header, rows } = segment.table!
+  const sheetName = segment.metadata?.sheetName
+  const prefix = sheetName ? `# ${sheetName}\n\n` : ""
+
+  // Rendered size of a row: cells joined by " | " plus the outer pipes and newline
+  const rowSize = (cells: string[]) => cells.join(" | ").length + 5
+  const baseSize = prefix.length + rowSize(header) * 2
+
+  const chunks: Chunk[] = []
+  let group: TableRow[] = []
+  let groupSize = baseSize
+
+  const flush = () => {
+    if (group.length === 0) {
+      return
+    }
+
+    const text = prefix + renderTable([header, ...group.map((row) => row.cells)])
+
+    chunks.push(
+      createChunk(text, startIndex + chunks.length, {}, {
+        ...(sheetName && { heading: sheetName, headingPath: [sheetName] }),
+        ...segment.metadata,
+        isTable: true,
+        rowStart: group[0].rowNumber,
+        rowEnd: group[group.length - 1].rowNumber,
+      }),
+    )
+
+    group = []
+    groupSize = baseSize
+  }
+
+  for (const row of rows) {
+    const size = rowSize(row.cells)
+
+    if (group.length > 0 && groupSize + size > maxChunkSize) {
+      flush()
+    }
+
+    group.push(row)
+    groupSize += size
+  }
+
+  flush()
+
+  return chunks
+}
+
+/**
+ * Chunks a source file segment on function and class boundaries
+ * Each chunk is a fenced code block headed by the file path and symbol name.
+ *
+ * @param segment - Segment with source code
+ * @param maxChunkSize - Preferred maximum chunk size in characters
+ * @param startIndex - Index of the first chunk produced
+ * @returns Array of chunks with file, language, symbol and line metadata
+ */
+function chunkCodeSegment(segment: ContentSegment, maxChunkSize: number, startIndex: number): Chunk[] {
+  const { filePath, language } = segment.code!
+
+  return splitCodeIntoUnits(segment.text, language, maxChunkSize).map((unit, offset) => {
+    const title = unit.symbol ? `${filePath} (${unit.symbol})` : filePath
+    const text = `${title}\n\n\`\`\`${language}\n${unit.text}\n\`\`\``
+
+    return createChunk(text, startIndex + offset, {}, {
+      ...segment.metadata,
+      isCode: true,
+      isTable: false,
+      isList: false,
+      filePath,
+      language,
+      startLine: unit.startLine,
+      endLine: unit.endLine,
+      ...(unit.symbol && { symbol: unit.symbol, symbolType: unit.symbolType }),
+    })
+  })
+}
+
+/**
+ * Chunks extracted document segments, carrying each segment's metadata onto its chunks
+ *
+ * @param segments - Segments produced by document extraction
+ * @param options - Chunk size, overlap and whether to split on headers first
+ * @returns Array of chunks with metadata
+ */
+export function chunkSegments(
+  segments: ContentSegment[],
+  options: { maxChunkSize?: number; overlap?: number; splitHeaders?: boolean } = {},
+): Chunk[] {
+  const {
+    maxChunkSize = DEFAULT_OPTIONS.maxChunkSize,
+    overlap = DEFAULT_OPTIONS.overlap,
+    splitHeaders = true,
+  } = options
+
+  const chunks: Chunk[] = []
+
+  // Heading path carries across segments so pages continue under the last heading
+  const headingPath: string[] = []
+
+  let previousFilePath: string | undefined
+
+  for (const segment of segments) {
+    // Files in a repository each start their own heading path
+    if (segment.metadata?.filePath !== previousFilePath) {
+      headingPath.length = 0
+      previousFilePath = segment.metadata?.filePath
+    }
+
+    if (segment.table) {
+      chunks.push(...chunkTableSegment(segment, maxChunkSize!, chunks.length))
+      continue
+    }
+
+    if (segment.code) {
+      chunks.push(...chunkCodeSegment(segment, maxChunkSize!, chunks.length))
+      continue
+    }
+
+    const sections: Array<{ heading?: string; headingLevel?: number; content: string }> = splitHeaders
+      ? extractSections(normalizeText(segment.text))
+      : [{ content: segment.text }]
+
+    for (const section of sections) {
+      // Remove any headings at or deeper than the current level
+      if (section.headingLevel !== undefined) {
+        while (headingPath.length >= section.headingLevel) {
+          headingPath.pop()
+        }
+
+        if (section.heading) {
+          headingPath.push(section.heading)
+        }
+      }
+
+      if (!section.content) {
+        continue
+      }
+
+      const sectionText = section.heading ? `# ${section.heading}\n\n${section.content}` : section.content
+
+      for (const text of chunkDocument(sectionText, maxChunkSize, overlap)) {
+        chunks.push(
+          createChunk(text, chunks.length, {}, {
+            ...(section.heading && {
+              heading: section.heading,
+              headingLevel: section.headingLevel,
+              sourceSection: section.heading,
+            }),
+            ...(headingPath.length > 0 && { headingPath: [...headingPath] }),
+            ...segment.metadata,
+          }),
+        )
+      }
+    }
+  }
+
+  return chunks
+}
+
+/**
+ * Converts chunk metadata into the flat snake_case fields stored on chunk vectors
+ * Only fields that are set are included, since vector metadata cannot hold null values
+ *
+ * @param metadata - Chunk metadata
+ * @returns Vector metadata fields
+ */
+export function toVectorMetadata(metadata: Partial<ChunkMetadata>): Record<string, string | number | boolean | string[]> {
+  return {
+    ...(metadata.pageNumber !== undefined && { page_number: metadata.pageNumber }),
+    ...(metadata.heading && { section_heading: metadata.heading }),
+    ...(metadata.headingPath && metadata.headingPath.length > 0 && { heading_path: metadata.headingPath }),
+    ...(metadata.isTable && { is_table: true }),
+    ...(metadata.isList && { is_list: true }),
+    ...(metadata.sheetName && { sheet_name: metadata.sheetName }),
+    ...(metadata.rowStart !== undefined && { row_start: metadata.rowStart }),
+    ...(metadata.rowEnd !== undefined && { row_end: metadata.rowEnd }),
+    // The prose structure heuristic flags any indented text as code, so only source files are marked
+    ...(metadata.isCode && metadata.filePath && { is_code: true }),
+    ...(metadata.filePath && { source_path: metadata.filePath }),
+    ...(metadata.language && { language: metadata.language }),
+    ...(metadata.symbol && { symbol: metadata.symbol }),
+    ...(metadata.symbolType && { symbol_type: metadata.symbolType }),
+    ...(metadata.startLine !== undefined && { start_line: metadata.startLine }),
+    ...(metadata.endLine !== undefined && { end_line: metadata.endLine }),
+    ...(metadata.tags && metadata.tags.length > 0 && { tags: metadata.tags }),
+  }
+}
+
 /**
  * Splits text into chunks optimized for embedding
  *
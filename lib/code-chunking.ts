@@ -0,0 +1,489 @@
+/**
+ * Code Chunking
+ *
+ * Splits source files on function and class boundaries instead of prose heuristics,
+ * so each chunk holds a complete declaration with its leading comments.
+ *
+ * Features:
+ * - Language detection from file extensions
+ * - Brace-delimited languages split by block depth, ignoring braces in strings and comments
+ * - Indentation-delimited languages (Python, Ruby) split by indent level
+ * - Oversized classes split into their members, with symbols like "Class.method"
+ * - Symbol name and kind extraction from declaration signatures
+ * - Edge Runtime compatible (no Node.js specific modules)
+ *
+ * @module lib/code-chunking
+ */
+
+// How a language delimits blocks
+type LanguageFamily = "brace" | "indent" | "plain"
+
+interface LanguageDefinition {
+  extensions: string[]
+  family: LanguageFamily
+  // Characters that open string literals spanning more than one character
+  quotes?: string[]
+  // Whether "#" starts a line comment
+  hashComments?: boolean
+}
+
+/**
+ * A contiguous piece of a source file, usually one declaration
+ */
+export interface CodeUnit {
+  text: string
+  startLine: number
+  endLine: number
+  symbol?: string
+  symbolType?: string
+}
+
+// Supported languages keyed by the name stored in chunk metadata
+const LANGUAGES: Record<string, LanguageDefinition> = {
+  typescript: { extensions: [".ts", ".tsx", ".mts", ".cts"], family: "brace", quotes: ['"', "'", "`"] },
+  javascript: { extensions: [".js", ".jsx", ".mjs", ".cjs"], family: "brace", quotes: ['"', "'", "`"] },
+  java: { extensions: [".java"], family: "brace" },
+  kotlin: { extensions: [".kt", ".kts"], family: "brace" },
+  scala: { extensions: [".scala"], family: "brace" },
+  groovy: { extensions: [".groovy", ".gradle"], family: "brace", quotes: ['"', "'"] },
+  csharp: { extensions: [".cs"], family: "brace" },
+  go: { extensions: [".go"], family: "brace", quotes: ['"', "`"] },
+  rust: { extensions: [".rs"], family: "brace" },
+  c: { extensions: [".c", ".h"], family: "brace" },
+  cpp: { extensions: [".cc", ".cpp", ".cxx", ".hpp", ".hh", ".hxx"], family: "brace" },
+  swift: { extensions: [".swift"], family: "brace" },
+  dart: { extensions: [".dart"], family: "brace", quotes: ['"', "'"] },
+  php: { extensions: [".php"], family: "brace", quotes: ['"', "'"], hashComments: true },
+  python: { extensions: [".py", ".pyi"], family: "indent", hashComments: true },
+  ruby: { extensions: [".rb", ".rake"], family: "indent", hashComments: true },
+  shell: { extensions: [".sh", ".bash", ".zsh"], family: "plain" },
+  sql: { extensions: [".sql"], family: "plain" },
+  css: { extensions: [".css", ".scss", ".less"], family: "plain" },
+  vue: { extensions: [".vue", ".svelte"], family: "plain" },
+  json: { extensions: [".json"], family: "plain" },
+  yaml: { extensions: [".yml", ".yaml"], family: "plain" },
+  toml: { extensions: [".toml"], family: "plain" },
+  xml: { extensions: [".xml"], family: "plain" },
+}
+
+// Files recognised by name rather than extension
+const LANGUAGE_FILE_NAMES: Record<string, string> = {
+  dockerfile: "dockerfile",
+  makefile: "makefile",
+  gemfile: "ruby",
+  rakefile: "ruby",
+}
+
+// Code chunks get a larger budget than prose so typical functions stay whole
+const MIN_CODE_CHUNK_SIZE = 2000
+
+// Words that look like calls in signatures but never name a declaration
+const NON_SYMBOL_WORDS = new Set([
+  "if",
+  "for",
+  "foreach",
+  "while",
+  "switch",
+  "catch",
+  "return",
+  "sizeof",
+  "typeof",
+  "new",
+  "await",
+  "function",
+  "super",
+  "this",
+  "else",
+  "do",
+  "try",
+  "using",
+  "lock",
+  "with",
+])
+
+// Declaration patterns tried in order; the last capture group is the symbol name
+const SYMBOL_PATTERNS: Array<{ pattern: RegExp; type: string | ((match: RegExpMatchArray) => string) }> = [
+  {
+    pattern:
+      /\b(class|interface|enum|struct|trait|protocol|extension|record|object|module|namespace|impl|mod|type)\s+(?:<[^>]*>\s*)?([A-Za-z_$][\w$]*)/,
+    type: (match) => match[1],
+  },
+  {
+    pattern: /\b(?:function\*?|func|fn|def|fun|sub)\s+(?:\([^)]*\)\s*)?(?:self\.)?([A-Za-z_$][\w$]*[?!]?)/,
+    type: "function",
+  },
+  {
+    pattern: /\b(?:const|let|var|val)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]*)?=\s*(?:async\s+)?(?:function\b|\([^)]*\)\s*(?::[^=]*)?=>|[A-Za-z_$][\w$]*\s*=>)/,
+    type: "function",
+  },
+  {
+    pattern: /\b(?:const|let|var|val)\s+([A-Za-z_$][\w$]*)/,
+    type: "variable",
+  },
+  {
+    pattern: /([A-Za-z_~][\w~]*)\s*(?:<[^>()]*>)?\s*\(/,
+    type: "function",
+  },
+]
+
+/**
+ * Detects the programming language of a file from its path
+ *
+ * @param path - File path or name
+ * @returns Language name, or null if the file is not recognised as code
+ */
+export function detectCodeLanguage(path: string): string | null {
+  const name = path.split("/").pop()?.toLowerCase() || ""
+
+  if (LANGUAGE_FILE_NAMES[name]) {
+    return LANGUAGE_FILE_NAMES[name]
+  }
+
+  for (const [language, definition] of Object.entries(LANGUAGES)) {
+    if (definition.extensions.some((extension) => name.endsWith(extension))) {
+      return language
+    }
+  }
+
+  return null
+}
+
+/**
+ * Lists the file extensions recognised as code
+ *
+ * @returns Array of extensions including the leading dot
+ */
+export function getCodeExtensions(): string[] {
+  return Object.values(LANGUAGES).flatMap((definition) => definition.extensions)
+}
+
+/**
+ * Checks whether a line only holds a comment, decorator or annotation
+ *
+ * @param line - Trimmed line
+ * @returns True if the line precedes a declaration without being part of its signature
+ */
+function isPreambleLine(line: string): boolean {
+  return /^(\/\/|\/\*|\*|#|@|--|""")/.test(line)
+}
+
+/**
+ * Extracts the declared symbol from the first signature line of a unit
+ *
+ * @param lines - Lines of the unit
+ * @returns Symbol name and kind, if a declaration was recognised
+ */
+function extractSymbol(lines: string[]): { symbol: string; symbolType: string } | undefined {
+  const signature = lines.map((line) => line.trim()).find((line) => line && !isPreambleLine(line))
+
+  if (!signature) {
+    return undefined
+  }
+
+  for (const { pattern, type } of SYMBOL_PATTERNS) {
+    const match = signature.match(pattern)
+    const symbol = match?.[match.length - 1]
+
+    if (match && symbol && !NON_SYMBOL_WORDS.has(symbol)) {
+      return {
+        symbol,
+        symbolType: typeof type === "function" ? type(match) : type,
+      }
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Computes the brace depth at the start of every line, skipping strings and comments
+ *
+ * @param lines - Source lines
+ * @param definition - Language definition
+ * @returns Depth before each line, plus the depth after the last line
+ */
+function computeBraceDepths(lines: string[], definition: LanguageDefinition): number[] {
+  const quotes = definition.quotes || ['"']
+  const depths: number[] = []
+  let depth = 0
+  let inBlockComment = false
+  let openQuote: string | null = null
+
+  for (const line of lines) {
+    depths.push(depth)
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i]
+      const next = line[i + 1]
+
+      if (inBlockComment) {
+        if (char === "*" && next === "/") {
+          inBlockComment = false
+          i++
+        }
+        continue
+      }
+
+      if (openQuote) {
+        if (char === "\\") {
+          i++
+        } else if (char === openQuote) {
+          openQuote = null
+        }
+        continue
+      }
+
+      if (char === "/" && next === "/") break
+      if (char === "#" && definition.hashComments) break
+
+      if (char === "/" && next === "*") {
+        inBlockComment = true
+        i++
+      } else if (quotes.includes(char)) {
+        openQuote = char
+      } else if (char === "'") {
+        // Character literals such as 'x' or '\n'; anything else is a lifetime or label
+        const end = line.indexOf("'", i + 1)
+        if (end !== -1 && end - i <= (line[i + 1] === "\\" ? 3 : 2)) {
+          i = end
+        }
+      } else if (char === "{") {
+        depth++
+      } else if (char === "}") {
+        depth = Math.max(0, depth - 1)
+      }
+    }
+
+    // Only template literals and backtick strings continue across lines
+    if (openQuote && openQuote !== "`") {
+      openQuote = null
+    }
+  }
+
+  depths.push(depth)
+  return depths
+}
+
+/**
+ * Computes the indentation width of every line, treating blank lines as part of the current block
+ *
+ * @param lines - Source lines
+ * @returns Indent before each line, plus a sentinel after the last line
+ */
+function computeIndentDepths(lines: string[]): number[] {
+  const depths: number[] = []
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]
+
+    if (line.trim() === "") {
+      // Blank lines take the indent of the next non-blank line so they do not end blocks
+      const next = lines.slice(i + 1).find((candidate) => candidate.trim() !== "")
+      depths.push(next ? next.length - next.trimStart().length : 0)
+    } else {
+      depths.push(line.replace(/\t/g, "    ").length - line.replace(/\t/g, "    ").trimStart().length)
+    }
+  }
+
+  depths.push(0)
+  return depths
+}
+
+/**
+ * Splits a range of lines into top-level blocks and the glue code between them
+ *
+ * @param lines - Source lines
+ * @param depths - Depth before each line
+ * @param family - Language family
+ * @param start - First line of the range
+ * @param end - Line after the last line of the range
+ * @returns Line ranges with a flag for whether each is a block
+ */
+function findBlocks(
+  lines: string[],
+  depths: number[],
+  family: "brace" | "indent",
+  start: number,
+  end: number,
+): Array<{ start: number; end: number; isBlock: boolean }> {
+  const ranges: Array<{ start: number; end: number; isBlock: boolean }> = []
+  const baseDepth = depths[start]
+  let glueStart = start
+  let line = start
+
+  while (line < end) {
+    let blockEnd = -1
+
+    if (family === "brace") {
+      // A block opens on a line starting at base depth and closes when depth returns to it
+      if (depths[line] === baseDepth && depths[line + 1] > baseDepth) {
+        blockEnd = line + 1
+        while (blockEnd < end && depths[blockEnd] > baseDepth) {
+          blockEnd++
+        }
+      }
+    } else if (lines[line].trim() !== "" && depths[line] === baseDepth && depths[line + 1] > baseDepth) {
+      // A block is a line at base indent followed by more deeply indented lines
+      blockEnd = line + 1
+      while (blockEnd < end && depths[blockEnd] > baseDepth) {
+        blockEnd++
+      }
+
+      // Include a closing "end" or bracket line at base indent (Ruby, multi-line literals)
+      if (blockEnd < end && /^(end\b|[}\])])/.test(lines[blockEnd].trim())) {
+        blockEnd++
+      }
+    }
+
+    if (blockEnd === -1) {
+      line++
+      continue
+    }
+
+    // Attach contiguous comments, decorators and multi-line signatures above the block
+    let blockStart = line
+    while (blockStart > glueStart) {
+      const previous = lines[blockStart - 1].trim()
+      if (previous === "" || previous.endsWith(";") || previous.endsWith("}")) {
+        break
+      }
+      blockStart--
+    }
+
+    if (blockStart > glueStart) {
+      ranges.push({ start: glueStart, end: blockStart, isBlock: false })
+    }
+
+    ranges.push({ start: blockStart, end: blockEnd, isBlock: true })
+    glueStart = blockEnd
+    line = blockEnd
+  }
+
+  if (glueStart < end) {
+    ranges.push({ start: glueStart, end, isBlock: false })
+  }
+
+  return ranges
+}
+
+/**
+ * Splits lines into pieces no larger than the size limit
+ *
+ * @param lines - Source lines
+ * @param start - First line of the range
+ * @param end - Line after the last line of the range
+ * @param maxChunkSize - Maximum size in characters
+ * @returns Line ranges
+ */
+function splitLinesBySize(
+  lines: string[],
+  start: number,
+  end: number,
+  maxChunkSize: number,
+): Array<{ start: number; end: number }> {
+  const ranges: Array<{ start: number; end: number }> = []
+  let pieceStart = start
+  let size = 0
+
+  for (let line = start; line < end; line++) {
+    const lineSize = lines[line].length + 1
+
+    if (size > 0 && size + lineSize > maxChunkSize) {
+      ranges.push({ start: pieceStart, end: line })
+      pieceStart = line
+      size = 0
+    }
+
+    size += lineSize
+  }
+
+  if (pieceStart < end) {
+    ranges.push({ start: pieceStart, end })
+  }
+
+  return ranges
+}
+
+/**
+ * Splits a source file into units on function and class boundaries
+ *
+ * @param source - File content
+ * @param language - Language name from detectCodeLanguage
+ * @param maxChunkSize - Preferred maximum unit size in characters
+ * @returns Units in file order
+ */
+export function splitCodeIntoUnits(source: string, language: string, maxChunkSize: number): CodeUnit[] {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n")
+  const definition = LANGUAGES[language]
+  const family = definition?.family || "plain"
+  const sizeLimit = Math.max(maxChunkSize, MIN_CODE_CHUNK_SIZE)
+  const units: CodeUnit[] = []
+
+  const rangeSize = (start: number, end: number) =>
+    lines.slice(start, end).reduce((total, line) => total + line.length + 1, 0)
+
+  const pushUnit = (start: number, end: number, symbol?: { symbol: string; symbolType: string }) => {
+    // Trim blank lines at either end so line numbers point at code
+    while (start < end && lines[start].trim() === "") start++
+    while (end > start && lines[end - 1].trim() === "") end--
+
+    if (start === end) {
+      return
+    }
+
+    for (const piece of splitLinesBySize(lines, start, end, sizeLimit)) {
+      units.push({
+        text: lines.slice(piece.start, piece.end).join("\n"),
+        startLine: piece.start + 1,
+        endLine: piece.end,
+        ...symbol,
+      })
+    }
+  }
+
+  if (family === "plain") {
+    pushUnit(0, lines.length)
+    return units
+  }
+
+  const depths = family === "brace" ? computeBraceDepths(lines, definition) : computeIndentDepths(lines)
+
+  const splitRange = (start: number, end: number, parent?: { symbol: string; symbolType: string }) => {
+    for (const range of findBlocks(lines, depths, family, start, end)) {
+      if (!range.isBlock) {
+        pushUnit(range.start, range.end, parent)
+        continue
+      }
+
+      const declared = extractSymbol(lines.slice(range.start, range.end))
+      const symbol = declared && parent ? { ...declared, symbol: `${parent.symbol}.${declared.symbol}` } : declared
+
+      // Split large container blocks into their members
+      const isContainer = declared && declared.symbolType !== "function" && declared.symbolType !== "variable"
+      if (isContainer && rangeSize(range.start, range.end) > sizeLimit) {
+        const bodyStart = lines.slice(range.start, range.end).findIndex((_, offset) => {
+          const line = range.start + offset
+          return depths[line + 1] > depths[range.start]
+        })
+
+        // Brace blocks and Ruby classes end with a closing line that belongs to neither member
+        const hasClosingLine = /^(end\b|[}\])])/.test(lines[range.end - 1].trim())
+        const innerEnd = hasClosingLine ? range.end - 1 : range.end
+
+        if (bodyStart !== -1 && range.start + bodyStart + 1 < innerEnd) {
+          const innerStart = range.start + bodyStart + 1
+          pushUnit(range.start, innerStart, symbol)
+          splitRange(innerStart, innerEnd, symbol)
+          pushUnit(innerEnd, range.end, symbol)
+          continue
+        }
+      }
+
+      pushUnit(range.start, range.end, symbol || parent)
+    }
+  }
+
+  splitRange(0, lines.length)
+
+  return units
+}
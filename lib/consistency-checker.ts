@@ -0,0 +1,512 @@
+/**
+ * Consistency Checker
+ *
+ * Compares each user's document records with the chunk vectors and Blob files that belong to
+ * them, and reports where they disagree. Deleting a document removes its chunks, versions and
+ * record one after another, and leaves its file in Blob storage; a failure part way through
+ * leaves chunks that still show up in search, and a processing run cut short leaves a document
+ * whose chunk_count the index does not hold.
+ *
+ * Issues found:
+ * - orphan_vector: chunk or version records of a document that no longer exists
+ * - orphan_file: Blob files stored for a document that no longer exists
+ * - missing_file: documents whose Blob file is gone, so they cannot be processed again
+ * - chunk_count_mismatch: indexed documents with more or fewer chunks than their chunk_count
+ *
+ * With repair enabled, orphans are deleted and documents with the wrong number of chunks are
+ * queued for processing again, which restores missing chunks and removes stale ones; documents
+ * without a file get their chunk_count corrected instead. Missing files are only reported.
+ *
+ * Records and files younger than ORPHAN_GRACE_MS are left alone, as they may belong to an
+ * upload or a processing run still in progress.
+ *
+ * Features:
+ * - Per-user checks, or time-boxed runs over every user continued by background jobs
+ * - Report with counts per issue type and the first issues found
+ * - Optional repair of each issue found
+ * - Edge runtime compatible (no Node.js specific modules)
+ *
+ * Dependencies:
+ * - @/lib/vector-store for document, chunk and version records
+ * - @/lib/blob-client for listing and deleting Blob files
+ * - @/lib/document-versioning for version filters
+ * - @/lib/job-queue for repair processing jobs and continuing runs
+ * - @/lib/utils/logger for structured logging
+ *
+ * @module lib/consistency-checker
+ */
+
+import { logger } from "@/lib/utils/logger"
+import {
+  createPlaceholderVector,
+  deleteVectors,
+  getNamespaceUserId,
+  getUserNamespace,
+  listNamespaces,
+  queryVectors,
+  updateVectorMetadata,
+  type VectorQueryMatch,
+} from "@/lib/vector-store"
+import { deleteFromBlob, listBlobFiles } from "@/lib/blob-client"
+import { getVersionClause } from "@/lib/document-versioning"
+import { enqueueJob, findActiveJob } from "@/lib/job-queue"
+import type { ProcessDocumentOptions } from "@/types"
+
+// Largest topK Pinecone accepts for queries that include metadata
+const MAX_METADATA_TOP_K = 1000
+
+// Largest topK Pinecone accepts
+const MAX_TOP_K = 10000
+
+// Age below which records and files may still belong to work in progress
+const ORPHAN_GRACE_MS = 60 * 60 * 1000
+
+// Issues listed in a report; the counts cover all of them
+const MAX_REPORTED_ISSUES = 100
+
+// Time a check of every user runs before a job continues it
+const DEFAULT_TIME_BUDGET_MS = 20 * 1000
+
+export type ConsistencyIssueType = "orphan_vector" | "orphan_file" | "missing_file" | "chunk_count_mismatch"
+
+/**
+ * Disagreement between a document and its vectors or files
+ */
+export interface ConsistencyIssue {
+  type: ConsistencyIssueType
+  userId: string
+  documentId: string
+  // Records without a document
+  vectorIds?: string[]
+  // Blob file without a document, or the missing file of a document
+  fileUrl?: string
+  // chunk_count of the document, and the chunks stored for its version
+  expected?: number
+  actual?: number
+  repaired: boolean
+  repair?: "deleted" | "reprocessing" | "chunk_count_updated"
+  error?: string
+}
+
+/**
+ * Outcome of a consistency check
+ */
+export interface ConsistencyReport {
+  users: number
+  documents: number
+  counts: Record<ConsistencyIssueType, number>
+  issues: ConsistencyIssue[]
+  repaired: number
+  // Users with more documents than one query returns; orphans are not looked for
+  truncatedUsers: string[]
+  // Users whose Blob files could not be listed; files were not checked
+  fileCheckFailedUsers: string[]
+  // Last user checked, for continuing a check of every user
+  cursor?: string
+  complete: boolean
+}
+
+/**
+ * Creates an empty report
+ *
+ * @returns Report without users
+ */
+function createReport(): ConsistencyReport {
+  return {
+    users: 0,
+    documents: 0,
+    counts: { orphan_vector: 0, orphan_file: 0, missing_file: 0, chunk_count_mismatch: 0 },
+    issues: [],
+    repaired: 0,
+    truncatedUsers: [],
+    fileCheckFailedUsers: [],
+    complete: false,
+  }
+}
+
+/**
+ * Whether a timestamp is older than the grace period
+ *
+ * @param timestamp - ISO timestamp or date
+ * @returns True for timestamps before the grace period, and for missing ones
+ */
+function isPastGrace(timestamp: string | Date | undefined): boolean {
+  if (!timestamp) {
+    return true
+  }
+
+  const time = new Date(timestamp).getTime()
+  return Number.isNaN(time) || Date.now() - time > ORPHAN_GRACE_MS
+}
+
+/**
+ * Queries records of a user namespace
+ *
+ * @param namespace - User namespace
+ * @param filter - Metadata filter
+ * @param options - Whether to include metadata
+ * @returns Matching records
+ * @throws Error if the query fails
+ */
+async function queryRecords(
+  namespace: string,
+  filter: Record<string, any>,
+  options: { includeMetadata: boolean },
+): Promise<VectorQueryMatch[]> {
+  const response = await queryVectors(createPlaceholderVector(), {
+    filter,
+    includeMetadata: options.includeMetadata,
+    topK: options.includeMetadata ? MAX_METADATA_TOP_K : MAX_TOP_K,
+    namespace,
+  })
+
+  if (response.error) {
+    throw new Error(`Failed to query records: ${response.errorMessage}`)
+  }
+
+  return response.matches || []
+}
+
+/**
+ * Lists the Blob files stored for a user's documents
+ *
+ * @param userId - User ID
+ * @returns Files with their URL, path and upload time
+ */
+async function listUserFiles(userId: string): Promise<Array<{ url: string; pathname: string; uploadedAt: Date }>> {
+  const files: Array<{ url: string; pathname: string; uploadedAt: Date }> = []
+  let cursor: string | undefined
+
+  do {
+    const page = await listBlobFiles(`documents/${userId}/`, { cursor })
+    files.push(...page.blobs.map((blob) => ({ url: blob.url, pathname: blob.pathname, uploadedAt: blob.uploadedAt })))
+    cursor = page.hasMore ? page.cursor : undefined
+  } while (cursor)
+
+  return files
+}
+
+/**
+ * Queues processing of a document again unless it or a new version of it is already queued or running
+ *
+ * @param document - Document record metadata
+ * @param userId - Owner of the document
+ */
+async function queueReprocessing(document: Record<string, any>, userId: string): Promise<void> {
+  // A version upload in progress re-indexes the document itself
+  if (
+    (await findActiveJob(document.id, "process_document")) ||
+    (await findActiveJob(document.id, "create_version"))
+  ) {
+    return
+  }
+
+  const options: ProcessDocumentOptions = {
+    documentId: document.id,
+    userId,
+    filePath: document.file_path || "",
+    fileName: document.name || "",
+    fileType: document.file_type || "",
+    fileUrl: document.blob_url,
+  }
+
+  await enqueueJob({ type: "process_document", userId, documentId: document.id, payload: { ...options } })
+}
+
+/**
+ * Repairs an issue and records the outcome on it
+ *
+ * @param issue - Issue to repair
+ * @param document - Document record metadata, for issues of an existing document
+ */
+async function repairIssue(issue: ConsistencyIssue, document?: Record<string, any>): Promise<void> {
+  const namespace = getUserNamespace(issue.userId)
+
+  try {
+    switch (issue.type) {
+      case "orphan_vector": {
+        const ids = issue.vectorIds || []
+        for (let i = 0; i < ids.length; i += 100) {
+          await deleteVectors({ ids: ids.slice(i, i + 100), namespace })
+        }
+        issue.repair = "deleted"
+        break
+      }
+      case "orphan_file":
+        await deleteFromBlob(issue.fileUrl!)
+        issue.repair = "deleted"
+        break
+      case "chunk_count_mismatch":
+        if (document?.blob_url) {
+          await queueReprocessing(document, issue.userId)
+          issue.repair = "reprocessing"
+        } else {
+          await updateVectorMetadata(issue.documentId, { chunk_count: issue.actual }, { namespace })
+          issue.repair = "chunk_count_updated"
+        }
+        break
+      case "missing_file":
+        // The file cannot be restored
+        return
+    }
+
+    issue.repaired = true
+  } catch (error) {
+    issue.error = error instanceof Error ? error.message : String(error)
+    logger.warn(`Failed to repair ${issue.type} of document: ${issue.documentId}`, {
+      userId: issue.userId,
+      documentId: issue.documentId,
+      error: issue.error,
+    })
+  }
+}
+
+/**
+ * Adds an issue to a report
+ *
+ * @param report - Report
+ * @param issue - Issue found
+ */
+function addIssue(report: ConsistencyReport, issue: ConsistencyIssue): void {
+  report.counts[issue.type]++
+  if (issue.repaired) {
+    report.repaired++
+  }
+  if (report.issues.length < MAX_REPORTED_ISSUES) {
+    report.issues.push(issue)
+  }
+}
+
+/**
+ * Checks one user's documents against their vectors and files
+ *
+ * @param userId - User ID
+ * @param options - Whether to repair the issues found
+ * @param report - Report of a check of every user to add the user to
+ * @returns Report
+ * @throws Error if the user's records cannot be read
+ */
+export async function checkUserConsistency(
+  userId: string,
+  options: { repair?: boolean } = {},
+  report: ConsistencyReport = { ...createReport(), complete: true },
+): Promise<ConsistencyReport> {
+  const namespace = getUserNamespace(userId)
+  const repair = options.repair ?? false
+  const found: Array<{ issue: ConsistencyIssue; document?: Record<string, any> }> = []
+
+  const documents = (await queryRecords(namespace, { record_type: { $eq: "document" } }, { includeMetadata: true }))
+    .map((match) => ({ ...(match.metadata || {}), id: match.id }) as Record<string, any>)
+  const documentIds = new Set(documents.map((document) => document.id))
+  const truncated = documents.length >= MAX_METADATA_TOP_K
+
+  report.users++
+  report.documents += documents.length
+
+  // Documents that did not fit in the query would make their chunks look orphaned
+  if (truncated) {
+    report.truncatedUsers.push(userId)
+  } else {
+    const orphans = await queryRecords(
+      namespace,
+      {
+        record_type: { $in: ["chunk", "document_version"] },
+        ...(documentIds.size > 0 && { document_id: { $nin: Array.from(documentIds) } }),
+      },
+      { includeMetadata: true },
+    )
+    const byDocument: Record<string, string[]> = {}
+
+    orphans.forEach((match) => {
+      const documentId = match.metadata?.document_id
+      if (typeof documentId === "string" && isPastGrace(match.metadata?.updated_at || match.metadata?.created_at)) {
+        byDocument[documentId] = [...(byDocument[documentId] || []), match.id]
+      }
+    })
+
+    Object.keys(byDocument).forEach((documentId) => {
+      found.push({
+        issue: { type: "orphan_vector", userId, documentId, vectorIds: byDocument[documentId], repaired: false },
+      })
+    })
+  }
+
+  // Settled indexed documents should hold as many chunks of their version as they claim
+  for (const document of documents) {
+    const settled = document.status === "indexed" && isPastGrace(document.updated_at)
+    if (!settled || typeof document.chunk_count !== "number") {
+      continue
+    }
+
+    const chunks = await queryRecords(
+      namespace,
+      {
+        document_id: { $eq: document.id },
+        record_type: { $eq: "chunk" },
+        $and: [getVersionClause([document.version ?? 1])],
+      },
+      { includeMetadata: false },
+    )
+
+    if (chunks.length !== document.chunk_count) {
+      found.push({
+        issue: {
+          type: "chunk_count_mismatch",
+          userId,
+          documentId: document.id,
+          expected: document.chunk_count,
+          actual: chunks.length,
+          repaired: false,
+        },
+        document,
+      })
+    }
+  }
+
+  try {
+    const files = await listUserFiles(userId)
+    const fileUrls = new Set(files.map((file) => file.url))
+
+    // Files are stored under documents/<user ID>/<document ID>/
+    files.forEach((file) => {
+      const documentId = file.pathname.split("/")[2]
+      if (documentId && !documentIds.has(documentId) && !truncated && isPastGrace(file.uploadedAt)) {
+        found.push({ issue: { type: "orphan_file", userId, documentId, fileUrl: file.url, repaired: false } })
+      }
+    })
+
+    documents.forEach((document) => {
+      const url = typeof document.blob_url === "string" ? document.blob_url : ""
+      const stored = url.includes(`/documents/${userId}/${document.id}/`)
+      if (stored && !fileUrls.has(url) && isPastGrace(document.created_at)) {
+        found.push({
+          issue: { type: "missing_file", userId, documentId: document.id, fileUrl: url, repaired: false },
+          document,
+        })
+      }
+    })
+  } catch (error) {
+    report.fileCheckFailedUsers.push(userId)
+    logger.warn(`Failed to check the Blob files of user: ${userId}`, {
+      userId,
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+
+  for (const { issue, document } of found) {
+    if (repair) {
+      await repairIssue(issue, document)
+    }
+    addIssue(report, issue)
+  }
+
+  logger.info(`Checked consistency of user: ${userId}`, {
+    userId,
+    documents: documents.length,
+    issues: found.length,
+    repair,
+  })
+
+  return report
+}
+
+/**
+ * Checks every user, in namespace order, until all are done or the time budget is used up
+ *
+ * @param options - Repair flag, user to start after, time budget and progress callback
+ * @returns Report of the users checked, with the cursor to continue from
+ * @throws Error if namespaces cannot be listed
+ */
+export async function checkAllUsersConsistency(
+  options: {
+    repair?: boolean
+    cursor?: string
+    timeBudgetMs?: number
+    onProgress?: (progress: { stage: string; progress: number; message: string }) => void
+  } = {},
+): Promise<ConsistencyReport> {
+  const deadline = Date.now() + (options.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS)
+  const report = createReport()
+  const userIds = (await listNamespaces())
+    .map(getNamespaceUserId)
+    .filter((userId): userId is string => userId !== null)
+    .sort()
+  const pending = userIds.filter((userId) => !options.cursor || userId > options.cursor)
+
+  report.cursor = options.cursor
+  report.complete = pending.length === 0
+
+  for (const userId of pending) {
+    if (Date.now() >= deadline) {
+      break
+    }
+
+    await checkUserConsistency(userId, { repair: options.repair }, report)
+    report.cursor = userId
+    report.complete = userId === pending[pending.length - 1]
+
+    options.onProgress?.({
+      stage: "checking",
+      progress: Math.floor(((userIds.length - pending.length + report.users) / userIds.length) * 100),
+      message: `Checked ${report.users} of ${pending.length} users`,
+    })
+  }
+
+  return report
+}
+
+/**
+ * Queues a consistency check as a background job
+ *
+ * @param options - User to check (every user when empty), and whether to repair
+ * @returns Job ID
+ */
+export async function enqueueConsistencyCheck(
+  options: { userId?: string; repair?: boolean; cursor?: string } = {},
+): Promise<string> {
+  const job = await enqueueJob({
+    type: "check_consistency",
+    userId: options.userId || "",
+    payload: {
+      ...(options.userId && { userId: options.userId }),
+      repair: options.repair ?? false,
+      ...(options.cursor && { cursor: options.cursor }),
+    },
+  })
+
+  return job.id
+}
+
+/**
+ * Runs a consistency check job, queueing the job that continues a check of every user
+ * Handler of check_consistency jobs
+ *
+ * @param payload - User to check or cursor to continue from, and whether to repair
+ * @param options - Progress callback and time before the check stops and queues its continuation
+ * @returns Report stored on the job
+ */
+export async function runConsistencyCheck(
+  payload: { userId?: string; repair?: boolean; cursor?: string },
+  options: {
+    onProgress?: (progress: { stage: string; progress: number; message: string }) => void
+    timeBudgetMs?: number
+  } = {},
+): Promise<Record<string, any>> {
+  if (payload.userId) {
+    return { ...(await checkUserConsistency(payload.userId, { repair: payload.repair })) }
+  }
+
+  const report = await checkAllUsersConsistency({
+    repair: payload.repair,
+    cursor: payload.cursor,
+    onProgress: options.onProgress,
+    timeBudgetMs: options.timeBudgetMs,
+  })
+
+  if (report.complete) {
+    return { ...report }
+  }
+
+  const continuedBy = await enqueueConsistencyCheck({ repair: payload.repair, cursor: report.cursor })
+  return { ...report, continuedBy }
+}
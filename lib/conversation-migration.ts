@@ -0,0 +1,466 @@
+/**
+ * Conversation Migration
+ *
+ * Moves conversations, messages and search logs written before the conversation store out of the
+ * vector index and into the Supabase tables. Records are copied to the tables first and deleted
+ * from the index only once the copy succeeded, so a run that is cut off loses nothing and the
+ * migration can simply be run again until nothing is left to move.
+ *
+ * The records sit in the shared namespace, or in their user's namespace once the namespace
+ * migration moved them, so every namespace is searched. Conversations are moved before any
+ * message: a message whose conversation is then in neither place belongs to a deleted conversation
+ * and is dropped. The table orders messages by insertion, so the messages of a conversation are
+ * copied together in creation order and the conversation's message count and last message are
+ * rebuilt from them. Run the migration before users continue old conversations, and after the
+ * namespace migration has finished, so each conversation's messages are copied in one go.
+ *
+ * Search logs get a new ID in the table, so a log whose delete fails after the copy is copied
+ * again by the next run. The filter index can lag behind deletes, so a run remembers the records
+ * it has handled and looks past them.
+ *
+ * Features:
+ * - Time-boxed runs that report whether the index holds no more of these records
+ * - Copy, then delete, so no record is lost to a failed run
+ * - Messages copied per conversation in creation order
+ * - Count of records still waiting to be moved
+ * - Edge runtime compatible (no Node.js specific modules)
+ *
+ * Dependencies:
+ * - @/lib/vector-store for reading and deleting the records
+ * - @/lib/conversation-store for writing the tables
+ * - @/lib/utils/json-utils for search filters stored as JSON strings
+ * - @/lib/utils/logger for structured logging
+ *
+ * @module lib/conversation-migration
+ */
+
+import {
+  findConversationIds,
+  importConversations,
+  importMessages,
+  importSearchLogs,
+  type NewMessage,
+} from "@/lib/conversation-store"
+import { safeJsonParse } from "@/lib/utils/json-utils"
+import { logger } from "@/lib/utils/logger"
+import { createPlaceholderVector, deleteVectors, listNamespaces, queryVectors } from "@/lib/vector-store"
+import type { Conversation } from "@/types"
+
+// Records moved per round trip
+const DEFAULT_BATCH_SIZE = 100
+
+// Largest topK Pinecone accepts
+const MAX_TOP_K = 10000
+
+// Default time a migration run keeps moving records
+const DEFAULT_TIME_BUDGET_MS = 25 * 1000
+
+// Record types moved, in the order they are moved
+const RECORD_TYPES = ["conversation", "message", "search_history"] as const
+
+type RecordType = (typeof RECORD_TYPES)[number]
+
+/**
+ * Conversation migration error class
+ */
+export class ConversationMigrationError extends Error {
+  code: string
+  retryable: boolean
+  context?: Record<string, any>
+
+  constructor(
+    message: string,
+    options: {
+      code?: string
+      retryable?: boolean
+      context?: Record<string, any>
+    } = {},
+  ) {
+    super(message)
+    this.name = "ConversationMigrationError"
+    this.code = options.code || "conversation_migration_error"
+    this.retryable = options.retryable ?? true
+    this.context = options.context
+  }
+}
+
+/**
+ * Outcome of a migration run
+ */
+export interface ConversationMigrationResult {
+  conversations: number
+  messages: number
+  searchLogs: number
+  // Messages deleted because their conversation no longer exists
+  orphanedMessages: number
+  // Whether the index holds no more conversations, messages or search logs
+  complete: boolean
+}
+
+/**
+ * A record found in the index, with its metadata
+ */
+interface IndexRecord {
+  id: string
+  metadata: Record<string, any>
+}
+
+/**
+ * Outcome of moving one batch
+ */
+interface BatchOutcome {
+  moved: number
+  // Records left in the index for a later run
+  retained: number
+  // Whether the query saw every remaining record of the namespace
+  exhausted: boolean
+}
+
+/**
+ * Finds records of a type that were not handled in this run
+ *
+ * @param namespace - Namespace to search
+ * @param filter - Metadata filter selecting the records
+ * @param handled - IDs already handled in this run
+ * @param limit - Number of records to return
+ * @returns Records, and whether the query saw every remaining record
+ * @throws ConversationMigrationError if the query fails
+ */
+async function findRecords(
+  namespace: string,
+  filter: Record<string, any>,
+  handled: Set<string>,
+  limit: number,
+): Promise<{ records: IndexRecord[]; exhausted: boolean }> {
+  // Handled records can still show up in the filter index, so look past them
+  const topK = Math.min(limit + handled.size, MAX_TOP_K)
+
+  const response = await queryVectors(createPlaceholderVector(), {
+    filter,
+    includeMetadata: true,
+    topK,
+    namespace,
+  })
+
+  if (response.error) {
+    throw new ConversationMigrationError(`Failed to list records to migrate: ${response.errorMessage}`, {
+      code: "query_failed",
+      context: { namespace, status: response.status },
+    })
+  }
+
+  const matches = response.matches || []
+
+  return {
+    records: matches
+      .filter((match) => !handled.has(match.id))
+      .slice(0, limit)
+      .map((match) => ({ id: match.id, metadata: match.metadata || {} })),
+    exhausted: matches.length < topK,
+  }
+}
+
+/**
+ * Converts a conversation record into a conversation
+ *
+ * @param record - Conversation record
+ * @returns Conversation
+ */
+function toConversation(record: IndexRecord): Conversation {
+  const { metadata } = record
+  const createdAt = metadata.created_at || new Date().toISOString()
+
+  return {
+    id: record.id,
+    user_id: metadata.user_id || "",
+    title: metadata.title || "New Conversation",
+    created_at: createdAt,
+    updated_at: metadata.updated_at || createdAt,
+    message_count: 0,
+    tags: Array.isArray(metadata.tags) ? metadata.tags.filter((tag: unknown) => typeof tag === "string") : [],
+    folder: metadata.folder || null,
+    is_pinned: metadata.is_pinned === true,
+  }
+}
+
+/**
+ * Converts a message record into a message
+ *
+ * @param record - Message record
+ * @returns Message to import
+ */
+function toMessage(record: IndexRecord): NewMessage {
+  const { metadata } = record
+
+  return {
+    id: record.id,
+    conversationId: metadata.conversation_id,
+    userId: metadata.user_id || "",
+    role: metadata.role === "assistant" ? "assistant" : "user",
+    content: metadata.content || "",
+    sources: Array.isArray(metadata.sources)
+      ? metadata.sources.filter((source: unknown) => typeof source === "string")
+      : [],
+    metadata: {
+      ...(metadata.mode && { mode: metadata.mode }),
+      ...(metadata.context_count !== undefined && { context_count: metadata.context_count }),
+      ...(metadata.graph_paths && { graph_paths: metadata.graph_paths }),
+    },
+    createdAt: metadata.created_at,
+  }
+}
+
+/**
+ * Moves a batch of conversations into the conversations table
+ *
+ * @param namespace - Namespace holding the records
+ * @param handled - IDs handled in this run
+ * @param batchSize - Records per batch
+ * @param result - Run result to add the moved records to
+ * @returns Records moved and left, and whether the query saw every remaining record
+ */
+async function moveConversations(
+  namespace: string,
+  handled: Set<string>,
+  batchSize: number,
+  result: ConversationMigrationResult,
+): Promise<BatchOutcome> {
+  const { records, exhausted } = await findRecords(
+    namespace,
+    { record_type: { $eq: "conversation" } },
+    handled,
+    batchSize,
+  )
+  const ids = records.map((record) => record.id)
+
+  // Records without an owner belong to nobody and are dropped with the rest
+  await importConversations(records.map(toConversation).filter((conversation) => conversation.user_id))
+
+  if (ids.length > 0) {
+    await deleteVectors({ ids, namespace })
+  }
+
+  ids.forEach((id) => handled.add(id))
+  result.conversations += ids.length
+
+  return { moved: ids.length, retained: 0, exhausted }
+}
+
+/**
+ * Moves the messages of the conversations of a batch of messages into the messages table
+ *
+ * @param namespace - Namespace holding the records
+ * @param handled - IDs handled in this run
+ * @param batchSize - Records per batch
+ * @param result - Run result to add the moved records to
+ * @param dropOrphans - Whether messages of conversations that do not exist are deleted
+ * @returns Records moved and left, and whether the query saw every remaining record
+ */
+async function moveMessages(
+  namespace: string,
+  handled: Set<string>,
+  batchSize: number,
+  result: ConversationMigrationResult,
+  dropOrphans: boolean,
+): Promise<BatchOutcome> {
+  const { records, exhausted } = await findRecords(
+    namespace,
+    { record_type: { $eq: "message" } },
+    handled,
+    batchSize,
+  )
+  const conversationIds = Array.from(new Set(records.map((record) => String(record.metadata.conversation_id || ""))))
+  const existing = await findConversationIds(conversationIds.filter(Boolean))
+  let moved = 0
+  let retained = 0
+
+  for (const conversationId of conversationIds) {
+    const messages = conversationId
+      ? (
+          await findRecords(
+            namespace,
+            { record_type: { $eq: "message" }, conversation_id: { $eq: conversationId } },
+            handled,
+            MAX_TOP_K,
+          )
+        ).records
+      : records.filter((record) => !record.metadata.conversation_id)
+    const ids = messages.map((message) => message.id)
+
+    if (existing.has(conversationId)) {
+      await importMessages(messages.map(toMessage))
+      result.messages += ids.length
+    } else if (dropOrphans) {
+      result.orphanedMessages += ids.length
+    } else {
+      // Their conversation may still be on its way; the next run looks again
+      ids.forEach((id) => handled.add(id))
+      retained += ids.length
+      continue
+    }
+
+    if (ids.length > 0) {
+      await deleteVectors({ ids, namespace })
+    }
+
+    ids.forEach((id) => handled.add(id))
+    moved += ids.length
+  }
+
+  return { moved, retained, exhausted }
+}
+
+/**
+ * Moves a batch of search logs into the search_logs table
+ *
+ * @param namespace - Namespace holding the records
+ * @param handled - IDs handled in this run
+ * @param batchSize - Records per batch
+ * @param result - Run result to add the moved records to
+ * @returns Records moved and left, and whether the query saw every remaining record
+ */
+async function moveSearchLogs(
+  namespace: string,
+  handled: Set<string>,
+  batchSize: number,
+  result: ConversationMigrationResult,
+): Promise<BatchOutcome> {
+  const { records, exhausted } = await findRecords(
+    namespace,
+    { record_type: { $eq: "search_history" } },
+    handled,
+    batchSize,
+  )
+  const ids = records.map((record) => record.id)
+
+  await importSearchLogs(
+    records
+      .filter((record) => record.metadata.user_id && typeof record.metadata.query === "string")
+      .map(({ metadata }) => ({
+        user_id: metadata.user_id,
+        query: metadata.query,
+        search_type: metadata.search_type || "unknown",
+        filters:
+          typeof metadata.filters === "string" ? safeJsonParse(metadata.filters, {}) : metadata.filters || {},
+        result_count: Number(metadata.result_count) || 0,
+        created_at: metadata.created_at || new Date().toISOString(),
+      })),
+  )
+
+  if (ids.length > 0) {
+    await deleteVectors({ ids, namespace })
+  }
+
+  ids.forEach((id) => handled.add(id))
+  result.searchLogs += ids.length
+
+  return { moved: ids.length, retained: 0, exhausted }
+}
+
+/**
+ * Moves the conversations, messages and search logs of the vector index into the Supabase tables
+ * until none are left or the time budget is used up; run it again while the result is not complete
+ *
+ * @param options - Batch size and time budget
+ * @returns Records moved and whether the migration is complete
+ * @throws ConversationMigrationError if records cannot be listed
+ * @throws ConversationStoreError if records cannot be written to the tables
+ */
+export async function migrateConversationRecords(
+  options: { batchSize?: number; timeBudgetMs?: number } = {},
+): Promise<ConversationMigrationResult> {
+  const batchSize = Math.max(1, Math.min(options.batchSize ?? DEFAULT_BATCH_SIZE, 1000))
+  const deadline = Date.now() + (options.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS)
+  const namespaces = await listNamespaces()
+  // Records handled in this run, per namespace
+  const handled = new Map(namespaces.map((namespace) => [namespace, new Set<string>()]))
+  const result: ConversationMigrationResult = {
+    conversations: 0,
+    messages: 0,
+    searchLogs: 0,
+    orphanedMessages: 0,
+    complete: false,
+  }
+  // Record types whose records may not all have been seen in this run
+  const unfinished = new Set<RecordType>()
+
+  logger.info("Moving conversations, messages and search logs into Supabase", {
+    batchSize,
+    namespaces: namespaces.length,
+  })
+
+  for (const recordType of RECORD_TYPES) {
+    for (const namespace of namespaces) {
+      const seen = handled.get(namespace) as Set<string>
+
+      while (true) {
+        if (Date.now() >= deadline) {
+          logger.info("Conversation migration run stopped at its time budget", { ...result })
+          return result
+        }
+
+        const outcome =
+          recordType === "conversation"
+            ? await moveConversations(namespace, seen, batchSize, result)
+            : recordType === "message"
+              ? await moveMessages(namespace, seen, batchSize, result, !unfinished.has("conversation"))
+              : await moveSearchLogs(namespace, seen, batchSize, result)
+
+        if (outcome.retained > 0) {
+          unfinished.add(recordType)
+        }
+
+        if (outcome.moved + outcome.retained === 0) {
+          if (!outcome.exhausted) {
+            unfinished.add(recordType)
+          }
+          break
+        }
+
+        // A run that has seen as many records as one query returns leaves the rest to the next run
+        if (seen.size + batchSize > MAX_TOP_K) {
+          unfinished.add(recordType)
+          break
+        }
+      }
+    }
+  }
+
+  result.complete = unfinished.size === 0
+
+  logger.info("Conversation migration run finished", { ...result })
+
+  return result
+}
+
+/**
+ * Counts the conversations, messages and search logs still in the vector index
+ * The count stops at 10,000 per record type and namespace, the most records one query returns
+ *
+ * @returns Number of records waiting to be moved
+ * @throws ConversationMigrationError if a query fails
+ */
+export async function countPendingRecords(): Promise<number> {
+  const namespaces = await listNamespaces()
+  let pending = 0
+
+  for (const namespace of namespaces) {
+    const response = await queryVectors(createPlaceholderVector(), {
+      filter: { record_type: { $in: [...RECORD_TYPES] } },
+      includeMetadata: false,
+      topK: MAX_TOP_K,
+      namespace,
+    })
+
+    if (response.error) {
+      throw new ConversationMigrationError(`Failed to count records to migrate: ${response.errorMessage}`, {
+        code: "query_failed",
+        context: { namespace, status: response.status },
+      })
+    }
+
+    pending += response.matches?.length || 0
+  }
+
+  return pending
+}
@@ -0,0 +1,887 @@
+/**
+ * Conversation Store
+ *
+ * Relational storage for conversations, messages and search logs in Supabase tables. These
+ * records used to be placeholder vectors in Pinecone, where a metadata query returns an
+ * arbitrary top-K slice: lists came back unordered, counts were capped and pages overlapped.
+ * Postgres orders, counts and pages them exactly, and the vector index keeps only what
+ * retrieval needs.
+ *
+ * Lists are paged with keyset cursors rather than offsets, so a page stays correct while new
+ * conversations and messages are written. Messages are ordered by an identity column, since
+ * messages written in the same millisecond share a timestamp. A trigger keeps each
+ * conversation's message count, last message and activity time in step with its messages.
+ *
+ * Features:
+ * - Conversation lists with filters, sorting, exact totals and cursor pagination
+ * - Message history in insertion order with cursor pagination in both directions
+ * - Search logs for analytics
+ * - Import of the records kept in the vector index before these tables (see lib/conversation-migration)
+ * - Server-side access with the service role key
+ * - Edge runtime compatible (no Node.js specific modules)
+ *
+ * Dependencies:
+ * - @/lib/supabase-client for the service role client
+ * - @/lib/utils/logger for structured logging
+ *
+ * @module lib/conversation-store
+ */
+
+import type { PostgrestError, SupabaseClient } from "@supabase/supabase-js"
+import { getSupabaseServiceClient } from "@/lib/supabase-client"
+import { logger } from "@/lib/utils/logger"
+import type { Conversation, Message } from "@/types"
+import type { Database, Json } from "@/types/supabase"
+
+type ConversationRow = Database["public"]["Tables"]["conversations"]["Row"]
+type MessageRow = Database["public"]["Tables"]["messages"]["Row"]
+type SearchLogRow = Database["public"]["Tables"]["search_logs"]["Row"]
+
+// Rows read per request; PostgREST caps responses at 1000 rows by default
+const PAGE_SIZE = 1000
+
+export type ConversationSortField = "created_at" | "updated_at" | "title" | "message_count"
+export type SortDirection = "asc" | "desc"
+
+/**
+ * One page of a list, with the total across all pages
+ */
+export interface Page<T> {
+  items: T[]
+  total: number
+  // Cursor for the next page, or null on the last page
+  nextCursor: string | null
+}
+
+/**
+ * Options for listing a user's conversations
+ */
+export interface ConversationListOptions {
+  limit?: number
+  cursor?: string
+  sortBy?: ConversationSortField
+  sortDirection?: SortDirection
+  startDate?: string
+  endDate?: string
+  tags?: string[]
+  folder?: string
+  search?: string
+}
+
+/**
+ * Conversation fields that can be changed after creation
+ */
+export interface ConversationUpdate {
+  title?: string
+  tags?: string[]
+  folder?: string | null
+  is_pinned?: boolean
+}
+
+/**
+ * Message to store
+ */
+export interface NewMessage {
+  id: string
+  conversationId: string
+  userId: string
+  role: "user" | "assistant"
+  content: string
+  sources?: string[]
+  metadata?: Record<string, any>
+  createdAt?: string
+}
+
+/**
+ * Logged search
+ */
+export interface SearchLogEntry {
+  id: number
+  user_id: string
+  query: string
+  search_type: string
+  filters: Record<string, any>
+  result_count: number
+  created_at: string
+}
+
+/**
+ * Conversation store error class
+ */
+export class ConversationStoreError extends Error {
+  code: string
+  retryable: boolean
+  context?: Record<string, any>
+
+  constructor(
+    message: string,
+    options: {
+      code?: string
+      retryable?: boolean
+      context?: Record<string, any>
+    } = {},
+  ) {
+    super(message)
+    this.name = "ConversationStoreError"
+    this.code = options.code || "conversation_store_error"
+    this.retryable = options.retryable ?? false
+    this.context = options.context
+  }
+}
+
+/**
+ * Returns the service role Supabase client
+ *
+ * @returns Supabase client
+ * @throws ConversationStoreError if Supabase is not configured
+ */
+function getClient(): SupabaseClient<Database> {
+  const client = getSupabaseServiceClient()
+
+  if (!client) {
+    throw new ConversationStoreError("Supabase is not configured. Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY.", {
+      code: "store_not_configured",
+    })
+  }
+
+  return client
+}
+
+/**
+ * Converts a database error into a store error
+ * Connection failures, serialization failures and timeouts are worth retrying
+ *
+ * @param error - Error returned by Supabase
+ * @param operation - Operation that failed
+ * @param context - Identifiers for the log
+ * @returns Store error
+ */
+function toStoreError(
+  error: PostgrestError,
+  operation: string,
+  context: Record<string, any> = {},
+): ConversationStoreError {
+  const code = error.code || ""
+  const retryable = code === "" || code.startsWith("08") || code === "40001" || code === "57014"
+
+  logger.error(`${operation} failed`, { ...context, code, error: error.message, details: error.details })
+
+  return new ConversationStoreError(`${operation} failed: ${error.message}`, {
+    code: code === "23503" ? "conversation_not_found" : "database_error",
+    retryable,
+    context: { ...context, postgresCode: code },
+  })
+}
+
+/**
+ * Encodes the sort values of the last item of a page as an opaque cursor
+ *
+ * @param values - Sort values, ending with the unique tie-breaker
+ * @returns URL-safe cursor
+ */
+function encodeCursor(values: Array<string | number>): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(values))
+  let binary = ""
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte)
+  })
+
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+/**
+ * Decodes a cursor created by encodeCursor
+ *
+ * @param cursor - Cursor from a previous page
+ * @param length - Number of sort values expected
+ * @returns Sort values
+ * @throws ConversationStoreError if the cursor is malformed
+ */
+function decodeCursor(cursor: string, length: number): Array<string | number> {
+  try {
+    const binary = atob(cursor.replace(/-/g, "+").replace(/_/g, "/"))
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0))
+    const values = JSON.parse(new TextDecoder().decode(bytes))
+
+    if (Array.isArray(values) && values.length === length) {
+      return values
+    }
+  } catch {
+    // Reported below
+  }
+
+  throw new ConversationStoreError("Invalid pagination cursor", { code: "invalid_cursor", context: { cursor } })
+}
+
+/**
+ * Quotes a value for a PostgREST logical filter, where commas, dots and parentheses are reserved
+ *
+ * @param value - Filter value
+ * @returns Double-quoted, escaped value
+ */
+function quoteFilterValue(value: string | number): string {
+  return `"${String(value).replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`
+}
+
+/**
+ * Escapes the wildcards of a LIKE pattern
+ *
+ * @param text - Text to match literally
+ * @returns Escaped text
+ */
+function escapeLikePattern(text: string): string {
+  return text.replace(/[\\%_*]/g, (char) => `\\${char}`)
+}
+
+/**
+ * Converts a conversation row into the API shape
+ *
+ * @param row - Conversation row
+ * @returns Conversation
+ */
+function toConversation(row: ConversationRow): Conversation {
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    title: row.title,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    message_count: row.message_count,
+    tags: row.tags || [],
+    folder: row.folder,
+    last_message: row.last_message,
+    is_pinned: row.is_pinned,
+  }
+}
+
+/**
+ * Converts a message row into the API shape
+ *
+ * @param row - Message row
+ * @returns Message
+ */
+function toMessage(row: MessageRow): Message {
+  return {
+    id: row.id,
+    conversation_id: row.conversation_id,
+    role: row.role as Message["role"],
+    content: row.content,
+    created_at: row.created_at,
+    sources: row.sources || [],
+    metadata: (row.metadata as Record<string, any>) || {},
+  }
+}
+
+/**
+ * Reads rows in pages until the limit is reached or the rows run out
+ *
+ * @param read - Reads the rows in an inclusive index range
+ * @param limit - Maximum number of rows
+ * @param operation - Operation name for errors
+ * @returns Rows in query order
+ */
+async function readPages<T>(
+  read: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: PostgrestError | null }>,
+  limit: number,
+  operation: string,
+): Promise<T[]> {
+  const rows: T[] = []
+
+  while (rows.length < limit) {
+    const size = Math.min(PAGE_SIZE, limit - rows.length)
+    const { data, error } = await read(rows.length, rows.length + size - 1)
+
+    if (error) {
+      throw toStoreError(error, operation)
+    }
+
+    rows.push(...(data || []))
+    if (!data || data.length < size) {
+      break
+    }
+  }
+
+  return rows
+}
+
+/**
+ * Builds a query over a user's conversations with the list filters applied
+ *
+ * @param userId - Owner of the conversations
+ * @param options - List filters
+ * @param countOnly - Whether to count the rows instead of returning them
+ * @param after - Logical filter selecting the rows after a cursor
+ * @returns Query builder
+ */
+function queryConversations(userId: string, options: ConversationListOptions, countOnly: boolean, after?: string) {
+  let query = getClient()
+    .from("conversations")
+    .select("*", countOnly ? { count: "exact", head: true } : undefined)
+    .eq("user_id", userId)
+
+  if (options.startDate) {
+    query = query.gte("created_at", options.startDate)
+  }
+
+  if (options.endDate) {
+    query = query.lte("created_at", options.endDate)
+  }
+
+  if (options.tags && options.tags.length > 0) {
+    query = query.overlaps("tags", options.tags)
+  }
+
+  if (options.folder) {
+    query = query.eq("folder", options.folder)
+  }
+
+  // PostgREST takes one or= parameter, so the search and the cursor are nested into one filter
+  const conditions: string[] = []
+
+  if (options.search) {
+    const pattern = quoteFilterValue(`*${escapeLikePattern(options.search)}*`)
+    conditions.push(`title.ilike.${pattern},last_message.ilike.${pattern}`)
+  }
+
+  if (after) {
+    conditions.push(after)
+  }
+
+  if (conditions.length === 1) {
+    query = query.or(conditions[0])
+  } else if (conditions.length > 1) {
+    query = query.or(`and(${conditions.map((condition) => `or(${condition})`).join(",")})`)
+  }
+
+  return query
+}
+
+/**
+ * Lists a user's conversations
+ *
+ * @param userId - Owner of the conversations
+ * @param options - Filters, sort order, page size and the cursor of the previous page
+ * @returns One page of conversations with the total matching the filters
+ * @throws ConversationStoreError if the cursor is invalid or the query fails
+ */
+export async function listConversations(
+  userId: string,
+  options: ConversationListOptions = {},
+): Promise<Page<Conversation>> {
+  const { limit = 20, sortBy = "updated_at", sortDirection = "desc" } = options
+  const ascending = sortDirection === "asc"
+
+  let after: string | undefined
+
+  if (options.cursor) {
+    // Rows after the cursor in sort order, with the ID breaking ties
+    const [value, id] = decodeCursor(options.cursor, 2)
+    const operator = ascending ? "gt" : "lt"
+    after =
+      `${sortBy}.${operator}.${quoteFilterValue(value)},` +
+      `and(${sortBy}.eq.${quoteFilterValue(value)},id.${operator}.${quoteFilterValue(id)})`
+  }
+
+  const [rows, count] = await Promise.all([
+    queryConversations(userId, options, false, after)
+      .order(sortBy, { ascending })
+      .order("id", { ascending })
+      .limit(limit + 1),
+    queryConversations(userId, options, true),
+  ])
+
+  if (rows.error) {
+    throw toStoreError(rows.error, "List conversations", { userId })
+  }
+
+  if (count.error) {
+    throw toStoreError(count.error, "Count conversations", { userId })
+  }
+
+  const items = (rows.data || []).slice(0, limit)
+  const last = items[items.length - 1]
+
+  return {
+    items: items.map(toConversation),
+    total: count.count || 0,
+    nextCursor: (rows.data || []).length > limit && last ? encodeCursor([last[sortBy], last.id]) : null,
+  }
+}
+
+/**
+ * Lists a user's conversations created in a time range, newest first, for analytics
+ *
+ * @param userId - Owner of the conversations
+ * @param options - Optional creation time range (from inclusive, to exclusive) and a row limit
+ * @returns Conversations
+ * @throws ConversationStoreError if the query fails
+ */
+export async function listUserConversations(
+  userId: string,
+  options: { from?: string; to?: string; limit?: number } = {},
+): Promise<Conversation[]> {
+  const rows = await readPages<ConversationRow>(
+    (from, to) => {
+      let query = getClient().from("conversations").select("*").eq("user_id", userId)
+      if (options.from) {
+        query = query.gte("created_at", options.from)
+      }
+      if (options.to) {
+        query = query.lt("created_at", options.to)
+      }
+      return query.order("created_at", { ascending: false }).order("id", { ascending: false }).range(from, to)
+    },
+    options.limit ?? PAGE_SIZE,
+    "List user conversations",
+  )
+
+  return rows.map(toConversation)
+}
+
+/**
+ * Reads a conversation
+ *
+ * @param id - Conversation ID
+ * @returns Conversation, or null if it does not exist
+ * @throws ConversationStoreError if the query fails
+ */
+export async function getConversation(id: string): Promise<Conversation | null> {
+  const { data, error } = await getClient().from("conversations").select("*").eq("id", id).maybeSingle()
+
+  if (error) {
+    throw toStoreError(error, "Get conversation", { conversationId: id })
+  }
+
+  return data ? toConversation(data) : null
+}
+
+/**
+ * Creates a conversation
+ *
+ * @param conversation - ID, owner, title and optional tags and folder
+ * @returns Created conversation
+ * @throws ConversationStoreError if the insert fails
+ */
+export async function createConversation(conversation: {
+  id: string
+  userId: string
+  title?: string
+  tags?: string[]
+  folder?: string | null
+}): Promise<Conversation> {
+  const { data, error } = await getClient()
+    .from("conversations")
+    .insert({
+      id: conversation.id,
+      user_id: conversation.userId,
+      ...(conversation.title && { title: conversation.title }),
+      tags: conversation.tags || [],
+      folder: conversation.folder ?? null,
+    })
+    .select("*")
+    .single()
+
+  if (error) {
+    throw toStoreError(error, "Create conversation", { conversationId: conversation.id })
+  }
+
+  return toConversation(data)
+}
+
+/**
+ * Returns a conversation, creating it if a client starts chatting under a new ID
+ *
+ * @param id - Conversation ID
+ * @param userId - Owner of the conversation
+ * @param title - Title for a new conversation
+ * @returns Existing or created conversation
+ * @throws ConversationStoreError if the conversation belongs to another user or the write fails
+ */
+export async function ensureConversation(id: string, userId: string, title?: string): Promise<Conversation> {
+  const { error } = await getClient()
+    .from("conversations")
+    .upsert({ id, user_id: userId, ...(title && { title }) }, { onConflict: "id", ignoreDuplicates: true })
+
+  if (error) {
+    throw toStoreError(error, "Create conversation", { conversationId: id })
+  }
+
+  const conversation = await getConversation(id)
+
+  if (!conversation || conversation.user_id !== userId) {
+    throw new ConversationStoreError(`Conversation not found: ${id}`, {
+      code: "conversation_not_found",
+      context: { conversationId: id },
+    })
+  }
+
+  return conversation
+}
+
+/**
+ * Updates the editable fields of a conversation
+ *
+ * @param id - Conversation ID
+ * @param changes - Fields to change
+ * @returns Updated conversation, or null if it does not exist
+ * @throws ConversationStoreError if the update fails
+ */
+export async function updateConversation(id: string, changes: ConversationUpdate): Promise<Conversation | null> {
+  const { data, error } = await getClient()
+    .from("conversations")
+    .update({
+      ...(changes.title !== undefined && { title: changes.title }),
+      ...(changes.tags !== undefined && { tags: changes.tags }),
+      ...(changes.folder !== undefined && { folder: changes.folder }),
+      ...(changes.is_pinned !== undefined && { is_pinned: changes.is_pinned }),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", id)
+    .select("*")
+    .maybeSingle()
+
+  if (error) {
+    throw toStoreError(error, "Update conversation", { conversationId: id })
+  }
+
+  return data ? toConversation(data) : null
+}
+
+/**
+ * Deletes conversations together with their messages
+ *
+ * @param ids - Conversation IDs
+ * @returns Number of conversations deleted
+ * @throws ConversationStoreError if the delete fails
+ */
+export async function deleteConversations(ids: string[]): Promise<number> {
+  if (ids.length === 0) {
+    return 0
+  }
+
+  // Messages go with their conversation through the foreign key
+  const { data, error } = await getClient().from("conversations").delete().in("id", ids).select("id")
+
+  if (error) {
+    throw toStoreError(error, "Delete conversations", { conversationCount: ids.length })
+  }
+
+  return (data || []).length
+}
+
+/**
+ * Lists the messages of a conversation
+ *
+ * @param conversationId - Conversation ID
+ * @param options - Page size, the cursor of the previous page, and "asc" for oldest first (default) or "desc"
+ * @returns One page of messages with the conversation's message total
+ * @throws ConversationStoreError if the cursor is invalid or the query fails
+ */
+export async function listMessages(
+  conversationId: string,
+  options: { limit?: number; cursor?: string; order?: SortDirection } = {},
+): Promise<Page<Message>> {
+  const { limit = 50, order = "asc" } = options
+  const ascending = order === "asc"
+
+  let query = getClient().from("messages").select("*").eq("conversation_id", conversationId)
+
+  if (options.cursor) {
+    const [seq] = decodeCursor(options.cursor, 1)
+    query = ascending ? query.gt("seq", Number(seq)) : query.lt("seq", Number(seq))
+  }
+
+  const [rows, count] = await Promise.all([
+    query.order("seq", { ascending }).limit(limit + 1),
+    getClient()
+      .from("messages")
+      .select("*", { count: "exact", head: true })
+      .eq("conversation_id", conversationId),
+  ])
+
+  if (rows.error) {
+    throw toStoreError(rows.error, "List messages", { conversationId })
+  }
+
+  if (count.error) {
+    throw toStoreError(count.error, "Count messages", { conversationId })
+  }
+
+  const items = (rows.data || []).slice(0, limit)
+  const last = items[items.length - 1]
+
+  return {
+    items: items.map(toMessage),
+    total: count.count || 0,
+    nextCursor: (rows.data || []).length > limit && last ? encodeCursor([last.seq]) : null,
+  }
+}
+
+/**
+ * Reads the latest messages of a conversation, for the model's chat history
+ *
+ * @param conversationId - Conversation ID
+ * @param limit - Number of messages
+ * @returns Messages, oldest first
+ * @throws ConversationStoreError if the query fails
+ */
+export async function getRecentMessages(conversationId: string, limit: number): Promise<Message[]> {
+  const { data, error } = await getClient()
+    .from("messages")
+    .select("*")
+    .eq("conversation_id", conversationId)
+    .order("seq", { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    throw toStoreError(error, "Read conversation history", { conversationId })
+  }
+
+  return (data || []).reverse().map(toMessage)
+}
+
+/**
+ * Stores a message; the conversation's count and last message follow through a trigger
+ *
+ * @param message - Message to store
+ * @returns Stored message
+ * @throws ConversationStoreError with code conversation_not_found if the conversation does not exist
+ */
+export async function addMessage(message: NewMessage): Promise<Message> {
+  const { data, error } = await getClient()
+    .from("messages")
+    .insert({
+      id: message.id,
+      conversation_id: message.conversationId,
+      user_id: message.userId,
+      role: message.role,
+      content: message.content,
+      sources: message.sources || [],
+      metadata: (message.metadata || {}) as Json,
+      ...(message.createdAt && { created_at: message.createdAt }),
+    })
+    .select("*")
+    .single()
+
+  if (error) {
+    throw toStoreError(error, "Store message", { conversationId: message.conversationId, messageId: message.id })
+  }
+
+  return toMessage(data)
+}
+
+/**
+ * Records a search for analytics
+ *
+ * @param entry - User, query, search type, filters and number of results
+ * @throws ConversationStoreError if the insert fails
+ */
+export async function logSearch(entry: {
+  userId: string
+  query: string
+  searchType: string
+  filters?: Record<string, any>
+  resultCount: number
+}): Promise<void> {
+  const { error } = await getClient()
+    .from("search_logs")
+    .insert({
+      user_id: entry.userId,
+      query: entry.query,
+      search_type: entry.searchType,
+      // Dates and undefined values are normalised the way JSON responses would show them
+      filters: JSON.parse(JSON.stringify(entry.filters || {})) as Json,
+      result_count: entry.resultCount,
+    })
+
+  if (error) {
+    throw toStoreError(error, "Log search", { userId: entry.userId })
+  }
+}
+
+/**
+ * Lists a user's searches, newest first
+ *
+ * @param userId - User ID
+ * @param options - Optional creation time range (from inclusive, to exclusive) and a row limit
+ * @returns Logged searches
+ * @throws ConversationStoreError if the query fails
+ */
+export async function listSearchLogs(
+  userId: string,
+  options: { from?: string; to?: string; limit?: number } = {},
+): Promise<SearchLogEntry[]> {
+  const rows = await readPages<SearchLogRow>(
+    (from, to) => {
+      let query = getClient().from("search_logs").select("*").eq("user_id", userId)
+      if (options.from) {
+        query = query.gte("created_at", options.from)
+      }
+      if (options.to) {
+        query = query.lt("created_at", options.to)
+      }
+      return query.order("created_at", { ascending: false }).order("id", { ascending: false }).range(from, to)
+    },
+    options.limit ?? PAGE_SIZE,
+    "List search logs",
+  )
+
+  return rows.map((row) => ({ ...row, filters: (row.filters as Record<string, any>) || {} }))
+}
+
+/**
+ * Lists the messages a user sent or received, oldest first
+ *
+ * @param userId - User ID
+ * @param options - Optional creation time range (from inclusive, to exclusive) and a row limit
+ * @returns Messages
+ * @throws ConversationStoreError if the query fails
+ */
+export async function listUserMessages(
+  userId: string,
+  options: { from?: string; to?: string; limit?: number } = {},
+): Promise<Message[]> {
+  const rows = await readPages<MessageRow>(
+    (from, to) => {
+      let query = getClient().from("messages").select("*").eq("user_id", userId)
+      if (options.from) {
+        query = query.gte("created_at", options.from)
+      }
+      if (options.to) {
+        query = query.lt("created_at", options.to)
+      }
+      return query.order("seq", { ascending: true }).range(from, to)
+    },
+    options.limit ?? PAGE_SIZE,
+    "List user messages",
+  )
+
+  return rows.map(toMessage)
+}
+
+/**
+ * Copies conversations kept in the vector index into the table
+ * Conversations already in the table are left as they are. Message counts and last messages start
+ * empty and follow the messages imported after them.
+ *
+ * @param conversations - Conversations as read from the index
+ * @throws ConversationStoreError if the insert fails
+ */
+export async function importConversations(conversations: Conversation[]): Promise<void> {
+  if (conversations.length === 0) {
+    return
+  }
+
+  const { error } = await getClient()
+    .from("conversations")
+    .upsert(
+      conversations.map((conversation) => ({
+        id: conversation.id,
+        user_id: conversation.user_id,
+        title: conversation.title,
+        tags: conversation.tags || [],
+        folder: conversation.folder ?? null,
+        is_pinned: conversation.is_pinned ?? false,
+        created_at: conversation.created_at,
+        updated_at: conversation.updated_at,
+      })),
+      { onConflict: "id", ignoreDuplicates: true },
+    )
+
+  if (error) {
+    throw toStoreError(error, "Import conversations", { count: conversations.length })
+  }
+}
+
+/**
+ * Returns which of the given conversations exist
+ *
+ * @param ids - Conversation IDs
+ * @returns IDs of the conversations in the table
+ * @throws ConversationStoreError if the query fails
+ */
+export async function findConversationIds(ids: string[]): Promise<Set<string>> {
+  const found = new Set<string>()
+
+  for (let i = 0; i < ids.length; i += PAGE_SIZE) {
+    const { data, error } = await getClient()
+      .from("conversations")
+      .select("id")
+      .in("id", ids.slice(i, i + PAGE_SIZE))
+
+    if (error) {
+      throw toStoreError(error, "Find conversations", { count: ids.length })
+    }
+
+    for (const row of data || []) {
+      found.add(row.id)
+    }
+  }
+
+  return found
+}
+
+/**
+ * Copies the messages of one conversation kept in the vector index into the table, oldest first
+ * Messages are ordered by insertion, so they go in as one statement in creation order; messages
+ * already in the table are skipped
+ *
+ * @param messages - Messages of one conversation as read from the index
+ * @throws ConversationStoreError if the conversation does not exist or the insert fails
+ */
+export async function importMessages(messages: NewMessage[]): Promise<void> {
+  if (messages.length === 0) {
+    return
+  }
+
+  const sorted = [...messages].sort((a, b) => (a.createdAt || "").localeCompare(b.createdAt || ""))
+
+  const { error } = await getClient()
+    .from("messages")
+    .upsert(
+      sorted.map((message) => ({
+        id: message.id,
+        conversation_id: message.conversationId,
+        user_id: message.userId,
+        role: message.role,
+        content: message.content,
+        sources: message.sources || [],
+        metadata: (message.metadata || {}) as Json,
+        ...(message.createdAt && { created_at: message.createdAt }),
+      })),
+      { onConflict: "id", ignoreDuplicates: true },
+    )
+
+  if (error) {
+    throw toStoreError(error, "Import messages", { conversationId: messages[0].conversationId, count: messages.length })
+  }
+}
+
+/**
+ * Copies search logs kept in the vector index into the table
+ *
+ * @param entries - Searches as read from the index
+ * @throws ConversationStoreError if the insert fails
+ */
+export async function importSearchLogs(entries: Array<Omit<SearchLogEntry, "id">>): Promise<void> {
+  if (entries.length === 0) {
+    return
+  }
+
+  const { error } = await getClient()
+    .from("search_logs")
+    .insert(
+      entries.map((entry) => ({
+        user_id: entry.user_id,
+        query: entry.query,
+        search_type: entry.search_type,
+        filters: entry.filters as Json,
+        result_count: entry.result_count,
+        created_at: entry.created_at,
+      })),
+    )
+
+  if (error) {
+    throw toStoreError(error, "Import search logs", { count: entries.length })
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Cron Authentication
+ *
+ * Guards the operator routes that act on every user's data: the job worker, the namespace and
+ * embedding migrations and the consistency check. Requests must carry CRON_SECRET as a bearer
+ * token, which Vercel Cron sends automatically. The routes fail closed: when CRON_SECRET is not
+ * set, every request is refused.
+ *
+ * Dependencies:
+ * - @/utils/errorHandling for the error reported to the caller
+ *
+ * @module lib/cron-auth
+ */
+
+import { AuthError } from "@/utils/errorHandling"
+
+/**
+ * Checks the bearer token of a request against CRON_SECRET
+ *
+ * @param request - Incoming request
+ * @throws AuthError if CRON_SECRET is not set or the token does not match
+ */
+export function assertCronAccess(request: Request): void {
+  const secret = process.env.CRON_SECRET
+
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    throw new AuthError("Invalid cron credentials")
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Document Deduplication
+ *
+ * Detects uploads of a file the user already has. Every document stores the SHA-256 hash of
+ * its file bytes as `content_hash`; an upload whose hash matches an existing document of the
+ * same user is reported as a duplicate, and the user decides whether to link to the existing
+ * document, replace it, or keep both. Kept duplicates record the document they copy in
+ * `duplicate_of` so the document list can show the relationship.
+ *
+ * Features:
+ * - Content hashes of uploaded files
+ * - Lookup of a user's documents by content hash
+ * - Resolution choices for duplicate uploads
+ * - Edge runtime compatible (no Node.js specific modules)
+ *
+ * Dependencies:
+ * - @/lib/vector-store for document lookups
+ * - @/lib/utils/hash-utils for SHA-256 hashing
+ *
+ * @module lib/document-dedup
+ */
+
+import { createPlaceholderVector, getUserNamespace, queryVectors } from "@/lib/vector-store"
+import { sha256Hex } from "@/lib/utils/hash-utils"
+import type { Document } from "@/types"
+
+// Upper bound on documents read for one hash
+const MAX_DUPLICATES = 100
+
+/**
+ * What to do with an upload that matches an existing document
+ * - link: keep the existing document and discard the upload
+ * - replace: delete the existing document and index the upload in its place
+ * - keep_both: index the upload as a separate document marked as a duplicate
+ */
+export type DuplicateResolution = "link" | "replace" | "keep_both"
+
+const DUPLICATE_RESOLUTIONS: DuplicateResolution[] = ["link", "replace", "keep_both"]
+
+/**
+ * Summary of an existing document an upload duplicates
+ */
+export interface DuplicateDocument {
+  id: string
+  name: string
+  status: Document["status"]
+  file_size: number
+  created_at: string
+}
+
+/**
+ * Error raised when the documents with a content hash cannot be looked up
+ */
+export class DuplicateCheckError extends Error {
+  code: string
+  retryable: boolean
+  context?: Record<string, any>
+
+  constructor(
+    message: string,
+    options: {
+      code?: string
+      retryable?: boolean
+      context?: Record<string, any>
+    } = {},
+  ) {
+    super(message)
+    this.name = "DuplicateCheckError"
+    this.code = options.code || "duplicate_check_failed"
+    this.retryable = options.retryable ?? false
+    this.context = options.context
+  }
+}
+
+/**
+ * Whether a value is a valid duplicate resolution
+ *
+ * @param value - Value from a request
+ * @returns True if the value names a resolution
+ */
+export function isDuplicateResolution(value: unknown): value is DuplicateResolution {
+  return typeof value === "string" && DUPLICATE_RESOLUTIONS.includes(value as DuplicateResolution)
+}
+
+/**
+ * Computes the content hash of a file
+ *
+ * @param data - File bytes
+ * @returns Lowercase hex SHA-256 digest
+ */
+export async function computeContentHash(data: ArrayBuffer | Uint8Array): Promise<string> {
+  return sha256Hex(data)
+}
+
+/**
+ * Finds a user's documents with the given content hash, oldest first
+ *
+ * @param userId - User ID
+ * @param contentHash - Content hash of the uploaded file
+ * @param options - Document to leave out (the upload itself)
+ * @returns Documents with the same content
+ * @throws DuplicateCheckError if the lookup fails, since an empty result would wrongly report no duplicates
+ */
+export async function findDuplicateDocuments(
+  userId: string,
+  contentHash: string,
+  options: { excludeId?: string } = {},
+): Promise<DuplicateDocument[]> {
+  const response = await queryVectors(createPlaceholderVector(), {
+    filter: {
+      record_type: { $eq: "document" },
+      user_id: { $eq: userId },
+      content_hash: { $eq: contentHash },
+    },
+    includeMetadata: true,
+    topK: MAX_DUPLICATES,
+    namespace: getUserNamespace(userId),
+  })
+
+  if (response.error) {
+    throw new DuplicateCheckError(`Failed to look up documents by content hash: ${response.errorMessage}`, {
+      code: "query_failed",
+      retryable: true,
+      context: { userId, contentHash },
+    })
+  }
+
+  return (response.matches || [])
+    .filter((match) => match.id !== options.excludeId)
+    .map((match) => ({
+      id: match.id,
+      name: (match.metadata?.name as string) || "",
+      status: (match.metadata?.status as Document["status"]) || "processing",
+      file_size: (match.metadata?.file_size as number) || 0,
+      created_at: (match.metadata?.created_at as string) || "",
+    }))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+}
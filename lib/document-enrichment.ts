@@ -0,0 +1,253 @@
+/**
+ * Document Enrichment
+ *
+ * Asks the LLM for a short summary, suggested tags and the language of a document while it
+ * is ingested. The summary, tags and language are stored on the document record; tags and
+ * language are also written to every chunk vector (`tags`, `document_language`) so search
+ * can filter on them. The `language` field on chunks is already taken by the programming
+ * language of source files.
+ *
+ * Enrichment is best-effort: a failed or disabled enrichment never fails ingestion.
+ *
+ * Features:
+ * - Sample of the document spread over its beginning, middle and end
+ * - JSON mode chat completion with retries on rate limits and server errors
+ * - Normalised tags (lowercase, hyphenated, de-duplicated) and ISO 639-1 language codes
+ * - Refreshing tags on chunks that were kept from an earlier run
+ * - Edge runtime compatible (no Node.js specific modules)
+ *
+ * Dependencies:
+ * - OpenAI API for the chat completion
+ * - @/lib/vector-store for updating chunk metadata
+ * - @/lib/error-handler for retries
+ * - @/lib/utils/logger for structured logging
+ *
+ * @module lib/document-enrichment
+ */
+
+import { logger } from "@/lib/utils/logger"
+import { updateVectorMetadata } from "@/lib/vector-store"
+import { withRetry } from "@/lib/error-handler"
+import { safeJsonParse } from "@/lib/utils/json-utils"
+import type { Chunk } from "@/lib/chunking-utils"
+
+// Model used for enrichment, overridable per deployment
+const ENRICHMENT_MODEL = process.env.DOCUMENT_ENRICHMENT_MODEL || "gpt-4o-mini"
+
+// Characters of document text sent to the model
+const MAX_SAMPLE_LENGTH = 12000
+
+const MAX_SUMMARY_LENGTH = 600
+const MAX_TAGS = 8
+const MAX_TAG_LENGTH = 32
+
+// Language code stored when the model cannot tell
+const UNDETERMINED_LANGUAGE = "und"
+
+const ENRICHMENT_PROMPT = `You describe documents for a search index.
+Reply with a JSON object with these fields:
+- "summary": two or three sentences on what the document covers, in the document's language
+- "tags": up to ${MAX_TAGS} short lowercase topic tags in English, most specific first
+- "language": ISO 639-1 code of the document's main natural language, or "${UNDETERMINED_LANGUAGE}" if unclear`
+
+/**
+ * Summary, tags and language of a document
+ */
+export interface DocumentEnrichment {
+  summary: string
+  tags: string[]
+  language: string
+}
+
+/**
+ * Enrichment error class
+ */
+export class EnrichmentError extends Error {
+  code: string
+  retryable: boolean
+  context?: Record<string, any>
+
+  constructor(
+    message: string,
+    options: {
+      code?: string
+      retryable?: boolean
+      context?: Record<string, any>
+    } = {},
+  ) {
+    super(message)
+    this.name = "EnrichmentError"
+    this.code = options.code || "enrichment_error"
+    this.retryable = options.retryable ?? false
+    this.context = options.context
+  }
+}
+
+/**
+ * Whether documents are enriched during ingestion
+ * Set DOCUMENT_ENRICHMENT=false to turn it off
+ *
+ * @returns True if enrichment is enabled and an API key is configured
+ */
+export function isEnrichmentEnabled(): boolean {
+  return process.env.DOCUMENT_ENRICHMENT !== "false" && !!process.env.OPENAI_API_KEY
+}
+
+/**
+ * Normalises a tag to lowercase words joined by hyphens
+ *
+ * @param tag - Tag from the model or a search filter
+ * @returns Normalised tag, empty if nothing is left
+ */
+export function normalizeTag(tag: string): string {
+  return tag
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, MAX_TAG_LENGTH)
+}
+
+/**
+ * Normalises a list of tags, dropping empty and repeated ones
+ *
+ * @param tags - Tags from the model
+ * @returns Up to MAX_TAGS normalised tags
+ */
+export function normalizeTags(tags: unknown): string[] {
+  if (!Array.isArray(tags)) {
+    return []
+  }
+
+  const normalized = tags.filter((tag): tag is string => typeof tag === "string").map(normalizeTag)
+
+  return Array.from(new Set(normalized.filter(Boolean))).slice(0, MAX_TAGS)
+}
+
+/**
+ * Normalises a language code to ISO 639-1
+ *
+ * @param language - Code from the model, e.g. "en" or "en-US"
+ * @returns Two-letter code, or "und" if the value is not one
+ */
+export function normalizeLanguage(language: unknown): string {
+  const code = typeof language === "string" ? language.trim().toLowerCase().split(/[-_]/)[0] : ""
+  return /^[a-z]{2}$/.test(code) ? code : UNDETERMINED_LANGUAGE
+}
+
+/**
+ * Builds the text sent to the model from chunks spread over the whole document
+ * Long documents contribute their beginning, middle and end rather than only the first pages
+ *
+ * @param chunks - Document chunks in order
+ * @param maxLength - Maximum sample length in characters
+ * @returns Sample text
+ */
+export function buildEnrichmentSample(chunks: Chunk[], maxLength = MAX_SAMPLE_LENGTH): string {
+  const total = chunks.reduce((sum, chunk) => sum + chunk.text.length, 0)
+
+  if (total <= maxLength) {
+    return chunks.map((chunk) => chunk.text).join("\n\n")
+  }
+
+  const picks = [0, Math.floor(chunks.length / 2), chunks.length - 1]
+  const order = Array.from(new Set(picks.flatMap((start) => [start, start + 1, start + 2])))
+    .filter((index) => index < chunks.length)
+    .sort((a, b) => a - b)
+
+  const budget = Math.floor(maxLength / order.length)
+  return order.map((index) => chunks[index].text.slice(0, budget)).join("\n\n[...]\n\n")
+}
+
+/**
+ * Asks the model for a document's summary, tags and language
+ *
+ * @param name - Document name, a useful hint for short documents
+ * @param chunks - Document chunks in order
+ * @returns Enrichment
+ * @throws EnrichmentError if the model call fails or returns no usable summary
+ */
+export async function enrichDocument(name: string, chunks: Chunk[]): Promise<DocumentEnrichment> {
+  const apiKey = process.env.OPENAI_API_KEY
+  if (!apiKey) {
+    throw new EnrichmentError("OPENAI_API_KEY is not defined", { code: "missing_api_key" })
+  }
+
+  const sample = buildEnrichmentSample(chunks)
+
+  const content = await withRetry(
+    async () => {
+      const response = await fetch("https://api.openai.com/v1/chat/completions", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify({
+          model: ENRICHMENT_MODEL,
+          temperature: 0,
+          response_format: { type: "json_object" },
+          messages: [
+            { role: "system", content: ENRICHMENT_PROMPT },
+            { role: "user", content: `Document name: ${name}\n\n${sample}` },
+          ],
+        }),
+      })
+
+      if (!response.ok) {
+        throw new EnrichmentError(`OpenAI API error: ${response.status} ${response.statusText}`, {
+          code: "completion_failed",
+          retryable: response.status === 429 || response.status >= 500,
+          context: { status: response.status },
+        })
+      }
+
+      const result = await response.json()
+      return result.choices?.[0]?.message?.content as string | undefined
+    },
+    {
+      maxRetries: 2,
+      shouldRetry: (error) => error instanceof EnrichmentError && error.retryable,
+    },
+  )
+
+  const parsed = safeJsonParse<Record<string, unknown>>(content || "", {})
+  const summary = typeof parsed.summary === "string" ? parsed.summary.trim().slice(0, MAX_SUMMARY_LENGTH) : ""
+
+  if (!summary) {
+    throw new EnrichmentError("Model returned no summary", {
+      code: "invalid_response",
+      context: { response: (content || "").slice(0, 200) },
+    })
+  }
+
+  return {
+    summary,
+    tags: normalizeTags(parsed.tags),
+    language: normalizeLanguage(parsed.language),
+  }
+}
+
+/**
+ * Writes tags and language onto chunk vectors that were stored by an earlier run
+ *
+ * @param chunkIds - IDs of the chunk vectors
+ * @param enrichment - Enrichment to write
+ * @param options - Namespace holding the vectors
+ */
+export async function applyEnrichmentToChunks(
+  chunkIds: string[],
+  enrichment: DocumentEnrichment,
+  options: { namespace: string },
+): Promise<void> {
+  const timestamp = new Date().toISOString()
+
+  for (const id of chunkIds) {
+    await updateVectorMetadata(
+      id,
+      { tags: enrichment.tags, document_language: enrichment.language, updated_at: timestamp },
+      options,
+    )
+  }
+
+  logger.info(`Refreshed enrichment on ${chunkIds.length} stored chunks`, { chunkCount: chunkIds.length })
+}
@@ -0,0 +1,578 @@
+/**
+ * Document Extraction
+ *
+ * Converts uploaded files into text segments that the chunking pipeline can work with.
+ * Each supported format has its own extractor; the dispatcher picks one based on
+ * the MIME type or file extension.
+ *
+ * Features:
+ * - Plain text passthrough
+ * - PDF text extraction with one segment per page so chunks keep their page number
+ * - DOCX and ODT conversion to markdown so headings, lists and tables reach the chunker
+ * - HTML conversion to markdown with boilerplate removal, keeping the page title and canonical URL
+ * - CSV and XLSX tables extracted row by row so chunks keep whole rows under their header
+ * - Source files and zipped repositories split on function and class boundaries
+ * - Typed extraction errors that can be reported through processing progress updates
+ * - Edge Runtime compatible (no Node.js specific modules)
+ *
+ * Dependencies:
+ * - unpdf for PDF parsing (serverless build of PDF.js)
+ * - @/lib/office-extraction for word processing documents
+ * - @/lib/html-extraction for web pages
+ * - @/lib/spreadsheet-extraction for CSV files and workbooks
+ * - @/lib/repository-extraction and @/lib/code-chunking for source code
+ * - @/lib/chunking-utils for segment types
+ * - @/lib/utils/logger for structured logging
+ *
+ * @module lib/document-extraction
+ */
+
+import { extractText, getDocumentProxy } from "unpdf"
+import type { ContentSegment } from "@/lib/chunking-utils"
+import { convertDocxToMarkdown, convertOdtToMarkdown } from "@/lib/office-extraction"
+import { convertHtmlToMarkdown, type HtmlConversionResult } from "@/lib/html-extraction"
+import { convertCsvToTables, convertXlsxToTables, type SheetTable } from "@/lib/spreadsheet-extraction"
+import { readRepositoryArchive, type RepositoryContents, type SkippedRepositoryFile } from "@/lib/repository-extraction"
+import { detectCodeLanguage, getCodeExtensions } from "@/lib/code-chunking"
+import { renderTable } from "@/lib/utils/markdown-utils"
+import { logger } from "@/lib/utils/logger"
+
+// Supported document formats
+export type DocumentFormat = "text" | "pdf" | "docx" | "odt" | "html" | "csv" | "xlsx" | "code" | "repository"
+
+/**
+ * Result of extracting a document
+ */
+export interface ExtractedDocument {
+  format: DocumentFormat
+  text: string
+  segments: ContentSegment[]
+  pageCount?: number
+  title?: string
+  canonicalUrl?: string
+  fileCount?: number
+  skippedFiles?: SkippedRepositoryFile[]
+}
+
+/**
+ * Options for document extraction
+ */
+export interface ExtractionOptions {
+  fileType: string
+  fileName?: string
+}
+
+// Largest single document accepted for upload
+export const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024 // 10MB
+
+// Largest zipped repository accepted; its files are limited one by one as they are read
+export const MAX_REPOSITORY_SIZE = 100 * 1024 * 1024 // 100MB
+
+// Custom error class for extraction failures
+export class ExtractionError extends Error {
+  code: string
+  retryable: boolean
+  context?: Record<string, any>
+
+  constructor(
+    message: string,
+    options: {
+      code?: string
+      retryable?: boolean
+      context?: Record<string, any>
+    } = {},
+  ) {
+    super(message)
+    this.name = "ExtractionError"
+    this.code = options.code || "extraction_failed"
+    this.retryable = options.retryable ?? false
+    this.context = options.context
+  }
+}
+
+// MIME types and extensions recognised for each format
+const FORMAT_SIGNATURES: Record<DocumentFormat, { mimeTypes: string[]; extensions: string[] }> = {
+  text: {
+    mimeTypes: ["text/plain", "text/markdown"],
+    extensions: [".txt", ".md", ".markdown"],
+  },
+  pdf: {
+    mimeTypes: ["application/pdf"],
+    extensions: [".pdf"],
+  },
+  docx: {
+    mimeTypes: ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+    extensions: [".docx"],
+  },
+  odt: {
+    mimeTypes: ["application/vnd.oasis.opendocument.text"],
+    extensions: [".odt"],
+  },
+  html: {
+    mimeTypes: ["text/html", "application/xhtml+xml"],
+    extensions: [".html", ".htm", ".xhtml"],
+  },
+  csv: {
+    mimeTypes: ["text/csv", "application/csv", "text/tab-separated-values"],
+    extensions: [".csv", ".tsv"],
+  },
+  xlsx: {
+    mimeTypes: ["application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"],
+    extensions: [".xlsx"],
+  },
+  repository: {
+    mimeTypes: ["application/zip", "application/x-zip-compressed"],
+    extensions: [".zip"],
+  },
+  // Browsers report inconsistent MIME types for source files, so code is matched by extension only
+  code: {
+    mimeTypes: [],
+    extensions: getCodeExtensions(),
+  },
+}
+
+/**
+ * Detects the document format from a MIME type or file name
+ *
+ * @param fileType - MIME type (or legacy extension string) of the file
+ * @param fileName - Optional file name used as a fallback
+ * @returns Detected format, or null if the file is not supported
+ */
+export function detectDocumentFormat(fileType: string, fileName = ""): DocumentFormat | null {
+  const type = (fileType || "").toLowerCase()
+  const name = (fileName || "").toLowerCase()
+  const signatures = Object.entries(FORMAT_SIGNATURES) as [
+    DocumentFormat,
+    { mimeTypes: string[]; extensions: string[] },
+  ][]
+
+  // The file extension is more reliable than the MIME type reported by the browser
+  for (const [format, signature] of signatures) {
+    if (name && signature.extensions.some((extension) => name.endsWith(extension))) {
+      return format
+    }
+  }
+
+  for (const [format, signature] of signatures) {
+    if (signature.mimeTypes.some((mimeType) => type.includes(mimeType))) {
+      return format
+    }
+  }
+
+  // Older records store the extension as the file type
+  for (const [format, signature] of signatures) {
+    if (signature.extensions.some((extension) => type.endsWith(extension))) {
+      return format
+    }
+  }
+
+  // Any other text/* type is treated as plain text
+  if (type.startsWith("text/")) {
+    return "text"
+  }
+
+  return null
+}
+
+/**
+ * Checks whether a file can be extracted
+ *
+ * @param fileType - MIME type of the file
+ * @param fileName - Optional file name
+ * @returns True if an extractor exists for the file
+ */
+export function isSupportedDocumentType(fileType: string, fileName = ""): boolean {
+  return detectDocumentFormat(fileType, fileName) !== null
+}
+
+/**
+ * Lists the file extensions accepted for upload
+ *
+ * @returns Array of extensions including the leading dot
+ */
+export function getSupportedExtensions(): string[] {
+  return Object.values(FORMAT_SIGNATURES).flatMap((signature) => signature.extensions)
+}
+
+/**
+ * Gets the largest file accepted for a document of the given type
+ *
+ * @param fileType - MIME type of the file
+ * @param fileName - Optional file name used as a fallback
+ * @returns Size limit in bytes
+ */
+export function getMaxDocumentSize(fileType: string, fileName = ""): number {
+  return detectDocumentFormat(fileType, fileName) === "repository" ? MAX_REPOSITORY_SIZE : MAX_DOCUMENT_SIZE
+}
+
+/**
+ * Picks the MIME type to record for a file that arrived without one, e.g. a file inside an archive
+ *
+ * @param fileName - File name
+ * @returns MIME type of the detected format, or text/plain for source code and unknown files
+ */
+export function getDocumentMimeType(fileName: string): string {
+  const format = detectDocumentFormat("", fileName)
+  return (format && FORMAT_SIGNATURES[format].mimeTypes[0]) || "text/plain"
+}
+
+/**
+ * Wraps already-extracted plain text as a single-segment document
+ *
+ * @param text - Plain text content
+ * @returns Extracted document with one segment
+ */
+export function createTextDocument(text: string): ExtractedDocument {
+  return {
+    format: "text",
+    text,
+    segments: text.trim() ? [{ text }] : [],
+  }
+}
+
+/**
+ * Extracts plain text content
+ *
+ * @param data - Raw file bytes
+ * @returns Extracted document
+ */
+function extractPlainText(data: ArrayBuffer): ExtractedDocument {
+  const text = new TextDecoder("utf-8").decode(data)
+  return createTextDocument(text)
+}
+
+/**
+ * Cleans up text extracted from a PDF page
+ *
+ * @param text - Raw page text
+ * @returns Normalized page text
+ */
+function normalizePdfText(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/(\w)-\n(\w)/g, "$1$2") // Rejoin words hyphenated across lines
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim()
+}
+
+/**
+ * Extracts text from a PDF, producing one segment per page
+ *
+ * @param data - Raw file bytes
+ * @returns Extracted document with page-numbered segments
+ * @throws ExtractionError if the PDF cannot be parsed or has no text layer
+ */
+async function extractPdf(data: ArrayBuffer): Promise<ExtractedDocument> {
+  let pages: string[]
+  let totalPages: number
+
+  try {
+    const pdf = await getDocumentProxy(new Uint8Array(data))
+    const result = await extractText(pdf, { mergePages: false })
+    pages = result.text
+    totalPages = result.totalPages
+  } catch (error) {
+    const isEncrypted = error instanceof Error && error.name === "PasswordException"
+
+    throw new ExtractionError(
+      isEncrypted
+        ? "PDF is password protected and cannot be read"
+        : `Failed to parse PDF: ${error instanceof Error ? error.message : "Unknown error"}`,
+      {
+        code: isEncrypted ? "pdf_encrypted" : "pdf_parse_failed",
+        context: { byteLength: data.byteLength },
+      },
+    )
+  }
+
+  const segments: ContentSegment[] = []
+
+  pages.forEach((pageText, index) => {
+    const normalized = normalizePdfText(pageText || "")
+
+    if (normalized) {
+      segments.push({
+        text: normalized,
+        metadata: { pageNumber: index + 1 },
+      })
+    }
+  })
+
+  if (segments.length === 0) {
+    throw new ExtractionError("PDF contains no extractable text. It may be a scanned image without a text layer.", {
+      code: "pdf_no_text",
+      context: { totalPages },
+    })
+  }
+
+  logger.info(`Extracted text from PDF`, {
+    totalPages,
+    pagesWithText: segments.length,
+  })
+
+  return {
+    format: "pdf",
+    text: segments.map((segment) => segment.text).join("\n\n"),
+    segments,
+    pageCount: totalPages,
+  }
+}
+
+/**
+ * Extracts a word processing document as markdown
+ *
+ * @param data - Raw file bytes
+ * @param format - Office format to convert from
+ * @returns Extracted document with a single markdown segment
+ * @throws ExtractionError if the file cannot be parsed or has no text
+ */
+function extractOfficeDocument(data: ArrayBuffer, format: "docx" | "odt"): ExtractedDocument {
+  let markdown: string
+
+  try {
+    markdown = format === "docx" ? convertDocxToMarkdown(data) : convertOdtToMarkdown(data)
+  } catch (error) {
+    throw new ExtractionError(
+      `Failed to parse ${format.toUpperCase()}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      {
+        code: `${format}_parse_failed`,
+        context: { byteLength: data.byteLength },
+      },
+    )
+  }
+
+  if (!markdown.trim()) {
+    throw new ExtractionError(`${format.toUpperCase()} document contains no text`, {
+      code: `${format}_no_text`,
+    })
+  }
+
+  logger.info(`Converted ${format.toUpperCase()} to markdown`, {
+    contentLength: markdown.length,
+  })
+
+  return {
+    format,
+    text: markdown,
+    segments: [{ text: markdown }],
+  }
+}
+
+/**
+ * Extracts the main content of a web page as markdown
+ *
+ * @param data - Raw file bytes
+ * @returns Extracted document with a single markdown segment and page details
+ * @throws ExtractionError if the page has no content left after boilerplate removal
+ */
+function extractHtml(data: ArrayBuffer): ExtractedDocument {
+  let result: HtmlConversionResult
+
+  try {
+    result = convertHtmlToMarkdown(data)
+  } catch (error) {
+    throw new ExtractionError(`Failed to parse HTML: ${error instanceof Error ? error.message : "Unknown error"}`, {
+      code: "html_parse_failed",
+      context: { byteLength: data.byteLength },
+    })
+  }
+
+  if (!result.markdown.trim()) {
+    throw new ExtractionError("HTML page contains no text after removing navigation and page chrome", {
+      code: "html_no_text",
+    })
+  }
+
+  logger.info(`Converted HTML to markdown`, {
+    contentLength: result.markdown.length,
+    title: result.title,
+    canonicalUrl: result.canonicalUrl,
+  })
+
+  return {
+    format: "html",
+    text: result.markdown,
+    segments: [{ text: result.markdown }],
+    title: result.title,
+    canonicalUrl: result.canonicalUrl,
+  }
+}
+
+/**
+ * Extracts the tables of a CSV file or workbook, one segment per sheet
+ *
+ * @param data - Raw file bytes
+ * @param format - Spreadsheet format to read
+ * @returns Extracted document with table segments
+ * @throws ExtractionError if the file cannot be parsed or has no data rows
+ */
+function extractSpreadsheet(data: ArrayBuffer, format: "csv" | "xlsx"): ExtractedDocument {
+  let tables: SheetTable[]
+
+  try {
+    tables = format === "csv" ? convertCsvToTables(data) : convertXlsxToTables(data)
+  } catch (error) {
+    throw new ExtractionError(
+      `Failed to parse ${format.toUpperCase()}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      {
+        code: `${format}_parse_failed`,
+        context: { byteLength: data.byteLength },
+      },
+    )
+  }
+
+  if (tables.length === 0) {
+    throw new ExtractionError("Spreadsheet contains no data rows below a header row", {
+      code: `${format}_no_rows`,
+    })
+  }
+
+  const segments: ContentSegment[] = tables.map((table) => ({
+    text: `${table.name ? `# ${table.name}\n\n` : ""}${renderTable([table.header, ...table.rows.map((row) => row.cells)])}`,
+    metadata: {
+      isTable: true,
+      ...(table.name && { sheetName: table.name }),
+    },
+    table: {
+      header: table.header,
+      rows: table.rows,
+    },
+  }))
+
+  logger.info(`Extracted tables from ${format.toUpperCase()}`, {
+    tableCount: tables.length,
+    rowCount: tables.reduce((total, table) => total + table.rows.length, 0),
+  })
+
+  return {
+    format,
+    text: segments.map((segment) => segment.text).join("\n\n"),
+    segments,
+  }
+}
+
+/**
+ * Extracts a single source file as a code segment
+ *
+ * @param data - Raw file bytes
+ * @param fileName - File name, used for the language and chunk headers
+ * @returns Extracted document with one code segment
+ */
+function extractSourceFile(data: ArrayBuffer, fileName: string): ExtractedDocument {
+  const text = new TextDecoder("utf-8").decode(data)
+  const filePath = fileName || "source"
+
+  return {
+    format: "code",
+    text,
+    segments: text.trim()
+      ? [
+          {
+            text,
+            code: { filePath, language: detectCodeLanguage(filePath) || "text" },
+          },
+        ]
+      : [],
+    fileCount: 1,
+  }
+}
+
+/**
+ * Extracts the indexable files of a zipped source repository, one segment per file
+ *
+ * @param data - Raw zip bytes
+ * @returns Extracted document with code segments for source files and text segments for docs
+ * @throws ExtractionError if the archive cannot be read or holds no indexable files
+ */
+function extractRepository(data: ArrayBuffer): ExtractedDocument {
+  let contents: RepositoryContents
+
+  try {
+    contents = readRepositoryArchive(data)
+  } catch (error) {
+    throw new ExtractionError(`Failed to read zip archive: ${error instanceof Error ? error.message : "Unknown error"}`, {
+      code: "repository_parse_failed",
+      context: { byteLength: data.byteLength },
+    })
+  }
+
+  if (contents.files.length === 0) {
+    throw new ExtractionError("Archive contains no indexable text or source files", {
+      code: "repository_no_files",
+      context: { skippedFiles: contents.skipped.length },
+    })
+  }
+
+  // Source files are chunked on symbol boundaries, READMEs and other docs as prose
+  const segments: ContentSegment[] = contents.files.map((file) => ({
+    text: file.content,
+    metadata: { filePath: file.path },
+    ...(file.language && { code: { filePath: file.path, language: file.language } }),
+  }))
+
+  const skippedByReason: Record<string, number> = {}
+  for (const skipped of contents.skipped) {
+    skippedByReason[skipped.reason] = (skippedByReason[skipped.reason] || 0) + 1
+  }
+
+  logger.info(`Extracted repository archive`, {
+    fileCount: contents.files.length,
+    skippedByReason,
+  })
+
+  return {
+    format: "repository",
+    text: contents.files.map((file) => `${file.path}\n\n${file.content}`).join("\n\n"),
+    segments,
+    fileCount: contents.files.length,
+    skippedFiles: contents.skipped,
+  }
+}
+
+/**
+ * Extracts text segments from a document
+ *
+ * @param data - Raw file bytes
+ * @param options - File type and name used to select the extractor
+ * @returns Extracted document
+ * @throws ExtractionError if the format is unsupported or extraction fails
+ */
+export async function extractDocument(data: ArrayBuffer, options: ExtractionOptions): Promise<ExtractedDocument> {
+  const { fileType, fileName = "" } = options
+  const format = detectDocumentFormat(fileType, fileName)
+
+  if (!format) {
+    throw new ExtractionError(`Unsupported file type: ${fileType || fileName}`, {
+      code: "unsupported_file_type",
+      context: { fileType, fileName },
+    })
+  }
+
+  logger.info(`Extracting document content`, {
+    format,
+    fileType,
+    fileName,
+    byteLength: data.byteLength,
+  })
+
+  switch (format) {
+    case "pdf":
+      return extractPdf(data)
+    case "docx":
+    case "odt":
+      return extractOfficeDocument(data, format)
+    case "html":
+      return extractHtml(data)
+    case "csv":
+    case "xlsx":
+      return extractSpreadsheet(data, format)
+    case "code":
+      return extractSourceFile(data, fileName)
+    case "repository":
+      return extractRepository(data)
+    case "text":
+    default:
+      return extractPlainText(data)
+  }
+}
@@ -7,8 +7,17 @@
  * Features:
  * - Streaming document processing with progress tracking
  * - Efficient batch processing for large documents
+ * - Jobs pause at their deadline and resume from the chunks already stored
+ * - Incremental re-indexing that only re-embeds changed chunks
+ * - Document versions with history, rollback and a retention policy
+ * - Content hashes for detecting duplicate uploads
+ * - LLM summary, tags and language detection at ingestion
+ * - Knowledge graph of the entities and relationships in each chunk
+ * - Search terms and BM25 sparse vectors on every chunk for keyword and hybrid search
  * - Comprehensive error handling with retry mechanisms
  * - Metadata management and filtering
+ * - Every record of a document stored in its owner's namespace
+ * - Chunks embedded with the model of the active embedding index
  * - Edge runtime compatible (no Node.js specific modules)
  *
  * @module lib/document-service
@@ -19,19 +28,61 @@ import {
   upsertVectors,
   queryVectors,
   deleteVectors,
+  updateVectorMetadata,
   createPlaceholderVector,
-  type PineconeVector,
-} from "@/lib/pinecone-rest-client"
+  getActiveEmbeddingIndex,
+  getUserNamespace,
+  type VectorRecord,
+} from "@/lib/vector-store"
 import { generateEmbeddings } from "@/lib/embedding-service"
-import { chunkDocument, splitByHeaders, isInformativeChunk } from "@/lib/chunking-utils"
-import { EMBEDDING_MODEL, VECTOR_DIMENSION } from "@/lib/embedding-config"
-import type { Document, ProcessDocumentOptions } from "@/types"
+import { chunkSegments, isInformativeChunk, toVectorMetadata, type Chunk } from "@/lib/chunking-utils"
+import {
+  extractDocument,
+  createTextDocument,
+  ExtractionError,
+  getMaxDocumentSize,
+  type ExtractedDocument,
+} from "@/lib/document-extraction"
+import { SPARSE_VECTORS_ENABLED } from "@/lib/embedding-config"
+import { encodeSparseDocument } from "@/lib/sparse-encoder"
+import { getKeywordMetadata } from "@/lib/keyword-index"
+import {
+  applyChunkSyncCleanup,
+  ChunkSyncError,
+  fetchReusableEmbeddings,
+  planChunkSync,
+} from "@/lib/incremental-indexing"
+import { computeContentHash, findDuplicateDocuments } from "@/lib/document-dedup"
+import {
+  applyEnrichmentToChunks,
+  enrichDocument,
+  isEnrichmentEnabled,
+  type DocumentEnrichment,
+} from "@/lib/document-enrichment"
+import {
+  isGraphExtractionEnabled,
+  removeDocumentFromGraph,
+  syncDocumentGraph,
+  syncDocumentGraphFromIndex,
+} from "@/lib/knowledge-graph"
+import {
+  applyRetentionPolicy,
+  getVersionRecordId,
+  listDocumentVersions,
+  listVersionChunkIds,
+  MAX_STORED_CHUNKS,
+  saveDocumentVersion,
+  setVersionLatest,
+} from "@/lib/document-versioning"
+import { JobPausedError } from "@/lib/job-queue"
+import type { Document, DocumentVersion, ProcessDocumentOptions } from "@/types"
 
 // Constants for processing
 const MAX_CHUNK_SIZE = 1000
 const CHUNK_OVERLAP = 150
 const EMBEDDING_BATCH_SIZE = 10
-const UPSERT_BATCH_SIZE = 100
+// Chunks embedded and stored per step; a paused run keeps every finished slice
+const STORE_SLICE_SIZE = 50
 const MAX_RETRIES = 3
 
 /**
@@ -79,6 +130,8 @@ export interface DocumentProcessingResult {
   totalChunks: number
   successfulChunks: number
   failedChunks: number
+  unchangedChunks?: number
+  version?: number
   processingTime: number
   error?: string
   warnings?: string[]
@@ -111,8 +164,15 @@ export interface DocumentProcessingOptions {
   maxChunkSize?: number
   chunkOverlap?: number
   embeddingBatchSize?: number
-  namespace?: string
+  // Whether search serves the chunks right away; new versions are switched on once fully stored
+  isLatest?: boolean
+  // Version whose stored embeddings are copied for chunks that did not change
+  reuseFromVersion?: number
   onProgress?: (progress: DocumentProcessingProgress) => void
+  // Epoch milliseconds after which processing pauses between slices of chunks with JobPausedError
+  deadline?: number
+  // Chunk the knowledge graph extraction of a paused run continues from
+  graphOffset?: number
 }
 
 /**
@@ -125,6 +185,16 @@ export interface DocumentProcessingProgress {
   details?: Record<string, any>
 }
 
+/**
+ * Where a paused version upload continues
+ */
+export interface VersionCheckpoint {
+  version: number
+  previousVersion: number
+  // Document record the new version replaces, restored if the version fails
+  document: Document
+}
+
 /**
  * Document service class
  */
@@ -133,18 +203,20 @@ export class DocumentService {
    * Process a document
    *
    * @param documentId - Document ID
-   * @param content - Document content
+   * @param content - Document text, or extracted document segments
    * @param metadata - Document metadata
    * @param options - Processing options
    * @returns Processing result
+   * @throws JobPausedError if the deadline passes before every chunk is stored and its entities extracted
    */
   public async processDocument(
     documentId: string,
-    content: string,
+    content: string | ExtractedDocument,
     metadata: Partial<Document>,
     options: DocumentProcessingOptions = {},
   ): Promise<DocumentProcessingResult> {
     const startTime = performance.now()
+    const extracted = typeof content === "string" ? createTextDocument(content) : content
 
     // Set default options
     const {
@@ -152,9 +224,14 @@ export class DocumentService {
       maxChunkSize = MAX_CHUNK_SIZE,
       chunkOverlap = CHUNK_OVERLAP,
       embeddingBatchSize = EMBEDDING_BATCH_SIZE,
-      namespace = "",
+      isLatest = true,
+      reuseFromVersion,
       onProgress,
+      deadline,
+      graphOffset,
     } = options
+    const version = metadata.version ?? 1
+    const userId = metadata.user_id || ""
 
     // Initialize result
     const result: DocumentProcessingResult = {
@@ -191,7 +268,7 @@ export class DocumentService {
       // Validate document
       logger.info(`Validating document: ${documentId}`, { documentId })
 
-      if (!content || content.trim() === "") {
+      if (!extracted.text || extracted.text.trim() === "") {
         throw new DocumentProcessingError("Document content is empty", {
           code: "empty_content",
           context: { documentId },
@@ -205,14 +282,36 @@ export class DocumentService {
         })
       }
 
-      const validatedContent = content.trim()
+      // Every record of the document goes to its owner's namespace
+      if (!userId) {
+        throw new DocumentProcessingError("Document owner is required", {
+          code: "missing_user",
+          context: { documentId },
+        })
+      }
+
+      const namespace = getUserNamespace(userId)
+
+      // One model for the whole run, even if a migration switches the active index meanwhile
+      const embeddingIndex = await getActiveEmbeddingIndex()
+
+      const validatedContent = extracted.text.trim()
       debugInfo.steps.validation = {
         success: true,
         contentLength: validatedContent.length,
+        format: extracted.format,
+        pageCount: extracted.pageCount,
       }
 
       // Update document status to processing
-      await this.updateDocumentStatus(documentId, "processing", 5, "Document validated, starting chunking", debugInfo)
+      await this.updateDocumentStatus(
+        documentId,
+        userId,
+        "processing",
+        5,
+        "Document validated, starting chunking",
+        debugInfo,
+      )
 
       // Report progress: Validation complete
       this.reportProgress(onProgress, {
@@ -229,58 +328,46 @@ export class DocumentService {
       })
 
       const chunkingStartTime = performance.now()
-      let chunks: string[] = []
+      let chunks: Chunk[] = []
 
+      // Chunk each extracted segment so segment metadata (e.g. PDF page numbers) carries onto its chunks
       switch (chunkingStrategy) {
         case "fixed":
-          chunks = chunkDocument(validatedContent, maxChunkSize, chunkOverlap)
+          chunks = chunkSegments(extracted.segments, {
+            maxChunkSize,
+            overlap: chunkOverlap,
+            splitHeaders: false,
+          })
           break
         case "semantic":
-          // First try to split by headers for semantic chunking
-          const sections = splitByHeaders(validatedContent)
-
-          // Process each section
-          for (const section of sections) {
-            const sectionText = section.header ? `# ${section.header}\n\n${section.content}` : section.content
-
-            const sectionChunks = chunkDocument(sectionText, maxChunkSize, chunkOverlap)
-            chunks.push(...sectionChunks)
-          }
-          break
         case "hybrid":
-          // First try semantic chunking
-          const semanticSections = splitByHeaders(validatedContent)
-
-          if (semanticSections.length > 1) {
-            // If we have multiple sections, process each one
-            for (const section of semanticSections) {
-              const sectionText = section.header ? `# ${section.header}\n\n${section.content}` : section.content
-
-              const sectionChunks = chunkDocument(sectionText, maxChunkSize, chunkOverlap)
-              chunks.push(...sectionChunks)
-            }
-          } else {
-            // Otherwise, fall back to fixed-size chunking
-            chunks = chunkDocument(validatedContent, maxChunkSize, chunkOverlap)
-          }
+          // Split by headers first; sections without headers fall back to fixed-size chunking
+          chunks = chunkSegments(extracted.segments, {
+            maxChunkSize,
+            overlap: chunkOverlap,
+          })
           break
         default:
-          chunks = chunkDocument(validatedContent, maxChunkSize, chunkOverlap)
+          chunks = chunkSegments(extracted.segments, {
+            maxChunkSize,
+            overlap: chunkOverlap,
+            splitHeaders: false,
+          })
       }
 
       const chunkingTime = performance.now() - chunkingStartTime
       debugInfo.timings.chunking = chunkingTime
 
       // Filter out non-informative chunks
-      const validChunks = chunks.filter((chunk) => isInformativeChunk(chunk))
+      const validChunks = chunks.filter((chunk) => isInformativeChunk(chunk.text))
 
       debugInfo.steps.chunking = {
         strategy: chunkingStrategy,
         totalChunks: chunks.length,
         validChunks: validChunks.length,
         skippedChunks: chunks.length - validChunks.length,
-        chunkSizes: validChunks.map((c) => c.length),
-        averageChunkSize: validChunks.reduce((sum, c) => sum + c.length, 0) / validChunks.length,
+        chunkSizes: validChunks.map((c) => c.text.length),
+        averageChunkSize: validChunks.reduce((sum, c) => sum + c.text.length, 0) / validChunks.length,
       }
 
       // Check if we have any valid chunks
@@ -294,6 +381,7 @@ export class DocumentService {
       // Update document status
       await this.updateDocumentStatus(
         documentId,
+        userId,
         "processing",
         20,
         `Chunking complete. Generated ${validChunks.length} chunks.`,
@@ -312,199 +400,371 @@ export class DocumentService {
         },
       })
 
+      // Summary, tags and language are kept while the content is unchanged, otherwise asked from the model
+      let enrichment: DocumentEnrichment | null = metadata.summary
+        ? { summary: metadata.summary, tags: metadata.tags || [], language: metadata.language || "und" }
+        : null
+      const enrichmentReused = enrichment !== null
+
+      if (!enrichment && isEnrichmentEnabled()) {
+        this.reportProgress(onProgress, {
+          stage: "enriching",
+          progress: 22,
+          message: "Generating summary and tags",
+        })
+
+        // Enrichment is best-effort; the document is indexed without it when the model fails
+        try {
+          enrichment = await enrichDocument(metadata.name || documentId, validChunks)
+        } catch (error) {
+          const message = error instanceof Error ? error.message : "Unknown error"
+          logger.warn(`Document enrichment failed: ${documentId}`, { documentId, error: message })
+          result.warnings?.push(`Summary and tags could not be generated: ${message}`)
+        }
+      }
+
+      if (enrichment) {
+        for (const chunk of validChunks) {
+          chunk.metadata.tags = enrichment.tags
+        }
+
+        debugInfo.steps.enrichment = {
+          reused: enrichmentReused,
+          tags: enrichment.tags,
+          language: enrichment.language,
+        }
+      }
+
+      // Only chunks that are new or changed since the last run need embeddings
+      const syncPlan = await planChunkSync(documentId, validChunks, {
+        namespace,
+        embeddingModel: embeddingIndex.model,
+        version,
+        reuseFromVersion,
+      })
+      const changedChunks = syncPlan.changed
+
+      // Changed chunks whose text is already stored, e.g. in the previous version, copy that embedding
+      const reusedEmbeddings = await fetchReusableEmbeddings(syncPlan, { namespace })
+      const chunksToEmbed = changedChunks.filter((entry) => !reusedEmbeddings.has(entry.id))
+
+      debugInfo.steps.incremental = {
+        version,
+        changedChunks: changedChunks.length,
+        reusedChunks: reusedEmbeddings.size,
+        unchangedChunks: syncPlan.unchanged.length,
+        staleChunks: syncPlan.staleIds.length,
+      }
+
       // Generate embeddings for chunks
-      logger.info(`Generating embeddings for ${validChunks.length} chunks: ${documentId}`, {
+      logger.info(`Generating embeddings for ${chunksToEmbed.length} chunks: ${documentId}`, {
         documentId,
-        chunkCount: validChunks.length,
+        chunkCount: chunksToEmbed.length,
+        reusedCount: reusedEmbeddings.size,
+        unchangedCount: syncPlan.unchanged.length,
       })
 
-      const embeddingStartTime = performance.now()
+      let embeddingTime = 0
+      let storageTime = 0
       let successfulEmbeddings = 0
       let failedEmbeddings = 0
+      let embeddedCount = 0
       let totalVectorsInserted = 0
+      const storedChunks: { id: string; text: string; index: number }[] = []
 
       // Process in batches
-      const batchCount = Math.ceil(validChunks.length / embeddingBatchSize)
+      const batchCount = Math.ceil(chunksToEmbed.length / embeddingBatchSize)
 
       debugInfo.steps.embedding = {
         batches: [],
         totalBatches: batchCount,
-        embeddingModel: EMBEDDING_MODEL,
+        embeddingModel: embeddingIndex.model,
       }
 
-      // Generate embeddings for all chunks
-      const embeddings = await generateEmbeddings(validChunks, {
-        batchSize: embeddingBatchSize,
-        onProgress: (completed, total) => {
-          const progress = Math.floor(20 + (completed / total) * 40)
+      // The next run after a pause reuses the summary and tags instead of asking the model again
+      const keepEnrichmentForResume = async () => {
+        if (enrichment && !enrichmentReused) {
+          await updateVectorMetadata(
+            documentId,
+            { summary: enrichment.summary, tags: enrichment.tags, language: enrichment.language },
+            { namespace },
+          )
+        }
+      }
 
-          // Update document status
-          this.updateDocumentStatus(
+      // Changed chunks are embedded and stored a slice at a time. A run that reaches its deadline pauses between
+      // slices, and the next run finds the chunks stored so far unchanged.
+      for (let start = 0; start < changedChunks.length; start += STORE_SLICE_SIZE) {
+        if (deadline !== undefined && start > 0 && Date.now() >= deadline) {
+          await keepEnrichmentForResume()
+
+          logger.info(`Document processing paused: ${documentId}`, {
             documentId,
-            "processing",
-            progress,
-            `Generating embeddings: ${completed}/${total} chunks`,
-            debugInfo,
-          ).catch((err) => {
-            logger.error(`Failed to update status during embedding generation`, {
-              documentId,
-              error: err instanceof Error ? err.message : "Unknown error",
-            })
+            storedChunks: start,
+            remainingChunks: changedChunks.length - start,
           })
 
-          // Report progress
-          this.reportProgress(onProgress, {
-            stage: "embedding",
-            progress,
-            message: `Generating embeddings: ${completed}/${total} chunks`,
-            details: {
-              completed,
-              total,
-              percent: Math.round((completed / total) * 100),
-            },
+          throw new JobPausedError(`Paused after storing ${start}/${changedChunks.length} chunks`, {
+            documentId,
+            storedChunks: start,
           })
-        },
-      })
-
-      // Prepare vectors for Pinecone
-      const vectors: PineconeVector[] = []
-
-      for (let i = 0; i < validChunks.length; i++) {
-        const chunk = validChunks[i]
-        const embedding = embeddings[i]
-
-        // Skip if embedding generation failed
-        if (!embedding || embedding.length !== VECTOR_DIMENSION) {
-          failedEmbeddings++
-          continue
         }
 
-        // Create chunk ID
-        const chunkId = `chunk_${documentId}_${i}`
-
-        // Create timestamp for metadata
-        const timestamp = new Date().toISOString()
-
-        // Create vector with metadata
-        vectors.push({
-          id: chunkId,
-          values: embedding,
-          metadata: {
-            content: chunk,
-            document_id: documentId,
-            document_name: metadata.name || "",
-            document_type: metadata.file_type || "",
-            user_id: metadata.user_id || "",
-            index: i,
-            record_type: "chunk",
-            created_at: timestamp,
-            updated_at: timestamp,
-            embedding_model: EMBEDDING_MODEL,
-          },
-        })
-
-        successfulEmbeddings++
-      }
+        const slice = changedChunks.slice(start, start + STORE_SLICE_SIZE)
+        const sliceToEmbed = slice.filter((entry) => !reusedEmbeddings.has(entry.id))
+        const embeddingStartTime = performance.now()
+
+        // Nothing to embed when every chunk of the slice reuses a stored embedding
+        let embeddings: number[][] = []
+        if (sliceToEmbed.length > 0) {
+          embeddings = await generateEmbeddings(
+            sliceToEmbed.map((entry) => entry.chunk.text),
+            {
+              provider: embeddingIndex.provider,
+              model: embeddingIndex.model,
+              dimensions: embeddingIndex.dimension,
+              batchSize: embeddingBatchSize,
+              onProgress: (completed) => {
+                const done = start + (completed / sliceToEmbed.length) * slice.length
+                const progress = Math.floor(20 + (done / changedChunks.length) * 70)
+                const message = `Generating embeddings: ${embeddedCount + completed}/${chunksToEmbed.length} chunks`
+
+                // Update document status
+                this.updateDocumentStatus(documentId, userId, "processing", progress, message, debugInfo).catch(
+                  (err) => {
+                    logger.error(`Failed to update status during embedding generation`, {
+                      documentId,
+                      error: err instanceof Error ? err.message : "Unknown error",
+                    })
+                  },
+                )
+
+                // Report progress
+                this.reportProgress(onProgress, {
+                  stage: "embedding",
+                  progress,
+                  message,
+                  details: {
+                    completed: embeddedCount + completed,
+                    total: chunksToEmbed.length,
+                    percent: Math.round(((embeddedCount + completed) / chunksToEmbed.length) * 100),
+                  },
+                })
+              },
+            },
+          )
+          embeddedCount += sliceToEmbed.length
+        }
 
-      const embeddingTime = performance.now() - embeddingStartTime
-      debugInfo.timings.embedding = embeddingTime
+        // Prepare vectors for Pinecone
+        const vectors: VectorRecord[] = []
+        const generatedEmbeddings = new Map(sliceToEmbed.map((entry, i) => [entry.id, embeddings[i]]))
 
-      debugInfo.steps.embedding.successfulEmbeddings = successfulEmbeddings
-      debugInfo.steps.embedding.failedEmbeddings = failedEmbeddings
+        for (const { chunk, id: chunkId, hash, textHash, index } of slice) {
+          const embedding = reusedEmbeddings.get(chunkId) || generatedEmbeddings.get(chunkId)
 
-      // Check if we have any successful embeddings
-      if (successfulEmbeddings === 0) {
-        throw new DocumentProcessingError("Failed to generate any valid embeddings", {
-          code: "embedding_generation_failed",
-          context: { documentId, totalChunks: validChunks.length },
-        })
-      }
+          // Skip if embedding generation failed
+          if (!embedding || embedding.length !== embeddingIndex.dimension) {
+            failedEmbeddings++
+            continue
+          }
 
-      // Update document status
-      await this.updateDocumentStatus(
-        documentId,
-        "processing",
-        60,
-        `Embedding generation complete. Storing vectors.`,
-        debugInfo,
-      )
+          // Create timestamp for metadata
+          const timestamp = new Date().toISOString()
+
+          // Keyword terms for hybrid search; Pinecone rejects empty sparse values
+          const sparseValues = SPARSE_VECTORS_ENABLED ? encodeSparseDocument(chunk.text) : null
+
+          // Create vector with metadata
+          vectors.push({
+            id: chunkId,
+            values: embedding,
+            ...(sparseValues && sparseValues.indices.length > 0 && { sparseValues }),
+            metadata: {
+              content: chunk.text,
+              content_hash: hash,
+              text_hash: textHash,
+              document_id: documentId,
+              document_name: metadata.name || "",
+              document_type: metadata.file_type || "",
+              user_id: metadata.user_id || "",
+              index,
+              version,
+              is_latest: isLatest,
+              record_type: "chunk",
+              created_at: timestamp,
+              updated_at: timestamp,
+              embedding_model: embeddingIndex.model,
+              ...(enrichment && { document_language: enrichment.language }),
+              ...getKeywordMetadata(chunk.text),
+              ...toVectorMetadata(chunk.metadata),
+            },
+          })
 
-      // Report progress: Embeddings complete
-      this.reportProgress(onProgress, {
-        stage: "embeddings_complete",
-        progress: 60,
-        message: `Embedding generation complete. Storing vectors.`,
-        details: {
-          successfulEmbeddings,
-          failedEmbeddings,
-        },
-      })
+          storedChunks.push({ id: chunkId, text: chunk.text, index })
+          successfulEmbeddings++
+        }
 
-      // Store vectors in Pinecone
-      logger.info(`Storing ${vectors.length} vectors for document: ${documentId}`, {
-        documentId,
-        vectorCount: vectors.length,
-      })
+        embeddingTime += performance.now() - embeddingStartTime
 
-      const storageStartTime = performance.now()
+        if (vectors.length === 0) {
+          continue
+        }
 
-      // Process in batches
-      for (let i = 0; i < vectors.length; i += UPSERT_BATCH_SIZE) {
-        const batch = vectors.slice(i, i + UPSERT_BATCH_SIZE)
-        const batchProgress = Math.floor(60 + (i / vectors.length) * 30)
+        const stored = start + slice.length
+        const storeProgress = Math.floor(20 + (stored / changedChunks.length) * 70)
+        const storageStartTime = performance.now()
 
         // Update document status
         await this.updateDocumentStatus(
           documentId,
+          userId,
           "processing",
-          batchProgress,
-          `Storing vectors: ${i + batch.length}/${vectors.length}`,
+          storeProgress,
+          `Storing vectors: ${stored}/${changedChunks.length}`,
           debugInfo,
         )
 
         // Report progress
         this.reportProgress(onProgress, {
           stage: "storing",
-          progress: batchProgress,
-          message: `Storing vectors: ${i + batch.length}/${vectors.length}`,
+          progress: storeProgress,
+          message: `Storing vectors: ${stored}/${changedChunks.length}`,
           details: {
-            completed: i + batch.length,
-            total: vectors.length,
-            percent: Math.round(((i + batch.length) / vectors.length) * 100),
+            completed: stored,
+            total: changedChunks.length,
+            percent: Math.round((stored / changedChunks.length) * 100),
           },
         })
 
-        // Store batch with retry logic
+        // Store slice with retry logic
         const upsertResult = await this.retryOperation(
-          () => upsertVectors(batch, { namespace }),
-          `Upsert vectors batch ${i / UPSERT_BATCH_SIZE + 1}/${Math.ceil(vectors.length / UPSERT_BATCH_SIZE)}`,
+          () => upsertVectors(vectors, { namespace }),
+          `Upsert vectors ${start + 1}-${stored}/${changedChunks.length}`,
         )
 
         totalVectorsInserted += upsertResult.upsertedCount
+        storageTime += performance.now() - storageStartTime
       }
 
-      const storageTime = performance.now() - storageStartTime
+      debugInfo.timings.embedding = embeddingTime
       debugInfo.timings.storage = storageTime
 
+      debugInfo.steps.embedding.successfulEmbeddings = successfulEmbeddings
+      debugInfo.steps.embedding.failedEmbeddings = failedEmbeddings
+
+      // Check if we have any successful embeddings, or chunks kept from the previous run
+      if (successfulEmbeddings === 0 && syncPlan.unchanged.length === 0) {
+        throw new DocumentProcessingError("Failed to generate any valid embeddings", {
+          code: "embedding_generation_failed",
+          context: { documentId, totalChunks: validChunks.length },
+        })
+      }
+
+      // Remove chunks the document no longer produces now that their replacements are stored
+      await this.retryOperation(
+        () => applyChunkSyncCleanup(syncPlan, { namespace }),
+        `Remove ${syncPlan.staleIds.length} stale chunks`,
+      )
+
+      // Chunks kept from an earlier run still carry that run's tags
+      if (enrichment && !enrichmentReused && syncPlan.unchanged.length > 0) {
+        await applyEnrichmentToChunks(
+          syncPlan.unchanged.map((entry) => entry.id),
+          enrichment,
+          { namespace },
+        ).catch((error) => {
+          logger.warn(`Failed to refresh tags on unchanged chunks: ${documentId}`, {
+            documentId,
+            error: error instanceof Error ? error.message : "Unknown error",
+          })
+        })
+      }
+
       debugInfo.steps.storage = {
         totalVectorsInserted,
+        staleVectorsDeleted: syncPlan.staleIds.length,
         namespace,
       }
 
+      // Extract entities and relationships from the chunks search serves; new versions are synced once published
+      if (isLatest && isGraphExtractionEnabled()) {
+        // A run that used its time storing chunks leaves the graph to the next run
+        if (deadline !== undefined && changedChunks.length > 0 && Date.now() >= deadline) {
+          await keepEnrichmentForResume()
+
+          throw new JobPausedError(`Paused after storing ${changedChunks.length} chunks, before graph extraction`, {
+            documentId,
+            graphOffset: graphOffset ?? 0,
+          })
+        }
+
+        this.reportProgress(onProgress, {
+          stage: "graph",
+          progress: 92,
+          message: "Extracting entities and relationships",
+        })
+
+        // In document order, so a paused run's offset points at the same chunk when it resumes
+        const graphChunks = [
+          ...syncPlan.unchanged.map((entry) => ({ id: entry.id, text: entry.chunk.text, index: entry.index })),
+          ...storedChunks,
+        ]
+          .sort((a, b) => a.index - b.index)
+          .map(({ id, text }) => ({ id, text }))
+
+        // The graph is best-effort; the document is searchable without it. Extractions are saved as they are made,
+        // so a run that reaches its deadline pauses and the next one continues from the offset it reached.
+        try {
+          debugInfo.steps.graph = await syncDocumentGraph(documentId, userId, graphChunks, {
+            deadline,
+            offset: graphOffset,
+            onProgress: (completed, total) => {
+              this.reportProgress(onProgress, {
+                stage: "graph",
+                progress: Math.floor(92 + (completed / total) * 6),
+                message: `Extracting entities and relationships: ${completed}/${total} chunks`,
+              })
+            },
+          })
+        } catch (error) {
+          if (error instanceof JobPausedError) {
+            await keepEnrichmentForResume()
+            throw error
+          }
+
+          const message = error instanceof Error ? error.message : "Unknown error"
+          logger.warn(`Knowledge graph extraction failed: ${documentId}`, { documentId, error: message })
+          result.warnings?.push(`Knowledge graph extraction failed: ${message}`)
+        }
+      }
+
       // Create document metadata vector
       const documentMetadata = {
         id: documentId,
-        user_id: metadata.user_id || "",
+        user_id: userId,
         name: metadata.name || "",
         description: metadata.description || "",
         file_type: metadata.file_type || "",
-        file_size: metadata.file_size || content.length,
+        file_size: metadata.file_size || validatedContent.length,
         file_path: metadata.file_path || "",
         blob_url: metadata.blob_url,
+        ...(metadata.batch_id && { batch_id: metadata.batch_id }),
         status: "indexed",
         processing_progress: 100,
-        chunk_count: successfulEmbeddings,
-        embedding_model: EMBEDDING_MODEL,
+        chunk_count: syncPlan.unchanged.length + successfulEmbeddings,
+        version,
+        version_count: Math.max(metadata.version_count ?? version, version),
+        ...(metadata.content_hash && { content_hash: metadata.content_hash }),
+        ...(metadata.duplicate_of && { duplicate_of: metadata.duplicate_of }),
+        ...(enrichment
+          ? { summary: enrichment.summary, tags: enrichment.tags, language: enrichment.language }
+          : metadata.tags && { tags: metadata.tags }),
+        ...(extracted.pageCount !== undefined && { page_count: extracted.pageCount }),
+        ...(extracted.title && { title: extracted.title }),
+        ...(extracted.canonicalUrl && { canonical_url: extracted.canonicalUrl }),
+        ...(extracted.fileCount !== undefined && { file_count: extracted.fileCount }),
+        embedding_model: embeddingIndex.model,
         created_at: metadata.created_at || new Date().toISOString(),
         updated_at: new Date().toISOString(),
         record_type: "document",
@@ -534,7 +794,9 @@ export class DocumentService {
       // Update result
       result.status = failedEmbeddings > 0 ? "partial_success" : "success"
       result.totalChunks = validChunks.length
-      result.successfulChunks = successfulEmbeddings
+      result.successfulChunks = syncPlan.unchanged.length + successfulEmbeddings
+      result.unchangedChunks = syncPlan.unchanged.length
+      result.version = version
       result.failedChunks = failedEmbeddings
       result.processingTime = totalTime
 
@@ -557,11 +819,17 @@ export class DocumentService {
         totalChunks: result.totalChunks,
         successfulChunks: result.successfulChunks,
         failedChunks: result.failedChunks,
+        unchangedChunks: result.unchangedChunks,
         processingTime: result.processingTime,
       })
 
       return result
     } catch (error) {
+      // A paused run leaves the document processing; the job continues it
+      if (error instanceof JobPausedError) {
+        throw error
+      }
+
       // Calculate processing time even for failures
       const totalTime = performance.now() - startTime
 
@@ -582,6 +850,7 @@ export class DocumentService {
       try {
         await this.updateDocumentStatus(
           documentId,
+          userId,
           "failed",
           0,
           error instanceof Error ? error.message : "Unknown error in document processing",
@@ -615,6 +884,15 @@ export class DocumentService {
         throw error
       }
 
+      // Keep the code of a failed chunk listing, so a document with too many chunks is not retried
+      if (error instanceof ChunkSyncError) {
+        throw new DocumentProcessingError(`Document processing failed: ${error.message}`, {
+          code: error.code,
+          retryable: error.retryable,
+          context: { documentId, debugInfo },
+        })
+      }
+
       throw new DocumentProcessingError(
         `Document processing failed: ${error instanceof Error ? error.message : "Unknown error"}`,
         {
@@ -636,7 +914,7 @@ export class DocumentService {
       processingOptions?: DocumentProcessingOptions
     },
   ): Promise<DocumentProcessingResult> {
-    const { documentId, userId, filePath, fileName, fileType, fileUrl, processingOptions } = options
+    const { documentId, fileName, fileType, fileUrl } = options
 
     try {
       logger.info(`Processing document from URL: ${documentId}`, {
@@ -658,26 +936,12 @@ export class DocumentService {
         )
       }
 
-      const content = await response.text()
-
-      // Create document metadata
-      const metadata: Partial<Document> = {
-        id: documentId,
-        user_id: userId,
-        name: fileName,
-        file_type: fileType,
-        file_size: content.length,
-        file_path: filePath,
-        blob_url: fileUrl,
-        status: "processing",
-        processing_progress: 0,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
+      return await this.processDocumentData({ ...options, data: await response.arrayBuffer() })
+    } catch (error) {
+      if (error instanceof JobPausedError) {
+        throw error
       }
 
-      // Process document
-      return await this.processDocument(documentId, content, metadata, processingOptions)
-    } catch (error) {
       logger.error(`Failed to process document from URL: ${documentId}`, {
         documentId,
         error: error instanceof Error ? error.message : "Unknown error",
@@ -698,13 +962,504 @@ export class DocumentService {
     }
   }
 
+  /**
+   * Process a document from raw file bytes that are already stored at the file URL
+   * The document record is written before extraction so a failure leaves a failed document the user can see
+   *
+   * @param options - Document processing options with the file bytes
+   * @returns Processing result
+   * @throws DocumentProcessingError if extraction or processing fails
+   */
+  public async processDocumentData(
+    options: ProcessDocumentOptions & {
+      data: ArrayBuffer
+      processingOptions?: DocumentProcessingOptions
+    },
+  ): Promise<DocumentProcessingResult> {
+    const { documentId, userId, filePath, fileName, fileType, fileUrl, batchId, data, processingOptions } = options
+    const replaceDocumentIds = options.replaceDocumentIds || []
+    const namespace = getUserNamespace(userId)
+
+    // Processing an existing document again (e.g. a retried job) keeps its creation time and version history
+    const existing = await this.getDocument(documentId, userId)
+    const version = existing?.version ?? 1
+
+    // Uploads the user chose to keep next to an identical document point at the oldest copy
+    const contentHash = await computeContentHash(data)
+    const duplicates = await findDuplicateDocuments(userId, contentHash, { excludeId: documentId })
+      .then((found) => found.filter((duplicate) => !replaceDocumentIds.includes(duplicate.id)))
+      .catch((error) => {
+        // The link to an identical document is informational, so processing goes on without it
+        logger.warn(`Duplicate lookup failed: ${documentId}`, {
+          documentId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        })
+        return []
+      })
+
+    // Create document metadata
+    const metadata: Partial<Document> = {
+      id: documentId,
+      user_id: userId,
+      name: fileName,
+      file_type: fileType,
+      file_size: data.byteLength,
+      file_path: filePath,
+      blob_url: fileUrl,
+      ...(batchId && { batch_id: batchId }),
+      status: "processing",
+      processing_progress: 0,
+      version,
+      version_count: existing?.version_count ?? version,
+      content_hash: contentHash,
+      ...(duplicates.length > 0 && { duplicate_of: duplicates[0].id }),
+      // Unchanged content keeps its summary, tags and language instead of asking the model again
+      ...(existing?.content_hash === contentHash &&
+        existing.summary && { summary: existing.summary, tags: existing.tags, language: existing.language }),
+      created_at: existing?.created_at || new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    }
+
+    await upsertVectors(
+      [
+        {
+          id: documentId,
+          values: createPlaceholderVector(),
+          metadata: { ...metadata, record_type: "document" },
+        },
+      ],
+      { namespace },
+    )
+
+    let extracted: ExtractedDocument
+
+    try {
+      extracted = await this.extractContent(documentId, data, fileType, fileName)
+    } catch (error) {
+      await this.updateDocumentStatus(
+        documentId,
+        userId,
+        "failed",
+        0,
+        error instanceof Error ? error.message : "Failed to extract document text",
+      )
+      throw error
+    }
+
+    // Process document
+    const result = await this.processDocument(documentId, extracted, metadata, processingOptions)
+
+    // The first upload is version 1 of the document's history; a missing record is recreated on the next upload
+    await saveDocumentVersion({
+      ...this.toVersionRecord(metadata as Document, version),
+      status: "indexed",
+      chunk_count: result.successfulChunks,
+    }).catch((error) => {
+      logger.warn(`Failed to record first version: ${documentId}`, {
+        documentId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    })
+
+    // Replaced documents stay searchable until the upload taking their place is fully indexed
+    if (replaceDocumentIds.length > 0) {
+      if (result.status === "success") {
+        await this.deleteReplacedDocuments(documentId, userId, contentHash, replaceDocumentIds)
+      } else {
+        result.warnings = [...(result.warnings || []), "Some chunks failed, so the replaced documents were kept"]
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Deletes the documents an upload replaces
+   * Only documents that still hold the same content as the upload are deleted, so a stale or forged list of IDs
+   * cannot remove anything else. Failures are logged and leave the duplicate in place.
+   *
+   * @param documentId - Document that replaces the others
+   * @param userId - User ID
+   * @param contentHash - Content hash of the replacing document
+   * @param replaceDocumentIds - Documents the user chose to replace
+   */
+  private async deleteReplacedDocuments(
+    documentId: string,
+    userId: string,
+    contentHash: string,
+    replaceDocumentIds: string[],
+  ): Promise<void> {
+    try {
+      const duplicates = await findDuplicateDocuments(userId, contentHash, { excludeId: documentId })
+      const replaced = duplicates.filter((duplicate) => replaceDocumentIds.includes(duplicate.id))
+
+      for (const duplicate of replaced) {
+        await this.deleteDocument(duplicate.id, userId)
+      }
+
+      logger.info(`Replaced documents deleted: ${documentId}`, {
+        documentId,
+        replaced: replaced.map((duplicate) => duplicate.id),
+      })
+    } catch (error) {
+      logger.warn(`Failed to delete replaced documents: ${documentId}`, {
+        documentId,
+        replaceDocumentIds,
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  /**
+   * Upload a new version of an existing document
+   * The new version is indexed next to the current one and only served once all of its chunks are stored,
+   * so a failed upload leaves the current version searchable. A run that reaches the deadline pauses with
+   * a checkpoint; passing it back continues the same version.
+   *
+   * @param options - Document processing options with the file bytes of the new version
+   * @returns Processing result with the new version number
+   * @throws DocumentProcessingError if the document is missing or busy, or processing fails
+   * @throws JobPausedError if the deadline passes before every chunk is stored
+   */
+  public async createVersion(
+    options: ProcessDocumentOptions & {
+      data: ArrayBuffer
+      processingOptions?: DocumentProcessingOptions
+      checkpoint?: VersionCheckpoint
+    },
+  ): Promise<DocumentProcessingResult> {
+    const { documentId, userId, filePath, fileName, fileType, fileUrl, data, processingOptions, checkpoint } = options
+    const namespace = getUserNamespace(userId)
+
+    // A resumed run keeps the version it started and the document record it replaces
+    const document = checkpoint?.document || (await this.getDocument(documentId, userId))
+
+    if (!document) {
+      throw new DocumentProcessingError(`Document not found: ${documentId}`, {
+        code: "document_not_found",
+        context: { documentId },
+      })
+    }
+
+    if (!checkpoint && document.status === "processing") {
+      throw new DocumentProcessingError(`Document is still processing: ${documentId}`, {
+        code: "document_busy",
+        retryable: true,
+        context: { documentId },
+      })
+    }
+
+    const previousVersion = checkpoint?.previousVersion ?? document.version ?? 1
+    const version = checkpoint?.version ?? Math.max(document.version_count ?? previousVersion, previousVersion) + 1
+
+    // Documents uploaded before versioning have no record for their first version yet
+    const history = await listDocumentVersions(documentId, { namespace })
+    if (!history.some((entry) => entry.version === previousVersion)) {
+      await saveDocumentVersion(this.toVersionRecord(document, previousVersion))
+    }
+
+    const timestamp = new Date().toISOString()
+    const contentHash = await computeContentHash(data)
+    const versionRecord: DocumentVersion = {
+      document_id: documentId,
+      version,
+      user_id: document.user_id,
+      name: fileName,
+      file_type: fileType,
+      file_size: data.byteLength,
+      file_path: filePath,
+      blob_url: fileUrl,
+      status: "processing",
+      content_hash: contentHash,
+      created_at: history.find((entry) => entry.version === version)?.created_at || timestamp,
+      updated_at: timestamp,
+    }
+    await saveDocumentVersion(versionRecord)
+
+    logger.info(`${checkpoint ? "Resuming" : "Creating"} version ${version} of document: ${documentId}`, {
+      documentId,
+      version,
+      previousVersion,
+      fileName,
+    })
+
+    try {
+      const extracted = await this.extractContent(documentId, data, fileType, fileName)
+
+      const result = await this.processDocument(
+        documentId,
+        extracted,
+        {
+          ...document,
+          name: fileName,
+          file_type: fileType,
+          file_size: data.byteLength,
+          file_path: filePath,
+          blob_url: fileUrl,
+          content_hash: contentHash,
+          // New content no longer duplicates the document the first upload matched
+          duplicate_of: undefined,
+          // New content gets a fresh summary, tags and language
+          summary: undefined,
+          tags: undefined,
+          language: undefined,
+          version,
+          version_count: version,
+        },
+        { ...processingOptions, isLatest: false, reuseFromVersion: previousVersion },
+      )
+
+      // Serve the new version before retiring the old one, so search never returns nothing for the document
+      const published = await this.retryOperation(
+        () => setVersionLatest(documentId, version, true, { namespace, deadline: processingOptions?.deadline }),
+        `Publish version ${version}`,
+      )
+
+      // Retiring the old version while none of the new one is served would hide the document from search
+      if (published === 0 && result.successfulChunks + (result.unchangedChunks ?? 0) > 0) {
+        throw new DocumentProcessingError(`No chunks of version ${version} found to publish: ${documentId}`, {
+          code: "version_not_published",
+          retryable: true,
+          context: { documentId, version },
+        })
+      }
+      await this.retryOperation(
+        () =>
+          setVersionLatest(documentId, previousVersion, false, { namespace, deadline: processingOptions?.deadline }),
+        `Retire version ${previousVersion}`,
+      )
+
+      await saveDocumentVersion({ ...versionRecord, status: "indexed", chunk_count: result.successfulChunks })
+
+      await this.syncGraphToVersion(documentId, userId, version, processingOptions?.deadline)
+
+      // Retention failures are logged; the new version is already live
+      const purgedVersions = await applyRetentionPolicy(documentId, version, { namespace }).catch((error) => {
+        logger.warn(`Failed to apply version retention policy: ${documentId}`, {
+          documentId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        })
+        return [] as number[]
+      })
+
+      if (purgedVersions.length > 0) {
+        result.warnings = [...(result.warnings || []), `Purged versions ${purgedVersions.join(", ")}`]
+      }
+
+      return result
+    } catch (error) {
+      // A paused run keeps the chunks stored so far; the checkpoint tells the next run which version it continues
+      if (error instanceof JobPausedError) {
+        throw new JobPausedError(error.message, {
+          ...error.checkpoint,
+          version,
+          previousVersion,
+          // Processing details are not needed to restore the record and can be large
+          document: { ...document, debug_info: undefined },
+        })
+      }
+
+      logger.error(`Failed to create version ${version} of document: ${documentId}`, {
+        documentId,
+        version,
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+
+      await this.discardVersion(
+        { version, previousVersion, document },
+        error instanceof Error ? error.message : "Unknown error in document processing",
+      )
+
+      if (error instanceof DocumentProcessingError) {
+        throw error
+      }
+
+      throw new DocumentProcessingError(
+        `Failed to create document version: ${error instanceof Error ? error.message : "Unknown error"}`,
+        {
+          code: "version_processing_failed",
+          context: { documentId, version },
+        },
+      )
+    }
+  }
+
+  /**
+   * Upload a new version of an existing document from the file stored at its URL
+   *
+   * @param options - Document processing options of the new version
+   * @returns Processing result with the new version number
+   * @throws DocumentProcessingError if the file cannot be fetched or the version fails
+   * @throws JobPausedError if the deadline passes before every chunk is stored
+   */
+  public async createVersionFromUrl(
+    options: ProcessDocumentOptions & {
+      processingOptions?: DocumentProcessingOptions
+      checkpoint?: VersionCheckpoint
+    },
+  ): Promise<DocumentProcessingResult> {
+    const response = await fetch(options.fileUrl, { cache: "no-store" }).catch((error) => {
+      throw new DocumentProcessingError(
+        `Failed to fetch document content: ${error instanceof Error ? error.message : "Unknown error"}`,
+        { code: "fetch_failed", context: { documentId: options.documentId } },
+      )
+    })
+
+    if (!response.ok) {
+      throw new DocumentProcessingError(`Failed to fetch document content: ${response.status} ${response.statusText}`, {
+        code: "fetch_failed",
+        context: { documentId: options.documentId, status: response.status },
+      })
+    }
+
+    return this.createVersion({ ...options, data: await response.arrayBuffer() })
+  }
+
+  /**
+   * Remove whatever a failed version stored and put the document record it replaced back
+   * Safe to call more than once for the same version
+   *
+   * @param checkpoint - Version to discard and the document record it replaced
+   * @param message - Error message recorded on the version
+   */
+  public async discardVersion(checkpoint: VersionCheckpoint, message: string): Promise<void> {
+    const { version, document } = checkpoint
+    const documentId = document.id
+    const namespace = getUserNamespace(document.user_id)
+
+    const chunkIds = await listVersionChunkIds(documentId, version, { namespace }).catch(() => [] as string[])
+    for (let i = 0; i < chunkIds.length; i += 100) {
+      await deleteVectors({ ids: chunkIds.slice(i, i + 100), namespace }).catch(() => undefined)
+    }
+
+    await upsertVectors(
+      [{ id: documentId, values: createPlaceholderVector(), metadata: { ...document, record_type: "document" } }],
+      { namespace },
+    ).catch(() => undefined)
+
+    const versions = await listDocumentVersions(documentId, { namespace }).catch(() => [] as DocumentVersion[])
+    const versionRecord = versions.find((entry) => entry.version === version)
+    if (versionRecord) {
+      await saveDocumentVersion({ ...versionRecord, status: "failed", error_message: message }).catch(() => undefined)
+    }
+  }
+
+  /**
+   * List the versions of a document, newest first
+   * Documents uploaded before versioning report their current state as version 1
+   *
+   * @param documentId - Document ID
+   * @param userId - Owner of the document
+   * @returns Versions of the document, or null if the document does not exist
+   */
+  public async getVersionHistory(documentId: string, userId: string): Promise<DocumentVersion[] | null> {
+    const document = await this.getDocument(documentId, userId)
+
+    if (!document) {
+      return null
+    }
+
+    const versions = await listDocumentVersions(documentId, { namespace: getUserNamespace(userId) })
+
+    return versions.length > 0 ? versions : [this.toVersionRecord(document, document.version ?? 1)]
+  }
+
+  /**
+   * Serve an earlier version of a document again
+   * The document record takes over the file details of the restored version
+   *
+   * @param documentId - Document ID
+   * @param userId - Owner of the document
+   * @param version - Version to restore
+   * @returns Updated document
+   * @throws DocumentProcessingError if the version cannot be restored
+   */
+  public async rollbackToVersion(documentId: string, userId: string, version: number): Promise<Document> {
+    const namespace = getUserNamespace(userId)
+    const document = await this.getDocument(documentId, userId)
+
+    if (!document) {
+      throw new DocumentProcessingError(`Document not found: ${documentId}`, {
+        code: "document_not_found",
+        context: { documentId },
+      })
+    }
+
+    if (document.status === "processing") {
+      throw new DocumentProcessingError(`Document is still processing: ${documentId}`, {
+        code: "document_busy",
+        retryable: true,
+        context: { documentId },
+      })
+    }
+
+    const currentVersion = document.version ?? 1
+    if (version === currentVersion) {
+      return document
+    }
+
+    const target = (await listDocumentVersions(documentId, { namespace })).find((entry) => entry.version === version)
+
+    if (!target) {
+      throw new DocumentProcessingError(`Version ${version} of document ${documentId} not found`, {
+        code: "version_not_found",
+        context: { documentId, version },
+      })
+    }
+
+    if (target.purged || target.status !== "indexed") {
+      throw new DocumentProcessingError(`Version ${version} of document ${documentId} cannot be restored`, {
+        code: target.purged ? "version_purged" : "version_not_indexed",
+        context: { documentId, version, status: target.status },
+      })
+    }
+
+    await this.retryOperation(
+      () => setVersionLatest(documentId, version, true, { namespace }),
+      `Publish version ${version}`,
+    )
+    await this.retryOperation(
+      () => setVersionLatest(documentId, currentVersion, false, { namespace }),
+      `Retire version ${currentVersion}`,
+    )
+
+    const restored: Document = {
+      ...document,
+      name: target.name,
+      file_type: target.file_type,
+      file_size: target.file_size,
+      file_path: target.file_path,
+      blob_url: target.blob_url,
+      chunk_count: target.chunk_count,
+      content_hash: target.content_hash,
+      version,
+      updated_at: new Date().toISOString(),
+    }
+
+    await upsertVectors(
+      [{ id: documentId, values: createPlaceholderVector(), metadata: { ...restored, record_type: "document" } }],
+      { namespace },
+    )
+
+    await this.syncGraphToVersion(documentId, userId, version)
+
+    logger.info(`Rolled back document ${documentId} to version ${version}`, {
+      documentId,
+      version,
+      previousVersion: currentVersion,
+    })
+
+    return restored
+  }
+
   /**
    * Get document by ID
    *
    * @param id - Document ID
+   * @param userId - Owner of the document
    * @returns Document or null if not found
    */
-  public async getDocument(id: string): Promise<Document | null> {
+  public async getDocument(id: string, userId: string): Promise<Document | null> {
     try {
       logger.info(`Getting document: ${id}`, { id })
 
@@ -719,6 +1474,7 @@ export class DocumentService {
         },
         includeMetadata: true,
         topK: 1,
+        namespace: getUserNamespace(userId),
       })
 
       // Check if document was found
@@ -744,6 +1500,18 @@ export class DocumentService {
         created_at: match.metadata?.created_at as string,
         updated_at: match.metadata?.updated_at as string,
         chunk_count: match.metadata?.chunk_count as number | undefined,
+        page_count: match.metadata?.page_count as number | undefined,
+        title: match.metadata?.title as string | undefined,
+        canonical_url: match.metadata?.canonical_url as string | undefined,
+        file_count: match.metadata?.file_count as number | undefined,
+        batch_id: match.metadata?.batch_id as string | undefined,
+        version: match.metadata?.version as number | undefined,
+        version_count: match.metadata?.version_count as number | undefined,
+        content_hash: match.metadata?.content_hash as string | undefined,
+        duplicate_of: match.metadata?.duplicate_of as string | undefined,
+        summary: match.metadata?.summary as string | undefined,
+        tags: match.metadata?.tags as string[] | undefined,
+        language: match.metadata?.language as string | undefined,
         embedding_model: match.metadata?.embedding_model as string | undefined,
         debug_info: match.metadata?.debug_info as Record<string, any> | undefined,
       }
@@ -774,12 +1542,12 @@ export class DocumentService {
    */
   public async listDocuments(
     filters: {
-      userId?: string
+      userId: string
       status?: "processing" | "indexed" | "failed"
       fileType?: string
       dateRange?: { from?: Date; to?: Date }
       search?: string
-    } = {},
+    },
     pagination: PaginationOptions = {},
   ): Promise<DocumentListResult> {
     try {
@@ -828,6 +1596,7 @@ export class DocumentService {
         filter,
         includeMetadata: true,
         topK: limit + offset + 1, // Get one extra to check if there are more
+        namespace: getUserNamespace(filters.userId),
       })
 
       // Extract documents from metadata
@@ -854,6 +1623,18 @@ export class DocumentService {
         created_at: match.metadata?.created_at as string,
         updated_at: match.metadata?.updated_at as string,
         chunk_count: match.metadata?.chunk_count as number | undefined,
+        page_count: match.metadata?.page_count as number | undefined,
+        title: match.metadata?.title as string | undefined,
+        canonical_url: match.metadata?.canonical_url as string | undefined,
+        file_count: match.metadata?.file_count as number | undefined,
+        batch_id: match.metadata?.batch_id as string | undefined,
+        version: match.metadata?.version as number | undefined,
+        version_count: match.metadata?.version_count as number | undefined,
+        content_hash: match.metadata?.content_hash as string | undefined,
+        duplicate_of: match.metadata?.duplicate_of as string | undefined,
+        summary: match.metadata?.summary as string | undefined,
+        tags: match.metadata?.tags as string[] | undefined,
+        language: match.metadata?.language as string | undefined,
         embedding_model: match.metadata?.embedding_model as string | undefined,
       }))
 
@@ -895,11 +1676,13 @@ export class DocumentService {
    * Delete document and all its chunks
    *
    * @param id - Document ID
+   * @param userId - Owner of the document
    * @returns True if deletion was successful
    */
-  public async deleteDocument(id: string): Promise<boolean> {
+  public async deleteDocument(id: string, userId: string): Promise<boolean> {
     try {
       logger.info(`Deleting document: ${id}`, { id })
+      const namespace = getUserNamespace(userId)
 
       // Create a placeholder vector for querying
       const placeholderVector = createPlaceholderVector()
@@ -911,7 +1694,8 @@ export class DocumentService {
           record_type: { $eq: "chunk" },
         },
         includeMetadata: false,
-        topK: 1000, // Adjust based on expected maximum chunks
+        topK: MAX_STORED_CHUNKS,
+        namespace,
       })
 
       // Get chunk IDs
@@ -927,12 +1711,26 @@ export class DocumentService {
         // Delete in batches of 100
         for (let i = 0; i < chunkIds.length; i += 100) {
           const batchIds = chunkIds.slice(i, i + 100)
-          await deleteVectors({ ids: batchIds })
+          await deleteVectors({ ids: batchIds, namespace })
         }
       }
 
+      // Delete version records; their chunks were removed with the document's other chunks
+      const versions = await listDocumentVersions(id, { namespace })
+      if (versions.length > 0) {
+        await deleteVectors({ ids: versions.map((entry) => getVersionRecordId(id, entry.version)), namespace })
+      }
+
+      // Remove the document's entities and relationships, keeping those other documents mention
+      await removeDocumentFromGraph(id, userId).catch((error) => {
+        logger.warn(`Failed to remove document from knowledge graph: ${id}`, {
+          id,
+          error: error instanceof Error ? error.message : "Unknown error",
+        })
+      })
+
       // Delete document
-      await deleteVectors({ ids: [id] })
+      await deleteVectors({ ids: [id], namespace })
 
       logger.info(`Document deleted successfully: ${id}`, { id })
       return true
@@ -954,16 +1752,23 @@ export class DocumentService {
 
   /**
    * Retry document processing
+   * Chunks that are unchanged since the last run keep their embeddings; only new or changed chunks are embedded
    *
    * @param id - Document ID
+   * @param userId - Owner of the document
+   * @param options - Processing options
    * @returns Processing result
    */
-  public async retryProcessing(id: string): Promise<DocumentProcessingResult> {
+  public async retryProcessing(
+    id: string,
+    userId: string,
+    options: DocumentProcessingOptions = {},
+  ): Promise<DocumentProcessingResult> {
     try {
       logger.info(`Retrying document processing: ${id}`, { id })
 
       // Get document
-      const document = await this.getDocument(id)
+      const document = await this.getDocument(id, userId)
 
       if (!document) {
         throw new DocumentProcessingError(`Document not found: ${id}`, {
@@ -993,13 +1798,10 @@ export class DocumentService {
         )
       }
 
-      const content = await response.text()
-
-      // Delete existing document chunks
-      await this.deleteDocument(id)
+      const extracted = await this.extractContent(id, await response.arrayBuffer(), document.file_type, document.name)
 
-      // Process document
-      return await this.processDocument(id, content, document)
+      // Process document; stale chunks are removed once the new ones are stored
+      return await this.processDocument(id, extracted, document, options)
     } catch (error) {
       logger.error(`Error retrying document processing: ${id}`, {
         id,
@@ -1025,14 +1827,15 @@ export class DocumentService {
    * Get document status
    *
    * @param id - Document ID
+   * @param userId - Owner of the document
    * @returns Document status
    */
-  public async getDocumentStatus(id: string): Promise<DocumentStatus | null> {
+  public async getDocumentStatus(id: string, userId: string): Promise<DocumentStatus | null> {
     try {
       logger.info(`Getting document status: ${id}`, { id })
 
       // Get document
-      const document = await this.getDocument(id)
+      const document = await this.getDocument(id, userId)
 
       if (!document) {
         return null
@@ -1065,10 +1868,10 @@ export class DocumentService {
   /**
    * Get document statistics
    *
-   * @param userId - Optional user ID to filter by
+   * @param userId - User ID
    * @returns Document statistics
    */
-  public async getDocumentStats(userId?: string): Promise<{
+  public async getDocumentStats(userId: string): Promise<{
     total: number
     byStatus: Record<string, number>
     byType: Record<string, number>
@@ -1080,10 +1883,6 @@ export class DocumentService {
         record_type: "document",
       }
 
-      if (userId) {
-        filter.user_id = { $eq: userId }
-      }
-
       // Create a placeholder vector for querying
       const placeholderVector = createPlaceholderVector()
 
@@ -1092,6 +1891,7 @@ export class DocumentService {
         filter,
         includeMetadata: true,
         topK: 1000, // Adjust based on expected maximum documents
+        namespace: getUserNamespace(userId),
       })
 
       // Extract documents from metadata
@@ -1141,10 +1941,71 @@ export class DocumentService {
     }
   }
 
+  /**
+   * Build a version record from a document's current file details
+   *
+   * @param document - Document
+   * @param version - Version number the details belong to
+   * @returns Version record
+   */
+  private toVersionRecord(document: Document, version: number): DocumentVersion {
+    return {
+      document_id: document.id,
+      version,
+      user_id: document.user_id,
+      name: document.name,
+      file_type: document.file_type,
+      file_size: document.file_size,
+      file_path: document.file_path,
+      blob_url: document.blob_url,
+      status: document.status,
+      chunk_count: document.chunk_count,
+      error_message: document.error_message,
+      content_hash: document.content_hash,
+      created_at: document.created_at,
+      updated_at: document.updated_at,
+    }
+  }
+
+  /**
+   * Mark a document as failed when its processing was abandoned, e.g. after a job ran out of attempts
+   *
+   * @param documentId - Document ID
+   * @param userId - Owner of the document
+   * @param message - Error message shown to the user
+   */
+  public async markProcessingFailed(documentId: string, userId: string, message: string): Promise<void> {
+    await this.updateDocumentStatus(documentId, userId, "failed", 0, message)
+  }
+
+  /**
+   * Point the document's part of the knowledge graph at the chunks of the version search now serves
+   * Failures and runs stopped at the deadline are logged; the graph catches up the next time the document is processed
+   *
+   * @param documentId - Document ID
+   * @param userId - Owner of the document
+   * @param version - Version search serves
+   * @param deadline - Epoch milliseconds after which extraction stops, keeping what it saved
+   */
+  private async syncGraphToVersion(documentId: string, userId: string, version: number, deadline?: number) {
+    if (!isGraphExtractionEnabled()) {
+      return
+    }
+
+    await syncDocumentGraphFromIndex(documentId, userId, version, { deadline }).catch((error) => {
+      logger.warn(`Failed to sync knowledge graph to version ${version}: ${documentId}`, {
+        documentId,
+        version,
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    })
+  }
+
   /**
    * Update document status
    *
    * @param documentId - Document ID
+   * @param userId - Owner of the document
    * @param status - New status
    * @param progress - Processing progress (0-100)
    * @param message - Status message
@@ -1152,6 +2013,7 @@ export class DocumentService {
    */
   private async updateDocumentStatus(
     documentId: string,
+    userId: string,
     status: "processing" | "indexed" | "failed",
     progress = 0,
     message = "",
@@ -1166,11 +2028,12 @@ export class DocumentService {
       })
 
       // Get current document metadata
-      const document = await this.getDocument(documentId)
+      const document = await this.getDocument(documentId, userId)
 
       // If document doesn't exist, create a placeholder
       const metadata = document || {
         id: documentId,
+        user_id: userId,
         status: "processing",
         processing_progress: 0,
         created_at: new Date().toISOString(),
@@ -1203,16 +2066,19 @@ export class DocumentService {
       const placeholderVector = createPlaceholderVector()
 
       // Update document vector
-      await upsertVectors([
-        {
-          id: documentId,
-          values: placeholderVector,
-          metadata: {
-            ...updatedMetadata,
-            record_type: "document",
+      await upsertVectors(
+        [
+          {
+            id: documentId,
+            values: placeholderVector,
+            metadata: {
+              ...updatedMetadata,
+              record_type: "document",
+            },
           },
-        },
-      ])
+        ],
+        { namespace: getUserNamespace(userId) },
+      )
     } catch (error) {
       logger.error(`Failed to update document status: ${documentId}`, {
         documentId,
@@ -1225,6 +2091,44 @@ export class DocumentService {
     }
   }
 
+  /**
+   * Extract text segments from raw file bytes
+   *
+   * @param documentId - Document ID
+   * @param data - Raw file bytes
+   * @param fileType - File MIME type
+   * @param fileName - File name
+   * @returns Extracted document
+   * @throws DocumentProcessingError if the file is too large or extraction fails
+   */
+  private async extractContent(
+    documentId: string,
+    data: ArrayBuffer,
+    fileType: string,
+    fileName: string,
+  ): Promise<ExtractedDocument> {
+    // Every entry point stores the file before processing it, so the size is enforced here
+    const maxSize = getMaxDocumentSize(fileType, fileName)
+    if (data.byteLength > maxSize) {
+      throw new DocumentProcessingError(`Document is too large: ${data.byteLength} bytes (max ${maxSize} bytes)`, {
+        code: "file_too_large",
+        context: { documentId, fileType, fileName, fileSize: data.byteLength },
+      })
+    }
+
+    try {
+      return await extractDocument(data, { fileType, fileName })
+    } catch (error) {
+      throw new DocumentProcessingError(
+        `Failed to extract document text: ${error instanceof Error ? error.message : "Unknown error"}`,
+        {
+          code: error instanceof ExtractionError ? error.code : "extraction_failed",
+          context: { documentId, fileType, fileName },
+        },
+      )
+    }
+  }
+
   /**
    * Report progress to callback if provided
    *
@@ -1265,6 +2169,11 @@ export class DocumentService {
       try {
         return await operation()
       } catch (error) {
+        // A pause is not a failure; the job run ends and the next one continues
+        if (error instanceof JobPausedError) {
+          throw error
+        }
+
         lastError = error instanceof Error ? error : new Error(String(error))
 
         // If this was the last retry, throw the error
@@ -1368,11 +2277,12 @@ export function generateDocumentId(): string {
  * Get document by ID from API
  *
  * @param id - Document ID
+ * @param userId - Owner of the document
  * @returns Document or null if not found
  */
-export async function fetchDocumentById(id: string): Promise<Document | null> {
+export async function fetchDocumentById(id: string, userId: string): Promise<Document | null> {
   try {
-    const document = await documentService.getDocument(id)
+    const document = await documentService.getDocument(id, userId)
     return document
   } catch (error) {
     logger.error(`Failed to fetch document by ID: ${id}`, {
@@ -1463,7 +2373,7 @@ export async function createDocument(content: string, metadata: Partial<Document
     const result = await documentService.processDocument(documentId, content, metadata)
 
     // Get the processed document
-    const document = await documentService.getDocument(documentId)
+    const document = await documentService.getDocument(documentId, metadata.user_id || "")
 
     if (!document) {
       throw new DocumentProcessingError(`Failed to retrieve created document: ${documentId}`, {
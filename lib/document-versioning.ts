@@ -0,0 +1,423 @@
+/**
+ * Document Versioning
+ *
+ * Keeps the history of a document that is uploaded more than once. Every upload becomes a
+ * numbered version with its own chunk vectors; chunk vectors carry `version` and `is_latest`
+ * so search serves the current version while older ones remain browsable. A retention
+ * policy decides how many old versions keep their vectors and blobs.
+ *
+ * Features:
+ * - Version records stored next to document records in the owner's namespace
+ * - Switching the served version by flipping `is_latest` on chunk vectors
+ * - Filters for the latest version that also match chunks written before versioning
+ * - Retention policy purging vectors, and optionally blobs, of old versions
+ * - Edge runtime compatible (no Node.js specific modules)
+ *
+ * Dependencies:
+ * - @/lib/vector-store for record and vector storage
+ * - @/lib/blob-client for removing purged blobs
+ * - @/lib/job-queue for pausing at the job deadline
+ * - @/lib/utils/logger for structured logging
+ *
+ * @module lib/document-versioning
+ */
+
+import { logger } from "@/lib/utils/logger"
+import {
+  createPlaceholderVector,
+  deleteVectors,
+  getUserNamespace,
+  queryVectors,
+  updateVectorMetadata,
+  upsertVectors,
+} from "@/lib/vector-store"
+import { deleteFromBlob } from "@/lib/blob-client"
+import { JobPausedError } from "@/lib/job-queue"
+import type { DocumentVersion } from "@/types"
+
+// Most chunk vectors listed for one document; Pinecone returns up to 10000 matches without metadata
+export const MAX_STORED_CHUNKS = 10000
+
+// Upper bound on version records read for one document
+const MAX_VERSIONS = 1000
+
+/**
+ * Retention policy for versions that are no longer served
+ */
+export interface VersionRetentionPolicy {
+  // Number of most recent versions whose vectors are kept; 0 keeps every version
+  keepVersions: number
+  // Whether the blob of a purged version is deleted as well
+  purgeBlobs: boolean
+}
+
+/**
+ * Versioning error class
+ */
+export class VersioningError extends Error {
+  code: string
+  retryable: boolean
+  context?: Record<string, any>
+
+  constructor(
+    message: string,
+    options: {
+      code?: string
+      retryable?: boolean
+      context?: Record<string, any>
+    } = {},
+  ) {
+    super(message)
+    this.name = "VersioningError"
+    this.code = options.code || "versioning_error"
+    this.retryable = options.retryable ?? false
+    this.context = options.context
+  }
+}
+
+/**
+ * Reads the retention policy from the environment
+ * DOCUMENT_VERSIONS_TO_KEEP (default 10, 0 keeps all) and DOCUMENT_VERSION_PURGE_BLOBS (default true)
+ *
+ * @returns Retention policy
+ */
+export function getVersionRetentionPolicy(): VersionRetentionPolicy {
+  const keepVersions = Number.parseInt(process.env.DOCUMENT_VERSIONS_TO_KEEP || "", 10)
+
+  return {
+    keepVersions: Number.isNaN(keepVersions) || keepVersions < 0 ? 10 : keepVersions,
+    purgeBlobs: process.env.DOCUMENT_VERSION_PURGE_BLOBS !== "false",
+  }
+}
+
+/**
+ * Filter clause matching chunk vectors of the given versions
+ * Chunks written before versioning have no version field and belong to version 1. The clause is
+ * an $or, so combine it with other clauses under $and rather than spreading it into a filter.
+ *
+ * @param versions - Version numbers
+ * @returns Pinecone metadata filter clause
+ */
+export function getVersionClause(versions: number[]): Record<string, any> {
+  return {
+    $or: [
+      { version: { $in: versions } },
+      ...(versions.includes(1) ? [{ version: { $exists: false } }] : []),
+    ],
+  }
+}
+
+/**
+ * Filter clause matching chunk vectors of the version each document currently serves
+ * Chunks written before versioning have no is_latest field and are always current. Like
+ * getVersionClause, the clause is an $or to combine under $and.
+ *
+ * @returns Pinecone metadata filter clause
+ */
+export function getLatestVersionClause(): Record<string, any> {
+  return {
+    $or: [{ is_latest: { $eq: true } }, { is_latest: { $exists: false } }],
+  }
+}
+
+/**
+ * Builds the record ID of a document version
+ *
+ * @param documentId - Document ID
+ * @param version - Version number
+ * @returns Record ID
+ */
+export function getVersionRecordId(documentId: string, version: number): string {
+  return `${documentId}_v${version}`
+}
+
+/**
+ * Saves a version record in its owner's namespace, replacing any previous state
+ *
+ * @param version - Version to save
+ * @throws VersioningError if the record cannot be stored
+ */
+export async function saveDocumentVersion(version: DocumentVersion): Promise<void> {
+  const id = getVersionRecordId(version.document_id, version.version)
+
+  try {
+    await upsertVectors(
+      [
+        {
+          id,
+          values: createPlaceholderVector(),
+          metadata: {
+            id,
+            document_id: version.document_id,
+            version: version.version,
+            user_id: version.user_id,
+            name: version.name,
+            file_type: version.file_type,
+            file_size: version.file_size,
+            file_path: version.file_path,
+            ...(version.blob_url && { blob_url: version.blob_url }),
+            status: version.status,
+            ...(version.chunk_count !== undefined && { chunk_count: version.chunk_count }),
+            ...(version.content_hash && { content_hash: version.content_hash }),
+            ...(version.error_message && { error_message: version.error_message }),
+            purged: version.purged ?? false,
+            created_at: version.created_at,
+            updated_at: new Date().toISOString(),
+            record_type: "document_version",
+          },
+        },
+      ],
+      { namespace: getUserNamespace(version.user_id) },
+    )
+  } catch (error) {
+    logger.error(`Failed to save document version: ${id}`, {
+      documentId: version.document_id,
+      version: version.version,
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+
+    throw new VersioningError(
+      `Failed to save document version: ${error instanceof Error ? error.message : "Unknown error"}`,
+      {
+        code: "version_save_failed",
+        retryable: true,
+        context: { documentId: version.document_id, version: version.version },
+      },
+    )
+  }
+}
+
+/**
+ * Lists the version records of a document, newest first
+ *
+ * @param documentId - Document ID
+ * @param options - Namespace holding the document
+ * @returns Versions of the document
+ * @throws VersioningError if the lookup fails or the document has more versions than one query lists
+ */
+export async function listDocumentVersions(
+  documentId: string,
+  options: { namespace: string },
+): Promise<DocumentVersion[]> {
+  try {
+    const response = await queryVectors(createPlaceholderVector(), {
+      filter: {
+        document_id: { $eq: documentId },
+        record_type: { $eq: "document_version" },
+      },
+      includeMetadata: true,
+      topK: MAX_VERSIONS,
+      namespace: options.namespace,
+    })
+
+    if (response.error) {
+      throw new Error(response.errorMessage || "Query failed")
+    }
+
+    // A full page may have left versions out, and the next version number would then collide
+    if ((response.matches || []).length >= MAX_VERSIONS) {
+      throw new VersioningError(`Document has ${MAX_VERSIONS} or more versions, more than can be listed`, {
+        code: "too_many_versions",
+        context: { documentId },
+      })
+    }
+
+    return (response.matches || [])
+      .map((match) => ({
+        document_id: match.metadata?.document_id as string,
+        version: match.metadata?.version as number,
+        user_id: match.metadata?.user_id as string,
+        name: match.metadata?.name as string,
+        file_type: match.metadata?.file_type as string,
+        file_size: match.metadata?.file_size as number,
+        file_path: match.metadata?.file_path as string,
+        blob_url: match.metadata?.blob_url as string | undefined,
+        status: match.metadata?.status as DocumentVersion["status"],
+        chunk_count: match.metadata?.chunk_count as number | undefined,
+        content_hash: match.metadata?.content_hash as string | undefined,
+        error_message: match.metadata?.error_message as string | undefined,
+        purged: Boolean(match.metadata?.purged),
+        created_at: match.metadata?.created_at as string,
+        updated_at: match.metadata?.updated_at as string,
+      }))
+      .sort((a, b) => b.version - a.version)
+  } catch (error) {
+    if (error instanceof VersioningError) {
+      throw error
+    }
+
+    logger.error(`Error listing document versions: ${documentId}`, {
+      documentId,
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+
+    throw new VersioningError(
+      `Failed to list document versions: ${error instanceof Error ? error.message : "Unknown error"}`,
+      {
+        code: "list_versions_failed",
+        context: { documentId },
+      },
+    )
+  }
+}
+
+/**
+ * Lists the IDs of a document's chunk vectors for one version
+ *
+ * @param documentId - Document ID
+ * @param version - Version number
+ * @param options - Namespace holding the document
+ * @returns Chunk vector IDs
+ * @throws VersioningError if the query fails or the version has more chunk vectors than one query lists
+ */
+export async function listVersionChunkIds(
+  documentId: string,
+  version: number,
+  options: { namespace: string },
+): Promise<string[]> {
+  const response = await queryVectors(createPlaceholderVector(), {
+    filter: {
+      document_id: { $eq: documentId },
+      record_type: { $eq: "chunk" },
+      $and: [getVersionClause([version])],
+    },
+    includeMetadata: false,
+    topK: MAX_STORED_CHUNKS,
+    namespace: options.namespace,
+  })
+
+  if (response.error) {
+    throw new VersioningError(`Failed to list version chunks: ${response.errorMessage}`, {
+      code: "query_failed",
+      retryable: true,
+      context: { documentId, version },
+    })
+  }
+
+  const ids = (response.matches || []).map((match) => match.id)
+
+  // A full page may have left chunks out, which would then keep their old served state or outlive a purge
+  if (ids.length >= MAX_STORED_CHUNKS) {
+    throw new VersioningError(`Version has ${MAX_STORED_CHUNKS} or more stored chunks, more than can be listed`, {
+      code: "too_many_chunks",
+      context: { documentId, version },
+    })
+  }
+
+  return ids
+}
+
+/**
+ * Marks the chunk vectors of a version as served or not served by search
+ *
+ * @param documentId - Document ID
+ * @param version - Version number
+ * @param isLatest - Whether search should return the version's chunks
+ * @param options - Namespace holding the document, and the epoch milliseconds after which a job run pauses
+ * @returns Number of chunk vectors updated
+ * @throws VersioningError if the chunks cannot be listed
+ * @throws JobPausedError if the deadline passes before every chunk is updated; running again finishes the switch
+ */
+export async function setVersionLatest(
+  documentId: string,
+  version: number,
+  isLatest: boolean,
+  options: { namespace: string; deadline?: number },
+): Promise<number> {
+  const chunkIds = await listVersionChunkIds(documentId, version, options)
+  const timestamp = new Date().toISOString()
+
+  for (let i = 0; i < chunkIds.length; i++) {
+    if (options.deadline !== undefined && Date.now() >= options.deadline) {
+      throw new JobPausedError(`Paused after updating ${i}/${chunkIds.length} chunks of version ${version}`, {})
+    }
+
+    // The version is written too, so chunks stored before versioning become addressable by version
+    await updateVectorMetadata(
+      chunkIds[i],
+      { version, is_latest: isLatest, updated_at: timestamp },
+      { namespace: options.namespace },
+    )
+  }
+
+  logger.info(`Set version ${version} of ${documentId} to ${isLatest ? "latest" : "superseded"}`, {
+    documentId,
+    version,
+    chunkCount: chunkIds.length,
+  })
+
+  return chunkIds.length
+}
+
+/**
+ * Removes a version's chunk vectors, and its blob when the policy says so
+ * The version record is kept and marked as purged so the history stays complete
+ *
+ * @param version - Version to purge
+ * @param policy - Retention policy
+ * @returns Updated version record
+ */
+export async function purgeDocumentVersion(
+  version: DocumentVersion,
+  policy: VersionRetentionPolicy = getVersionRetentionPolicy(),
+): Promise<DocumentVersion> {
+  const namespace = getUserNamespace(version.user_id)
+  const chunkIds = await listVersionChunkIds(version.document_id, version.version, { namespace })
+
+  for (let i = 0; i < chunkIds.length; i += 100) {
+    await deleteVectors({ ids: chunkIds.slice(i, i + 100), namespace })
+  }
+
+  let blobDeleted = false
+  if (policy.purgeBlobs && version.blob_url) {
+    // A missing blob should not keep the version from being purged
+    blobDeleted = await deleteFromBlob(version.blob_url).catch(() => false)
+  }
+
+  const purged: DocumentVersion = {
+    ...version,
+    blob_url: blobDeleted ? undefined : version.blob_url,
+    purged: true,
+  }
+  await saveDocumentVersion(purged)
+
+  logger.info(`Purged version ${version.version} of ${version.document_id}`, {
+    documentId: version.document_id,
+    version: version.version,
+    chunkCount: chunkIds.length,
+    blobDeleted,
+  })
+
+  return purged
+}
+
+/**
+ * Purges versions that fall outside the retention policy
+ * The served version is never purged, even when it is older than the kept range
+ *
+ * @param documentId - Document ID
+ * @param currentVersion - Version search currently serves
+ * @param options - Namespace holding the document and an optional policy override
+ * @returns Version numbers that were purged
+ */
+export async function applyRetentionPolicy(
+  documentId: string,
+  currentVersion: number,
+  options: { namespace: string; policy?: VersionRetentionPolicy },
+): Promise<number[]> {
+  const policy = options.policy || getVersionRetentionPolicy()
+  if (policy.keepVersions === 0) {
+    return []
+  }
+
+  const versions = await listDocumentVersions(documentId, options)
+  const expired = versions
+    .slice(policy.keepVersions)
+    .filter((version) => !version.purged && version.version !== currentVersion)
+
+  for (const version of expired) {
+    await purgeDocumentVersion(version, policy)
+  }
+
+  return expired.map((version) => version.version)
+}
@@ -0,0 +1,403 @@
+/**
+ * Embedding Cache
+ *
+ * Persistent cache of embeddings in a Supabase table shared by every instance. Edge isolates
+ * are short-lived and do not share memory, so a cache held in memory was mostly empty and the
+ * same query texts were embedded again and again. Entries are content addressed: the key names
+ * the provider, model, dimensions and input type, followed by the SHA-256 hash of the text, so
+ * different texts cannot share an entry and vectors of one model are never served for another.
+ *
+ * Entries expire EMBEDDING_CACHE_TTL_DAYS after they are stored (30 by default). The table is
+ * pruned to EMBEDDING_CACHE_MAX_ENTRIES entries (20000 by default), least recently used first,
+ * at most once per PRUNE_INTERVAL on each instance. Set EMBEDDING_CACHE=false to turn the cache
+ * off.
+ *
+ * The cache never fails an embedding request: when Supabase is not configured or a request to
+ * it fails, lookups are misses and writes are skipped.
+ *
+ * Features:
+ * - Content-addressed keys with a strong hash of the text
+ * - TTL and size limits
+ * - Hit and miss counts of this instance, and hits recorded on every entry
+ * - Batched lookups and writes
+ * - Edge runtime compatible (no Node.js specific modules)
+ *
+ * Dependencies:
+ * - @/lib/supabase-client for the service role client
+ * - @/lib/utils/hash-utils for SHA-256 hashing
+ * - @/lib/utils/logger for structured logging
+ *
+ * @module lib/embedding-cache
+ */
+
+import type { PostgrestError, SupabaseClient } from "@supabase/supabase-js"
+import { getSupabaseServiceClient } from "@/lib/supabase-client"
+import { sha256Hex } from "@/lib/utils/hash-utils"
+import { logger } from "@/lib/utils/logger"
+import type { Database } from "@/types/supabase"
+
+type EmbeddingCacheInsert = Database["public"]["Tables"]["embedding_cache"]["Insert"]
+
+// Size and age limits
+const DEFAULT_MAX_ENTRIES = 20000
+const DEFAULT_TTL_DAYS = 30
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Minimum time between prunes on one instance
+const PRUNE_INTERVAL = 10 * 60 * 1000 // 10 minutes
+
+// Keys per lookup, keeping request URLs short, and entries per write
+const LOOKUP_BATCH_SIZE = 50
+const WRITE_BATCH_SIZE = 50
+
+/**
+ * Provider, model, dimensions and input type an embedding was made with
+ */
+export interface EmbeddingCacheScope {
+  provider: string
+  model: string
+  dimensions: number
+  inputType: string
+}
+
+/**
+ * Embedding to store under its cache key
+ */
+export interface EmbeddingCacheEntry {
+  key: string
+  embedding: number[]
+}
+
+/**
+ * Embedding cache statistics
+ * Ages are in milliseconds; hits and misses are those of this instance since it started, and
+ * storedHits the hits recorded on the entries currently cached
+ */
+export interface EmbeddingCacheStats {
+  enabled: boolean
+  size: number
+  maxEntries: number
+  ttl: number
+  hits: number
+  misses: number
+  hitRate: number | null
+  storedHits: number
+  oldestEntry: number | null
+  newestEntry: number | null
+  averageAge: number | null
+}
+
+// Whether the missing configuration has been logged
+let unconfiguredLogged = false
+
+// Time of the last prune on this instance
+let lastPruneAt = 0
+
+// Lookups on this instance
+let hits = 0
+let misses = 0
+
+/**
+ * Reads a positive integer from the environment
+ *
+ * @param variable - Environment variable
+ * @param fallback - Value when the variable is not set or invalid
+ * @returns The value
+ */
+function readPositiveInteger(variable: string, fallback: number): number {
+  const value = Number.parseInt(process.env[variable] || "", 10)
+  return Number.isFinite(value) && value > 0 ? value : fallback
+}
+
+/**
+ * Returns the maximum number of cached embeddings
+ *
+ * @returns Maximum entries
+ */
+function getMaxEntries(): number {
+  return readPositiveInteger("EMBEDDING_CACHE_MAX_ENTRIES", DEFAULT_MAX_ENTRIES)
+}
+
+/**
+ * Returns how long cached embeddings are kept
+ *
+ * @returns TTL in milliseconds
+ */
+function getTtl(): number {
+  return readPositiveInteger("EMBEDDING_CACHE_TTL_DAYS", DEFAULT_TTL_DAYS) * DAY_MS
+}
+
+/**
+ * Returns the service role Supabase client
+ *
+ * @returns Supabase client, or null when the cache is turned off or Supabase is not configured
+ */
+function getClient(): SupabaseClient<Database> | null {
+  if (process.env.EMBEDDING_CACHE === "false") {
+    return null
+  }
+
+  const client = getSupabaseServiceClient()
+
+  if (!client && !unconfiguredLogged) {
+    unconfiguredLogged = true
+    logger.warn("Embedding cache is disabled: set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY to enable it")
+  }
+
+  return client
+}
+
+/**
+ * Logs a failed cache request; the caller carries on without the cache
+ *
+ * @param operation - Operation that failed
+ * @param error - Error returned by Supabase or thrown
+ * @param context - Details for the log
+ */
+function logCacheError(operation: string, error: PostgrestError | unknown, context: Record<string, any> = {}): void {
+  const message = error instanceof Error ? error.message : (error as PostgrestError)?.message || String(error)
+
+  logger.warn(`Embedding cache ${operation} failed`, {
+    ...context,
+    code: (error as PostgrestError)?.code,
+    error: message,
+  })
+}
+
+/**
+ * Creates the cache key of a text
+ *
+ * @param text - Text as sent to the provider
+ * @param scope - Provider, model, dimensions and input type the text is embedded with
+ * @returns Cache key
+ */
+export async function createEmbeddingCacheKey(text: string, scope: EmbeddingCacheScope): Promise<string> {
+  const hash = await sha256Hex(text)
+  return `${scope.provider}:${scope.model}:${scope.dimensions}:${scope.inputType}:${hash}`
+}
+
+/**
+ * Reads cached embeddings
+ * Entries found are marked as used, so pruning keeps them
+ *
+ * @param keys - Cache keys
+ * @returns Embeddings found, by key; empty when the cache is unavailable
+ */
+export async function getCachedEmbeddings(keys: string[]): Promise<Map<string, number[]>> {
+  const found = new Map<string, number[]>()
+  const uniqueKeys = keys.filter((key, index) => keys.indexOf(key) === index)
+  const supabase = getClient()
+
+  if (!supabase || uniqueKeys.length === 0) {
+    misses += keys.length
+    return found
+  }
+
+  const cutoff = new Date(Date.now() - getTtl()).toISOString()
+
+  try {
+    for (let i = 0; i < uniqueKeys.length; i += LOOKUP_BATCH_SIZE) {
+      const batch = uniqueKeys.slice(i, i + LOOKUP_BATCH_SIZE)
+      const { data, error } = await supabase
+        .from("embedding_cache")
+        .select("key, embedding")
+        .in("key", batch)
+        .gte("created_at", cutoff)
+
+      if (error) {
+        logCacheError("lookup", error, { keyCount: batch.length })
+        break
+      }
+
+      for (const row of data || []) {
+        found.set(row.key, row.embedding)
+      }
+    }
+
+    if (found.size > 0) {
+      const { error } = await supabase.rpc("touch_embedding_cache", { cache_keys: Array.from(found.keys()) })
+      if (error) {
+        logCacheError("hit count update", error, { keyCount: found.size })
+      }
+    }
+  } catch (error) {
+    logCacheError("lookup", error, { keyCount: uniqueKeys.length })
+  }
+
+  const hitCount = keys.filter((key) => found.has(key)).length
+  hits += hitCount
+  misses += keys.length - hitCount
+
+  return found
+}
+
+/**
+ * Stores embeddings, replacing entries with the same keys, and prunes the cache when due
+ *
+ * @param entries - Embeddings with their cache keys
+ * @param scope - Provider, model and dimensions the embeddings were made with
+ */
+export async function storeCachedEmbeddings(entries: EmbeddingCacheEntry[], scope: EmbeddingCacheScope): Promise<void> {
+  const supabase = getClient()
+
+  if (!supabase || entries.length === 0) {
+    return
+  }
+
+  const now = new Date().toISOString()
+  const rows: EmbeddingCacheInsert[] = entries.map((entry) => ({
+    key: entry.key,
+    provider: scope.provider,
+    model: scope.model,
+    dimensions: scope.dimensions,
+    embedding: entry.embedding,
+    hit_count: 0,
+    created_at: now,
+    last_used_at: now,
+  }))
+
+  try {
+    for (let i = 0; i < rows.length; i += WRITE_BATCH_SIZE) {
+      const { error } = await supabase
+        .from("embedding_cache")
+        .upsert(rows.slice(i, i + WRITE_BATCH_SIZE), { onConflict: "key" })
+
+      if (error) {
+        logCacheError("write", error, { entryCount: rows.length })
+        return
+      }
+    }
+  } catch (error) {
+    logCacheError("write", error, { entryCount: rows.length })
+    return
+  }
+
+  if (Date.now() - lastPruneAt >= PRUNE_INTERVAL) {
+    lastPruneAt = Date.now()
+    await pruneEmbeddingCache()
+  }
+}
+
+/**
+ * Removes expired entries, then the least recently used entries beyond the size limit
+ *
+ * @returns Number of entries removed
+ */
+export async function pruneEmbeddingCache(): Promise<number> {
+  const supabase = getClient()
+
+  if (!supabase) {
+    return 0
+  }
+
+  const maxEntries = getMaxEntries()
+  const ttlSeconds = Math.floor(getTtl() / 1000)
+
+  try {
+    const { data, error } = await supabase.rpc("prune_embedding_cache", {
+      max_entries: maxEntries,
+      ttl_seconds: ttlSeconds,
+    })
+
+    if (error) {
+      logCacheError("prune", error)
+      return 0
+    }
+
+    const removed = data ?? 0
+    if (removed > 0) {
+      logger.info("Embedding cache pruned", { entriesRemoved: removed, maxEntries, ttlSeconds })
+    }
+
+    return removed
+  } catch (error) {
+    logCacheError("prune", error)
+    return 0
+  }
+}
+
+/**
+ * Removes every cached embedding and resets the hit and miss counts
+ *
+ * @returns Number of entries removed
+ */
+export async function clearEmbeddingCache(): Promise<number> {
+  hits = 0
+  misses = 0
+
+  const supabase = getClient()
+
+  if (!supabase) {
+    return 0
+  }
+
+  try {
+    // PostgREST refuses deletes without a filter
+    const { error, count } = await supabase.from("embedding_cache").delete({ count: "exact" }).neq("key", "")
+
+    if (error) {
+      logCacheError("clear", error)
+      return 0
+    }
+
+    logger.info("Embedding cache cleared", { entriesRemoved: count ?? 0 })
+    return count ?? 0
+  } catch (error) {
+    logCacheError("clear", error)
+    return 0
+  }
+}
+
+/**
+ * Returns statistics about the embedding cache
+ * Size and entry ages are left empty when the cache cannot be read
+ *
+ * @returns Cache statistics
+ */
+export async function getEmbeddingCacheStats(): Promise<EmbeddingCacheStats> {
+  const lookups = hits + misses
+  const stats: EmbeddingCacheStats = {
+    enabled: false,
+    size: 0,
+    maxEntries: getMaxEntries(),
+    ttl: getTtl(),
+    hits,
+    misses,
+    hitRate: lookups > 0 ? hits / lookups : null,
+    storedHits: 0,
+    oldestEntry: null,
+    newestEntry: null,
+    averageAge: null,
+  }
+
+  const supabase = getClient()
+
+  if (!supabase) {
+    return stats
+  }
+
+  stats.enabled = true
+
+  try {
+    const { data, error } = await supabase.rpc("embedding_cache_stats")
+
+    if (error) {
+      logCacheError("statistics", error)
+      return stats
+    }
+
+    const row = data?.[0]
+    if (row) {
+      const now = Date.now()
+      stats.size = Number(row.entries)
+      stats.storedHits = Number(row.hits)
+      stats.oldestEntry = row.oldest_at ? now - new Date(row.oldest_at).getTime() : null
+      stats.newestEntry = row.newest_at ? now - new Date(row.newest_at).getTime() : null
+      stats.averageAge = row.average_age_seconds !== null ? row.average_age_seconds * 1000 : null
+    }
+  } catch (error) {
+    logCacheError("statistics", error)
+  }
+
+  return stats
+}
@@ -9,14 +9,31 @@
  * - Pinecone index must be created with matching dimensions
  * - The host URL format for Serverless must be obtained from the Pinecone console
  *
+ * The provider, model and dimension here describe the index the application starts with, and
+ * are read from the environment:
+ * - EMBEDDING_PROVIDER: "openai" (default), "cohere" or "local" (see lib/embedding-providers)
+ * - EMBEDDING_MODEL: model of the provider, the provider's default model when not set
+ * - EMBEDDING_DIMENSION: dimension of the model's vectors, needed only for models the provider
+ *   does not know, or to shorten the vectors of models that support it
+ * The Pinecone index must hold vectors of that dimension; the pgvector backend keeps every
+ * dimension apart in one table and indexes each on first use. Indexes created by an embedding migration (see
+ * lib/embedding-migration) carry their own provider, model and dimension, and the vector store
+ * tracks which one search uses.
+ *
  * @module lib/embedding-config
  */
 
-// Configuration for the OpenAI embedding model
-export const EMBEDDING_MODEL = "text-embedding-3-large"
+import { EmbeddingError, getEmbeddingProvider } from "@/lib/embedding-providers"
+
+// Embedding provider of the original index
+export const EMBEDDING_PROVIDER = getEmbeddingProvider(process.env.EMBEDDING_PROVIDER).name
 
-// Dimension of vectors produced by the embedding model (3072 for text-embedding-3-large)
-export const VECTOR_DIMENSION = 3072
+// Embedding model of the original index (text-embedding-3-large by default)
+export const EMBEDDING_MODEL =
+  process.env.EMBEDDING_MODEL?.trim() || getEmbeddingProvider(EMBEDDING_PROVIDER).defaultModel
+
+// Dimension of the original index, as the provider reports it for the model (3072 for text-embedding-3-large)
+export const VECTOR_DIMENSION = resolveConfiguredDimension()
 
 // Index name from environment variables
 export const INDEX_NAME = process.env.PINECONE_INDEX_NAME || ""
@@ -24,22 +41,84 @@ export const INDEX_NAME = process.env.PINECONE_INDEX_NAME || ""
 // Get Pinecone host from environment variables, with fallback options
 export const PINECONE_HOST = process.env.PINECONE_HOST || process.env.PINECONE_ENVIRONMENT
 
+// Whether chunks and queries carry BM25 sparse vectors for hybrid search. Opt-in: Pinecone rejects upserts with
+// sparse values unless the index was created with the dotproduct metric, so set to "true" only for such indexes.
+export const SPARSE_VECTORS_ENABLED = process.env.PINECONE_SPARSE_VECTORS === "true"
+
+/**
+ * Reads the dimension of the original index from EMBEDDING_DIMENSION or the provider
+ *
+ * @returns Vector dimension
+ * @throws EmbeddingError if the dimension is invalid, or not set for a model the provider does not know
+ */
+function resolveConfiguredDimension(): number {
+  const configured = process.env.EMBEDDING_DIMENSION
+
+  if (configured) {
+    const dimension = Number(configured)
+    if (!Number.isInteger(dimension) || dimension < 1) {
+      throw new EmbeddingError(`EMBEDDING_DIMENSION must be a positive integer, got ${configured}`, {
+        retryable: false,
+        context: { error: "invalid_dimension" },
+      })
+    }
+    return dimension
+  }
+
+  const dimension = getEmbeddingProvider(EMBEDDING_PROVIDER).getDimension(EMBEDDING_MODEL)
+
+  if (!dimension) {
+    throw new EmbeddingError(
+      `The ${EMBEDDING_PROVIDER} provider does not know the dimension of ${EMBEDDING_MODEL}; set EMBEDDING_DIMENSION`,
+      { retryable: false, context: { error: "unknown_dimension", model: EMBEDDING_MODEL } },
+    )
+  }
+
+  return dimension
+}
+
+/**
+ * Creates a placeholder vector with small non-zero values
+ * Metadata-only lookups still need a query vector, and Pinecone rejects vectors of zeros
+ *
+ * @param dimension - Dimension of the index the vector is for
+ * @returns Non-zero vector with correct dimensions
+ */
+export function createPlaceholderVector(dimension: number = VECTOR_DIMENSION): number[] {
+  // Create a vector with small random values instead of zeros
+  return Array(dimension)
+    .fill(0)
+    .map(() => Math.random() * 0.001 + 0.0001) // Ensure values are never exactly zero
+}
+
+/**
+ * Checks whether a vector came from createPlaceholderVector
+ * Embeddings have negative components, placeholder vectors only small positive ones
+ *
+ * @param vector - Query vector
+ * @returns True for placeholder vectors, i.e. metadata-only lookups
+ */
+export function isPlaceholderVector(vector: number[]): boolean {
+  return vector.length > 0 && vector.every((value) => value >= 0.0001 && value <= 0.0011)
+}
+
 /**
  * Validates vector dimensions against the expected dimension
  * Ensures vectors match the configured embedding model
  * 
  * @param vector - The vector array to validate
+ * @param dimension - Dimension of the index the vector is for
  * @throws Error if vector dimensions don't match or vector contains only zeros
  */
-export function validateVectorDimension(vector: number[]): void {
+export function validateVectorDimension(vector: number[], dimension: number = VECTOR_DIMENSION): void {
   if (!vector || !Array.isArray(vector)) {
     throw new Error(`Invalid vector: expected array, got ${typeof vector}`)
   }
 
-  if (vector.length !== VECTOR_DIMENSION) {
+  if (vector.length !== dimension) {
     throw new Error(
-      `Vector dimension mismatch: Expected ${VECTOR_DIMENSION}, got ${vector.length}. ` +
-        `Make sure you're using the correct embedding model (${EMBEDDING_MODEL}).`,
+      `Vector dimension mismatch: Expected ${dimension}, got ${vector.length}. ` +
+        `Make sure you're using the embedding model of the index.`,
     )
   }
 
@@ -0,0 +1,737 @@
+/**
+ * Embedding Migration
+ *
+ * Moves the application to another embedding model, of the same or another embedding provider,
+ * without taking search down. The records of
+ * every user are copied from the active embedding index into a new one in the background, chunks
+ * re-embedded from their stored text with the new model and every other record copied as is.
+ * Search keeps using the old index until the copy is done, then switches over (blue/green), and
+ * the old index is kept until it is retired so the switch can be rolled back.
+ *
+ * A migration runs as a chain of migrate_embeddings jobs, each working for a time budget and
+ * queueing the next. Copied source records are marked with the target index ID, and writes made
+ * during the copy clear that marker (see lib/vector-store), so the copy runs in passes over all
+ * user namespaces until a pass finds nothing left to copy. Search then switches to the new index;
+ * once every instance has picked up the switch, a last pass copies what instances still writing
+ * to the old index wrote in the meantime.
+ *
+ * Records changed between being copied and being marked are left unmarked and copied again in
+ * the next pass. Writes made after a switch are not copied back by a rollback.
+ *
+ * Features:
+ * - Background re-embedding with progress per namespace and record
+ * - Reads switch only after the copy is complete
+ * - Rollback to the previous index until it is retired
+ * - Cancelling a migration removes what it copied
+ * - Edge runtime compatible (no Node.js specific modules)
+ *
+ * Dependencies:
+ * - @/lib/vector-store for the embedding index state and the stores of both indexes
+ * - @/lib/embedding-service for embedding chunks with the new model
+ * - @/lib/embedding-providers for the provider of the new model and its dimension
+ * - @/lib/sparse-encoder for the sparse values of re-embedded chunks
+ * - @/lib/job-queue for continuing the migration in background jobs
+ * - @/lib/utils/logger for structured logging
+ *
+ * @module lib/embedding-migration
+ */
+
+import { logger } from "@/lib/utils/logger"
+import {
+  createPlaceholderVector,
+  EMBEDDING_STATE_TTL_MS,
+  getEmbeddingIndexState,
+  getIndexNamespace,
+  getIndexStore,
+  listIndexNamespaces,
+  saveEmbeddingIndexState,
+  type EmbeddingIndex,
+  type EmbeddingIndexState,
+  type EmbeddingMigration,
+  type VectorQueryMatch,
+  type VectorRecord,
+  type VectorStore,
+} from "@/lib/vector-store"
+import { generateEmbeddings } from "@/lib/embedding-service"
+import { getEmbeddingProvider } from "@/lib/embedding-providers"
+import { SPARSE_VECTORS_ENABLED } from "@/lib/embedding-config"
+import { encodeSparseDocument } from "@/lib/sparse-encoder"
+import { enqueueJob } from "@/lib/job-queue"
+
+// Records copied per round trip
+const COPY_BATCH_SIZE = 100
+
+// Largest topK Pinecone accepts for queries that include metadata
+const MAX_TOP_K = 1000
+
+// Time a migration job keeps copying before it queues the next one
+const DEFAULT_TIME_BUDGET_MS = 20 * 1000
+
+// Copy passes after which search switches even if the last pass still found writes to copy;
+// the pass after the switch copies what is left
+const MAX_COPY_PASSES = 5
+
+// Parallel metadata updates when marking copied records
+const MARK_CONCURRENCY = 10
+
+/**
+ * Embedding migration error class
+ */
+export class EmbeddingMigrationError extends Error {
+  code: string
+  retryable: boolean
+  context?: Record<string, any>
+
+  constructor(
+    message: string,
+    options: {
+      code?: string
+      retryable?: boolean
+      context?: Record<string, any>
+    } = {},
+  ) {
+    super(message)
+    this.name = "EmbeddingMigrationError"
+    this.code = options.code || "embedding_migration_error"
+    this.retryable = options.retryable ?? false
+    this.context = options.context
+  }
+}
+
+/**
+ * Progress reported by a migration job
+ */
+export interface EmbeddingMigrationProgress {
+  stage: string
+  progress: number
+  message: string
+}
+
+/**
+ * Whether a migration is still copying records
+ *
+ * @param migration - Migration
+ * @returns True while copying or catching up
+ */
+export function isMigrationRunning(migration: EmbeddingMigration | undefined): migration is EmbeddingMigration {
+  return migration?.status === "copying" || migration?.status === "catching_up"
+}
+
+/**
+ * Generates an index ID; the format is the one vector-store recognises in namespace names
+ *
+ * @returns Index ID
+ */
+function generateIndexId(): string {
+  return `emb-${Date.now().toString(36)}${Math.floor(Math.random() * 1296).toString(36)}`
+}
+
+/**
+ * Saves the progress of a migration unless it was cancelled, rolled back or replaced meanwhile
+ *
+ * @param migration - Migration with its latest counters
+ * @param update - Further changes to the state, such as a switch of the active index
+ * @returns False if the migration no longer runs
+ */
+async function saveMigration(
+  migration: EmbeddingMigration,
+  update: Partial<EmbeddingIndexState> = {},
+): Promise<boolean> {
+  const current = await getEmbeddingIndexState({ fresh: true })
+
+  if (current.migration?.id !== migration.id || !isMigrationRunning(current.migration)) {
+    return false
+  }
+
+  await saveEmbeddingIndexState({
+    ...current,
+    ...update,
+    migration: { ...migration, updated_at: new Date().toISOString() },
+  })
+  return true
+}
+
+/**
+ * Queues the job that continues a migration
+ *
+ * @param migration - Migration; its job_id is set to the new job
+ * @param runAfter - Earliest time to continue
+ */
+async function queueContinuation(migration: EmbeddingMigration, runAfter?: number): Promise<void> {
+  const job = await enqueueJob({
+    type: "migrate_embeddings",
+    userId: "",
+    payload: { migrationId: migration.id },
+    runAfter,
+  })
+
+  migration.job_id = job.id
+}
+
+/**
+ * Starts copying every record into a new embedding index
+ * The first job waits until every instance has seen the migration, so that their writes are
+ * marked for copying from the start
+ *
+ * @param options - Model of the new index, its provider (that of the active index by default) and
+ * dimension (the provider's dimension of the model by default), and for Pinecone the host of the
+ * index holding vectors of a dimension the configured index cannot store
+ * @returns Started migration
+ * @throws EmbeddingMigrationError if a migration runs, the previous index is not retired, the
+ * target is the active index, the provider or dimension is unknown, or the store cannot hold the
+ * target's vectors
+ */
+export async function startEmbeddingMigration(options: {
+  model: string
+  provider?: string
+  dimension?: number
+  host?: string
+}): Promise<EmbeddingMigration> {
+  const state = await getEmbeddingIndexState({ fresh: true })
+  const { active } = state
+
+  let provider
+  try {
+    provider = getEmbeddingProvider(options.provider || active.provider)
+  } catch (error) {
+    throw new EmbeddingMigrationError(error instanceof Error ? error.message : String(error), {
+      code: "unknown_provider",
+      context: { provider: options.provider },
+    })
+  }
+
+  const dimension = options.dimension ?? provider.getDimension(options.model)
+  if (!dimension) {
+    throw new EmbeddingMigrationError(`The ${provider.name} provider does not know the dimension of ${options.model}`, {
+      code: "unknown_dimension",
+      context: { provider: provider.name, model: options.model },
+    })
+  }
+
+  if (isMigrationRunning(state.migration)) {
+    throw new EmbeddingMigrationError("An embedding migration is already running", {
+      code: "migration_running",
+      context: { migrationId: state.migration.id },
+    })
+  }
+
+  // Only one index is kept for rollback
+  if (state.previous) {
+    throw new EmbeddingMigrationError("Retire the previous embedding index before starting another migration", {
+      code: "previous_index_not_retired",
+      context: { indexId: state.previous.id },
+    })
+  }
+
+  const sameIndex =
+    provider.name === getEmbeddingProvider(active.provider).name &&
+    options.model === active.model &&
+    dimension === active.dimension &&
+    options.host === active.host
+  if (sameIndex) {
+    throw new EmbeddingMigrationError("The active embedding index already uses this model", {
+      code: "same_index",
+      context: { model: options.model, dimension },
+    })
+  }
+
+  const now = new Date().toISOString()
+  const target: EmbeddingIndex = {
+    id: generateIndexId(),
+    provider: provider.name,
+    model: options.model,
+    dimension,
+    ...(options.host && { host: options.host }),
+    created_at: now,
+  }
+
+  try {
+    getIndexStore(target)
+  } catch (error) {
+    throw new EmbeddingMigrationError(error instanceof Error ? error.message : String(error), {
+      code: "unsupported_index",
+      context: { model: target.model, dimension: target.dimension },
+    })
+  }
+
+  const migration: EmbeddingMigration = {
+    id: `migration_${Date.now()}_${Math.floor(Math.random() * 10000)}`,
+    status: "copying",
+    source: active,
+    target,
+    pass: 1,
+    pass_copied: 0,
+    namespaces_total: 0,
+    namespaces_done: 0,
+    records_copied: 0,
+    chunks_embedded: 0,
+    records_skipped: 0,
+    started_at: now,
+    updated_at: now,
+  }
+
+  await saveEmbeddingIndexState({ ...state, migration })
+  await queueContinuation(migration, Date.now() + EMBEDDING_STATE_TTL_MS)
+  await saveEmbeddingIndexState({ ...state, migration })
+
+  logger.info(`Started embedding migration: ${migration.id}`, {
+    migrationId: migration.id,
+    sourceModel: active.model,
+    targetProvider: target.provider,
+    targetModel: target.model,
+    targetDimension: target.dimension,
+    jobId: migration.job_id,
+  })
+
+  return migration
+}
+
+/**
+ * Builds the target index records of copied source records
+ *
+ * @param matches - Source records with metadata
+ * @param migration - Migration; its counters are updated
+ * @returns Records to write to the target index
+ */
+async function buildTargetRecords(matches: VectorQueryMatch[], migration: EmbeddingMigration): Promise<VectorRecord[]> {
+  const { target } = migration
+
+  // Chunks are the only records whose values are embeddings; only text can be embedded again
+  const embeddable = matches.filter(
+    (match) =>
+      match.metadata?.record_type === "chunk" &&
+      typeof match.metadata.content === "string" &&
+      match.metadata.content.trim() !== "",
+  )
+  const embeddings =
+    embeddable.length > 0
+      ? await generateEmbeddings(
+          embeddable.map((match) => match.metadata!.content as string),
+          { provider: target.provider, model: target.model, dimensions: target.dimension, useCache: false },
+        )
+      : []
+  const embedded = new Map(embeddable.map((match, i) => [match.id, embeddings[i]]))
+  const records: VectorRecord[] = []
+
+  for (const match of matches) {
+    const metadata: Record<string, any> = { ...(match.metadata || {}) }
+    delete metadata.migrated_to
+    if (metadata.embedding_model) {
+      metadata.embedding_model = target.model
+    }
+
+    if (metadata.record_type !== "chunk") {
+      records.push({ id: match.id, values: createPlaceholderVector(target.dimension), metadata })
+      continue
+    }
+
+    const values = embedded.get(match.id)
+    if (!values || values.length !== target.dimension) {
+      migration.records_skipped++
+      continue
+    }
+
+    // Keyword terms for hybrid search; Pinecone rejects empty sparse values
+    const sparseValues = SPARSE_VECTORS_ENABLED ? encodeSparseDocument(metadata.content) : null
+
+    records.push({
+      id: match.id,
+      values,
+      ...(sparseValues && sparseValues.indices.length > 0 && { sparseValues }),
+      metadata,
+    })
+    migration.chunks_embedded++
+  }
+
+  return records
+}
+
+/**
+ * Whether two metadata objects hold the same fields
+ *
+ * @param a - Metadata
+ * @param b - Metadata
+ * @returns True if every field is equal
+ */
+function isSameMetadata(a: Record<string, any> = {}, b: Record<string, any> = {}): boolean {
+  const keys = Object.keys(a)
+
+  return (
+    keys.length === Object.keys(b).length && keys.every((key) => JSON.stringify(a[key]) === JSON.stringify(b[key]))
+  )
+}
+
+/**
+ * Marks copied source records with the target index ID
+ * A record whose metadata changed since it was read is left unmarked so the next pass copies it
+ *
+ * @param store - Store of the source index
+ * @param namespace - Namespace of the records in the source store
+ * @param matches - Copied records as they were read
+ * @param targetId - Target index ID
+ */
+async function markCopied(
+  store: VectorStore,
+  namespace: string,
+  matches: VectorQueryMatch[],
+  targetId: string,
+): Promise<void> {
+  const { vectors } = await store.fetchVectors(
+    matches.map((match) => match.id),
+    { namespace },
+  )
+  const unchanged = matches.filter(
+    (match) => vectors[match.id] && isSameMetadata(vectors[match.id].metadata, match.metadata),
+  )
+
+  for (let i = 0; i < unchanged.length; i += MARK_CONCURRENCY) {
+    await Promise.all(
+      unchanged
+        .slice(i, i + MARK_CONCURRENCY)
+        .map((match) => store.updateVectorMetadata(match.id, { migrated_to: targetId }, { namespace })),
+    )
+  }
+}
+
+/**
+ * Copies the unmarked records of one user namespace until none are left or time runs out
+ *
+ * @param namespace - User namespace
+ * @param migration - Migration; its counters are updated
+ * @param deadline - Time at which to stop
+ * @returns True if the namespace has nothing left to copy
+ * @throws EmbeddingMigrationError if the source cannot be read
+ */
+async function copyNamespace(namespace: string, migration: EmbeddingMigration, deadline: number): Promise<boolean> {
+  const { source, target } = migration
+  const sourceStore = getIndexStore(source)
+  const targetStore = getIndexStore(target)
+  const sourceNamespace = getIndexNamespace(namespace, source)
+  const targetNamespace = getIndexNamespace(namespace, target)
+  const handled = new Set<string>()
+
+  while (Date.now() < deadline) {
+    // The filter index can lag behind the markers, so look past records already handled
+    const topK = Math.min(COPY_BATCH_SIZE + handled.size, MAX_TOP_K)
+    const response = await sourceStore.queryVectors(createPlaceholderVector(source.dimension), {
+      filter: { migrated_to: { $ne: target.id } },
+      includeMetadata: true,
+      topK,
+      namespace: sourceNamespace,
+    })
+
+    if (response.error) {
+      throw new EmbeddingMigrationError(`Failed to read records to migrate: ${response.errorMessage}`, {
+        code: "query_failed",
+        retryable: true,
+        context: { namespace, status: response.status },
+      })
+    }
+
+    const matches = (response.matches || []).filter((match) => !handled.has(match.id)).slice(0, COPY_BATCH_SIZE)
+    if (matches.length === 0) {
+      return true
+    }
+
+    const records = await buildTargetRecords(matches, migration)
+    if (records.length > 0) {
+      await targetStore.upsertVectors(records, { namespace: targetNamespace })
+    }
+    await markCopied(sourceStore, sourceNamespace, matches, target.id)
+
+    matches.forEach((match) => handled.add(match.id))
+    migration.records_copied += records.length
+    migration.pass_copied += records.length
+
+    // What one query cannot reach is left to the next job
+    if (handled.size + COPY_BATCH_SIZE > MAX_TOP_K) {
+      return false
+    }
+  }
+
+  return false
+}
+
+/**
+ * Ends a pass over all namespaces: switches search to the target, completes the migration or
+ * starts another pass
+ *
+ * @param migration - Migration at the end of a pass
+ * @returns False if the migration no longer runs
+ */
+async function finishPass(migration: EmbeddingMigration): Promise<boolean> {
+  const now = new Date().toISOString()
+  const copied = migration.pass_copied
+
+  migration.cursor = undefined
+  migration.pass_copied = 0
+  migration.namespaces_done = 0
+  migration.pass++
+
+  if (migration.status === "catching_up" && copied === 0) {
+    migration.status = "completed"
+    migration.completed_at = now
+    return saveMigration(migration)
+  }
+
+  if (migration.status === "copying" && (copied === 0 || migration.pass > MAX_COPY_PASSES)) {
+    migration.status = "catching_up"
+    migration.switched_at = now
+
+    // Instances still writing to the source pick up the switch within the state TTL
+    await queueContinuation(migration, Date.now() + EMBEDDING_STATE_TTL_MS)
+    const saved = await saveMigration(migration, { active: migration.target, previous: migration.source })
+
+    if (saved) {
+      logger.info(`Search switched to embedding index ${migration.target.id}`, {
+        migrationId: migration.id,
+        model: migration.target.model,
+      })
+    }
+    return saved
+  }
+
+  await queueContinuation(migration)
+  return saveMigration(migration)
+}
+
+/**
+ * Runs a migration for up to the time budget and queues the job that continues it
+ * Handler of migrate_embeddings jobs
+ *
+ * @param migrationId - Migration ID
+ * @param options - Progress callback and time budget
+ * @returns Summary stored on the job
+ * @throws EmbeddingMigrationError if records cannot be read
+ */
+export async function runEmbeddingMigration(
+  migrationId: string,
+  options: { onProgress?: (progress: EmbeddingMigrationProgress) => void; timeBudgetMs?: number } = {},
+): Promise<Record<string, any>> {
+  const deadline = Date.now() + (options.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS)
+  const state = await getEmbeddingIndexState({ fresh: true })
+  const migration = state.migration
+
+  if (migration?.id !== migrationId || !isMigrationRunning(migration)) {
+    logger.info(`Embedding migration is no longer running: ${migrationId}`, { migrationId })
+    return { migrationId, status: migration?.id === migrationId ? migration.status : "replaced" }
+  }
+
+  const namespaces = (await listIndexNamespaces(migration.source)).sort()
+  const pending = namespaces.filter((namespace) => !migration.cursor || namespace > migration.cursor)
+
+  migration.namespaces_total = namespaces.length
+  migration.namespaces_done = namespaces.length - pending.length
+
+  const report = (message: string) => {
+    options.onProgress?.({
+      stage: migration.status,
+      progress: namespaces.length > 0 ? Math.floor((migration.namespaces_done / namespaces.length) * 100) : 100,
+      message,
+    })
+  }
+
+  report(`Pass ${migration.pass}: ${migration.namespaces_done}/${namespaces.length} namespaces`)
+
+  for (const namespace of pending) {
+    const done = await copyNamespace(namespace, migration, deadline)
+
+    if (done) {
+      migration.cursor = namespace
+      migration.namespaces_done++
+    }
+
+    // Saving also tells the job whether the migration was cancelled or rolled back
+    if (!(await saveMigration(migration))) {
+      logger.info(`Embedding migration stopped: ${migrationId}`, { migrationId })
+      return { migrationId, status: "stopped" }
+    }
+
+    report(`Pass ${migration.pass}: ${migration.namespaces_done}/${namespaces.length} namespaces`)
+
+    if (!done || Date.now() >= deadline) {
+      await queueContinuation(migration)
+      await saveMigration(migration)
+
+      return {
+        migrationId,
+        status: migration.status,
+        pass: migration.pass,
+        namespacesDone: migration.namespaces_done,
+        recordsCopied: migration.records_copied,
+        continuedBy: migration.job_id,
+      }
+    }
+  }
+
+  const pass = migration.pass
+  const running = await finishPass(migration)
+
+  logger.info(`Embedding migration pass ${pass} finished: ${migrationId}`, {
+    migrationId,
+    status: migration.status,
+    recordsCopied: migration.records_copied,
+    recordsSkipped: migration.records_skipped,
+  })
+
+  return {
+    migrationId,
+    status: running ? migration.status : "stopped",
+    pass,
+    recordsCopied: migration.records_copied,
+    chunksEmbedded: migration.chunks_embedded,
+    recordsSkipped: migration.records_skipped,
+    ...(migration.job_id && migration.status !== "completed" && { continuedBy: migration.job_id }),
+  }
+}
+
+/**
+ * Records that a migration's job failed for good
+ * A migration that already switched keeps the new index active; it can be rolled back
+ *
+ * @param migrationId - Migration ID
+ * @param message - Failure message
+ */
+export async function failEmbeddingMigration(migrationId: string, message: string): Promise<void> {
+  const state = await getEmbeddingIndexState({ fresh: true })
+  const migration = state.migration
+
+  if (migration?.id !== migrationId || !isMigrationRunning(migration)) {
+    return
+  }
+
+  await saveMigration({ ...migration, status: "failed", error_message: message })
+
+  logger.error(`Embedding migration failed: ${migrationId}`, { migrationId, error: message })
+}
+
+/**
+ * Deletes every user namespace of an embedding index
+ *
+ * @param index - Embedding index
+ * @returns Number of namespaces deleted
+ */
+async function deleteIndexNamespaces(index: EmbeddingIndex): Promise<number> {
+  const store = getIndexStore(index)
+  const namespaces = await listIndexNamespaces(index)
+
+  for (const namespace of namespaces) {
+    await store.deleteVectors({ deleteAll: true, namespace: getIndexNamespace(namespace, index) })
+  }
+
+  return namespaces.length
+}
+
+/**
+ * Cancels a migration that has not switched search yet and deletes what it copied
+ * A failed migration is cancelled the same way to clean up its target
+ *
+ * @returns Cancelled migration
+ * @throws EmbeddingMigrationError if there is nothing to cancel or search already switched
+ */
+export async function cancelEmbeddingMigration(): Promise<EmbeddingMigration> {
+  const state = await getEmbeddingIndexState({ fresh: true })
+  const migration = state.migration
+
+  if (!migration || (migration.status !== "copying" && migration.status !== "failed")) {
+    throw new EmbeddingMigrationError("No embedding migration to cancel", { code: "no_migration" })
+  }
+
+  if (state.active.id === migration.target.id) {
+    throw new EmbeddingMigrationError("Search already uses the new index; roll back instead", {
+      code: "already_switched",
+      context: { migrationId: migration.id },
+    })
+  }
+
+  const cancelled: EmbeddingMigration = {
+    ...migration,
+    status: "cancelled",
+    completed_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+  }
+  await saveEmbeddingIndexState({ ...state, migration: cancelled })
+
+  const deleted = await deleteIndexNamespaces(migration.target)
+
+  logger.info(`Cancelled embedding migration: ${migration.id}`, { migrationId: migration.id, namespaces: deleted })
+
+  return cancelled
+}
+
+/**
+ * Switches search back to the previous embedding index
+ * Records written to the current index since the switch are not copied back; a migration that is
+ * still catching up is cancelled. Rolling back again returns to the index rolled back from.
+ *
+ * @returns New state
+ * @throws EmbeddingMigrationError if there is no previous index
+ */
+export async function rollbackEmbeddingIndex(): Promise<EmbeddingIndexState> {
+  const state = await getEmbeddingIndexState({ fresh: true })
+
+  if (!state.previous) {
+    throw new EmbeddingMigrationError("There is no previous embedding index to roll back to", {
+      code: "no_previous_index",
+    })
+  }
+
+  const next: EmbeddingIndexState = { ...state, active: state.previous, previous: state.active }
+
+  if (isMigrationRunning(state.migration)) {
+    next.migration = {
+      ...state.migration,
+      status: "cancelled",
+      completed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    }
+  }
+
+  await saveEmbeddingIndexState(next)
+
+  logger.info(`Rolled back to embedding index ${next.active.id || "(original)"}`, {
+    indexId: next.active.id,
+    model: next.active.model,
+  })
+
+  return next
+}
+
+/**
+ * Deletes the records of the previous embedding index, which ends the option to roll back
+ *
+ * @returns New state and the number of namespaces deleted
+ * @throws EmbeddingMigrationError if there is no previous index or a migration still runs
+ */
+export async function retirePreviousEmbeddingIndex(): Promise<{ state: EmbeddingIndexState; namespaces: number }> {
+  const state = await getEmbeddingIndexState({ fresh: true })
+  const previous = state.previous
+
+  if (!previous) {
+    throw new EmbeddingMigrationError("There is no previous embedding index to retire", {
+      code: "no_previous_index",
+    })
+  }
+
+  // The catch-up pass still reads the previous index
+  if (isMigrationRunning(state.migration)) {
+    throw new EmbeddingMigrationError("Wait for the embedding migration to complete before retiring", {
+      code: "migration_running",
+      context: { migrationId: state.migration.id },
+    })
+  }
+
+  const next: EmbeddingIndexState = { ...state }
+  delete next.previous
+  await saveEmbeddingIndexState(next)
+
+  const namespaces = await deleteIndexNamespaces(previous)
+
+  logger.info(`Retired embedding index ${previous.id || "(original)"}`, {
+    indexId: previous.id,
+    model: previous.model,
+    namespaces,
+  })
+
+  return { state: next, namespaces }
+}
@@ -0,0 +1,258 @@
+/**
+ * Embedding Providers
+ *
+ * Turns texts into vectors with the provider an embedding index was built with. Each provider
+ * makes one request per call and reports failures as EmbeddingError, marked retryable for rate
+ * limits, server errors and network failures; lib/embedding-service adds batching, retries,
+ * validation and caching on top.
+ *
+ * Providers:
+ * - "openai": OpenAI's embeddings API, configured by OPENAI_API_KEY
+ * - "cohere": Cohere's embed API, configured by COHERE_API_KEY
+ * - "local": a model served on the deployment's own hardware by Ollama (LOCAL_EMBEDDING_URL,
+ *   http://localhost:11434 by default), for deployments without access to hosted APIs. Ollama
+ *   runs embedding models on the CPU; the application itself runs on the edge runtime, where
+ *   models cannot be loaded in-process.
+ *
+ * Features:
+ * - One interface for hosted and local providers
+ * - Known models of each provider with the dimension of their vectors
+ * - Separate query and document embeddings for models trained for search
+ * - Edge runtime compatible (no Node.js specific modules)
+ *
+ * @module lib/embedding-providers
+ */
+
+import type { EmbeddingProvider, EmbeddingRequestOptions } from "@/types/embedding-provider"
+
+export type { EmbeddingInputType, EmbeddingProvider, EmbeddingRequestOptions } from "@/types/embedding-provider"
+
+// Provider of embedding indexes saved before providers were recorded on them
+export const DEFAULT_EMBEDDING_PROVIDER = "openai"
+
+// Ollama's default address
+const DEFAULT_LOCAL_EMBEDDING_URL = "http://localhost:11434"
+
+// Custom error class for embedding operations
+export class EmbeddingError extends Error {
+  status?: number
+  retryable: boolean
+  context?: Record<string, any>
+
+  constructor(message: string, options: { status?: number; retryable?: boolean; context?: Record<string, any> } = {}) {
+    super(message)
+    this.name = "EmbeddingError"
+    this.status = options.status
+    this.retryable = options.retryable ?? false
+    this.context = options.context
+  }
+}
+
+/**
+ * Reads an API key from the environment
+ *
+ * @param variable - Environment variable
+ * @returns API key
+ * @throws EmbeddingError if the variable is not set
+ */
+function requireApiKey(variable: string): string {
+  const key = process.env[variable]
+
+  if (!key) {
+    throw new EmbeddingError(`${variable} is not defined`, {
+      retryable: false,
+      context: { error: "missing_api_key" },
+    })
+  }
+
+  return key
+}
+
+/**
+ * Sends an embedding request and returns the parsed response
+ *
+ * @param provider - Provider name, for errors
+ * @param url - Endpoint
+ * @param body - Request body
+ * @param headers - Extra headers, such as authorization
+ * @returns Parsed JSON response
+ * @throws EmbeddingError for failed requests; rate limits, server errors and network failures are retryable
+ */
+async function postEmbeddingRequest(
+  provider: string,
+  url: string,
+  body: Record<string, any>,
+  headers: Record<string, string> = {},
+): Promise<any> {
+  let response: Response
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+    })
+  } catch (error) {
+    throw new EmbeddingError(
+      `Failed to reach the ${provider} embedding API: ${error instanceof Error ? error.message : String(error)}`,
+      { retryable: true, context: { provider, url } },
+    )
+  }
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+
+    throw new EmbeddingError(`${provider} embedding API error: ${response.status} ${response.statusText}`, {
+      status: response.status,
+      retryable: response.status === 429 || response.status >= 500,
+      context: { provider, errorData },
+    })
+  }
+
+  return response.json()
+}
+
+/**
+ * Checks that a response holds one vector per text
+ *
+ * @param provider - Provider name, for errors
+ * @param vectors - Vectors read from the response
+ * @param count - Number of texts sent
+ * @param result - Response, for the error context
+ * @returns The vectors
+ * @throws EmbeddingError (retryable) if vectors are missing
+ */
+function expectVectors(provider: string, vectors: unknown, count: number, result: unknown): number[][] {
+  if (!Array.isArray(vectors) || vectors.length !== count || !vectors.every(Array.isArray)) {
+    throw new EmbeddingError(`Invalid embedding response from ${provider}`, {
+      retryable: true,
+      context: { provider, resultSample: JSON.stringify(result).substring(0, 200) + "..." },
+    })
+  }
+
+  return vectors as number[][]
+}
+
+// OpenAI models and the dimension of their vectors; text-embedding-3 models can shorten them
+const OPENAI_MODELS: Record<string, number> = {
+  "text-embedding-3-large": 3072,
+  "text-embedding-3-small": 1536,
+  "text-embedding-ada-002": 1536,
+}
+
+const openAIEmbeddingProvider: EmbeddingProvider = {
+  name: "openai",
+  defaultModel: "text-embedding-3-large",
+  maxBatchSize: 2048,
+
+  getDimension: (model) => OPENAI_MODELS[model],
+
+  async embed(texts: string[], options: EmbeddingRequestOptions): Promise<number[][]> {
+    const apiKey = requireApiKey("OPENAI_API_KEY")
+    const result = await postEmbeddingRequest(
+      "OpenAI",
+      "https://api.openai.com/v1/embeddings",
+      {
+        model: options.model,
+        input: texts,
+        ...(options.model.startsWith("text-embedding-3") && { dimensions: options.dimensions }),
+      },
+      { Authorization: `Bearer ${apiKey}` },
+    )
+
+    // Sort by index to ensure order matches input
+    const data = Array.isArray(result?.data) ? [...result.data].sort((a, b) => a.index - b.index) : null
+    return expectVectors("OpenAI", data?.map((item) => item.embedding), texts.length, result)
+  },
+}
+
+// Cohere models and the dimension of their vectors; embed-v4.0 can shorten them
+const COHERE_MODELS: Record<string, number> = {
+  "embed-v4.0": 1536,
+  "embed-english-v3.0": 1024,
+  "embed-multilingual-v3.0": 1024,
+  "embed-english-light-v3.0": 384,
+  "embed-multilingual-light-v3.0": 384,
+}
+
+const cohereEmbeddingProvider: EmbeddingProvider = {
+  name: "cohere",
+  defaultModel: "embed-english-v3.0",
+  maxBatchSize: 96,
+
+  getDimension: (model) => COHERE_MODELS[model],
+
+  async embed(texts: string[], options: EmbeddingRequestOptions): Promise<number[][]> {
+    const apiKey = requireApiKey("COHERE_API_KEY")
+    const result = await postEmbeddingRequest(
+      "Cohere",
+      "https://api.cohere.com/v2/embed",
+      {
+        model: options.model,
+        texts,
+        input_type: options.inputType === "query" ? "search_query" : "search_document",
+        embedding_types: ["float"],
+        truncate: "END",
+        ...(options.model === "embed-v4.0" && { output_dimension: options.dimensions }),
+      },
+      { Authorization: `Bearer ${apiKey}` },
+    )
+
+    return expectVectors("Cohere", result?.embeddings?.float, texts.length, result)
+  },
+}
+
+// Embedding models commonly pulled into Ollama and the dimension of their vectors
+const LOCAL_MODELS: Record<string, number> = {
+  "nomic-embed-text": 768,
+  "mxbai-embed-large": 1024,
+  "all-minilm": 384,
+  "snowflake-arctic-embed": 1024,
+  "bge-m3": 1024,
+}
+
+const localEmbeddingProvider: EmbeddingProvider = {
+  name: "local",
+  defaultModel: "nomic-embed-text",
+  maxBatchSize: 64,
+
+  // Ollama tags such as nomic-embed-text:latest name the same model
+  getDimension: (model) => LOCAL_MODELS[model.split(":")[0]],
+
+  async embed(texts: string[], options: EmbeddingRequestOptions): Promise<number[][]> {
+    const baseUrl = (process.env.LOCAL_EMBEDDING_URL || DEFAULT_LOCAL_EMBEDDING_URL).replace(/\/+$/, "")
+    const result = await postEmbeddingRequest("local", `${baseUrl}/api/embed`, {
+      model: options.model,
+      input: texts,
+      truncate: true,
+    })
+
+    return expectVectors("local", result?.embeddings, texts.length, result)
+  },
+}
+
+const providers: Record<string, EmbeddingProvider> = {
+  openai: openAIEmbeddingProvider,
+  cohere: cohereEmbeddingProvider,
+  local: localEmbeddingProvider,
+}
+
+/**
+ * Returns an embedding provider by name
+ *
+ * @param name - Provider name; the provider of indexes saved without one when empty
+ * @returns Embedding provider
+ * @throws EmbeddingError for unknown providers
+ */
+export function getEmbeddingProvider(name?: string): EmbeddingProvider {
+  const key = (name || DEFAULT_EMBEDDING_PROVIDER).trim().toLowerCase()
+  const provider = providers[key]
+
+  if (!provider) {
+    throw new EmbeddingError(`Unknown embedding provider: ${key}. Use "openai", "cohere" or "local".`, {
+      retryable: false,
+      context: { error: "unknown_provider", provider: key },
+    })
+  }
+
+  return provider
+}
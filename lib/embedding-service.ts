@@ -1,44 +1,48 @@
 /**
  * Embedding Service
  *
- * Handles the generation of embeddings using OpenAI's text-embedding-3-large model.
+ * Handles the generation of embeddings with the embedding providers in lib/embedding-providers.
  * Provides utilities for embedding generation with proper error handling, validation, caching, and batching.
+ * Without an explicit model, embeddings are made with the provider, model and dimension of the
+ * active embedding index, so queries match the vectors search runs against.
  *
  * Features:
- * - Exclusive use of text-embedding-3-large with 3072 dimensions
+ * - Provider, model and dimension of the active embedding index by default (OpenAI text-embedding-3-large, 3072)
+ * - The same validation, batching, retries and caching for every provider
  * - Comprehensive retry logic with exponential backoff
  * - Proper batch processing for multiple texts
- * - Caching mechanism for frequently embedded queries
+ * - Persistent cache shared by every instance (lib/embedding-cache), so the same text is embedded once
  * - Input validation and sanitization
  * - Detailed error handling with specific error types
  * - Edge Runtime compatibility
  * - Rate limiting to avoid API limits
  *
  * Dependencies:
- * - OpenAI API for embedding generation
- * - @/lib/embedding-config for model configuration
+ * - @/lib/embedding-providers for the OpenAI, Cohere and local providers
+ * - @/lib/embedding-cache for cached embeddings
+ * - @/lib/vector-store for the active embedding index
  * - @/lib/utils/logger for structured logging
  *
  * @module lib/embedding-service
  */
 
 import { logger } from "@/lib/utils/logger"
-import { VECTOR_DIMENSION, EMBEDDING_MODEL } from "@/lib/embedding-config"
-
-// Custom error class for embedding operations
-export class EmbeddingError extends Error {
-  status?: number
-  retryable: boolean
-  context?: Record<string, any>
-
-  constructor(message: string, options: { status?: number; retryable?: boolean; context?: Record<string, any> } = {}) {
-    super(message)
-    this.name = "EmbeddingError"
-    this.status = options.status
-    this.retryable = options.retryable ?? false
-    this.context = options.context
-  }
-}
+import {
+  createEmbeddingCacheKey,
+  getCachedEmbeddings,
+  storeCachedEmbeddings,
+  type EmbeddingCacheScope,
+} from "@/lib/embedding-cache"
+import {
+  EmbeddingError,
+  getEmbeddingProvider,
+  type EmbeddingInputType,
+  type EmbeddingProvider,
+} from "@/lib/embedding-providers"
+import { getActiveEmbeddingIndex } from "@/lib/vector-store"
+
+export { EmbeddingError } from "@/lib/embedding-providers"
+export { clearEmbeddingCache, getEmbeddingCacheStats, type EmbeddingCacheStats } from "@/lib/embedding-cache"
 
 // Configuration constants
 const MAX_RETRIES = 5
@@ -46,18 +50,7 @@ const INITIAL_RETRY_DELAY = 500 // ms
 const MAX_RETRY_DELAY = 30000 // 30 seconds
 const RETRY_BACKOFF_FACTOR = 2
 const MAX_TEXT_LENGTH = 25000 // Characters to truncate at
-const MAX_BATCH_SIZE = 20 // Maximum texts to embed in a single API call
-const CACHE_TTL = 24 * 60 * 60 * 1000 // 24 hours in ms
-
-// Simple in-memory cache for embeddings
-// Note: This will be reset on cold starts in serverless environments
-interface CacheEntry {
-  embedding: number[]
-  timestamp: number
-}
-
-// Use a Map for better performance with string keys
-const embeddingCache = new Map<string, CacheEntry>()
+const MAX_BATCH_SIZE = 20 // Maximum texts to embed in a single API call, lower for providers that accept fewer
 
 /**
  * Validates and sanitizes text input for embedding
@@ -99,44 +92,108 @@ function validateAndSanitizeText(text: unknown): string {
 }
 
 /**
- * Creates a cache key for a text string
+ * Provider, model, dimensions and input type of an embedding request
+ */
+interface ResolvedModelOptions {
+  provider: EmbeddingProvider
+  model: string
+  dimensions: number
+  inputType: EmbeddingInputType
+}
+
+/**
+ * Returns what an embedding is cached under, besides the text
  *
- * @param text - Text to create cache key for
- * @param model - Model name
- * @returns Cache key
+ * @param options - Provider, model, dimensions and input type the text is embedded with
+ * @returns Cache scope
  */
-function createCacheKey(text: string, model: string = EMBEDDING_MODEL): string {
-  // For very long texts, use a hash of the content
-  if (text.length > 100) {
-    // Simple hash function for cache key
-    let hash = 0
-    for (let i = 0; i < text.length; i++) {
-      const char = text.charCodeAt(i)
-      hash = (hash << 5) - hash + char
-      hash = hash & hash // Convert to 32bit integer
+function toCacheScope(options: ResolvedModelOptions): EmbeddingCacheScope {
+  return {
+    provider: options.provider.name,
+    model: options.model,
+    dimensions: options.dimensions,
+    inputType: options.inputType,
+  }
+}
+
+/**
+ * Chooses the provider, model and dimensions of an embedding request
+ * A request without a model uses the active embedding index. A model without a provider is an
+ * OpenAI model, as on indexes saved before providers were recorded; its dimensions default to
+ * those the provider reports for it
+ *
+ * @param options - Provider, model, dimensions and input type given by the caller
+ * @param defaultInputType - Input type when the caller gives none
+ * @returns Provider, model, dimensions and input type to use
+ * @throws EmbeddingError if the active index cannot be read, or the provider or dimensions are unknown
+ */
+async function resolveModelOptions(
+  options: {
+    provider?: string
+    dimensions?: number
+    model?: string
+    inputType?: EmbeddingInputType
+  },
+  defaultInputType: EmbeddingInputType,
+): Promise<ResolvedModelOptions> {
+  const inputType = options.inputType ?? defaultInputType
+
+  if (options.model) {
+    const provider = getEmbeddingProvider(options.provider)
+    const dimensions = options.dimensions ?? provider.getDimension(options.model)
+
+    if (!dimensions) {
+      throw new EmbeddingError(`The ${provider.name} provider does not know the dimensions of ${options.model}`, {
+        retryable: false,
+        context: { error: "unknown_dimension", provider: provider.name, model: options.model },
+      })
     }
-    return `${model}:${hash}:${text.length}:${text.substring(0, 50)}...`
+
+    return { provider, model: options.model, dimensions, inputType }
+  }
+
+  let index
+  try {
+    index = await getActiveEmbeddingIndex()
+  } catch (error) {
+    throw new EmbeddingError(
+      `Failed to read the active embedding index: ${error instanceof Error ? error.message : String(error)}`,
+      { retryable: true, context: { error: "embedding_index_unavailable" } },
+    )
   }
 
-  // For short texts, use the full text
-  return `${model}:${text}`
+  return {
+    provider: getEmbeddingProvider(index.provider),
+    model: index.model,
+    dimensions: options.dimensions ?? index.dimension,
+    inputType,
+  }
 }
 
 /**
- * Checks if a vector is valid (non-zero and correct dimensions)
+ * Checks a vector returned by a provider
  *
- * @param vector - Vector to validate
- * @returns True if vector is valid
+ * @param embedding - Vector to validate
+ * @param dimensions - Dimensions the vector must have
+ * @param context - Model and input details for errors
+ * @throws EmbeddingError for vectors of the wrong dimensions (not retryable) or of zeros (retryable)
  */
-function isValidVector(vector: number[]): boolean {
-  if (!Array.isArray(vector)) return false
-  if (vector.length !== VECTOR_DIMENSION) return false
-
-  // Check if vector is all zeros or very close to zero
-  const isZeroVector = vector.every((val) => Math.abs(val) < 1e-6)
-  if (isZeroVector) return false
+function validateEmbedding(embedding: number[], dimensions: number, context: Record<string, any>): void {
+  if (embedding.length !== dimensions) {
+    throw new EmbeddingError(`Embedding dimension mismatch: expected ${dimensions}, got ${embedding.length}`, {
+      retryable: false,
+      context: { ...context, expectedDimensions: dimensions, actualDimensions: embedding.length },
+    })
+  }
 
-  return true
+  // Check for zero vectors (indicates potential issues)
+  const isZeroVector = embedding.every((val) => Math.abs(val) < 1e-6)
+  if (isZeroVector) {
+    throw new EmbeddingError("Zero vector detected in embedding result", {
+      retryable: true,
+      context,
+    })
+  }
 }
 
 /**
@@ -203,6 +260,36 @@ async function withRetry<T>(
   throw lastError || new Error("Unknown error in retry logic")
 }
 
+/**
+ * Embeds texts in one provider request, with retries, and validates the vectors
+ *
+ * @param texts - Texts to embed, already sanitized and truncated
+ * @param options - Provider, model, dimensions and input type
+ * @returns Vectors in the order of the texts
+ * @throws EmbeddingError if the request fails after retries or returns invalid vectors
+ */
+async function requestEmbeddings(texts: string[], options: ResolvedModelOptions): Promise<number[][]> {
+  return withRetry(async () => {
+    const embeddings = await options.provider.embed(texts, {
+      model: options.model,
+      dimensions: options.dimensions,
+      inputType: options.inputType,
+    })
+
+    embeddings.forEach((embedding, index) =>
+      validateEmbedding(embedding, options.dimensions, {
+        provider: options.provider.name,
+        model: options.model,
+        index,
+        textSample: texts[index].substring(0, 100) + "...",
+        textLength: texts[index].length,
+      }),
+    )
+
+    return embeddings
+  })
+}
+
 /**
  * Generate an embedding for a text string
  * Uses caching to avoid regenerating embeddings for the same text
@@ -216,13 +303,18 @@ export async function generateEmbedding(
   text: string,
   options: {
     useCache?: boolean
+    provider?: string
     dimensions?: number
     model?: string
+    inputType?: EmbeddingInputType
   } = {},
 ): Promise<number[]> {
-  const { useCache = true, dimensions = VECTOR_DIMENSION, model = EMBEDDING_MODEL } = options
+  const { useCache = true } = options
 
   try {
+    const modelOptions = await resolveModelOptions(options, "query")
+    const { provider, model, dimensions } = modelOptions
+
     // Validate and sanitize input
     const sanitizedText = validateAndSanitizeText(text)
 
@@ -231,128 +323,33 @@ export async function generateEmbedding(
       sanitizedText.length > MAX_TEXT_LENGTH ? sanitizedText.slice(0, MAX_TEXT_LENGTH) : sanitizedText
 
     // Check cache if enabled
-    if (useCache) {
-      const cacheKey = createCacheKey(truncatedText, model)
-      const cached = embeddingCache.get(cacheKey)
+    const cacheKey = useCache ? await createEmbeddingCacheKey(truncatedText, toCacheScope(modelOptions)) : null
 
-      if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
+    if (cacheKey) {
+      const cached = (await getCachedEmbeddings([cacheKey])).get(cacheKey)
+
+      if (cached) {
         logger.debug("Embedding cache hit", {
           textLength: truncatedText.length,
           cacheKey: cacheKey.substring(0, 50),
         })
-        return cached.embedding
+        return cached
       }
     }
 
-    // Get OpenAI API key
-    const openaiKey = process.env.OPENAI_API_KEY
-    if (!openaiKey) {
-      throw new EmbeddingError("OPENAI_API_KEY is not defined", {
-        retryable: false,
-        context: { error: "missing_api_key" },
-      })
-    }
-
     logger.info(`Generating embedding with model ${model}`, {
       textLength: truncatedText.length,
+      provider: provider.name,
       modelName: model,
       dimensions,
     })
 
-    // Call OpenAI API with retry logic
-    const embedding = await withRetry(async () => {
-      const response = await fetch("https://api.openai.com/v1/embeddings", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${openaiKey}`,
-        },
-        body: JSON.stringify({
-          model,
-          input: truncatedText,
-          dimensions,
-        }),
-      })
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}))
-
-        // Determine if error is retryable
-        const retryable = response.status === 429 || response.status === 503 || response.status >= 500
-
-        throw new EmbeddingError(`OpenAI API error: ${response.status} ${response.statusText}`, {
-          status: response.status,
-          retryable,
-          context: {
-            errorData,
-            textLength: truncatedText.length,
-          },
-        })
-      }
-
-      const result = await response.json()
-
-      // Validate the embedding
-      const embedding = result.data?.[0]?.embedding
-
-      if (!embedding || !Array.isArray(embedding)) {
-        throw new EmbeddingError("Invalid embedding response from OpenAI", {
-          retryable: true,
-          context: {
-            resultSample: JSON.stringify(result).substring(0, 200) + "...",
-          },
-        })
-      }
-
-      if (embedding.length !== dimensions) {
-        throw new EmbeddingError(`Embedding dimension mismatch: expected ${dimensions}, got ${embedding.length}`, {
-          retryable: false,
-          context: {
-            model,
-            expectedDimensions: dimensions,
-            actualDimensions: embedding.length,
-          },
-        })
-      }
-
-      // Check for zero vectors (indicates potential issues)
-      const isZeroVector = embedding.every((val) => Math.abs(val) < 1e-6)
-      if (isZeroVector) {
-        throw new EmbeddingError("Zero vector detected in embedding result", {
-          retryable: true,
-          context: {
-            textSample: truncatedText.substring(0, 100) + "...",
-            textLength: truncatedText.length,
-          },
-        })
-      }
-
-      return embedding
-    })
+    // Call the provider with retry logic
+    const [embedding] = await requestEmbeddings([truncatedText], modelOptions)
 
     // Store in cache if caching is enabled
-    if (useCache) {
-      const cacheKey = createCacheKey(truncatedText, model)
-      embeddingCache.set(cacheKey, {
-        embedding,
-        timestamp: Date.now(),
-      })
-
-      // Simple cache size management - if cache gets too large, remove oldest entries
-      if (embeddingCache.size > 1000) {
-        const entries = Array.from(embeddingCache.entries())
-        const oldestEntries = entries.sort((a, b) => a[1].timestamp - b[1].timestamp).slice(0, 200) // Remove oldest 200 entries
-
-        for (const [key] of oldestEntries) {
-          embeddingCache.delete(key)
-        }
-
-        logger.info("Embedding cache pruned", {
-          previousSize: embeddingCache.size + 200,
-          newSize: embeddingCache.size,
-          entriesRemoved: 200,
-        })
-      }
+    if (cacheKey) {
+      await storeCachedEmbeddings([{ key: cacheKey, embedding }], toCacheScope(modelOptions))
     }
 
     return embedding
@@ -390,21 +387,20 @@ export async function generateEmbeddings(
   texts: string[],
   options: {
     useCache?: boolean
+    provider?: string
     dimensions?: number
     model?: string
+    inputType?: EmbeddingInputType
     batchSize?: number
     onProgress?: (completed: number, total: number) => void
   } = {},
 ): Promise<number[][]> {
-  const {
-    useCache = true,
-    dimensions = VECTOR_DIMENSION,
-    model = EMBEDDING_MODEL,
-    batchSize = MAX_BATCH_SIZE,
-    onProgress,
-  } = options
+  const { useCache = true, batchSize = MAX_BATCH_SIZE, onProgress } = options
 
   try {
+    const modelOptions = await resolveModelOptions(options, "document")
+    const { provider, model, dimensions, inputType } = modelOptions
+
     // Validate input array
     if (!Array.isArray(texts)) {
       throw new EmbeddingError("Invalid texts array provided for embedding generation", {
@@ -455,15 +451,22 @@ export async function generateEmbeddings(
     // Check cache for all texts first if caching is enabled
     const embeddings: (number[] | null)[] = new Array(validTexts.length).fill(null)
     const uncachedIndices: number[] = []
+    const cacheScope = toCacheScope(modelOptions)
+    let cacheKeys: string[] = []
 
     if (useCache) {
-      validTexts.forEach((text, index) => {
-        const truncatedText = text.length > MAX_TEXT_LENGTH ? text.slice(0, MAX_TEXT_LENGTH) : text
-        const cacheKey = createCacheKey(truncatedText, model)
-        const cached = embeddingCache.get(cacheKey)
+      cacheKeys = await Promise.all(
+        validTexts.map((text) =>
+          createEmbeddingCacheKey(text.length > MAX_TEXT_LENGTH ? text.slice(0, MAX_TEXT_LENGTH) : text, cacheScope),
+        ),
+      )
+      const cached = await getCachedEmbeddings(cacheKeys)
 
-        if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
-          embeddings[index] = cached.embedding
+      cacheKeys.forEach((cacheKey, index) => {
+        const embedding = cached.get(cacheKey)
+
+        if (embedding) {
+          embeddings[index] = embedding
         } else {
           uncachedIndices.push(index)
         }
@@ -484,17 +487,8 @@ export async function generateEmbeddings(
       return embeddings as number[][]
     }
 
-    // Get OpenAI API key
-    const openaiKey = process.env.OPENAI_API_KEY
-    if (!openaiKey) {
-      throw new EmbeddingError("OPENAI_API_KEY is not defined", {
-        retryable: false,
-        context: { error: "missing_api_key" },
-      })
-    }
-
     // Process uncached texts in batches
-    const effectiveBatchSize = Math.min(batchSize, MAX_BATCH_SIZE)
+    const effectiveBatchSize = Math.min(batchSize, MAX_BATCH_SIZE, provider.maxBatchSize)
     let completedCount = validTexts.length - uncachedIndices.length
 
     // Create batches of indices
@@ -517,6 +511,7 @@ export async function generateEmbeddings(
       })
 
       logger.info(`Processing batch ${batchIndex + 1}/${batches.length}`, {
+        provider: provider.name,
         batchSize: batch.length,
         textLengths: batchTexts.map((t) => t.length),
       })
@@ -526,122 +521,20 @@ export async function generateEmbeddings(
         if (batch.length === 1) {
           const embedding = await generateEmbedding(batchTexts[0], {
             useCache: false, // We already checked the cache
+            provider: provider.name,
             dimensions,
             model,
+            inputType,
           })
 
           embeddings[batch[0]] = embedding
-
-          // Store in cache if caching is enabled
-          if (useCache) {
-            const cacheKey = createCacheKey(batchTexts[0], model)
-            embeddingCache.set(cacheKey, {
-              embedding,
-              timestamp: Date.now(),
-            })
-          }
         } else {
-          // For multi-text batches, call the OpenAI API directly
-          const batchEmbeddings = await withRetry(async () => {
-            const response = await fetch("https://api.openai.com/v1/embeddings", {
-              method: "POST",
-              headers: {
-                "Content-Type": "application/json",
-                Authorization: `Bearer ${openaiKey}`,
-              },
-              body: JSON.stringify({
-                model,
-                input: batchTexts,
-                dimensions,
-              }),
-            })
-
-            if (!response.ok) {
-              const errorData = await response.json().catch(() => ({}))
-
-              // Determine if error is retryable
-              const retryable = response.status === 429 || response.status === 503 || response.status >= 500
-
-              throw new EmbeddingError(`OpenAI API error: ${response.status} ${response.statusText}`, {
-                status: response.status,
-                retryable,
-                context: {
-                  errorData,
-                  batchSize: batchTexts.length,
-                },
-              })
-            }
-
-            const result = await response.json()
-
-            // Validate the response
-            if (!result.data || !Array.isArray(result.data)) {
-              throw new EmbeddingError("Invalid batch embedding response from OpenAI", {
-                retryable: true,
-                context: {
-                  resultSample: JSON.stringify(result).substring(0, 200) + "...",
-                },
-              })
-            }
-
-            // Sort by index to ensure order matches input
-            const sortedData = [...result.data].sort((a, b) => a.index - b.index)
+          // For multi-text batches, call the provider directly
+          const batchEmbeddings = await requestEmbeddings(batchTexts, modelOptions)
 
-            return sortedData.map((item) => {
-              const embedding = item.embedding
-
-              if (!embedding || !Array.isArray(embedding)) {
-                throw new EmbeddingError("Missing embedding in batch response item", {
-                  retryable: true,
-                  context: {
-                    itemSample: JSON.stringify(item).substring(0, 200) + "...",
-                  },
-                })
-              }
-
-              if (embedding.length !== dimensions) {
-                throw new EmbeddingError(
-                  `Embedding dimension mismatch: expected ${dimensions}, got ${embedding.length}`,
-                  {
-                    retryable: false,
-                    context: {
-                      model,
-                      expectedDimensions: dimensions,
-                      actualDimensions: embedding.length,
-                    },
-                  },
-                )
-              }
-
-              // Check for zero vectors
-              const isZeroVector = embedding.every((val) => Math.abs(val) < 1e-6)
-              if (isZeroVector) {
-                throw new EmbeddingError("Zero vector detected in batch embedding result", {
-                  retryable: true,
-                  context: {
-                    index: item.index,
-                    textSample: batchTexts[item.index].substring(0, 100) + "...",
-                  },
-                })
-              }
-
-              return embedding
-            })
-          })
-
-          // Store results and update cache
+          // Store results
           batchEmbeddings.forEach((embedding, i) => {
-            const originalIndex = batch[i]
-            embeddings[originalIndex] = embedding
-
-            // Store in cache if caching is enabled
-            if (useCache) {
-              const cacheKey = createCacheKey(batchTexts[i], model)
-              embeddingCache.set(cacheKey, {
-                embedding,
-                timestamp: Date.now(),
-              })
-            }
+            embeddings[batch[i]] = embedding
           })
         }
 
@@ -667,24 +560,14 @@ export async function generateEmbeddings(
             try {
               const embedding = await generateEmbedding(text, {
                 useCache: false, // We already checked the cache
+                provider: provider.name,
                 dimensions,
                 model,
+                inputType,
               })
 
               embeddings[index] = embedding
 
-              // Store in cache if caching is enabled
-              if (useCache) {
-                const cacheKey = createCacheKey(
-                  text.length > MAX_TEXT_LENGTH ? text.slice(0, MAX_TEXT_LENGTH) : text,
-                  model,
-                )
-                embeddingCache.set(cacheKey, {
-                  embedding,
-                  timestamp: Date.now(),
-                })
-              }
-
               // Update progress
               completedCount++
               if (onProgress) {
@@ -701,6 +584,14 @@ export async function generateEmbeddings(
           }
         }
       }
+
+      // Store the batch's new embeddings in cache if caching is enabled
+      if (useCache) {
+        const entries = batch
+          .filter((index) => embeddings[index] !== null)
+          .map((index) => ({ key: cacheKeys[index], embedding: embeddings[index] as number[] }))
+        await storeCachedEmbeddings(entries, cacheScope)
+      }
     }
 
     // Check if we have any successful embeddings
@@ -731,7 +622,6 @@ export async function generateEmbeddings(
     logger.info(`Completed embedding generation for ${texts.length} texts`, {
       successCount: successfulEmbeddings.length,
       failureCount: embeddings.filter((e) => e === null).length,
-      cacheSize: embeddingCache.size,
     })
 
     return finalEmbeddings as number[][]
@@ -755,56 +645,3 @@ export async function generateEmbeddings(
     )
   }
 }
-
-/**
- * Clear the embedding cache
- * Useful for testing or managing memory usage
- *
- * @returns Number of entries cleared
- */
-export function clearEmbeddingCache(): number {
-  const size = embeddingCache.size
-  embeddingCache.clear()
-  logger.info(`Embedding cache cleared`, { entriesRemoved: size })
-  return size
-}
-
-/**
- * Get statistics about the embedding cache
- *
- * @returns Cache statistics
- */
-export function getEmbeddingCacheStats(): {
-  size: number
-  oldestEntry: number | null
-  newestEntry: number | null
-  averageAge: number | null
-} {
-  if (embeddingCache.size === 0) {
-    return {
-      size: 0,
-      oldestEntry: null,
-      newestEntry: null,
-      averageAge: null,
-    }
-  }
-
-  const now = Date.now()
-  let oldest = now
-  let newest = 0
-  let totalAge = 0
-
-  for (const entry of embeddingCache.values()) {
-    const timestamp = entry.timestamp
-    if (timestamp < oldest) oldest = timestamp
-    if (timestamp > newest) newest = timestamp
-    totalAge += now - timestamp
-  }
-
-  return {
-    size: embeddingCache.size,
-    oldestEntry: now - oldest,
-    newestEntry: now - newest,
-    averageAge: totalAge / embeddingCache.size,
-  }
-}
@@ -0,0 +1,352 @@
+/**
+ * Graph-Augmented Retrieval
+ *
+ * Expands vector search results through the knowledge graph, for questions whose answer is
+ * spread over chunks that are not similar to the question itself ("who approved the vendor
+ * that supplies X?"). Entities are identified in the query by matching its phrases against the
+ * user's graph, and in the top chunks through their provenance. From there retrieval follows
+ * relationships and co-occurrences to other entities and brings in the chunks that mention them.
+ * Every chunk found this way reports the entity path that led to it.
+ *
+ * Features:
+ * - Query entity detection without an LLM call, by looking up the node IDs of query phrases
+ * - Expansion over relationships and over entities mentioned in the same chunks
+ * - Scores that decay with every hop from the query or the top chunks
+ * - Readable entity paths for prompts and API responses
+ * - Edge runtime compatible (no Node.js specific modules)
+ *
+ * Dependencies:
+ * - @/lib/knowledge-graph for graph lookups and reading chunks
+ * - @/lib/vector-store for finding the entities of chunks
+ * - @/lib/utils/logger for structured logging
+ *
+ * @module lib/graph-retrieval
+ */
+
+import { logger } from "@/lib/utils/logger"
+import { createPlaceholderVector, getUserNamespace, queryVectors } from "@/lib/vector-store"
+import { fetchGraphRecords, getEntityNeighbors, getNodeId, toGraphNode } from "@/lib/knowledge-graph"
+import type { GraphNode } from "@/types"
+
+// Longest query phrase looked up as an entity name, in words
+const MAX_PHRASE_WORDS = 4
+
+// Phrases looked up per query; one fetch request holds at most 100 IDs
+const MAX_QUERY_PHRASES = 100
+
+// Entities expanded from, and neighbours followed per entity
+const MAX_SEED_ENTITIES = 6
+const MAX_NEIGHBORS_PER_ENTITY = 8
+
+// Chunks whose entities are read as seeds, and chunks read per entity for co-occurring entities
+const MAX_SEED_CHUNKS = 10
+const MAX_COOCCURRENCE_CHUNKS = 20
+
+// Score multiplier per hop away from the query or a top chunk
+const HOP_DECAY = 0.85
+
+// Relation shown for entities mentioned in the same chunk
+export const CO_OCCURRENCE_RELATION = "mentioned_with"
+
+/**
+ * One step of the path from a query or chunk entity to a retrieved chunk
+ */
+export interface GraphPathStep {
+  entityId: string
+  entity: string
+  // Relation from the previous step to this entity
+  relation?: string
+  direction?: "outgoing" | "incoming"
+}
+
+/**
+ * Chunk brought in through the graph
+ */
+export interface GraphContextChunk {
+  chunkId: string
+  score: number
+  path: GraphPathStep[]
+  // Whether the first entity of the path was found in the query or in a top chunk
+  origin: "query" | "chunk"
+  metadata: Record<string, any>
+}
+
+/**
+ * Where an entity was found, and how strongly that place matches the query
+ */
+interface EntitySeed {
+  node: GraphNode
+  origin: "query" | "chunk"
+  score: number
+}
+
+/**
+ * Candidate chunk with the best path found to it so far
+ */
+interface Candidate {
+  score: number
+  path: GraphPathStep[]
+  origin: "query" | "chunk"
+}
+
+/**
+ * Lists the phrases of a query that could name an entity, longest first
+ *
+ * @param query - User query
+ * @returns Phrases of up to MAX_PHRASE_WORDS words
+ */
+export function getQueryPhrases(query: string): string[] {
+  const words = query
+    .split(/\s+/)
+    .map((word) => word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, ""))
+    .filter(Boolean)
+
+  const phrases = new Set<string>()
+
+  for (let length = Math.min(MAX_PHRASE_WORDS, words.length); length >= 1; length--) {
+    for (let start = 0; start + length <= words.length; start++) {
+      phrases.add(words.slice(start, start + length).join(" "))
+    }
+  }
+
+  return Array.from(phrases).slice(0, MAX_QUERY_PHRASES)
+}
+
+/**
+ * Formats an entity path for prompts and responses, e.g. "Acme -supplies-> Widgets"
+ *
+ * @param path - Entity path
+ * @returns Readable path
+ */
+export function formatGraphPath(path: GraphPathStep[]): string {
+  return path
+    .map((step, index) => {
+      if (index === 0) {
+        return step.entity
+      }
+
+      const relation = step.relation || CO_OCCURRENCE_RELATION
+      return step.direction === "incoming" ? ` <-${relation}- ${step.entity}` : ` -${relation}-> ${step.entity}`
+    })
+    .join("")
+}
+
+/**
+ * Finds the entities of a user's graph that a query names
+ * Longer phrases win over the shorter phrases inside them, so "Acme Corp" is not also matched as "Acme"
+ *
+ * @param userId - Owner of the graph
+ * @param query - User query
+ * @returns Entities named in the query
+ */
+export async function findQueryEntities(userId: string, query: string): Promise<GraphNode[]> {
+  const phrases = getQueryPhrases(query)
+  const ids = await Promise.all(phrases.map((phrase) => getNodeId(userId, phrase)))
+  const stored = await fetchGraphRecords(Array.from(new Set(ids)), { namespace: getUserNamespace(userId) })
+
+  const entities: GraphNode[] = []
+  const matched: string[] = []
+
+  phrases.forEach((phrase, index) => {
+    const metadata = stored.get(ids[index])
+    const key = phrase.toLowerCase()
+
+    if (!metadata || metadata.record_type !== "graph_node" || metadata.user_id !== userId) {
+      return
+    }
+
+    if (matched.some((longer) => longer.includes(key)) || entities.some((entity) => entity.id === ids[index])) {
+      return
+    }
+
+    matched.push(key)
+    entities.push(toGraphNode(ids[index], metadata))
+  })
+
+  return entities
+}
+
+/**
+ * Finds the entities mentioned in chunks
+ *
+ * @param userId - Owner of the graph
+ * @param chunkIds - Chunk IDs
+ * @returns Entities mentioned in any of the chunks, most mentioned first
+ */
+export async function findChunkEntities(userId: string, chunkIds: string[]): Promise<GraphNode[]> {
+  if (chunkIds.length === 0) {
+    return []
+  }
+
+  const response = await queryVectors(createPlaceholderVector(), {
+    filter: {
+      record_type: { $eq: "graph_node" },
+      user_id: { $eq: userId },
+      chunk_ids: { $in: chunkIds },
+    },
+    includeMetadata: true,
+    topK: 100,
+    namespace: getUserNamespace(userId),
+  })
+
+  return (response.matches || [])
+    .filter((match) => match.metadata)
+    .map((match) => toGraphNode(match.id, match.metadata as Record<string, any>))
+    .sort((a, b) => b.mention_count - a.mention_count)
+}
+
+/**
+ * Records a path to a chunk, keeping the best scoring path per chunk
+ *
+ * @param candidates - Candidates by chunk ID
+ * @param chunkIds - Chunks the path leads to
+ * @param candidate - Path and its score
+ * @param excluded - Chunks that are already in the results
+ */
+function addCandidates(
+  candidates: Map<string, Candidate>,
+  chunkIds: string[],
+  candidate: Candidate,
+  excluded: Set<string>,
+): void {
+  for (const chunkId of chunkIds) {
+    const current = candidates.get(chunkId)
+    if (!excluded.has(chunkId) && (!current || current.score < candidate.score)) {
+      candidates.set(chunkId, candidate)
+    }
+  }
+}
+
+/**
+ * Finds chunks related to a query through the knowledge graph
+ * Seeds are the entities named in the query and the entities of the top vector results. From each
+ * seed, retrieval adds the seed's own chunks (query entities only), the chunks of entities related
+ * to it, and the chunks of entities mentioned next to it.
+ *
+ * @param query - User query
+ * @param userId - Owner of the documents and the graph
+ * @param seeds - Top vector results with their scores
+ * @param options - Number of chunks to return, and documents to restrict to
+ * @returns Chunks found through the graph, best first, without the seed chunks
+ */
+export async function expandContextWithGraph(
+  query: string,
+  userId: string,
+  seeds: Array<{ chunkId: string; score: number }>,
+  options: { maxChunks?: number; documentIds?: string[] } = {},
+): Promise<GraphContextChunk[]> {
+  const namespace = getUserNamespace(userId)
+  const maxChunks = options.maxChunks ?? 3
+  const seedChunks = seeds.slice(0, MAX_SEED_CHUNKS)
+  const excluded = new Set(seeds.map((seed) => seed.chunkId))
+  const topScore = seeds.reduce((best, seed) => Math.max(best, seed.score), 0) || 1
+
+  const [queryEntities, chunkEntities] = await Promise.all([
+    findQueryEntities(userId, query),
+    findChunkEntities(userId, seedChunks.map((seed) => seed.chunkId)),
+  ])
+
+  // Query entities come first; entities of a top chunk score like the chunk that mentions them
+  const entitySeeds: EntitySeed[] = queryEntities.map((node) => ({ node, origin: "query", score: topScore }))
+  for (const node of chunkEntities) {
+    if (entitySeeds.length >= MAX_SEED_ENTITIES) {
+      break
+    }
+
+    if (!entitySeeds.some((seed) => seed.node.id === node.id)) {
+      const score = seedChunks
+        .filter((seed) => node.chunk_ids.includes(seed.chunkId))
+        .reduce((best, seed) => Math.max(best, seed.score), 0)
+      entitySeeds.push({ node, origin: "chunk", score })
+    }
+  }
+
+  const candidates = new Map<string, Candidate>()
+
+  for (const seed of entitySeeds.slice(0, MAX_SEED_ENTITIES)) {
+    const start: GraphPathStep = { entityId: seed.node.id, entity: seed.node.name }
+
+    // A named entity's own chunks answer "what is X" questions
+    if (seed.origin === "query") {
+      const candidate: Candidate = { score: seed.score, path: [start], origin: seed.origin }
+      addCandidates(candidates, seed.node.chunk_ids, candidate, excluded)
+    }
+
+    const neighbors = await getEntityNeighbors(userId, seed.node.id, { limit: MAX_NEIGHBORS_PER_ENTITY })
+
+    for (const { node, edge, direction } of neighbors) {
+      const path = [start, { entityId: node.id, entity: node.name, relation: edge.relation, direction }]
+
+      // Chunks stating the relationship rank above other mentions of the neighbour
+      addCandidates(candidates, edge.chunk_ids, { score: seed.score * HOP_DECAY, path, origin: seed.origin }, excluded)
+      addCandidates(
+        candidates,
+        node.chunk_ids,
+        { score: seed.score * HOP_DECAY * HOP_DECAY, path, origin: seed.origin },
+        excluded,
+      )
+    }
+
+    // Entities mentioned next to a query entity, whether or not a relationship was extracted
+    if (seed.origin === "query") {
+      const cooccurring = await findChunkEntities(userId, seed.node.chunk_ids.slice(0, MAX_COOCCURRENCE_CHUNKS))
+
+      for (const node of cooccurring.slice(0, MAX_NEIGHBORS_PER_ENTITY)) {
+        if (node.id === seed.node.id || neighbors.some((neighbor) => neighbor.node.id === node.id)) {
+          continue
+        }
+
+        addCandidates(
+          candidates,
+          node.chunk_ids,
+          {
+            score: seed.score * HOP_DECAY * HOP_DECAY,
+            path: [start, { entityId: node.id, entity: node.name, relation: CO_OCCURRENCE_RELATION }],
+            origin: seed.origin,
+          },
+          excluded,
+        )
+      }
+    }
+  }
+
+  // Read a few more chunks than needed; some belong to superseded versions or other documents
+  const ranked = Array.from(candidates.entries())
+    .sort((a, b) => b[1].score - a[1].score)
+    .slice(0, maxChunks * 4)
+  const stored = await fetchGraphRecords(
+    ranked.map(([chunkId]) => chunkId),
+    { namespace },
+  )
+
+  const results: GraphContextChunk[] = []
+
+  for (const [chunkId, candidate] of ranked) {
+    const metadata = stored.get(chunkId)
+
+    if (
+      !metadata ||
+      metadata.record_type !== "chunk" ||
+      metadata.user_id !== userId ||
+      metadata.is_latest === false ||
+      !metadata.content ||
+      (options.documentIds?.length && !options.documentIds.includes(metadata.document_id))
+    ) {
+      continue
+    }
+
+    results.push({ chunkId, ...candidate, metadata })
+    if (results.length >= maxChunks) {
+      break
+    }
+  }
+
+  logger.info(`Graph expansion found ${results.length} chunks`, {
+    userId,
+    queryEntities: queryEntities.length,
+    seedEntities: entitySeeds.length,
+    candidates: candidates.size,
+  })
+
+  return results
+}
@@ -0,0 +1,482 @@
+/**
+ * HTML Extraction
+ *
+ * Converts saved web pages and intranet exports into markdown so the chunker can
+ * recognise their structure. Page chrome such as navigation, footers and scripts is
+ * dropped before conversion.
+ *
+ * Features:
+ * - Boilerplate removal by tag, ARIA role and common class/id names
+ * - Main content detection via <main>, role="main" or the largest <article>
+ * - Headings, lists, tables, preformatted code and blockquotes mapped to markdown
+ * - Page title and canonical URL extraction
+ * - Character set detection from <meta charset> with UTF-8 fallback
+ * - Edge Runtime compatible (no Node.js specific modules)
+ *
+ * Dependencies:
+ * - htmlparser2 for lenient HTML parsing
+ * - @/lib/utils/markdown-utils for rendering blocks
+ *
+ * @module lib/html-extraction
+ */
+
+import { DomUtils, parseDocument } from "htmlparser2"
+import { type AnyNode, type Element, isTag, isText } from "domhandler"
+import {
+  type MarkdownBlock,
+  collapseWhitespace,
+  joinBlocks,
+  renderCodeBlock,
+  renderHeading,
+  renderListItem,
+  renderTable,
+} from "@/lib/utils/markdown-utils"
+
+/**
+ * Result of converting an HTML page
+ */
+export interface HtmlConversionResult {
+  markdown: string
+  title?: string
+  canonicalUrl?: string
+}
+
+// Elements that never contain page content
+const BOILERPLATE_TAGS = new Set([
+  "head",
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "svg",
+  "canvas",
+  "iframe",
+  "object",
+  "embed",
+  "nav",
+  "footer",
+  "aside",
+  "form",
+  "button",
+  "select",
+  "input",
+  "textarea",
+  "dialog",
+  "menu",
+])
+
+// ARIA landmark roles used for page chrome
+const BOILERPLATE_ROLES = new Set(["navigation", "banner", "contentinfo", "complementary", "search", "dialog"])
+
+// Class and id names commonly used for page chrome
+const BOILERPLATE_NAME_PATTERN =
+  /\b(nav|navbar|navigation|menu|breadcrumbs?|footer|sidebar|cookie|consent|banner|advert\w*|ads|promo|share|social|related|comments?|newsletter|popup|modal|skip-link)\b/i
+
+// Elements rendered as separate blocks rather than inline text
+const BLOCK_TAGS = new Set([
+  "address",
+  "article",
+  "blockquote",
+  "body",
+  "center",
+  "dd",
+  "details",
+  "div",
+  "dl",
+  "dt",
+  "figcaption",
+  "figure",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hr",
+  "html",
+  "li",
+  "main",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "summary",
+  "table",
+  "ul",
+])
+
+const HEADING_PATTERN = /^h([1-6])$/
+
+/**
+ * Decodes HTML bytes using the declared character set
+ *
+ * @param data - Raw file bytes
+ * @returns Decoded HTML source
+ */
+function decodeHtml(data: ArrayBuffer): string {
+  // The charset declaration must appear within the first 1024 bytes
+  const head = new TextDecoder("latin1").decode(data.slice(0, 1024))
+  const charset = head.match(/<meta[^>]+charset=["']?\s*([\w-]+)/i)?.[1]
+
+  if (charset) {
+    try {
+      return new TextDecoder(charset.toLowerCase()).decode(data)
+    } catch {
+      // Unknown charset label, fall back to UTF-8
+    }
+  }
+
+  return new TextDecoder("utf-8").decode(data)
+}
+
+/**
+ * Checks whether an element is page chrome rather than content
+ *
+ * @param element - Element to check
+ * @param rootTextLength - Text length of the content root, used to protect large wrappers
+ * @returns True if the element should be skipped
+ */
+function isBoilerplate(element: Element, rootTextLength: number): boolean {
+  if (BOILERPLATE_TAGS.has(element.name)) {
+    return true
+  }
+
+  const { attribs } = element
+
+  if (attribs.hidden !== undefined || attribs["aria-hidden"] === "true" || /display\s*:\s*none/i.test(attribs.style || "")) {
+    return true
+  }
+
+  if (attribs.role && BOILERPLATE_ROLES.has(attribs.role.toLowerCase())) {
+    return true
+  }
+
+  // Only a page header is chrome; headers inside articles hold titles and bylines
+  if (element.name === "header" && !hasAncestor(element, "article")) {
+    return true
+  }
+
+  // Class names are a weaker signal, so never drop a wrapper holding most of the page
+  const names = `${attribs.class || ""} ${attribs.id || ""}`
+  if (BOILERPLATE_NAME_PATTERN.test(names)) {
+    return DomUtils.textContent(element).length < rootTextLength * 0.5
+  }
+
+  return false
+}
+
+/**
+ * Checks whether an element has an ancestor with the given tag name
+ *
+ * @param element - Element to check
+ * @param name - Ancestor tag name
+ * @returns True if such an ancestor exists
+ */
+function hasAncestor(element: Element, name: string): boolean {
+  let parent = element.parent
+
+  while (parent) {
+    if (isTag(parent) && parent.name === name) {
+      return true
+    }
+    parent = parent.parent
+  }
+
+  return false
+}
+
+/**
+ * Picks the element holding the main page content
+ *
+ * @param nodes - Top-level parsed nodes
+ * @returns Content root element, or undefined to use the whole document
+ */
+function findContentRoot(nodes: AnyNode[]): Element | undefined {
+  const main = DomUtils.findOne(
+    (element) => element.name === "main" || element.attribs.role?.toLowerCase() === "main",
+    nodes,
+  )
+
+  if (main) {
+    return main
+  }
+
+  // Pages listing several articles usually have one long one that is the content
+  const articles = DomUtils.findAll((element) => element.name === "article", nodes)
+  if (articles.length > 0) {
+    return articles.reduce((largest, article) =>
+      DomUtils.textContent(article).length > DomUtils.textContent(largest).length ? article : largest,
+    )
+  }
+
+  return DomUtils.findOne((element) => element.name === "body", nodes) || undefined
+}
+
+/**
+ * Extracts the language hint from a code element's class names
+ *
+ * @param element - pre or code element
+ * @returns Language name, or an empty string
+ */
+function getCodeLanguage(element: Element): string {
+  const code = element.name === "code" ? element : DomUtils.findOne((child) => child.name === "code", element.children)
+  const classNames = `${element.attribs.class || ""} ${code?.attribs.class || ""}`
+
+  return classNames.match(/\b(?:language|lang)-([\w+#-]+)/)?.[1] || ""
+}
+
+/**
+ * Collects preformatted text with whitespace preserved
+ *
+ * @param node - Node to collect text from
+ * @returns Raw text content
+ */
+function getPreformattedText(node: AnyNode): string {
+  if (isText(node)) {
+    return node.data
+  }
+
+  if (!isTag(node)) {
+    return ""
+  }
+
+  if (node.name === "br") {
+    return "\n"
+  }
+
+  return node.children.map(getPreformattedText).join("")
+}
+
+/**
+ * Converts an HTML page to markdown
+ *
+ * @param data - Raw file bytes
+ * @returns Markdown text with the page title and canonical URL
+ */
+export function convertHtmlToMarkdown(data: ArrayBuffer): HtmlConversionResult {
+  const document = parseDocument(decodeHtml(data))
+  const nodes = document.children
+
+  const titleElement = DomUtils.findOne((element) => element.name === "title", nodes)
+  const getMeta = (property: string) =>
+    DomUtils.findOne(
+      (element) =>
+        element.name === "meta" && (element.attribs.property === property || element.attribs.name === property),
+      nodes,
+    )?.attribs.content
+
+  const title = collapseWhitespace(titleElement ? DomUtils.textContent(titleElement) : getMeta("og:title") || "")
+
+  const canonicalLink = DomUtils.findOne(
+    (element) =>
+      element.name === "link" &&
+      (element.attribs.rel || "")
+        .toLowerCase()
+        .split(/\s+/)
+        .includes("canonical"),
+    nodes,
+  )
+  const canonicalUrl = (canonicalLink?.attribs.href || getMeta("og:url") || "").trim()
+
+  const root = findContentRoot(nodes)
+  const rootTextLength = DomUtils.textContent(root || nodes).length
+
+  const blocks: MarkdownBlock[] = []
+
+  // Collects inline text, flattening any nested structure
+  const getInlineText = (node: AnyNode): string => {
+    if (isText(node)) {
+      return node.data
+    }
+
+    if (!isTag(node) || isBoilerplate(node, rootTextLength)) {
+      return ""
+    }
+
+    switch (node.name) {
+      case "br":
+        return "\n"
+      case "img":
+        return ""
+      case "code":
+        return `\`${collapseWhitespace(node.children.map(getInlineText).join(""))}\``
+      default: {
+        const text = node.children.map(getInlineText).join("")
+        return BLOCK_TAGS.has(node.name) ? ` ${text} ` : text
+      }
+    }
+  }
+
+  const renderList = (list: Element, depth: number) => {
+    const isOrdered = list.name === "ol"
+    let number = Number.parseInt(list.attribs.start || "1", 10) - 1
+
+    for (const item of list.children) {
+      if (!isTag(item) || item.name !== "li" || isBoilerplate(item, rootTextLength)) {
+        continue
+      }
+
+      const nestedLists = item.children.filter(
+        (child): child is Element => isTag(child) && (child.name === "ul" || child.name === "ol"),
+      )
+      const text = collapseWhitespace(
+        item.children
+          .filter((child) => !nestedLists.includes(child as Element))
+          .map(getInlineText)
+          .join(""),
+      )
+
+      if (text) {
+        number++
+        blocks.push({
+          text: renderListItem(text, depth, isOrdered ? number : undefined),
+          listItem: true,
+        })
+      }
+
+      for (const nestedList of nestedLists) {
+        renderList(nestedList, depth + 1)
+      }
+    }
+  }
+
+  const getTableRows = (table: Element): string[][] => {
+    const rows = DomUtils.findAll(
+      (element) => element.name === "tr" && !hasNestedTableBetween(element, table),
+      table.children,
+    )
+
+    return rows.map((row) => {
+      const cells: string[] = []
+
+      for (const cell of row.children) {
+        if (!isTag(cell) || (cell.name !== "td" && cell.name !== "th")) {
+          continue
+        }
+
+        cells.push(cell.children.map(getInlineText).join(""))
+
+        const span = Math.min(Number.parseInt(cell.attribs.colspan || "1", 10) || 1, 100)
+        for (let i = 1; i < span; i++) {
+          cells.push("")
+        }
+      }
+
+      return cells
+    })
+  }
+
+  const renderBlockquote = (quote: Element) => {
+    const start = blocks.length
+    renderChildren(quote)
+    const quoted = blocks.splice(start)
+
+    const text = joinBlocks(quoted)
+    if (text) {
+      blocks.push({
+        text: text
+          .split("\n")
+          .map((line) => (line ? `> ${line}` : ">"))
+          .join("\n"),
+      })
+    }
+  }
+
+  const renderElement = (element: Element) => {
+    if (isBoilerplate(element, rootTextLength)) {
+      return
+    }
+
+    const headingMatch = element.name.match(HEADING_PATTERN)
+    if (headingMatch) {
+      const text = collapseWhitespace(element.children.map(getInlineText).join(""))
+      if (text) {
+        blocks.push({ text: renderHeading(text, Number.parseInt(headingMatch[1], 10)) })
+      }
+      return
+    }
+
+    switch (element.name) {
+      case "ul":
+      case "ol":
+        renderList(element, 0)
+        break
+      case "table":
+        blocks.push({ text: renderTable(getTableRows(element)) })
+        break
+      case "pre":
+        blocks.push({ text: renderCodeBlock(getPreformattedText(element), getCodeLanguage(element)) })
+        break
+      case "blockquote":
+        renderBlockquote(element)
+        break
+      case "hr":
+        break
+      default:
+        renderChildren(element)
+    }
+  }
+
+  // Renders block children, grouping runs of inline content into paragraphs
+  const renderChildren = (parent: Element | AnyNode[]) => {
+    const children = Array.isArray(parent) ? parent : parent.children
+    let inlineBuffer = ""
+
+    const flushInline = () => {
+      const text = inlineBuffer
+        .split("\n")
+        .map(collapseWhitespace)
+        .filter(Boolean)
+        .join("\n")
+
+      if (text) {
+        blocks.push({ text })
+      }
+      inlineBuffer = ""
+    }
+
+    for (const child of children) {
+      if (isTag(child) && BLOCK_TAGS.has(child.name)) {
+        flushInline()
+        renderElement(child)
+      } else {
+        inlineBuffer += getInlineText(child)
+      }
+    }
+
+    flushInline()
+  }
+
+  if (root) {
+    renderElement(root)
+  } else {
+    renderChildren(nodes)
+  }
+
+  return {
+    markdown: joinBlocks(blocks),
+    ...(title && { title }),
+    ...(canonicalUrl && { canonicalUrl }),
+  }
+}
+
+/**
+ * Checks whether a table row belongs to a table nested inside the given table
+ *
+ * @param row - tr element
+ * @param table - Outer table element
+ * @returns True if another table sits between the row and the outer table
+ */
+function hasNestedTableBetween(row: Element, table: Element): boolean {
+  let parent = row.parent
+
+  while (parent && parent !== table) {
+    if (isTag(parent) && parent.name === "table") {
+      return true
+    }
+    parent = parent.parent
+  }
+
+  return false
+}
@@ -0,0 +1,335 @@
+/**
+ * Incremental Indexing
+ *
+ * Compares the chunks of a re-processed document with the chunk vectors already stored,
+ * so only new or changed chunks are embedded. Each chunk vector carries a content hash
+ * and an ID derived from it, which keeps the ID stable when chunks before it are
+ * inserted or removed.
+ *
+ * Features:
+ * - SHA-256 content hash over chunk text and its location metadata
+ * - Embeddings reused by a hash of the text alone, so chunks that only moved are not embedded again
+ * - Stable, content-derived chunk IDs
+ * - Detection of stale vectors for chunks that no longer exist
+ * - Position updates for unchanged chunks without re-embedding them
+ * - Chunks embedded with a different model are treated as changed
+ * - Per-version chunk IDs, with embeddings reused from the previous version
+ * - Edge runtime compatible (no Node.js specific modules)
+ *
+ * Dependencies:
+ * - @/lib/vector-store for reading, updating and deleting chunk vectors
+ * - @/lib/chunking-utils for chunk metadata
+ * - @/lib/utils/hash-utils for hashing
+ * - @/lib/document-versioning for version filters
+ *
+ * @module lib/incremental-indexing
+ */
+
+import { logger } from "@/lib/utils/logger"
+import {
+  createPlaceholderVector,
+  deleteVectors,
+  fetchVectors,
+  queryVectors,
+  updateVectorMetadata,
+} from "@/lib/vector-store"
+import { toVectorMetadata, type Chunk } from "@/lib/chunking-utils"
+import { sha256Hex } from "@/lib/utils/hash-utils"
+import { getVersionClause, MAX_STORED_CHUNKS } from "@/lib/document-versioning"
+
+/**
+ * A chunk with its stable ID, content hash and position in the document
+ */
+export interface PlannedChunk {
+  chunk: Chunk
+  id: string
+  hash: string
+  // Hash of the text alone; chunks with the same text share an embedding wherever they sit
+  textHash: string
+  index: number
+}
+
+/**
+ * What has to change in the index to match the current chunks of a document
+ */
+export interface ChunkSyncPlan {
+  // New or changed chunks that need embeddings
+  changed: PlannedChunk[]
+  // Chunks already stored with the same hash and embedding model
+  unchanged: PlannedChunk[]
+  // Unchanged chunks whose stored position is out of date
+  moved: PlannedChunk[]
+  // Stored chunk vectors that the document no longer produces
+  staleIds: string[]
+  // Changed chunks whose embedding can be copied from another version, by chunk ID
+  reusable: Map<string, string>
+}
+
+// Vectors read per fetch request
+const FETCH_BATCH_SIZE = 100
+
+// Length of the hash prefix used in chunk IDs
+const CHUNK_ID_HASH_LENGTH = 24
+
+/**
+ * Error raised when the stored chunks of a document cannot be read
+ */
+export class ChunkSyncError extends Error {
+  code: string
+  retryable: boolean
+  context?: Record<string, any>
+
+  constructor(
+    message: string,
+    options: {
+      code?: string
+      retryable?: boolean
+      context?: Record<string, any>
+    } = {},
+  ) {
+    super(message)
+    this.name = "ChunkSyncError"
+    this.code = options.code || "chunk_sync_error"
+    this.retryable = options.retryable ?? false
+    this.context = options.context
+  }
+}
+
+/**
+ * Hashes a chunk's text together with the metadata stored next to it
+ * Location fields such as the page or heading are included so a moved chunk gets fresh metadata.
+ * Tags are left out: they come from LLM enrichment and can change between runs for the same text.
+ *
+ * @param chunk - Chunk to hash
+ * @returns Hex content hash
+ */
+export async function hashChunk(chunk: Chunk): Promise<string> {
+  const metadata = toVectorMetadata({ ...chunk.metadata, tags: undefined })
+  return sha256Hex(`${chunk.text}\u0000${JSON.stringify(metadata)}`)
+}
+
+/**
+ * Hashes a chunk's text alone
+ * The embedding depends only on the text, so this hash finds embeddings a chunk can reuse.
+ *
+ * @param chunk - Chunk to hash
+ * @returns Hex text hash
+ */
+export async function hashChunkText(chunk: Chunk): Promise<string> {
+  return sha256Hex(chunk.text)
+}
+
+/**
+ * Assigns stable IDs and hashes to a document's chunks
+ *
+ * @param documentId - Document ID
+ * @param chunks - Chunks in document order
+ * @param version - Document version the chunks belong to
+ * @returns Chunks with IDs, hashes and positions
+ */
+export async function planChunks(documentId: string, chunks: Chunk[], version = 1): Promise<PlannedChunk[]> {
+  const occurrences = new Map<string, number>()
+  const planned: PlannedChunk[] = []
+
+  for (let index = 0; index < chunks.length; index++) {
+    const hash = await hashChunk(chunks[index])
+
+    // Repeated chunks (e.g. a disclaimer on every page) get an occurrence suffix to keep IDs unique
+    const occurrence = occurrences.get(hash) || 0
+    occurrences.set(hash, occurrence + 1)
+
+    const suffix = occurrence > 0 ? `_${occurrence}` : ""
+    planned.push({
+      chunk: chunks[index],
+      id: `chunk_${documentId}_v${version}_${hash.slice(0, CHUNK_ID_HASH_LENGTH)}${suffix}`,
+      hash,
+      textHash: await hashChunkText(chunks[index]),
+      index,
+    })
+  }
+
+  return planned
+}
+
+/**
+ * Reads the stored chunk vectors of a document for the given versions
+ * IDs are listed without metadata, which allows ten times as many matches per query, and the
+ * metadata is then fetched by ID
+ *
+ * @param documentId - Document ID
+ * @param versions - Versions to read
+ * @param namespace - Namespace holding the document's vectors
+ * @returns Stored chunk vectors with their metadata
+ * @throws ChunkSyncError if the query fails or the document has more chunk vectors than one query lists
+ */
+async function listStoredChunks(
+  documentId: string,
+  versions: number[],
+  namespace: string,
+): Promise<{ id: string; metadata: Record<string, any> }[]> {
+  const response = await queryVectors(createPlaceholderVector(), {
+    filter: {
+      document_id: { $eq: documentId },
+      record_type: { $eq: "chunk" },
+      $and: [getVersionClause(versions)],
+    },
+    includeMetadata: false,
+    topK: MAX_STORED_CHUNKS,
+    namespace,
+  })
+
+  if (response.error) {
+    throw new ChunkSyncError(`Failed to list stored chunks: ${response.errorMessage}`, {
+      code: "query_failed",
+      retryable: true,
+      context: { documentId, versions },
+    })
+  }
+
+  const ids = (response.matches || []).map((match) => match.id)
+
+  // A full page may have left chunks out, and missing chunks would be neither reused nor removed
+  if (ids.length >= MAX_STORED_CHUNKS) {
+    throw new ChunkSyncError(`Document has ${MAX_STORED_CHUNKS} or more stored chunks, more than can be listed`, {
+      code: "too_many_chunks",
+      context: { documentId, versions },
+    })
+  }
+
+  const chunks: { id: string; metadata: Record<string, any> }[] = []
+
+  for (let i = 0; i < ids.length; i += FETCH_BATCH_SIZE) {
+    const { vectors } = await fetchVectors(ids.slice(i, i + FETCH_BATCH_SIZE), { namespace })
+
+    for (const vector of Object.values(vectors || {})) {
+      chunks.push({ id: vector.id, metadata: vector.metadata || {} })
+    }
+  }
+
+  return chunks
+}
+
+/**
+ * Compares a document's chunks with its stored chunk vectors
+ *
+ * @param documentId - Document ID
+ * @param chunks - Current chunks in document order
+ * @param options - Namespace, model of the active embedding index, version being indexed and the
+ * version to copy embeddings from
+ * @returns Plan listing chunks to embed, chunks to keep and vectors to delete
+ * @throws ChunkSyncError if the stored chunks cannot be read
+ */
+export async function planChunkSync(
+  documentId: string,
+  chunks: Chunk[],
+  options: { namespace: string; embeddingModel: string; version?: number; reuseFromVersion?: number },
+): Promise<ChunkSyncPlan> {
+  const { embeddingModel, version = 1, reuseFromVersion } = options
+  const planned = await planChunks(documentId, chunks, version)
+  const versions = reuseFromVersion !== undefined ? [version, reuseFromVersion] : [version]
+
+  const matches = await listStoredChunks(documentId, versions, options.namespace)
+
+  // Chunks stored before versioning have no version field and belong to version 1
+  const stored = new Map(
+    matches
+      .filter((match) => (match.metadata.version ?? 1) === version)
+      .map((match) => [match.id, match.metadata]),
+  )
+
+  // Any stored chunk with the same text and model can lend its embedding, including chunks whose location
+  // changed; the reusing chunk is stored with its own location metadata
+  const reusableByTextHash = new Map<string, string>()
+  for (const match of matches) {
+    const metadata = match.metadata
+    if (metadata.text_hash && metadata.embedding_model === embeddingModel) {
+      reusableByTextHash.set(metadata.text_hash, match.id)
+    }
+  }
+
+  const plan: ChunkSyncPlan = { changed: [], unchanged: [], moved: [], staleIds: [], reusable: new Map() }
+
+  for (const entry of planned) {
+    const metadata = stored.get(entry.id)
+
+    // Vectors written before hashing was introduced have no hash and are re-embedded once
+    if (metadata?.content_hash === entry.hash && metadata.embedding_model === embeddingModel) {
+      plan.unchanged.push(entry)
+      if (metadata.index !== entry.index) {
+        plan.moved.push(entry)
+      }
+    } else {
+      plan.changed.push(entry)
+
+      const sourceId = reusableByTextHash.get(entry.textHash)
+      if (sourceId) {
+        plan.reusable.set(entry.id, sourceId)
+      }
+    }
+  }
+
+  const currentIds = new Set(planned.map((entry) => entry.id))
+  plan.staleIds = Array.from(stored.keys()).filter((id) => !currentIds.has(id))
+
+  logger.info(`Planned incremental re-index: ${documentId}`, {
+    documentId,
+    version,
+    changed: plan.changed.length,
+    unchanged: plan.unchanged.length,
+    reusable: plan.reusable.size,
+    moved: plan.moved.length,
+    stale: plan.staleIds.length,
+  })
+
+  return plan
+}
+
+/**
+ * Removes stale chunk vectors and refreshes positions of unchanged chunks
+ * Call this after the changed chunks are stored, so a failed run never leaves a document with fewer chunks
+ *
+ * @param plan - Plan from planChunkSync
+ * @param options - Namespace holding the document's vectors
+ */
+export async function applyChunkSyncCleanup(plan: ChunkSyncPlan, options: { namespace: string }): Promise<void> {
+  for (let i = 0; i < plan.staleIds.length; i += 100) {
+    await deleteVectors({ ids: plan.staleIds.slice(i, i + 100), namespace: options.namespace })
+  }
+
+  const timestamp = new Date().toISOString()
+  for (const entry of plan.moved) {
+    await updateVectorMetadata(entry.id, { index: entry.index, updated_at: timestamp }, options)
+  }
+}
+
+/**
+ * Reads the stored embeddings that changed chunks can reuse from another version
+ *
+ * @param plan - Plan from planChunkSync
+ * @param options - Namespace holding the document's vectors
+ * @returns Embeddings by the ID of the chunk that reuses them
+ */
+export async function fetchReusableEmbeddings(
+  plan: ChunkSyncPlan,
+  options: { namespace: string },
+): Promise<Map<string, number[]>> {
+  const embeddings = new Map<string, number[]>()
+  const entries = Array.from(plan.reusable.entries())
+
+  for (let i = 0; i < entries.length; i += FETCH_BATCH_SIZE) {
+    const batch = entries.slice(i, i + FETCH_BATCH_SIZE)
+    const response = await fetchVectors(
+      batch.map(([, sourceId]) => sourceId),
+      { namespace: options.namespace, includeValues: true },
+    )
+
+    for (const [chunkId, sourceId] of batch) {
+      const values = response.vectors?.[sourceId]?.values
+      if (values && values.length > 0) {
+        embeddings.set(chunkId, values)
+      }
+    }
+  }
+
+  return embeddings
+}
@@ -0,0 +1,522 @@
+/**
+ * Job Queue
+ *
+ * Persisted background jobs, so long-running work such as document processing does not depend
+ * on the request that started it. A worker owns a job through a lease that it renews with
+ * heartbeats; when a worker disappears its lease runs out and another worker picks the job up.
+ * Failed attempts are retried with exponential backoff until the attempt limit is reached.
+ *
+ * Serverless invocations are short, so a job that cannot finish in one run pauses: its handler
+ * throws JobPausedError with a checkpoint, the job goes back to the queue holding it, and the
+ * next run continues from there. A pause does not use up an attempt.
+ *
+ * Jobs live in a Supabase table. A claim is a single conditional update in the database, so
+ * exactly one of several competing workers gets a job, and heartbeats and outcomes are written
+ * only while the writer still holds the lease.
+ *
+ * Features:
+ * - Atomic claims of due jobs and of jobs whose lease expired
+ * - Leases with heartbeats and takeover of expired leases
+ * - Attempt counting with exponential retry backoff
+ * - Pausing with a checkpoint, resumed by the next run
+ * - Progress, stage and result stored on the job for status polling
+ * - Edge runtime compatible (no Node.js specific modules)
+ *
+ * Dependencies:
+ * - @/lib/supabase-client for the service role client
+ * - @/lib/utils/logger for structured logging
+ *
+ * @module lib/job-queue
+ */
+
+import type { PostgrestError, SupabaseClient } from "@supabase/supabase-js"
+import { getSupabaseServiceClient } from "@/lib/supabase-client"
+import { logger } from "@/lib/utils/logger"
+import type { Job, JobType } from "@/types"
+import type { Database, Json } from "@/types/supabase"
+
+type JobRow = Database["public"]["Tables"]["jobs"]["Row"]
+type JobUpdate = Database["public"]["Tables"]["jobs"]["Update"]
+
+// How long a claim lasts without a heartbeat
+export const JOB_LEASE_MS = 60 * 1000
+
+// Retry backoff, doubled per attempt
+const RETRY_BASE_DELAY_MS = 30 * 1000
+const RETRY_MAX_DELAY_MS = 10 * 60 * 1000
+
+const DEFAULT_MAX_ATTEMPTS = 3
+
+/**
+ * Job queue error class
+ */
+export class JobError extends Error {
+  code: string
+  retryable: boolean
+  context?: Record<string, any>
+
+  constructor(
+    message: string,
+    options: {
+      code?: string
+      retryable?: boolean
+      context?: Record<string, any>
+    } = {},
+  ) {
+    super(message)
+    this.name = "JobError"
+    this.code = options.code || "job_error"
+    this.retryable = options.retryable ?? false
+    this.context = options.context
+  }
+}
+
+/**
+ * Thrown by a job handler that stops before its job is done, with where the next run continues
+ */
+export class JobPausedError extends JobError {
+  checkpoint: Record<string, any>
+
+  constructor(message: string, checkpoint: Record<string, any>) {
+    super(message, { code: "job_paused", retryable: true })
+    this.name = "JobPausedError"
+    this.checkpoint = checkpoint
+  }
+}
+
+/**
+ * Generate a unique job ID
+ *
+ * @returns Unique job ID
+ */
+export function generateJobId(): string {
+  const timestamp = Date.now()
+  const random = Math.floor(Math.random() * 10000)
+  return `job_${timestamp}_${random}`
+}
+
+/**
+ * Generate a unique worker ID used as lease owner
+ *
+ * @returns Unique worker ID
+ */
+export function generateWorkerId(): string {
+  return `worker_${Date.now()}_${Math.floor(Math.random() * 1000000)}`
+}
+
+/**
+ * Whether a job has finished for good
+ *
+ * @param job - Job
+ * @returns True if the job completed or failed permanently
+ */
+export function isJobFinished(job: Job): boolean {
+  return job.status === "completed" || job.status === "failed"
+}
+
+/**
+ * Gets the Supabase service client
+ *
+ * @returns Service role client
+ * @throws JobError if Supabase is not configured
+ */
+function getClient(): SupabaseClient<Database> {
+  const client = getSupabaseServiceClient()
+
+  if (!client) {
+    throw new JobError("Supabase is not configured. Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY.", {
+      code: "queue_not_configured",
+    })
+  }
+
+  return client
+}
+
+/**
+ * Converts a database error into a job error
+ * Connection failures, serialization failures and timeouts are worth retrying
+ *
+ * @param error - Error returned by Supabase
+ * @param operation - Operation that failed
+ * @param code - Error code for the job error
+ * @param context - Identifiers for the log
+ * @returns Job error
+ */
+function toJobError(
+  error: PostgrestError,
+  operation: string,
+  code: string,
+  context: Record<string, any> = {},
+): JobError {
+  const postgresCode = error.code || ""
+  const retryable =
+    postgresCode === "" || postgresCode.startsWith("08") || postgresCode === "40001" || postgresCode === "57014"
+
+  logger.error(`${operation} failed`, { ...context, code: postgresCode, error: error.message, details: error.details })
+
+  return new JobError(`${operation} failed: ${error.message}`, {
+    code,
+    retryable,
+    context: { ...context, postgresCode },
+  })
+}
+
+/**
+ * Converts a table row into a job
+ *
+ * @param row - Job row
+ * @returns Job
+ */
+function toJob(row: JobRow): Job {
+  return {
+    id: row.id,
+    type: row.type as JobType,
+    user_id: row.user_id,
+    document_id: row.document_id ?? undefined,
+    status: row.status as Job["status"],
+    payload: (row.payload as Record<string, any>) || {},
+    attempts: row.attempts,
+    max_attempts: row.max_attempts,
+    progress: row.progress,
+    stage: row.stage ?? undefined,
+    message: row.message ?? undefined,
+    result: (row.result as Record<string, any> | null) ?? undefined,
+    checkpoint: (row.checkpoint as Record<string, any> | null) ?? undefined,
+    error_message: row.error_message ?? undefined,
+    lease_owner: row.lease_owner ?? undefined,
+    // bigint columns may arrive as strings
+    lease_expires_at: row.lease_expires_at === null ? undefined : Number(row.lease_expires_at),
+    heartbeat_at: row.heartbeat_at ?? undefined,
+    run_after: Number(row.run_after),
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  }
+}
+
+/**
+ * Saves a job, replacing any previous state
+ * Not lease-checked; workers holding a job change it through the lease-bound functions below
+ *
+ * @param job - Job to save
+ * @returns Saved job
+ * @throws JobError if the row cannot be stored
+ */
+export async function saveJob(job: Job): Promise<Job> {
+  const { data, error } = await getClient()
+    .from("jobs")
+    .upsert({
+      id: job.id,
+      type: job.type,
+      user_id: job.user_id,
+      document_id: job.document_id ?? null,
+      status: job.status,
+      payload: job.payload as Json,
+      attempts: job.attempts,
+      max_attempts: job.max_attempts,
+      progress: job.progress,
+      stage: job.stage ?? null,
+      message: job.message ?? null,
+      result: (job.result as Json) ?? null,
+      checkpoint: (job.checkpoint as Json) ?? null,
+      error_message: job.error_message ?? null,
+      lease_owner: job.lease_owner ?? null,
+      lease_expires_at: job.lease_expires_at ?? null,
+      heartbeat_at: job.heartbeat_at ?? null,
+      run_after: job.run_after,
+      created_at: job.created_at,
+      updated_at: new Date().toISOString(),
+    })
+    .select()
+    .single()
+
+  if (error) {
+    throw toJobError(error, "Save job", "job_save_failed", { jobId: job.id })
+  }
+
+  return toJob(data)
+}
+
+/**
+ * Adds a job to the queue
+ *
+ * @param options - Job type, owner, payload, attempt limit and the earliest time to run it
+ * @returns Queued job
+ */
+export async function enqueueJob(options: {
+  type: JobType
+  userId: string
+  documentId?: string
+  payload: Record<string, any>
+  maxAttempts?: number
+  runAfter?: number
+}): Promise<Job> {
+  const now = new Date().toISOString()
+
+  const job = await saveJob({
+    id: generateJobId(),
+    type: options.type,
+    user_id: options.userId,
+    document_id: options.documentId,
+    status: "queued",
+    payload: options.payload,
+    attempts: 0,
+    max_attempts: options.maxAttempts || DEFAULT_MAX_ATTEMPTS,
+    progress: 0,
+    message: "Queued",
+    run_after: options.runAfter ?? Date.now(),
+    created_at: now,
+    updated_at: now,
+  })
+
+  logger.info(`Enqueued job: ${job.id}`, { jobId: job.id, type: job.type, documentId: job.document_id })
+
+  return job
+}
+
+/**
+ * Get job by ID
+ *
+ * @param id - Job ID
+ * @returns Job or null if not found
+ * @throws JobError if the job cannot be read
+ */
+export async function getJob(id: string): Promise<Job | null> {
+  const { data, error } = await getClient().from("jobs").select("*").eq("id", id).maybeSingle()
+
+  if (error) {
+    throw toJobError(error, "Get job", "job_read_failed", { jobId: id })
+  }
+
+  return data ? toJob(data) : null
+}
+
+/**
+ * Finds a queued or running job for a document
+ *
+ * @param documentId - Document ID
+ * @param type - Job type
+ * @returns Unfinished job or null
+ * @throws JobError if the jobs cannot be read
+ */
+export async function findActiveJob(documentId: string, type: JobType): Promise<Job | null> {
+  const { data, error } = await getClient()
+    .from("jobs")
+    .select("*")
+    .eq("document_id", documentId)
+    .eq("type", type)
+    .in("status", ["queued", "running"])
+    .order("created_at", { ascending: true })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    throw toJobError(error, "Find active job", "job_read_failed", { documentId, type })
+  }
+
+  return data ? toJob(data) : null
+}
+
+/**
+ * Tries to take ownership of a job
+ * The attempt count goes up with every claim; a job claimed past its attempt limit must be given up by the worker
+ *
+ * @param jobId - Job ID
+ * @param workerId - Worker claiming the job
+ * @returns Claimed job, or null if the job is not claimable or another worker won
+ * @throws JobError if the claim cannot be written
+ */
+export async function claimJob(jobId: string, workerId: string): Promise<Job | null> {
+  const { data, error } = await getClient()
+    .rpc("claim_job", { job_id: jobId, worker_id: workerId, lease_ms: JOB_LEASE_MS })
+    .maybeSingle()
+
+  if (error) {
+    throw toJobError(error, "Claim job", "job_claim_failed", { jobId, workerId })
+  }
+
+  if (!data) {
+    return null
+  }
+
+  const claimed = toJob(data)
+  logger.info(`Claimed job: ${jobId}`, { jobId, workerId, attempt: claimed.attempts })
+
+  return claimed
+}
+
+/**
+ * Claims the oldest job that is due or whose lease expired
+ *
+ * @param workerId - Worker claiming the job
+ * @param options - Job types the worker handles
+ * @returns Claimed job or null if there is nothing to do
+ * @throws JobError if the claim cannot be written
+ */
+export async function claimNextJob(workerId: string, options: { types?: JobType[] } = {}): Promise<Job | null> {
+  const { data, error } = await getClient()
+    .rpc("claim_next_job", { worker_id: workerId, lease_ms: JOB_LEASE_MS, job_types: options.types ?? null })
+    .maybeSingle()
+
+  if (error) {
+    throw toJobError(error, "Claim next job", "job_claim_failed", { workerId })
+  }
+
+  if (!data) {
+    return null
+  }
+
+  const claimed = toJob(data)
+  logger.info(`Claimed job: ${claimed.id}`, { jobId: claimed.id, workerId, attempt: claimed.attempts })
+
+  return claimed
+}
+
+/**
+ * Writes changes to a job only while the worker still holds its lease
+ *
+ * @param job - Job held by the worker
+ * @param workerId - Worker ID
+ * @param changes - Columns to change
+ * @returns Updated job
+ * @throws JobError with code "lease_lost" if another worker took the job over or it finished
+ */
+async function updateLeasedJob(job: Job, workerId: string, changes: JobUpdate): Promise<Job> {
+  const { data, error } = await getClient()
+    .from("jobs")
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq("id", job.id)
+    .eq("lease_owner", workerId)
+    .eq("status", "running")
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    throw toJobError(error, "Update job", "job_save_failed", { jobId: job.id, workerId })
+  }
+
+  if (!data) {
+    throw new JobError(`Lease on job ${job.id} was lost`, {
+      code: "lease_lost",
+      context: { jobId: job.id, workerId },
+    })
+  }
+
+  return toJob(data)
+}
+
+/**
+ * Renews a job's lease and records its progress
+ *
+ * @param job - Job held by the worker
+ * @param workerId - Worker ID
+ * @param update - Progress to record
+ * @returns Updated job
+ * @throws JobError with code "lease_lost" if another worker took the job over
+ */
+export async function heartbeatJob(
+  job: Job,
+  workerId: string,
+  update: { progress?: number; stage?: string; message?: string } = {},
+): Promise<Job> {
+  const now = Date.now()
+
+  return updateLeasedJob(job, workerId, {
+    ...(update.progress !== undefined && { progress: update.progress }),
+    ...(update.stage !== undefined && { stage: update.stage }),
+    ...(update.message !== undefined && { message: update.message }),
+    lease_expires_at: now + JOB_LEASE_MS,
+    heartbeat_at: new Date(now).toISOString(),
+  })
+}
+
+/**
+ * Marks a job as completed
+ *
+ * @param job - Job held by the worker
+ * @param workerId - Worker ID
+ * @param result - Result to store on the job
+ * @returns Completed job
+ * @throws JobError with code "lease_lost" if another worker took the job over
+ */
+export async function completeJob(job: Job, workerId: string, result: Record<string, any> = {}): Promise<Job> {
+  return updateLeasedJob(job, workerId, {
+    status: "completed",
+    progress: 100,
+    message: "Completed",
+    result: result as Json,
+    checkpoint: null,
+    error_message: null,
+    lease_owner: null,
+    lease_expires_at: null,
+  })
+}
+
+/**
+ * Queues a job again to continue from a checkpoint in the next run
+ * The attempt taken by the claim is given back, since the run did not fail
+ *
+ * @param job - Job held by the worker
+ * @param workerId - Worker ID
+ * @param checkpoint - Where the next run continues
+ * @param message - Status message, e.g. what the run got done
+ * @returns Queued job
+ * @throws JobError with code "lease_lost" if another worker took the job over
+ */
+export async function pauseJob(
+  job: Job,
+  workerId: string,
+  checkpoint: Record<string, any>,
+  message: string,
+): Promise<Job> {
+  logger.info(`Job paused: ${job.id}`, { jobId: job.id, workerId, message })
+
+  // Only the lease holder changes attempts, so the worker's copy is current
+  return updateLeasedJob(job, workerId, {
+    status: "queued",
+    attempts: Math.max(job.attempts - 1, 0),
+    checkpoint: checkpoint as Json,
+    message,
+    error_message: null,
+    run_after: Date.now(),
+    lease_owner: null,
+    lease_expires_at: null,
+  })
+}
+
+/**
+ * Records a failed attempt; the job is queued again unless it is out of attempts or the failure is permanent
+ *
+ * @param job - Job held by the worker
+ * @param workerId - Worker ID
+ * @param error - Failure
+ * @param options - Whether another attempt could succeed
+ * @returns Requeued or failed job
+ * @throws JobError with code "lease_lost" if another worker took the job over
+ */
+export async function failJob(
+  job: Job,
+  workerId: string,
+  error: unknown,
+  options: { retryable?: boolean } = {},
+): Promise<Job> {
+  const message = error instanceof Error ? error.message : "Unknown error"
+  const retry = (options.retryable ?? true) && job.attempts < job.max_attempts
+
+  const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(job.attempts - 1, 0), RETRY_MAX_DELAY_MS)
+
+  logger.warn(`Job attempt failed: ${job.id}`, {
+    jobId: job.id,
+    attempt: job.attempts,
+    willRetry: retry,
+    error: message,
+  })
+
+  return updateLeasedJob(job, workerId, {
+    status: retry ? "queued" : "failed",
+    error_message: message,
+    message: retry ? `Attempt ${job.attempts} failed, retrying` : "Failed",
+    ...(retry && { run_after: Date.now() + delay }),
+    lease_owner: null,
+    lease_expires_at: null,
+  })
+}
@@ -0,0 +1,540 @@
+/**
+ * Job Worker
+ *
+ * Runs jobs from the job queue. A worker claims a job, keeps its lease alive with heartbeats
+ * while the job's handler runs, and records the outcome. Workers are started by the cron
+ * route at /api/jobs/worker and by request handlers that want to run a job they just queued,
+ * such as the streaming document processing route.
+ *
+ * Features:
+ * - Handler registry per job type
+ * - Heartbeats on a timer and on handler progress
+ * - Retry decisions based on the handler's error
+ * - Driving a single job to completion, or following it while another worker runs it
+ * - Time-boxed runs for serverless invocations: handlers pause at the deadline with a checkpoint,
+ *   or queue a continuation job, and the next run picks the work up
+ *
+ * Dependencies:
+ * - @/lib/job-queue for job storage and leases
+ * - @/lib/document-service for document processing and new document versions
+ * - @/lib/embedding-migration for re-embedding into a new embedding index
+ * - @/lib/consistency-checker for reconciling documents with their vectors and files
+ * - @/lib/knowledge-base-snapshot for exporting and restoring knowledge bases
+ * - @/lib/batch-service for processing the files of archive uploads
+ * - @/lib/utils/logger for structured logging
+ *
+ * @module lib/job-worker
+ */
+
+import { logger } from "@/lib/utils/logger"
+import {
+  claimJob,
+  claimNextJob,
+  completeJob,
+  enqueueJob,
+  failJob,
+  findActiveJob,
+  generateWorkerId,
+  getJob,
+  heartbeatJob,
+  isJobFinished,
+  JobError,
+  JobPausedError,
+  JOB_LEASE_MS,
+  pauseJob,
+} from "@/lib/job-queue"
+import {
+  documentService,
+  DocumentProcessingError,
+  type DocumentProcessingProgress,
+  type DocumentProcessingResult,
+  type VersionCheckpoint,
+} from "@/lib/document-service"
+import { EmbeddingMigrationError, failEmbeddingMigration, runEmbeddingMigration } from "@/lib/embedding-migration"
+import { runConsistencyCheck } from "@/lib/consistency-checker"
+import {
+  BatchError,
+  failBatch,
+  runBatchProcessing,
+  type BatchCheckpoint,
+  type BatchJobPayload,
+} from "@/lib/batch-service"
+import {
+  exportKnowledgeBase,
+  restoreKnowledgeBase,
+  SnapshotError,
+  type SnapshotExportCheckpoint,
+  type SnapshotRestoreCheckpoint,
+} from "@/lib/knowledge-base-snapshot"
+import type { Job, JobType, ProcessDocumentOptions } from "@/types"
+
+// Interval of lease renewals while a handler runs
+const HEARTBEAT_INTERVAL_MS = Math.floor(JOB_LEASE_MS / 4)
+
+// Minimum time between heartbeats caused by progress updates
+const PROGRESS_HEARTBEAT_MS = 2000
+
+// Interval at which a job run by another worker is polled
+const POLL_INTERVAL_MS = 2000
+
+// Edge invocations must respond within 25 seconds; handlers stop at the end of the budget, which
+// leaves the rest of the invocation for the step in flight and for recording the pause
+const DEFAULT_TIME_BUDGET_MS = 15 * 1000
+
+// A worker only claims a job with at least this long left in its budget
+const MIN_RUN_MS = 5 * 1000
+
+// Time a request following a job waits when the caller does not say
+const DEFAULT_DRIVE_TIMEOUT_MS = 5 * 60 * 1000
+
+// Document processing failures another attempt can fix
+const RETRYABLE_PROCESSING_CODES = [
+  "fetch_failed",
+  "embedding_generation_failed",
+  "processing_failed",
+  "url_processing_failed",
+]
+
+/**
+ * Progress of a job as reported to callers following it
+ */
+export interface JobProgressUpdate {
+  jobId: string
+  status: Job["status"]
+  progress: number
+  stage?: string
+  message?: string
+  attempt: number
+}
+
+/**
+ * What a job handler is given for one run
+ */
+interface JobRunContext {
+  onProgress: (progress: DocumentProcessingProgress) => void
+  // Epoch milliseconds at which the handler pauses or queues a continuation
+  deadline: number
+  // Where the previous run paused, if it did
+  checkpoint?: Record<string, any>
+}
+
+/**
+ * Job handler interface
+ */
+interface JobHandler {
+  // Runs the job and returns the result stored on it; throws JobPausedError to continue in the next run
+  run: (job: Job, context: JobRunContext) => Promise<Record<string, any>>
+  // Cleans up after a job failed for good
+  onFailed?: (job: Job) => Promise<void>
+}
+
+/**
+ * Converts a document processing result into the result stored on its job
+ *
+ * @param result - Processing result
+ * @returns Job result
+ */
+function toJobResult(result: DocumentProcessingResult): Record<string, any> {
+  return {
+    documentId: result.documentId,
+    status: result.status,
+    totalChunks: result.totalChunks,
+    successfulChunks: result.successfulChunks,
+    failedChunks: result.failedChunks,
+    unchangedChunks: result.unchangedChunks,
+    version: result.version,
+    processingTime: result.processingTime,
+    ...(result.warnings?.length && { warnings: result.warnings }),
+  }
+}
+
+const handlers: Record<JobType, JobHandler> = {
+  process_document: {
+    run: async (job, { onProgress, deadline, checkpoint }) => {
+      // A resumed run finds the chunks stored before the pause unchanged and only embeds the rest;
+      // graph extraction continues from the chunk it reached
+      const result = await documentService.processDocumentFromUrl({
+        ...(job.payload as ProcessDocumentOptions),
+        processingOptions: { onProgress, deadline, graphOffset: checkpoint?.graphOffset },
+      })
+
+      return toJobResult(result)
+    },
+    onFailed: async (job) => {
+      if (job.document_id) {
+        await documentService.markProcessingFailed(
+          job.document_id,
+          job.user_id,
+          job.error_message || "Document processing failed",
+        )
+      }
+    },
+  },
+  create_version: {
+    run: async (job, { onProgress, deadline, checkpoint }) => {
+      // A resumed run continues the version it started instead of numbering a new one
+      const result = await documentService.createVersionFromUrl({
+        ...(job.payload as ProcessDocumentOptions),
+        processingOptions: { onProgress, deadline },
+        checkpoint: checkpoint as VersionCheckpoint | undefined,
+      })
+
+      return toJobResult(result)
+    },
+    // Runs that failed cleaned up after themselves; a run that stopped responding after a pause did not
+    onFailed: async (job) => {
+      if (job.checkpoint) {
+        await documentService.discardVersion(
+          job.checkpoint as VersionCheckpoint,
+          job.error_message || "Document version processing failed",
+        )
+      }
+    },
+  },
+  migrate_embeddings: {
+    run: (job, { onProgress, deadline }) =>
+      runEmbeddingMigration(job.payload.migrationId, { onProgress, timeBudgetMs: deadline - Date.now() }),
+    onFailed: (job) =>
+      failEmbeddingMigration(job.payload.migrationId, job.error_message || "Embedding migration failed"),
+  },
+  check_consistency: {
+    run: (job, { onProgress, deadline }) =>
+      runConsistencyCheck(job.payload, { onProgress, timeBudgetMs: deadline - Date.now() }),
+  },
+  export_snapshot: {
+    run: async (job, { onProgress, deadline, checkpoint }) => ({
+      ...(await exportKnowledgeBase(job.user_id, {
+        snapshotId: job.payload.snapshotId,
+        documentIds: job.payload.documentIds,
+        onProgress,
+        deadline,
+        checkpoint: checkpoint as SnapshotExportCheckpoint | undefined,
+      })),
+    }),
+  },
+  restore_snapshot: {
+    run: async (job, { onProgress, deadline, checkpoint }) => ({
+      ...(await restoreKnowledgeBase({
+        manifestUrl: job.payload.manifestUrl,
+        userId: job.user_id,
+        documentIds: job.payload.documentIds,
+        onProgress,
+        deadline,
+        checkpoint: checkpoint as SnapshotRestoreCheckpoint | undefined,
+      })),
+    }),
+  },
+  process_batch: {
+    run: (job, { onProgress, deadline, checkpoint }) =>
+      runBatchProcessing(job.user_id, job.payload as BatchJobPayload, {
+        onProgress,
+        deadline,
+        checkpoint: checkpoint as BatchCheckpoint | undefined,
+      }),
+    onFailed: (job) => failBatch(job.payload.batchId, job.user_id, job.error_message || "Batch processing failed"),
+  },
+}
+
+/**
+ * Whether another attempt could fix a failure
+ *
+ * @param error - Error thrown by a job handler
+ * @returns True if the job should be retried
+ */
+function isRetryableFailure(error: unknown): boolean {
+  if (error instanceof DocumentProcessingError) {
+    return error.retryable || RETRYABLE_PROCESSING_CODES.includes(error.code)
+  }
+
+  if (
+    error instanceof JobError ||
+    error instanceof EmbeddingMigrationError ||
+    error instanceof SnapshotError ||
+    error instanceof BatchError
+  ) {
+    return error.retryable
+  }
+
+  // Unexpected errors are mostly network or service hiccups
+  return true
+}
+
+/**
+ * Converts a job into a progress update
+ *
+ * @param job - Job
+ * @returns Progress update
+ */
+export function toProgressUpdate(job: Job): JobProgressUpdate {
+  return {
+    jobId: job.id,
+    status: job.status,
+    progress: job.progress,
+    stage: job.stage,
+    message: job.status === "failed" ? job.error_message || job.message : job.message,
+    attempt: job.attempts,
+  }
+}
+
+/**
+ * Queues processing of a document unless it is already queued or running
+ *
+ * @param options - Document to process
+ * @returns Queued or running job for the document
+ */
+export async function enqueueDocumentProcessing(options: ProcessDocumentOptions): Promise<Job> {
+  const active = await findActiveJob(options.documentId, "process_document")
+
+  if (active) {
+    logger.info(`Document already has an active processing job: ${options.documentId}`, {
+      documentId: options.documentId,
+      jobId: active.id,
+    })
+    return active
+  }
+
+  return enqueueJob({
+    type: "process_document",
+    userId: options.userId,
+    documentId: options.documentId,
+    payload: { ...options },
+  })
+}
+
+/**
+ * Queues indexing of a new version of a document unless one is already queued or running
+ *
+ * @param options - New version of the document, stored at the file URL
+ * @returns Queued job, or the active job of a version upload already in progress
+ */
+export async function enqueueVersionCreation(options: ProcessDocumentOptions): Promise<Job> {
+  const active = await findActiveJob(options.documentId, "create_version")
+
+  if (active) {
+    logger.info(`Document already has an active version job: ${options.documentId}`, {
+      documentId: options.documentId,
+      jobId: active.id,
+    })
+    return active
+  }
+
+  return enqueueJob({
+    type: "create_version",
+    userId: options.userId,
+    documentId: options.documentId,
+    payload: { ...options },
+  })
+}
+
+/**
+ * Runs a claimed job and records its outcome
+ *
+ * @param job - Job claimed by the worker
+ * @param workerId - Worker ID
+ * @param onUpdate - Called with the job's progress
+ * @param options - Time at which the handler pauses
+ * @returns Job after the run
+ */
+export async function runJob(
+  job: Job,
+  workerId: string,
+  onUpdate?: (update: JobProgressUpdate) => void,
+  options: { deadline?: number } = {},
+): Promise<Job> {
+  const handler = handlers[job.type]
+  const deadline = options.deadline ?? Date.now() + DEFAULT_TIME_BUDGET_MS
+  let current = job
+  let lastHeartbeat = Date.now()
+  let leaseLost = false
+  // Set once the handler returns; no heartbeat may start after that
+  let finishing = false
+  let inFlightHeartbeat: Promise<void> | null = null
+
+  const notify = (update: Partial<JobProgressUpdate>) => {
+    onUpdate?.({ ...toProgressUpdate(current), ...update })
+  }
+
+  // One heartbeat at a time; a heartbeat still being written when the outcome is recorded would put the
+  // job back to running with a fresh lease
+  const heartbeat = (update: { progress?: number; stage?: string; message?: string } = {}) => {
+    if (leaseLost || finishing || inFlightHeartbeat) {
+      return
+    }
+
+    lastHeartbeat = Date.now()
+    inFlightHeartbeat = (async () => {
+      try {
+        current = await heartbeatJob(current, workerId, update)
+      } catch (error) {
+        if (error instanceof JobError && error.code === "lease_lost") {
+          leaseLost = true
+        }
+        logger.warn(`Heartbeat failed for job: ${job.id}`, {
+          jobId: job.id,
+          error: error instanceof Error ? error.message : "Unknown error",
+        })
+      } finally {
+        inFlightHeartbeat = null
+      }
+    })()
+  }
+
+  // A job claimed after using up its attempts was left behind by workers that stopped responding
+  if (!handler || job.attempts > job.max_attempts) {
+    const reason = handler ? `Gave up after ${job.max_attempts} attempts` : `No handler for job type: ${job.type}`
+    const failed = await failJob(job, workerId, new JobError(reason), { retryable: false })
+    // The job is already recorded as failed, so a cleanup error must not keep this run from returning it
+    await handler?.onFailed?.(failed).catch((cleanupError: unknown) => {
+      logger.warn(`Failed to clean up after abandoned job: ${job.id}`, {
+        jobId: job.id,
+        error: cleanupError instanceof Error ? cleanupError.message : "Unknown error",
+      })
+    })
+    onUpdate?.(toProgressUpdate(failed))
+    return failed
+  }
+
+  notify({})
+
+  const timer = setInterval(() => {
+    heartbeat()
+  }, HEARTBEAT_INTERVAL_MS)
+
+  const stopHeartbeats = async () => {
+    finishing = true
+    clearInterval(timer)
+    await inFlightHeartbeat
+  }
+
+  try {
+    const onProgress = (progress: DocumentProcessingProgress) => {
+      notify({ progress: progress.progress, stage: progress.stage, message: progress.message })
+
+      if (Date.now() - lastHeartbeat >= PROGRESS_HEARTBEAT_MS) {
+        heartbeat({ progress: progress.progress, stage: progress.stage, message: progress.message })
+      }
+    }
+
+    const result = await handler.run(job, { onProgress, deadline, checkpoint: job.checkpoint })
+
+    await stopHeartbeats()
+    current = await completeJob(current, workerId, result)
+
+    logger.info(`Job completed: ${job.id}`, { jobId: job.id, type: job.type, attempt: job.attempts })
+  } catch (error) {
+    await stopHeartbeats()
+
+    if (error instanceof JobPausedError) {
+      try {
+        current = await pauseJob(current, workerId, error.checkpoint, error.message)
+      } catch (pauseError) {
+        if (pauseError instanceof JobError && pauseError.code === "lease_lost") {
+          logger.warn(`Lease lost while pausing job: ${job.id}`, { jobId: job.id, workerId })
+          return (await getJob(job.id)) || current
+        }
+        throw pauseError
+      }
+
+      onUpdate?.(toProgressUpdate(current))
+      return current
+    }
+
+    try {
+      current = await failJob(current, workerId, error, { retryable: isRetryableFailure(error) })
+    } catch (failError) {
+      // Another worker took the job over; its outcome wins
+      if (failError instanceof JobError && failError.code === "lease_lost") {
+        logger.warn(`Lease lost while recording failure of job: ${job.id}`, { jobId: job.id, workerId })
+        return (await getJob(job.id)) || current
+      }
+      throw failError
+    }
+
+    if (current.status === "failed") {
+      await handler.onFailed?.(current).catch((cleanupError: unknown) => {
+        logger.error(`Failed to clean up after job: ${job.id}`, {
+          jobId: job.id,
+          error: cleanupError instanceof Error ? cleanupError.message : "Unknown error",
+        })
+      })
+    }
+  }
+
+  onUpdate?.(toProgressUpdate(current))
+
+  return current
+}
+
+/**
+ * Runs a job if it can be claimed, otherwise follows it while another worker runs it
+ * Returns when the job finished, is waiting for a retry, or the timeout passed; a job this call runs
+ * pauses at the timeout and the cron worker continues it
+ *
+ * @param jobId - Job ID
+ * @param options - Progress callback and maximum time to spend
+ * @returns Latest state of the job
+ * @throws JobError if the job does not exist
+ */
+export async function driveJob(
+  jobId: string,
+  options: { onUpdate?: (update: JobProgressUpdate) => void; timeoutMs?: number } = {},
+): Promise<Job> {
+  const workerId = generateWorkerId()
+  const deadline = Date.now() + (options.timeoutMs ?? DEFAULT_DRIVE_TIMEOUT_MS)
+  let lastMessage = ""
+
+  while (true) {
+    const claimed = await claimJob(jobId, workerId)
+    if (claimed) {
+      return runJob(claimed, workerId, options.onUpdate, { deadline })
+    }
+
+    const job = await getJob(jobId)
+    if (!job) {
+      throw new JobError(`Job not found: ${jobId}`, { code: "job_not_found", context: { jobId } })
+    }
+
+    const update = toProgressUpdate(job)
+    const key = `${update.status}:${update.progress}:${update.message}`
+    if (key !== lastMessage) {
+      lastMessage = key
+      options.onUpdate?.(update)
+    }
+
+    // A job waiting for its retry is picked up by the cron worker
+    if (isJobFinished(job) || job.status === "queued" || Date.now() >= deadline) {
+      return job
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS))
+  }
+}
+
+/**
+ * Claims and runs due jobs until the queue is empty or the time budget is used up
+ * Jobs still running at the end of the budget pause and continue in a later invocation
+ *
+ * @param options - Time budget and job types to run
+ * @returns IDs of the jobs that were run
+ */
+export async function runWorker(
+  options: { timeBudgetMs?: number; types?: JobType[] } = {},
+): Promise<{ workerId: string; jobs: Array<{ id: string; status: Job["status"] }> }> {
+  const workerId = generateWorkerId()
+  const deadline = Date.now() + (options.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS)
+  const jobs: Array<{ id: string; status: Job["status"] }> = []
+
+  while (deadline - Date.now() >= MIN_RUN_MS) {
+    const job = await claimNextJob(workerId, { types: options.types })
+    if (!job) {
+      break
+    }
+
+    const finished = await runJob(job, workerId, undefined, { deadline })
+    jobs.push({ id: finished.id, status: finished.status })
+  }
+
+  logger.info(`Worker finished: ${workerId}`, { workerId, jobsRun: jobs.length })
+
+  return { workerId, jobs }
+}
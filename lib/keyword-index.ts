@@ -0,0 +1,375 @@
+/**
+ * Keyword Index
+ *
+ * Keyword search over chunk text. Every chunk stores its distinct search terms and their
+ * prefixes as metadata lists, and Pinecone's metadata index over those lists serves as the
+ * inverted index: a filter on a term returns every chunk that contains it, across the whole
+ * corpus, instead of the nearest neighbours of a vector. Matches are then scored with BM25 from
+ * the term positions in their content.
+ *
+ * Queries support plain terms, quoted phrases ("pressure relief valve") that must appear as
+ * written, and prefixes (hydraul*). A query whose words appear next to each other in a chunk
+ * ranks that chunk higher, as if they had been quoted.
+ *
+ * Every term reads at most MAX_MATCHES_PER_TERM chunks. Rare terms such as identifiers are read
+ * completely; for terms more frequent than that the matches are a sample, which matters little
+ * since such terms carry almost no weight. Chunks stored before the index existed have no terms
+ * and are found once their document is processed again.
+ *
+ * Features:
+ * - Term, phrase and prefix matching with the tokenizer used for sparse vectors
+ * - BM25 scoring with document frequencies counted across the candidates
+ * - Search metadata filters applied by the index, together with the term filters
+ * - Edge runtime compatible (no Node.js specific modules)
+ *
+ * Dependencies:
+ * - @/lib/sparse-encoder for tokenizing and term frequency weights
+ * - @/lib/vector-store for querying the index
+ * - @/lib/utils/logger for structured logging
+ *
+ * @module lib/keyword-index
+ */
+
+import { logger } from "@/lib/utils/logger"
+import { createPlaceholderVector, getUserNamespace, queryVectors } from "@/lib/vector-store"
+import { bm25TermFrequency, tokenize, tokenizeWithPositions, type Token } from "@/lib/sparse-encoder"
+
+// Length of the prefixes stored per chunk; shorter prefix queries are matched as whole terms
+const PREFIX_LENGTH = 3
+
+// Terms stored per chunk; chunks of generated or tabular text can have many distinct terms
+const MAX_INDEXED_TERMS = 1000
+
+// Chunks read per query term; Pinecone returns at most 1000 matches with metadata
+const MAX_MATCHES_PER_TERM = 1000
+
+// Query terms, prefixes and phrases looked up per search
+const MAX_QUERY_PARTS = 10
+
+// Chunk documents read to count the corpus for inverse document frequencies
+const MAX_COUNTED_DOCUMENTS = 1000
+
+// Score multiplier for chunks that contain the unquoted query words next to each other
+const ADJACENCY_BOOST = 1.5
+
+/**
+ * Term of a phrase and its position relative to the phrase's first word
+ */
+export interface PhraseTerm {
+  term: string
+  offset: number
+}
+
+/**
+ * Parsed keyword query
+ */
+export interface KeywordQuery {
+  // Whole terms, from unquoted words and phrases
+  terms: string[]
+  // Prefixes of terms, from words ending in *
+  prefixes: string[]
+  // Phrases that must appear as written
+  phrases: PhraseTerm[][]
+  // Unquoted words in order, for ranking chunks where they appear together
+  sequence: PhraseTerm[]
+}
+
+/**
+ * Chunk found by keyword search
+ */
+export interface KeywordMatch {
+  chunkId: string
+  // BM25 score relative to the best match, between 0 and 1
+  score: number
+  // Query terms and prefixes the chunk contains
+  matchedTerms: string[]
+  metadata: Record<string, any>
+}
+
+/**
+ * Builds the metadata that makes a chunk findable by keyword search
+ *
+ * @param text - Chunk text
+ * @returns Distinct terms and term prefixes of the chunk
+ */
+export function getKeywordMetadata(text: string): { terms: string[]; term_prefixes: string[] } {
+  const terms = Array.from(new Set(tokenize(text))).slice(0, MAX_INDEXED_TERMS)
+  const prefixes = new Set(terms.filter((term) => term.length >= PREFIX_LENGTH).map(getPrefixKey))
+
+  return { terms, term_prefixes: Array.from(prefixes) }
+}
+
+/**
+ * Stored prefix under which a term or prefix is found
+ *
+ * @param term - Term or prefix of at least PREFIX_LENGTH characters
+ * @returns First PREFIX_LENGTH characters
+ */
+function getPrefixKey(term: string): string {
+  return term.slice(0, PREFIX_LENGTH)
+}
+
+/**
+ * Converts tokens into phrase terms positioned relative to the first word
+ *
+ * @param tokens - Tokens of the phrase
+ * @returns Phrase terms
+ */
+function toPhraseTerms(tokens: Token[]): PhraseTerm[] {
+  const start = tokens.length > 0 ? tokens[0].position : 0
+  return tokens.map((token) => ({ term: token.term, offset: token.position - start }))
+}
+
+/**
+ * Parses a keyword query into terms, prefixes and phrases
+ *
+ * @param query - Search query, with optional "quoted phrases" and prefix* words
+ * @returns Parsed query
+ */
+export function parseKeywordQuery(query: string): KeywordQuery {
+  const phrases: PhraseTerm[][] = []
+  const prefixes: string[] = []
+
+  const unquoted = query.replace(/"([^"]*)"/g, (_, phrase: string) => {
+    const tokens = tokenizeWithPositions(phrase)
+    if (tokens.length > 0) {
+      phrases.push(toPhraseTerms(tokens))
+    }
+    return " "
+  })
+
+  const words = unquoted.replace(/([\p{L}\p{N}][\p{L}\p{N}\-_./]*)\*/gu, (_, word: string) => {
+    const prefix = word.toLowerCase()
+    if (prefix.length < PREFIX_LENGTH) {
+      // Too short to look up by prefix, so it is searched as a whole term
+      return word
+    }
+
+    if (!prefixes.includes(prefix)) {
+      prefixes.push(prefix)
+    }
+    return " "
+  })
+
+  const sequence = toPhraseTerms(tokenizeWithPositions(words))
+  const terms = Array.from(
+    new Set([
+      ...sequence.map((entry) => entry.term),
+      ...phrases.reduce<string[]>((all, phrase) => all.concat(phrase.map((entry) => entry.term)), []),
+    ]),
+  )
+
+  return { terms, prefixes, phrases, sequence }
+}
+
+/**
+ * Candidate chunk with the positions of its terms
+ */
+interface IndexedChunk {
+  metadata: Record<string, any>
+  positions: Map<string, number[]>
+  length: number
+}
+
+/**
+ * Lists the positions of every term in a chunk
+ *
+ * @param text - Chunk text
+ * @returns Positions by term and the number of terms
+ */
+function indexChunkText(text: string): Omit<IndexedChunk, "metadata"> {
+  const tokens = tokenizeWithPositions(text)
+  const positions = new Map<string, number[]>()
+
+  for (const { term, position } of tokens) {
+    const list = positions.get(term)
+    if (list) {
+      list.push(position)
+    } else {
+      positions.set(term, [position])
+    }
+  }
+
+  return { positions, length: tokens.length }
+}
+
+/**
+ * Whether a phrase appears in a chunk
+ *
+ * @param positions - Positions by term in the chunk
+ * @param phrase - Phrase terms
+ * @returns True if every term appears at its offset from some start position
+ */
+function containsPhrase(positions: Map<string, number[]>, phrase: PhraseTerm[]): boolean {
+  if (phrase.length === 0) {
+    return true
+  }
+
+  const starts = positions.get(phrase[0].term) || []
+
+  return starts.some((start) =>
+    phrase.every(({ term, offset }) => (positions.get(term) || []).includes(start + offset)),
+  )
+}
+
+/**
+ * Counts the occurrences of a query term or prefix in a chunk
+ *
+ * @param positions - Positions by term in the chunk
+ * @param term - Query term
+ * @param isPrefix - Whether every term starting with it counts
+ * @returns Number of occurrences
+ */
+function countOccurrences(positions: Map<string, number[]>, term: string, isPrefix: boolean): number {
+  if (!isPrefix) {
+    return positions.get(term)?.length || 0
+  }
+
+  let count = 0
+  positions.forEach((list, candidate) => {
+    if (candidate.startsWith(term)) {
+      count += list.length
+    }
+  })
+
+  return count
+}
+
+/**
+ * Counts the chunks of a user's documents, for inverse document frequencies
+ *
+ * @param userId - Owner of the documents
+ * @returns Number of chunks, or 0 if the documents record no counts
+ */
+async function countUserChunks(userId: string): Promise<number> {
+  const response = await queryVectors(createPlaceholderVector(), {
+    filter: {
+      record_type: { $eq: "document" },
+      user_id: { $eq: userId },
+    },
+    includeMetadata: true,
+    topK: MAX_COUNTED_DOCUMENTS,
+    namespace: getUserNamespace(userId),
+  })
+
+  return (response.matches || []).reduce((total, match) => total + (Number(match.metadata?.chunk_count) || 0), 0)
+}
+
+/**
+ * Searches chunk text for the terms, prefixes and phrases of a query
+ *
+ * @param query - Search query
+ * @param userId - Owner of the documents
+ * @param options - Metadata filter for the chunks and number of results
+ * @returns Matching chunks, best first
+ */
+export async function searchKeywordIndex(
+  query: string,
+  userId: string,
+  options: { filter?: Record<string, any>; topK?: number } = {},
+): Promise<KeywordMatch[]> {
+  const { filter = {}, topK = 10 } = options
+  const namespace = getUserNamespace(userId)
+  const parsed = parseKeywordQuery(query)
+
+  // Phrases are looked up by all their terms; unquoted terms and prefixes one by one
+  const lookups: Record<string, any>[] = [
+    ...parsed.phrases.map((phrase) => ({ $and: phrase.map(({ term }) => ({ terms: { $in: [term] } })) })),
+    ...parsed.sequence.map(({ term }) => ({ terms: { $in: [term] } })),
+    ...parsed.prefixes.map((prefix) => ({ term_prefixes: { $in: [getPrefixKey(prefix)] } })),
+  ].slice(0, MAX_QUERY_PARTS)
+
+  if (lookups.length === 0) {
+    return []
+  }
+
+  const [responses, corpusSize] = await Promise.all([
+    Promise.all(
+      lookups.map((lookup) =>
+        queryVectors(createPlaceholderVector(), {
+          filter: Object.keys(filter).length > 0 ? { $and: [filter, lookup] } : lookup,
+          includeMetadata: true,
+          topK: MAX_MATCHES_PER_TERM,
+          namespace,
+        }),
+      ),
+    ),
+    countUserChunks(userId).catch(() => 0),
+  ])
+
+  const chunks = new Map<string, IndexedChunk>()
+
+  responses.forEach((response, index) => {
+    if (response.error) {
+      logger.warn("Keyword index lookup failed", { userId, error: response.errorMessage })
+    } else if ((response.matches || []).length >= MAX_MATCHES_PER_TERM) {
+      logger.info("Keyword index lookup reached the read limit", { userId, lookup: JSON.stringify(lookups[index]) })
+    }
+
+    for (const match of response.matches || []) {
+      if (!chunks.has(match.id) && typeof match.metadata?.content === "string") {
+        chunks.set(match.id, { metadata: match.metadata, ...indexChunkText(match.metadata.content) })
+      }
+    }
+  })
+
+  // Query terms and prefixes with their document frequencies among the candidates
+  const queryTerms = [
+    ...parsed.terms.map((term) => ({ term, isPrefix: false })),
+    ...parsed.prefixes.map((term) => ({ term, isPrefix: true })),
+  ].map((entry) => {
+    let frequency = 0
+    chunks.forEach((chunk) => {
+      if (countOccurrences(chunk.positions, entry.term, entry.isPrefix) > 0) {
+        frequency++
+      }
+    })
+    return { ...entry, frequency }
+  })
+
+  const total = Math.max(corpusSize, chunks.size)
+  const scored: KeywordMatch[] = []
+
+  chunks.forEach((chunk, chunkId) => {
+    if (!parsed.phrases.every((phrase) => containsPhrase(chunk.positions, phrase))) {
+      return
+    }
+
+    let score = 0
+    const matchedTerms: string[] = []
+
+    for (const { term, isPrefix, frequency } of queryTerms) {
+      const occurrences = countOccurrences(chunk.positions, term, isPrefix)
+      if (occurrences === 0) {
+        continue
+      }
+
+      const idf = Math.log(1 + (total - frequency + 0.5) / (frequency + 0.5))
+      score += idf * bm25TermFrequency(occurrences, chunk.length)
+      matchedTerms.push(isPrefix ? `${term}*` : term)
+    }
+
+    if (score === 0) {
+      return
+    }
+
+    if (parsed.sequence.length > 1 && containsPhrase(chunk.positions, parsed.sequence)) {
+      score *= ADJACENCY_BOOST
+    }
+
+    scored.push({ chunkId, score, matchedTerms, metadata: chunk.metadata })
+  })
+
+  scored.sort((a, b) => b.score - a.score)
+  const best = scored.length > 0 ? scored[0].score : 1
+
+  logger.info(`Keyword search matched ${scored.length} chunks`, {
+    userId,
+    terms: parsed.terms.length,
+    prefixes: parsed.prefixes.length,
+    phrases: parsed.phrases.length,
+    candidates: chunks.size,
+  })
+
+  return scored.slice(0, topK).map((match) => ({ ...match, score: match.score / best }))
+}
@@ -0,0 +1,824 @@
+/**
+ * Knowledge Base Snapshots
+ *
+ * Exports a user's knowledge base to a portable archive in Blob storage, and restores it into a
+ * user namespace without embedding anything again. An archive is a manifest and its records files:
+ * - records-NNNN.jsonl: one vector record per line (ID, values, sparse values and metadata); the
+ *   chunks and version records of each document come first, followed by the document record.
+ *   Each export run writes one of these parts, and a run that pauses lists the documents of its
+ *   part in part-NNNN.json for the run that writes the manifest
+ * - manifest.json: format version, owner, embedding model and dimension, the documents in the
+ *   archive and the URLs of the records files
+ *
+ * Archives of format version 1 hold a single records.jsonl and are still restored.
+ *
+ * Chunk text, keyword terms and every other field live in the record metadata, so a restored
+ * document is searchable as soon as its records are stored. Restores write through the same
+ * batched upsert as document processing, and only into an index that uses the embedding model
+ * the snapshot was taken with. Documents that already exist in the target namespace are left
+ * as they are, which makes a restore safe to repeat and suited to recovering deleted documents.
+ *
+ * Snapshots hold the index, not the files: restored documents keep the Blob URLs of their
+ * files, and knowledge graph records are not included (processing a document again rebuilds
+ * them). Documents still processing when the snapshot is taken are left out.
+ *
+ * Features:
+ * - Streaming export, one document at a time, straight into Blob storage
+ * - Streaming restore in upsert batches, optionally limited to some documents
+ * - Restore into another user, for moving a knowledge base between environments
+ * - Background jobs for both directions, which pause at the job deadline and continue from a checkpoint
+ * - Edge runtime compatible (no Node.js specific modules)
+ *
+ * Dependencies:
+ * - @/lib/vector-store for reading and writing records and the active embedding index
+ * - @/lib/blob-client for storing archives
+ * - @/lib/job-queue for export and restore jobs
+ * - @/lib/utils/logger for structured logging
+ *
+ * @module lib/knowledge-base-snapshot
+ */
+
+import { logger } from "@/lib/utils/logger"
+import {
+  createPlaceholderVector,
+  fetchVectors,
+  getActiveEmbeddingIndex,
+  getUserNamespace,
+  queryVectors,
+  upsertVectors,
+  type VectorRecord,
+} from "@/lib/vector-store"
+import { uploadToBlob } from "@/lib/blob-client"
+import { enqueueJob, JobPausedError } from "@/lib/job-queue"
+
+export const SNAPSHOT_FORMAT = "knowledge-base-snapshot"
+
+// Bumped when the archive layout changes in a way older restores cannot read; version 2 splits the records
+export const SNAPSHOT_FORMAT_VERSION = 2
+
+// Largest topK Pinecone accepts
+const MAX_TOP_K = 10000
+
+// Records fetched and upserted per request
+const BATCH_SIZE = 100
+
+// Hosts archives are read from; restores do not fetch arbitrary URLs
+const SNAPSHOT_HOST_SUFFIX = ".blob.vercel-storage.com"
+
+/**
+ * Snapshot error class
+ */
+export class SnapshotError extends Error {
+  code: string
+  retryable: boolean
+  context?: Record<string, any>
+
+  constructor(
+    message: string,
+    options: {
+      code?: string
+      retryable?: boolean
+      context?: Record<string, any>
+    } = {},
+  ) {
+    super(message)
+    this.name = "SnapshotError"
+    this.code = options.code || "snapshot_error"
+    this.retryable = options.retryable ?? false
+    this.context = options.context
+  }
+}
+
+/**
+ * Document listed in a snapshot manifest
+ */
+export interface SnapshotDocument {
+  id: string
+  name: string
+  version?: number
+  chunkCount: number
+  // Lines of the records file that belong to the document, including its own record
+  records: number
+}
+
+/**
+ * Description of a snapshot, stored next to its records
+ */
+export interface SnapshotManifest {
+  format: typeof SNAPSHOT_FORMAT
+  formatVersion: number
+  id: string
+  userId: string
+  createdAt: string
+  embeddingModel: string
+  dimension: number
+  // Records files in restore order
+  recordFiles: string[]
+  // Single records file of format version 1 archives
+  recordsUrl?: string
+  documents: SnapshotDocument[]
+  // Documents left out because they were still processing
+  skippedDocuments: string[]
+  counts: { documents: number; versions: number; chunks: number; records: number }
+}
+
+/**
+ * Documents of one records file, stored next to it when an export pauses
+ */
+interface SnapshotPartIndex {
+  documents: SnapshotDocument[]
+  skippedDocuments: string[]
+  counts: SnapshotManifest["counts"]
+}
+
+/**
+ * Where a paused export continues
+ */
+export interface SnapshotExportCheckpoint {
+  // Last document handled, in ID order
+  cursor: string
+  // Records file and part index of each run so far
+  parts: { recordsUrl: string; indexUrl: string }[]
+}
+
+/**
+ * Where a paused restore continues
+ */
+export interface SnapshotRestoreCheckpoint {
+  // Records file the restore paused in; earlier files are fully restored
+  file: number
+  documents: number
+  records: number
+  total: number
+  existingDocuments: string[]
+}
+
+/**
+ * Outcome of an export
+ */
+export interface SnapshotExportResult {
+  snapshotId: string
+  manifestUrl: string
+  recordFiles: string[]
+  documents: number
+  records: number
+  skippedDocuments: string[]
+}
+
+/**
+ * Outcome of a restore
+ */
+export interface SnapshotRestoreResult {
+  snapshotId: string
+  userId: string
+  documents: number
+  records: number
+  // Documents of the snapshot that already existed and were left alone
+  existingDocuments: string[]
+}
+
+/**
+ * Progress reported while exporting or restoring
+ */
+export interface SnapshotProgress {
+  stage: string
+  progress: number
+  message: string
+}
+
+/**
+ * Generates a snapshot ID
+ *
+ * @returns Snapshot ID
+ */
+export function generateSnapshotId(): string {
+  return `snap-${Date.now().toString(36)}${Math.floor(Math.random() * 1296).toString(36)}`
+}
+
+/**
+ * Returns the Blob path of a snapshot file
+ *
+ * @param userId - Owner of the snapshot
+ * @param snapshotId - Snapshot ID
+ * @param file - File name
+ * @returns Blob path
+ */
+function getSnapshotPath(userId: string, snapshotId: string, file: string): string {
+  return `snapshots/${userId}/${snapshotId}/${file}`
+}
+
+/**
+ * Lists the IDs of records matching a filter in a user namespace
+ *
+ * @param namespace - User namespace
+ * @param filter - Metadata filter
+ * @returns Record IDs
+ * @throws SnapshotError if the query fails or there are more records than one query returns
+ */
+async function listRecordIds(namespace: string, filter: Record<string, any>): Promise<string[]> {
+  const response = await queryVectors(createPlaceholderVector(), {
+    filter,
+    includeMetadata: false,
+    topK: MAX_TOP_K,
+    namespace,
+  })
+
+  if (response.error) {
+    throw new SnapshotError(`Failed to list records: ${response.errorMessage}`, {
+      code: "query_failed",
+      retryable: true,
+      context: { namespace },
+    })
+  }
+
+  const ids = (response.matches || []).map((match) => match.id)
+
+  if (ids.length >= MAX_TOP_K) {
+    throw new SnapshotError(`More than ${MAX_TOP_K - 1} records match, which a snapshot cannot hold`, {
+      code: "too_many_records",
+      context: { namespace, filter },
+    })
+  }
+
+  return ids
+}
+
+/**
+ * Reads records by ID in batches
+ *
+ * @param ids - Record IDs
+ * @param namespace - User namespace
+ * @returns Records found, in the order of the IDs
+ */
+async function fetchRecords(ids: string[], namespace: string): Promise<VectorRecord[]> {
+  const records: VectorRecord[] = []
+
+  for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+    const batch = ids.slice(i, i + BATCH_SIZE)
+    const { vectors } = await fetchVectors(batch, { namespace, includeValues: true })
+
+    batch.forEach((id) => {
+      if (vectors[id]) {
+        records.push(vectors[id])
+      }
+    })
+  }
+
+  return records
+}
+
+/**
+ * Converts a stored record into a line of the records file
+ * Markers of an embedding migration in progress describe the source index and are dropped
+ *
+ * @param record - Stored record
+ * @returns JSON line
+ */
+function toRecordLine(record: VectorRecord): string {
+  const metadata = { ...(record.metadata || {}) }
+  delete metadata.migrated_to
+
+  return (
+    JSON.stringify({
+      id: record.id,
+      values: record.values,
+      ...(record.sparseValues && { sparseValues: record.sparseValues }),
+      metadata,
+    }) + "\n"
+  )
+}
+
+/**
+ * Checks that an archive URL points at Blob storage
+ *
+ * @param url - URL of a snapshot file
+ * @throws SnapshotError for other URLs
+ */
+function assertSnapshotUrl(url: string): void {
+  let parsed: URL | null = null
+  try {
+    parsed = new URL(url)
+  } catch {
+    // Reported below
+  }
+
+  if (!parsed || parsed.protocol !== "https:" || !parsed.hostname.endsWith(SNAPSHOT_HOST_SUFFIX)) {
+    throw new SnapshotError(`Snapshot files must be stored in Blob storage: ${url}`, {
+      code: "invalid_snapshot_url",
+      context: { url },
+    })
+  }
+}
+
+/**
+ * Stores a JSON file of a snapshot
+ *
+ * @param value - File content
+ * @param path - Blob path
+ * @param snapshotId - Snapshot ID
+ * @returns URL of the file
+ * @throws SnapshotError if the file cannot be stored
+ */
+async function storeSnapshotJson(value: unknown, path: string, snapshotId: string): Promise<string> {
+  try {
+    const blob = await uploadToBlob(new Blob([JSON.stringify(value, null, 2)]).stream(), path, {
+      access: "public",
+      contentType: "application/json",
+      addRandomSuffix: false,
+      allowOverwrite: true,
+    })
+    return blob.url
+  } catch (error) {
+    throw new SnapshotError(
+      `Failed to store snapshot file ${path}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      { code: "upload_failed", retryable: true, context: { snapshotId, path } },
+    )
+  }
+}
+
+/**
+ * Reads the part index an earlier export run stored
+ *
+ * @param indexUrl - URL of the part index
+ * @returns Part index
+ * @throws SnapshotError if the part index cannot be read
+ */
+async function readPartIndex(indexUrl: string): Promise<SnapshotPartIndex> {
+  const response = await fetch(indexUrl, { cache: "no-store" })
+  const part = response.ok ? ((await response.json().catch(() => null)) as SnapshotPartIndex | null) : null
+
+  if (!part || !Array.isArray(part.documents)) {
+    throw new SnapshotError(`Failed to read snapshot part index: ${response.status} ${response.statusText}`, {
+      code: "fetch_failed",
+      retryable: true,
+      context: { indexUrl, status: response.status },
+    })
+  }
+
+  return part
+}
+
+/**
+ * Exports a user's knowledge base to Blob storage
+ * Each run writes one records file; a run that reaches the deadline pauses, and the run that writes the last
+ * records file also writes the manifest
+ *
+ * @param userId - User ID
+ * @param options - Snapshot ID, documents to export (all when empty), progress callback, and the deadline and
+ *   checkpoint of a job run
+ * @returns URLs and counts of the snapshot
+ * @throws SnapshotError if the records cannot be read or the archive cannot be stored
+ * @throws JobPausedError if the deadline passes before every document is exported
+ */
+export async function exportKnowledgeBase(
+  userId: string,
+  options: {
+    snapshotId?: string
+    documentIds?: string[]
+    onProgress?: (progress: SnapshotProgress) => void
+    // Epoch milliseconds after which the export pauses between documents
+    deadline?: number
+    checkpoint?: SnapshotExportCheckpoint
+  } = {},
+): Promise<SnapshotExportResult> {
+  const snapshotId = options.snapshotId || generateSnapshotId()
+  const namespace = getUserNamespace(userId)
+  const index = await getActiveEmbeddingIndex()
+  const parts = options.checkpoint?.parts || []
+  const cursor = options.checkpoint?.cursor
+
+  const documentIds = (
+    await listRecordIds(namespace, {
+      record_type: { $eq: "document" },
+      ...(options.documentIds?.length && { id: { $in: options.documentIds } }),
+    })
+  ).sort()
+  const remaining = await fetchRecords(documentIds.filter((id) => !cursor || id > cursor), namespace)
+  const done = documentIds.length - remaining.length
+
+  logger.info(`Exporting knowledge base snapshot: ${snapshotId}`, {
+    snapshotId,
+    userId,
+    documents: documentIds.length,
+    remaining: remaining.length,
+    part: parts.length + 1,
+  })
+
+  const part: SnapshotPartIndex = {
+    documents: [],
+    skippedDocuments: [],
+    counts: { documents: 0, versions: 0, chunks: 0, records: 0 },
+  }
+  const encoder = new TextEncoder()
+  let streamError: unknown = null
+  let position = 0
+
+  // Each pull writes one document, so only one document's records are held at a time
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        while (true) {
+          // The part ends once the deadline passes, after at least one document
+          const paused = options.deadline !== undefined && position > 0 && Date.now() >= options.deadline
+          if (position >= remaining.length || paused) {
+            controller.close()
+            return
+          }
+
+          const document = remaining[position++]
+
+          // Documents still processing are left out
+          if (document.metadata?.status === "processing") {
+            part.skippedDocuments.push(document.id)
+            continue
+          }
+
+          const ids = await listRecordIds(namespace, {
+            document_id: { $eq: document.id },
+            record_type: { $in: ["chunk", "document_version"] },
+          })
+          const records = await fetchRecords(ids.sort(), namespace)
+          const versions = records.filter((record) => record.metadata?.record_type === "document_version").length
+
+          controller.enqueue(encoder.encode([...records, document].map(toRecordLine).join("")))
+
+          part.documents.push({
+            id: document.id,
+            name: document.metadata?.name || "",
+            ...(typeof document.metadata?.version === "number" && { version: document.metadata.version }),
+            chunkCount: records.length - versions,
+            records: records.length + 1,
+          })
+          part.counts.documents++
+          part.counts.versions += versions
+          part.counts.chunks += records.length - versions
+          part.counts.records += records.length + 1
+
+          options.onProgress?.({
+            stage: "exporting",
+            progress: Math.floor(((done + position) / documentIds.length) * 90),
+            message: `Exported ${done + position} of ${documentIds.length} documents`,
+          })
+          return
+        }
+      } catch (error) {
+        streamError = error
+        controller.error(error)
+      }
+    },
+  })
+
+  const partName = `${parts.length + 1}`.padStart(4, "0")
+  let recordsUrl: string
+  try {
+    const blob = await uploadToBlob(stream, getSnapshotPath(userId, snapshotId, `records-${partName}.jsonl`), {
+      access: "public",
+      contentType: "application/x-ndjson",
+      addRandomSuffix: false,
+      allowOverwrite: true,
+      multipart: true,
+    })
+    recordsUrl = blob.url
+  } catch (error) {
+    if (streamError) {
+      throw streamError
+    }
+    throw new SnapshotError(
+      `Failed to store snapshot records: ${error instanceof Error ? error.message : "Unknown error"}`,
+      { code: "upload_failed", retryable: true, context: { snapshotId } },
+    )
+  }
+
+  if (position < remaining.length) {
+    const indexPath = getSnapshotPath(userId, snapshotId, `part-${partName}.json`)
+    const indexUrl = await storeSnapshotJson(part, indexPath, snapshotId)
+    const checkpoint: SnapshotExportCheckpoint = {
+      cursor: remaining[position - 1].id,
+      parts: [...parts, { recordsUrl, indexUrl }],
+    }
+
+    logger.info(`Knowledge base snapshot export paused: ${snapshotId}`, { snapshotId, userId, part: partName })
+
+    throw new JobPausedError(`Paused after exporting ${done + position} of ${documentIds.length} documents`, checkpoint)
+  }
+
+  // Earlier runs listed their documents in the index of their part
+  const indexes = [...(await Promise.all(parts.map((entry) => readPartIndex(entry.indexUrl)))), part]
+  const counts = { documents: 0, versions: 0, chunks: 0, records: 0 }
+  indexes.forEach((entry) => {
+    counts.documents += entry.counts.documents
+    counts.versions += entry.counts.versions
+    counts.chunks += entry.counts.chunks
+    counts.records += entry.counts.records
+  })
+
+  const recordFiles = [...parts.map((entry) => entry.recordsUrl), recordsUrl]
+  const manifest: SnapshotManifest = {
+    format: SNAPSHOT_FORMAT,
+    formatVersion: SNAPSHOT_FORMAT_VERSION,
+    id: snapshotId,
+    userId,
+    createdAt: new Date().toISOString(),
+    embeddingModel: index.model,
+    dimension: index.dimension,
+    recordFiles,
+    documents: ([] as SnapshotDocument[]).concat(...indexes.map((entry) => entry.documents)),
+    skippedDocuments: ([] as string[]).concat(...indexes.map((entry) => entry.skippedDocuments)),
+    counts,
+  }
+
+  const manifestUrl = await storeSnapshotJson(
+    manifest,
+    getSnapshotPath(userId, snapshotId, "manifest.json"),
+    snapshotId,
+  )
+
+  logger.info(`Knowledge base snapshot exported: ${snapshotId}`, { snapshotId, userId, ...counts })
+
+  return {
+    snapshotId,
+    manifestUrl,
+    recordFiles,
+    documents: counts.documents,
+    records: counts.records,
+    skippedDocuments: manifest.skippedDocuments,
+  }
+}
+
+/**
+ * Reads and validates a snapshot manifest
+ *
+ * @param manifestUrl - URL of the manifest
+ * @returns Manifest
+ * @throws SnapshotError if the manifest cannot be read or is not a snapshot this version can restore
+ */
+export async function readSnapshotManifest(manifestUrl: string): Promise<SnapshotManifest> {
+  assertSnapshotUrl(manifestUrl)
+
+  const response = await fetch(manifestUrl, { cache: "no-store" })
+
+  if (!response.ok) {
+    throw new SnapshotError(`Failed to read snapshot manifest: ${response.status} ${response.statusText}`, {
+      code: response.status === 404 ? "snapshot_not_found" : "fetch_failed",
+      retryable: response.status !== 404,
+      context: { manifestUrl, status: response.status },
+    })
+  }
+
+  const manifest = (await response.json().catch(() => null)) as SnapshotManifest | null
+
+  if (!manifest || manifest.format !== SNAPSHOT_FORMAT || !Array.isArray(manifest.documents)) {
+    throw new SnapshotError("The file is not a knowledge base snapshot manifest", {
+      code: "invalid_manifest",
+      context: { manifestUrl },
+    })
+  }
+
+  if (manifest.formatVersion > SNAPSHOT_FORMAT_VERSION) {
+    throw new SnapshotError(`Snapshot format version ${manifest.formatVersion} is newer than this version reads`, {
+      code: "unsupported_format",
+      context: { manifestUrl, formatVersion: manifest.formatVersion },
+    })
+  }
+
+  // Archives of format version 1 have a single records file
+  if (!Array.isArray(manifest.recordFiles)) {
+    manifest.recordFiles = manifest.recordsUrl ? [manifest.recordsUrl] : []
+  }
+
+  if (manifest.recordFiles.length === 0) {
+    throw new SnapshotError("The snapshot manifest lists no records files", {
+      code: "invalid_manifest",
+      context: { manifestUrl },
+    })
+  }
+
+  manifest.recordFiles.forEach(assertSnapshotUrl)
+
+  return manifest
+}
+
+/**
+ * Reads the lines of a records file as they arrive
+ *
+ * @param recordsUrl - URL of the records file
+ * @returns Records, in file order
+ * @throws SnapshotError if the file cannot be read or holds a malformed line
+ */
+async function* readSnapshotRecords(recordsUrl: string): AsyncGenerator<VectorRecord> {
+  const response = await fetch(recordsUrl, { cache: "no-store" })
+
+  if (!response.ok || !response.body) {
+    throw new SnapshotError(`Failed to read snapshot records: ${response.status} ${response.statusText}`, {
+      code: "fetch_failed",
+      retryable: true,
+      context: { recordsUrl, status: response.status },
+    })
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffered = ""
+  let lineNumber = 0
+  let finished = false
+
+  const parseLine = (line: string): VectorRecord => {
+    try {
+      const record = JSON.parse(line) as VectorRecord
+      if (typeof record.id === "string" && Array.isArray(record.values)) {
+        return record
+      }
+    } catch {
+      // Reported below
+    }
+    throw new SnapshotError(`Malformed record on line ${lineNumber} of the snapshot`, {
+      code: "invalid_record",
+      context: { recordsUrl, line: lineNumber },
+    })
+  }
+
+  try {
+    while (!finished) {
+      const { done, value } = await reader.read()
+      buffered += done ? decoder.decode() : decoder.decode(value, { stream: true })
+      finished = done
+
+      const lines = buffered.split("\n")
+      buffered = done ? "" : lines.pop() || ""
+
+      for (const line of lines) {
+        lineNumber++
+        if (line.trim()) {
+          yield parseLine(line)
+        }
+      }
+    }
+  } finally {
+    // A restore that pauses stops reading part way through the file
+    if (!finished) {
+      await reader.cancel().catch(() => undefined)
+    }
+  }
+}
+
+/**
+ * Restores a snapshot into a user namespace
+ * Documents that already exist there are skipped, along with their records
+ *
+ * @param options - Manifest URL, user to restore into, documents to restore (all when empty), progress callback,
+ *   and the deadline and checkpoint of a job run
+ * @returns Counts of what was restored
+ * @throws SnapshotError if the snapshot cannot be read, or was taken with another embedding model
+ * @throws JobPausedError if the deadline passes before every document is restored
+ */
+export async function restoreKnowledgeBase(options: {
+  manifestUrl: string
+  userId: string
+  documentIds?: string[]
+  onProgress?: (progress: SnapshotProgress) => void
+  // Epoch milliseconds after which the restore pauses between documents
+  deadline?: number
+  checkpoint?: SnapshotRestoreCheckpoint
+}): Promise<SnapshotRestoreResult> {
+  const manifest = await readSnapshotManifest(options.manifestUrl)
+  const index = await getActiveEmbeddingIndex()
+
+  // Vectors of another model cannot be searched with this index's query embeddings
+  if (manifest.embeddingModel !== index.model || manifest.dimension !== index.dimension) {
+    throw new SnapshotError(
+      `Snapshot ${manifest.id} was taken with ${manifest.embeddingModel} (${manifest.dimension} dimensions), ` +
+        `but search uses ${index.model} (${index.dimension} dimensions)`,
+      { code: "embedding_model_mismatch", context: { snapshotId: manifest.id, model: index.model } },
+    )
+  }
+
+  const namespace = getUserNamespace(options.userId)
+  const checkpoint = options.checkpoint
+  const existing = new Set(await listRecordIds(namespace, { record_type: { $eq: "document" } }))
+  const requested = options.documentIds?.length ? new Set(options.documentIds) : null
+  const selected = manifest.documents.filter((document) => !requested || requested.has(document.id))
+
+  // A resumed restore finds the documents of earlier runs in the namespace and skips them like existing ones
+  const pending = new Set(selected.filter((document) => !existing.has(document.id)).map((document) => document.id))
+  const total = checkpoint?.total ?? pending.size
+  const result: SnapshotRestoreResult = {
+    snapshotId: manifest.id,
+    userId: options.userId,
+    documents: checkpoint?.documents ?? 0,
+    records: checkpoint?.records ?? 0,
+    existingDocuments:
+      checkpoint?.existingDocuments ??
+      selected.filter((document) => existing.has(document.id)).map((document) => document.id),
+  }
+
+  logger.info(`Restoring knowledge base snapshot: ${manifest.id}`, {
+    snapshotId: manifest.id,
+    userId: options.userId,
+    documents: total,
+    remaining: pending.size,
+    existing: result.existingDocuments.length,
+  })
+
+  let batch: VectorRecord[] = []
+  const flush = async () => {
+    if (batch.length > 0) {
+      await upsertVectors(batch, { namespace, batchSize: BATCH_SIZE })
+      result.records += batch.length
+      batch = []
+    }
+  }
+
+  for (let file = checkpoint?.file ?? 0; file < manifest.recordFiles.length && pending.size > 0; file++) {
+    for await (const record of readSnapshotRecords(manifest.recordFiles[file])) {
+      const metadata = record.metadata || {}
+      const isDocument = metadata.record_type === "document"
+      const documentId = isDocument ? record.id : metadata.document_id
+
+      if (!pending.has(documentId)) {
+        continue
+      }
+
+      batch.push({ ...record, metadata: { ...metadata, ...(metadata.user_id && { user_id: options.userId }) } })
+
+      // The document record follows its chunks, so a document appears once its chunks are stored
+      if (isDocument) {
+        await flush()
+        pending.delete(documentId)
+        result.documents++
+
+        options.onProgress?.({
+          stage: "restoring",
+          progress: Math.floor((result.documents / total) * 100),
+          message: `Restored ${result.documents} of ${total} documents`,
+        })
+
+        if (pending.size > 0 && options.deadline !== undefined && Date.now() >= options.deadline) {
+          const next: SnapshotRestoreCheckpoint = {
+            file,
+            documents: result.documents,
+            records: result.records,
+            total,
+            existingDocuments: result.existingDocuments,
+          }
+          throw new JobPausedError(`Paused after restoring ${result.documents} of ${total} documents`, next)
+        }
+      } else if (batch.length >= BATCH_SIZE) {
+        await flush()
+      }
+    }
+  }
+
+  if (pending.size > 0) {
+    logger.warn(`Snapshot records did not include every document in its manifest: ${manifest.id}`, {
+      snapshotId: manifest.id,
+      missing: Array.from(pending),
+    })
+  }
+
+  logger.info(`Knowledge base snapshot restored: ${manifest.id}`, { ...result, existingDocuments: undefined })
+
+  return result
+}
+
+/**
+ * Queues an export of a user's knowledge base as a background job
+ *
+ * @param options - User ID and documents to export (all when empty)
+ * @returns Job ID and the ID of the snapshot it writes
+ */
+export async function enqueueSnapshotExport(options: {
+  userId: string
+  documentIds?: string[]
+}): Promise<{ jobId: string; snapshotId: string }> {
+  const snapshotId = generateSnapshotId()
+  const job = await enqueueJob({
+    type: "export_snapshot",
+    userId: options.userId,
+    payload: { snapshotId, ...(options.documentIds?.length && { documentIds: options.documentIds }) },
+  })
+
+  return { jobId: job.id, snapshotId }
+}
+
+/**
+ * Queues a restore of a snapshot as a background job
+ *
+ * @param options - Manifest URL, user to restore into and documents to restore (all when empty)
+ * @returns Job ID
+ */
+export async function enqueueSnapshotRestore(options: {
+  manifestUrl: string
+  userId: string
+  documentIds?: string[]
+}): Promise<string> {
+  const job = await enqueueJob({
+    type: "restore_snapshot",
+    userId: options.userId,
+    payload: {
+      manifestUrl: options.manifestUrl,
+      ...(options.documentIds?.length && { documentIds: options.documentIds }),
+    },
+  })
+
+  return job.id
+}
@@ -0,0 +1,941 @@
+/**
+ * Knowledge Graph
+ *
+ * Entities and relationships extracted from document chunks by the LLM. Entities become graph
+ * nodes and relationships become edges between them. Both are stored as records next to the
+ * chunks, one graph per user, and keep provenance: the documents and chunks that mention them.
+ * Re-processing a document syncs its contribution to the graph: chunks it no longer produces
+ * are removed from the provenance, and records no document mentions any more are deleted.
+ *
+ * Chunk IDs change with every version while most of their content does not, so a chunk whose
+ * content is already in the graph under another version's ID takes over that provenance instead
+ * of being extracted again.
+ *
+ * Records are saved after every extraction batch, so a job run that reaches its deadline pauses
+ * with the offset of the next chunk and loses no extraction already paid for.
+ *
+ * Pinecone offers no conditional writes, so documents synced at the same time can overwrite
+ * each other's changes to a shared entity. Re-processing either document repairs it.
+ *
+ * Features:
+ * - Batched entity and relationship extraction with JSON mode chat completions
+ * - Deterministic node and edge IDs, so mentions in different documents merge
+ * - Per-document sync of provenance, reusing extractions across versions
+ * - Saved after every batch, pausing at the job deadline and resuming from a chunk offset
+ * - Neighbour lookup for navigating the graph
+ * - Edge runtime compatible (no Node.js specific modules)
+ *
+ * Dependencies:
+ * - OpenAI API for the chat completions
+ * - @/lib/vector-store for graph storage
+ * - @/lib/document-versioning for reading a version's chunks
+ * - @/lib/error-handler for retries
+ * - @/lib/job-queue for pausing at the job deadline
+ * - @/lib/utils/logger for structured logging
+ *
+ * @module lib/knowledge-graph
+ */
+
+import { logger } from "@/lib/utils/logger"
+import {
+  createPlaceholderVector,
+  deleteVectors,
+  fetchVectors,
+  getUserNamespace,
+  queryVectors,
+  upsertVectors,
+} from "@/lib/vector-store"
+import { listVersionChunkIds } from "@/lib/document-versioning"
+import { withRetry } from "@/lib/error-handler"
+import { JobPausedError } from "@/lib/job-queue"
+import { safeJsonParse } from "@/lib/utils/json-utils"
+import { sha256Hex } from "@/lib/utils/hash-utils"
+import type { GraphEdge, GraphNode } from "@/types"
+
+// Model used for extraction, overridable per deployment
+const GRAPH_MODEL = process.env.GRAPH_EXTRACTION_MODEL || process.env.DOCUMENT_ENRICHMENT_MODEL || "gpt-4o-mini"
+
+// Chunks sent to the model in one request
+const CHUNKS_PER_REQUEST = 5
+
+// Characters of a chunk sent to the model
+const MAX_CHUNK_LENGTH = 4000
+
+const MAX_ENTITIES_PER_CHUNK = 15
+const MAX_RELATIONSHIPS_PER_CHUNK = 20
+const MAX_NAME_LENGTH = 120
+const MAX_DESCRIPTION_LENGTH = 300
+const MAX_RELATION_LENGTH = 48
+
+// Provenance kept per record; Pinecone metadata is limited to 40 KB per record
+const MAX_PROVENANCE_IDS = 300
+
+// Upper bound on graph records read per query
+const MAX_GRAPH_RECORDS = 1000
+
+// Records written or fetched per request
+const WRITE_BATCH_SIZE = 100
+
+const EXTRACTION_PROMPT = `You extract a knowledge graph from document excerpts.
+For every excerpt, list the named entities it mentions (people, organizations, products, places, projects,
+technologies, concepts) and the relationships the excerpt states between them.
+Reply with a JSON object of the form
+{"chunks": [{"chunk": <excerpt number>, "entities": [{"name": "...", "type": "...", "description": "..."}],
+"relationships": [{"source": "<entity name>", "target": "<entity name>", "relation": "..."}]}]}
+- "type" is one lowercase word such as person, organization, product, place, project, technology or concept
+- "description" is one short sentence about the entity based on the excerpt
+- "relation" is a short lowercase verb phrase such as works_for, part_of, supplies or approved
+- Use the entity's full name as written in the excerpt; leave out pronouns and generic nouns
+- Only include relationships between entities listed for the same excerpt`
+
+/**
+ * Entity found in a chunk
+ */
+export interface ExtractedEntity {
+  name: string
+  type: string
+  description?: string
+}
+
+/**
+ * Relationship found in a chunk, between entity names
+ */
+export interface ExtractedRelationship {
+  source: string
+  target: string
+  relation: string
+}
+
+/**
+ * Entities and relationships found in one chunk
+ */
+export interface ChunkGraphExtraction {
+  entities: ExtractedEntity[]
+  relationships: ExtractedRelationship[]
+}
+
+/**
+ * Neighbour of an entity and the edge that connects them
+ */
+export interface GraphNeighbor {
+  node: GraphNode
+  edge: GraphEdge
+  direction: "outgoing" | "incoming"
+}
+
+/**
+ * Outcome of syncing a document's contribution to the graph
+ */
+export interface GraphSyncResult {
+  extractedChunks: number
+  reusedChunks: number
+  removedChunks: number
+  nodesWritten: number
+  edgesWritten: number
+  recordsDeleted: number
+}
+
+/**
+ * Knowledge graph error class
+ */
+export class GraphError extends Error {
+  code: string
+  retryable: boolean
+  context?: Record<string, any>
+
+  constructor(
+    message: string,
+    options: {
+      code?: string
+      retryable?: boolean
+      context?: Record<string, any>
+    } = {},
+  ) {
+    super(message)
+    this.name = "GraphError"
+    this.code = options.code || "graph_error"
+    this.retryable = options.retryable ?? false
+    this.context = options.context
+  }
+}
+
+/**
+ * Whether entities are extracted during ingestion
+ * Set KNOWLEDGE_GRAPH=false to turn it off
+ *
+ * @returns True if extraction is enabled and an API key is configured
+ */
+export function isGraphExtractionEnabled(): boolean {
+  return process.env.KNOWLEDGE_GRAPH !== "false" && !!process.env.OPENAI_API_KEY
+}
+
+/**
+ * Normalises an entity name for display, collapsing whitespace
+ *
+ * @param name - Entity name from the model or a request
+ * @returns Trimmed name
+ */
+export function normalizeEntityName(name: string): string {
+  return name.replace(/\s+/g, " ").trim().slice(0, MAX_NAME_LENGTH)
+}
+
+/**
+ * Normalises a relation to lowercase snake case
+ *
+ * @param relation - Relation from the model
+ * @returns Normalised relation, "related_to" if nothing is left
+ */
+export function normalizeRelation(relation: string): string {
+  const normalized = relation
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, MAX_RELATION_LENGTH)
+
+  return normalized || "related_to"
+}
+
+/**
+ * Derives the node ID of an entity, so every mention of a name in a user's documents maps to one node
+ *
+ * @param userId - Owner of the graph
+ * @param name - Entity name
+ * @returns Node ID
+ */
+export async function getNodeId(userId: string, name: string): Promise<string> {
+  const hash = await sha256Hex(`${userId}\u0000${normalizeEntityName(name).toLowerCase()}`)
+  return `entity_${hash.slice(0, 32)}`
+}
+
+/**
+ * Derives the ID of the edge for a relation between two nodes
+ *
+ * @param sourceId - Source node ID
+ * @param relation - Normalised relation
+ * @param targetId - Target node ID
+ * @returns Edge ID
+ */
+async function getEdgeId(sourceId: string, relation: string, targetId: string): Promise<string> {
+  const hash = await sha256Hex(`${sourceId}\u0000${relation}\u0000${targetId}`)
+  return `edge_${hash.slice(0, 32)}`
+}
+
+/**
+ * Key of a chunk that is the same in every version of a document
+ * Chunk IDs have the form chunk_<document>_v<version>_<content hash>[_<occurrence>]
+ *
+ * @param chunkId - Chunk ID
+ * @returns Chunk ID without its version
+ */
+function getChunkContentKey(chunkId: string): string {
+  return chunkId.replace(/_v\d+_([0-9a-f]+(?:_\d+)?)$/, "_$1")
+}
+
+/**
+ * Whether a chunk ID belongs to a document
+ *
+ * @param chunkId - Chunk ID
+ * @param documentId - Document ID
+ * @returns True if the chunk is one of the document's
+ */
+function isDocumentChunk(chunkId: string, documentId: string): boolean {
+  return chunkId.startsWith(`chunk_${documentId}_`)
+}
+
+/**
+ * Converts stored metadata into a graph node
+ *
+ * @param id - Node ID
+ * @param metadata - Stored metadata
+ * @returns Graph node
+ */
+export function toGraphNode(id: string, metadata: Record<string, any>): GraphNode {
+  return {
+    id,
+    user_id: metadata.user_id as string,
+    name: metadata.name as string,
+    type: (metadata.type as string) || "concept",
+    description: metadata.description as string | undefined,
+    document_ids: (metadata.document_ids as string[]) || [],
+    chunk_ids: (metadata.chunk_ids as string[]) || [],
+    mention_count: (metadata.mention_count as number) || 0,
+    created_at: metadata.created_at as string,
+    updated_at: metadata.updated_at as string,
+  }
+}
+
+/**
+ * Converts stored metadata into a graph edge
+ *
+ * @param id - Edge ID
+ * @param metadata - Stored metadata
+ * @returns Graph edge
+ */
+function toGraphEdge(id: string, metadata: Record<string, any>): GraphEdge {
+  return {
+    id,
+    user_id: metadata.user_id as string,
+    source_id: metadata.source_id as string,
+    target_id: metadata.target_id as string,
+    relation: metadata.relation as string,
+    document_ids: (metadata.document_ids as string[]) || [],
+    chunk_ids: (metadata.chunk_ids as string[]) || [],
+    mention_count: (metadata.mention_count as number) || 0,
+    created_at: metadata.created_at as string,
+    updated_at: metadata.updated_at as string,
+  }
+}
+
+/**
+ * Parses the model's answer for one chunk, dropping malformed entries
+ *
+ * @param value - Entry of the model's "chunks" list
+ * @returns Entities and relationships of the chunk
+ */
+function parseChunkExtraction(value: Record<string, any>): ChunkGraphExtraction {
+  const entities: ExtractedEntity[] = []
+  const names = new Set<string>()
+
+  for (const entity of Array.isArray(value.entities) ? value.entities : []) {
+    const name = typeof entity?.name === "string" ? normalizeEntityName(entity.name) : ""
+    if (!name || names.has(name.toLowerCase()) || entities.length >= MAX_ENTITIES_PER_CHUNK) {
+      continue
+    }
+
+    names.add(name.toLowerCase())
+    entities.push({
+      name,
+      type: typeof entity.type === "string" && entity.type.trim() ? entity.type.trim().toLowerCase() : "concept",
+      ...(typeof entity.description === "string" &&
+        entity.description.trim() && { description: entity.description.trim().slice(0, MAX_DESCRIPTION_LENGTH) }),
+    })
+  }
+
+  const relationships: ExtractedRelationship[] = []
+
+  for (const relationship of Array.isArray(value.relationships) ? value.relationships : []) {
+    const source = typeof relationship?.source === "string" ? normalizeEntityName(relationship.source) : ""
+    const target = typeof relationship?.target === "string" ? normalizeEntityName(relationship.target) : ""
+
+    // Both ends must be entities of the chunk, and an entity is not related to itself
+    if (!names.has(source.toLowerCase()) || !names.has(target.toLowerCase()) || source === target) {
+      continue
+    }
+
+    if (relationships.length < MAX_RELATIONSHIPS_PER_CHUNK) {
+      relationships.push({
+        source,
+        target,
+        relation: normalizeRelation(typeof relationship.relation === "string" ? relationship.relation : ""),
+      })
+    }
+  }
+
+  return { entities, relationships }
+}
+
+/**
+ * Asks the model for the entities and relationships in a batch of chunks
+ *
+ * @param chunks - Chunks to extract from
+ * @param apiKey - OpenAI API key
+ * @returns Extractions by chunk ID
+ */
+async function extractBatch(
+  chunks: Array<{ id: string; text: string }>,
+  apiKey: string,
+): Promise<Map<string, ChunkGraphExtraction>> {
+  const excerpts = chunks
+    .map((chunk, index) => `Excerpt ${index}:\n${chunk.text.slice(0, MAX_CHUNK_LENGTH)}`)
+    .join("\n\n---\n\n")
+
+  const content = await withRetry(
+    async () => {
+      const response = await fetch("https://api.openai.com/v1/chat/completions", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify({
+          model: GRAPH_MODEL,
+          temperature: 0,
+          response_format: { type: "json_object" },
+          messages: [
+            { role: "system", content: EXTRACTION_PROMPT },
+            { role: "user", content: excerpts },
+          ],
+        }),
+      })
+
+      if (!response.ok) {
+        throw new GraphError(`OpenAI API error: ${response.status} ${response.statusText}`, {
+          code: "completion_failed",
+          retryable: response.status === 429 || response.status >= 500,
+          context: { status: response.status },
+        })
+      }
+
+      const result = await response.json()
+      return result.choices?.[0]?.message?.content as string | undefined
+    },
+    {
+      maxRetries: 2,
+      shouldRetry: (error) => error instanceof GraphError && error.retryable,
+    },
+  )
+
+  const parsed = safeJsonParse<{ chunks?: unknown }>(content || "", {})
+  const extractions = new Map<string, ChunkGraphExtraction>()
+
+  for (const entry of Array.isArray(parsed.chunks) ? parsed.chunks : []) {
+    const chunk = chunks[Number(entry?.chunk)]
+    if (chunk && !extractions.has(chunk.id)) {
+      extractions.set(chunk.id, parseChunkExtraction(entry))
+    }
+  }
+
+  return extractions
+}
+
+/**
+ * Extracts entities and relationships from chunks
+ * A batch the model fails on is skipped and logged; its chunks are tried again on the next sync
+ *
+ * @param chunks - Chunks with their IDs
+ * @param onProgress - Called with the number of chunks processed so far
+ * @returns Extractions by chunk ID
+ * @throws GraphError if no API key is configured
+ */
+export async function extractChunkGraphs(
+  chunks: Array<{ id: string; text: string }>,
+  onProgress?: (completed: number, total: number) => void,
+): Promise<Map<string, ChunkGraphExtraction>> {
+  const apiKey = process.env.OPENAI_API_KEY
+  if (!apiKey) {
+    throw new GraphError("OPENAI_API_KEY is not defined", { code: "missing_api_key" })
+  }
+
+  const extractions = new Map<string, ChunkGraphExtraction>()
+
+  for (let i = 0; i < chunks.length; i += CHUNKS_PER_REQUEST) {
+    const batch = chunks.slice(i, i + CHUNKS_PER_REQUEST)
+
+    try {
+      const result = await extractBatch(batch, apiKey)
+      result.forEach((extraction, chunkId) => extractions.set(chunkId, extraction))
+    } catch (error) {
+      logger.warn(`Graph extraction failed for ${batch.length} chunks`, {
+        chunkIds: batch.map((chunk) => chunk.id),
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+
+    onProgress?.(Math.min(i + CHUNKS_PER_REQUEST, chunks.length), chunks.length)
+  }
+
+  return extractions
+}
+
+/**
+ * Reads the graph records that mention a document
+ *
+ * @param documentId - Document ID
+ * @param options - Namespace holding the graph
+ * @returns Nodes and edges mentioning the document
+ */
+async function loadDocumentGraph(
+  documentId: string,
+  options: { namespace: string },
+): Promise<{ nodes: Map<string, GraphNode>; edges: Map<string, GraphEdge> }> {
+  const response = await queryVectors(createPlaceholderVector(), {
+    filter: {
+      record_type: { $in: ["graph_node", "graph_edge"] },
+      document_ids: { $in: [documentId] },
+    },
+    includeMetadata: true,
+    topK: MAX_GRAPH_RECORDS,
+    namespace: options.namespace,
+  })
+
+  const nodes = new Map<string, GraphNode>()
+  const edges = new Map<string, GraphEdge>()
+
+  for (const match of response.matches || []) {
+    if (match.metadata?.record_type === "graph_edge") {
+      edges.set(match.id, toGraphEdge(match.id, match.metadata))
+    } else if (match.metadata) {
+      nodes.set(match.id, toGraphNode(match.id, match.metadata))
+    }
+  }
+
+  if ((response.matches || []).length >= MAX_GRAPH_RECORDS) {
+    logger.warn(`Document graph reached the read limit: ${documentId}`, { documentId, limit: MAX_GRAPH_RECORDS })
+  }
+
+  return { nodes, edges }
+}
+
+/**
+ * Fetches graph records, or other records such as chunks, by ID in batches
+ *
+ * @param ids - Record IDs
+ * @param options - Namespace holding the graph
+ * @returns Stored metadata by ID, for the records that exist
+ */
+export async function fetchGraphRecords(
+  ids: string[],
+  options: { namespace: string },
+): Promise<Map<string, Record<string, any>>> {
+  const records = new Map<string, Record<string, any>>()
+
+  for (let i = 0; i < ids.length; i += WRITE_BATCH_SIZE) {
+    const response = await fetchVectors(ids.slice(i, i + WRITE_BATCH_SIZE), { namespace: options.namespace })
+    Object.entries(response.vectors || {}).forEach(([id, vector]) => {
+      if (vector.metadata) {
+        records.set(id, vector.metadata)
+      }
+    })
+  }
+
+  return records
+}
+
+/**
+ * Adds a chunk to a record's provenance
+ *
+ * @param record - Node or edge to update
+ * @param documentId - Document of the chunk
+ * @param chunkId - Chunk ID
+ */
+function addProvenance(record: GraphNode | GraphEdge, documentId: string, chunkId: string): void {
+  if (!record.document_ids.includes(documentId)) {
+    record.document_ids.push(documentId)
+  }
+
+  if (!record.chunk_ids.includes(chunkId)) {
+    record.mention_count++
+    if (record.chunk_ids.length < MAX_PROVENANCE_IDS) {
+      record.chunk_ids.push(chunkId)
+    }
+  }
+}
+
+/**
+ * Removes chunks from a record's provenance, and the document once none of its chunks remain
+ *
+ * @param record - Node or edge to update
+ * @param documentId - Document of the chunks
+ * @param chunkIds - Chunk IDs to remove
+ * @returns True if the record changed
+ */
+function removeProvenance(record: GraphNode | GraphEdge, documentId: string, chunkIds: Set<string>): boolean {
+  const kept = record.chunk_ids.filter((id) => !chunkIds.has(id))
+  const removed = record.chunk_ids.length - kept.length
+  if (removed === 0) {
+    return false
+  }
+
+  record.chunk_ids = kept
+  record.mention_count = Math.max(kept.length, record.mention_count - removed)
+
+  if (!kept.some((id) => isDocumentChunk(id, documentId))) {
+    record.document_ids = record.document_ids.filter((id) => id !== documentId)
+  }
+
+  return true
+}
+
+/**
+ * Writes changed graph records and deletes the ones no document mentions any more
+ *
+ * @param nodes - Changed nodes
+ * @param edges - Changed edges
+ * @param options - Namespace holding the graph
+ * @returns Number of nodes and edges written and records deleted
+ */
+async function saveGraphRecords(
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  options: { namespace: string },
+): Promise<{ nodesWritten: number; edgesWritten: number; recordsDeleted: number }> {
+  const { namespace } = options
+  const timestamp = new Date().toISOString()
+
+  // Edges whose ends are gone go with them
+  const deletedNodeIds = new Set(nodes.filter((node) => node.document_ids.length === 0).map((node) => node.id))
+  const keptNodes = nodes.filter((node) => !deletedNodeIds.has(node.id))
+  const keptEdges = edges.filter(
+    (edge) =>
+      edge.document_ids.length > 0 && !deletedNodeIds.has(edge.source_id) && !deletedNodeIds.has(edge.target_id),
+  )
+  const deletedIds = [
+    ...Array.from(deletedNodeIds),
+    ...edges.filter((edge) => !keptEdges.includes(edge)).map((edge) => edge.id),
+  ]
+
+  const vectors = [
+    ...keptNodes.map((node) => ({
+      id: node.id,
+      values: createPlaceholderVector(),
+      metadata: {
+        ...node,
+        name_key: node.name.toLowerCase(),
+        record_type: "graph_node",
+        updated_at: timestamp,
+      },
+    })),
+    ...keptEdges.map((edge) => ({
+      id: edge.id,
+      values: createPlaceholderVector(),
+      metadata: { ...edge, record_type: "graph_edge", updated_at: timestamp },
+    })),
+  ]
+
+  for (let i = 0; i < vectors.length; i += WRITE_BATCH_SIZE) {
+    await upsertVectors(vectors.slice(i, i + WRITE_BATCH_SIZE), { namespace })
+  }
+
+  for (let i = 0; i < deletedIds.length; i += WRITE_BATCH_SIZE) {
+    await deleteVectors({ ids: deletedIds.slice(i, i + WRITE_BATCH_SIZE), namespace })
+  }
+
+  return { nodesWritten: keptNodes.length, edgesWritten: keptEdges.length, recordsDeleted: deletedIds.length }
+}
+
+/**
+ * Adds the entities and relationships extracted from chunks to a document's graph records
+ * Entities other documents already mention are read by ID and merged with
+ *
+ * @param extractions - Extractions by chunk ID
+ * @param graph - Document, owner, namespace, loaded records and the IDs of records changed so far
+ */
+async function applyExtractions(
+  extractions: Map<string, ChunkGraphExtraction>,
+  graph: {
+    documentId: string
+    userId: string
+    namespace: string
+    nodes: Map<string, GraphNode>
+    edges: Map<string, GraphEdge>
+    changed: Set<string>
+  },
+): Promise<void> {
+  const { documentId, userId, namespace, nodes, edges, changed } = graph
+
+  // Resolve entity names to node IDs and relations to edge IDs
+  const nodeIds = new Map<string, string>()
+  const edgeEntries: Array<{ chunkId: string; id: string; source: string; target: string; relation: string }> = []
+
+  for (const [chunkId, extraction] of Array.from(extractions)) {
+    for (const entity of extraction.entities) {
+      nodeIds.set(entity.name.toLowerCase(), await getNodeId(userId, entity.name))
+    }
+
+    for (const relationship of extraction.relationships) {
+      const source = nodeIds.get(relationship.source.toLowerCase()) as string
+      const target = nodeIds.get(relationship.target.toLowerCase()) as string
+      edgeEntries.push({
+        chunkId,
+        id: await getEdgeId(source, relationship.relation, target),
+        source,
+        target,
+        relation: relationship.relation,
+      })
+    }
+  }
+
+  // Entities other documents mention are already stored
+  const candidateIds = new Set([...Array.from(nodeIds.values()), ...edgeEntries.map((entry) => entry.id)])
+  const missingIds = Array.from(candidateIds).filter((id) => !nodes.has(id) && !edges.has(id))
+  const stored = await fetchGraphRecords(missingIds, { namespace })
+  const timestamp = new Date().toISOString()
+
+  for (const [chunkId, extraction] of Array.from(extractions)) {
+    for (const entity of extraction.entities) {
+      const id = nodeIds.get(entity.name.toLowerCase()) as string
+      let node = nodes.get(id)
+
+      if (!node) {
+        const metadata = stored.get(id)
+        node = metadata
+          ? toGraphNode(id, metadata)
+          : {
+              id,
+              user_id: userId,
+              name: entity.name,
+              type: entity.type,
+              description: entity.description,
+              document_ids: [],
+              chunk_ids: [],
+              mention_count: 0,
+              created_at: timestamp,
+              updated_at: timestamp,
+            }
+        nodes.set(id, node)
+      }
+
+      if (!node.description && entity.description) {
+        node.description = entity.description
+      }
+
+      addProvenance(node, documentId, chunkId)
+      changed.add(id)
+    }
+  }
+
+  for (const entry of edgeEntries) {
+    let edge = edges.get(entry.id)
+
+    if (!edge) {
+      const metadata = stored.get(entry.id)
+      edge = metadata
+        ? toGraphEdge(entry.id, metadata)
+        : {
+            id: entry.id,
+            user_id: userId,
+            source_id: entry.source,
+            target_id: entry.target,
+            relation: entry.relation,
+            document_ids: [],
+            chunk_ids: [],
+            mention_count: 0,
+            created_at: timestamp,
+            updated_at: timestamp,
+          }
+      edges.set(entry.id, edge)
+    }
+
+    addProvenance(edge, documentId, entry.chunkId)
+    changed.add(entry.id)
+  }
+}
+
+/**
+ * Syncs a document's contribution to the graph with the chunks it currently serves
+ * New chunks are extracted, chunks whose content is already in the graph under another ID reuse
+ * that extraction, and chunks the document no longer serves are removed from the provenance.
+ * Chunks that yielded no entities leave no trace in the graph and are extracted again next time.
+ *
+ * Records are saved after every extraction batch, so a run that reaches its deadline pauses with
+ * the position of the next chunk to extract, and a run given that offset continues from there.
+ *
+ * @param documentId - Document ID
+ * @param userId - Owner of the document and of the graph
+ * @param chunks - Chunks the document currently serves, in the same order on every run
+ * @param options - Progress callback, the epoch milliseconds after which a job run pauses, and where a paused run continues
+ * @returns Counts of the changes made
+ * @throws JobPausedError if the deadline passes before every chunk is extracted
+ */
+export async function syncDocumentGraph(
+  documentId: string,
+  userId: string,
+  chunks: Array<{ id: string; text: string }>,
+  options: { onProgress?: (completed: number, total: number) => void; deadline?: number; offset?: number } = {},
+): Promise<GraphSyncResult> {
+  const namespace = getUserNamespace(userId)
+  const offset = options.offset ?? 0
+  const { nodes, edges } = await loadDocumentGraph(documentId, { namespace })
+  const records: Array<GraphNode | GraphEdge> = [...Array.from(nodes.values()), ...Array.from(edges.values())]
+
+  const graphChunkIds = new Set(
+    records.flatMap((record) => record.chunk_ids.filter((id) => isDocumentChunk(id, documentId))),
+  )
+  const graphChunksByKey = new Map(Array.from(graphChunkIds, (id) => [getChunkContentKey(id), id]))
+  const currentIds = new Set(chunks.map((chunk) => chunk.id))
+
+  // New chunk ID -> chunk ID already in the graph with the same content
+  const reused = new Map<string, string>()
+  // Chunks to extract, with their position in chunks; those before the offset were extracted by a paused run
+  const toExtract: Array<{ chunk: { id: string; text: string }; position: number }> = []
+
+  for (let position = 0; position < chunks.length; position++) {
+    const chunk = chunks[position]
+    if (graphChunkIds.has(chunk.id)) {
+      continue
+    }
+
+    const previous = graphChunksByKey.get(getChunkContentKey(chunk.id))
+    if (previous) {
+      reused.set(chunk.id, previous)
+    } else if (position >= offset) {
+      toExtract.push({ chunk, position })
+    }
+  }
+
+  const removedIds = new Set(Array.from(graphChunkIds).filter((id) => !currentIds.has(id)))
+  const changed = new Set<string>()
+
+  // Reused chunks take over the provenance of their previous ID before it is removed
+  for (const record of records) {
+    reused.forEach((previous, chunkId) => {
+      if (record.chunk_ids.includes(previous)) {
+        addProvenance(record, documentId, chunkId)
+        changed.add(record.id)
+      }
+    })
+
+    if (removeProvenance(record, documentId, removedIds)) {
+      changed.add(record.id)
+    }
+  }
+
+  const result: GraphSyncResult = {
+    extractedChunks: 0,
+    reusedChunks: reused.size,
+    removedChunks: removedIds.size,
+    nodesWritten: 0,
+    edgesWritten: 0,
+    recordsDeleted: 0,
+  }
+
+  // Writes the records changed since the last save
+  const saveChanged = async () => {
+    const saved = await saveGraphRecords(
+      Array.from(nodes.values()).filter((node) => changed.has(node.id)),
+      Array.from(edges.values()).filter((edge) => changed.has(edge.id)),
+      { namespace },
+    )
+
+    result.nodesWritten += saved.nodesWritten
+    result.edgesWritten += saved.edgesWritten
+    result.recordsDeleted += saved.recordsDeleted
+    changed.clear()
+  }
+
+  await saveChanged()
+
+  for (let i = 0; i < toExtract.length; i += CHUNKS_PER_REQUEST) {
+    if (options.deadline !== undefined && i > 0 && Date.now() >= options.deadline) {
+      const next = toExtract[i].position
+
+      logger.info(`Knowledge graph sync paused: ${documentId}`, { documentId, ...result, nextChunk: next })
+
+      throw new JobPausedError(`Paused after extracting entities from ${next}/${chunks.length} chunks`, {
+        documentId,
+        graphOffset: next,
+      })
+    }
+
+    const batch = toExtract.slice(i, i + CHUNKS_PER_REQUEST)
+    const extractions = await extractChunkGraphs(batch.map((entry) => entry.chunk))
+
+    if (extractions.size > 0) {
+      await applyExtractions(extractions, { documentId, userId, namespace, nodes, edges, changed })
+      await saveChanged()
+    }
+
+    result.extractedChunks += batch.length
+    options.onProgress?.(batch[batch.length - 1].position + 1, chunks.length)
+  }
+
+  logger.info(`Synced knowledge graph for document: ${documentId}`, { documentId, ...result })
+
+  return result
+}
+
+/**
+ * Syncs a document's contribution to the graph with the stored chunks of one of its versions
+ * Used when a version starts being served without its chunks passing through processing,
+ * e.g. after a rollback
+ *
+ * @param documentId - Document ID
+ * @param userId - Owner of the document and of the graph
+ * @param version - Version whose chunks are served
+ * @param options - Epoch milliseconds after which a job run pauses
+ * @returns Counts of the changes made
+ * @throws JobPausedError if the deadline passes before every chunk is extracted
+ */
+export async function syncDocumentGraphFromIndex(
+  documentId: string,
+  userId: string,
+  version: number,
+  options: { deadline?: number } = {},
+): Promise<GraphSyncResult> {
+  const namespace = getUserNamespace(userId)
+  const chunkIds = await listVersionChunkIds(documentId, version, { namespace })
+  const stored = await fetchGraphRecords(chunkIds, { namespace })
+
+  const chunks = chunkIds
+    .filter((id) => typeof stored.get(id)?.content === "string")
+    .map((id) => ({ id, text: stored.get(id)?.content as string }))
+
+  return syncDocumentGraph(documentId, userId, chunks, { deadline: options.deadline })
+}
+
+/**
+ * Removes a document from the graph, deleting entities and relationships only it mentioned
+ *
+ * @param documentId - Document ID
+ * @param userId - Owner of the document and of the graph
+ * @returns Counts of the changes made
+ */
+export async function removeDocumentFromGraph(documentId: string, userId: string): Promise<GraphSyncResult> {
+  return syncDocumentGraph(documentId, userId, [])
+}
+
+/**
+ * Looks up an entity by node ID or by name
+ *
+ * @param userId - Owner of the graph
+ * @param entity - Node ID (entity_...) or entity name, matched without regard to case
+ * @returns Graph node, or null if the user's graph has no such entity
+ */
+export async function getEntity(userId: string, entity: string): Promise<GraphNode | null> {
+  const id = entity.startsWith("entity_") ? entity : await getNodeId(userId, entity)
+  const stored = await fetchGraphRecords([id], { namespace: getUserNamespace(userId) })
+  const metadata = stored.get(id)
+
+  if (!metadata || metadata.record_type !== "graph_node" || metadata.user_id !== userId) {
+    return null
+  }
+
+  return toGraphNode(id, metadata)
+}
+
+/**
+ * Lists the entities connected to an entity, strongest connections first
+ *
+ * @param userId - Owner of the graph
+ * @param nodeId - Node ID of the entity
+ * @param options - A relation to restrict to, a document the edges must come from, and a limit
+ * @returns Neighbours with the connecting edges
+ */
+export async function getEntityNeighbors(
+  userId: string,
+  nodeId: string,
+  options: { relation?: string; documentId?: string; limit?: number } = {},
+): Promise<GraphNeighbor[]> {
+  const namespace = getUserNamespace(userId)
+  const response = await queryVectors(createPlaceholderVector(), {
+    filter: {
+      record_type: { $eq: "graph_edge" },
+      user_id: { $eq: userId },
+      $or: [{ source_id: { $eq: nodeId } }, { target_id: { $eq: nodeId } }],
+      ...(options.relation && { relation: { $eq: normalizeRelation(options.relation) } }),
+      ...(options.documentId && { document_ids: { $in: [options.documentId] } }),
+    },
+    includeMetadata: true,
+    topK: MAX_GRAPH_RECORDS,
+    namespace,
+  })
+
+  const edges = (response.matches || [])
+    .filter((match) => match.metadata)
+    .map((match) => toGraphEdge(match.id, match.metadata as Record<string, any>))
+    .sort((a, b) => b.mention_count - a.mention_count)
+    .slice(0, options.limit ?? 50)
+
+  const neighborIds = Array.from(
+    new Set(edges.map((edge) => (edge.source_id === nodeId ? edge.target_id : edge.source_id))),
+  )
+  const stored = await fetchGraphRecords(neighborIds, { namespace })
+
+  return edges.flatMap((edge) => {
+    const direction = edge.source_id === nodeId ? "outgoing" : "incoming"
+    const neighborId = direction === "outgoing" ? edge.target_id : edge.source_id
+    const metadata = stored.get(neighborId)
+
+    return metadata ? [{ node: toGraphNode(neighborId, metadata), edge, direction }] : []
+  })
+}
@@ -0,0 +1,382 @@
+/**
+ * In-Memory Vector Store
+ *
+ * Vector store backend that keeps every record in process memory, so the application and its
+ * tests run without a Pinecone index: for local development, CI and unit tests. It behaves like
+ * the Pinecone backend, with the same record shapes, the same metadata filter semantics and
+ * query errors returned in the response rather than thrown.
+ *
+ * Queries score every record in the namespace that passes the filter, which is fine for the
+ * thousands of records of a development data set but not for production volumes. Records live
+ * as long as the process and are not shared between server instances.
+ *
+ * Scores are cosine similarities scaled by the length of the query vector, plus the dot product
+ * of sparse values. Embedding queries have unit length, so they score by cosine similarity,
+ * while hybrid queries weighted by alpha score like they do in a dotproduct index.
+ *
+ * Features:
+ * - Namespaces, upserts, fetches, metadata updates and deletes by ID, filter or namespace
+ * - Queries by vector or stored record ID, with optional sparse values
+ * - Pinecone metadata filters through lib/metadata-filter
+ * - Copies on the way in and out, so callers cannot change stored records by accident
+ * - Edge runtime compatible (no Node.js specific modules)
+ *
+ * Dependencies:
+ * - @/lib/metadata-filter for filter evaluation
+ * - @/lib/embedding-config for vector dimensions
+ * - @/lib/utils/logger for structured logging
+ *
+ * @module lib/memory-vector-store
+ */
+
+import { createPlaceholderVector, validateVectorDimension, VECTOR_DIMENSION } from "@/lib/embedding-config"
+import { matchesMetadataFilter } from "@/lib/metadata-filter"
+import type { SparseValues } from "@/lib/sparse-encoder"
+import { logger } from "@/lib/utils/logger"
+import type {
+  VectorDeleteOptions,
+  VectorIndexStats,
+  VectorQueryMatch,
+  VectorQueryOptions,
+  VectorQueryResponse,
+  VectorRecord,
+  VectorStore,
+  VectorStoreHealth,
+} from "@/types/vector-store"
+
+// Largest topK Pinecone accepts
+const MAX_TOP_K = 10000
+
+/**
+ * Copies a record so the stored one and the caller's do not share arrays or metadata
+ *
+ * @param record - Record to copy
+ * @returns Deep copy of the record
+ */
+function copyRecord(record: VectorRecord): VectorRecord {
+  return {
+    id: record.id,
+    values: record.values.slice(),
+    ...(record.sparseValues && {
+      sparseValues: { indices: record.sparseValues.indices.slice(), values: record.sparseValues.values.slice() },
+    }),
+    ...(record.metadata && { metadata: JSON.parse(JSON.stringify(record.metadata)) }),
+  }
+}
+
+/**
+ * Euclidean length of a vector
+ *
+ * @param vector - Vector
+ * @returns Length
+ */
+function norm(vector: number[]): number {
+  let sum = 0
+  for (let i = 0; i < vector.length; i++) {
+    sum += vector[i] * vector[i]
+  }
+  return Math.sqrt(sum)
+}
+
+/**
+ * Dot product of two sparse vectors
+ *
+ * @param a - Sparse vector
+ * @param b - Sparse vector
+ * @returns Sum of the products of values at shared indices
+ */
+function sparseDotProduct(a: SparseValues, b: SparseValues): number {
+  const weights = new Map<number, number>()
+  a.indices.forEach((index, i) => weights.set(index, a.values[i]))
+
+  return b.indices.reduce((sum, index, i) => sum + (weights.get(index) || 0) * b.values[i], 0)
+}
+
+/**
+ * Vector store backend that keeps records in memory
+ */
+export class MemoryVectorStore implements VectorStore {
+  readonly name = "memory"
+
+  // Dimension of the vectors the store accepts
+  readonly dimension: number
+
+  // Records by ID, per namespace; "" is the default namespace
+  private namespaces = new Map<string, Map<string, VectorRecord>>()
+
+  /**
+   * @param options - Vector dimension, VECTOR_DIMENSION by default
+   */
+  constructor(options: { dimension?: number } = {}) {
+    this.dimension = options.dimension ?? VECTOR_DIMENSION
+  }
+
+  /**
+   * Returns the records of a namespace, creating the namespace if asked to
+   *
+   * @param namespace - Namespace name
+   * @param create - Whether to create a missing namespace
+   * @returns Records by ID, or undefined for a missing namespace
+   */
+  private getNamespace(namespace: string, create: boolean): Map<string, VectorRecord> | undefined {
+    let records = this.namespaces.get(namespace)
+
+    if (!records && create) {
+      records = new Map()
+      this.namespaces.set(namespace, records)
+    }
+
+    return records
+  }
+
+  /**
+   * Inserts or replaces records
+   * Records without an ID or with vectors of the wrong dimension are skipped, as in the Pinecone backend
+   *
+   * @param vectors - Records to store
+   * @param options - Namespace
+   * @returns Number of records stored
+   */
+  async upsertVectors(
+    vectors: VectorRecord[],
+    options: { namespace?: string } = {},
+  ): Promise<{ upsertedCount: number }> {
+    const records = this.getNamespace(options.namespace || "", true) as Map<string, VectorRecord>
+    let upsertedCount = 0
+
+    for (const vector of vectors) {
+      try {
+        if (!vector.id) {
+          throw new Error("Missing vector ID")
+        }
+        validateVectorDimension(vector.values, this.dimension)
+      } catch (error) {
+        logger.error("Rejecting invalid vector", {
+          vectorId: vector.id,
+          error: error instanceof Error ? error.message : "Unknown error",
+        })
+        continue
+      }
+
+      records.set(vector.id, copyRecord(vector))
+      upsertedCount++
+    }
+
+    return { upsertedCount }
+  }
+
+  /**
+   * Finds the records most similar to a vector, or to a stored record
+   *
+   * @param queryInput - Query vector or record ID
+   * @param options - Query options (topK, includeMetadata, includeValues, filter, namespace, sparseVector)
+   * @returns Matches, best first; errors are reported in the response
+   */
+  async queryVectors(queryInput: number[] | string, options: VectorQueryOptions = {}): Promise<VectorQueryResponse> {
+    const { topK = 10, includeMetadata = true, includeValues = false, filter, sparseVector } = options
+    const namespace = options.namespace || ""
+    const records = this.getNamespace(namespace, false) || new Map<string, VectorRecord>()
+
+    try {
+      let vector: number[]
+
+      if (Array.isArray(queryInput)) {
+        try {
+          validateVectorDimension(queryInput, this.dimension)
+          vector = queryInput
+        } catch {
+          // Same fallback as the Pinecone backend, for metadata-only queries
+          vector = createPlaceholderVector(this.dimension)
+        }
+      } else {
+        const stored = records.get(queryInput)
+        if (!stored) {
+          return { matches: [], namespace }
+        }
+        vector = stored.values
+      }
+
+      const scored: Array<{ record: VectorRecord; score: number }> = []
+
+      records.forEach((record) => {
+        if (!matchesMetadataFilter(record.metadata, filter)) {
+          return
+        }
+
+        let dot = 0
+        for (let i = 0; i < vector.length; i++) {
+          dot += vector[i] * record.values[i]
+        }
+
+        const recordNorm = norm(record.values)
+        let score = recordNorm > 0 ? dot / recordNorm : 0
+
+        if (sparseVector && record.sparseValues) {
+          score += sparseDotProduct(sparseVector, record.sparseValues)
+        }
+
+        scored.push({ record, score })
+      })
+
+      scored.sort((a, b) => b.score - a.score)
+
+      const matches: VectorQueryMatch[] = scored.slice(0, Math.min(topK, MAX_TOP_K)).map(({ record, score }) => ({
+        id: record.id,
+        score,
+        ...(includeValues && { values: record.values.slice() }),
+        ...(includeMetadata && record.metadata && { metadata: JSON.parse(JSON.stringify(record.metadata)) }),
+      }))
+
+      return { matches, namespace }
+    } catch (error) {
+      logger.error("Query error:", {
+        error: error instanceof Error ? error.message : String(error),
+        backend: this.name,
+      })
+
+      return {
+        matches: [],
+        error: true,
+        errorMessage: error instanceof Error ? error.message : String(error),
+        status: 400,
+      }
+    }
+  }
+
+  /**
+   * Reads records by ID
+   *
+   * @param ids - Record IDs
+   * @param options - Namespace
+   * @returns Records found, by ID
+   */
+  async fetchVectors(
+    ids: string[],
+    options: { namespace?: string } = {},
+  ): Promise<{ vectors: Record<string, VectorRecord> }> {
+    const records = this.getNamespace(options.namespace || "", false)
+    const vectors: Record<string, VectorRecord> = {}
+
+    for (const id of ids) {
+      const record = records?.get(id)
+      if (record) {
+        vectors[id] = copyRecord(record)
+      }
+    }
+
+    return { vectors }
+  }
+
+  /**
+   * Merges fields into the metadata of a stored record; missing records are left alone
+   *
+   * @param id - Record ID
+   * @param metadata - Metadata fields to set
+   * @param options - Namespace
+   */
+  async updateVectorMetadata(
+    id: string,
+    metadata: Record<string, any>,
+    options: { namespace?: string } = {},
+  ): Promise<void> {
+    const record = this.getNamespace(options.namespace || "", false)?.get(id)
+
+    if (!record) {
+      logger.warn("Metadata update for a missing vector ignored", { vectorId: id, backend: this.name })
+      return
+    }
+
+    record.metadata = { ...(record.metadata || {}), ...JSON.parse(JSON.stringify(metadata)) }
+  }
+
+  /**
+   * Deletes records by ID, by metadata filter, or all records of a namespace
+   *
+   * @param options - IDs, filter or deleteAll, and the namespace
+   * @returns Number of records deleted
+   */
+  async deleteVectors(options: VectorDeleteOptions): Promise<{ deletedCount?: number }> {
+    const namespace = options.namespace || ""
+    const records = this.getNamespace(namespace, false)
+
+    if (!records) {
+      return { deletedCount: 0 }
+    }
+
+    let deletedCount = 0
+
+    if (options.ids) {
+      for (const id of options.ids) {
+        if (records.delete(id)) {
+          deletedCount++
+        }
+      }
+    } else if (options.filter) {
+      Array.from(records.values()).forEach((record) => {
+        if (matchesMetadataFilter(record.metadata, options.filter)) {
+          records.delete(record.id)
+          deletedCount++
+        }
+      })
+    } else if (options.deleteAll) {
+      deletedCount = records.size
+      this.namespaces.delete(namespace)
+    }
+
+    return { deletedCount }
+  }
+
+  /**
+   * Lists the namespaces that hold records
+   *
+   * @returns Namespace names
+   */
+  async listNamespaces(): Promise<string[]> {
+    return Array.from(this.namespaces.keys()).filter((namespace) => (this.namespaces.get(namespace)?.size || 0) > 0)
+  }
+
+  /**
+   * Counts the records per namespace
+   *
+   * @returns Index statistics
+   */
+  async describeIndexStats(): Promise<VectorIndexStats> {
+    const namespaces: Record<string, { vectorCount: number }> = {}
+    let totalVectorCount = 0
+
+    this.namespaces.forEach((records, namespace) => {
+      if (records.size > 0) {
+        namespaces[namespace] = { vectorCount: records.size }
+        totalVectorCount += records.size
+      }
+    })
+
+    return { namespaces, dimension: this.dimension, indexFullness: 0, totalVectorCount }
+  }
+
+  /**
+   * Reports the store as healthy, with its record counts
+   *
+   * @returns Health check result
+   */
+  async healthCheck(): Promise<VectorStoreHealth> {
+    const stats = await this.describeIndexStats()
+
+    return {
+      healthy: true,
+      details: {
+        backend: this.name,
+        totalVectorCount: stats.totalVectorCount,
+        dimension: stats.dimension,
+        namespaces: Object.keys(stats.namespaces).length,
+      },
+    }
+  }
+
+  /**
+   * Removes every record from every namespace, for resetting state between tests
+   */
+  clear(): void {
+    this.namespaces.clear()
+  }
+}
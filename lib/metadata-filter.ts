@@ -0,0 +1,206 @@
+/**
+ * Metadata Filter
+ *
+ * Evaluates Pinecone metadata filters against a record's metadata, for vector store backends
+ * that filter in process. The semantics follow Pinecone: fields given a plain value are compared
+ * for equality, fields in one filter object must all match, and a list field matches $eq and $in
+ * when any of its elements does, and $ne and $nin when none does. Range operators compare
+ * numbers only, as in Pinecone, so a filter that Pinecone rejects is rejected here too.
+ *
+ * Features:
+ * - $eq, $ne, $gt, $gte, $lt, $lte, $in, $nin and $exists on fields
+ * - $and and $or at any depth
+ * - Errors for unknown operators and malformed operands
+ * - Edge runtime compatible (no Node.js specific modules)
+ *
+ * @module lib/metadata-filter
+ */
+
+type Primitive = string | number | boolean
+
+/**
+ * Metadata filter error class
+ */
+export class MetadataFilterError extends Error {
+  filter?: Record<string, any>
+
+  constructor(message: string, filter?: Record<string, any>) {
+    super(message)
+    this.name = "MetadataFilterError"
+    this.filter = filter
+  }
+}
+
+/**
+ * Whether a value can be compared in a filter
+ *
+ * @param value - Value to check
+ * @returns True for strings, numbers and booleans
+ */
+function isPrimitive(value: unknown): value is Primitive {
+  return typeof value === "string" || typeof value === "number" || typeof value === "boolean"
+}
+
+/**
+ * Checks that a range operand is a number
+ *
+ * @param operator - Range operator
+ * @param operand - Operand from the filter
+ * @returns The operand
+ * @throws MetadataFilterError if the operand is not a number
+ */
+function toNumberOperand(operator: string, operand: unknown): number {
+  if (typeof operand !== "number" || Number.isNaN(operand)) {
+    throw new MetadataFilterError(`${operator} requires a number, got ${JSON.stringify(operand)}`)
+  }
+
+  return operand
+}
+
+/**
+ * Checks that a set operand is a list of plain values
+ *
+ * @param operator - $in or $nin
+ * @param operand - Operand from the filter
+ * @returns The operand
+ * @throws MetadataFilterError if the operand is not a list of plain values
+ */
+function toListOperand(operator: string, operand: unknown): Primitive[] {
+  if (!Array.isArray(operand) || !operand.every(isPrimitive)) {
+    throw new MetadataFilterError(`${operator} requires a list of strings, numbers or booleans`)
+  }
+
+  return operand
+}
+
+/**
+ * Evaluates one operator against a field value
+ *
+ * @param value - Field value, undefined if the record lacks the field
+ * @param operator - Filter operator
+ * @param operand - Operand from the filter
+ * @returns True if the value satisfies the operator
+ * @throws MetadataFilterError for unknown operators and malformed operands
+ */
+function matchesOperator(value: unknown, operator: string, operand: unknown): boolean {
+  // List fields match when any element does
+  const values: unknown[] = Array.isArray(value) ? value : value === undefined || value === null ? [] : [value]
+
+  switch (operator) {
+    case "$eq":
+      if (!isPrimitive(operand)) {
+        throw new MetadataFilterError(`$eq requires a string, number or boolean`)
+      }
+      return values.some((item) => item === operand)
+
+    case "$ne":
+      if (!isPrimitive(operand)) {
+        throw new MetadataFilterError(`$ne requires a string, number or boolean`)
+      }
+      return !values.some((item) => item === operand)
+
+    case "$in": {
+      const list = toListOperand(operator, operand)
+      return values.some((item) => list.indexOf(item as Primitive) !== -1)
+    }
+
+    case "$nin": {
+      const list = toListOperand(operator, operand)
+      return !values.some((item) => list.indexOf(item as Primitive) !== -1)
+    }
+
+    case "$gt": {
+      const bound = toNumberOperand(operator, operand)
+      return typeof value === "number" && value > bound
+    }
+
+    case "$gte": {
+      const bound = toNumberOperand(operator, operand)
+      return typeof value === "number" && value >= bound
+    }
+
+    case "$lt": {
+      const bound = toNumberOperand(operator, operand)
+      return typeof value === "number" && value < bound
+    }
+
+    case "$lte": {
+      const bound = toNumberOperand(operator, operand)
+      return typeof value === "number" && value <= bound
+    }
+
+    case "$exists":
+      if (typeof operand !== "boolean") {
+        throw new MetadataFilterError("$exists requires true or false")
+      }
+      return (value !== undefined && value !== null) === operand
+
+    default:
+      throw new MetadataFilterError(`Unsupported filter operator: ${operator}`)
+  }
+}
+
+/**
+ * Evaluates the condition on one field
+ *
+ * @param value - Field value, undefined if the record lacks the field
+ * @param condition - Plain value, or an object of operators that must all hold
+ * @returns True if the value satisfies the condition
+ */
+function matchesCondition(value: unknown, condition: unknown): boolean {
+  if (isPrimitive(condition)) {
+    return matchesOperator(value, "$eq", condition)
+  }
+
+  if (!condition || typeof condition !== "object" || Array.isArray(condition)) {
+    throw new MetadataFilterError(`Invalid filter condition: ${JSON.stringify(condition)}`)
+  }
+
+  const operands = condition as Record<string, unknown>
+  const operators = Object.keys(operands)
+
+  if (operators.length === 0) {
+    throw new MetadataFilterError("Filter conditions need at least one operator")
+  }
+
+  return operators.every((operator) => matchesOperator(value, operator, operands[operator]))
+}
+
+/**
+ * Whether a record's metadata satisfies a Pinecone metadata filter
+ *
+ * @param metadata - Record metadata
+ * @param filter - Metadata filter; an empty or missing filter matches every record
+ * @returns True if the metadata matches
+ * @throws MetadataFilterError if the filter is malformed
+ */
+export function matchesMetadataFilter(
+  metadata: Record<string, any> | undefined,
+  filter: Record<string, any> | undefined,
+): boolean {
+  if (!filter) {
+    return true
+  }
+
+  const fields = metadata || {}
+
+  return Object.keys(filter).every((key) => {
+    const condition = filter[key]
+
+    if (key === "$and" || key === "$or") {
+      if (!Array.isArray(condition) || condition.length === 0) {
+        throw new MetadataFilterError(`${key} requires a non-empty list of filters`, filter)
+      }
+
+      return key === "$and"
+        ? condition.every((part) => matchesMetadataFilter(fields, part))
+        : condition.some((part) => matchesMetadataFilter(fields, part))
+    }
+
+    if (key.startsWith("$")) {
+      throw new MetadataFilterError(`Unsupported filter operator: ${key}`, filter)
+    }
+
+    return matchesCondition(fields[key], condition)
+  })
+}
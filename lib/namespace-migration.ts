@@ -0,0 +1,246 @@
+/**
+ * Namespace Migration
+ *
+ * Moves records written before per-user namespaces out of the shared namespace and into the
+ * namespace of the user they belong to. Each record is copied with its values, sparse values and
+ * metadata, read back from the user's namespace and only then deleted from the shared one, so a
+ * run that is cut off leaves every record in at least one place and the migration can simply be
+ * run again until nothing is left to move.
+ *
+ * Job records left over from before jobs moved to their own table are not moved, and records
+ * without a user ID belong to no user and are left where they are.
+ *
+ * The filter index can lag behind deletes, so a run remembers the records it has handled and
+ * looks past them instead of moving them twice.
+ *
+ * Features:
+ * - Time-boxed runs that report whether the shared namespace is done
+ * - Copy, verify, then delete, so no record is lost to a failed run
+ * - Count of records still waiting to be moved
+ * - Works on every vector store backend
+ * - Edge runtime compatible (no Node.js specific modules)
+ *
+ * Dependencies:
+ * - @/lib/vector-store for reading and writing records
+ * - @/lib/utils/logger for structured logging
+ *
+ * @module lib/namespace-migration
+ */
+
+import { logger } from "@/lib/utils/logger"
+import {
+  createPlaceholderVector,
+  deleteVectors,
+  fetchVectors,
+  getUserNamespace,
+  queryVectors,
+  SHARED_NAMESPACE,
+  upsertVectors,
+  type VectorRecord,
+} from "@/lib/vector-store"
+
+// Records moved per round trip
+const DEFAULT_BATCH_SIZE = 100
+
+// Largest topK Pinecone accepts
+const MAX_TOP_K = 10000
+
+// Default time a migration run keeps moving records
+const DEFAULT_TIME_BUDGET_MS = 25 * 1000
+
+// Records of the shared namespace that belong to a user
+const UNMIGRATED_FILTER = {
+  user_id: { $exists: true, $ne: "" },
+  record_type: { $ne: "job" },
+}
+
+/**
+ * Namespace migration error class
+ */
+export class NamespaceMigrationError extends Error {
+  code: string
+  retryable: boolean
+  context?: Record<string, any>
+
+  constructor(
+    message: string,
+    options: {
+      code?: string
+      retryable?: boolean
+      context?: Record<string, any>
+    } = {},
+  ) {
+    super(message)
+    this.name = "NamespaceMigrationError"
+    this.code = options.code || "namespace_migration_error"
+    this.retryable = options.retryable ?? true
+    this.context = options.context
+  }
+}
+
+/**
+ * Outcome of a migration run
+ */
+export interface NamespaceMigrationResult {
+  // Records moved to a user namespace
+  moved: number
+  // Records copied but not yet readable in the user namespace; they stay shared until the next run
+  retained: number
+  // Records moved, by user namespace
+  namespaces: Record<string, number>
+  // Whether the shared namespace holds no more user records
+  complete: boolean
+}
+
+/**
+ * Finds shared records that belong to a user and were not handled in this run
+ *
+ * @param handled - IDs already handled in this run
+ * @param batchSize - Number of IDs to return
+ * @returns IDs to move, and whether the query saw every remaining record
+ * @throws NamespaceMigrationError if the query fails
+ */
+async function findUnmigratedIds(
+  handled: Set<string>,
+  batchSize: number,
+): Promise<{ ids: string[]; exhausted: boolean }> {
+  // Handled records can still show up in the filter index, so look past them
+  const topK = Math.min(batchSize + handled.size, MAX_TOP_K)
+
+  const response = await queryVectors(createPlaceholderVector(), {
+    filter: UNMIGRATED_FILTER,
+    includeMetadata: false,
+    topK,
+    namespace: SHARED_NAMESPACE,
+  })
+
+  if (response.error) {
+    throw new NamespaceMigrationError(`Failed to list records to migrate: ${response.errorMessage}`, {
+      code: "query_failed",
+      context: { status: response.status },
+    })
+  }
+
+  const matches = response.matches || []
+
+  return {
+    ids: matches
+      .map((match) => match.id)
+      .filter((id) => !handled.has(id))
+      .slice(0, batchSize),
+    exhausted: matches.length < topK,
+  }
+}
+
+/**
+ * Moves shared records into the namespaces of their users
+ *
+ * @param ids - IDs of shared records
+ * @param result - Run result to add the moved records to
+ */
+async function moveRecords(ids: string[], result: NamespaceMigrationResult): Promise<void> {
+  const { vectors } = await fetchVectors(ids, { namespace: SHARED_NAMESPACE, includeValues: true })
+  const byNamespace: Record<string, VectorRecord[]> = {}
+
+  Object.keys(vectors).forEach((id) => {
+    const record = vectors[id]
+    const userId = record.metadata?.user_id
+
+    // The filter index may be behind a record's metadata
+    if (typeof userId !== "string" || !userId || record.metadata?.record_type === "job") {
+      return
+    }
+
+    const namespace = getUserNamespace(userId)
+    byNamespace[namespace] = [...(byNamespace[namespace] || []), record]
+  })
+
+  for (const namespace of Object.keys(byNamespace)) {
+    const records = byNamespace[namespace]
+    const recordIds = records.map((record) => record.id)
+
+    await upsertVectors(records, { namespace })
+
+    // Only records the user namespace returns are removed from the shared one
+    const copied = await fetchVectors(recordIds, { namespace })
+    const movedIds = recordIds.filter((id) => copied.vectors[id])
+
+    if (movedIds.length > 0) {
+      await deleteVectors({ ids: movedIds, namespace: SHARED_NAMESPACE })
+    }
+
+    result.moved += movedIds.length
+    result.retained += recordIds.length - movedIds.length
+    result.namespaces[namespace] = (result.namespaces[namespace] || 0) + movedIds.length
+  }
+}
+
+/**
+ * Moves the records of the shared namespace into per-user namespaces until none are left or the
+ * time budget is used up; run it again while the result is not complete
+ *
+ * @param options - Batch size and time budget
+ * @returns Records moved and whether the migration is complete
+ * @throws NamespaceMigrationError if records cannot be listed
+ */
+export async function migrateToUserNamespaces(
+  options: { batchSize?: number; timeBudgetMs?: number } = {},
+): Promise<NamespaceMigrationResult> {
+  const batchSize = Math.max(1, Math.min(options.batchSize ?? DEFAULT_BATCH_SIZE, 1000))
+  const deadline = Date.now() + (options.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS)
+  const handled = new Set<string>()
+  const result: NamespaceMigrationResult = { moved: 0, retained: 0, namespaces: {}, complete: false }
+
+  logger.info("Moving shared records into user namespaces", { batchSize })
+
+  while (Date.now() < deadline) {
+    const { ids, exhausted } = await findUnmigratedIds(handled, batchSize)
+
+    if (ids.length === 0) {
+      result.complete = exhausted && result.retained === 0
+      break
+    }
+
+    await moveRecords(ids, result)
+    ids.forEach((id) => handled.add(id))
+
+    // A run that has seen as many records as one query returns leaves the rest to the next run
+    if (handled.size + batchSize > MAX_TOP_K) {
+      break
+    }
+  }
+
+  logger.info("Namespace migration run finished", {
+    moved: result.moved,
+    retained: result.retained,
+    namespaces: Object.keys(result.namespaces).length,
+    complete: result.complete,
+  })
+
+  return result
+}
+
+/**
+ * Counts the records of the shared namespace that still belong in a user namespace
+ * The count stops at 10,000, the most records one query returns
+ *
+ * @returns Number of records waiting to be moved
+ * @throws NamespaceMigrationError if the query fails
+ */
+export async function countUnmigratedRecords(): Promise<number> {
+  const response = await queryVectors(createPlaceholderVector(), {
+    filter: UNMIGRATED_FILTER,
+    includeMetadata: false,
+    topK: MAX_TOP_K,
+    namespace: SHARED_NAMESPACE,
+  })
+
+  if (response.error) {
+    throw new NamespaceMigrationError(`Failed to count records to migrate: ${response.errorMessage}`, {
+      code: "query_failed",
+      context: { status: response.status },
+    })
+  }
+
+  return response.matches?.length || 0
+}
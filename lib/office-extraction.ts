@@ -0,0 +1,507 @@
+/**
+ * Office Document Extraction
+ *
+ * Converts word processing documents into markdown so the chunker can recognise their
+ * structure: heading styles become "#" headings, numbered and bulleted paragraphs become
+ * list items, and tables become pipe tables with a header separator row.
+ *
+ * Features:
+ * - DOCX (Office Open XML) with heading levels resolved through the style sheet
+ * - ODT (OpenDocument Text) headings, nested lists and tables
+ * - Bullet vs numbered lists resolved from the numbering definitions
+ * - Tracked deletions, field codes and footnote bodies are skipped
+ * - Edge Runtime compatible (no Node.js specific modules)
+ *
+ * Dependencies:
+ * - @/lib/utils/xml-utils for reading the zip container and XML parts
+ * - @/lib/utils/markdown-utils for rendering blocks
+ *
+ * @module lib/office-extraction
+ */
+
+import { type AnyNode, type Element, isTag, isText } from "domhandler"
+import { childElements, findAllElements, findElement, parseXml, readZipEntries } from "@/lib/utils/xml-utils"
+import { type MarkdownBlock, joinBlocks, renderHeading, renderListItem, renderTable } from "@/lib/utils/markdown-utils"
+
+// Paragraph style information from word/styles.xml
+interface DocxStyle {
+  name?: string
+  basedOn?: string
+  outlineLevel?: number
+  numId?: string
+}
+
+// DOCX elements whose content is not part of the visible body text
+const DOCX_SKIPPED_ELEMENTS = new Set([
+  "w:del",
+  "w:delText",
+  "w:instrText",
+  "w:fldChar",
+  "w:drawing",
+  "w:pict",
+  "w:object",
+  "w:footnoteReference",
+  "w:endnoteReference",
+  "w:commentReference",
+  "w:rPr",
+  "w:pPr",
+])
+
+// ODT elements whose content is not part of the visible body text
+const ODT_SKIPPED_ELEMENTS = new Set([
+  "text:note",
+  "office:annotation",
+  "office:annotation-end",
+  "text:tracked-changes",
+  "text:table-of-content",
+  "text:sequence-decls",
+  "draw:frame",
+  "office:forms",
+])
+
+/**
+ * Reads the paragraph styles from word/styles.xml
+ *
+ * @param xml - Styles part source
+ * @returns Map of style ID to style information
+ */
+function parseDocxStyles(xml: string | undefined): Map<string, DocxStyle> {
+  const styles = new Map<string, DocxStyle>()
+
+  if (!xml) {
+    return styles
+  }
+
+  for (const style of findAllElements(parseXml(xml), "w:style")) {
+    const styleId = style.attribs["w:styleId"]
+
+    if (!styleId || (style.attribs["w:type"] && style.attribs["w:type"] !== "paragraph")) {
+      continue
+    }
+
+    const outlineLevel = findElement(style, "w:outlineLvl")?.attribs["w:val"]
+
+    styles.set(styleId, {
+      name: findElement(style, "w:name")?.attribs["w:val"],
+      basedOn: findElement(style, "w:basedOn")?.attribs["w:val"],
+      outlineLevel: outlineLevel !== undefined ? Number.parseInt(outlineLevel, 10) : undefined,
+      numId: findElement(style, "w:numId")?.attribs["w:val"],
+    })
+  }
+
+  return styles
+}
+
+/**
+ * Reads which numbering definitions are ordered from word/numbering.xml
+ *
+ * @param xml - Numbering part source
+ * @returns Map of "numId:level" to whether the level is numbered rather than bulleted
+ */
+function parseDocxNumbering(xml: string | undefined): Map<string, boolean> {
+  const ordered = new Map<string, boolean>()
+
+  if (!xml) {
+    return ordered
+  }
+
+  const root = parseXml(xml)
+  const abstractLevels = new Map<string, Map<string, boolean>>()
+
+  for (const abstractNum of findAllElements(root, "w:abstractNum")) {
+    const levels = new Map<string, boolean>()
+
+    for (const level of findAllElements(abstractNum, "w:lvl")) {
+      const format = findElement(level, "w:numFmt")?.attribs["w:val"] || "bullet"
+      levels.set(level.attribs["w:ilvl"] || "0", format !== "bullet" && format !== "none")
+    }
+
+    abstractLevels.set(abstractNum.attribs["w:abstractNumId"], levels)
+  }
+
+  for (const num of findAllElements(root, "w:num")) {
+    const abstractId = findElement(num, "w:abstractNumId")?.attribs["w:val"]
+    const levels = abstractId !== undefined ? abstractLevels.get(abstractId) : undefined
+
+    levels?.forEach((isOrdered, level) => {
+      ordered.set(`${num.attribs["w:numId"]}:${level}`, isOrdered)
+    })
+  }
+
+  return ordered
+}
+
+/**
+ * Resolves the heading level of a paragraph style, following "based on" links
+ *
+ * @param styles - Paragraph styles
+ * @param styleId - Style to resolve
+ * @returns Heading level starting at 1, or undefined if the style is not a heading
+ */
+function getDocxHeadingLevel(styles: Map<string, DocxStyle>, styleId: string | undefined): number | undefined {
+  let currentId = styleId
+  const visited = new Set<string>()
+
+  while (currentId && !visited.has(currentId)) {
+    visited.add(currentId)
+    const style = styles.get(currentId)
+    const name = (style?.name || currentId).toLowerCase()
+
+    // Level 9 in Word means "body text"
+    if (style?.outlineLevel !== undefined && style.outlineLevel < 9) {
+      return style.outlineLevel + 1
+    }
+
+    const headingMatch = name.match(/^heading\s*(\d)$/)
+    if (headingMatch) {
+      return Number.parseInt(headingMatch[1], 10)
+    }
+
+    if (name === "title") {
+      return 1
+    }
+
+    currentId = style?.basedOn
+  }
+
+  return undefined
+}
+
+/**
+ * Collects the visible text of a DOCX paragraph or run container
+ *
+ * @param node - Node to collect text from
+ * @returns Text content
+ */
+function getDocxText(node: AnyNode): string {
+  // Text outside w:t elements is formatting whitespace
+  if (!isTag(node) || DOCX_SKIPPED_ELEMENTS.has(node.name)) {
+    return ""
+  }
+
+  switch (node.name) {
+    case "w:t":
+      return node.children.map((child) => (isText(child) ? child.data : "")).join("")
+    case "w:tab":
+      return "\t"
+    case "w:br":
+    case "w:cr":
+      return "\n"
+    case "w:noBreakHyphen":
+      return "-"
+    default:
+      return node.children.map(getDocxText).join("")
+  }
+}
+
+/**
+ * Converts a DOCX table into rows of cell text
+ *
+ * @param table - w:tbl element
+ * @returns Table rows
+ */
+function getDocxTableRows(table: Element): string[][] {
+  return childElements(table, "w:tr").map((row) => {
+    const cells: string[] = []
+
+    for (const cell of childElements(row, "w:tc")) {
+      const text = findAllElements(cell, "w:p").map(getDocxText).join(" ")
+      const span = Number.parseInt(findElement(cell, "w:gridSpan")?.attribs["w:val"] || "1", 10)
+
+      cells.push(text)
+      for (let i = 1; i < span; i++) {
+        cells.push("")
+      }
+    }
+
+    return cells
+  })
+}
+
+/**
+ * Converts a DOCX file to markdown
+ *
+ * @param data - Raw file bytes
+ * @returns Markdown text
+ * @throws Error if the file is not a valid DOCX package
+ */
+export function convertDocxToMarkdown(data: ArrayBuffer): string {
+  const parts = readZipEntries(data, ["word/document.xml", "word/styles.xml", "word/numbering.xml"])
+
+  if (!parts["word/document.xml"]) {
+    throw new Error("Missing word/document.xml; the file is not a Word document")
+  }
+
+  const styles = parseDocxStyles(parts["word/styles.xml"])
+  const numbering = parseDocxNumbering(parts["word/numbering.xml"])
+  const body = findElement(parseXml(parts["word/document.xml"]), "w:body")
+
+  const blocks: MarkdownBlock[] = []
+  const listCounters = new Map<string, number[]>()
+
+  const renderParagraph = (paragraph: Element) => {
+    const text = getDocxText(paragraph).trim()
+    if (!text) {
+      return
+    }
+
+    const properties = childElements(paragraph, "w:pPr")[0]
+    const styleId = properties ? findElement(properties, "w:pStyle")?.attribs["w:val"] : undefined
+    const outlineLevel = properties ? findElement(properties, "w:outlineLvl")?.attribs["w:val"] : undefined
+
+    const headingLevel =
+      outlineLevel !== undefined && Number.parseInt(outlineLevel, 10) < 9
+        ? Number.parseInt(outlineLevel, 10) + 1
+        : getDocxHeadingLevel(styles, styleId)
+
+    if (headingLevel !== undefined) {
+      blocks.push({ text: renderHeading(text, headingLevel) })
+      return
+    }
+
+    const numberingProperties = properties ? findElement(properties, "w:numPr") : undefined
+    const numId =
+      (numberingProperties && findElement(numberingProperties, "w:numId")?.attribs["w:val"]) ||
+      (styleId ? styles.get(styleId)?.numId : undefined)
+
+    // numId 0 explicitly removes numbering from a paragraph
+    if (numId && numId !== "0") {
+      const depth = Number.parseInt(
+        (numberingProperties && findElement(numberingProperties, "w:ilvl")?.attribs["w:val"]) || "0",
+        10,
+      )
+
+      let number: number | undefined
+      if (numbering.get(`${numId}:${depth}`)) {
+        const counters = listCounters.get(numId) || []
+        counters.length = depth + 1
+        counters[depth] = (counters[depth] || 0) + 1
+        listCounters.set(numId, counters)
+        number = counters[depth]
+      }
+
+      blocks.push({ text: renderListItem(text, depth, number), listItem: true })
+      return
+    }
+
+    blocks.push({ text: text.replace(/\t/g, " ") })
+  }
+
+  const renderContainer = (container: Element) => {
+    for (const element of childElements(container)) {
+      switch (element.name) {
+        case "w:p":
+          renderParagraph(element)
+          break
+        case "w:tbl":
+          blocks.push({ text: renderTable(getDocxTableRows(element)) })
+          break
+        case "w:sdt":
+        case "w:sdtContent":
+        case "w:customXml":
+          renderContainer(element)
+          break
+        default:
+          break
+      }
+    }
+  }
+
+  if (body) {
+    renderContainer(body)
+  }
+
+  return joinBlocks(blocks)
+}
+
+/**
+ * Reads which ODT list styles are numbered at each level
+ *
+ * @param roots - Parsed XML parts that may contain list styles
+ * @returns Map of "styleName:level" to whether the level is numbered
+ */
+function parseOdtListStyles(roots: AnyNode[]): Map<string, boolean> {
+  const ordered = new Map<string, boolean>()
+
+  for (const root of roots) {
+    for (const listStyle of findAllElements(root, "text:list-style")) {
+      const name = listStyle.attribs["style:name"]
+
+      for (const level of childElements(listStyle)) {
+        ordered.set(`${name}:${level.attribs["text:level"] || "1"}`, level.name === "text:list-level-style-number")
+      }
+    }
+  }
+
+  return ordered
+}
+
+/**
+ * Collects the visible text of an ODT paragraph or span
+ *
+ * @param node - Node to collect text from
+ * @returns Text content
+ */
+function getOdtText(node: AnyNode): string {
+  if (isText(node)) {
+    return node.data
+  }
+
+  if (!isTag(node) || ODT_SKIPPED_ELEMENTS.has(node.name)) {
+    return ""
+  }
+
+  switch (node.name) {
+    case "text:s":
+      return " ".repeat(Number.parseInt(node.attribs["text:c"] || "1", 10))
+    case "text:tab":
+      return "\t"
+    case "text:line-break":
+      return "\n"
+    default:
+      return node.children.map(getOdtText).join("")
+  }
+}
+
+/**
+ * Converts an ODT table into rows of cell text
+ *
+ * @param table - table:table element
+ * @returns Table rows
+ */
+function getOdtTableRows(table: Element): string[][] {
+  const rows: Element[] = []
+
+  // Rows can be grouped under header-rows, rows or row-group elements
+  const collectRows = (container: Element) => {
+    for (const element of childElements(container)) {
+      if (element.name === "table:table-row") {
+        rows.push(element)
+      } else if (element.name.startsWith("table:table-row") || element.name === "table:table-header-rows") {
+        collectRows(element)
+      }
+    }
+  }
+
+  collectRows(table)
+
+  return rows.map((row) => {
+    const cells: string[] = []
+
+    for (const cell of childElements(row)) {
+      if (cell.name !== "table:table-cell" && cell.name !== "table:covered-table-cell") {
+        continue
+      }
+
+      const text = childElements(cell)
+        .map((child) => (child.name === "table:table" ? "" : getOdtText(child)))
+        .join(" ")
+
+      // Empty cells are often repeated to the end of the row; only expand repeats that carry text
+      const repeat = text.trim() ? Number.parseInt(cell.attribs["table:number-columns-repeated"] || "1", 10) : 1
+
+      for (let i = 0; i < Math.min(repeat, 100); i++) {
+        cells.push(text)
+      }
+    }
+
+    return cells
+  })
+}
+
+/**
+ * Converts an ODT file to markdown
+ *
+ * @param data - Raw file bytes
+ * @returns Markdown text
+ * @throws Error if the file is not a valid OpenDocument package
+ */
+export function convertOdtToMarkdown(data: ArrayBuffer): string {
+  const parts = readZipEntries(data, ["content.xml", "styles.xml"])
+
+  if (!parts["content.xml"]) {
+    throw new Error("Missing content.xml; the file is not an OpenDocument file")
+  }
+
+  const content = parseXml(parts["content.xml"])
+  const listStyles = parseOdtListStyles(parts["styles.xml"] ? [content, parseXml(parts["styles.xml"])] : [content])
+  const body = findElement(content, "office:text")
+
+  const blocks: MarkdownBlock[] = []
+
+  const renderList = (list: Element, depth: number, inheritedStyle?: string) => {
+    const styleName = list.attribs["text:style-name"] || inheritedStyle
+    const isOrdered = styleName ? listStyles.get(`${styleName}:${depth + 1}`) : false
+    let number = 0
+
+    for (const item of childElements(list)) {
+      if (item.name !== "text:list-item" && item.name !== "text:list-header") {
+        continue
+      }
+
+      const paragraphs: string[] = []
+      const nestedLists: Element[] = []
+
+      for (const child of childElements(item)) {
+        if (child.name === "text:list") {
+          nestedLists.push(child)
+        } else if (child.name === "text:p" || child.name === "text:h") {
+          paragraphs.push(getOdtText(child))
+        }
+      }
+
+      const text = paragraphs.join(" ").trim()
+      if (text) {
+        number++
+        blocks.push({
+          text: renderListItem(text, depth, isOrdered ? number : undefined),
+          listItem: true,
+        })
+      }
+
+      for (const nestedList of nestedLists) {
+        renderList(nestedList, depth + 1, styleName)
+      }
+    }
+  }
+
+  const renderContainer = (container: Element) => {
+    for (const element of childElements(container)) {
+      switch (element.name) {
+        case "text:h": {
+          const text = getOdtText(element).trim()
+          if (text) {
+            blocks.push({
+              text: renderHeading(text, Number.parseInt(element.attribs["text:outline-level"] || "1", 10)),
+            })
+          }
+          break
+        }
+        case "text:p": {
+          const text = getOdtText(element).trim()
+          if (text) {
+            blocks.push({ text: text.replace(/\t/g, " ") })
+          }
+          break
+        }
+        case "text:list":
+          renderList(element, 0)
+          break
+        case "table:table":
+          blocks.push({ text: renderTable(getOdtTableRows(element)) })
+          break
+        case "text:section":
+          renderContainer(element)
+          break
+        default:
+          break
+      }
+    }
+  }
+
+  if (body) {
+    renderContainer(body)
+  }
+
+  return joinBlocks(blocks)
+}
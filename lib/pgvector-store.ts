@@ -0,0 +1,548 @@
+/**
+ * pgvector Store
+ *
+ * Vector store backend on Postgres with the pgvector extension, for deployments that keep all
+ * data in their own Supabase or Postgres database instead of sending it to Pinecone. Records live
+ * in the vector_records table (supabase/migrations), keyed by namespace and ID like Pinecone
+ * records, and behave like them: upserts replace the whole record, metadata filters use
+ * Pinecone's filter language and query errors are returned in the response rather than thrown.
+ *
+ * A store holds the embeddings of one dimension. Records also carry their dimension, so stores of
+ * different dimensions share the table the way separate Pinecone indexes share nothing, and each
+ * store creates the HNSW index for its dimension before its first write.
+ *
+ * Filtering, scoring and metadata merges run in SQL functions, so a query is one round trip and
+ * nothing is filtered in process. Queries score by cosine similarity scaled by the length of the
+ * query vector, as in the in-memory backend; sparse values re-rank the nearest dense candidates.
+ *
+ * Features:
+ * - Upserts, fetches and deletes by ID, metadata filter or namespace in batches
+ * - Similarity queries with metadata filters through an HNSW index, with an exact scan of the
+ *   namespace when filtering leaves the index short
+ * - Metadata-only listings that scan the namespace exactly, so they are never truncated
+ * - Queries by stored record ID and hybrid queries with sparse values
+ * - One store per embedding dimension, each with its own HNSW index
+ * - Namespace listing and index statistics
+ * - Server-side access with the service role key
+ * - Edge runtime compatible (no Node.js specific modules)
+ *
+ * Dependencies:
+ * - @/lib/supabase-client for the service role client
+ * - @/lib/embedding-config for vector dimensions
+ * - @/lib/utils/logger for structured logging
+ *
+ * @module lib/pgvector-store
+ */
+
+import type { PostgrestError, SupabaseClient } from "@supabase/supabase-js"
+import {
+  createPlaceholderVector,
+  isPlaceholderVector,
+  validateVectorDimension,
+  VECTOR_DIMENSION,
+} from "@/lib/embedding-config"
+import { getSupabaseServiceClient } from "@/lib/supabase-client"
+import { logger } from "@/lib/utils/logger"
+import type { Database, Json } from "@/types/supabase"
+import type {
+  VectorDeleteOptions,
+  VectorIndexStats,
+  VectorQueryMatch,
+  VectorQueryOptions,
+  VectorQueryResponse,
+  VectorRecord,
+  VectorStore,
+  VectorStoreHealth,
+} from "@/types/vector-store"
+
+type VectorRecordRow = Database["public"]["Tables"]["vector_records"]["Row"]
+
+// Largest topK Pinecone accepts
+const MAX_TOP_K = 10000
+
+// IDs per request for fetches and deletes, which send IDs in the URL
+const ID_BATCH_SIZE = 100
+
+// Postgres error code the filter functions raise for malformed filters
+const INVALID_FILTER_CODE = "22023"
+
+/**
+ * pgvector store error class
+ */
+export class PgVectorStoreError extends Error {
+  code: string
+  retryable: boolean
+  context?: Record<string, any>
+
+  constructor(
+    message: string,
+    options: {
+      code?: string
+      retryable?: boolean
+      context?: Record<string, any>
+    } = {},
+  ) {
+    super(message)
+    this.name = "PgVectorStoreError"
+    this.code = options.code || "pgvector_store_error"
+    this.retryable = options.retryable ?? false
+    this.context = options.context
+  }
+}
+
+/**
+ * Returns the service role Supabase client
+ *
+ * @returns Supabase client
+ * @throws PgVectorStoreError if Supabase is not configured
+ */
+function getClient(): SupabaseClient<Database> {
+  const client = getSupabaseServiceClient()
+
+  if (!client) {
+    throw new PgVectorStoreError("Supabase is not configured. Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY.", {
+      code: "store_not_configured",
+    })
+  }
+
+  return client
+}
+
+/**
+ * Converts a database error into a store error
+ * Connection failures, serialization failures and timeouts are worth retrying
+ *
+ * @param error - Error returned by Supabase
+ * @param operation - Operation that failed
+ * @param context - Identifiers for the log
+ * @returns Store error
+ */
+function toStoreError(error: PostgrestError, operation: string, context: Record<string, any> = {}): PgVectorStoreError {
+  const code = error.code || ""
+  const retryable = code === "" || code.startsWith("08") || code === "40001" || code === "57014"
+
+  logger.error(`${operation} failed`, { ...context, code, error: error.message, details: error.details })
+
+  return new PgVectorStoreError(`${operation} failed: ${error.message}`, {
+    code: code === INVALID_FILTER_CODE ? "invalid_filter" : "database_error",
+    retryable,
+    context: { ...context, postgresCode: code },
+  })
+}
+
+/**
+ * Splits a list into batches
+ *
+ * @param items - Items to split
+ * @param size - Batch size
+ * @returns Batches in order
+ */
+function toBatches<T>(items: T[], size: number): T[][] {
+  const batches: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    batches.push(items.slice(i, i + size))
+  }
+  return batches
+}
+
+/**
+ * Parses a vector column, which PostgREST returns in pgvector's text form
+ *
+ * @param embedding - Vector as text, e.g. "[0.1,0.2]"
+ * @returns Vector values
+ */
+function parseEmbedding(embedding: string | null): number[] {
+  return embedding ? JSON.parse(embedding) : []
+}
+
+/**
+ * Converts a row into a record
+ *
+ * @param row - Vector record row
+ * @returns Record, with empty values when the embedding was not read
+ */
+function toRecord(row: Partial<VectorRecordRow> & { id: string }): VectorRecord {
+  const sparse = row.sparse_values as { indices: number[]; values: number[] } | null | undefined
+
+  return {
+    id: row.id,
+    values: parseEmbedding(row.embedding ?? null),
+    ...(sparse && { sparseValues: sparse }),
+    metadata: (row.metadata || {}) as Record<string, any>,
+  }
+}
+
+/**
+ * Vector store backend on Postgres with pgvector
+ */
+export class PgVectorStore implements VectorStore {
+  readonly name = "pgvector"
+
+  // Dimension of the vectors the store accepts
+  readonly dimension: number
+
+  // Creation of the dimension's HNSW index, started by the first write
+  private indexReady: Promise<void> | null = null
+
+  /**
+   * @param options - Vector dimension, VECTOR_DIMENSION by default
+   */
+  constructor(options: { dimension?: number } = {}) {
+    this.dimension = options.dimension ?? VECTOR_DIMENSION
+  }
+
+  /**
+   * Creates the HNSW index for the store's dimension, once per store
+   *
+   * @throws PgVectorStoreError if the index cannot be created
+   */
+  private async ensureIndex(): Promise<void> {
+    if (!this.indexReady) {
+      this.indexReady = (async () => {
+        const { error } = await getClient().rpc("ensure_vector_dimension", { index_dimension: this.dimension })
+
+        if (error) {
+          throw toStoreError(error, "Create vector index", { dimension: this.dimension })
+        }
+      })()
+
+      // A failed attempt is made again by the next write
+      this.indexReady.catch(() => {
+        this.indexReady = null
+      })
+    }
+
+    return this.indexReady
+  }
+
+  /**
+   * Inserts or replaces records
+   * Records without an ID or with vectors of the wrong dimension are skipped, as in the Pinecone backend
+   *
+   * @param vectors - Records to store
+   * @param options - Namespace and batch size
+   * @returns Number of records stored
+   * @throws PgVectorStoreError if a batch fails
+   */
+  async upsertVectors(
+    vectors: VectorRecord[],
+    options: { namespace?: string; batchSize?: number } = {},
+  ): Promise<{ upsertedCount: number }> {
+    const namespace = options.namespace || ""
+    const updatedAt = new Date().toISOString()
+    const rows: Database["public"]["Tables"]["vector_records"]["Insert"][] = []
+
+    for (const vector of vectors) {
+      try {
+        if (!vector.id) {
+          throw new Error("Missing vector ID")
+        }
+        validateVectorDimension(vector.values, this.dimension)
+      } catch (error) {
+        logger.error("Rejecting invalid vector", {
+          vectorId: vector.id,
+          error: error instanceof Error ? error.message : "Unknown error",
+        })
+        continue
+      }
+
+      rows.push({
+        dimension: this.dimension,
+        namespace,
+        id: vector.id,
+        embedding: JSON.stringify(vector.values),
+        sparse_values: vector.sparseValues
+          ? { indices: vector.sparseValues.indices, values: vector.sparseValues.values }
+          : null,
+        metadata: (vector.metadata || {}) as Json,
+        updated_at: updatedAt,
+      })
+    }
+
+    let upsertedCount = 0
+
+    if (rows.length > 0) {
+      await this.ensureIndex()
+    }
+
+    for (const batch of toBatches(rows, options.batchSize || 100)) {
+      const { error } = await getClient()
+        .from("vector_records")
+        .upsert(batch, { onConflict: "dimension,namespace,id" })
+
+      if (error) {
+        throw toStoreError(error, "Upsert vectors", { namespace, batchSize: batch.length, upsertedCount })
+      }
+
+      upsertedCount += batch.length
+    }
+
+    logger.info(`Upserted ${upsertedCount} vectors`, { namespace: namespace || "default", backend: this.name })
+
+    return { upsertedCount }
+  }
+
+  /**
+   * Finds the records most similar to a vector, or to a stored record
+   *
+   * @param queryInput - Query vector or record ID
+   * @param options - Query options (topK, includeMetadata, includeValues, filter, namespace, sparseVector)
+   * @returns Matches, best first; errors are reported in the response
+   */
+  async queryVectors(queryInput: number[] | string, options: VectorQueryOptions = {}): Promise<VectorQueryResponse> {
+    const { topK = 10, includeMetadata = true, includeValues = false, filter, sparseVector } = options
+    const namespace = options.namespace || ""
+
+    try {
+      let vector: number[]
+
+      if (Array.isArray(queryInput)) {
+        try {
+          validateVectorDimension(queryInput, this.dimension)
+          vector = queryInput
+        } catch {
+          // Same fallback as the Pinecone backend, for metadata-only queries
+          vector = createPlaceholderVector(this.dimension)
+        }
+      } else {
+        const { vectors } = await this.fetchVectors([queryInput], { namespace, includeValues: true })
+        const stored = vectors[queryInput]
+        if (!stored) {
+          return { matches: [], namespace }
+        }
+        vector = stored.values
+      }
+
+      const { data, error } = await getClient().rpc("match_vector_records", {
+        query_embedding: JSON.stringify(vector),
+        match_count: Math.max(1, Math.min(topK, MAX_TOP_K)),
+        match_namespace: namespace,
+        filter: filter && Object.keys(filter).length > 0 ? (filter as Json) : null,
+        query_sparse: sparseVector ? { indices: sparseVector.indices, values: sparseVector.values } : null,
+        include_values: includeValues,
+        // Placeholder vectors list records by metadata, which must not stop at the nearest candidates
+        listing: isPlaceholderVector(vector),
+      })
+
+      if (error) {
+        logger.error("Query error:", { error: error.message, code: error.code, backend: this.name })
+
+        return {
+          matches: [],
+          error: true,
+          errorMessage: error.message,
+          status: error.code === INVALID_FILTER_CODE ? 400 : 500,
+        }
+      }
+
+      const matches: VectorQueryMatch[] = (data || []).map((row) => ({
+        id: row.id,
+        score: row.score,
+        ...(includeValues && { values: parseEmbedding(row.embedding) }),
+        ...(includeMetadata && { metadata: (row.metadata || {}) as Record<string, any> }),
+      }))
+
+      return { matches, namespace }
+    } catch (error) {
+      logger.error("Query exception:", {
+        error: error instanceof Error ? error.message : String(error),
+        backend: this.name,
+      })
+
+      return {
+        matches: [],
+        error: true,
+        errorMessage: error instanceof Error ? error.message : String(error),
+      }
+    }
+  }
+
+  /**
+   * Reads records by ID
+   *
+   * @param ids - Record IDs
+   * @param options - Namespace, and whether to include the values
+   * @returns Records found, by ID
+   * @throws PgVectorStoreError if a read fails
+   */
+  async fetchVectors(
+    ids: string[],
+    options: { namespace?: string; includeValues?: boolean } = {},
+  ): Promise<{ vectors: Record<string, VectorRecord> }> {
+    const namespace = options.namespace || ""
+    const vectors: Record<string, VectorRecord> = {}
+
+    for (const batch of toBatches(ids, ID_BATCH_SIZE)) {
+      const query = options.includeValues
+        ? getClient().from("vector_records").select("id, embedding, sparse_values, metadata")
+        : getClient().from("vector_records").select("id, sparse_values, metadata")
+      const { data, error } = await query.eq("dimension", this.dimension).eq("namespace", namespace).in("id", batch)
+
+      if (error) {
+        throw toStoreError(error, "Fetch vectors", { namespace, idCount: ids.length })
+      }
+
+      for (const row of data || []) {
+        vectors[row.id] = toRecord(row)
+      }
+    }
+
+    return { vectors }
+  }
+
+  /**
+   * Merges fields into the metadata of a stored record; missing records are left alone
+   *
+   * @param id - Record ID
+   * @param metadata - Metadata fields to set
+   * @param options - Namespace
+   * @throws PgVectorStoreError if the update fails
+   */
+  async updateVectorMetadata(
+    id: string,
+    metadata: Record<string, any>,
+    options: { namespace?: string } = {},
+  ): Promise<void> {
+    const namespace = options.namespace || ""
+    const { data, error } = await getClient().rpc("update_vector_metadata", {
+      record_dimension: this.dimension,
+      record_namespace: namespace,
+      record_id: id,
+      patch: metadata as Json,
+    })
+
+    if (error) {
+      throw toStoreError(error, "Update vector metadata", { vectorId: id, namespace })
+    }
+
+    if (!data) {
+      logger.warn("Metadata update for a missing vector ignored", { vectorId: id, backend: this.name })
+    }
+  }
+
+  /**
+   * Deletes records by ID, by metadata filter, or all records of a namespace
+   *
+   * @param options - IDs, filter or deleteAll, and the namespace
+   * @returns Number of records deleted
+   * @throws PgVectorStoreError if no records are selected or the delete fails
+   */
+  async deleteVectors(options: VectorDeleteOptions): Promise<{ deletedCount?: number }> {
+    const namespace = options.namespace || ""
+
+    if (!options.ids && !options.filter && !options.deleteAll) {
+      throw new PgVectorStoreError("Delete operation requires ids, filter, or deleteAll=true", {
+        code: "invalid_delete",
+      })
+    }
+
+    let deletedCount = 0
+
+    if (options.ids) {
+      for (const batch of toBatches(options.ids, ID_BATCH_SIZE)) {
+        const { count, error } = await getClient()
+          .from("vector_records")
+          .delete({ count: "exact" })
+          .eq("dimension", this.dimension)
+          .eq("namespace", namespace)
+          .in("id", batch)
+
+        if (error) {
+          throw toStoreError(error, "Delete vectors", { namespace, idCount: options.ids.length, deletedCount })
+        }
+
+        deletedCount += count || 0
+      }
+    } else if (options.filter) {
+      const { data, error } = await getClient().rpc("delete_vector_records", {
+        record_dimension: this.dimension,
+        record_namespace: namespace,
+        filter: options.filter as Json,
+      })
+
+      if (error) {
+        throw toStoreError(error, "Delete vectors by filter", { namespace, filter: options.filter })
+      }
+
+      deletedCount = data || 0
+    } else {
+      const { count, error } = await getClient()
+        .from("vector_records")
+        .delete({ count: "exact" })
+        .eq("dimension", this.dimension)
+        .eq("namespace", namespace)
+
+      if (error) {
+        throw toStoreError(error, "Delete namespace", { namespace })
+      }
+
+      deletedCount = count || 0
+    }
+
+    logger.info(`Deleted ${deletedCount} vectors`, { namespace: namespace || "default", backend: this.name })
+
+    return { deletedCount }
+  }
+
+  /**
+   * Lists the namespaces that hold records
+   *
+   * @returns Namespace names
+   * @throws PgVectorStoreError if the read fails
+   */
+  async listNamespaces(): Promise<string[]> {
+    const stats = await this.describeIndexStats()
+    return Object.keys(stats.namespaces)
+  }
+
+  /**
+   * Counts the records per namespace
+   *
+   * @returns Index statistics
+   * @throws PgVectorStoreError if the read fails
+   */
+  async describeIndexStats(): Promise<VectorIndexStats> {
+    const { data, error } = await getClient().rpc("vector_namespace_stats", { record_dimension: this.dimension })
+
+    if (error) {
+      throw toStoreError(error, "Describe index stats")
+    }
+
+    const namespaces: Record<string, { vectorCount: number }> = {}
+    let totalVectorCount = 0
+
+    for (const row of data || []) {
+      const vectorCount = Number(row.vector_count)
+      namespaces[row.namespace] = { vectorCount }
+      totalVectorCount += vectorCount
+    }
+
+    return { namespaces, dimension: this.dimension, indexFullness: 0, totalVectorCount }
+  }
+
+  /**
+   * Checks that the vector_records table can be read
+   *
+   * @returns Health check result
+   */
+  async healthCheck(): Promise<VectorStoreHealth> {
+    try {
+      const startTime = Date.now()
+      const { error } = await getClient().from("vector_records").select("id").limit(1)
+
+      if (error) {
+        logger.error("Health check failed", { error: error.message, code: error.code, backend: this.name })
+        return { healthy: false, error: `Health check failed: ${error.message}` }
+      }
+
+      return {
+        healthy: true,
+        details: { backend: this.name, dimension: this.dimension, latencyMs: Date.now() - startTime },
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      logger.error("Health check exception:", { error: errorMessage, backend: this.name })
+      return { healthy: false, error: `Health check exception: ${errorMessage}` }
+    }
+  }
+}
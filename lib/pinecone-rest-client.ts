@@ -14,16 +14,21 @@
  * - Detailed JSDoc comments for all exported functions
  * - Optimized for Pinecone Serverless indexes
  * - Compatible with 3072-dimension vectors from text-embedding-3-large
+ * - Sparse values for hybrid queries on dotproduct indexes
+ * - Pinecone backend of the vector store (see lib/vector-store)
+ * - Further indexes by host, for embedding models of another dimension
  *
  * Dependencies:
- * - @/lib/embedding-config for vector dimensions
+ * - @/lib/embedding-config for vector dimensions and placeholder vectors
  * - @/lib/utils/logger for structured logging
  *
  * @module lib/pinecone-rest-client
  */
 
-import { VECTOR_DIMENSION, EMBEDDING_MODEL } from "@/lib/embedding-config"
+import { VECTOR_DIMENSION, createPlaceholderVector } from "@/lib/embedding-config"
+import type { SparseValues } from "@/lib/sparse-encoder"
 import { logger } from "@/lib/utils/logger"
+import type { VectorStore } from "@/types/vector-store"
 
 // Custom error class for Pinecone operations
 export class PineconeError extends Error {
@@ -44,11 +49,13 @@ export class PineconeError extends Error {
 export interface PineconeVector {
   id: string
   values: number[]
+  sparseValues?: SparseValues
   metadata?: Record<string, any>
 }
 
 export interface PineconeQueryRequest {
   vector?: number[]
+  sparseVector?: SparseValues
   id?: string
   topK?: number
   includeMetadata?: boolean
@@ -127,17 +134,17 @@ const DEFAULT_RETRY_OPTIONS: RetryOptions = {
 // Singleton instance
 let apiKey: string | null = null
 let pineconeHost: string | null = null
-let defaultNamespace = ""
+const defaultNamespace = ""
 
 /**
  * Gets the Pinecone client configuration
  * Uses singleton pattern to avoid recreating the client on each request
  *
- * @param options - Optional configuration options
+ * @param options - Optional configuration options; host selects an index other than PINECONE_HOST
  * @returns Client configuration with API key and host
  * @throws PineconeError if environment variables are not configured correctly
  */
-export function getPineconeClient(options?: { namespace?: string }): PineconeClientConfig {
+export function getPineconeClient(options?: { namespace?: string; host?: string }): PineconeClientConfig {
   if (!apiKey) {
     apiKey = process.env.PINECONE_API_KEY
     if (!apiKey) {
@@ -171,21 +178,33 @@ export function getPineconeClient(options?: { namespace?: string }): PineconeCli
     logger.info(`Initialized Pinecone client with host: ${pineconeHost}`)
   }
 
-  // Set default namespace if provided
-  if (options?.namespace) {
-    defaultNamespace = options.namespace
+  // A namespace given for one call does not become the default for later calls, which would
+  // send another user's requests to it
+  return {
+    apiKey,
+    host: options?.host ? normalizeHost(options.host) : pineconeHost,
+    defaultNamespace: options?.namespace || defaultNamespace,
   }
+}
 
-  return { apiKey, host: pineconeHost, defaultNamespace }
+/**
+ * Adds the https scheme to a host given without one
+ *
+ * @param host - Index host
+ * @returns Host URL
+ */
+function normalizeHost(host: string): string {
+  return host.startsWith("https://") ? host : `https://${host}`
 }
 
 /**
  * Validates vector dimensions against the expected dimension
  *
  * @param vector - Vector to validate
+ * @param dimension - Dimension of the index, VECTOR_DIMENSION by default
  * @throws PineconeError if vector is invalid
  */
-export function validateVectorDimension(vector: number[]): void {
+export function validateVectorDimension(vector: number[], dimension: number = VECTOR_DIMENSION): void {
   if (!vector || !Array.isArray(vector)) {
     throw new PineconeError(`Invalid vector: expected array, got ${typeof vector}`, {
       retryable: false,
@@ -193,13 +212,13 @@ export function validateVectorDimension(vector: number[]): void {
     })
   }
 
-  if (vector.length !== VECTOR_DIMENSION) {
+  if (vector.length !== dimension) {
     throw new PineconeError(
-      `Vector dimension mismatch: Expected ${VECTOR_DIMENSION}, got ${vector.length}. ` +
-        `Make sure you're using the correct embedding model (${EMBEDDING_MODEL}).`,
+      `Vector dimension mismatch: Expected ${dimension}, got ${vector.length}. ` +
+        `Make sure you're using the embedding model of the index.`,
       {
         retryable: false,
-        context: { expectedDimension: VECTOR_DIMENSION, actualDimension: vector.length },
+        context: { expectedDimension: dimension, actualDimension: vector.length },
       },
     )
   }
@@ -312,30 +331,17 @@ async function handlePineconeResponse(response: Response, operationName: string)
   return await response.json()
 }
 
-/**
- * Creates a placeholder vector with small non-zero values
- * This prevents Pinecone from rejecting the vector for being all zeros
- *
- * @returns Non-zero vector with correct dimensions
- */
-export function createPlaceholderVector(): number[] {
-  // Create a vector with small random values instead of zeros
-  return Array(VECTOR_DIMENSION)
-    .fill(0)
-    .map(() => Math.random() * 0.001 + 0.0001) // Ensure values are never exactly zero
-}
-
 /**
  * Upsert vectors to Pinecone with batching and retry logic
  *
  * @param vectors - Array of vectors to insert/update
- * @param options - Optional parameters (namespace, batchSize)
+ * @param options - Optional parameters (namespace, batchSize, and host and dimension of another index)
  * @returns Upsert result with count
  * @throws PineconeError if operation fails
  */
 export async function upsertVectors(
   vectors: PineconeVector[],
-  options: { namespace?: string; batchSize?: number } = {},
+  options: { namespace?: string; batchSize?: number; host?: string; dimension?: number } = {},
 ): Promise<PineconeUpsertResponse> {
   const namespace = options.namespace || defaultNamespace
   const batchSize = options.batchSize || 100
@@ -347,7 +353,7 @@ export async function upsertVectors(
   })
 
   try {
-    const { apiKey, host } = getPineconeClient({ namespace })
+    const { apiKey, host } = getPineconeClient({ namespace, host: options.host })
 
     // Filter out invalid vectors
     const validVectors = vectors.filter((vector) => {
@@ -367,7 +373,7 @@ export async function upsertVectors(
 
       try {
         // Validate vector dimension
-        validateVectorDimension(vector.values)
+        validateVectorDimension(vector.values, options.dimension)
         return true
       } catch (error) {
         logger.error("Rejecting invalid vector", {
@@ -444,7 +450,7 @@ export async function upsertVectors(
  * Query vectors from Pinecone with retry logic
  *
  * @param queryInput - Query vector or vector ID
- * @param options - Query options (topK, includeMetadata, filter, namespace)
+ * @param options - Query options (topK, includeMetadata, filter, namespace, sparseVector, host, dimension)
  * @returns Query results
  * @throws PineconeError if operation fails
  */
@@ -456,9 +462,20 @@ export async function queryVectors(
     includeValues?: boolean
     filter?: Record<string, any>
     namespace?: string
+    sparseVector?: SparseValues
+    host?: string
+    dimension?: number
   } = {},
 ): Promise<PineconeQueryResponse> {
-  const { topK = 10, includeMetadata = true, includeValues = false, filter, namespace = defaultNamespace } = options
+  const {
+    topK = 10,
+    includeMetadata = true,
+    includeValues = false,
+    filter,
+    namespace = defaultNamespace,
+    sparseVector,
+    dimension,
+  } = options
 
   const isVectorQuery = Array.isArray(queryInput)
   const queryType = isVectorQuery ? "vector" : "id"
@@ -469,10 +486,11 @@ export async function queryVectors(
     namespace: namespace || "default",
     includeMetadata,
     includeValues,
+    sparseTerms: sparseVector?.indices.length || 0,
   })
 
   try {
-    const { apiKey, host } = getPineconeClient({ namespace })
+    const { apiKey, host } = getPineconeClient({ namespace, host: options.host })
 
     // Prepare query body based on input type
     const queryBody: PineconeQueryRequest = {
@@ -485,14 +503,14 @@ export async function queryVectors(
     if (isVectorQuery) {
       // Vector-based query
       try {
-        validateVectorDimension(queryInput as number[])
+        validateVectorDimension(queryInput as number[], dimension)
         queryBody.vector = queryInput as number[]
       } catch (error) {
         // If vector validation fails, use a placeholder vector for metadata-only queries
         logger.warn(
           `Vector validation failed, using placeholder vector: ${error instanceof Error ? error.message : String(error)}`,
         )
-        queryBody.vector = createPlaceholderVector()
+        queryBody.vector = createPlaceholderVector(dimension)
       }
     } else {
       // ID-based query
@@ -503,6 +521,10 @@ export async function queryVectors(
       queryBody.filter = filter
     }
 
+    if (isVectorQuery && sparseVector && sparseVector.indices.length > 0) {
+      queryBody.sparseVector = sparseVector
+    }
+
     return await withRetry(async () => {
       const response = await fetch(`${host}/query`, {
         method: "POST",
@@ -557,7 +579,7 @@ export async function queryVectors(
  * Fetch vectors by IDs from Pinecone
  *
  * @param ids - Array of vector IDs to fetch
- * @param options - Fetch options (namespace)
+ * @param options - Fetch options (namespace, includeValues, host)
  * @returns Vectors with metadata
  * @throws PineconeError if operation fails
  */
@@ -566,6 +588,7 @@ export async function fetchVectors(
   options: {
     namespace?: string
     includeValues?: boolean
+    host?: string
   } = {},
 ): Promise<{ vectors: Record<string, PineconeVector> }> {
   const { namespace = defaultNamespace, includeValues = false } = options
@@ -576,7 +599,7 @@ export async function fetchVectors(
   })
 
   try {
-    const { apiKey, host } = getPineconeClient({ namespace })
+    const { apiKey, host } = getPineconeClient({ namespace, host: options.host })
 
     // Ensure ids is an array before proceeding
     const safeIds = Array.isArray(ids) ? ids : []
@@ -622,10 +645,61 @@ export async function fetchVectors(
   }
 }
 
+/**
+ * Update the metadata of a stored vector without sending its values again
+ * Fields in the metadata are merged into the existing metadata
+ *
+ * @param id - Vector ID
+ * @param metadata - Metadata fields to set
+ * @param options - Update options (namespace, host)
+ * @throws PineconeError if operation fails
+ */
+export async function updateVectorMetadata(
+  id: string,
+  metadata: Record<string, any>,
+  options: { namespace?: string; host?: string } = {},
+): Promise<void> {
+  const namespace = options.namespace || defaultNamespace
+
+  try {
+    const { apiKey, host } = getPineconeClient({ namespace, host: options.host })
+
+    await withRetry(async () => {
+      const response = await fetch(`${host}/vectors/update`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Api-Key": apiKey,
+        },
+        body: JSON.stringify({ id, setMetadata: metadata, namespace }),
+      })
+
+      return handlePineconeResponse(response, "Update vector metadata")
+    })
+  } catch (error) {
+    if (error instanceof PineconeError) {
+      throw error
+    }
+
+    logger.error("Update vector metadata exception:", {
+      vectorId: id,
+      error: error instanceof Error ? error.message : String(error),
+    })
+
+    throw new PineconeError(
+      `Failed to update vector metadata: ${error instanceof Error ? error.message : String(error)}`,
+      {
+        retryable: false,
+        context: { vectorId: id, error: error instanceof Error ? error.message : String(error) },
+      },
+    )
+  }
+}
+
 /**
  * Delete vectors from Pinecone by IDs, filter, or delete all
  *
- * @param options - Delete options (ids, filter, deleteAll, namespace)
+ * @param options - Delete options (ids, filter, deleteAll, namespace, host)
  * @returns Delete result
  * @throws PineconeError if operation fails
  */
@@ -634,6 +708,7 @@ export async function deleteVectors(options: {
   filter?: Record<string, any>
   deleteAll?: boolean
   namespace?: string
+  host?: string
 }): Promise<PineconeDeleteResponse> {
   const { ids, filter, deleteAll = false, namespace = defaultNamespace } = options
 
@@ -662,7 +737,7 @@ export async function deleteVectors(options: {
   }
 
   try {
-    const { apiKey, host } = getPineconeClient({ namespace })
+    const { apiKey, host } = getPineconeClient({ namespace, host: options.host })
 
     // Prepare delete request
     const deleteRequest: PineconeDeleteRequest = { namespace }
@@ -722,14 +797,15 @@ export async function deleteVectors(options: {
 /**
  * List all namespaces in the index
  *
+ * @param options - Host of an index other than PINECONE_HOST
  * @returns List of namespaces
  * @throws PineconeError if operation fails
  */
-export async function listNamespaces(): Promise<string[]> {
+export async function listNamespaces(options: { host?: string } = {}): Promise<string[]> {
   logger.info(`Listing namespaces in Pinecone index`)
 
   try {
-    const { apiKey, host } = getPineconeClient()
+    const { apiKey, host } = getPineconeClient({ host: options.host })
 
     return await withRetry(async () => {
       const response = await fetch(`${host}/namespaces`, {
@@ -768,14 +844,17 @@ export async function listNamespaces(): Promise<string[]> {
 /**
  * Get index statistics including vector counts per namespace
  *
+ * @param options - Host of an index other than PINECONE_HOST
  * @returns Index statistics
  * @throws PineconeError if operation fails
  */
-export async function describeIndexStats(): Promise<PineconeDescribeIndexStatsResponse> {
+export async function describeIndexStats(
+  options: { host?: string } = {},
+): Promise<PineconeDescribeIndexStatsResponse> {
   logger.info(`Getting index statistics from Pinecone`)
 
   try {
-    const { apiKey, host } = getPineconeClient()
+    const { apiKey, host } = getPineconeClient({ host: options.host })
 
     return await withRetry(async () => {
       const response = await fetch(`${host}/describe_index_stats`, {
@@ -815,73 +894,23 @@ export async function describeIndexStats(): Promise<PineconeDescribeIndexStatsRe
   }
 }
 
-/**
- * Perform hybrid search combining vector similarity and metadata filtering
- *
- * @param query - Text query to search for
- * @param embeddingFn - Function to generate embedding from text
- * @param options - Search options (filter, topK, namespace)
- * @returns Search results
- */
-export async function hybridSearch(
-  query: string,
-  embeddingFn: (text: string) => Promise<number[]>,
-  options: {
-    filter?: Record<string, any>
-    topK?: number
-    namespace?: string
-    alpha?: number // Weight between 0 and 1 for vector vs. metadata (1 = vector only)
-  } = {},
-): Promise<PineconeQueryResponse> {
-  const { filter, topK = 10, namespace = defaultNamespace, alpha = 0.75 } = options
-
-  logger.info(`Performing hybrid search in Pinecone`, {
-    queryLength: query.length,
-    topK,
-    namespace: namespace || "default",
-    alpha,
-  })
-
-  try {
-    // Generate embedding for the query
-    const embedding = await embeddingFn(query)
-
-    // Perform vector search with metadata filter
-    return await queryVectors(embedding, {
-      topK,
-      includeMetadata: true,
-      filter,
-      namespace,
-    })
-  } catch (error) {
-    logger.error("Hybrid search exception:", {
-      error: error instanceof Error ? error.message : String(error),
-      stack: error instanceof Error ? error.stack : undefined,
-    })
-
-    // Return empty matches instead of throwing to provide fallback behavior
-    return {
-      matches: [],
-      error: true,
-      errorMessage: error instanceof Error ? error.message : String(error),
-    }
-  }
-}
-
 /**
  * Create a health check query to verify Pinecone connectivity
  *
+ * @param options - Host and dimension of an index other than PINECONE_HOST
  * @returns Health check result
  */
-export async function healthCheck(): Promise<{ healthy: boolean; error?: string; details?: any }> {
+export async function healthCheck(
+  options: { host?: string; dimension?: number } = {},
+): Promise<{ healthy: boolean; error?: string; details?: any }> {
   try {
-    const { apiKey, host } = getPineconeClient()
+    const { apiKey, host } = getPineconeClient({ host: options.host })
 
     // Log the host for debugging (safely)
     logger.info(`Performing health check with host: ${host}`)
 
     // Create a minimal vector for the health check
-    const dummyVector = createPlaceholderVector()
+    const dummyVector = createPlaceholderVector(options.dimension)
 
     // Make a minimal query to check connectivity
     const response = await fetch(`${host}/query`, {
@@ -944,3 +973,42 @@ export async function healthCheck(): Promise<{ healthy: boolean; error?: string;
     }
   }
 }
+
+/**
+ * Pinecone backend of the vector store
+ */
+export const pineconeVectorStore: VectorStore = {
+  name: "pinecone",
+  upsertVectors,
+  queryVectors,
+  fetchVectors,
+  updateVectorMetadata,
+  deleteVectors,
+  listNamespaces,
+  describeIndexStats,
+  healthCheck,
+}
+
+/**
+ * Creates a vector store backend for another Pinecone index, such as one built for an embedding
+ * model whose dimension the configured index cannot store
+ *
+ * @param options - Index host and vector dimension
+ * @returns Pinecone backend for that index
+ */
+export function createPineconeVectorStore(options: { host: string; dimension: number }): VectorStore {
+  const { host, dimension } = options
+
+  return {
+    name: "pinecone",
+    upsertVectors: (vectors, upsertOptions = {}) => upsertVectors(vectors, { ...upsertOptions, host, dimension }),
+    queryVectors: (queryInput, queryOptions = {}) => queryVectors(queryInput, { ...queryOptions, host, dimension }),
+    fetchVectors: (ids, fetchOptions = {}) => fetchVectors(ids, { ...fetchOptions, host }),
+    updateVectorMetadata: (id, metadata, updateOptions = {}) =>
+      updateVectorMetadata(id, metadata, { ...updateOptions, host }),
+    deleteVectors: (deleteOptions) => deleteVectors({ ...deleteOptions, host }),
+    listNamespaces: () => listNamespaces({ host }),
+    describeIndexStats: () => describeIndexStats({ host }),
+    healthCheck: () => healthCheck({ host, dimension }),
+  }
+}
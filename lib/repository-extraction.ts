@@ -0,0 +1,300 @@
+/**
+ * Repository Extraction
+ *
+ * Reads a zip archive of a source repository into the text files worth indexing.
+ * Files matched by the repository's .gitignore, vendored dependencies, build output
+ * and binaries are skipped and reported.
+ *
+ * Features:
+ * - Nested .gitignore support
+ * - Vendored and generated path detection (node_modules, vendor, dist, lockfiles, minified files)
+ * - Binary detection by extension and NUL bytes
+ * - Per-file size, file count and total uncompressed size limits, applied before decompression
+ * - Single top-level folder (as in GitHub archive downloads) stripped from paths
+ * - Edge Runtime compatible (no Node.js specific modules)
+ *
+ * Dependencies:
+ * - fflate for reading the zip archive
+ * - @/lib/code-chunking for language detection
+ * - @/lib/utils/gitignore-utils for .gitignore matching
+ *
+ * @module lib/repository-extraction
+ */
+
+import { unzipSync } from "fflate"
+import { detectCodeLanguage } from "@/lib/code-chunking"
+import { createGitignoreMatcher } from "@/lib/utils/gitignore-utils"
+
+/**
+ * A text file read from a repository archive
+ */
+export interface RepositoryFile {
+  path: string
+  language: string | null
+  content: string
+}
+
+/**
+ * A file left out of the index, with the reason
+ */
+export interface SkippedRepositoryFile {
+  path: string
+  reason: "gitignored" | "vendored" | "binary" | "too_large" | "limit_reached"
+}
+
+/**
+ * Result of reading a repository archive
+ */
+export interface RepositoryContents {
+  files: RepositoryFile[]
+  skipped: SkippedRepositoryFile[]
+}
+
+// Files larger than this are almost always generated or data files
+const MAX_FILE_SIZE = 512 * 1024
+
+// Upper bound on files indexed from one archive
+const MAX_FILES = 2000
+
+// Upper bound on the uncompressed size of the files indexed from one archive, against zip bombs
+const MAX_TOTAL_SIZE = 100 * 1024 * 1024
+
+// Directories holding dependencies, build output or tooling state
+const VENDORED_DIRECTORIES = new Set([
+  "node_modules",
+  "bower_components",
+  "jspm_packages",
+  "vendor",
+  "third_party",
+  "third-party",
+  "external",
+  "Pods",
+  "Carthage",
+  ".git",
+  ".hg",
+  ".svn",
+  ".idea",
+  ".vscode",
+  ".next",
+  ".nuxt",
+  ".turbo",
+  ".yarn",
+  ".venv",
+  "venv",
+  "__pycache__",
+  ".pytest_cache",
+  ".mypy_cache",
+  ".gradle",
+  "dist",
+  "build",
+  "out",
+  "target",
+  "coverage",
+  "__MACOSX",
+])
+
+// Lockfiles and other generated files kept out of the index
+const VENDORED_FILE_PATTERN =
+  /(^|\/)(package-lock\.json|pnpm-lock\.yaml|yarn\.lock|Cargo\.lock|poetry\.lock|Pipfile\.lock|composer\.lock|Gemfile\.lock|go\.sum)$|\.min\.(js|css)$|\.map$|\.(pb|generated)\.\w+$/
+
+// Extensions that are binary regardless of content
+const BINARY_EXTENSIONS = new Set([
+  ".png",
+  ".jpg",
+  ".jpeg",
+  ".gif",
+  ".bmp",
+  ".ico",
+  ".webp",
+  ".tiff",
+  ".psd",
+  ".pdf",
+  ".zip",
+  ".gz",
+  ".tgz",
+  ".bz2",
+  ".xz",
+  ".7z",
+  ".rar",
+  ".jar",
+  ".war",
+  ".class",
+  ".exe",
+  ".dll",
+  ".so",
+  ".dylib",
+  ".o",
+  ".a",
+  ".lib",
+  ".obj",
+  ".pyc",
+  ".pyo",
+  ".wasm",
+  ".woff",
+  ".woff2",
+  ".ttf",
+  ".otf",
+  ".eot",
+  ".mp3",
+  ".mp4",
+  ".mov",
+  ".avi",
+  ".wav",
+  ".ogg",
+  ".sqlite",
+  ".db",
+  ".bin",
+  ".dat",
+])
+
+// Bytes inspected when sniffing for binary content, as git does
+const BINARY_SNIFF_LENGTH = 8000
+
+/**
+ * Finds the single top-level folder shared by every entry, if there is one
+ *
+ * @param names - Archive entry names
+ * @returns Prefix to strip, including the trailing slash, or an empty string
+ */
+function getCommonRootPrefix(names: string[]): string {
+  const roots = new Set(names.map((name) => name.split("/")[0]))
+
+  if (roots.size !== 1 || !names.every((name) => name.includes("/"))) {
+    return ""
+  }
+
+  return `${Array.from(roots)[0]}/`
+}
+
+/**
+ * Checks whether a path is vendored or generated
+ *
+ * @param path - Repository-relative path
+ * @returns True if the path should be skipped
+ */
+function isVendoredPath(path: string): boolean {
+  const directories = path.split("/").slice(0, -1)
+  return directories.some((directory) => VENDORED_DIRECTORIES.has(directory)) || VENDORED_FILE_PATTERN.test(path)
+}
+
+/**
+ * Checks whether a path has a known binary extension
+ *
+ * @param path - Repository-relative path
+ * @returns True if the file is binary
+ */
+function hasBinaryExtension(path: string): boolean {
+  const name = path.split("/").pop() || ""
+  const dot = name.lastIndexOf(".")
+  return dot > 0 && BINARY_EXTENSIONS.has(name.slice(dot).toLowerCase())
+}
+
+/**
+ * Checks file content for NUL bytes
+ *
+ * @param bytes - File content
+ * @returns True if the content looks binary
+ */
+function hasBinaryContent(bytes: Uint8Array): boolean {
+  const length = Math.min(bytes.length, BINARY_SNIFF_LENGTH)
+
+  for (let i = 0; i < length; i++) {
+    if (bytes[i] === 0) {
+      return true
+    }
+  }
+
+  return false
+}
+
+/**
+ * Reads the indexable text files of a repository archive
+ * Every limit is applied from the central directory, so only the files that are indexed get decompressed
+ *
+ * @param data - Raw zip bytes
+ * @returns Files to index and files that were skipped
+ * @throws Error if the archive cannot be read
+ */
+export function readRepositoryArchive(data: ArrayBuffer): RepositoryContents {
+  const archive = new Uint8Array(data)
+  const skipped: SkippedRepositoryFile[] = []
+
+  // List entries first; the filter reads the central directory without decompressing anything
+  const sizes: Record<string, number> = {}
+  unzipSync(archive, {
+    filter: (file) => {
+      if (!file.name.endsWith("/")) {
+        sizes[file.name] = file.originalSize
+      }
+      return false
+    },
+  })
+
+  const allNames = Object.keys(sizes).sort()
+  const prefix = getCommonRootPrefix(allNames)
+  const stripPrefix = (name: string) => (prefix && name.startsWith(prefix) ? name.slice(prefix.length) : name)
+  const decoder = new TextDecoder("utf-8")
+
+  // .gitignore files decide what else is read, so they are decompressed on their own
+  const gitignoreEntries = unzipSync(archive, {
+    filter: (file) =>
+      (file.name === ".gitignore" || file.name.endsWith("/.gitignore")) && file.originalSize <= MAX_FILE_SIZE,
+  })
+  const gitignoreFiles: Record<string, string> = {}
+  for (const name of Object.keys(gitignoreEntries)) {
+    gitignoreFiles[stripPrefix(name)] = decoder.decode(gitignoreEntries[name])
+  }
+
+  const isIgnored = createGitignoreMatcher(gitignoreFiles)
+  const accepted = new Set<string>()
+  let acceptedSize = 0
+
+  // Skip vendored, binary, oversized and ignored entries, and stop at the limits, before anything is decompressed
+  for (const name of allNames) {
+    const path = stripPrefix(name)
+    const size = sizes[name]
+
+    if (isVendoredPath(path)) {
+      skipped.push({ path, reason: "vendored" })
+    } else if (hasBinaryExtension(path)) {
+      skipped.push({ path, reason: "binary" })
+    } else if (size > MAX_FILE_SIZE) {
+      skipped.push({ path, reason: "too_large" })
+    } else if (isIgnored(path)) {
+      skipped.push({ path, reason: "gitignored" })
+    } else if (accepted.size >= MAX_FILES || acceptedSize + size > MAX_TOTAL_SIZE) {
+      skipped.push({ path, reason: "limit_reached" })
+    } else {
+      accepted.add(name)
+      acceptedSize += size
+    }
+  }
+
+  const entries = unzipSync(archive, { filter: (file) => accepted.has(file.name) })
+  const files: RepositoryFile[] = []
+
+  for (const name of allNames) {
+    const bytes = entries[name]
+    if (!bytes) {
+      continue
+    }
+
+    const path = stripPrefix(name)
+
+    if (hasBinaryContent(bytes)) {
+      skipped.push({ path, reason: "binary" })
+    } else {
+      const content = decoder.decode(bytes)
+
+      if (content.trim()) {
+        files.push({
+          path,
+          language: detectCodeLanguage(path),
+          content,
+        })
+      }
+    }
+  }
+
+  return { files, skipped }
+}
@@ -0,0 +1,231 @@
+/**
+ * Sparse Encoder
+ *
+ * BM25-style sparse vectors for the keyword half of hybrid search, and the tokenizer shared with
+ * the keyword index. Chunks are encoded with
+ * BM25's saturated term frequency and length normalisation; queries are encoded with a weight
+ * per term. Terms are hashed into the 32-bit index space Pinecone uses for sparse values, so no
+ * vocabulary has to be stored.
+ *
+ * Pinecone keeps no term statistics, so BM25's inverse document frequency is approximated on
+ * the query side: stopwords are dropped and identifier-like terms (part numbers, error codes,
+ * file names) weigh more than plain words, since they are rare by nature.
+ *
+ * Features:
+ * - Tokenizer that keeps identifiers such as "AB-1234" or "v2.1.0" whole, next to their parts
+ * - BM25 term frequency saturation (k1) and length normalisation (b) for chunks
+ * - Query weights normalised to sum to 1
+ * - Convex combination of dense and sparse query vectors for a given alpha
+ * - Edge runtime compatible (no Node.js specific modules)
+ *
+ * @module lib/sparse-encoder
+ */
+
+// BM25 term frequency saturation and length normalisation
+const BM25_K1 = 1.2
+const BM25_B = 0.75
+
+// Average chunk length in tokens, for length normalisation; chunks are about 1000 characters
+const AVG_CHUNK_TOKENS = 160
+
+// Query weight of identifier-like terms relative to plain words
+const IDENTIFIER_WEIGHT = 3
+
+// Smallest weight of the dense query vector; Pinecone rejects a dense vector of zeros
+const MIN_DENSE_WEIGHT = 0.001
+
+// Tokens longer than this are hashes or encoded data rather than searchable terms
+const MAX_TOKEN_LENGTH = 64
+
+// Words and numbers, optionally joined by - _ . / into one identifier
+const TOKEN_PATTERN = /[\p{L}\p{N}]+(?:[-_./][\p{L}\p{N}]+)*/gu
+
+const STOPWORDS = new Set(
+  `a about an and are as at be been but by can do does for from had has have how i if in into is it its
+  me my no not of on or our so than that the their them then there these they this to was we were what
+  when where which who why will with you your`.split(/\s+/),
+)
+
+/**
+ * Sparse vector in Pinecone's format
+ */
+export interface SparseValues {
+  indices: number[]
+  values: number[]
+}
+
+/**
+ * Search term and the position of the word it came from
+ */
+export interface Token {
+  term: string
+  position: number
+}
+
+/**
+ * Splits text into search terms with their word positions
+ * Identifiers are kept whole and also split into their parts, so "AB-1234" matches both
+ * "AB-1234" and "1234"; the parts share the identifier's position. Stopwords are dropped but
+ * keep their positions, so phrases with stopwords in them still line up.
+ *
+ * @param text - Text to tokenize
+ * @returns Lowercase terms without stopwords, in order, with repeats
+ */
+export function tokenizeWithPositions(text: string): Token[] {
+  const tokens: Token[] = []
+  const words = text.toLowerCase().match(TOKEN_PATTERN) || []
+
+  words.forEach((match, position) => {
+    if (match.length > MAX_TOKEN_LENGTH) {
+      return
+    }
+
+    if (!STOPWORDS.has(match)) {
+      tokens.push({ term: match, position })
+    }
+
+    if (/[-_./]/.test(match)) {
+      for (const part of match.split(/[-_./]+/)) {
+        if (part && !STOPWORDS.has(part)) {
+          tokens.push({ term: part, position })
+        }
+      }
+    }
+  })
+
+  return tokens
+}
+
+/**
+ * Splits text into search terms
+ *
+ * @param text - Text to tokenize
+ * @returns Lowercase terms without stopwords, in order, with repeats
+ */
+export function tokenize(text: string): string[] {
+  return tokenizeWithPositions(text).map((token) => token.term)
+}
+
+/**
+ * BM25 weight of a term's frequency in a chunk
+ *
+ * @param frequency - Occurrences of the term in the chunk
+ * @param length - Number of terms in the chunk
+ * @returns Saturated, length-normalised term frequency
+ */
+export function bm25TermFrequency(frequency: number, length: number): number {
+  const lengthNorm = 1 - BM25_B + BM25_B * (length / AVG_CHUNK_TOKENS)
+  return (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * lengthNorm)
+}
+
+/**
+ * Whether a term looks like an identifier rather than a word
+ *
+ * @param term - Lowercase term
+ * @returns True for terms with digits or joined parts
+ */
+function isIdentifier(term: string): boolean {
+  return /\p{N}/u.test(term) || /[-_./]/.test(term)
+}
+
+/**
+ * Hashes a term into Pinecone's sparse index space (FNV-1a, 32 bit)
+ *
+ * @param term - Term to hash
+ * @returns Unsigned 32-bit index
+ */
+export function hashTerm(term: string): number {
+  let hash = 0x811c9dc5
+
+  for (let i = 0; i < term.length; i++) {
+    hash ^= term.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+
+  return hash >>> 0
+}
+
+/**
+ * Builds a sparse vector from weights by term, merging terms that hash to the same index
+ *
+ * @param weights - Weight by term
+ * @returns Sparse vector with indices in ascending order
+ */
+function toSparseValues(weights: Map<string, number>): SparseValues {
+  const byIndex = new Map<number, number>()
+
+  weights.forEach((weight, term) => {
+    const index = hashTerm(term)
+    byIndex.set(index, (byIndex.get(index) || 0) + weight)
+  })
+
+  const indices = Array.from(byIndex.keys()).sort((a, b) => a - b)
+
+  return { indices, values: indices.map((index) => byIndex.get(index) as number) }
+}
+
+/**
+ * Encodes a chunk for storage, with BM25's saturated and length-normalised term frequencies
+ *
+ * @param text - Chunk text
+ * @returns Sparse vector, empty if the text has no search terms
+ */
+export function encodeSparseDocument(text: string): SparseValues {
+  const terms = tokenize(text)
+  const frequencies = new Map<string, number>()
+
+  for (const term of terms) {
+    frequencies.set(term, (frequencies.get(term) || 0) + 1)
+  }
+
+  const weights = new Map<string, number>()
+
+  frequencies.forEach((frequency, term) => {
+    weights.set(term, bm25TermFrequency(frequency, terms.length))
+  })
+
+  return toSparseValues(weights)
+}
+
+/**
+ * Encodes a search query, with weights that stand in for inverse document frequency
+ *
+ * @param query - Search query
+ * @returns Sparse vector with values summing to 1, empty if the query has no search terms
+ */
+export function encodeSparseQuery(query: string): SparseValues {
+  const weights = new Map<string, number>()
+
+  for (const term of tokenize(query)) {
+    weights.set(term, isIdentifier(term) ? IDENTIFIER_WEIGHT : 1)
+  }
+
+  const total = Array.from(weights.values()).reduce((sum, weight) => sum + weight, 0)
+  weights.forEach((weight, term) => weights.set(term, weight / total))
+
+  return toSparseValues(weights)
+}
+
+/**
+ * Weights a dense and a sparse query vector against each other
+ * With a dotproduct index the score becomes alpha * dense score + (1 - alpha) * sparse score
+ *
+ * @param dense - Dense query vector
+ * @param sparse - Sparse query vector
+ * @param alpha - Weight of the dense vector between 0 (keywords only) and 1 (semantic only);
+ * at 0 the dense vector keeps a tiny weight since Pinecone requires a non-zero one
+ * @returns Scaled dense and sparse vectors
+ */
+export function weightHybridQuery(
+  dense: number[],
+  sparse: SparseValues,
+  alpha: number,
+): { dense: number[]; sparse: SparseValues } {
+  const weight = Math.min(1, Math.max(0, alpha))
+  const denseWeight = Math.max(weight, MIN_DENSE_WEIGHT)
+
+  return {
+    dense: dense.map((value) => value * denseWeight),
+    sparse: { indices: sparse.indices, values: sparse.values.map((value) => value * (1 - weight)) },
+  }
+}
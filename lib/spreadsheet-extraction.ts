@@ -0,0 +1,376 @@
+/**
+ * Spreadsheet Extraction
+ *
+ * Reads CSV/TSV files and XLSX workbooks into tables of rows so the chunker can keep
+ * whole rows together and repeat the column header in every chunk.
+ *
+ * Features:
+ * - RFC 4180 CSV parsing with quoted fields, escaped quotes and embedded newlines
+ * - Delimiter detection (comma, semicolon, tab, pipe)
+ * - XLSX shared strings, inline strings, booleans and formula results
+ * - Date cells converted from Excel serial numbers using the cell number format
+ * - Source row numbers kept so results can cite "Sheet2 rows 40–60"
+ * - Edge Runtime compatible (no Node.js specific modules)
+ *
+ * Dependencies:
+ * - @/lib/utils/xml-utils for reading the workbook package
+ * - @/lib/chunking-utils for table row types
+ *
+ * @module lib/spreadsheet-extraction
+ */
+
+import { type AnyNode, type Element, isTag, isText } from "domhandler"
+import type { TableRow } from "@/lib/chunking-utils"
+import { childElements, findAllElements, findElement, parseXml, readZipEntries } from "@/lib/utils/xml-utils"
+
+/**
+ * A table read from a CSV file or a workbook sheet
+ */
+export interface SheetTable {
+  name?: string
+  header: string[]
+  rows: TableRow[]
+}
+
+// Delimiters tried when sniffing a CSV file
+const CSV_DELIMITERS = [",", ";", "\t", "|"]
+
+// Built-in Excel number formats that display dates or times
+const BUILTIN_DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 30, 36, 45, 46, 47, 50, 57])
+
+// Milliseconds per day, for converting Excel serial dates
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+/**
+ * Picks the delimiter that splits the first line into the most columns
+ *
+ * @param text - CSV source
+ * @returns Delimiter character
+ */
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n/) === -1 ? text.length : text.search(/\r?\n/))
+
+  let best = ","
+  let bestCount = 0
+
+  for (const delimiter of CSV_DELIMITERS) {
+    // Ignore delimiters inside quoted fields
+    const count = firstLine.replace(/"[^"]*"/g, "").split(delimiter).length - 1
+    if (count > bestCount) {
+      best = delimiter
+      bestCount = count
+    }
+  }
+
+  return best
+}
+
+/**
+ * Parses CSV text into records
+ *
+ * @param text - CSV source
+ * @param delimiter - Field delimiter, detected from the first line if omitted
+ * @returns Records as arrays of field values
+ */
+export function parseCsv(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ""
+  let inQuotes = false
+
+  // Strip the UTF-8 byte order mark that spreadsheet exports often add
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (source[i + 1] === '"') {
+          field += '"'
+          i++
+        } else {
+          inQuotes = false
+        }
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"' && field === "") {
+      inQuotes = true
+    } else if (char === delimiter) {
+      record.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") {
+        i++
+      }
+      record.push(field)
+      records.push(record)
+      record = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+
+  // Add the last record if the file does not end with a newline
+  if (field !== "" || record.length > 0) {
+    record.push(field)
+    records.push(record)
+  }
+
+  return records
+}
+
+/**
+ * Builds a table from records, using the first non-empty record as the header
+ *
+ * @param records - Records in source order, with 1-based row numbers
+ * @param name - Optional table name
+ * @returns Table, or null if there are no data rows
+ */
+function buildTable(records: TableRow[], name?: string): SheetTable | null {
+  const nonEmpty = records.filter((record) => record.cells.some((cell) => cell.trim() !== ""))
+
+  if (nonEmpty.length < 2) {
+    return null
+  }
+
+  const [headerRow, ...rows] = nonEmpty
+
+  return {
+    ...(name && { name }),
+    header: headerRow.cells.map((cell) => cell.trim()),
+    rows: rows.map((row) => ({
+      rowNumber: row.rowNumber,
+      cells: row.cells.map((cell) => cell.trim()),
+    })),
+  }
+}
+
+/**
+ * Reads a CSV or TSV file as a table
+ *
+ * @param data - Raw file bytes
+ * @returns Tables found in the file (at most one)
+ */
+export function convertCsvToTables(data: ArrayBuffer): SheetTable[] {
+  const text = new TextDecoder("utf-8").decode(data)
+  const records = parseCsv(text).map((cells, index) => ({ rowNumber: index + 1, cells }))
+  const table = buildTable(records)
+
+  return table ? [table] : []
+}
+
+/**
+ * Collects text from t elements, skipping phonetic runs
+ *
+ * @param node - Node to collect text from
+ * @returns Text content
+ */
+function getXlsxText(node: AnyNode): string {
+  if (isText(node)) {
+    return node.data
+  }
+
+  if (!isTag(node) || node.name === "rPh") {
+    return ""
+  }
+
+  return node.children.map(getXlsxText).join("")
+}
+
+/**
+ * Converts a column reference such as "AB" to a 0-based index
+ *
+ * @param reference - Cell reference, e.g. "AB12"
+ * @returns Column index
+ */
+function getColumnIndex(reference: string): number {
+  const letters = reference.replace(/[^A-Z]/gi, "").toUpperCase()
+  let index = 0
+
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64)
+  }
+
+  return index - 1
+}
+
+/**
+ * Finds which cell styles display dates
+ *
+ * @param xml - Styles part source
+ * @returns Set of cell style indexes that use a date format
+ */
+function parseDateStyles(xml: string | undefined): Set<number> {
+  const dateStyles = new Set<number>()
+
+  if (!xml) {
+    return dateStyles
+  }
+
+  const root = parseXml(xml)
+  const customDateFormats = new Set<number>()
+
+  for (const format of findAllElements(root, "numFmt")) {
+    // Strip quoted literals and colour/locale blocks before looking for date tokens
+    const code = (format.attribs.formatCode || "").replace(/"[^"]*"|\[[^\]]*\]/g, "")
+    if (/[dmyhs]/i.test(code)) {
+      customDateFormats.add(Number.parseInt(format.attribs.numFmtId, 10))
+    }
+  }
+
+  const cellFormats = findElement(root, "cellXfs")
+  if (cellFormats) {
+    childElements(cellFormats, "xf").forEach((xf, index) => {
+      const formatId = Number.parseInt(xf.attribs.numFmtId || "0", 10)
+      if (BUILTIN_DATE_FORMAT_IDS.has(formatId) || customDateFormats.has(formatId)) {
+        dateStyles.add(index)
+      }
+    })
+  }
+
+  return dateStyles
+}
+
+/**
+ * Formats an Excel serial date as an ISO date, adding the time when present
+ *
+ * @param serial - Days since the workbook epoch
+ * @param uses1904 - Whether the workbook uses the 1904 date system
+ * @returns Formatted date
+ */
+function formatSerialDate(serial: number, uses1904: boolean): string {
+  // Excel's 1900 epoch is offset to 1899-12-30 to account for its 1900 leap year bug
+  const epoch = uses1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30)
+  const date = new Date(epoch + Math.round(serial * MS_PER_DAY))
+  const iso = date.toISOString()
+
+  return Number.isInteger(serial) ? iso.slice(0, 10) : `${iso.slice(0, 10)} ${iso.slice(11, 16)}`
+}
+
+/**
+ * Reads the value of a worksheet cell as display text
+ *
+ * @param cell - c element
+ * @param sharedStrings - Workbook shared string table
+ * @param dateStyles - Cell style indexes that display dates
+ * @param uses1904 - Whether the workbook uses the 1904 date system
+ * @returns Cell text
+ */
+function getCellValue(cell: Element, sharedStrings: string[], dateStyles: Set<number>, uses1904: boolean): string {
+  const type = cell.attribs.t
+  const valueElement = childElements(cell, "v")[0]
+  const value = valueElement ? getXlsxText(valueElement) : ""
+
+  switch (type) {
+    case "s":
+      return sharedStrings[Number.parseInt(value, 10)] ?? ""
+    case "inlineStr": {
+      const inline = childElements(cell, "is")[0]
+      return inline ? getXlsxText(inline) : ""
+    }
+    case "b":
+      return value === "1" ? "TRUE" : "FALSE"
+    case "str":
+    case "e":
+      return value
+    default: {
+      const style = Number.parseInt(cell.attribs.s || "-1", 10)
+      const number = Number.parseFloat(value)
+
+      if (value !== "" && dateStyles.has(style) && Number.isFinite(number)) {
+        return formatSerialDate(number, uses1904)
+      }
+
+      return value
+    }
+  }
+}
+
+/**
+ * Resolves a relationship target to a package path
+ *
+ * @param target - Target from workbook.xml.rels
+ * @returns Path within the zip container
+ */
+function resolveWorkbookTarget(target: string): string {
+  return target.startsWith("/") ? target.slice(1) : `xl/${target.replace(/^\.\//, "")}`
+}
+
+/**
+ * Reads the visible sheets of an XLSX workbook as tables
+ *
+ * @param data - Raw file bytes
+ * @returns One table per sheet that has a header and at least one data row
+ * @throws Error if the file is not a valid XLSX package
+ */
+export function convertXlsxToTables(data: ArrayBuffer): SheetTable[] {
+  const parts = readZipEntries(
+    data,
+    (name) => name.startsWith("xl/") && (name.endsWith(".xml") || name.endsWith(".rels")),
+  )
+
+  if (!parts["xl/workbook.xml"]) {
+    throw new Error("Missing xl/workbook.xml; the file is not an Excel workbook")
+  }
+
+  const workbook = parseXml(parts["xl/workbook.xml"])
+  const uses1904 = ["1", "true"].includes(findElement(workbook, "workbookPr")?.attribs.date1904 || "")
+
+  const targets = new Map<string, string>()
+  if (parts["xl/_rels/workbook.xml.rels"]) {
+    for (const relationship of findAllElements(parseXml(parts["xl/_rels/workbook.xml.rels"]), "Relationship")) {
+      targets.set(relationship.attribs.Id, resolveWorkbookTarget(relationship.attribs.Target || ""))
+    }
+  }
+
+  const sharedStrings = parts["xl/sharedStrings.xml"]
+    ? findAllElements(parseXml(parts["xl/sharedStrings.xml"]), "si").map(getXlsxText)
+    : []
+  const dateStyles = parseDateStyles(parts["xl/styles.xml"])
+
+  const tables: SheetTable[] = []
+
+  for (const sheet of findAllElements(workbook, "sheet")) {
+    if (sheet.attribs.state === "hidden" || sheet.attribs.state === "veryHidden") {
+      continue
+    }
+
+    const path = targets.get(sheet.attribs["r:id"])
+    const sheetXml = path ? parts[path] : undefined
+
+    if (!sheetXml) {
+      continue
+    }
+
+    const sheetData = findElement(parseXml(sheetXml), "sheetData")
+    const records: TableRow[] = []
+
+    for (const row of sheetData ? childElements(sheetData, "row") : []) {
+      const cells: string[] = []
+
+      childElements(row, "c").forEach((cell, position) => {
+        // Cell references can be omitted, in which case cells are consecutive
+        const column = cell.attribs.r ? getColumnIndex(cell.attribs.r) : position
+        cells[column] = getCellValue(cell, sharedStrings, dateStyles, uses1904)
+      })
+
+      records.push({
+        rowNumber: Number.parseInt(row.attribs.r || String(records.length + 1), 10),
+        cells: Array.from(cells, (cell) => cell ?? ""),
+      })
+    }
+
+    const table = buildTable(records, sheet.attribs.name)
+    if (table) {
+      tables.push(table)
+    }
+  }
+
+  return tables
+}
@@ -42,6 +42,7 @@ export interface AuthResult {
 // Singleton instances
 const browserClient: SupabaseClient<Database> | null = null
 let serverClient: SupabaseClient<Database> | null = null
+let serviceClient: SupabaseClient<Database> | null = null
 
 /**
  * Creates a Supabase client for browser/client components
@@ -100,6 +101,35 @@ export function createApiRouteClient(cookieStore: any): SupabaseClient<Database>
   })
 }
 
+/**
+ * Gets the Supabase client that uses the service role key, creating it on first use
+ * The service role key bypasses row level security, so the client must stay on the server
+ *
+ * @returns Supabase client, or null when SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY is not set
+ */
+export function getSupabaseServiceClient(): SupabaseClient<Database> | null {
+  if (typeof window !== "undefined") {
+    throw new Error("getSupabaseServiceClient should not be called from browser")
+  }
+
+  if (!serviceClient) {
+    const url = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL
+    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+    if (!url || !serviceRoleKey) {
+      return null
+    }
+
+    serviceClient = createClient<Database>(url, serviceRoleKey, {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    })
+  }
+  return serviceClient
+}
+
 /**
  * Gets the current authenticated user
  * @deprecated Use supabase.auth.getUser() directly
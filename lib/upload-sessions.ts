@@ -0,0 +1,555 @@
+/**
+ * Upload Sessions
+ *
+ * Resumable uploads of large files in parts. A session records the expected file size and
+ * part layout; every part is stored as its own blob with a confirmation record, so parts can
+ * be sent in any order, retried after a dropped connection and checked before the file is
+ * assembled. The document itself is only created once every part is confirmed.
+ *
+ * Features:
+ * - Session and part records stored next to document records in the owner's namespace
+ * - Idempotent part uploads with optional SHA-256 verification
+ * - Upload status listing the parts that still have to be sent
+ * - Streaming assembly of the parts into the final document blob
+ * - Session expiry and explicit abort with part cleanup
+ * - Edge runtime compatible (no Node.js specific modules)
+ *
+ * Dependencies:
+ * - @/lib/vector-store for session and part records
+ * - @/lib/utils/hash-utils for part checksums
+ * - @/lib/archive-extraction and @/lib/document-extraction for upload size limits
+ * - @/lib/utils/logger for structured logging
+ * - @vercel/blob for part and file storage
+ *
+ * @module lib/upload-sessions
+ */
+
+import { put, del } from "@vercel/blob"
+import { logger } from "@/lib/utils/logger"
+import {
+  createPlaceholderVector,
+  deleteVectors,
+  fetchVectors,
+  getUserNamespace,
+  upsertVectors,
+} from "@/lib/vector-store"
+import { sha256Hex } from "@/lib/utils/hash-utils"
+import { MAX_ARCHIVE_SIZE } from "@/lib/archive-extraction"
+import { detectDocumentFormat, MAX_DOCUMENT_SIZE } from "@/lib/document-extraction"
+import type { UploadPart, UploadSession } from "@/types"
+
+// Parts stay below the 4.5MB request body limit of serverless functions
+export const DEFAULT_PART_SIZE = 4 * 1024 * 1024
+const MIN_PART_SIZE = 256 * 1024
+
+// Abandoned sessions stop accepting parts after a day
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000
+
+// A completion that has not finished within this window is treated as interrupted
+const COMPLETION_TIMEOUT_MS = 5 * 60 * 1000
+
+/**
+ * Upload session error class
+ */
+export class UploadSessionError extends Error {
+  code: string
+  retryable: boolean
+  context?: Record<string, any>
+
+  constructor(
+    message: string,
+    options: {
+      code?: string
+      retryable?: boolean
+      context?: Record<string, any>
+    } = {},
+  ) {
+    super(message)
+    this.name = "UploadSessionError"
+    this.code = options.code || "upload_session_error"
+    this.retryable = options.retryable ?? false
+    this.context = options.context
+  }
+}
+
+/**
+ * Generate a unique upload ID
+ *
+ * @returns Unique upload ID
+ */
+export function generateUploadId(): string {
+  const timestamp = Date.now()
+  const random = Math.floor(Math.random() * 10000)
+  return `upload_${timestamp}_${random}`
+}
+
+/**
+ * Builds the record ID of an upload part
+ *
+ * @param uploadId - Upload ID
+ * @param partNumber - Part number, starting at 1
+ * @returns Record ID
+ */
+function getPartRecordId(uploadId: string, partNumber: number): string {
+  return `${uploadId}_part_${partNumber}`
+}
+
+/**
+ * Expected size of a part, given the session's part layout
+ *
+ * @param session - Upload session
+ * @param partNumber - Part number, starting at 1
+ * @returns Size in bytes
+ */
+export function getExpectedPartSize(session: UploadSession, partNumber: number): number {
+  if (partNumber < session.total_parts) {
+    return session.part_size
+  }
+
+  return session.file_size - session.part_size * (session.total_parts - 1)
+}
+
+/**
+ * Starts a resumable upload
+ *
+ * @param options - Owner, target document and file details
+ * @returns New upload session
+ * @throws UploadSessionError if the file is too large or the session cannot be stored
+ */
+export async function createUploadSession(options: {
+  userId: string
+  documentId: string
+  fileName: string
+  fileType: string
+  fileSize: number
+  partSize?: number
+  contentHash?: string
+  onDuplicate?: UploadSession["on_duplicate"]
+}): Promise<UploadSession> {
+  const { userId, documentId, fileName, fileType, fileSize } = options
+
+  if (!Number.isInteger(fileSize) || fileSize <= 0) {
+    throw new UploadSessionError("File size must be a positive number of bytes", { code: "invalid_file_size" })
+  }
+
+  // Resumable uploads may carry whole archives; any other file is a single document
+  const isArchive = detectDocumentFormat(fileType, fileName) === "repository"
+  const maxSize = isArchive ? MAX_ARCHIVE_SIZE : MAX_DOCUMENT_SIZE
+  if (fileSize > maxSize) {
+    throw new UploadSessionError(`File is too large (max ${maxSize / (1024 * 1024)}MB)`, {
+      code: "file_too_large",
+      context: { fileSize, maxSize },
+    })
+  }
+
+  const partSize = Math.min(Math.max(options.partSize || DEFAULT_PART_SIZE, MIN_PART_SIZE), DEFAULT_PART_SIZE)
+  const now = new Date()
+
+  const session: UploadSession = {
+    id: generateUploadId(),
+    user_id: userId,
+    document_id: documentId,
+    file_name: fileName,
+    file_type: fileType,
+    file_size: fileSize,
+    part_size: partSize,
+    total_parts: Math.ceil(fileSize / partSize),
+    status: "uploading",
+    ...(options.contentHash && { content_hash: options.contentHash }),
+    ...(options.onDuplicate && { on_duplicate: options.onDuplicate }),
+    created_at: now.toISOString(),
+    updated_at: now.toISOString(),
+    expires_at: new Date(now.getTime() + SESSION_TTL_MS).toISOString(),
+  }
+
+  await saveUploadSession(session)
+
+  logger.info(`Created upload session: ${session.id}`, {
+    uploadId: session.id,
+    documentId,
+    fileSize,
+    totalParts: session.total_parts,
+  })
+
+  return session
+}
+
+/**
+ * Saves an upload session, replacing any previous state
+ *
+ * @param session - Session to save
+ * @throws UploadSessionError if the record cannot be stored
+ */
+export async function saveUploadSession(session: UploadSession): Promise<void> {
+  try {
+    await upsertVectors(
+      [
+        {
+          id: session.id,
+          values: createPlaceholderVector(),
+          metadata: {
+            id: session.id,
+            user_id: session.user_id,
+            document_id: session.document_id,
+            file_name: session.file_name,
+            file_type: session.file_type,
+            file_size: session.file_size,
+            part_size: session.part_size,
+            total_parts: session.total_parts,
+            status: session.status,
+            ...(session.blob_url && { blob_url: session.blob_url }),
+            ...(session.content_hash && { content_hash: session.content_hash }),
+            ...(session.on_duplicate && { on_duplicate: session.on_duplicate }),
+            created_at: session.created_at,
+            updated_at: new Date().toISOString(),
+            expires_at: session.expires_at,
+            record_type: "upload_session",
+          },
+        },
+      ],
+      { namespace: getUserNamespace(session.user_id) },
+    )
+  } catch (error) {
+    logger.error(`Failed to save upload session: ${session.id}`, {
+      uploadId: session.id,
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+
+    throw new UploadSessionError(
+      `Failed to save upload session: ${error instanceof Error ? error.message : "Unknown error"}`,
+      {
+        code: "upload_session_save_failed",
+        retryable: true,
+        context: { uploadId: session.id },
+      },
+    )
+  }
+}
+
+/**
+ * Get upload session by ID
+ * Reads by record ID rather than by filter, so a status written a moment ago is always visible
+ *
+ * @param uploadId - Upload ID
+ * @param userId - Owner of the upload
+ * @returns Session or null if the user has no such upload
+ */
+export async function getUploadSession(uploadId: string, userId: string): Promise<UploadSession | null> {
+  const response = await fetchVectors([uploadId], { namespace: getUserNamespace(userId) })
+  const metadata = response.vectors?.[uploadId]?.metadata
+
+  if (!metadata || metadata.record_type !== "upload_session") {
+    return null
+  }
+
+  return {
+    id: uploadId,
+    user_id: metadata.user_id as string,
+    document_id: metadata.document_id as string,
+    file_name: metadata.file_name as string,
+    file_type: metadata.file_type as string,
+    file_size: metadata.file_size as number,
+    part_size: metadata.part_size as number,
+    total_parts: metadata.total_parts as number,
+    status: metadata.status as UploadSession["status"],
+    blob_url: metadata.blob_url as string | undefined,
+    content_hash: metadata.content_hash as string | undefined,
+    on_duplicate: metadata.on_duplicate as UploadSession["on_duplicate"],
+    created_at: metadata.created_at as string,
+    updated_at: metadata.updated_at as string,
+    expires_at: metadata.expires_at as string,
+  }
+}
+
+/**
+ * Checks that a session still accepts parts
+ *
+ * @param session - Upload session
+ * @throws UploadSessionError if the session is finished or expired
+ */
+function assertAcceptingParts(session: UploadSession): void {
+  if (session.status === "completed" || session.status === "aborted") {
+    throw new UploadSessionError(`Upload ${session.id} is already ${session.status}`, {
+      code: "upload_closed",
+      context: { uploadId: session.id, status: session.status },
+    })
+  }
+
+  if (new Date(session.expires_at).getTime() < Date.now()) {
+    throw new UploadSessionError(`Upload ${session.id} has expired`, {
+      code: "upload_expired",
+      context: { uploadId: session.id, expiresAt: session.expires_at },
+    })
+  }
+}
+
+/**
+ * Stores one part of an upload
+ * Sending the same part again replaces it, so a part whose response was lost can simply be retried
+ *
+ * @param session - Upload session
+ * @param partNumber - Part number, starting at 1
+ * @param data - Part bytes
+ * @param expectedChecksum - Optional SHA-256 hex digest computed by the client
+ * @returns Confirmed part
+ * @throws UploadSessionError if the part does not fit the session or fails verification
+ */
+export async function uploadSessionPart(
+  session: UploadSession,
+  partNumber: number,
+  data: ArrayBuffer,
+  expectedChecksum?: string,
+): Promise<UploadPart> {
+  assertAcceptingParts(session)
+
+  if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > session.total_parts) {
+    throw new UploadSessionError(`Part number must be between 1 and ${session.total_parts}`, {
+      code: "invalid_part_number",
+      context: { uploadId: session.id, partNumber },
+    })
+  }
+
+  const expectedSize = getExpectedPartSize(session, partNumber)
+  if (data.byteLength !== expectedSize) {
+    throw new UploadSessionError(`Part ${partNumber} must be ${expectedSize} bytes, got ${data.byteLength}`, {
+      code: "invalid_part_size",
+      context: { uploadId: session.id, partNumber, expectedSize, size: data.byteLength },
+    })
+  }
+
+  const checksum = await sha256Hex(data)
+  if (expectedChecksum && expectedChecksum.toLowerCase() !== checksum) {
+    throw new UploadSessionError(`Part ${partNumber} checksum does not match`, {
+      code: "checksum_mismatch",
+      retryable: true,
+      context: { uploadId: session.id, partNumber },
+    })
+  }
+
+  const blob = await put(`uploads/${session.user_id}/${session.id}/part-${partNumber}`, data, {
+    access: "public",
+    contentType: "application/octet-stream",
+    addRandomSuffix: false,
+    allowOverwrite: true,
+  })
+
+  const part: UploadPart = {
+    upload_id: session.id,
+    part_number: partNumber,
+    size: data.byteLength,
+    checksum,
+    blob_url: blob.url,
+  }
+
+  // The part record is written last, so a confirmed part always has its bytes stored
+  await upsertVectors(
+    [
+      {
+        id: getPartRecordId(session.id, partNumber),
+        values: createPlaceholderVector(),
+        metadata: {
+          ...part,
+          user_id: session.user_id,
+          created_at: new Date().toISOString(),
+          record_type: "upload_part",
+        },
+      },
+    ],
+    { namespace: getUserNamespace(session.user_id) },
+  )
+
+  return part
+}
+
+/**
+ * Lists the confirmed parts of an upload
+ *
+ * @param session - Upload session
+ * @returns Confirmed parts ordered by part number
+ */
+export async function listUploadedParts(session: UploadSession): Promise<UploadPart[]> {
+  const parts: UploadPart[] = []
+
+  for (let first = 1; first <= session.total_parts; first += 100) {
+    const ids: string[] = []
+    for (let partNumber = first; partNumber < first + 100 && partNumber <= session.total_parts; partNumber++) {
+      ids.push(getPartRecordId(session.id, partNumber))
+    }
+
+    const response = await fetchVectors(ids, { namespace: getUserNamespace(session.user_id) })
+    for (const id of ids) {
+      const metadata = response.vectors?.[id]?.metadata
+      if (metadata) {
+        parts.push({
+          upload_id: session.id,
+          part_number: metadata.part_number as number,
+          size: metadata.size as number,
+          checksum: metadata.checksum as string,
+          blob_url: metadata.blob_url as string,
+        })
+      }
+    }
+  }
+
+  return parts.sort((a, b) => a.part_number - b.part_number)
+}
+
+/**
+ * Lists the part numbers that have not been confirmed yet
+ *
+ * @param session - Upload session
+ * @param parts - Confirmed parts
+ * @returns Missing part numbers
+ */
+export function getMissingParts(session: UploadSession, parts: UploadPart[]): number[] {
+  const confirmed = new Set(parts.map((part) => part.part_number))
+  const missing: number[] = []
+
+  for (let partNumber = 1; partNumber <= session.total_parts; partNumber++) {
+    if (!confirmed.has(partNumber)) {
+      missing.push(partNumber)
+    }
+  }
+
+  return missing
+}
+
+/**
+ * Removes the part blobs and records of an upload
+ *
+ * @param session - Upload session
+ * @param parts - Parts to remove
+ */
+async function deleteParts(session: UploadSession, parts: UploadPart[]): Promise<void> {
+  if (parts.length === 0) {
+    return
+  }
+
+  await del(parts.map((part) => part.blob_url)).catch((error) => {
+    logger.warn(`Failed to delete upload part blobs: ${session.id}`, {
+      uploadId: session.id,
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+  })
+
+  const ids = parts.map((part) => getPartRecordId(session.id, part.part_number))
+  for (let i = 0; i < ids.length; i += 100) {
+    await deleteVectors({ ids: ids.slice(i, i + 100), namespace: getUserNamespace(session.user_id) })
+  }
+}
+
+/**
+ * Joins the confirmed parts into the final document blob
+ * Fails without side effects when a part is missing, so the client can send it and complete again
+ *
+ * @param session - Upload session
+ * @param blobPath - Path of the assembled file
+ * @returns Session marked as completed, with the URL of the assembled file
+ * @throws UploadSessionError if parts are missing or the upload is already being completed
+ */
+export async function completeUploadSession(session: UploadSession, blobPath: string): Promise<UploadSession> {
+  if (session.status === "completed") {
+    return session
+  }
+
+  assertAcceptingParts(session)
+
+  if (
+    session.status === "completing" &&
+    Date.now() - new Date(session.updated_at).getTime() < COMPLETION_TIMEOUT_MS
+  ) {
+    throw new UploadSessionError(`Upload ${session.id} is already being completed`, {
+      code: "upload_in_progress",
+      retryable: true,
+      context: { uploadId: session.id },
+    })
+  }
+
+  const parts = await listUploadedParts(session)
+  const missing = getMissingParts(session, parts)
+
+  if (missing.length > 0) {
+    throw new UploadSessionError(`Upload ${session.id} is missing ${missing.length} parts`, {
+      code: "parts_missing",
+      context: { uploadId: session.id, missingParts: missing.slice(0, 100) },
+    })
+  }
+
+  await saveUploadSession({ ...session, status: "completing" })
+
+  // Parts are read one at a time, so assembling never holds the whole file in memory
+  let index = 0
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (index >= parts.length) {
+        controller.close()
+        return
+      }
+
+      const response = await fetch(parts[index].blob_url, { cache: "no-store" })
+      if (!response.ok) {
+        throw new UploadSessionError(`Failed to read part ${parts[index].part_number}: ${response.status}`, {
+          code: "part_read_failed",
+          retryable: true,
+          context: { uploadId: session.id, partNumber: parts[index].part_number },
+        })
+      }
+
+      controller.enqueue(new Uint8Array(await response.arrayBuffer()))
+      index++
+    },
+  })
+
+  let blobUrl: string
+  try {
+    const blob = await put(blobPath, body, {
+      access: "public",
+      contentType: session.file_type || "application/octet-stream",
+      addRandomSuffix: false,
+      multipart: session.total_parts > 1,
+    })
+    blobUrl = blob.url
+  } catch (error) {
+    // Let a later completion attempt start right away
+    await saveUploadSession({ ...session, status: "uploading" }).catch(() => undefined)
+    throw error
+  }
+
+  const completed: UploadSession = { ...session, status: "completed", blob_url: blobUrl }
+  await saveUploadSession(completed)
+  await deleteParts(session, parts)
+
+  logger.info(`Completed upload session: ${session.id}`, {
+    uploadId: session.id,
+    documentId: session.document_id,
+    totalParts: session.total_parts,
+    fileSize: session.file_size,
+  })
+
+  return completed
+}
+
+/**
+ * Cancels an upload and removes the parts sent so far
+ *
+ * @param session - Upload session
+ * @returns Session marked as aborted
+ * @throws UploadSessionError if the upload has already completed
+ */
+export async function abortUploadSession(session: UploadSession): Promise<UploadSession> {
+  if (session.status === "completed") {
+    throw new UploadSessionError(`Upload ${session.id} is already completed`, {
+      code: "upload_closed",
+      context: { uploadId: session.id },
+    })
+  }
+
+  await deleteParts(session, await listUploadedParts(session))
+
+  const aborted: UploadSession = { ...session, status: "aborted" }
+  await saveUploadSession(aborted)
+
+  logger.info(`Aborted upload session: ${session.id}`, { uploadId: session.id })
+
+  return aborted
+}
@@ -0,0 +1,168 @@
+/**
+ * Gitignore Utilities
+ *
+ * Matches repository paths against .gitignore files, following git's rules closely
+ * enough for deciding which files in an uploaded repository should be indexed.
+ *
+ * Supported syntax:
+ * - Blank lines and "#" comments
+ * - "!" negation (files inside an ignored directory cannot be re-included, as in git)
+ * - Trailing "/" for directory-only patterns
+ * - Patterns anchored by a leading or middle "/"
+ * - "*", "?", "[...]" and "**" wildcards
+ * - Nested .gitignore files scoped to their directory
+ *
+ * @module lib/utils/gitignore-utils
+ */
+
+interface GitignoreRule {
+  base: string
+  regex: RegExp
+  negated: boolean
+  directoryOnly: boolean
+}
+
+/**
+ * Converts a gitignore glob into a regular expression source
+ *
+ * @param glob - Pattern without negation or trailing slash
+ * @returns Regular expression source matching a path relative to the rule's base
+ */
+function globToRegexSource(glob: string): string {
+  let source = ""
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        // "**/" matches zero or more directories, a trailing "**" matches everything below
+        if (glob[i + 2] === "/") {
+          source += "(?:.*/)?"
+          i += 2
+        } else {
+          source += ".*"
+          i++
+        }
+      } else {
+        source += "[^/]*"
+      }
+    } else if (char === "?") {
+      source += "[^/]"
+    } else if (char === "[") {
+      const end = glob.indexOf("]", i + 1)
+      if (end === -1) {
+        source += "\\["
+      } else {
+        source += `[${glob.slice(i + 1, end).replace(/^!/, "^").replace(/\\/g, "\\\\")}]`
+        i = end
+      }
+    } else if (char === "\\" && i + 1 < glob.length) {
+      source += `\\${glob[i + 1]}`
+      i++
+    } else {
+      source += char.replace(/[.+^${}()|\]\\/]/g, "\\$&")
+    }
+  }
+
+  return source
+}
+
+/**
+ * Parses a .gitignore file into rules
+ *
+ * @param content - File content
+ * @param base - Directory containing the file, without trailing slash ("" for the root)
+ * @returns Rules in file order
+ */
+function parseGitignore(content: string, base: string): GitignoreRule[] {
+  const rules: GitignoreRule[] = []
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    let pattern = rawLine.replace(/(?<!\\)\s+$/, "")
+
+    if (!pattern || pattern.startsWith("#")) {
+      continue
+    }
+
+    const negated = pattern.startsWith("!")
+    if (negated) {
+      pattern = pattern.slice(1)
+    }
+
+    const directoryOnly = pattern.endsWith("/")
+    if (directoryOnly) {
+      pattern = pattern.slice(0, -1)
+    }
+
+    // A slash anywhere but the end anchors the pattern to the base directory
+    const anchored = pattern.includes("/")
+    pattern = pattern.replace(/^\//, "")
+
+    if (!pattern) {
+      continue
+    }
+
+    const source = globToRegexSource(pattern)
+
+    rules.push({
+      base,
+      regex: new RegExp(anchored ? `^${source}$` : `^(?:.*/)?${source}$`),
+      negated,
+      directoryOnly,
+    })
+  }
+
+  return rules
+}
+
+/**
+ * Builds a matcher from the .gitignore files of a repository
+ *
+ * @param gitignoreFiles - Map of .gitignore path to content
+ * @returns Function that reports whether a file path is ignored
+ */
+export function createGitignoreMatcher(gitignoreFiles: Record<string, string>): (path: string) => boolean {
+  // Parent directories first so nested files can override their rules
+  const rules = Object.entries(gitignoreFiles)
+    .sort(([a], [b]) => a.split("/").length - b.split("/").length)
+    .flatMap(([path, content]) => parseGitignore(content, path.split("/").slice(0, -1).join("/")))
+
+  if (rules.length === 0) {
+    return () => false
+  }
+
+  const matches = (path: string, isDirectory: boolean): boolean => {
+    let ignored = false
+
+    for (const rule of rules) {
+      if (rule.directoryOnly && !isDirectory) {
+        continue
+      }
+
+      if (rule.base && !path.startsWith(`${rule.base}/`)) {
+        continue
+      }
+
+      const relative = rule.base ? path.slice(rule.base.length + 1) : path
+      if (rule.regex.test(relative)) {
+        ignored = !rule.negated
+      }
+    }
+
+    return ignored
+  }
+
+  return (path: string) => {
+    const segments = path.split("/")
+
+    // A file inside an ignored directory stays ignored regardless of later negations
+    for (let depth = 1; depth < segments.length; depth++) {
+      if (matches(segments.slice(0, depth).join("/"), true)) {
+        return true
+      }
+    }
+
+    return matches(path, false)
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Hash Utilities
+ *
+ * Content hashing with the Web Crypto API, available in both the Edge runtime and browsers.
+ *
+ * @module lib/utils/hash-utils
+ */
+
+/**
+ * Computes the SHA-256 hash of text or bytes
+ *
+ * @param data - Text (hashed as UTF-8) or raw bytes
+ * @returns Lowercase hex digest
+ */
+export async function sha256Hex(data: string | ArrayBuffer | Uint8Array): Promise<string> {
+  const bytes = typeof data === "string" ? new TextEncoder().encode(data) : data
+  const digest = await crypto.subtle.digest("SHA-256", bytes)
+
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
@@ -0,0 +1,117 @@
+/**
+ * Markdown Utilities
+ *
+ * Helpers for rendering extracted document structure as markdown that the chunker
+ * recognises: "#" headings, "-" and "1." list items, and pipe tables with a "|---|"
+ * separator row.
+ *
+ * @module lib/utils/markdown-utils
+ */
+
+// A rendered block of markdown; consecutive list items are joined without a blank line
+export interface MarkdownBlock {
+  text: string
+  listItem?: boolean
+}
+
+// Markdown only supports six heading levels
+const MAX_HEADING_LEVEL = 6
+
+/**
+ * Collapses whitespace so text fits on a single markdown line
+ *
+ * @param text - Text to collapse
+ * @returns Single-line text
+ */
+export function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ").trim()
+}
+
+/**
+ * Renders a heading block
+ *
+ * @param text - Heading text
+ * @param level - Heading level, starting at 1
+ * @returns Markdown heading
+ */
+export function renderHeading(text: string, level: number): string {
+  const clampedLevel = Math.min(Math.max(level, 1), MAX_HEADING_LEVEL)
+  return `${"#".repeat(clampedLevel)} ${collapseWhitespace(text)}`
+}
+
+/**
+ * Renders a list item block
+ *
+ * @param text - Item text
+ * @param depth - Nesting depth, starting at 0
+ * @param number - Item number for ordered lists, undefined for bullets
+ * @returns Markdown list item
+ */
+export function renderListItem(text: string, depth: number, number?: number): string {
+  const marker = number !== undefined ? `${number}.` : "-"
+  return `${"  ".repeat(depth)}${marker} ${collapseWhitespace(text)}`
+}
+
+/**
+ * Renders rows of cell text as a markdown pipe table
+ * The first row is used as the header row. Empty rows and trailing empty columns are dropped.
+ *
+ * @param rows - Table rows of cell text
+ * @returns Markdown table, or an empty string if the table has no text
+ */
+export function renderTable(rows: string[][]): string {
+  const cleanedRows = rows
+    .map((row) => row.map((cell) => collapseWhitespace(cell).replace(/\|/g, "\\|")))
+    .filter((row) => row.some((cell) => cell !== ""))
+
+  if (cleanedRows.length === 0) {
+    return ""
+  }
+
+  let columnCount = 0
+  for (const row of cleanedRows) {
+    row.forEach((cell, index) => {
+      if (cell !== "") {
+        columnCount = Math.max(columnCount, index + 1)
+      }
+    })
+  }
+
+  const formatRow = (row: string[]) =>
+    `| ${Array.from({ length: columnCount }, (_, index) => row[index] || "").join(" | ")} |`
+
+  const [header, ...body] = cleanedRows
+
+  return [formatRow(header), `|${Array(columnCount).fill("---").join("|")}|`, ...body.map(formatRow)].join("\n")
+}
+
+/**
+ * Joins rendered blocks into a markdown document
+ *
+ * @param blocks - Rendered blocks in document order
+ * @returns Markdown text
+ */
+export function joinBlocks(blocks: MarkdownBlock[]): string {
+  return blocks
+    .filter((block) => block.text.trim() !== "")
+    .reduce((output, block, index, filtered) => {
+      if (index === 0) {
+        return block.text
+      }
+
+      const separator = block.listItem && filtered[index - 1].listItem ? "\n" : "\n\n"
+      return output + separator + block.text
+    }, "")
+}
+
+/**
+ * Renders a fenced code block
+ *
+ * @param code - Code content, whitespace preserved
+ * @param language - Optional language hint for the fence
+ * @returns Markdown code block
+ */
+export function renderCodeBlock(code: string, language = ""): string {
+  const trimmed = code.replace(/^\n+|\s+$/g, "")
+  return `\`\`\`${language}\n${trimmed}\n\`\`\``
+}
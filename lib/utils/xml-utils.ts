@@ -0,0 +1,110 @@
+/**
+ * XML Utilities
+ *
+ * Helpers for reading zip-packaged XML formats (DOCX, ODT, XLSX) and walking
+ * the parsed element tree.
+ *
+ * Dependencies:
+ * - fflate for reading the zip container
+ * - htmlparser2 / domhandler for parsing XML
+ *
+ * @module lib/utils/xml-utils
+ */
+
+import { unzipSync } from "fflate"
+import { parseDocument } from "htmlparser2"
+import { type AnyNode, type Element, isTag } from "domhandler"
+
+/**
+ * Reads text entries from a zip container
+ *
+ * @param data - Raw zip bytes
+ * @param names - Entry names to read, or a predicate selecting entries
+ * @returns Map of entry name to decoded text for the entries that exist
+ */
+export function readZipEntries(
+  data: ArrayBuffer,
+  names: string[] | ((name: string) => boolean),
+): Record<string, string> {
+  const isWanted = Array.isArray(names) ? (name: string) => names.includes(name) : names
+  const entries = unzipSync(new Uint8Array(data), {
+    filter: (file) => isWanted(file.name),
+  })
+
+  const decoder = new TextDecoder("utf-8")
+  const result: Record<string, string> = {}
+
+  for (const [name, bytes] of Object.entries(entries)) {
+    result[name] = decoder.decode(bytes)
+  }
+
+  return result
+}
+
+/**
+ * Parses an XML part into a DOM tree
+ *
+ * @param xml - XML source
+ * @returns Root node of the parsed document
+ */
+export function parseXml(xml: string) {
+  return parseDocument(xml, { xmlMode: true })
+}
+
+/**
+ * Returns the element children of a node, optionally filtered by tag name
+ *
+ * @param node - Parent node
+ * @param name - Optional tag name to match
+ * @returns Matching child elements
+ */
+export function childElements(node: AnyNode, name?: string): Element[] {
+  if (!("children" in node)) {
+    return []
+  }
+
+  return node.children.filter((child): child is Element => isTag(child) && (!name || child.name === name))
+}
+
+/**
+ * Finds the first descendant element with the given tag name
+ *
+ * @param node - Node to search from
+ * @param name - Tag name to match
+ * @returns The element, or undefined if none exists
+ */
+export function findElement(node: AnyNode, name: string): Element | undefined {
+  for (const child of childElements(node)) {
+    if (child.name === name) {
+      return child
+    }
+
+    const found = findElement(child, name)
+    if (found) {
+      return found
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Finds all descendant elements with the given tag name
+ *
+ * @param node - Node to search from
+ * @param name - Tag name to match
+ * @returns Matching elements in document order
+ */
+export function findAllElements(node: AnyNode, name: string): Element[] {
+  const found: Element[] = []
+
+  for (const child of childElements(node)) {
+    if (child.name === name) {
+      found.push(child)
+    } else {
+      found.push(...findAllElements(child, name))
+    }
+  }
+
+  return found
+}
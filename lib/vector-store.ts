@@ -0,0 +1,722 @@
+/**
+ * Vector Store
+ *
+ * Entry point for everything the application stores in or reads from its vector index: chunks,
+ * documents, graph records, batches and upload sessions. The functions here have the signatures
+ * of the Pinecone REST client they replace and forward to the configured backend, so modules
+ * depend on the vector store rather than on Pinecone.
+ *
+ * The backend is chosen with the VECTOR_STORE environment variable:
+ * - "pinecone" (default): the Pinecone index configured by PINECONE_API_KEY and PINECONE_HOST
+ * - "pgvector": the vector_records table in the Supabase database, for deployments on Postgres only
+ * - "memory": an in-process store, for local development and CI without network access
+ *
+ * Each user's records live in a namespace of their own (getUserNamespace); the shared namespace
+ * holds only records that belong to no single user, such as the embedding index state.
+ *
+ * User namespaces belong to the active embedding index. An embedding migration (see
+ * lib/embedding-migration) builds a new index next to the active one, in namespaces suffixed with
+ * the index ID or in another Pinecone index, and then makes it active. Callers keep passing the
+ * namespace from getUserNamespace and this module sends the call to the active index; the state
+ * saying which index is active is a record of the shared namespace, cached for 30 seconds.
+ *
+ * Tests can install a backend of their own with setVectorStore.
+ *
+ * Features:
+ * - One interface for all backends, with Pinecone's record shapes and filter semantics
+ * - Backend selection by configuration, made on first use
+ * - Per-user namespaces that isolate each user's records
+ * - Blue/green embedding indexes, with writes during a migration marked or mirrored for the copy
+ * - Hybrid search that weights dense and BM25 sparse query vectors on any backend
+ * - Edge runtime compatible (no Node.js specific modules)
+ *
+ * Dependencies:
+ * - @/lib/pinecone-rest-client for the Pinecone backend
+ * - @/lib/pgvector-store for the pgvector backend
+ * - @/lib/memory-vector-store for the in-memory backend
+ * - @/lib/sparse-encoder for sparse query vectors
+ * - @/lib/embedding-config for the original embedding provider, model and dimension
+ * - @/lib/utils/json-utils for storing the embedding index state
+ * - @/lib/utils/logger for structured logging
+ *
+ * @module lib/vector-store
+ */
+
+import {
+  createPlaceholderVector,
+  EMBEDDING_MODEL,
+  EMBEDDING_PROVIDER,
+  SPARSE_VECTORS_ENABLED,
+  VECTOR_DIMENSION,
+} from "@/lib/embedding-config"
+import { MemoryVectorStore } from "@/lib/memory-vector-store"
+import { PgVectorStore } from "@/lib/pgvector-store"
+import { createPineconeVectorStore, pineconeVectorStore } from "@/lib/pinecone-rest-client"
+import { encodeSparseQuery, weightHybridQuery } from "@/lib/sparse-encoder"
+import { safeJsonParse, safeJsonStringify } from "@/lib/utils/json-utils"
+import { logger } from "@/lib/utils/logger"
+import type {
+  EmbeddingIndex,
+  EmbeddingIndexState,
+  VectorDeleteOptions,
+  VectorIndexStats,
+  VectorQueryOptions,
+  VectorQueryResponse,
+  VectorRecord,
+  VectorStore,
+  VectorStoreHealth,
+} from "@/types/vector-store"
+
+export { createPlaceholderVector } from "@/lib/embedding-config"
+export type {
+  EmbeddingIndex,
+  EmbeddingIndexState,
+  EmbeddingMigration,
+  VectorDeleteOptions,
+  VectorIndexStats,
+  VectorQueryMatch,
+  VectorQueryOptions,
+  VectorQueryResponse,
+  VectorRecord,
+  VectorStore,
+  VectorStoreHealth,
+} from "@/types/vector-store"
+
+export type VectorStoreBackend = "pinecone" | "pgvector" | "memory"
+
+/**
+ * Vector store configuration error class
+ */
+export class VectorStoreError extends Error {
+  code: string
+  retryable: boolean
+  context?: Record<string, any>
+
+  constructor(
+    message: string,
+    options: {
+      code?: string
+      retryable?: boolean
+      context?: Record<string, any>
+    } = {},
+  ) {
+    super(message)
+    this.name = "VectorStoreError"
+    this.code = options.code || "vector_store_error"
+    this.retryable = options.retryable ?? false
+    this.context = options.context
+  }
+}
+
+// Namespace of records that belong to no single user, such as the job queue
+export const SHARED_NAMESPACE = ""
+
+// Prefix of the namespace holding each user's records
+const USER_NAMESPACE_PREFIX = "user-"
+
+// Backend in use, chosen on first use
+let activeStore: VectorStore | null = null
+
+// Record of the shared namespace holding the embedding index state
+const EMBEDDING_STATE_ID = "embedding-index-state"
+
+// How long an instance uses the state it read before reading it again
+export const EMBEDDING_STATE_TTL_MS = 30 * 1000
+
+// Suffix of the user namespaces of an index other than the original one, e.g. "user-42__emb-lx2f9k"
+const INDEX_NAMESPACE_SUFFIX = /__(emb-[a-z0-9]+)$/
+
+// Embedding index state, as last read or saved by this instance
+let cachedState: { state: EmbeddingIndexState; loadedAt: number } | null = null
+
+// Backends of indexes that do not fit the configured store, by index ID
+const indexStores = new Map<string, VectorStore>()
+
+/**
+ * Returns the namespace holding a user's records
+ * Documents, chunks, versions, graph records, batches and upload sessions of a user live in
+ * this namespace, so a query that forgets its user filter still cannot read another user's data
+ *
+ * @param userId - User ID
+ * @returns Namespace name
+ * @throws VectorStoreError if the user ID is empty
+ */
+export function getUserNamespace(userId: string): string {
+  if (!userId || !userId.trim()) {
+    throw new VectorStoreError("A user ID is required to choose a namespace", { code: "missing_user" })
+  }
+
+  return `${USER_NAMESPACE_PREFIX}${userId}`
+}
+
+/**
+ * Whether a namespace holds the records of a single user
+ *
+ * @param namespace - Namespace name
+ * @returns True for namespaces created by getUserNamespace
+ */
+export function isUserNamespace(namespace: string): boolean {
+  return namespace.startsWith(USER_NAMESPACE_PREFIX) && namespace.length > USER_NAMESPACE_PREFIX.length
+}
+
+/**
+ * Returns the user whose records a namespace holds
+ *
+ * @param namespace - Namespace as returned by getUserNamespace
+ * @returns User ID, or null for namespaces that belong to no single user
+ */
+export function getNamespaceUserId(namespace: string): string | null {
+  return isUserNamespace(namespace) ? namespace.slice(USER_NAMESPACE_PREFIX.length) : null
+}
+
+/**
+ * Creates the backend named by the VECTOR_STORE environment variable
+ *
+ * @returns Vector store backend
+ * @throws VectorStoreError if the variable names an unknown backend
+ */
+function createConfiguredStore(): VectorStore {
+  const backend = (process.env.VECTOR_STORE || "pinecone").trim().toLowerCase()
+
+  switch (backend) {
+    case "pinecone":
+      return pineconeVectorStore
+    case "pgvector":
+      return new PgVectorStore()
+    case "memory":
+      return new MemoryVectorStore()
+    default:
+      throw new VectorStoreError(
+        `Unknown vector store backend: ${backend}. Use "pinecone", "pgvector" or "memory".`,
+        { code: "unknown_backend", context: { backend } },
+      )
+  }
+}
+
+/**
+ * Returns the vector store backend in use
+ *
+ * @returns Vector store backend
+ * @throws VectorStoreError if VECTOR_STORE names an unknown backend
+ */
+export function getVectorStore(): VectorStore {
+  if (!activeStore) {
+    activeStore = createConfiguredStore()
+    logger.info(`Using the ${activeStore.name} vector store`)
+  }
+
+  return activeStore
+}
+
+/**
+ * Replaces the vector store backend, or returns to the configured one when given null
+ * Meant for tests; records in the previous backend stay where they are
+ *
+ * @param store - Backend to use
+ */
+export function setVectorStore(store: VectorStore | null): void {
+  activeStore = store
+  cachedState = null
+  indexStores.clear()
+}
+
+/**
+ * Returns the index the application starts with, made with EMBEDDING_MODEL of EMBEDDING_PROVIDER
+ *
+ * @returns Original embedding index
+ */
+export function getDefaultEmbeddingIndex(): EmbeddingIndex {
+  return { id: "", provider: EMBEDDING_PROVIDER, model: EMBEDDING_MODEL, dimension: VECTOR_DIMENSION }
+}
+
+/**
+ * Reads which embedding index is active, which one preceded it and the migration in progress
+ *
+ * @param options - fresh to read the stored state instead of the cached one
+ * @returns Embedding index state; the original index when no state was saved
+ * @throws VectorStoreError if the state cannot be read
+ */
+export async function getEmbeddingIndexState(options: { fresh?: boolean } = {}): Promise<EmbeddingIndexState> {
+  if (!options.fresh && cachedState && Date.now() - cachedState.loadedAt < EMBEDDING_STATE_TTL_MS) {
+    return cachedState.state
+  }
+
+  let metadata: Record<string, any> | undefined
+  try {
+    const { vectors } = await getVectorStore().fetchVectors([EMBEDDING_STATE_ID], { namespace: SHARED_NAMESPACE })
+    metadata = vectors[EMBEDDING_STATE_ID]?.metadata
+  } catch (error) {
+    // Writing to an index that may no longer be active would lose the write
+    throw new VectorStoreError(
+      `Failed to read the embedding index state: ${error instanceof Error ? error.message : String(error)}`,
+      { code: "state_unavailable", retryable: true },
+    )
+  }
+
+  const state: EmbeddingIndexState = {
+    active: safeJsonParse<EmbeddingIndex | null>(metadata?.active, null) || getDefaultEmbeddingIndex(),
+  }
+  const previous = safeJsonParse<EmbeddingIndex | null>(metadata?.previous, null)
+  const migration = safeJsonParse<EmbeddingIndexState["migration"] | null>(metadata?.migration, null)
+
+  if (previous) {
+    state.previous = previous
+  }
+  if (migration) {
+    state.migration = migration
+  }
+
+  cachedState = { state, loadedAt: Date.now() }
+  return state
+}
+
+/**
+ * Saves the embedding index state
+ * Other instances pick it up within EMBEDDING_STATE_TTL_MS
+ *
+ * @param state - State to save
+ */
+export async function saveEmbeddingIndexState(state: EmbeddingIndexState): Promise<void> {
+  await getVectorStore().upsertVectors(
+    [
+      {
+        id: EMBEDDING_STATE_ID,
+        values: createPlaceholderVector(),
+        metadata: {
+          record_type: "embedding_state",
+          active: safeJsonStringify(state.active),
+          // Pinecone metadata cannot hold null, so an absent value is stored as ""
+          previous: state.previous ? safeJsonStringify(state.previous) : "",
+          migration: state.migration ? safeJsonStringify(state.migration) : "",
+          updated_at: new Date().toISOString(),
+        },
+      },
+    ],
+    { namespace: SHARED_NAMESPACE },
+  )
+
+  cachedState = { state, loadedAt: Date.now() }
+}
+
+/**
+ * Returns the embedding index that search and indexing use
+ *
+ * @returns Active embedding index
+ * @throws VectorStoreError if the state cannot be read
+ */
+export async function getActiveEmbeddingIndex(): Promise<EmbeddingIndex> {
+  return (await getEmbeddingIndexState()).active
+}
+
+/**
+ * Returns the backend holding the vectors of an embedding index
+ * Indexes whose vectors fit the configured store share it; others get a store of their own:
+ * another Pinecone index given by its host, a pgvector store for their dimension, or another
+ * in-memory store
+ *
+ * @param index - Embedding index
+ * @returns Vector store backend of the index
+ * @throws VectorStoreError if the configured backend cannot hold vectors of the index's dimension
+ */
+export function getIndexStore(index: EmbeddingIndex): VectorStore {
+  const store = getVectorStore()
+
+  if (!index.host && index.dimension === VECTOR_DIMENSION) {
+    return store
+  }
+
+  const cached = indexStores.get(index.id)
+  if (cached) {
+    return cached
+  }
+
+  let indexStore: VectorStore
+  if (store.name === "pinecone" && index.host) {
+    indexStore = createPineconeVectorStore({ host: index.host, dimension: index.dimension })
+  } else if (store.name === "pgvector") {
+    indexStore = new PgVectorStore({ dimension: index.dimension })
+  } else if (store.name === "memory") {
+    indexStore = new MemoryVectorStore({ dimension: index.dimension })
+  } else {
+    throw new VectorStoreError(
+      store.name === "pinecone"
+        ? `A Pinecone index host is required for ${index.dimension}-dimension vectors`
+        : `The ${store.name} vector store only holds ${VECTOR_DIMENSION}-dimension vectors`,
+      { code: "unsupported_dimension", context: { backend: store.name, dimension: index.dimension } },
+    )
+  }
+
+  indexStores.set(index.id, indexStore)
+  return indexStore
+}
+
+/**
+ * Returns the namespace that holds a namespace's records in an embedding index
+ * Only user namespaces belong to an index; the shared namespace is the same for every index
+ *
+ * @param namespace - Namespace as returned by getUserNamespace
+ * @param index - Embedding index
+ * @returns Namespace name within the index's store
+ */
+export function getIndexNamespace(namespace: string, index: EmbeddingIndex): string {
+  if (!index.id || !isUserNamespace(namespace)) {
+    return namespace
+  }
+
+  return `${namespace}__${index.id}`
+}
+
+/**
+ * Returns the ID of the index a stored namespace belongs to, and its name without the suffix
+ *
+ * @param namespace - Namespace name within a store
+ * @returns Index ID ("" for the original index) and the namespace callers know
+ */
+function parseIndexNamespace(namespace: string): { indexId: string; namespace: string } {
+  const match = namespace.match(INDEX_NAMESPACE_SUFFIX)
+
+  return match
+    ? { indexId: match[1], namespace: namespace.slice(0, namespace.length - match[0].length) }
+    : { indexId: "", namespace }
+}
+
+/**
+ * Lists the user namespaces that hold records in an embedding index
+ *
+ * @param index - Embedding index
+ * @returns Namespaces as returned by getUserNamespace
+ */
+export async function listIndexNamespaces(index: EmbeddingIndex): Promise<string[]> {
+  const namespaces = await getIndexStore(index).listNamespaces()
+
+  return namespaces
+    .map(parseIndexNamespace)
+    .filter((parsed) => parsed.indexId === index.id && isUserNamespace(parsed.namespace))
+    .map((parsed) => parsed.namespace)
+}
+
+/**
+ * Resolves where the records of a namespace live
+ *
+ * @param namespace - Namespace given by the caller
+ * @returns Store and namespace to use, with the index state for user namespaces
+ */
+async function resolveNamespace(
+  namespace: string | undefined,
+): Promise<{ store: VectorStore; namespace: string; state?: EmbeddingIndexState }> {
+  const name = namespace || SHARED_NAMESPACE
+
+  if (!isUserNamespace(name)) {
+    return { store: getVectorStore(), namespace: name }
+  }
+
+  const state = await getEmbeddingIndexState()
+
+  return { store: getIndexStore(state.active), namespace: getIndexNamespace(name, state.active), state }
+}
+
+/**
+ * Returns the index a migration in progress copies to or from, other than the active one
+ *
+ * @param state - Embedding index state
+ * @returns The other index of the migration, or null when none is running
+ */
+function getMigrationCounterpart(state: EmbeddingIndexState): EmbeddingIndex | null {
+  const migration = state.migration
+
+  if (!migration || (migration.status !== "copying" && migration.status !== "catching_up")) {
+    return null
+  }
+
+  return migration.source.id === state.active.id ? migration.target : migration.source
+}
+
+/**
+ * Fits a record to the index it is written to
+ * Records other than chunks hold placeholder values, which are replaced by a placeholder of the
+ * index's dimension. A chunk embedded with another model was embedded before a switch, and is
+ * rejected so that the caller embeds it again.
+ *
+ * @param record - Record to write
+ * @param index - Embedding index written to
+ * @returns Record to store
+ * @throws VectorStoreError if a chunk was embedded with another model
+ */
+function fitRecordToIndex(record: VectorRecord, index: EmbeddingIndex): VectorRecord {
+  const metadata = record.metadata
+
+  if (metadata?.record_type === "chunk") {
+    if (metadata.embedding_model && metadata.embedding_model !== index.model) {
+      throw new VectorStoreError(
+        `Chunk ${record.id} was embedded with ${metadata.embedding_model}, but the index uses ${index.model}`,
+        { code: "embedding_model_mismatch", retryable: true, context: { model: index.model } },
+      )
+    }
+    return record
+  }
+
+  if (record.values?.length === index.dimension) {
+    return record
+  }
+
+  return { ...record, values: createPlaceholderVector(index.dimension) }
+}
+
+/**
+ * Inserts or replaces vectors
+ *
+ * @param vectors - Vectors to store
+ * @param options - Namespace and batch size
+ * @returns Number of vectors stored
+ */
+export async function upsertVectors(
+  vectors: VectorRecord[],
+  options: { namespace?: string; batchSize?: number } = {},
+): Promise<{ upsertedCount: number }> {
+  const { store, namespace, state } = await resolveNamespace(options.namespace)
+  const records = state ? vectors.map((record) => fitRecordToIndex(record, state.active)) : vectors
+
+  return store.upsertVectors(records, { ...options, namespace })
+}
+
+/**
+ * Finds the vectors most similar to a query vector or to a stored vector
+ *
+ * @param queryInput - Query vector or vector ID
+ * @param options - Query options (topK, includeMetadata, includeValues, filter, namespace, sparseVector)
+ * @returns Matches, best first; errors are reported in the response instead of thrown
+ */
+export async function queryVectors(
+  queryInput: number[] | string,
+  options: VectorQueryOptions = {},
+): Promise<VectorQueryResponse> {
+  let resolved: Awaited<ReturnType<typeof resolveNamespace>>
+  try {
+    resolved = await resolveNamespace(options.namespace)
+  } catch (error) {
+    return { matches: [], error: true, errorMessage: error instanceof Error ? error.message : String(error) }
+  }
+
+  const response = await resolved.store.queryVectors(queryInput, { ...options, namespace: resolved.namespace })
+  return response.namespace === undefined ? response : { ...response, namespace: options.namespace }
+}
+
+/**
+ * Reads vectors by ID
+ *
+ * @param ids - Vector IDs
+ * @param options - Namespace, and whether to include the values
+ * @returns Vectors found, by ID
+ */
+export async function fetchVectors(
+  ids: string[],
+  options: { namespace?: string; includeValues?: boolean } = {},
+): Promise<{ vectors: Record<string, VectorRecord> }> {
+  const { store, namespace } = await resolveNamespace(options.namespace)
+
+  return store.fetchVectors(ids, { ...options, namespace })
+}
+
+/**
+ * Merges fields into the metadata of a stored vector without sending its values again
+ * While a migration copies records, the update clears the record's copy marker so the change is
+ * copied too
+ *
+ * @param id - Vector ID
+ * @param metadata - Metadata fields to set
+ * @param options - Namespace
+ */
+export async function updateVectorMetadata(
+  id: string,
+  metadata: Record<string, any>,
+  options: { namespace?: string } = {},
+): Promise<void> {
+  const { store, namespace, state } = await resolveNamespace(options.namespace)
+  const migration = state?.migration
+  const copying = migration?.status === "copying" && migration.source.id === state?.active.id
+
+  return store.updateVectorMetadata(id, copying ? { ...metadata, migrated_to: "" } : metadata, { namespace })
+}
+
+/**
+ * Deletes vectors by ID, by metadata filter, or all vectors of a namespace
+ * While a migration runs, the delete is repeated in the other index of the migration so that a
+ * deleted record is neither copied again nor brought back by a rollback
+ *
+ * @param options - IDs, filter or deleteAll, and the namespace
+ * @returns Delete result
+ */
+export async function deleteVectors(options: VectorDeleteOptions): Promise<{ deletedCount?: number }> {
+  const { store, namespace, state } = await resolveNamespace(options.namespace)
+  const result = await store.deleteVectors({ ...options, namespace })
+  const counterpart = state ? getMigrationCounterpart(state) : null
+
+  if (counterpart && options.namespace) {
+    try {
+      await getIndexStore(counterpart).deleteVectors({
+        ...options,
+        namespace: getIndexNamespace(options.namespace, counterpart),
+      })
+    } catch (error) {
+      logger.warn("Failed to repeat a delete in the migrating embedding index", {
+        indexId: counterpart.id,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+  }
+
+  return result
+}
+
+/**
+ * Lists the namespaces of the index: the shared namespaces and the user namespaces of the active
+ * embedding index
+ *
+ * @returns Namespace names
+ */
+export async function listNamespaces(): Promise<string[]> {
+  const state = await getEmbeddingIndexState()
+  const shared = (await getVectorStore().listNamespaces()).filter((namespace) => !isUserNamespace(namespace))
+
+  return shared.concat(await listIndexNamespaces(state.active))
+}
+
+/**
+ * Reads index statistics including vector counts per namespace
+ * User namespaces are counted in the active embedding index and reported under the names
+ * getUserNamespace returns
+ *
+ * @returns Index statistics
+ */
+export async function describeIndexStats(): Promise<VectorIndexStats> {
+  const state = await getEmbeddingIndexState()
+  const store = getVectorStore()
+  const indexStore = getIndexStore(state.active)
+  const baseStats = await store.describeIndexStats()
+  const indexStats = indexStore === store ? baseStats : await indexStore.describeIndexStats()
+  const namespaces: Record<string, { vectorCount: number }> = {}
+
+  Object.keys(baseStats.namespaces || {}).forEach((namespace) => {
+    if (!isUserNamespace(namespace)) {
+      namespaces[namespace] = baseStats.namespaces[namespace]
+    }
+  })
+
+  Object.keys(indexStats.namespaces || {}).forEach((name) => {
+    const parsed = parseIndexNamespace(name)
+    if (parsed.indexId === state.active.id && isUserNamespace(parsed.namespace)) {
+      namespaces[parsed.namespace] = indexStats.namespaces[name]
+    }
+  })
+
+  return {
+    namespaces,
+    dimension: state.active.dimension,
+    indexFullness: indexStats.indexFullness,
+    totalVectorCount: Object.keys(namespaces).reduce((sum, name) => sum + namespaces[name].vectorCount, 0),
+  }
+}
+
+/**
+ * Checks that the vector store can be reached
+ *
+ * @returns Health check result, with the backend name in the details
+ */
+export async function healthCheck(): Promise<VectorStoreHealth> {
+  let store: VectorStore
+
+  try {
+    store = getVectorStore()
+  } catch (error) {
+    return { healthy: false, error: error instanceof Error ? error.message : String(error) }
+  }
+
+  const health = await store.healthCheck()
+  return { ...health, details: { backend: store.name, ...(health.details || {}) } }
+}
+
+/**
+ * Perform hybrid search combining dense vector similarity with BM25 keyword matching
+ * The query is sent as a dense and a sparse vector weighted by alpha, so the score is
+ * alpha * semantic score + (1 - alpha) * keyword score. Sparse values need a dotproduct index;
+ * when they are disabled or the index rejects them, the search falls back to dense only.
+ *
+ * @param query - Text query to search for
+ * @param embeddingFn - Function to generate embedding from text
+ * @param options - Search options (filter, topK, namespace, alpha)
+ * @returns Search results
+ */
+export async function hybridSearch(
+  query: string,
+  embeddingFn: (text: string) => Promise<number[]>,
+  options: {
+    filter?: Record<string, any>
+    topK?: number
+    namespace?: string
+    alpha?: number // Weight between 0 and 1 for semantic vs. keyword scores (1 = semantic only, 0 = keywords only)
+  } = {},
+): Promise<VectorQueryResponse> {
+  const { filter, topK = 10, namespace, alpha = 0.75 } = options
+  const sparse = SPARSE_VECTORS_ENABLED && alpha < 1 ? encodeSparseQuery(query) : null
+
+  logger.info(`Performing hybrid search`, {
+    queryLength: query.length,
+    topK,
+    namespace: namespace || "default",
+    alpha,
+    sparseTerms: sparse?.indices.length || 0,
+  })
+
+  try {
+    // Generate embedding for the query
+    const embedding = await embeddingFn(query)
+
+    // Without keyword terms there is nothing to weight, so the dense vector is used as is
+    if (!sparse || sparse.indices.length === 0) {
+      return await queryVectors(embedding, {
+        topK,
+        includeMetadata: true,
+        filter,
+        namespace,
+      })
+    }
+
+    const weighted = weightHybridQuery(embedding, sparse, alpha)
+    const result = await queryVectors(weighted.dense, {
+      topK,
+      includeMetadata: true,
+      filter,
+      namespace,
+      sparseVector: weighted.sparse,
+    })
+
+    if (!result.error) {
+      return result
+    }
+
+    // Indexes with a cosine metric reject sparse values
+    logger.warn("Hybrid query failed, retrying with the dense vector only", {
+      error: result.errorMessage,
+      status: result.status,
+    })
+
+    return await queryVectors(embedding, {
+      topK,
+      includeMetadata: true,
+      filter,
+      namespace,
+    })
+  } catch (error) {
+    logger.error("Hybrid search exception:", {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    })
+
+    // Return empty matches instead of throwing to provide fallback behavior
+    return {
+      matches: [],
+      error: true,
+      errorMessage: error instanceof Error ? error.message : String(error),
+    }
+  }
+}
@@ -1,4 +1,15 @@
-import type { Document, DocumentStats, Conversation, Message, SearchResult, AnalyticsData } from "@/types"
+import type {
+  Document,
+  DocumentBatch,
+  DocumentStats,
+  DocumentVersion,
+  Conversation,
+  Message,
+  SearchResult,
+  AnalyticsData,
+} from "@/types"
+import { parseJsonStream, streamTextFromResponse } from "@/lib/streamText"
+import { sha256Hex } from "@/lib/utils/hash-utils"
 
 // Response Types
 export interface ApiResponse<T> {
@@ -126,6 +137,35 @@ export class ClientApiError extends Error {
   }
 }
 
+// What to do with an upload whose content matches an existing document
+export type DuplicateResolution = "link" | "replace" | "keep_both"
+
+// Existing document an upload duplicates
+export interface DuplicateDocumentInfo {
+  id: string
+  name: string
+  status: Document["status"]
+  file_size: number
+  created_at: string
+}
+
+/**
+ * Reads the existing documents from an error raised for a duplicate upload
+ * @param error - Error thrown by an upload function
+ * @returns Duplicated documents, or null if the error is not about a duplicate
+ */
+export function getDuplicateDocuments(error: unknown): DuplicateDocumentInfo[] | null {
+  if (
+    error instanceof ClientApiError &&
+    error.statusCode === 409 &&
+    error.originalError?.code === "duplicate_document"
+  ) {
+    return error.originalError.duplicates || []
+  }
+
+  return null
+}
+
 // Request Options Types
 export interface RequestOptions extends RequestInit {
   timeout?: number
@@ -435,12 +475,17 @@ export async function uploadDocument(
     tags?: string[]
     visibility?: "public" | "private" | "shared"
     description?: string
+    onDuplicate?: DuplicateResolution
   } = {},
 ): Promise<Document> {
   const formData = new FormData()
   formData.append("file", file)
   formData.append("userId", userId)
 
+  if (options.onDuplicate) {
+    formData.append("onDuplicate", options.onDuplicate)
+  }
+
   if (options.tags) {
     formData.append("tags", JSON.stringify(options.tags))
   }
@@ -484,8 +529,9 @@ export async function uploadDocument(
           }
         } else {
           let errorMessage = `Upload failed with status: ${xhr.status}`
+          let errorResponse: any = null
           try {
-            const errorResponse = JSON.parse(xhr.responseText)
+            errorResponse = JSON.parse(xhr.responseText)
             if (errorResponse && errorResponse.error) {
               errorMessage = errorResponse.error
             }
@@ -497,6 +543,7 @@ export async function uploadDocument(
             new ClientApiError(errorMessage, {
               statusCode: xhr.status,
               isServerError: xhr.status >= 500,
+              originalError: errorResponse,
             }),
           )
         }
@@ -551,6 +598,167 @@ export async function uploadDocument(
   })
 }
 
+/**
+ * Progress update streamed while an archive upload is processed
+ */
+export interface BatchUploadUpdate {
+  type: "progress" | "complete" | "error"
+  status?: string
+  batchId?: string
+  // Background job that processes the files
+  jobId?: string
+  progress?: number
+  message?: string
+  counts?: { total: number; processed: number; failed: number; skipped: number }
+}
+
+/**
+ * Uploads a zip archive that expands into one document per file
+ * The archive is sent in parts through the resumable upload flow, since one request cannot carry it
+ * @param userId - User ID
+ * @param file - Zip archive to upload
+ * @param onUpdate - Callback for upload progress and each streamed processing update
+ * @returns Final batch status
+ */
+export async function uploadDocumentArchive(
+  userId: string,
+  file: File,
+  onUpdate?: (update: BatchUploadUpdate) => void,
+): Promise<DocumentBatch> {
+  const upload = await getUploadUrl(file.name, file.type || "application/zip", userId, file.size)
+
+  let uploadedBytes = 0
+  for (const partNumber of upload.missingParts) {
+    const start = (partNumber - 1) * upload.partSize
+    const part = file.slice(start, Math.min(start + upload.partSize, file.size))
+
+    const result = await uploadFilePart(upload.uploadUrl, userId, partNumber, part)
+
+    uploadedBytes += result.size
+    onUpdate?.({
+      type: "progress",
+      status: "uploading",
+      progress: Math.round((uploadedBytes / file.size) * 100),
+      message: `Uploaded ${partNumber} of ${upload.totalParts} parts`,
+    })
+  }
+
+  const response = await fetch("/api/documents/batch", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ uploadId: upload.uploadId, userId }),
+  })
+
+  if (!response.ok) {
+    return handleResponse<DocumentBatch>(response)
+  }
+
+  let batchId: string | undefined
+
+  for await (const update of parseJsonStream<BatchUploadUpdate>(streamTextFromResponse(response))) {
+    batchId = update.batchId || batchId
+    onUpdate?.(update)
+
+    if (update.type === "error") {
+      throw new ClientApiError(update.message || "Archive processing failed", { isServerError: true })
+    }
+  }
+
+  if (!batchId) {
+    throw new ClientApiError("Archive upload ended without a batch ID", { isServerError: true })
+  }
+
+  return fetchBatchStatus(batchId, userId)
+}
+
+/**
+ * Fetches the status of an archive upload
+ * @param batchId - Batch ID
+ * @param userId - User ID
+ * @returns Batch status with per-file errors
+ */
+export async function fetchBatchStatus(batchId: string, userId: string): Promise<DocumentBatch> {
+  return handleApiRequest<DocumentBatch>("/api/documents/batch", {
+    method: "GET",
+    params: { batchId, userId },
+  })
+}
+
+/**
+ * Version history of a document
+ */
+export interface DocumentVersionHistory {
+  documentId: string
+  currentVersion: number
+  versions: DocumentVersion[]
+}
+
+/**
+ * Fetches the version history of a document
+ * @param documentId - Document ID
+ * @param userId - User ID
+ * @returns Versions, newest first, and the version search serves
+ */
+export async function fetchDocumentVersions(documentId: string, userId: string): Promise<DocumentVersionHistory> {
+  return handleApiRequest<DocumentVersionHistory>("/api/documents/versions", {
+    method: "GET",
+    params: { documentId, userId },
+  })
+}
+
+/**
+ * Result of indexing a new document version
+ * Versions still indexing when the request returns report status "processing" and their job ID
+ */
+export interface DocumentVersionUploadResult {
+  documentId: string
+  version: number
+  status: "success" | "partial_success" | "failed" | "processing"
+  jobId?: string
+  totalChunks?: number
+  successfulChunks?: number
+  failedChunks?: number
+  unchangedChunks?: number
+  warnings?: string[]
+}
+
+/**
+ * Uploads a new version of an existing document
+ * @param documentId - Document ID
+ * @param userId - User ID
+ * @param file - New version of the file
+ * @returns Indexing result with the new version number, or its job if indexing continues in the background
+ */
+export async function uploadDocumentVersion(
+  documentId: string,
+  userId: string,
+  file: File,
+): Promise<DocumentVersionUploadResult> {
+  const formData = new FormData()
+  formData.append("file", file)
+  formData.append("documentId", documentId)
+  formData.append("userId", userId)
+
+  return handleApiRequest<DocumentVersionUploadResult>("/api/documents/versions", {
+    method: "POST",
+    body: formData,
+  })
+}
+
+/**
+ * Rolls a document back to an earlier version
+ * @param documentId - Document ID
+ * @param userId - User ID
+ * @param version - Version to restore
+ * @returns Updated document
+ */
+export async function rollbackDocumentVersion(documentId: string, userId: string, version: number): Promise<Document> {
+  return handleApiRequest<Document>("/api/documents/versions", {
+    method: "PATCH",
+    body: JSON.stringify({ documentId, userId, version }),
+  })
+}
+
 /**
  * Deletes a document
  * @param documentId - Document ID
@@ -646,22 +854,22 @@ export async function searchDocuments(
 /**
  * Fetches conversations
  * @param userId - User ID
- * @param options - Filter and pagination options
+ * @param options - Filter and pagination options; cursor is the nextCursor of the previous page
  * @returns Conversation list response
  */
 export async function fetchConversations(
   userId: string,
   options: {
     filters?: Record<string, any>
-    pagination?: { limit: number; offset: number }
+    pagination?: { limit: number; cursor?: string }
   } = {},
 ): Promise<Conversation[]> {
-  const { filters = {}, pagination = { limit: 10, offset: 0 } } = options
+  const { filters = {}, pagination = { limit: 10 } } = options
 
   const params: Record<string, any> = {
     userId,
     limit: pagination.limit,
-    offset: pagination.offset,
+    ...(pagination.cursor && { cursor: pagination.cursor }),
     ...filters,
   }
 
@@ -722,25 +930,25 @@ export async function deleteConversation(id: string): Promise<boolean> {
 /**
  * Fetches messages for a conversation
  * @param conversationId - Conversation ID
- * @param options - Pagination options
+ * @param options - Pagination options; cursor is the nextCursor of the previous page
  * @returns Message list
  */
 export async function fetchMessages(
   conversationId: string,
   options: {
     limit?: number
-    offset?: number
+    cursor?: string
     includeMetadata?: boolean
   } = {},
 ): Promise<Message[]> {
-  const { limit = 50, offset = 0, includeMetadata = false } = options
+  const { limit = 50, cursor, includeMetadata = false } = options
 
   return handleApiRequest<Message[]>("/api/chat/messages", {
     method: "GET",
     params: {
       conversationId,
       limit,
-      offset,
+      ...(cursor && { cursor }),
       includeMetadata: includeMetadata.toString(),
     },
   })
@@ -791,32 +999,120 @@ export async function checkApiHealth(): Promise<HealthCheckResult> {
 // Additional utility functions
 
 /**
- * Generates a pre-signed URL for direct file upload
+ * State of a resumable upload
+ */
+export interface UploadStatus {
+  uploadId: string
+  uploadUrl: string
+  documentId: string
+  status: "uploading" | "completing" | "completed" | "aborted"
+  fileName: string
+  fileSize: number
+  partSize: number
+  totalParts: number
+  uploadedParts: number[]
+  missingParts: number[]
+  uploadedBytes: number
+  expiresAt: string
+  // Set instead of the upload layout when the user chose to link to an identical document
+  linked?: boolean
+}
+
+// Parts can take a while on slow connections
+const UPLOAD_PART_TIMEOUT = 120000
+
+// Uploads in progress, keyed by file, so a reload can resume them
+const RESUMABLE_UPLOADS_STORAGE_KEY = "resumable-uploads"
+
+/**
+ * Starts a resumable upload
  * @param fileName - File name
  * @param fileType - File MIME type
  * @param userId - User ID
- * @returns Pre-signed URL and upload ID
+ * @param fileSize - File size in bytes
+ * @param options - Content hash for duplicate detection and the choice for a duplicate
+ * @returns Upload URL, upload ID and part layout
+ * @throws ClientApiError with status 409 if the file duplicates a document and no choice was given
  */
 export async function getUploadUrl(
   fileName: string,
   fileType: string,
   userId: string,
-): Promise<{ uploadUrl: string; uploadId: string }> {
-  return handleApiRequest<{ uploadUrl: string; uploadId: string }>("/api/documents/upload-url", {
+  fileSize: number,
+  options: { contentHash?: string; onDuplicate?: DuplicateResolution } = {},
+): Promise<UploadStatus> {
+  return handleApiRequest<UploadStatus>("/api/documents/upload-url", {
     method: "POST",
-    body: {
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
       fileName,
       fileType,
       userId,
-    },
+      fileSize,
+      ...options,
+    }),
   })
 }
 
 /**
- * Completes a direct upload
+ * Fetches the state of a resumable upload
  * @param uploadId - Upload ID
  * @param userId - User ID
- * @param metadata - Document metadata
+ * @returns Upload status with the parts still missing
+ */
+export async function fetchUploadStatus(uploadId: string, userId: string): Promise<UploadStatus> {
+  return handleApiRequest<UploadStatus>("/api/documents/upload-url", {
+    method: "GET",
+    params: { uploadId, userId },
+  })
+}
+
+/**
+ * Sends one part of a resumable upload
+ * @param uploadUrl - Upload URL returned when the upload started
+ * @param userId - User ID
+ * @param partNumber - Part number, starting at 1
+ * @param data - Part bytes
+ * @param signal - Optional abort signal
+ * @returns Confirmed part number and size
+ */
+export async function uploadFilePart(
+  uploadUrl: string,
+  userId: string,
+  partNumber: number,
+  data: Blob,
+  signal?: AbortSignal,
+): Promise<{ partNumber: number; size: number }> {
+  const bytes = await data.arrayBuffer()
+  const checksum = await sha256Hex(bytes)
+
+  return handleApiRequest<{ partNumber: number; size: number }>(uploadUrl, {
+    method: "PUT",
+    params: { partNumber, userId },
+    headers: { "Content-Type": "application/octet-stream", "x-part-checksum": checksum },
+    body: bytes,
+    timeout: UPLOAD_PART_TIMEOUT,
+    signal,
+  })
+}
+
+/**
+ * Aborts a resumable upload and removes its parts
+ * @param uploadId - Upload ID
+ * @param userId - User ID
+ */
+export async function abortUpload(uploadId: string, userId: string): Promise<void> {
+  await handleApiRequest("/api/documents/upload-url", {
+    method: "DELETE",
+    params: { uploadId, userId },
+  })
+}
+
+/**
+ * Completes a resumable upload once every part is confirmed
+ * @param uploadId - Upload ID
+ * @param userId - User ID
+ * @param metadata - Document metadata (name)
  * @returns Document
  */
 export async function completeUpload(
@@ -826,14 +1122,122 @@ export async function completeUpload(
 ): Promise<Document> {
   return handleApiRequest<Document>("/api/documents/complete-upload", {
     method: "POST",
-    body: {
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
       uploadId,
       userId,
       metadata,
-    },
+    }),
+    // Completion assembles the file and processes the document
+    timeout: 300000,
+    retries: 0,
   })
 }
 
+/**
+ * Builds the key a resumable upload is remembered under
+ * @param userId - User ID
+ * @param file - File being uploaded
+ * @returns Storage key for the file
+ */
+function getResumableUploadKey(userId: string, file: File): string {
+  return `${userId}:${file.name}:${file.size}:${file.lastModified}`
+}
+
+/**
+ * Reads or updates the remembered upload ID of a file
+ * @param key - Key from getResumableUploadKey
+ * @param uploadId - Upload ID to remember, null to forget, undefined to read
+ * @returns Remembered upload ID
+ */
+function rememberResumableUpload(key: string, uploadId?: string | null): string | undefined {
+  try {
+    const uploads = JSON.parse(window.localStorage.getItem(RESUMABLE_UPLOADS_STORAGE_KEY) || "{}")
+
+    if (uploadId === undefined) {
+      return uploads[key]
+    }
+
+    if (uploadId === null) {
+      delete uploads[key]
+    } else {
+      uploads[key] = uploadId
+    }
+
+    window.localStorage.setItem(RESUMABLE_UPLOADS_STORAGE_KEY, JSON.stringify(uploads))
+    return uploadId || undefined
+  } catch {
+    // Storage can be unavailable (private mode); uploads then only resume within the page
+    return undefined
+  }
+}
+
+/**
+ * Uploads a file in parts and creates its document
+ * An upload interrupted by a dropped connection or a reload resumes with the parts still missing
+ * @param userId - User ID
+ * @param file - File to upload
+ * @param options - Progress callback, abort signal and the choice for a duplicate
+ * @returns Created document, or the existing document when linking to a duplicate
+ * @throws ClientApiError with status 409 if the file duplicates a document and no choice was given
+ */
+export async function uploadDocumentResumable(
+  userId: string,
+  file: File,
+  options: {
+    onProgress?: (progress: number) => void
+    signal?: AbortSignal
+    onDuplicate?: DuplicateResolution
+  } = {},
+): Promise<Document> {
+  const key = getResumableUploadKey(userId, file)
+  const fileType = file.type || "text/plain"
+
+  let upload: UploadStatus | null = null
+  const rememberedId = rememberResumableUpload(key)
+
+  if (rememberedId) {
+    upload = await fetchUploadStatus(rememberedId, userId).catch(() => null)
+
+    // Expired or aborted uploads start over
+    if (upload && (upload.status === "aborted" || new Date(upload.expiresAt).getTime() < Date.now())) {
+      upload = null
+    }
+  }
+
+  if (!upload) {
+    const contentHash = await sha256Hex(await file.arrayBuffer())
+    upload = await getUploadUrl(file.name, fileType, userId, file.size, {
+      contentHash,
+      onDuplicate: options.onDuplicate,
+    })
+
+    if (upload.linked) {
+      return handleApiRequest<Document>(`/api/documents/${upload.documentId}`, { method: "GET" })
+    }
+
+    rememberResumableUpload(key, upload.uploadId)
+  }
+
+  let uploadedBytes = upload.uploadedBytes
+  options.onProgress?.(Math.round((uploadedBytes / file.size) * 100))
+
+  for (const partNumber of upload.missingParts) {
+    const start = (partNumber - 1) * upload.partSize
+    const part = file.slice(start, Math.min(start + upload.partSize, file.size))
+
+    const result = await uploadFilePart(upload.uploadUrl, userId, partNumber, part, options.signal)
+
+    uploadedBytes += result.size
+    options.onProgress?.(Math.round((uploadedBytes / file.size) * 100))
+  }
+
+  const document = await completeUpload(upload.uploadId, userId, { name: file.name })
+  rememberResumableUpload(key, null)
+
+  return document
+}
+
 /**
  * Fetches document processing status
  * @param documentId - Document ID
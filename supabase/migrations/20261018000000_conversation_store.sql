@@ -0,0 +1,79 @@
+-- Conversations, messages and search logs
+--
+-- These records used to live in the vector index as placeholder vectors, which gave no reliable
+-- ordering, counting or pagination. The application reads and writes them with the service role
+-- key; row level security is enabled without policies so the anon key has no access.
+
+create table if not exists public.conversations (
+  id text primary key,
+  user_id text not null,
+  title text not null default 'New Conversation',
+  tags text[] not null default '{}',
+  folder text,
+  last_message text,
+  is_pinned boolean not null default false,
+  message_count integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists conversations_user_updated_idx on public.conversations (user_id, updated_at desc, id desc);
+create index if not exists conversations_user_created_idx on public.conversations (user_id, created_at desc, id desc);
+create index if not exists conversations_tags_idx on public.conversations using gin (tags);
+
+create table if not exists public.messages (
+  id text primary key,
+  -- Insertion order, used for ordering and cursors since timestamps can collide
+  seq bigint generated always as identity unique,
+  conversation_id text not null references public.conversations (id) on delete cascade,
+  user_id text not null,
+  role text not null check (role in ('user', 'assistant', 'system')),
+  content text not null,
+  sources text[] not null default '{}',
+  metadata jsonb not null default '{}',
+  created_at timestamptz not null default now()
+);
+
+create index if not exists messages_conversation_seq_idx on public.messages (conversation_id, seq);
+create index if not exists messages_user_created_idx on public.messages (user_id, created_at);
+
+create table if not exists public.search_logs (
+  id bigint generated always as identity primary key,
+  user_id text not null,
+  query text not null,
+  search_type text not null,
+  filters jsonb not null default '{}',
+  result_count integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists search_logs_user_created_idx on public.search_logs (user_id, created_at desc, id desc);
+
+-- Keeps the message count, last message and activity time of a conversation in step with its messages
+create or replace function public.update_conversation_message_stats() returns trigger
+language plpgsql as $$
+begin
+  if tg_op = 'INSERT' then
+    update public.conversations
+    set message_count = message_count + 1,
+        last_message = left(new.content, 500),
+        updated_at = greatest(updated_at, new.created_at)
+    where id = new.conversation_id;
+    return new;
+  end if;
+
+  update public.conversations
+  set message_count = greatest(message_count - 1, 0)
+  where id = old.conversation_id;
+  return old;
+end;
+$$;
+
+drop trigger if exists messages_update_conversation_stats on public.messages;
+create trigger messages_update_conversation_stats
+after insert or delete on public.messages
+for each row execute function public.update_conversation_message_stats();
+
+alter table public.conversations enable row level security;
+alter table public.messages enable row level security;
+alter table public.search_logs enable row level security;
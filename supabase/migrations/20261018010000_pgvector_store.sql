@@ -0,0 +1,285 @@
+-- Vector records for the pgvector backend
+--
+-- Self-hosted deployments keep chunks, documents and the other vector records in Postgres instead
+-- of Pinecone (VECTOR_STORE=pgvector). Records are keyed by namespace and ID like Pinecone records,
+-- metadata filters use Pinecone's filter language, and queries score by cosine similarity.
+--
+-- HNSW indexes on the vector type stop at 2000 dimensions, so the index is built on a half
+-- precision cast of the 3072-dimension embeddings and queries order by the same expression.
+--
+-- The HNSW index covers every namespace, so the namespace and the metadata filter only discard
+-- candidates after the approximate search returned them. Searches therefore use iterative index
+-- scans (pgvector 0.8 or later), and fall back to an exact scan of the namespace when the index
+-- returns fewer candidates than asked for. Listings, which query with a placeholder vector and
+-- need every matching record rather than the nearest ones, always scan the namespace exactly,
+-- through the primary key or the document index.
+
+create extension if not exists vector;
+
+create table if not exists public.vector_records (
+  namespace text not null default '',
+  id text not null,
+  embedding vector(3072) not null,
+  sparse_values jsonb,
+  metadata jsonb not null default '{}',
+  updated_at timestamptz not null default now(),
+  primary key (namespace, id)
+);
+
+create index if not exists vector_records_embedding_idx
+on public.vector_records using hnsw ((embedding::halfvec(3072)) halfvec_cosine_ops);
+
+create index if not exists vector_records_metadata_idx on public.vector_records using gin (metadata jsonb_path_ops);
+
+-- Chunks, versions and graph records of one document, for listings and deletes by document
+create index if not exists vector_records_document_idx
+on public.vector_records (namespace, (metadata ->> 'document_id'));
+
+-- Evaluates one filter operator against a metadata value; list values match $eq and $in when any
+-- element does, and $ne and $nin when none does. Range operators compare numbers only.
+create or replace function public.vector_metadata_condition(value jsonb, op text, operand jsonb) returns boolean
+language plpgsql immutable as $$
+declare
+  elements jsonb := case
+    when value is null or jsonb_typeof(value) = 'null' then '[]'::jsonb
+    when jsonb_typeof(value) = 'array' then value
+    else jsonb_build_array(value)
+  end;
+  found boolean;
+begin
+  if op in ('$eq', '$ne') then
+    if jsonb_typeof(operand) not in ('string', 'number', 'boolean') then
+      raise exception '% requires a string, number or boolean', op using errcode = '22023';
+    end if;
+    found := exists (select 1 from jsonb_array_elements(elements) element where element = operand);
+    return found = (op = '$eq');
+  end if;
+
+  if op in ('$in', '$nin') then
+    if jsonb_typeof(operand) <> 'array' or exists (
+      select 1 from jsonb_array_elements(operand) item where jsonb_typeof(item) not in ('string', 'number', 'boolean')
+    ) then
+      raise exception '% requires a list of strings, numbers or booleans', op using errcode = '22023';
+    end if;
+    found := exists (
+      select 1
+      from jsonb_array_elements(elements) element
+      join jsonb_array_elements(operand) item on item = element
+    );
+    return found = (op = '$in');
+  end if;
+
+  if op in ('$gt', '$gte', '$lt', '$lte') then
+    if jsonb_typeof(operand) <> 'number' then
+      raise exception '% requires a number, got %', op, operand using errcode = '22023';
+    end if;
+    if value is null or jsonb_typeof(value) <> 'number' then
+      return false;
+    end if;
+    return case op
+      when '$gt' then value::numeric > operand::numeric
+      when '$gte' then value::numeric >= operand::numeric
+      when '$lt' then value::numeric < operand::numeric
+      else value::numeric <= operand::numeric
+    end;
+  end if;
+
+  if op = '$exists' then
+    if jsonb_typeof(operand) <> 'boolean' then
+      raise exception '$exists requires true or false' using errcode = '22023';
+    end if;
+    return (value is not null and jsonb_typeof(value) <> 'null') = operand::boolean;
+  end if;
+
+  raise exception 'Unsupported filter operator: %', op using errcode = '22023';
+end;
+$$;
+
+-- Whether metadata satisfies a Pinecone metadata filter; an empty or missing filter matches everything
+create or replace function public.vector_metadata_matches(metadata jsonb, filter jsonb) returns boolean
+language plpgsql immutable as $$
+declare
+  field text;
+  condition jsonb;
+  op text;
+  operand jsonb;
+  part jsonb;
+  found boolean;
+begin
+  if filter is null then
+    return true;
+  end if;
+
+  if jsonb_typeof(filter) <> 'object' then
+    raise exception 'Invalid filter: %', filter using errcode = '22023';
+  end if;
+
+  for field, condition in select key, value from jsonb_each(filter) loop
+    if field in ('$and', '$or') then
+      if jsonb_typeof(condition) <> 'array' or jsonb_array_length(condition) = 0 then
+        raise exception '% requires a non-empty list of filters', field using errcode = '22023';
+      end if;
+
+      found := field = '$and';
+      for part in select value from jsonb_array_elements(condition) loop
+        if public.vector_metadata_matches(metadata, part) <> (field = '$and') then
+          found := field <> '$and';
+          exit;
+        end if;
+      end loop;
+
+      if not found then
+        return false;
+      end if;
+    elsif left(field, 1) = '$' then
+      raise exception 'Unsupported filter operator: %', field using errcode = '22023';
+    else
+      if jsonb_typeof(condition) in ('string', 'number', 'boolean') then
+        condition := jsonb_build_object('$eq', condition);
+      elsif jsonb_typeof(condition) <> 'object' or condition = '{}'::jsonb then
+        raise exception 'Invalid filter condition: %', condition using errcode = '22023';
+      end if;
+
+      for op, operand in select key, value from jsonb_each(condition) loop
+        if not public.vector_metadata_condition(coalesce(metadata, '{}'::jsonb) -> field, op, operand) then
+          return false;
+        end if;
+      end loop;
+    end if;
+  end loop;
+
+  return true;
+end;
+$$;
+
+-- String a filter requires of a field through a top-level {"field": "value"} or {"field": {"$eq": "value"}}
+-- condition, or null; lets queries narrow the scan with an index before the full filter runs
+create or replace function public.vector_filter_string(filter jsonb, field text) returns text
+language sql immutable as $$
+  select case
+    when jsonb_typeof(filter -> field) = 'string' then filter ->> field
+    when jsonb_typeof(filter -> field -> '$eq') = 'string' then filter -> field ->> '$eq'
+  end
+$$;
+
+-- Dot product of two sparse vectors stored as {"indices": [...], "values": [...]}
+create or replace function public.vector_sparse_dot(a jsonb, b jsonb) returns double precision
+language sql immutable as $$
+  select coalesce(sum(a_value.value::double precision * b_value.value::double precision), 0)
+  from jsonb_array_elements(a -> 'indices') with ordinality a_index (value, position)
+  join jsonb_array_elements(a -> 'values') with ordinality a_value (value, position)
+    on a_value.position = a_index.position
+  join jsonb_array_elements(b -> 'indices') with ordinality b_index (value, position)
+    on b_index.value = a_index.value
+  join jsonb_array_elements(b -> 'values') with ordinality b_value (value, position)
+    on b_value.position = b_index.position
+$$;
+
+-- Nearest records to a query vector within a namespace, best first, or with listing set, the
+-- records matching the filter in ID order
+--
+-- The score is the cosine similarity scaled by the length of the query vector, so embedding
+-- queries score by cosine similarity and queries weighted for hybrid search keep their weight.
+-- Sparse values add their dot product; they re-rank the nearest dense candidates rather than
+-- search on their own.
+create or replace function public.match_vector_records(
+  query_embedding vector(3072),
+  match_count integer,
+  match_namespace text default '',
+  filter jsonb default null,
+  query_sparse jsonb default null,
+  include_values boolean default false,
+  listing boolean default false
+) returns table (id text, score double precision, embedding vector(3072), metadata jsonb)
+language plpgsql as $$
+declare
+  candidate_count integer := case when query_sparse is null then match_count else least(match_count * 4, 10000) end;
+  document_id text := public.vector_filter_string(filter, 'document_id');
+  candidate_ids text[];
+begin
+  if not listing then
+    -- Iterative scans keep walking the index while the namespace and filter discard candidates
+    perform set_config('hnsw.ef_search', least(greatest(candidate_count * 2, 40), 1000)::text, true);
+    begin
+      perform set_config('hnsw.iterative_scan', 'strict_order', true);
+    exception when others then
+      -- pgvector before 0.8 has no iterative scans; a short result still falls back to the exact scan below
+      null;
+    end;
+
+    select array_agg(c.id) into candidate_ids
+    from (
+      select r.id
+      from public.vector_records r
+      where r.namespace = match_namespace and public.vector_metadata_matches(r.metadata, filter)
+      order by r.embedding::halfvec(3072) <=> query_embedding::halfvec(3072)
+      limit candidate_count
+    ) c;
+  end if;
+
+  -- A short approximate result may have missed matches, so the namespace is scanned exactly; ordering by the
+  -- full precision distance keeps the planner off the HNSW index
+  if listing or coalesce(cardinality(candidate_ids), 0) < candidate_count then
+    execute format(
+      'select array_agg(c.id) from (
+        select r.id
+        from public.vector_records r
+        where r.namespace = $1 %s and public.vector_metadata_matches(r.metadata, $2)
+        order by %s
+        limit $3
+      ) c',
+      case when document_id is null then '' else 'and r.metadata ->> ''document_id'' = $4' end,
+      case when listing then 'r.id' else 'r.embedding <=> $5' end
+    )
+    into candidate_ids
+    using match_namespace, filter, candidate_count, document_id, query_embedding;
+  end if;
+
+  return query
+  select
+    c.id,
+    (1 - (c.embedding <=> query_embedding)) * vector_norm(query_embedding)
+      + case when query_sparse is null then 0 else public.vector_sparse_dot(query_sparse, c.sparse_values) end,
+    case when include_values then c.embedding else null end,
+    c.metadata
+  from public.vector_records c
+  where c.namespace = match_namespace and c.id = any(coalesce(candidate_ids, '{}'))
+  order by 2 desc, 1
+  limit match_count;
+end;
+$$;
+
+-- Merges fields into the metadata of a record; returns false if the record does not exist
+create or replace function public.update_vector_metadata(
+  record_namespace text,
+  record_id text,
+  patch jsonb
+) returns boolean
+language sql as $$
+  with updated as (
+    update public.vector_records
+    set metadata = metadata || patch, updated_at = now()
+    where namespace = record_namespace and id = record_id
+    returning 1
+  )
+  select exists (select 1 from updated)
+$$;
+
+-- Deletes the records of a namespace that match a metadata filter; returns how many were deleted
+create or replace function public.delete_vector_records(record_namespace text, filter jsonb) returns integer
+language sql as $$
+  with deleted as (
+    delete from public.vector_records
+    where namespace = record_namespace and public.vector_metadata_matches(metadata, filter)
+    returning 1
+  )
+  select count(*)::integer from deleted
+$$;
+
+-- Number of records per namespace
+create or replace function public.vector_namespace_stats() returns table (namespace text, vector_count bigint)
+language sql stable as $$
+  select namespace, count(*) from public.vector_records group by namespace order by namespace
+$$;
+
+alter table public.vector_records enable row level security;
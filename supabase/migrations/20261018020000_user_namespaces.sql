@@ -0,0 +1,21 @@
+-- Per-user namespaces for vector records
+--
+-- Each user's records now live in the namespace 'user-<user id>' and the shared namespace ''
+-- holds only job records. This moves the records written before that into their user's
+-- namespace; POST /api/migrations/namespaces does the same for the Pinecone backend.
+--
+-- A record that an earlier run of the API migration already copied keeps its per-user copy.
+
+delete from public.vector_records shared
+using public.vector_records owned
+where shared.namespace = ''
+  and coalesce(shared.metadata ->> 'user_id', '') <> ''
+  and coalesce(shared.metadata ->> 'record_type', '') <> 'job'
+  and owned.namespace = 'user-' || (shared.metadata ->> 'user_id')
+  and owned.id = shared.id;
+
+update public.vector_records
+set namespace = 'user-' || (metadata ->> 'user_id'), updated_at = now()
+where namespace = ''
+  and coalesce(metadata ->> 'user_id', '') <> ''
+  and coalesce(metadata ->> 'record_type', '') <> 'job';
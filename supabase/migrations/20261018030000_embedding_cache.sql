@@ -0,0 +1,72 @@
+-- Shared embedding cache
+--
+-- Embeddings of texts already embedded, shared by every instance so that repeated queries and
+-- unchanged chunks are not embedded again. Keys name the provider, model, dimensions and input
+-- type, followed by the SHA-256 hash of the text. The application reads and writes the cache
+-- with the service role key; row level security is enabled without policies so the anon key has
+-- no access.
+
+create table if not exists public.embedding_cache (
+  key text primary key,
+  provider text not null,
+  model text not null,
+  dimensions integer not null,
+  embedding real[] not null,
+  hit_count bigint not null default 0,
+  created_at timestamptz not null default now(),
+  last_used_at timestamptz not null default now()
+);
+
+create index if not exists embedding_cache_created_idx on public.embedding_cache (created_at);
+create index if not exists embedding_cache_last_used_idx on public.embedding_cache (last_used_at);
+
+-- Counts hits on cached embeddings and marks them as recently used
+create or replace function public.touch_embedding_cache(cache_keys text[]) returns void
+language sql as $$
+  update public.embedding_cache
+  set hit_count = hit_count + 1, last_used_at = now()
+  where key = any(cache_keys);
+$$;
+
+-- Removes entries older than the TTL, then the least recently used entries beyond the size limit
+create or replace function public.prune_embedding_cache(max_entries integer, ttl_seconds integer) returns integer
+language plpgsql as $$
+declare
+  expired integer;
+  evicted integer := 0;
+  excess bigint;
+begin
+  delete from public.embedding_cache where created_at < now() - make_interval(secs => ttl_seconds);
+  get diagnostics expired = row_count;
+
+  select count(*) - max_entries into excess from public.embedding_cache;
+  if excess > 0 then
+    delete from public.embedding_cache
+    where key in (select key from public.embedding_cache order by last_used_at asc limit excess);
+    get diagnostics evicted = row_count;
+  end if;
+
+  return expired + evicted;
+end;
+$$;
+
+-- Size, recorded hits and entry ages of the cache
+create or replace function public.embedding_cache_stats()
+returns table (
+  entries bigint,
+  hits bigint,
+  oldest_at timestamptz,
+  newest_at timestamptz,
+  average_age_seconds double precision
+)
+language sql stable as $$
+  select
+    count(*),
+    coalesce(sum(hit_count), 0)::bigint,
+    min(created_at),
+    max(created_at),
+    avg(extract(epoch from now() - created_at))::double precision
+  from public.embedding_cache;
+$$;
+
+alter table public.embedding_cache enable row level security;
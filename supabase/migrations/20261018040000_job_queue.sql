@@ -0,0 +1,116 @@
+-- Job queue
+--
+-- Background jobs and their leases. A claim is a single conditional update, so of any number of
+-- workers claiming the same job exactly one gets it back; lease-bound writes (heartbeats and
+-- outcomes) only apply while the writer still holds the lease. Times the application compares
+-- against (run_after, lease_expires_at) are epoch milliseconds, matching the Job type. Jobs still
+-- stored as records in the vector index are not carried over; re-queue their documents if needed.
+-- The application uses the service role key; row level security is enabled without policies so
+-- the anon key has no access.
+
+create table if not exists public.jobs (
+  id text primary key,
+  type text not null,
+  user_id text not null,
+  document_id text,
+  status text not null default 'queued' check (status in ('queued', 'running', 'completed', 'failed')),
+  payload jsonb not null default '{}'::jsonb,
+  attempts integer not null default 0,
+  max_attempts integer not null default 3,
+  progress integer not null default 0,
+  stage text,
+  message text,
+  result jsonb,
+  checkpoint jsonb,
+  error_message text,
+  lease_owner text,
+  lease_expires_at bigint,
+  heartbeat_at timestamptz,
+  run_after bigint not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists jobs_claimable_idx on public.jobs (created_at)
+  where status in ('queued', 'running');
+create index if not exists jobs_document_idx on public.jobs (document_id, type)
+  where status in ('queued', 'running');
+
+-- Current time in epoch milliseconds, the unit of run_after and lease_expires_at
+create or replace function public.job_clock_ms() returns bigint
+language sql volatile as $$
+  select (extract(epoch from clock_timestamp()) * 1000)::bigint;
+$$;
+
+-- Claims a job if it is due or its lease expired; returns no row if it is not claimable or
+-- another worker claimed it first
+create or replace function public.claim_job(job_id text, worker_id text, lease_ms integer)
+returns setof public.jobs
+language plpgsql as $$
+declare
+  now_ms bigint := public.job_clock_ms();
+begin
+  return query
+  update public.jobs j
+  set
+    status = 'running',
+    attempts = j.attempts + 1,
+    lease_owner = worker_id,
+    lease_expires_at = now_ms + lease_ms,
+    heartbeat_at = now(),
+    message = case
+      when j.attempts > 0 then 'Retrying (attempt ' || (j.attempts + 1) || ')'
+      when j.checkpoint is not null then 'Resumed'
+      else 'Started'
+    end,
+    updated_at = now()
+  where j.id = job_id
+    and (
+      (j.status = 'queued' and j.run_after <= now_ms)
+      or (j.status = 'running' and coalesce(j.lease_expires_at, 0) < now_ms)
+    )
+  returning j.*;
+end;
+$$;
+
+-- Claims the oldest claimable job of the given types (all types if null); rows locked by a
+-- concurrent claim are skipped rather than waited for
+create or replace function public.claim_next_job(worker_id text, lease_ms integer, job_types text[] default null)
+returns setof public.jobs
+language plpgsql as $$
+declare
+  now_ms bigint := public.job_clock_ms();
+begin
+  return query
+  with candidate as (
+    select c.id
+    from public.jobs c
+    where (job_types is null or c.type = any(job_types))
+      and (
+        (c.status = 'queued' and c.run_after <= now_ms)
+        or (c.status = 'running' and coalesce(c.lease_expires_at, 0) < now_ms)
+      )
+    order by c.created_at
+    limit 1
+    for update skip locked
+  )
+  update public.jobs j
+  set
+    status = 'running',
+    attempts = j.attempts + 1,
+    lease_owner = worker_id,
+    lease_expires_at = now_ms + lease_ms,
+    heartbeat_at = now(),
+    message = case
+      when j.attempts > 0 then 'Retrying (attempt ' || (j.attempts + 1) || ')'
+      when j.checkpoint is not null then 'Resumed'
+      else 'Started'
+    end,
+    updated_at = now()
+  from candidate
+  where j.id = candidate.id
+  returning j.*;
+end;
+$$;
+
+alter table public.jobs enable row level security;
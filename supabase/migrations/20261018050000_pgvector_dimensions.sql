@@ -0,0 +1,181 @@
+-- Embedding dimensions for the pgvector backend
+--
+-- vector_records held 3072-dimension embeddings only, so a deployment embedding with another model
+-- (768 dimensions locally, 1024 with Cohere) could not store a single record. Records now carry the
+-- dimension of the embedding index they belong to, which is part of the key, so indexes of different
+-- dimensions keep their records apart like separate Pinecone indexes. Every dimension gets a partial
+-- HNSW index of its own, created by ensure_vector_dimension when a store for it first writes.
+--
+-- HNSW indexes on halfvec stop at 4000 dimensions; larger embeddings are searched by exact scans.
+
+drop index if exists public.vector_records_embedding_idx;
+drop index if exists public.vector_records_document_idx;
+
+drop function if exists public.match_vector_records(vector, integer, text, jsonb, jsonb, boolean, boolean);
+drop function if exists public.update_vector_metadata(text, text, jsonb);
+drop function if exists public.delete_vector_records(text, jsonb);
+drop function if exists public.vector_namespace_stats();
+
+alter table public.vector_records alter column embedding type vector;
+alter table public.vector_records add column if not exists dimension integer;
+update public.vector_records set dimension = vector_dims(embedding) where dimension is null;
+alter table public.vector_records alter column dimension set not null;
+alter table public.vector_records
+  add constraint vector_records_dimension_check check (vector_dims(embedding) = dimension);
+
+alter table public.vector_records drop constraint vector_records_pkey;
+alter table public.vector_records add primary key (dimension, namespace, id);
+
+-- Chunks, versions and graph records of one document, for listings and deletes by document
+create index if not exists vector_records_document_idx
+on public.vector_records (dimension, namespace, (metadata ->> 'document_id'));
+
+-- Creates the HNSW index for embeddings of one dimension. Runs as the table owner, since the
+-- service role may not create indexes; a concurrent call creating the same index is not an error.
+create or replace function public.ensure_vector_dimension(index_dimension integer) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  if index_dimension < 1 or index_dimension > 4000 then
+    return;
+  end if;
+
+  execute format(
+    'create index if not exists %I on public.vector_records
+     using hnsw ((embedding::halfvec(%s)) halfvec_cosine_ops) where dimension = %s',
+    'vector_records_embedding_' || index_dimension || '_idx',
+    index_dimension,
+    index_dimension
+  );
+exception when duplicate_table or unique_violation then
+  null;
+end;
+$$;
+
+revoke execute on function public.ensure_vector_dimension(integer) from public, anon, authenticated;
+
+select public.ensure_vector_dimension(d.dimension)
+from (select distinct dimension from public.vector_records) d;
+
+-- Nearest records to a query vector within a namespace, best first, or with listing set, the
+-- records matching the filter in ID order; only records of the query vector's dimension match
+--
+-- The score is the cosine similarity scaled by the length of the query vector, so embedding
+-- queries score by cosine similarity and queries weighted for hybrid search keep their weight.
+-- Sparse values add their dot product; they re-rank the nearest dense candidates rather than
+-- search on their own.
+create or replace function public.match_vector_records(
+  query_embedding vector,
+  match_count integer,
+  match_namespace text default '',
+  filter jsonb default null,
+  query_sparse jsonb default null,
+  include_values boolean default false,
+  listing boolean default false
+) returns table (id text, score double precision, embedding vector, metadata jsonb)
+language plpgsql as $$
+declare
+  match_dimension integer := vector_dims(query_embedding);
+  candidate_count integer := case when query_sparse is null then match_count else least(match_count * 4, 10000) end;
+  document_id text := public.vector_filter_string(filter, 'document_id');
+  candidate_ids text[];
+begin
+  if not listing and match_dimension <= 4000 then
+    -- Iterative scans keep walking the index while the namespace and filter discard candidates
+    perform set_config('hnsw.ef_search', least(greatest(candidate_count * 2, 40), 1000)::text, true);
+    begin
+      perform set_config('hnsw.iterative_scan', 'strict_order', true);
+    exception when others then
+      -- pgvector before 0.8 has no iterative scans; a short result still falls back to the exact scan below
+      null;
+    end;
+
+    -- The dimension is written into the statement so the planner matches the partial index of that dimension
+    execute format(
+      'select array_agg(c.id) from (
+        select r.id
+        from public.vector_records r
+        where r.dimension = %1$s and r.namespace = $1 and public.vector_metadata_matches(r.metadata, $2)
+        order by r.embedding::halfvec(%1$s) <=> $3::halfvec(%1$s)
+        limit $4
+      ) c',
+      match_dimension
+    )
+    into candidate_ids
+    using match_namespace, filter, query_embedding, candidate_count;
+  end if;
+
+  -- A short approximate result may have missed matches, so the namespace is scanned exactly; ordering by the
+  -- full precision distance keeps the planner off the HNSW index
+  if listing or coalesce(cardinality(candidate_ids), 0) < candidate_count then
+    execute format(
+      'select array_agg(c.id) from (
+        select r.id
+        from public.vector_records r
+        where r.dimension = $6 and r.namespace = $1 %s and public.vector_metadata_matches(r.metadata, $2)
+        order by %s
+        limit $3
+      ) c',
+      case when document_id is null then '' else 'and r.metadata ->> ''document_id'' = $4' end,
+      case when listing then 'r.id' else 'r.embedding <=> $5' end
+    )
+    into candidate_ids
+    using match_namespace, filter, candidate_count, document_id, query_embedding, match_dimension;
+  end if;
+
+  return query
+  select
+    c.id,
+    (1 - (c.embedding <=> query_embedding)) * vector_norm(query_embedding)
+      + case when query_sparse is null then 0 else public.vector_sparse_dot(query_sparse, c.sparse_values) end,
+    case when include_values then c.embedding else null end,
+    c.metadata
+  from public.vector_records c
+  where c.dimension = match_dimension and c.namespace = match_namespace and c.id = any(coalesce(candidate_ids, '{}'))
+  order by 2 desc, 1
+  limit match_count;
+end;
+$$;
+
+-- Merges fields into the metadata of a record; returns false if the record does not exist
+create or replace function public.update_vector_metadata(
+  record_dimension integer,
+  record_namespace text,
+  record_id text,
+  patch jsonb
+) returns boolean
+language sql as $$
+  with updated as (
+    update public.vector_records
+    set metadata = metadata || patch, updated_at = now()
+    where dimension = record_dimension and namespace = record_namespace and id = record_id
+    returning 1
+  )
+  select exists (select 1 from updated)
+$$;
+
+-- Deletes the records of a namespace that match a metadata filter; returns how many were deleted
+create or replace function public.delete_vector_records(
+  record_dimension integer,
+  record_namespace text,
+  filter jsonb
+) returns integer
+language sql as $$
+  with deleted as (
+    delete from public.vector_records
+    where dimension = record_dimension and namespace = record_namespace
+      and public.vector_metadata_matches(metadata, filter)
+    returning 1
+  )
+  select count(*)::integer from deleted
+$$;
+
+-- Number of records per namespace among the records of one dimension
+create or replace function public.vector_namespace_stats(record_dimension integer)
+returns table (namespace text, vector_count bigint)
+language sql stable as $$
+  select namespace, count(*)
+  from public.vector_records
+  where dimension = record_dimension
+  group by namespace
+  order by namespace
+$$;
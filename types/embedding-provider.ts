@@ -0,0 +1,45 @@
+/**
+ * Embedding Provider Types
+ *
+ * Operations every embedding provider implements. Providers only turn texts into vectors;
+ * validation, batching, retries and caching are done by lib/embedding-service, so they work the
+ * same whichever provider an embedding index uses.
+ *
+ * @module types/embedding-provider
+ */
+
+/**
+ * What a text is embedded for; providers with asymmetric models embed queries and documents
+ * differently
+ */
+export type EmbeddingInputType = "query" | "document"
+
+/**
+ * Options of an embedding request
+ */
+export interface EmbeddingRequestOptions {
+  model: string
+  // Dimension the vectors must have; providers that can shorten vectors are asked for it
+  dimensions: number
+  inputType: EmbeddingInputType
+}
+
+/**
+ * Operations of an embedding provider
+ */
+export interface EmbeddingProvider {
+  // Provider name, stored on embedding indexes
+  readonly name: string
+
+  // Model used when none is configured
+  readonly defaultModel: string
+
+  // Texts the provider accepts per request
+  readonly maxBatchSize: number
+
+  // Dimension of a model's vectors, or undefined for models the provider does not know
+  getDimension(model: string): number | undefined
+
+  // Embeds the texts in one request; vectors are returned in the order of the texts
+  embed(texts: string[], options: EmbeddingRequestOptions): Promise<number[][]>
+}
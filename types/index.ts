@@ -29,10 +29,150 @@ export interface Document {
   created_at: string
   updated_at: string
   chunk_count?: number
+  page_count?: number
+  title?: string // Page title for HTML documents
+  canonical_url?: string // Canonical URL for HTML documents
+  file_count?: number // Indexed files for repository archives
+  batch_id?: string // Archive upload the document was created from
+  version?: number // Version that search currently serves
+  version_count?: number // Highest version uploaded so far
+  content_hash?: string // SHA-256 of the file bytes, used to detect duplicate uploads
+  duplicate_of?: string // Earlier document with the same content, when the user kept both
+  summary?: string // Short LLM summary generated at ingestion
+  tags?: string[] // Topic tags, suggested at ingestion and editable by the user
+  language?: string // ISO 639-1 code of the document's natural language
   embedding_model?: string
   debug_info?: Record<string, any>
 }
 
+// One uploaded revision of a document
+export interface DocumentVersion {
+  document_id: string
+  version: number
+  user_id: string
+  name: string
+  file_type: string
+  file_size: number
+  file_path: string
+  blob_url?: string
+  status: "processing" | "indexed" | "failed"
+  chunk_count?: number
+  error_message?: string
+  content_hash?: string
+  purged?: boolean // Vectors (and possibly the blob) removed by the retention policy
+  created_at: string
+  updated_at: string
+}
+
+// Archive upload that expands into one document per file
+export interface DocumentBatch {
+  id: string
+  user_id: string
+  name: string
+  status: "processing" | "completed" | "failed"
+  total_files: number
+  processed_files: number
+  failed_files: number
+  skipped_files: number
+  errors: Array<{ path: string; document_id?: string; error: string }>
+  skipped: Array<{ path: string; reason: string }>
+  error_message?: string
+  next_file?: number // Index of the archive file the job processes next
+  next_document_id?: string // Document of that file, kept when a run fails part way through it
+  created_at: string
+  updated_at: string
+}
+
+// Resumable upload of one file in parts
+export interface UploadSession {
+  id: string
+  user_id: string
+  document_id: string
+  file_name: string
+  file_type: string
+  file_size: number
+  part_size: number
+  total_parts: number
+  status: "uploading" | "completing" | "completed" | "aborted"
+  blob_url?: string // Assembled file, once completed
+  content_hash?: string // SHA-256 of the whole file as computed by the client
+  on_duplicate?: "replace" | "keep_both" // Choice made when the file matched an existing document
+  created_at: string
+  updated_at: string
+  expires_at: string
+}
+
+// Confirmed part of a resumable upload
+export interface UploadPart {
+  upload_id: string
+  part_number: number
+  size: number
+  checksum: string // SHA-256 of the part bytes
+  blob_url: string
+}
+
+// Background job kinds
+export type JobType =
+  | "process_document"
+  | "create_version"
+  | "migrate_embeddings"
+  | "check_consistency"
+  | "export_snapshot"
+  | "restore_snapshot"
+  | "process_batch"
+
+// Persisted background job with lease-based ownership
+export interface Job {
+  id: string
+  type: JobType
+  user_id: string
+  document_id?: string
+  status: "queued" | "running" | "completed" | "failed"
+  payload: Record<string, any>
+  attempts: number
+  max_attempts: number
+  progress: number
+  stage?: string
+  message?: string
+  result?: Record<string, any>
+  checkpoint?: Record<string, any> // Where a paused job continues; kept across retries
+  error_message?: string
+  lease_owner?: string
+  lease_expires_at?: number // Epoch milliseconds; numeric so it can be range-filtered
+  heartbeat_at?: string
+  run_after: number // Epoch milliseconds before which the job is not picked up
+  created_at: string
+  updated_at: string
+}
+
+// Entity extracted from document chunks into the knowledge graph
+export interface GraphNode {
+  id: string
+  user_id: string
+  name: string
+  type: string // e.g. person, organization, concept
+  description?: string
+  document_ids: string[] // Documents mentioning the entity
+  chunk_ids: string[] // Chunks mentioning the entity
+  mention_count: number
+  created_at: string
+  updated_at: string
+}
+
+// Relationship between two entities, as stated in document chunks
+export interface GraphEdge {
+  id: string
+  user_id: string
+  source_id: string
+  target_id: string
+  relation: string // Lowercase snake_case, e.g. works_for
+  document_ids: string[] // Documents stating the relationship
+  chunk_ids: string[] // Chunks stating the relationship
+  mention_count: number
+  created_at: string
+  updated_at: string
+}
+
 // Document processing options
 export interface ProcessDocumentOptions {
   documentId: string
@@ -41,6 +181,8 @@ export interface ProcessDocumentOptions {
   fileName: string
   fileType: string
   fileUrl: string
+  batchId?: string
+  replaceDocumentIds?: string[] // Duplicates deleted once this document is indexed
 }
 
 // Chat message
@@ -70,6 +212,10 @@ export interface Conversation {
   created_at: string
   updated_at: string
   message_count: number
+  tags?: string[]
+  folder?: string | null
+  last_message?: string | null
+  is_pinned?: boolean
 }
 
 // Search options
@@ -93,6 +239,14 @@ export interface SearchResult {
   date: string
   relevance: number
   highlights: string[]
+  pageNumber?: number
+  sheetName?: string
+  rowStart?: number
+  rowEnd?: number
+  sourcePath?: string
+  symbol?: string
+  startLine?: number
+  endLine?: number
 }
 
 // Analytics data
@@ -0,0 +1,351 @@
+/**
+ * Supabase Database Types
+ *
+ * Table types for the Supabase client, matching supabase/migrations. Keep in step with the
+ * migrations, or regenerate with `supabase gen types typescript`.
+ *
+ * @module types/supabase
+ */
+
+export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      conversations: {
+        Row: {
+          id: string
+          user_id: string
+          title: string
+          tags: string[]
+          folder: string | null
+          last_message: string | null
+          is_pinned: boolean
+          message_count: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id: string
+          user_id: string
+          title?: string
+          tags?: string[]
+          folder?: string | null
+          last_message?: string | null
+          is_pinned?: boolean
+          message_count?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          title?: string
+          tags?: string[]
+          folder?: string | null
+          last_message?: string | null
+          is_pinned?: boolean
+          message_count?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      messages: {
+        Row: {
+          id: string
+          seq: number
+          conversation_id: string
+          user_id: string
+          role: string
+          content: string
+          sources: string[]
+          metadata: Json
+          created_at: string
+        }
+        Insert: {
+          id: string
+          conversation_id: string
+          user_id: string
+          role: string
+          content: string
+          sources?: string[]
+          metadata?: Json
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          conversation_id?: string
+          user_id?: string
+          role?: string
+          content?: string
+          sources?: string[]
+          metadata?: Json
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      search_logs: {
+        Row: {
+          id: number
+          user_id: string
+          query: string
+          search_type: string
+          filters: Json
+          result_count: number
+          created_at: string
+        }
+        Insert: {
+          user_id: string
+          query: string
+          search_type: string
+          filters?: Json
+          result_count?: number
+          created_at?: string
+        }
+        Update: {
+          user_id?: string
+          query?: string
+          search_type?: string
+          filters?: Json
+          result_count?: number
+          created_at?: string
+        }
+        Relationships: []
+      }
+      embedding_cache: {
+        Row: {
+          key: string
+          provider: string
+          model: string
+          dimensions: number
+          embedding: number[]
+          hit_count: number
+          created_at: string
+          last_used_at: string
+        }
+        Insert: {
+          key: string
+          provider: string
+          model: string
+          dimensions: number
+          embedding: number[]
+          hit_count?: number
+          created_at?: string
+          last_used_at?: string
+        }
+        Update: {
+          key?: string
+          provider?: string
+          model?: string
+          dimensions?: number
+          embedding?: number[]
+          hit_count?: number
+          created_at?: string
+          last_used_at?: string
+        }
+        Relationships: []
+      }
+      jobs: {
+        Row: {
+          id: string
+          type: string
+          user_id: string
+          document_id: string | null
+          status: string
+          payload: Json
+          attempts: number
+          max_attempts: number
+          progress: number
+          stage: string | null
+          message: string | null
+          result: Json | null
+          checkpoint: Json | null
+          error_message: string | null
+          lease_owner: string | null
+          lease_expires_at: number | null
+          heartbeat_at: string | null
+          run_after: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id: string
+          type: string
+          user_id: string
+          document_id?: string | null
+          status?: string
+          payload?: Json
+          attempts?: number
+          max_attempts?: number
+          progress?: number
+          stage?: string | null
+          message?: string | null
+          result?: Json | null
+          checkpoint?: Json | null
+          error_message?: string | null
+          lease_owner?: string | null
+          lease_expires_at?: number | null
+          heartbeat_at?: string | null
+          run_after?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          type?: string
+          user_id?: string
+          document_id?: string | null
+          status?: string
+          payload?: Json
+          attempts?: number
+          max_attempts?: number
+          progress?: number
+          stage?: string | null
+          message?: string | null
+          result?: Json | null
+          checkpoint?: Json | null
+          error_message?: string | null
+          lease_owner?: string | null
+          lease_expires_at?: number | null
+          heartbeat_at?: string | null
+          run_after?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      vector_records: {
+        Row: {
+          dimension: number
+          namespace: string
+          id: string
+          embedding: string
+          sparse_values: Json | null
+          metadata: Json
+          updated_at: string
+        }
+        Insert: {
+          dimension: number
+          namespace?: string
+          id: string
+          embedding: string
+          sparse_values?: Json | null
+          metadata?: Json
+          updated_at?: string
+        }
+        Update: {
+          dimension?: number
+          namespace?: string
+          id?: string
+          embedding?: string
+          sparse_values?: Json | null
+          metadata?: Json
+          updated_at?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      claim_job: {
+        Args: { job_id: string; worker_id: string; lease_ms: number }
+        Returns: Database["public"]["Tables"]["jobs"]["Row"][]
+      }
+      claim_next_job: {
+        Args: { worker_id: string; lease_ms: number; job_types?: string[] | null }
+        Returns: Database["public"]["Tables"]["jobs"]["Row"][]
+      }
+      delete_vector_records: {
+        Args: { record_dimension: number; record_namespace: string; filter: Json }
+        Returns: number
+      }
+      embedding_cache_stats: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          entries: number
+          hits: number
+          oldest_at: string | null
+          newest_at: string | null
+          average_age_seconds: number | null
+        }[]
+      }
+      ensure_vector_dimension: {
+        Args: { index_dimension: number }
+        Returns: undefined
+      }
+      job_clock_ms: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      match_vector_records: {
+        Args: {
+          query_embedding: string
+          match_count: number
+          match_namespace?: string
+          filter?: Json | null
+          query_sparse?: Json | null
+          include_values?: boolean
+          listing?: boolean
+        }
+        Returns: {
+          id: string
+          score: number
+          embedding: string | null
+          metadata: Json
+        }[]
+      }
+      prune_embedding_cache: {
+        Args: { max_entries: number; ttl_seconds: number }
+        Returns: number
+      }
+      touch_embedding_cache: {
+        Args: { cache_keys: string[] }
+        Returns: undefined
+      }
+      update_vector_metadata: {
+        Args: { record_dimension: number; record_namespace: string; record_id: string; patch: Json }
+        Returns: boolean
+      }
+      vector_filter_string: {
+        Args: { filter: Json; field: string }
+        Returns: string | null
+      }
+      vector_metadata_condition: {
+        Args: { value: Json; op: string; operand: Json }
+        Returns: boolean
+      }
+      vector_metadata_matches: {
+        Args: { metadata: Json; filter: Json }
+        Returns: boolean
+      }
+      vector_namespace_stats: {
+        Args: { record_dimension: number }
+        Returns: {
+          namespace: string
+          vector_count: number
+        }[]
+      }
+      vector_sparse_dot: {
+        Args: { a: Json; b: Json }
+        Returns: number
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Vector Store Types
+ *
+ * Records, queries and the operations every vector store backend implements. The shapes follow
+ * Pinecone's REST API, which the application was written against, so the Pinecone backend passes
+ * them through unchanged and other backends reproduce its behaviour, including its metadata
+ * filter language ($eq, $ne, $gt, $gte, $lt, $lte, $in, $nin, $exists, $and, $or).
+ *
+ * @module types/vector-store
+ */
+
+import type { SparseValues } from "@/lib/sparse-encoder"
+
+/**
+ * Stored vector with its metadata
+ */
+export interface VectorRecord {
+  id: string
+  values: number[]
+  sparseValues?: SparseValues
+  metadata?: Record<string, any>
+}
+
+/**
+ * Options for a similarity query
+ */
+export interface VectorQueryOptions {
+  topK?: number
+  includeMetadata?: boolean
+  includeValues?: boolean
+  filter?: Record<string, any>
+  namespace?: string
+  sparseVector?: SparseValues
+}
+
+export interface VectorQueryMatch {
+  id: string
+  score?: number
+  values?: number[]
+  metadata?: Record<string, any>
+}
+
+/**
+ * Query result; failed queries report the error here instead of throwing
+ */
+export interface VectorQueryResponse {
+  matches: VectorQueryMatch[]
+  namespace?: string
+  error?: boolean
+  errorMessage?: string
+  status?: number
+}
+
+/**
+ * Records to delete: by ID, by metadata filter, or the whole namespace
+ */
+export interface VectorDeleteOptions {
+  ids?: string[]
+  filter?: Record<string, any>
+  deleteAll?: boolean
+  namespace?: string
+}
+
+export interface VectorIndexStats {
+  namespaces: Record<string, { vectorCount: number }>
+  dimension: number
+  indexFullness: number
+  totalVectorCount: number
+}
+
+export interface VectorStoreHealth {
+  healthy: boolean
+  error?: string
+  details?: any
+}
+
+/**
+ * Operations of a vector store backend
+ */
+export interface VectorStore {
+  // Backend name for logs and health checks
+  readonly name: string
+
+  upsertVectors(
+    vectors: VectorRecord[],
+    options?: { namespace?: string; batchSize?: number },
+  ): Promise<{ upsertedCount: number }>
+
+  // Queries by vector, or by the ID of a stored vector
+  queryVectors(queryInput: number[] | string, options?: VectorQueryOptions): Promise<VectorQueryResponse>
+
+  fetchVectors(
+    ids: string[],
+    options?: { namespace?: string; includeValues?: boolean },
+  ): Promise<{ vectors: Record<string, VectorRecord> }>
+
+  // Merges the fields into the stored metadata
+  updateVectorMetadata(id: string, metadata: Record<string, any>, options?: { namespace?: string }): Promise<void>
+
+  deleteVectors(options: VectorDeleteOptions): Promise<{ deletedCount?: number }>
+
+  listNamespaces(): Promise<string[]>
+
+  describeIndexStats(): Promise<VectorIndexStats>
+
+  healthCheck(): Promise<VectorStoreHealth>
+}
+
+/**
+ * Embedding model and the vectors it produced
+ * Each index keeps its vectors in namespaces of its own, so a new model is indexed next to the
+ * one search uses until it is switched on
+ */
+export interface EmbeddingIndex {
+  // "" for the index the application started with; namespaces of other indexes carry the ID
+  id: string
+  // Embedding provider of the model (see lib/embedding-providers); "openai" when not set
+  provider?: string
+  model: string
+  dimension: number
+  // Pinecone index holding the vectors, for dimensions the configured index cannot store
+  host?: string
+  created_at?: string
+}
+
+/**
+ * Re-embedding of every user's records from the active index into a new one
+ * Copying fills the target while search uses the source; once a pass finds nothing left to copy,
+ * search switches to the target and a last pass picks up writes made around the switch
+ */
+export interface EmbeddingMigration {
+  id: string
+  status: "copying" | "catching_up" | "completed" | "failed" | "cancelled"
+  source: EmbeddingIndex
+  target: EmbeddingIndex
+  // Job that continues the migration
+  job_id?: string
+  // Passes over all namespaces; the migration switches after a pass that copied nothing
+  pass: number
+  // Last namespace finished in the current pass, in sorted order
+  cursor?: string
+  // Records copied in the current pass
+  pass_copied: number
+  namespaces_total: number
+  namespaces_done: number
+  records_copied: number
+  chunks_embedded: number
+  // Chunks without stored text, which cannot be embedded again
+  records_skipped: number
+  error_message?: string
+  started_at: string
+  switched_at?: string
+  completed_at?: string
+  updated_at: string
+}
+
+/**
+ * Which index search uses, the one it used before, and the migration in progress
+ */
+export interface EmbeddingIndexState {
+  active: EmbeddingIndex
+  // Index to roll back to until it is retired
+  previous?: EmbeddingIndex
+  migration?: EmbeddingMigration
+}